@@ -0,0 +1,64 @@
+// Service worker for the field mode (/field). It only keeps the app itself
+// available offline: Firestore data comes from the SDK's IndexedDB cache and
+// queued work from src/lib/offline-queue.ts, so API calls are never cached here.
+
+const CACHE_NAME = "goldmaq-shell-v1";
+const APP_SHELL = ["/field", "/manifest.webmanifest", "/favicon.ico"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(APP_SHELL))
+      .catch((error) => console.warn("sw: app shell not cached:", error))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInCache = (request, response) => {
+  if (response.ok) {
+    const copy = response.clone();
+    caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+  }
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  // Build output has hashed names, so a cached copy never goes stale.
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(
+      caches.match(request).then((cached) => cached || fetch(request).then((response) => putInCache(request, response)))
+    );
+    return;
+  }
+
+  // Pages: always try the network, fall back to the last copy seen (or the
+  // field mode when the page was never opened on this device).
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request)
+        .then((response) => putInCache(request, response))
+        .catch(() => caches.match(request).then((cached) => cached || caches.match("/field")))
+    );
+    return;
+  }
+
+  if (url.pathname.startsWith("/images/") || url.pathname === "/favicon.ico") {
+    event.respondWith(
+      fetch(request)
+        .then((response) => putInCache(request, response))
+        .catch(() => caches.match(request))
+    );
+  }
+});
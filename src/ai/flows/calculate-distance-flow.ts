@@ -2,7 +2,8 @@
 'use server';
 /**
  * @fileOverview A Genkit flow to calculate driving distance between two addresses
- * using the Google Maps Directions API and estimate toll costs using AI.
+ * using the configured routing provider (see src/lib/routing) and estimate toll
+ * costs using AI.
  *
  * - calculateDistance - A function that handles distance calculation and toll estimation.
  * - CalculateDistanceInput - The input type for the calculateDistance function.
@@ -11,19 +12,37 @@
 
 import { ai } from '@/ai/genkit';
 import { z, type GenerateResponse } from 'genkit'; // Importa GenerateResponse
+import { getRoutingProvider } from '@/lib/routing/providers';
+import type { ProviderRoute, RoutingFailure } from '@/lib/routing';
+import { routingProviderOptions, type RoutingProviderName } from '@/types';
+
+const GeoPointSchema = z.object({
+  latitude: z.number(),
+  longitude: z.number(),
+});
 
 const CalculateDistanceInputSchema = z.object({
   originAddress: z.string().describe("The full starting address."),
   destinationAddress: z.string().describe("The full destination address."),
+  originCoordinates: GeoPointSchema.optional().nullable().describe("Known coordinates of the origin; skips geocoding it."),
+  destinationCoordinates: GeoPointSchema.optional().nullable().describe("Known coordinates of the destination; skips geocoding it."),
 });
 export type CalculateDistanceInput = z.infer<typeof CalculateDistanceInputSchema>;
 
 const CalculateDistanceOutputSchema = z.object({
   distanceKm: z.number().describe("The calculated distance in kilometers (one-way)."),
-  status: z.enum(['SUCCESS', 'SIMULATED', 'ERROR_NO_ADDRESS', 'ERROR_GOOGLE_API_FAILED', 'ERROR_GOOGLE_API_KEY_MISSING', 'ERROR_NO_ROUTE_FOUND', 'ERROR_AI_TOLL_ESTIMATION_FAILED']).describe("Status of the calculation."),
+  durationMinutes: z.number().optional().nullable().describe("The driving time in minutes (one-way), when the provider returns it."),
+  routePolyline: z.string().optional().nullable().describe("Encoded polyline (precision 5) of the one-way route, matched against the toll-plaza table."),
+  provider: z.enum(routingProviderOptions).optional().describe("Routing provider that calculated the route."),
+  originCoordinates: GeoPointSchema.optional().nullable().describe("Coordinates of the origin, given or geocoded."),
+  destinationCoordinates: GeoPointSchema.optional().nullable().describe("Coordinates of the destination, given or geocoded."),
+  status: z.enum([
+    'SUCCESS', 'SIMULATED', 'ERROR_NO_ADDRESS', 'ERROR_GOOGLE_API_FAILED', 'ERROR_GOOGLE_API_KEY_MISSING', 'ERROR_NO_ROUTE_FOUND',
+    'ERROR_ROUTING_NOT_CONFIGURED', 'ERROR_ROUTING_FAILED', 'ERROR_GEOCODING_FAILED', 'ERROR_AI_TOLL_ESTIMATION_FAILED',
+  ]).describe("Status of the calculation."),
   errorMessage: z.string().optional().describe("Error message if the status is an error."),
-  estimatedTollCostByAI: z.number().optional().nullable().describe("Estimated toll cost (one-way) in BRL, calculated by AI if Google Maps indicates tolls. May be null if no tolls or estimation fails."),
-  googleMapsApiIndicstedTolls: z.boolean().optional().describe("Indicates if Google Maps API suggested the route has tolls.")
+  estimatedTollCostByAI: z.number().optional().nullable().describe("Estimated toll cost (one-way) in BRL, calculated by AI if Google Maps indicates tolls. Only a fallback for when the toll-plaza table cannot be used. May be null if no tolls or estimation fails."),
+  googleMapsApiIndicstedTolls: z.boolean().optional().describe("Indicates if the routing provider suggested the route has tolls.")
 });
 export type CalculateDistanceOutput = z.infer<typeof CalculateDistanceOutputSchema>;
 
@@ -49,56 +68,31 @@ const TollEstimationLLMOutputSchema = z.object({
 let tollEstimationPrompt: ((input: z.infer<typeof TollEstimationLLMInputSchema>) => Promise<GenerateResponse<z.infer<typeof TollEstimationLLMOutputSchema>>>) | undefined;
 let calculateDistanceFlow: ((input: CalculateDistanceInput) => Promise<CalculateDistanceOutput>) | undefined;
 
-async function fetchRouteFromGoogleMaps(
-  origin: string,
-  destination: string
-): Promise<{ distanceKm: number; durationText: string; googleIndicatesTolls: boolean } | { error: string; status: CalculateDistanceOutput['status'] }> {
-  console.log(`[DistanceFlow/GoogleMaps] Fetching route. Origin: "${origin}", Destination: "${destination}"`);
-  const apiKey = process.env.GOOGLE_MAPS_API_KEY;
-  if (!apiKey) {
-    console.error("[DistanceFlow/GoogleMaps] Google API Key for Maps is missing from environment variables (expected GOOGLE_MAPS_API_KEY).");
-    return { error: "Google Maps API Key (GOOGLE_MAPS_API_KEY) is not configured.", status: 'ERROR_GOOGLE_API_KEY_MISSING' };
-  }
-
-  const url = `https://maps.googleapis.com/maps/api/directions/json?origin=${encodeURIComponent(origin)}&destination=${encodeURIComponent(destination)}&key=${apiKey}&language=pt-BR&units=metric`;
-
-  try {
-    const response = await fetch(url);
-    const data = await response.json();
-
-    if (data.status !== 'OK' || !data.routes || data.routes.length === 0) {
-      console.warn(`[DistanceFlow/GoogleMaps] API error or no route found. Status: ${data.status}, Message: ${data.error_message || 'No routes found'}`);
-      return { error: data.error_message || `No route found between ${origin} and ${destination}. Google Status: ${data.status}`, status: 'ERROR_NO_ROUTE_FOUND' };
-    }
-
-    const route = data.routes[0];
-    const leg = route.legs[0];
-
-    if (!leg.distance || !leg.duration) {
-        console.warn("[DistanceFlow/GoogleMaps] API response missing distance or duration.", leg);
-        return { error: "Incomplete route information from Google Maps API.", status: 'ERROR_GOOGLE_API_FAILED'};
-    }
+type RoutedTrip = ProviderRoute & { provider: RoutingProviderName };
 
-    const distanceKm = parseFloat((leg.distance.value / 1000).toFixed(1));
-    const durationText = leg.duration.text;
+async function fetchRoute(input: CalculateDistanceInput): Promise<RoutedTrip | RoutingFailure> {
+  const provider = getRoutingProvider();
+  console.log(`[DistanceFlow] Routing with provider "${provider.name}".`);
+  const route = await provider.route(
+    { address: input.originAddress, coordinates: input.originCoordinates },
+    { address: input.destinationAddress, coordinates: input.destinationCoordinates }
+  );
+  return 'error' in route ? route : { ...route, provider: provider.name };
+}
 
-    let googleIndicatesTolls = false;
-    if (route.warnings && route.warnings.some((w: string) => w.toLowerCase().includes("pedágio") || w.toLowerCase().includes("toll"))) {
-        googleIndicatesTolls = true;
-    }
-    if (leg.tolls_info || (leg as any).tolls ) { // (leg as any).tolls é uma verificação adicional para algumas respostas de API
-        googleIndicatesTolls = true;
-    }
-    if (route.summary && (route.summary.toLowerCase().includes("toll") || route.summary.toLowerCase().includes("pedágio"))){
-        googleIndicatesTolls = true;
-    }
-    
-    console.log(`[DistanceFlow/GoogleMaps] Route found: Distance ${distanceKm} km, Duration ${durationText}, Google Indicates Tolls: ${googleIndicatesTolls}`);
-    return { distanceKm, durationText, googleIndicatesTolls };
-  } catch (error: any) {
-    console.error("[DistanceFlow/GoogleMaps] Error fetching route:", error);
-    return { error: `Failed to fetch route from Google Maps: ${error.message}`, status: 'ERROR_GOOGLE_API_FAILED' };
-  }
+// Output for a route found by the provider; the stub's routes are reported as simulated.
+function toRouteOutput(route: RoutedTrip): CalculateDistanceOutput {
+  return {
+    distanceKm: route.distanceKm,
+    durationMinutes: route.durationMinutes,
+    routePolyline: route.polyline,
+    provider: route.provider,
+    originCoordinates: route.originCoordinates,
+    destinationCoordinates: route.destinationCoordinates,
+    status: route.provider === 'stub' ? 'SIMULATED' : 'SUCCESS',
+    estimatedTollCostByAI: null,
+    googleMapsApiIndicstedTolls: route.indicatesTolls,
+  };
 }
 
 if (ai) {
@@ -143,7 +137,7 @@ Exemplo de saída se não houver pedágio provável:
         };
       }
 
-      const routeResult = await fetchRouteFromGoogleMaps(input.originAddress, input.destinationAddress);
+      const routeResult = await fetchRoute(input);
 
       if ('error' in routeResult) {
         return {
@@ -154,11 +148,13 @@ Exemplo de saída se não houver pedágio provável:
         };
       }
 
-      const { distanceKm, googleIndicatesTolls } = routeResult;
+      const routeOutput = toRouteOutput(routeResult);
+      const { distanceKm } = routeResult;
+      const googleIndicatesTolls = routeResult.indicatesTolls;
       let estimatedTollCostOneWay: number | null = null;
-      let aiEstimationStatus: CalculateDistanceOutput['status'] = 'SUCCESS';
+      let aiEstimationStatus: CalculateDistanceOutput['status'] = routeOutput.status;
 
-      console.log(`[DistanceFlow] Google Maps API indicated tolls: ${googleIndicatesTolls}`);
+      console.log(`[DistanceFlow] Routing provider indicated tolls: ${googleIndicatesTolls}`);
 
       if (googleIndicatesTolls && tollEstimationPrompt) {
         try {
@@ -189,44 +185,34 @@ Exemplo de saída se não houver pedágio provável:
           aiEstimationStatus = 'ERROR_AI_TOLL_ESTIMATION_FAILED';
         }
       } else {
-         console.log("[DistanceFlow] Google Maps did not indicate tolls or tollEstimationPrompt not defined. Skipping AI toll estimation.");
+         console.log("[DistanceFlow] Routing provider did not indicate tolls or tollEstimationPrompt not defined. Skipping AI toll estimation.");
          if (googleIndicatesTolls && !tollEstimationPrompt) {
-           console.warn("[DistanceFlow] Tolls indicated by Maps, but tollEstimationPrompt is undefined. This can happen if Genkit AI failed to initialize.");
+           console.warn("[DistanceFlow] Tolls indicated by the routing provider, but tollEstimationPrompt is undefined. This can happen if Genkit AI failed to initialize.");
          }
       }
 
       console.log(`[DistanceFlow] Final estimatedTollCostOneWay before returning: ${estimatedTollCostOneWay}`);
       
       return {
-        distanceKm: distanceKm,
-        status: aiEstimationStatus, 
+        ...routeOutput,
+        status: aiEstimationStatus,
         estimatedTollCostByAI: estimatedTollCostOneWay,
-        googleMapsApiIndicstedTolls: googleIndicatesTolls,
         errorMessage: aiEstimationStatus === 'ERROR_AI_TOLL_ESTIMATION_FAILED' ? "AI toll estimation failed." : undefined,
       };
     }
   );
 } else {
-  console.warn("[DistanceFlow] Genkit AI instance (ai) is NOT available. Defining dummy flow.");
+  console.warn("[DistanceFlow] Genkit AI instance (ai) is NOT available. Defining flow without AI toll estimation.");
+  // Routing does not depend on Genkit; only the toll estimate is lost.
   calculateDistanceFlow = async (input: CalculateDistanceInput): Promise<CalculateDistanceOutput> => {
-    console.warn("[DistanceFlow] Running DUMMY flow because Genkit AI is unavailable.");
     if (!input.originAddress || !input.destinationAddress) {
-      return { distanceKm: 0, status: 'ERROR_NO_ADDRESS', errorMessage: "Origin or destination address is missing in dummy flow.", estimatedTollCostByAI: null };
+      return { distanceKm: 0, status: 'ERROR_NO_ADDRESS', errorMessage: "Origin or destination address is missing.", estimatedTollCostByAI: null };
     }
-    const simulatedDistance = Math.floor(Math.random() * 450) + 50;
-    const simGoogleIndicatesTolls = Math.random() > 0.5;
-    let simTollCost: number | null = null;
-    if (simGoogleIndicatesTolls) {
-        simTollCost = Math.random() > 0.3 ? Math.floor(Math.random() * 50) + 5 : null;
+    const routeResult = await fetchRoute(input);
+    if ('error' in routeResult) {
+      return { distanceKm: 0, status: routeResult.status, errorMessage: routeResult.error, estimatedTollCostByAI: null };
     }
-
-    return {
-      distanceKm: simulatedDistance,
-      status: 'SIMULATED',
-      errorMessage: 'Dummy flow: Simulating API key missing, as Genkit/Google Maps is not fully initialized.',
-      estimatedTollCostByAI: simTollCost,
-      googleMapsApiIndicstedTolls: simGoogleIndicatesTolls,
-    };
+    return toRouteOutput(routeResult);
   };
 }
 
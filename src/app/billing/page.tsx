@@ -0,0 +1,14 @@
+
+import { AppLayout } from "@/components/layout/AppLayout";
+import { BillingPageContent } from "@/components/billing/BillingPageContent";
+import { Suspense } from 'react';
+
+export default function BillingPage() {
+  return (
+    <AppLayout>
+      <Suspense fallback={<div>Carregando faturamento...</div>}>
+        <BillingPageContent />
+      </Suspense>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,14 @@
+
+import { AppLayout } from "@/components/layout/AppLayout";
+import { BoletosPageContent } from "@/components/boletos/BoletosPageContent";
+import { Suspense } from 'react';
+
+export default function BoletosPage() {
+  return (
+    <AppLayout>
+      <Suspense fallback={<div>Carregando boletos...</div>}>
+        <BoletosPageContent />
+      </Suspense>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,18 @@
+import { BudgetApprovalPageContent } from "@/components/budget-approval/BudgetApprovalPageContent";
+import { Suspense } from 'react';
+import type { Metadata } from 'next';
+
+// Public: opened by the customer from the link, without AppLayout or login.
+export const metadata: Metadata = {
+  title: 'Aprovação de Orçamento | Gold Maq',
+  description: 'Consulte e responda ao orçamento enviado pela Gold Maq.',
+  robots: { index: false, follow: false },
+};
+
+export default function BudgetApprovalPage() {
+  return (
+    <Suspense fallback={<div>Carregando orçamento...</div>}>
+      <BudgetApprovalPageContent />
+    </Suspense>
+  );
+}
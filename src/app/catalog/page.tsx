@@ -0,0 +1,13 @@
+import { AppLayout } from "@/components/layout/AppLayout";
+import { CatalogPageContent } from "@/components/catalog/CatalogPageContent";
+import { Suspense } from 'react';
+
+export default function CatalogPage() {
+  return (
+    <AppLayout>
+      <Suspense fallback={<div>Carregando catálogo...</div>}>
+        <CatalogPageContent />
+      </Suspense>
+    </AppLayout>
+  );
+}
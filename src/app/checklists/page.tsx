@@ -0,0 +1,13 @@
+import { AppLayout } from "@/components/layout/AppLayout";
+import { ChecklistTemplatesPageContent } from "@/components/checklists/ChecklistTemplatesPageContent";
+import { Suspense } from 'react';
+
+export default function ChecklistTemplatesPage() {
+  return (
+    <AppLayout>
+      <Suspense fallback={<div>Carregando checklists...</div>}>
+        <ChecklistTemplatesPageContent />
+      </Suspense>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,13 @@
+import { AppLayout } from "@/components/layout/AppLayout";
+import { DispatchBoardPageContent } from "@/components/dispatch/DispatchBoardPageContent";
+import { Suspense } from 'react';
+
+export default function DispatchPage() {
+  return (
+    <AppLayout>
+      <Suspense fallback={<div>Carregando agenda...</div>}>
+        <DispatchBoardPageContent />
+      </Suspense>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,13 @@
+import { AppLayout } from "@/components/layout/AppLayout";
+import { FieldModePageContent } from "@/components/field/FieldModePageContent";
+import { Suspense } from 'react';
+
+export default function FieldModePage() {
+  return (
+    <AppLayout>
+      <Suspense fallback={<div>Carregando suas ordens de serviço...</div>}>
+        <FieldModePageContent />
+      </Suspense>
+    </AppLayout>
+  );
+}
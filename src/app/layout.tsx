@@ -1,12 +1,20 @@
 
-import type { Metadata } from 'next';
+import type { Metadata, Viewport } from 'next';
 import './globals.css';
 import { Toaster } from "@/components/ui/toaster";
 import { AppQueryProvider } from '@/components/shared/QueryProvider'; 
+import { AuthProvider } from '@/components/auth/AuthProvider';
+import { ServiceWorkerRegistration } from '@/components/shared/ServiceWorkerRegistration';
 
 export const metadata: Metadata = {
   title: 'Gold Maq',
   description: 'Sistema de gerenciamento para as operações da Gold Maq.',
+  manifest: '/manifest.webmanifest',
+  appleWebApp: { capable: true, title: 'Gold Maq', statusBarStyle: 'default' },
+};
+
+export const viewport: Viewport = {
+  themeColor: '#f97316',
 };
 
 export default function RootLayout({
@@ -23,9 +31,12 @@ export default function RootLayout({
       </head>
       <body className="font-body antialiased">
         <AppQueryProvider> 
-          {children}
+          <AuthProvider>
+            {children}
+          </AuthProvider>
           <Toaster />
         </AppQueryProvider>
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
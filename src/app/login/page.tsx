@@ -0,0 +1,16 @@
+import { LoginPageContent } from "@/components/auth/LoginPageContent";
+import { Suspense } from 'react';
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Entrar | Gold Maq',
+  description: 'Acesso ao sistema de gerenciamento da Gold Maq.',
+};
+
+export default function LoginPage() {
+  return (
+    <Suspense fallback={<div>Carregando...</div>}>
+      <LoginPageContent />
+    </Suspense>
+  );
+}
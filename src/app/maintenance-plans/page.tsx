@@ -0,0 +1,13 @@
+import { AppLayout } from "@/components/layout/AppLayout";
+import { MaintenancePlansPageContent } from "@/components/maintenance-plans/MaintenancePlansPageContent";
+import { Suspense } from 'react';
+
+export default function MaintenancePlansPage() {
+  return (
+    <AppLayout>
+      <Suspense fallback={<div>Carregando planos de manutenção...</div>}>
+        <MaintenancePlansPageContent />
+      </Suspense>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,13 @@
+import { AppLayout } from "@/components/layout/AppLayout";
+import { ProductivityPageContent } from "@/components/productivity/ProductivityPageContent";
+import { Suspense } from 'react';
+
+export default function ProductivityPage() {
+  return (
+    <AppLayout>
+      <Suspense fallback={<div>Carregando produtividade...</div>}>
+        <ProductivityPageContent />
+      </Suspense>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,14 @@
+
+import { AppLayout } from "@/components/layout/AppLayout";
+import { RentalContractsPageContent } from "@/components/rental-contracts/RentalContractsPageContent";
+import { Suspense } from 'react';
+
+export default function RentalContractsPage() {
+  return (
+    <AppLayout>
+      <Suspense fallback={<div>Carregando contratos de locação...</div>}>
+        <RentalContractsPageContent />
+      </Suspense>
+    </AppLayout>
+  );
+}
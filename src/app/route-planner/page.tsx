@@ -0,0 +1,13 @@
+import { AppLayout } from "@/components/layout/AppLayout";
+import { RoutePlannerPageContent } from "@/components/route-planner/RoutePlannerPageContent";
+import { Suspense } from 'react';
+
+export default function RoutePlannerPage() {
+  return (
+    <AppLayout>
+      <Suspense fallback={<div>Carregando roteiro...</div>}>
+        <RoutePlannerPageContent />
+      </Suspense>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,13 @@
+import { AppLayout } from "@/components/layout/AppLayout";
+import { TollPlazasPageContent } from "@/components/toll-plazas/TollPlazasPageContent";
+import { Suspense } from 'react';
+
+export default function TollPlazasPage() {
+  return (
+    <AppLayout>
+      <Suspense fallback={<div>Carregando praças de pedágio...</div>}>
+        <TollPlazasPageContent />
+      </Suspense>
+    </AppLayout>
+  );
+}
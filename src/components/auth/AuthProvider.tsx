@@ -0,0 +1,97 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import type { ReactNode } from "react";
+import { onAuthStateChanged, sendEmailVerification, signInWithEmailAndPassword, signOut as firebaseSignOut, type User } from "firebase/auth";
+import { useQueryClient } from "@tanstack/react-query";
+import type { Technician } from "@/types";
+import { auth } from "@/lib/firebase";
+import { fetchTechnicianForAuthUser, setAuditActor } from "@/lib/repositories";
+import { hasPermission, type Permission } from "@/lib/permissions";
+
+interface AuthContextValue {
+  user: User | null;
+  technician: Technician | null;
+  isLoading: boolean;
+  linkError: string | null;
+  signIn: (email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+  can: (permission: Permission) => boolean;
+}
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient();
+  const [user, setUser] = useState<User | null>(null);
+  const [technician, setTechnician] = useState<Technician | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [linkError, setLinkError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!auth) {
+      console.error("AuthProvider: Firebase Auth is not available.");
+      setIsLoading(false);
+      return;
+    }
+    return onAuthStateChanged(auth, async (firebaseUser) => {
+      setIsLoading(true);
+      setUser(firebaseUser);
+      setTechnician(null);
+      setLinkError(null);
+      if (firebaseUser) {
+        try {
+          const linkedTechnician = await fetchTechnicianForAuthUser(firebaseUser.uid, firebaseUser.email, firebaseUser.emailVerified);
+          setTechnician(linkedTechnician);
+          if (!linkedTechnician && !firebaseUser.emailVerified) {
+            // The first link needs a verified e-mail; the user signs in again after confirming it.
+            await sendEmailVerification(firebaseUser);
+            setLinkError(`Confirme o e-mail ${firebaseUser.email ?? ""} pelo link que enviamos e entre novamente.`);
+          } else if (!linkedTechnician) {
+            setLinkError(`Nenhum colaborador cadastrado com o e-mail ${firebaseUser.email ?? ""}.`);
+          }
+        } catch (error: any) {
+          console.error("AuthProvider: erro ao carregar colaborador vinculado:", error);
+          setLinkError(error.message);
+        }
+      }
+      setIsLoading(false);
+    });
+  }, []);
+
+  const signIn = useCallback(async (email: string, password: string) => {
+    if (!auth) throw new Error("Firebase Auth não está disponível.");
+    await signInWithEmailAndPassword(auth, email.trim(), password);
+  }, []);
+
+  const signOut = useCallback(async () => {
+    if (!auth) return;
+    await firebaseSignOut(auth);
+    // Cached pages were loaded with the previous user's permissions.
+    queryClient.clear();
+  }, [queryClient]);
+
+  useEffect(() => {
+    setAuditActor(user ? { uid: user.uid, technicianId: technician?.id ?? null, name: technician?.name ?? user.email } : null);
+  }, [user, technician]);
+
+  const can = useCallback(
+    (permission: Permission) => hasPermission(technician?.role, permission),
+    [technician]
+  );
+
+  const value = useMemo<AuthContextValue>(
+    () => ({ user, technician, isLoading, linkError, signIn, signOut, can }),
+    [user, technician, isLoading, linkError, signIn, signOut, can]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { FC } from "react";
+import Image from "next/image";
+import { useRouter, useSearchParams } from "next/navigation";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import type * as z from "zod";
+import { Loader2, LogIn } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { LoginSchema } from "@/types";
+import { useAuth } from "@/components/auth/AuthProvider";
+
+const getAuthErrorMessage = (code?: string): string => {
+  switch (code) {
+    case "auth/invalid-credential":
+    case "auth/wrong-password":
+    case "auth/user-not-found":
+      return "E-mail ou senha incorretos.";
+    case "auth/too-many-requests":
+      return "Muitas tentativas. Aguarde alguns minutos e tente novamente.";
+    case "auth/user-disabled":
+      return "Este usuário foi desativado.";
+    case "auth/network-request-failed":
+      return "Falha de conexão. Verifique sua internet.";
+    default:
+      return "Não foi possível entrar. Tente novamente.";
+  }
+};
+
+export const LoginPageContent: FC = () => {
+  const [isClient, setIsClient] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const redirectTo = searchParams?.get("redirect") || "/";
+  const { user, isLoading, signIn } = useAuth();
+  const { toast } = useToast();
+
+  const form = useForm<z.infer<typeof LoginSchema>>({
+    resolver: zodResolver(LoginSchema),
+    defaultValues: { email: "", password: "" },
+  });
+
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  useEffect(() => {
+    if (!isLoading && user) {
+      router.replace(redirectTo.startsWith("/") ? redirectTo : "/");
+    }
+  }, [isLoading, user, redirectTo, router]);
+
+  if (!isClient) {
+    return null;
+  }
+
+  const onSubmit = async (values: z.infer<typeof LoginSchema>) => {
+    setIsSubmitting(true);
+    try {
+      await signIn(values.email, values.password);
+    } catch (error: any) {
+      toast({ title: "Erro ao Entrar", description: getAuthErrorMessage(error?.code), variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-sm shadow-lg">
+        <CardHeader className="items-center text-center">
+          <Image src="/images/logo.png" alt="Gold Maq Controle Logo" width={160} height={40} priority />
+          <CardTitle className="font-headline text-2xl pt-4">Entrar</CardTitle>
+          <CardDescription>Use o e-mail cadastrado no seu registro de colaborador.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} id="login-form" className="space-y-4">
+              <FormField control={form.control} name="email" render={({ field }) => (
+                <FormItem><FormLabel>E-mail</FormLabel><FormControl><Input type="email" autoComplete="email" placeholder="nome@goldmaq.com.br" {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+              <FormField control={form.control} name="password" render={({ field }) => (
+                <FormItem><FormLabel>Senha</FormLabel><FormControl><Input type="password" autoComplete="current-password" {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+            </form>
+          </Form>
+        </CardContent>
+        <CardFooter>
+          <Button type="submit" form="login-form" className="w-full bg-primary hover:bg-primary/90" disabled={isSubmitting || isLoading}>
+            {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogIn className="mr-2 h-4 w-4" />}
+            {isSubmitting ? "Entrando..." : "Entrar"}
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
@@ -22,14 +22,13 @@ import { PageHeader } from "@/components/shared/PageHeader";
 import { DataTablePlaceholder } from "@/components/shared/DataTablePlaceholder";
 import { FormModal } from "@/components/shared/FormModal";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
 import { db, storage } from "@/lib/firebase";
-import { collection, getDocs, addDoc, updateDoc, deleteDoc, doc, query, orderBy, writeBatch, setDoc, where } from "firebase/firestore";
+import { fetchAuxiliaryEquipment, fetchMaquinas, newAuxiliaryEquipmentId, createAuxiliaryEquipment, updateAuxiliaryEquipment, deleteAuxiliaryEquipment, queryKeys } from "@/lib/repositories";
 import { ref as storageRefFB, uploadBytes, getDownloadURL, deleteObject } from "firebase/storage";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { cn, getFileNameFromUrl } from "@/lib/utils";
 
-const FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME = "equipamentosAuxiliares";
-const FIRESTORE_MAQUINAS_COLLECTION_NAME = "equipamentos";
 const MAX_AUX_IMAGE_FILES = 5;
 
 const CUSTOM_AUXILIARY_TYPE_VALUE = "_CUSTOM_";
@@ -89,36 +88,11 @@ async function deleteAuxiliaryImageFromStorage(fileUrl?: string | null) {
   }
 }
 
-async function fetchAuxiliaryEquipment(): Promise<AuxiliaryEquipment[]> {
-  if (!db) {
-    console.error("fetchAuxiliaryEquipment: Firebase DB is not available.");
-    throw new Error("Firebase DB is not available");
-  }
-  const q = query(collection(db, FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME), orderBy("name", "asc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => {
-    const data = docSnap.data();
-    return {
-      id: docSnap.id,
-      ...data,
-      imageUrls: Array.isArray(data.imageUrls) ? data.imageUrls : null,
-    } as AuxiliaryEquipment;
-  });
-}
-
-async function fetchMaquinasPrincipais(): Promise<Maquina[]> {
-  if (!db) {
-    console.error("fetchMaquinasPrincipais: Firebase DB is not available.");
-    throw new Error("Firebase DB is not available");
-  }
-  const q = query(collection(db, FIRESTORE_MAQUINAS_COLLECTION_NAME), orderBy("brand", "asc"), orderBy("model", "asc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Maquina));
-}
-
 export function AuxiliaryEquipmentClientPage({ auxEquipmentIdFromUrl }: AuxiliaryEquipmentClientPageProps) {
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canManage = can("maquinas:manage");
 
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingItem, setEditingItem] = useState<AuxiliaryEquipment | null>(null);
@@ -147,14 +121,14 @@ export function AuxiliaryEquipmentClientPage({ auxEquipmentIdFromUrl }: Auxiliar
   });
 
   const { data: auxEquipmentList = [], isLoading: isLoadingAux, isError: isErrorAux, error: errorAux } = useQuery<AuxiliaryEquipment[], Error>({
-    queryKey: [FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME],
+    queryKey: queryKeys.auxiliaryEquipment.all,
     queryFn: fetchAuxiliaryEquipment,
     enabled: !!db,
   });
 
   const { data: maquinasPrincipaisList = [], isLoading: isLoadingMaquinasPrincipais } = useQuery<Maquina[], Error>({
-    queryKey: [FIRESTORE_MAQUINAS_COLLECTION_NAME],
-    queryFn: fetchMaquinasPrincipais,
+    queryKey: queryKeys.maquinas.all,
+    queryFn: fetchMaquinas,
     enabled: !!db,
   });
 
@@ -217,7 +191,7 @@ export function AuxiliaryEquipmentClientPage({ auxEquipmentIdFromUrl }: Auxiliar
     mutationFn: async (data: { formData: z.infer<typeof AuxiliaryEquipmentSchema>; newImageFiles: File[] }) => {
       if (!db) throw new Error("Conexão com Firebase não disponível para adicionar equipamento auxiliar.");
       setIsUploadingFiles(true);
-      const newAuxEquipmentId = doc(collection(db, FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME)).id;
+      const newAuxEquipmentId = newAuxiliaryEquipmentId();
       const uploadedImageUrls: string[] = [];
 
       for (let i = 0; i < data.newImageFiles.length; i++) {
@@ -234,11 +208,11 @@ export function AuxiliaryEquipmentClientPage({ auxEquipmentIdFromUrl }: Auxiliar
         notes: dataToSave.notes || null,
         imageUrls: uploadedImageUrls,
       };
-      await setDoc(doc(db, FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME, newAuxEquipmentId), finalData);
+      await createAuxiliaryEquipment(newAuxEquipmentId, finalData);
       return { ...finalData, id: newAuxEquipmentId };
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.auxiliaryEquipment.all });
       toast({ title: "Equipamento Auxiliar Adicionado", description: `${data.name} foi adicionado.` });
       closeModal();
     },
@@ -284,12 +258,11 @@ export function AuxiliaryEquipmentClientPage({ auxEquipmentIdFromUrl }: Auxiliar
         imageUrls: finalImageUrls,
       };
 
-      const itemRef = doc(db, FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME, data.id);
-      await updateDoc(itemRef, finalData as { [x: string]: any });
+      await updateAuxiliaryEquipment(data.id, finalData);
       return { ...finalData, id: data.id };
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.auxiliaryEquipment.all });
       toast({ title: "Equipamento Auxiliar Atualizado", description: `${data.name} foi atualizado.` });
       closeModal();
     },
@@ -314,30 +287,12 @@ export function AuxiliaryEquipmentClientPage({ auxEquipmentIdFromUrl }: Auxiliar
         }
       }
 
-      const batch = writeBatch(db);
-      const auxRef = doc(db, FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME, itemToDelete.id);
-      batch.delete(auxRef);
-
-      const maquinasQuery = query(
-        collection(db, FIRESTORE_MAQUINAS_COLLECTION_NAME),
-        where("linkedAuxiliaryEquipmentIds", "array-contains", itemToDelete.id)
-      );
-      const maquinasSnapshot = await getDocs(maquinasQuery);
-
-      maquinasSnapshot.forEach(maquinaDoc => {
-        const maquinaData = maquinaDoc.data() as Maquina;
-        const updatedLinkedIds = (maquinaData.linkedAuxiliaryEquipmentIds || []).filter(id => id !== itemToDelete.id);
-        if (db) {
- batch.update(doc(db, FIRESTORE_MAQUINAS_COLLECTION_NAME, maquinaDoc.id), { linkedAuxiliaryEquipmentIds: updatedLinkedIds });
- }
-      });
-
-      await batch.commit();
+      await deleteAuxiliaryEquipment(itemToDelete.id);
       return itemToDelete.id;
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME] });
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_MAQUINAS_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.auxiliaryEquipment.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.maquinas.all });
       toast({ title: "Equipamento Auxiliar Excluído", description: `O item foi removido.` });
       closeModal();
     },
@@ -506,11 +461,11 @@ export function AuxiliaryEquipmentClientPage({ auxEquipmentIdFromUrl }: Auxiliar
  isMutatingAll ?
  "Salvando Equipamento Auxiliar..." : "Equipamentos Auxiliares"
  }
-        actions={
+        actions={canManage ? (
           <Button onClick={() => openModal()} className="bg-primary hover:bg-primary/90" disabled={isMutatingAll}>
             <PlusCircle className="mr-2 h-4 w-4" /> Adicionar Equip. Auxiliar
           </Button>
-        }
+        ) : undefined}
       />
       <p className="text-muted-foreground text-sm mb-6 -mt-4">
         Cadastre e controle equipamentos auxiliares como baterias, carregadores e outros itens vinculados às suas máquinas principais.
@@ -521,8 +476,8 @@ export function AuxiliaryEquipmentClientPage({ auxEquipmentIdFromUrl }: Auxiliar
           icon={PackageSearch}
           title="Nenhum Equipamento Auxiliar Registrado"
           description="Adicione seu primeiro equipamento auxiliar para começar."
-          buttonLabel="Adicionar Equip. Auxiliar"
-          onButtonClick={() => openModal()}
+          buttonLabel={canManage ? "Adicionar Equip. Auxiliar" : undefined}
+          onButtonClick={canManage ? () => openModal() : undefined}
         />
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -617,11 +572,11 @@ export function AuxiliaryEquipmentClientPage({ auxEquipmentIdFromUrl }: Auxiliar
         formId="aux-equipment-form"
         isSubmitting={isMutatingAll}
         editingItem={editingItem}
-        onDeleteConfirm={handleModalDeleteConfirm}
+        onDeleteConfirm={canManage ? handleModalDeleteConfirm : undefined}
         isDeleting={deleteAuxEquipmentMutation.isPending}
         deleteButtonLabel="Excluir Equip. Auxiliar"
         isEditMode={isEditMode}
-        onEditModeToggle={() => setIsEditMode(true)}
+        onEditModeToggle={canManage ? () => setIsEditMode(true) : undefined}
       >
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} id="aux-equipment-form" className="space-y-4">
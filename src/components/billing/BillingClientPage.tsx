@@ -0,0 +1,723 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm, useFieldArray, useWatch } from "react-hook-form";
+import type * as z from "zod";
+import { PlusCircle, Receipt, Users, FileSignature, DollarSign, CalendarDays, Loader2, Search, CheckCircle, X, FileDown, Trash2, CalendarClock } from "lucide-react";
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import { addMonths, format, parseISO, setDate } from "date-fns";
+
+import { Button, buttonVariants } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import type { Invoice, InvoiceDisplayStatus, RentalContract, Customer, Company, CompanyId } from "@/types";
+import { InvoiceSchema, invoiceItemKindOptions, invoiceStatusOptions, companyDisplayOptions } from "@/types";
+import { PageHeader } from "@/components/shared/PageHeader";
+import { DataTablePlaceholder } from "@/components/shared/DataTablePlaceholder";
+import { FormModal } from "@/components/shared/FormModal";
+import { DetailsHistoryTabs } from "@/components/shared/DetailsHistoryTabs";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { db } from "@/lib/firebase";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  fetchInvoices, fetchRentalContracts, fetchCustomers, fetchCompanies,
+  runMonthlyBilling, updateInvoice, updateInvoiceStatus, getInvoiceDisplayStatus, queryKeys,
+  type BillingRunResult,
+} from "@/lib/repositories";
+import { cn, formatAddressForDisplay, formatDateForDisplay, toTitleCase, formatCurrency } from "@/lib/utils";
+import { buildCompanyPixPayload, drawPixPaymentBlock } from "@/lib/pix";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+const ALL_STATUSES_FILTER_VALUE = "_ALL_STATUSES_INVOICE_";
+const ALL_COMPANIES_VALUE = "_ALL_COMPANIES_";
+const invoiceDisplayStatusOptions: InvoiceDisplayStatus[] = ["Em Aberto", "Vencida", "Paga", "Cancelada"];
+
+type InvoiceFormValues = z.infer<typeof InvoiceSchema>;
+
+const todayInputValue = () => format(new Date(), "yyyy-MM-dd");
+const formatReferenceMonth = (referenceMonth: string) => referenceMonth ? format(parseISO(`${referenceMonth}-01`), "MM/yyyy") : "N/A";
+const getCompanyName = (companyId: CompanyId) => companyDisplayOptions.find(company => company.id === companyId)?.name || companyId;
+
+// Rent is billed for the month that just ended, due on the 10th of the current one.
+const defaultBillingRun = () => {
+  const now = new Date();
+  return {
+    referenceMonth: format(addMonths(now, -1), "yyyy-MM"),
+    dueDate: format(setDate(now, 10), "yyyy-MM-dd"),
+    companyId: ALL_COMPANIES_VALUE as CompanyId | typeof ALL_COMPANIES_VALUE,
+  };
+};
+
+const generateInvoicePDF = (
+  invoice: Invoice,
+  customer: Customer | undefined,
+  contract: RentalContract | undefined,
+  companyDetails: Company | undefined
+) => {
+  const doc = new jsPDF();
+  let yPos = 15;
+  const lineSpacing = 6;
+  const sectionSpacing = 10;
+  const smallText = 9;
+  const normalText = 10;
+  const largeText = 12;
+  const titleText = 16;
+
+  if (companyDetails) {
+    doc.setFontSize(largeText);
+    doc.setFont("helvetica", "bold");
+    doc.text(companyDetails.name, 14, yPos);
+    yPos += lineSpacing;
+    doc.setFontSize(smallText);
+    doc.setFont("helvetica", "normal");
+    doc.text(`CNPJ: ${companyDetails.cnpj}`, 14, yPos);
+    yPos += lineSpacing / 2;
+    doc.text(formatAddressForDisplay(companyDetails), 14, yPos);
+    yPos += lineSpacing;
+  }
+
+  doc.setFontSize(titleText);
+  doc.setFont("helvetica", "bold");
+  doc.text(`FATURA DE LOCAÇÃO Nº ${invoice.invoiceNumber}`, 105, yPos, { align: "center" });
+  yPos += sectionSpacing;
+
+  doc.setFontSize(normalText);
+  doc.setFont("helvetica", "normal");
+  doc.text(`Emissão: ${formatDateForDisplay(invoice.issueDate)}`, 14, yPos);
+  doc.text(`Vencimento: ${formatDateForDisplay(invoice.dueDate)}`, 105, yPos);
+  yPos += lineSpacing;
+  doc.text(`Referência: ${formatReferenceMonth(invoice.referenceMonth)} (${formatDateForDisplay(invoice.periodStart)} a ${formatDateForDisplay(invoice.periodEnd)})`, 14, yPos);
+  yPos += lineSpacing;
+  if (contract) {
+    doc.text(`Contrato de Locação: ${contract.contractNumber}`, 14, yPos);
+    yPos += lineSpacing;
+  }
+  yPos += lineSpacing / 2;
+
+  doc.setFontSize(largeText);
+  doc.setFont("helvetica", "bold");
+  doc.text("Cliente:", 14, yPos);
+  yPos += lineSpacing;
+  doc.setFontSize(normalText);
+  doc.setFont("helvetica", "normal");
+  if (customer) {
+    doc.text(`Nome/Razão Social: ${toTitleCase(customer.name)}`, 14, yPos);
+    yPos += lineSpacing;
+    doc.text(`CNPJ: ${customer.cnpj}`, 14, yPos);
+    yPos += lineSpacing;
+    doc.text(`Endereço: ${formatAddressForDisplay(customer)}`, 14, yPos);
+  } else {
+    doc.text("Cliente não especificado.", 14, yPos);
+  }
+  yPos += sectionSpacing;
+
+  autoTable(doc, {
+    head: [["Tipo", "Descrição", "Qtd.", "Valor Unit.", "Subtotal"]],
+    body: invoice.items.map(item => [
+      item.kind,
+      item.description,
+      item.quantity.toString(),
+      formatCurrency(item.unitPrice),
+      formatCurrency(item.quantity * item.unitPrice),
+    ]),
+    startY: yPos,
+    theme: 'grid',
+    headStyles: { fillColor: [249, 115, 22] },
+    styles: { fontSize: 9, cellPadding: 1.5 },
+    columnStyles: {
+      0: { cellWidth: 30 },
+      1: { cellWidth: 'auto' },
+      2: { cellWidth: 15, halign: 'right' },
+      3: { cellWidth: 28, halign: 'right' },
+      4: { cellWidth: 28, halign: 'right' },
+    }
+  });
+
+  // @ts-ignore
+  yPos = doc.lastAutoTable.finalY + sectionSpacing;
+
+  doc.setFontSize(largeText);
+  doc.setFont("helvetica", "bold");
+  doc.text(`Valor Total: ${formatCurrency(invoice.totalAmount)}`, 140, yPos, { align: 'left' });
+  yPos += sectionSpacing;
+
+  if (invoice.notes) {
+    doc.text("Observações:", 14, yPos);
+    yPos += lineSpacing;
+    doc.setFontSize(normalText);
+    doc.setFont("helvetica", "normal");
+    const splitNotes = doc.splitTextToSize(invoice.notes, 180);
+    doc.text(splitNotes, 14, yPos);
+    yPos += splitNotes.length * (lineSpacing / 1.5) + (lineSpacing / 2);
+  }
+
+  if (companyDetails && (companyDetails.bankName || companyDetails.bankPixKey)) {
+    doc.setFontSize(largeText);
+    doc.setFont("helvetica", "bold");
+    doc.text("Dados para Pagamento:", 14, yPos);
+    yPos += lineSpacing;
+    doc.setFontSize(smallText);
+    doc.setFont("helvetica", "normal");
+    if (companyDetails.bankName && companyDetails.bankAgency && companyDetails.bankAccount) {
+      doc.text(`Banco: ${companyDetails.bankName} | Agência: ${companyDetails.bankAgency} | Conta: ${companyDetails.bankAccount}`, 14, yPos);
+      yPos += lineSpacing / 1.5;
+    }
+    if (companyDetails.bankPixKey) {
+      doc.text(`Chave PIX (CNPJ): ${companyDetails.bankPixKey}`, 14, yPos);
+      yPos += lineSpacing / 1.5;
+    }
+    const pixPayload = buildCompanyPixPayload(companyDetails, invoice.totalAmount, invoice.invoiceNumber);
+    if (pixPayload && invoice.status === "Em Aberto") {
+      yPos = drawPixPaymentBlock(doc, pixPayload, yPos + lineSpacing / 2);
+    }
+  }
+  doc.save(`fatura_${invoice.invoiceNumber}.pdf`);
+};
+
+interface BillingClientPageProps {
+  invoiceIdFromUrl?: string | null;
+}
+
+export function BillingClientPage({ invoiceIdFromUrl }: BillingClientPageProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canManageBilling = can("billing:manage");
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingInvoice, setEditingInvoice] = useState<Invoice | null>(null);
+  const [isEditMode, setIsEditMode] = useState(false);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState<InvoiceDisplayStatus | typeof ALL_STATUSES_FILTER_VALUE>(ALL_STATUSES_FILTER_VALUE);
+  const [companyFilter, setCompanyFilter] = useState<CompanyId | typeof ALL_COMPANIES_VALUE>(ALL_COMPANIES_VALUE);
+
+  const [isBillingRunOpen, setIsBillingRunOpen] = useState(false);
+  const [billingRun, setBillingRun] = useState(defaultBillingRun);
+  const [paymentInvoice, setPaymentInvoice] = useState<Invoice | null>(null);
+  const [paymentDate, setPaymentDate] = useState(todayInputValue);
+  const [cancelInvoice, setCancelInvoice] = useState<Invoice | null>(null);
+
+  const form = useForm<InvoiceFormValues>({
+    resolver: zodResolver(InvoiceSchema),
+  });
+
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "items",
+  });
+  const itemsWatch = useWatch({ control: form.control, name: "items" });
+  const formTotal = (itemsWatch || []).reduce((acc, item) => acc + (Number(item?.quantity) || 0) * (Number(item?.unitPrice) || 0), 0);
+
+  const { data: invoices = [], isLoading: isLoadingInvoices, isError: isErrorInvoices, error: errorInvoices } = useQuery<Invoice[], Error>({
+    queryKey: queryKeys.invoices.all,
+    queryFn: fetchInvoices,
+    enabled: !!db,
+  });
+
+  const { data: contracts = [], isLoading: isLoadingContracts } = useQuery<RentalContract[], Error>({
+    queryKey: queryKeys.rentalContracts.all,
+    queryFn: fetchRentalContracts,
+    enabled: !!db,
+  });
+
+  const { data: customers = [], isLoading: isLoadingCustomers } = useQuery<Customer[], Error>({
+    queryKey: queryKeys.customers.all,
+    queryFn: fetchCustomers,
+    enabled: !!db,
+  });
+
+  const { data: companies = [], isLoading: isLoadingCompanies } = useQuery<Company[], Error>({
+    queryKey: queryKeys.companies.all,
+    queryFn: fetchCompanies,
+    enabled: !!db,
+  });
+
+  const billingRunMutation = useMutation({
+    mutationFn: async () => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      return runMonthlyBilling({
+        referenceMonth: billingRun.referenceMonth,
+        dueDate: billingRun.dueDate,
+        companyId: billingRun.companyId === ALL_COMPANIES_VALUE ? null : billingRun.companyId,
+      });
+    },
+    onSuccess: (result: BillingRunResult) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.invoices.all });
+      const summary = `${result.createdNumbers.length} fatura(s) gerada(s); ${result.alreadyBilled} contrato(s) já faturado(s) no mês.`;
+      if (result.failures.length > 0) {
+        const failures = result.failures.map(failure => `${failure.contractNumber}: ${failure.message}`).join(" | ");
+        toast({ title: "Faturamento com Pendências", description: `${summary} Falhas: ${failures}`, variant: "destructive" });
+      } else {
+        toast({ title: "Faturamento Concluído", description: summary });
+      }
+      setIsBillingRunOpen(false);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro no Faturamento", description: `Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const updateInvoiceMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: InvoiceFormValues }) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      await updateInvoice(id, { ...data, totalAmount: data.totalAmount ?? 0 });
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.invoices.all });
+      toast({ title: "Fatura Atualizada", description: `Fatura ${data.invoiceNumber} foi atualizada.` });
+      closeModal();
+    },
+    onError: (err: Error, variables) => {
+      toast({ title: "Erro ao Atualizar", description: `Não foi possível atualizar a fatura ${variables.data.invoiceNumber}. Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ invoice, status, paidDate }: { invoice: Invoice; status: Invoice["status"]; paidDate?: string }) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      await updateInvoiceStatus(invoice.id, status, paidDate);
+      return { invoice, status };
+    },
+    onSuccess: ({ invoice, status }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.invoices.all });
+      toast({ title: "Status Atualizado", description: `Fatura ${invoice.invoiceNumber} agora está "${status}".` });
+      setPaymentInvoice(null);
+      setCancelInvoice(null);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Atualizar Status", description: `Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const openModal = useCallback((invoice: Invoice) => {
+    setEditingInvoice(invoice);
+    setIsEditMode(false);
+    form.reset({
+      ...invoice,
+      items: invoice.items.map(item => ({ ...item, quantity: Number(item.quantity), unitPrice: Number(item.unitPrice) })),
+      paidDate: invoice.paidDate || null,
+      notes: invoice.notes || "",
+    });
+    setIsModalOpen(true);
+  }, [form]);
+
+  useEffect(() => {
+    if (invoiceIdFromUrl && !isLoadingInvoices && invoices.length > 0 && !isModalOpen) {
+      const invoiceToOpen = invoices.find(invoice => invoice.id === invoiceIdFromUrl);
+      if (invoiceToOpen) {
+        openModal(invoiceToOpen);
+        if (typeof window !== "undefined") {
+          window.history.replaceState(null, '', '/billing');
+        }
+      }
+    }
+  }, [invoiceIdFromUrl, invoices, isLoadingInvoices, openModal, isModalOpen]);
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingInvoice(null);
+    setIsEditMode(false);
+  };
+
+  const onSubmit = (values: InvoiceFormValues) => {
+    if (editingInvoice) {
+      updateInvoiceMutation.mutate({ id: editingInvoice.id, data: { ...values, totalAmount: formTotal } });
+    }
+  };
+
+  const getCustomerInfo = useCallback((customerId: string) => customers.find(c => c.id === customerId), [customers]);
+  const getContractInfo = useCallback((contractId: string) => contracts.find(c => c.id === contractId), [contracts]);
+
+  const filteredInvoices = useMemo(() => {
+    let tempInvoices = invoices;
+    if (statusFilter !== ALL_STATUSES_FILTER_VALUE) {
+      tempInvoices = tempInvoices.filter(invoice => getInvoiceDisplayStatus(invoice) === statusFilter);
+    }
+    if (companyFilter !== ALL_COMPANIES_VALUE) {
+      tempInvoices = tempInvoices.filter(invoice => invoice.companyId === companyFilter);
+    }
+    if (searchTerm.trim()) {
+      const lowerSearchTerm = searchTerm.toLowerCase();
+      tempInvoices = tempInvoices.filter(invoice =>
+        invoice.invoiceNumber.toLowerCase().includes(lowerSearchTerm) ||
+        getCustomerInfo(invoice.customerId)?.name.toLowerCase().includes(lowerSearchTerm) ||
+        getContractInfo(invoice.contractId)?.contractNumber.toLowerCase().includes(lowerSearchTerm)
+      );
+    }
+    return tempInvoices;
+  }, [invoices, statusFilter, companyFilter, searchTerm, getCustomerInfo, getContractInfo]);
+
+  const totalsByStatus = useMemo(() => filteredInvoices.reduce((acc, invoice) => {
+    const status = getInvoiceDisplayStatus(invoice);
+    acc[status] = (acc[status] || 0) + invoice.totalAmount;
+    return acc;
+  }, {} as Partial<Record<InvoiceDisplayStatus, number>>), [filteredInvoices]);
+
+  const handleGeneratePdfClick = (invoice: Invoice) => {
+    generateInvoicePDF(
+      invoice,
+      getCustomerInfo(invoice.customerId),
+      getContractInfo(invoice.contractId),
+      companies.find(company => company.id === invoice.companyId)
+    );
+  };
+
+  const isLoadingPageData = isLoadingInvoices || isLoadingContracts || isLoadingCustomers || isLoadingCompanies;
+  const isMutating = billingRunMutation.isPending || updateInvoiceMutation.isPending || updateStatusMutation.isPending;
+
+  if (!db) {
+    return <div className="text-red-500 p-4">Erro: Conexão com Firebase não disponível.</div>;
+  }
+  if (isLoadingPageData && !isModalOpen) {
+    return <div className="flex justify-center items-center h-64"><Loader2 className="h-8 w-8 animate-spin text-primary" /><p className="ml-2">Carregando dados...</p></div>;
+  }
+  if (isErrorInvoices) {
+    return <div className="text-red-500 p-4">Erro ao carregar faturas: {errorInvoices?.message}</div>;
+  }
+
+  return (
+    <>
+      <PageHeader
+        title=""
+        actions={canManageBilling ? (
+          <Button onClick={() => { setBillingRun(defaultBillingRun()); setIsBillingRunOpen(true); }} className="bg-primary hover:bg-primary/90" disabled={isMutating}>
+            <CalendarClock className="mr-2 h-4 w-4" /> Gerar Faturamento do Mês
+          </Button>
+        ) : undefined}
+      />
+      <p className="text-muted-foreground text-sm mb-6 -mt-4">
+        Faturas mensais dos contratos de locação, emitidas por empresa. Meses parciais são cobrados proporcionalmente aos dias; horas excedentes e avarias são lançadas editando a fatura em aberto.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+        {(["Em Aberto", "Vencida", "Paga"] as const).map(status => (
+          <Card key={status}>
+            <CardHeader className="pb-2">
+              <CardDescription>{status === "Paga" ? "Recebido" : status}</CardDescription>
+              <CardTitle className={cn("text-2xl", status === "Vencida" && "text-destructive")}>{formatCurrency(totalsByStatus[status] || 0)}</CardTitle>
+            </CardHeader>
+          </Card>
+        ))}
+      </div>
+
+      <div className="mb-6 flex flex-col md:flex-row gap-4">
+        <div className="relative flex-grow">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+          <Input
+            type="search"
+            placeholder="Buscar por nº fatura, cliente, contrato..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10"
+          />
+        </div>
+        <Select value={companyFilter} onValueChange={(value) => setCompanyFilter(value as CompanyId | typeof ALL_COMPANIES_VALUE)}>
+          <SelectTrigger className="w-full md:w-[200px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_COMPANIES_VALUE}>Todas as Empresas</SelectItem>
+            {companyDisplayOptions.map(company => <SelectItem key={company.id} value={company.id}>{company.name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as InvoiceDisplayStatus | typeof ALL_STATUSES_FILTER_VALUE)}>
+          <SelectTrigger className="w-full md:w-[200px]"><SelectValue placeholder="Filtrar por status..." /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_STATUSES_FILTER_VALUE}>Todos os Status</SelectItem>
+            {invoiceDisplayStatusOptions.map(status => <SelectItem key={status} value={status}>{status}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {invoices.length === 0 ? (
+        <DataTablePlaceholder
+          icon={Receipt}
+          title="Nenhuma Fatura Emitida"
+          description="Gere o faturamento do mês para emitir as faturas dos contratos de locação ativos."
+          buttonLabel={canManageBilling ? "Gerar Faturamento do Mês" : undefined}
+          onButtonClick={canManageBilling ? () => { setBillingRun(defaultBillingRun()); setIsBillingRunOpen(true); } : undefined}
+        />
+      ) : filteredInvoices.length === 0 ? (
+        <div className="text-center py-10">
+          <Search className="mx-auto h-12 w-12 text-muted-foreground" />
+          <h3 className="mt-2 text-lg font-semibold">Nenhuma Fatura Encontrada</h3>
+          <p className="text-sm text-muted-foreground">Sua busca ou filtro não retornou resultados.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {filteredInvoices.map((invoice) => {
+            const customer = getCustomerInfo(invoice.customerId);
+            const contract = getContractInfo(invoice.contractId);
+            const displayStatus = getInvoiceDisplayStatus(invoice);
+
+            return (
+              <Card key={invoice.id} className="flex flex-col shadow-lg hover:shadow-xl transition-shadow duration-300">
+                <div onClick={() => openModal(invoice)} className="cursor-pointer flex-grow">
+                  <CardHeader>
+                    <div className="flex justify-between items-start">
+                      <CardTitle className="font-headline text-xl text-primary">Fatura: {invoice.invoiceNumber}</CardTitle>
+                      <span className={cn("px-2 py-0.5 rounded-full text-xs font-semibold", {
+                        "bg-yellow-100 text-yellow-700": displayStatus === "Em Aberto",
+                        "bg-red-100 text-red-700": displayStatus === "Vencida",
+                        "bg-green-100 text-green-700": displayStatus === "Paga",
+                        "bg-slate-100 text-slate-700": displayStatus === "Cancelada",
+                      })}>
+                        {displayStatus}
+                      </span>
+                    </div>
+                    <CardDescription>{getCompanyName(invoice.companyId)} · Referência {formatReferenceMonth(invoice.referenceMonth)}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="flex-grow space-y-2 text-sm">
+                    <p className="flex items-center">
+                      <Users className="mr-2 h-4 w-4 text-primary flex-shrink-0" />
+                      <span className="font-medium text-muted-foreground mr-1">Cliente:</span>
+                      {toTitleCase(customer?.name) || 'N/A'}
+                    </p>
+                    <p className="flex items-center">
+                      <FileSignature className="mr-2 h-4 w-4 text-primary flex-shrink-0" />
+                      <span className="font-medium text-muted-foreground mr-1">Contrato:</span>
+                      {contract?.contractNumber || 'N/A'}
+                    </p>
+                    <p className="flex items-center">
+                      <DollarSign className="mr-2 h-4 w-4 text-primary flex-shrink-0" />
+                      <span className="font-medium text-muted-foreground mr-1">Valor:</span>
+                      {formatCurrency(invoice.totalAmount)}
+                    </p>
+                    <p className="flex items-center">
+                      <CalendarDays className="mr-2 h-4 w-4 text-primary flex-shrink-0" />
+                      <span className="font-medium text-muted-foreground mr-1">Vencimento:</span>
+                      {formatDateForDisplay(invoice.dueDate)}
+                    </p>
+                    {invoice.paidDate && (
+                      <p className="flex items-center">
+                        <CheckCircle className="mr-2 h-4 w-4 text-green-600 flex-shrink-0" />
+                        <span className="font-medium text-muted-foreground mr-1">Paga em:</span>
+                        {formatDateForDisplay(invoice.paidDate)}
+                      </p>
+                    )}
+                  </CardContent>
+                </div>
+                <CardFooter className="border-t pt-4 flex flex-wrap gap-2">
+                  {canManageBilling && invoice.status === "Em Aberto" && (
+                    <>
+                      <Button variant="outline" size="sm" className="border-green-500 text-green-600 hover:bg-green-50 hover:text-green-700" onClick={() => { setPaymentDate(todayInputValue()); setPaymentInvoice(invoice); }} disabled={isMutating}>
+                        <CheckCircle className="mr-1.5 h-3.5 w-3.5" /> Registrar Pagamento
+                      </Button>
+                      <Button variant="outline" size="sm" className="border-slate-500 text-slate-600 hover:bg-slate-50 hover:text-slate-700" onClick={() => setCancelInvoice(invoice)} disabled={isMutating}>
+                        <X className="mr-1.5 h-3.5 w-3.5" /> Cancelar
+                      </Button>
+                    </>
+                  )}
+                  {canManageBilling && invoice.status !== "Em Aberto" && (
+                    <Button variant="outline" size="sm" onClick={() => updateStatusMutation.mutate({ invoice, status: "Em Aberto" })} disabled={isMutating}>
+                      Reabrir
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" className="ml-auto" onClick={() => handleGeneratePdfClick(invoice)} disabled={isMutating}>
+                    <FileDown className="mr-1.5 h-3.5 w-3.5" /> PDF
+                  </Button>
+                </CardFooter>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <FormModal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        title={`Fatura ${editingInvoice?.invoiceNumber ?? ""}`}
+        description="Cobranças da fatura. Somente faturas em aberto podem ser alteradas."
+        formId="invoice-form"
+        isSubmitting={isMutating}
+        editingItem={editingInvoice}
+        isEditMode={isEditMode}
+        onEditModeToggle={canManageBilling && editingInvoice?.status === "Em Aberto" ? () => setIsEditMode(true) : undefined}
+        submitButtonLabel={isEditMode ? "Salvar Alterações" : "Editar"}
+      >
+        <DetailsHistoryTabs entityType="invoice" entityId={editingInvoice?.id}>
+          {editingInvoice && (
+            <div className="grid grid-cols-2 gap-2 text-sm mb-4 rounded-md border p-3 bg-muted/30">
+              <p><span className="text-muted-foreground">Empresa:</span> {getCompanyName(editingInvoice.companyId)}</p>
+              <p><span className="text-muted-foreground">Cliente:</span> {toTitleCase(getCustomerInfo(editingInvoice.customerId)?.name) || 'N/A'}</p>
+              <p><span className="text-muted-foreground">Contrato:</span> {getContractInfo(editingInvoice.contractId)?.contractNumber || 'N/A'}</p>
+              <p><span className="text-muted-foreground">Período:</span> {formatDateForDisplay(editingInvoice.periodStart)} a {formatDateForDisplay(editingInvoice.periodEnd)}</p>
+            </div>
+          )}
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} id="invoice-form" className="space-y-6">
+              <fieldset disabled={!isEditMode} className="space-y-4">
+                <div>
+                  <h3 className="text-md font-semibold mb-2 border-b pb-1 font-headline">Cobranças</h3>
+                  {fields.map((item, index) => (
+                    <div key={item.id} className="grid grid-cols-12 gap-x-3 gap-y-2 items-end border-b py-3">
+                      <FormField control={form.control} name={`items.${index}.kind`} render={({ field }) => (
+                        <FormItem className="col-span-12 sm:col-span-3">
+                          {index === 0 && <FormLabel>Tipo</FormLabel>}
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                            <SelectContent>{invoiceItemKindOptions.map(kind => <SelectItem key={kind} value={kind}>{kind}</SelectItem>)}</SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name={`items.${index}.description`} render={({ field }) => (
+                        <FormItem className="col-span-12 sm:col-span-4">
+                          {index === 0 && <FormLabel>Descrição</FormLabel>}
+                          <FormControl><Input placeholder="Ex: 12 horas acima da franquia" {...field} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name={`items.${index}.quantity`} render={({ field }) => (
+                        <FormItem className="col-span-4 sm:col-span-2">
+                          {index === 0 && <FormLabel>Qtd.</FormLabel>}
+                          <FormControl><Input type="number" step="0.01" {...field} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name={`items.${index}.unitPrice`} render={({ field }) => (
+                        <FormItem className="col-span-6 sm:col-span-2">
+                          {index === 0 && <FormLabel>Valor Un.</FormLabel>}
+                          <FormControl><Input type="number" step="0.01" {...field} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <div className="col-span-2 sm:col-span-1 flex items-center justify-end">
+                        {fields.length > 1 && (
+                          <Button type="button" variant="ghost" size="sm" onClick={() => remove(index)} className="text-destructive hover:text-destructive">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                  <Button type="button" variant="outline" size="sm" className="mt-3" onClick={() => append({ id: crypto.randomUUID(), kind: "Horas Excedentes", description: "", quantity: 1, unitPrice: 0 })}>
+                    <PlusCircle className="mr-2 h-4 w-4" /> Adicionar Cobrança
+                  </Button>
+                </div>
+                <p className="text-right text-lg font-bold text-primary">Valor Total: {formatCurrency(formTotal)}</p>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField control={form.control} name="dueDate" render={({ field }) => (
+                    <FormItem><FormLabel>Vencimento</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                  <FormField control={form.control} name="status" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Status</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value} disabled>
+                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                        <SelectContent>{invoiceStatusOptions.map(status => <SelectItem key={status} value={status}>{status}</SelectItem>)}</SelectContent>
+                      </Select>
+                    </FormItem>
+                  )} />
+                </div>
+                <FormField control={form.control} name="notes" render={({ field }) => (
+                  <FormItem><FormLabel>Observações (Opcional)</FormLabel><FormControl><Textarea {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+                )} />
+              </fieldset>
+            </form>
+          </Form>
+        </DetailsHistoryTabs>
+      </FormModal>
+
+      <AlertDialog open={isBillingRunOpen} onOpenChange={setIsBillingRunOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Gerar Faturamento do Mês</AlertDialogTitle>
+            <AlertDialogDescription>
+              Emite uma fatura por contrato ativo (ou encerrado no mês), numerada pela empresa locadora. Contratos já faturados no mês são ignorados.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-3 py-2">
+            <div>
+              <Label htmlFor="billing-reference-month">Mês de Referência</Label>
+              <Input id="billing-reference-month" type="month" value={billingRun.referenceMonth} onChange={(e) => setBillingRun(run => ({ ...run, referenceMonth: e.target.value }))} className="mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="billing-due-date">Vencimento</Label>
+              <Input id="billing-due-date" type="date" value={billingRun.dueDate} onChange={(e) => setBillingRun(run => ({ ...run, dueDate: e.target.value }))} className="mt-1" />
+            </div>
+            <div>
+              <Label>Empresa Emissora</Label>
+              <Select value={billingRun.companyId} onValueChange={(value) => setBillingRun(run => ({ ...run, companyId: value as CompanyId | typeof ALL_COMPANIES_VALUE }))}>
+                <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_COMPANIES_VALUE}>Todas as Empresas</SelectItem>
+                  {companyDisplayOptions.map(company => <SelectItem key={company.id} value={company.id}>{company.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isMutating}>Voltar</AlertDialogCancel>
+            <AlertDialogAction onClick={(e) => { e.preventDefault(); billingRunMutation.mutate(); }} disabled={isMutating || !billingRun.referenceMonth || !billingRun.dueDate}>
+              {billingRunMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Gerar Faturas
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!paymentInvoice} onOpenChange={(open) => { if (!open) setPaymentInvoice(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Registrar Pagamento</AlertDialogTitle>
+            <AlertDialogDescription>
+              Fatura {paymentInvoice?.invoiceNumber} — {formatCurrency(paymentInvoice?.totalAmount)}.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="py-2">
+            <Label htmlFor="invoice-paid-date">Data do Pagamento</Label>
+            <Input id="invoice-paid-date" type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} className="mt-1" />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isMutating}>Voltar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => paymentInvoice && updateStatusMutation.mutate({ invoice: paymentInvoice, status: "Paga", paidDate: paymentDate })}
+              disabled={isMutating || !paymentDate}
+              className={buttonVariants({ className: "bg-green-600 hover:bg-green-700" })}
+            >
+              Confirmar Pagamento
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!cancelInvoice} onOpenChange={(open) => { if (!open) setCancelInvoice(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancelar Fatura</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja cancelar a fatura {cancelInvoice?.invoiceNumber}? O número não será reutilizado.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isMutating}>Voltar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => cancelInvoice && updateStatusMutation.mutate({ invoice: cancelInvoice, status: "Cancelada" })}
+              disabled={isMutating}
+              className={buttonVariants({ variant: "destructive" })}
+            >
+              Cancelar Fatura
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,21 @@
+"use client";
+
+import { useSearchParams } from "next/navigation";
+import { BillingClientPage } from "@/components/billing/BillingClientPage";
+import { useState, useEffect } from 'react';
+import type { FC } from 'react';
+
+export const BillingPageContent: FC = () => {
+  const searchParams = useSearchParams();
+  const invoiceIdToOpen = searchParams ? searchParams.get('openInvoiceId') : null;
+
+  const [isClient, setIsClient] = useState(false);
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  if (!isClient) {
+    return null;
+  }
+  return <BillingClientPage invoiceIdFromUrl={invoiceIdToOpen} />;
+}
@@ -0,0 +1,548 @@
+"use client";
+
+import { useState, useMemo, useCallback } from "react";
+import { Barcode, Users, DollarSign, CalendarDays, Loader2, Search, CheckCircle, X, FileDown, Copy, Upload, Send, PlusCircle, FileText } from "lucide-react";
+import { addDays, format } from "date-fns";
+
+import { Button, buttonVariants } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Boleto, BoletoRemittance, BoletoSourceType, BoletoStatusType, Budget, CnabLayout, Company, CompanyId, Customer, Invoice } from "@/types";
+import { GOLDMAQ_COMPANY_ID, boletoBankNames, boletoSourceTypeLabels, boletoStatusOptions, companyDisplayOptions } from "@/types";
+import { PageHeader } from "@/components/shared/PageHeader";
+import { DataTablePlaceholder } from "@/components/shared/DataTablePlaceholder";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { db } from "@/lib/firebase";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  fetchBoletos, fetchBoletoRemittances, fetchInvoices, fetchBudgets, fetchCustomers, fetchCompanies,
+  issueBoleto, writeOffBoleto, createBoletoRemittance, importBoletoReturn, queryKeys,
+  type BoletoReturnResult,
+} from "@/lib/repositories";
+import { generateBoletoPDF } from "@/lib/boleto";
+import { cn, formatDateForDisplay, toTitleCase, formatCurrency } from "@/lib/utils";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+const ALL_STATUSES_FILTER_VALUE = "_ALL_STATUSES_BOLETO_";
+const ALL_COMPANIES_VALUE = "_ALL_COMPANIES_";
+
+const getCompanyName = (companyId: CompanyId) => companyDisplayOptions.find(company => company.id === companyId)?.name || companyId;
+
+const defaultIssueForm = () => ({
+  sourceType: "invoice" as BoletoSourceType,
+  sourceId: "",
+  dueDate: format(addDays(new Date(), 7), "yyyy-MM-dd"),
+});
+
+const downloadTextFile = (fileName: string, content: string) => {
+  const blob = new Blob([content], { type: "text/plain;charset=us-ascii" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export function BoletosClientPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canManageBilling = can("billing:manage");
+
+  const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState<BoletoStatusType | typeof ALL_STATUSES_FILTER_VALUE>(ALL_STATUSES_FILTER_VALUE);
+  const [companyFilter, setCompanyFilter] = useState<CompanyId | typeof ALL_COMPANIES_VALUE>(ALL_COMPANIES_VALUE);
+
+  const [isIssueOpen, setIsIssueOpen] = useState(false);
+  const [issueForm, setIssueForm] = useState(defaultIssueForm);
+  const [isRemittanceOpen, setIsRemittanceOpen] = useState(false);
+  const [remittanceCompanyId, setRemittanceCompanyId] = useState<CompanyId>(GOLDMAQ_COMPANY_ID);
+  const [remittanceLayout, setRemittanceLayout] = useState<CnabLayout>("240");
+  const [isReturnOpen, setIsReturnOpen] = useState(false);
+  const [returnCompanyId, setReturnCompanyId] = useState<CompanyId>(GOLDMAQ_COMPANY_ID);
+  const [returnFile, setReturnFile] = useState<File | null>(null);
+  const [writeOffTarget, setWriteOffTarget] = useState<Boleto | null>(null);
+
+  const { data: boletos = [], isLoading: isLoadingBoletos, isError: isErrorBoletos, error: errorBoletos } = useQuery<Boleto[], Error>({
+    queryKey: queryKeys.boletos.all,
+    queryFn: fetchBoletos,
+    enabled: !!db,
+  });
+
+  const { data: remittances = [] } = useQuery<BoletoRemittance[], Error>({
+    queryKey: queryKeys.boletoRemittances.all,
+    queryFn: fetchBoletoRemittances,
+    enabled: !!db,
+  });
+
+  const { data: invoices = [], isLoading: isLoadingInvoices } = useQuery<Invoice[], Error>({
+    queryKey: queryKeys.invoices.all,
+    queryFn: fetchInvoices,
+    enabled: !!db,
+  });
+
+  const { data: budgets = [], isLoading: isLoadingBudgets } = useQuery<Budget[], Error>({
+    queryKey: queryKeys.budgets.all,
+    queryFn: fetchBudgets,
+    enabled: !!db,
+  });
+
+  const { data: customers = [], isLoading: isLoadingCustomers } = useQuery<Customer[], Error>({
+    queryKey: queryKeys.customers.all,
+    queryFn: fetchCustomers,
+    enabled: !!db,
+  });
+
+  const { data: companies = [], isLoading: isLoadingCompanies } = useQuery<Company[], Error>({
+    queryKey: queryKeys.companies.all,
+    queryFn: fetchCompanies,
+    enabled: !!db,
+  });
+
+  const invalidateCharges = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.boletos.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.boletoRemittances.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.invoices.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.budgets.all });
+  };
+
+  const issueMutation = useMutation({
+    mutationFn: async () => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      return issueBoleto(issueForm);
+    },
+    onSuccess: (result) => {
+      invalidateCharges();
+      toast({ title: "Boleto Emitido", description: `Boleto com nosso número ${result.ourNumber} emitido.` });
+      setIsIssueOpen(false);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Emitir Boleto", description: `Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const remittanceMutation = useMutation({
+    mutationFn: async () => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      return createBoletoRemittance(remittanceCompanyId, remittanceLayout);
+    },
+    onSuccess: (file) => {
+      invalidateCharges();
+      downloadTextFile(file.fileName, file.content);
+      toast({ title: "Remessa Gerada", description: `${file.count} boleto(s) no arquivo ${file.fileName}. Envie-o pelo internet banking da empresa.` });
+      setIsRemittanceOpen(false);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Gerar Remessa", description: `Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const returnMutation = useMutation({
+    mutationFn: async () => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      if (!returnFile) throw new Error("Selecione o arquivo de retorno.");
+      return importBoletoReturn(returnCompanyId, await returnFile.text());
+    },
+    onSuccess: (result: BoletoReturnResult) => {
+      invalidateCharges();
+      const summary = `${result.settled.length} boleto(s) baixado(s) como pagos${result.settled.length ? ` (${result.settled.join(", ")})` : ""}; ${result.alreadySettled} já liquidado(s); ${result.ignored} ocorrência(s) sem pagamento.`;
+      if (result.unmatched.length > 0) {
+        toast({ title: "Retorno Importado com Pendências", description: `${summary} Não encontrados: ${result.unmatched.join(", ")}`, variant: "destructive" });
+      } else {
+        toast({ title: "Retorno Importado", description: summary });
+      }
+      setIsReturnOpen(false);
+      setReturnFile(null);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Importar Retorno", description: `Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const writeOffMutation = useMutation({
+    mutationFn: async (boleto: Boleto) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      await writeOffBoleto(boleto.id);
+      return boleto;
+    },
+    onSuccess: (boleto) => {
+      invalidateCharges();
+      toast({ title: "Boleto Baixado", description: `Boleto ${boleto.bankOurNumber} baixado. Se já foi enviado ao banco, solicite a baixa também no banco.` });
+      setWriteOffTarget(null);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Baixar Boleto", description: `Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const getCustomerInfo = useCallback((customerId: string) => customers.find(c => c.id === customerId), [customers]);
+
+  // Documents that already have a boleto waiting for payment are left out.
+  const chargeableDocuments = useMemo(() => {
+    const chargedSourceIds = new Set(boletos.filter(boleto => boleto.status !== "Baixado").map(boleto => boleto.sourceId));
+    if (issueForm.sourceType === "invoice") {
+      return invoices
+        .filter(invoice => invoice.status === "Em Aberto" && !chargedSourceIds.has(invoice.id))
+        .map(invoice => ({ id: invoice.id, label: `${invoice.invoiceNumber} - ${toTitleCase(getCustomerInfo(invoice.customerId)?.name) || 'Cliente'} - ${formatCurrency(invoice.totalAmount)}`, dueDate: invoice.dueDate }));
+    }
+    return budgets
+      .filter(budget => budget.status === "Aprovado" && !budget.paidDate && !chargedSourceIds.has(budget.id))
+      .map(budget => ({ id: budget.id, label: `${budget.budgetNumber} - ${toTitleCase(getCustomerInfo(budget.customerId)?.name) || 'Cliente'} - ${formatCurrency(budget.totalAmount)}`, dueDate: null }));
+  }, [issueForm.sourceType, invoices, budgets, boletos, getCustomerInfo]);
+
+  const filteredBoletos = useMemo(() => {
+    let tempBoletos = boletos;
+    if (statusFilter !== ALL_STATUSES_FILTER_VALUE) {
+      tempBoletos = tempBoletos.filter(boleto => boleto.status === statusFilter);
+    }
+    if (companyFilter !== ALL_COMPANIES_VALUE) {
+      tempBoletos = tempBoletos.filter(boleto => boleto.companyId === companyFilter);
+    }
+    if (searchTerm.trim()) {
+      const lowerSearchTerm = searchTerm.toLowerCase();
+      tempBoletos = tempBoletos.filter(boleto =>
+        boleto.bankOurNumber.toLowerCase().includes(lowerSearchTerm) ||
+        boleto.sourceNumber.toLowerCase().includes(lowerSearchTerm) ||
+        getCustomerInfo(boleto.customerId)?.name.toLowerCase().includes(lowerSearchTerm)
+      );
+    }
+    return tempBoletos;
+  }, [boletos, statusFilter, companyFilter, searchTerm, getCustomerInfo]);
+
+  const handleSourceChange = (sourceId: string) => {
+    const document = chargeableDocuments.find(item => item.id === sourceId);
+    setIssueForm(form => ({ ...form, sourceId, dueDate: document?.dueDate || form.dueDate }));
+  };
+
+  const handleCopyDigitableLine = async (boleto: Boleto) => {
+    try {
+      await navigator.clipboard.writeText(boleto.digitableLine.replace(/\D/g, ""));
+      toast({ title: "Linha Digitável Copiada", description: boleto.digitableLine });
+    } catch {
+      toast({ title: "Não foi possível copiar", description: boleto.digitableLine, variant: "destructive" });
+    }
+  };
+
+  const handleGeneratePdfClick = (boleto: Boleto) => {
+    const company = companies.find(item => item.id === boleto.companyId);
+    if (!company) {
+      toast({ title: "Empresa não encontrada", description: "Não foi possível carregar os dados do beneficiário.", variant: "destructive" });
+      return;
+    }
+    generateBoletoPDF(boleto, company, getCustomerInfo(boleto.customerId));
+  };
+
+  const isLoadingPageData = isLoadingBoletos || isLoadingInvoices || isLoadingBudgets || isLoadingCustomers || isLoadingCompanies;
+  const isMutating = issueMutation.isPending || remittanceMutation.isPending || returnMutation.isPending || writeOffMutation.isPending;
+
+  if (!db) {
+    return <div className="text-red-500 p-4">Erro: Conexão com Firebase não disponível.</div>;
+  }
+  if (isLoadingPageData) {
+    return <div className="flex justify-center items-center h-64"><Loader2 className="h-8 w-8 animate-spin text-primary" /><p className="ml-2">Carregando dados...</p></div>;
+  }
+  if (isErrorBoletos) {
+    return <div className="text-red-500 p-4">Erro ao carregar boletos: {errorBoletos?.message}</div>;
+  }
+
+  return (
+    <>
+      <PageHeader
+        title=""
+        actions={canManageBilling ? (
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={() => { setIssueForm(defaultIssueForm()); setIsIssueOpen(true); }} className="bg-primary hover:bg-primary/90" disabled={isMutating}>
+              <PlusCircle className="mr-2 h-4 w-4" /> Emitir Boleto
+            </Button>
+            <Button variant="outline" onClick={() => setIsRemittanceOpen(true)} disabled={isMutating}>
+              <Send className="mr-2 h-4 w-4" /> Gerar Remessa
+            </Button>
+            <Button variant="outline" onClick={() => { setReturnFile(null); setIsReturnOpen(true); }} disabled={isMutating}>
+              <Upload className="mr-2 h-4 w-4" /> Importar Retorno
+            </Button>
+          </div>
+        ) : undefined}
+      />
+      <p className="text-muted-foreground text-sm mb-6 -mt-4">
+        Boletos de cobrança registrada das faturas e orçamentos aprovados. Gere a remessa (CNAB) para registrar os boletos no banco e importe o arquivo de retorno para dar baixa nos pagos.
+      </p>
+
+      <div className="mb-6 flex flex-col md:flex-row gap-4">
+        <div className="relative flex-grow">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+          <Input
+            type="search"
+            placeholder="Buscar por nosso número, documento, cliente..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10"
+          />
+        </div>
+        <Select value={companyFilter} onValueChange={(value) => setCompanyFilter(value as CompanyId | typeof ALL_COMPANIES_VALUE)}>
+          <SelectTrigger className="w-full md:w-[200px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_COMPANIES_VALUE}>Todas as Empresas</SelectItem>
+            {companyDisplayOptions.map(company => <SelectItem key={company.id} value={company.id}>{company.name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as BoletoStatusType | typeof ALL_STATUSES_FILTER_VALUE)}>
+          <SelectTrigger className="w-full md:w-[200px]"><SelectValue placeholder="Filtrar por status..." /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_STATUSES_FILTER_VALUE}>Todos os Status</SelectItem>
+            {boletoStatusOptions.map(status => <SelectItem key={status} value={status}>{status}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {boletos.length === 0 ? (
+        <DataTablePlaceholder
+          icon={Barcode}
+          title="Nenhum Boleto Emitido"
+          description="Emita boletos para as faturas em aberto ou para orçamentos aprovados."
+          buttonLabel={canManageBilling ? "Emitir Boleto" : undefined}
+          onButtonClick={canManageBilling ? () => { setIssueForm(defaultIssueForm()); setIsIssueOpen(true); } : undefined}
+        />
+      ) : filteredBoletos.length === 0 ? (
+        <div className="text-center py-10">
+          <Search className="mx-auto h-12 w-12 text-muted-foreground" />
+          <h3 className="mt-2 text-lg font-semibold">Nenhum Boleto Encontrado</h3>
+          <p className="text-sm text-muted-foreground">Sua busca ou filtro não retornou resultados.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {filteredBoletos.map((boleto) => (
+            <Card key={boleto.id} className="flex flex-col shadow-lg hover:shadow-xl transition-shadow duration-300">
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <CardTitle className="font-headline text-xl text-primary">{boleto.bankOurNumber}</CardTitle>
+                  <span className={cn("px-2 py-0.5 rounded-full text-xs font-semibold", {
+                    "bg-yellow-100 text-yellow-700": boleto.status === "Emitido",
+                    "bg-blue-100 text-blue-700": boleto.status === "Remessa Enviada",
+                    "bg-green-100 text-green-700": boleto.status === "Pago",
+                    "bg-slate-100 text-slate-700": boleto.status === "Baixado",
+                  })}>
+                    {boleto.status}
+                  </span>
+                </div>
+                <CardDescription>{getCompanyName(boleto.companyId)} · {boletoBankNames[boleto.bankCode]}</CardDescription>
+              </CardHeader>
+              <CardContent className="flex-grow space-y-2 text-sm">
+                <p className="flex items-center">
+                  <FileText className="mr-2 h-4 w-4 text-primary flex-shrink-0" />
+                  <span className="font-medium text-muted-foreground mr-1">{boletoSourceTypeLabels[boleto.sourceType]}:</span>
+                  {boleto.sourceNumber}
+                </p>
+                <p className="flex items-center">
+                  <Users className="mr-2 h-4 w-4 text-primary flex-shrink-0" />
+                  <span className="font-medium text-muted-foreground mr-1">Pagador:</span>
+                  {toTitleCase(getCustomerInfo(boleto.customerId)?.name) || 'N/A'}
+                </p>
+                <p className="flex items-center">
+                  <DollarSign className="mr-2 h-4 w-4 text-primary flex-shrink-0" />
+                  <span className="font-medium text-muted-foreground mr-1">Valor:</span>
+                  {formatCurrency(boleto.amount)}
+                </p>
+                <p className="flex items-center">
+                  <CalendarDays className="mr-2 h-4 w-4 text-primary flex-shrink-0" />
+                  <span className="font-medium text-muted-foreground mr-1">Vencimento:</span>
+                  {formatDateForDisplay(boleto.dueDate)}
+                </p>
+                {boleto.paidDate && (
+                  <p className="flex items-center">
+                    <CheckCircle className="mr-2 h-4 w-4 text-green-600 flex-shrink-0" />
+                    <span className="font-medium text-muted-foreground mr-1">Pago em:</span>
+                    {formatDateForDisplay(boleto.paidDate)} ({formatCurrency(boleto.paidAmount)})
+                  </p>
+                )}
+                <p className="font-mono text-xs break-all text-muted-foreground pt-1">{boleto.digitableLine}</p>
+              </CardContent>
+              <CardFooter className="border-t pt-4 flex flex-wrap gap-2">
+                <Button variant="outline" size="sm" onClick={() => handleCopyDigitableLine(boleto)}>
+                  <Copy className="mr-1.5 h-3.5 w-3.5" /> Copiar Linha
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleGeneratePdfClick(boleto)}>
+                  <FileDown className="mr-1.5 h-3.5 w-3.5" /> PDF
+                </Button>
+                {canManageBilling && (boleto.status === "Emitido" || boleto.status === "Remessa Enviada") && (
+                  <Button variant="outline" size="sm" className="ml-auto border-slate-500 text-slate-600 hover:bg-slate-50 hover:text-slate-700" onClick={() => setWriteOffTarget(boleto)} disabled={isMutating}>
+                    <X className="mr-1.5 h-3.5 w-3.5" /> Baixar
+                  </Button>
+                )}
+              </CardFooter>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {remittances.length > 0 && (
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="font-headline text-lg">Remessas Geradas</CardTitle>
+            <CardDescription>Arquivos enviados ao banco para registro dos boletos.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            {remittances.slice(0, 10).map(remittance => (
+              <p key={remittance.id} className="flex flex-wrap gap-x-3">
+                <span className="font-medium">Nº {remittance.remittanceNumber}</span>
+                <span>{getCompanyName(remittance.companyId)}</span>
+                <span>{boletoBankNames[remittance.bankCode]} · CNAB {remittance.layout}</span>
+                <span>{remittance.boletoIds.length} boleto(s)</span>
+                <span className="text-muted-foreground">{formatDateForDisplay(remittance.createdDate)} · {remittance.fileName}</span>
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog open={isIssueOpen} onOpenChange={setIsIssueOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Emitir Boleto</AlertDialogTitle>
+            <AlertDialogDescription>
+              O boleto usa os dados bancários e o convênio da empresa emissora do documento (configurados em Dados das Empresas).
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-3 py-2">
+            <div>
+              <Label>Cobrar</Label>
+              <Select value={issueForm.sourceType} onValueChange={(value) => setIssueForm(form => ({ ...form, sourceType: value as BoletoSourceType, sourceId: "" }))}>
+                <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="invoice">Fatura de Locação</SelectItem>
+                  <SelectItem value="budget">Orçamento Aprovado</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>{boletoSourceTypeLabels[issueForm.sourceType]}</Label>
+              <Select value={issueForm.sourceId} onValueChange={handleSourceChange}>
+                <SelectTrigger className="mt-1"><SelectValue placeholder={chargeableDocuments.length ? "Selecione o documento" : "Nenhum documento disponível"} /></SelectTrigger>
+                <SelectContent>
+                  {chargeableDocuments.map(item => <SelectItem key={item.id} value={item.id}>{item.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="boleto-due-date">Vencimento</Label>
+              <Input id="boleto-due-date" type="date" value={issueForm.dueDate} onChange={(e) => setIssueForm(form => ({ ...form, dueDate: e.target.value }))} className="mt-1" />
+            </div>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isMutating}>Voltar</AlertDialogCancel>
+            <AlertDialogAction onClick={(e) => { e.preventDefault(); issueMutation.mutate(); }} disabled={isMutating || !issueForm.sourceId || !issueForm.dueDate}>
+              {issueMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Emitir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={isRemittanceOpen} onOpenChange={setIsRemittanceOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Gerar Arquivo de Remessa</AlertDialogTitle>
+            <AlertDialogDescription>
+              Inclui os boletos emitidos da empresa que ainda não foram enviados ao banco. O CNAB 400 está disponível apenas para o Bradesco.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-3 py-2">
+            <div>
+              <Label>Empresa Beneficiária</Label>
+              <Select value={remittanceCompanyId} onValueChange={(value) => setRemittanceCompanyId(value as CompanyId)}>
+                <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {companyDisplayOptions.map(company => <SelectItem key={company.id} value={company.id}>{company.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Layout</Label>
+              <Select value={remittanceLayout} onValueChange={(value) => setRemittanceLayout(value as CnabLayout)}>
+                <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="240">CNAB 240 (FEBRABAN)</SelectItem>
+                  <SelectItem value="400">CNAB 400 (Bradesco)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isMutating}>Voltar</AlertDialogCancel>
+            <AlertDialogAction onClick={(e) => { e.preventDefault(); remittanceMutation.mutate(); }} disabled={isMutating}>
+              {remittanceMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Gerar e Baixar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={isReturnOpen} onOpenChange={setIsReturnOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Importar Arquivo de Retorno</AlertDialogTitle>
+            <AlertDialogDescription>
+              Os boletos liquidados no arquivo são marcados como pagos, junto com a fatura ou orçamento que cobram.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-3 py-2">
+            <div>
+              <Label>Empresa Beneficiária</Label>
+              <Select value={returnCompanyId} onValueChange={(value) => setReturnCompanyId(value as CompanyId)}>
+                <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {companyDisplayOptions.map(company => <SelectItem key={company.id} value={company.id}>{company.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="boleto-return-file">Arquivo (.RET)</Label>
+              <Input id="boleto-return-file" type="file" accept=".ret,.RET,.txt,.TXT" onChange={(e) => setReturnFile(e.target.files?.[0] ?? null)} className="mt-1" />
+            </div>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isMutating}>Voltar</AlertDialogCancel>
+            <AlertDialogAction onClick={(e) => { e.preventDefault(); returnMutation.mutate(); }} disabled={isMutating || !returnFile}>
+              {returnMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Importar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!writeOffTarget} onOpenChange={(open) => { if (!open) setWriteOffTarget(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Baixar Boleto</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja dar baixa no boleto {writeOffTarget?.bankOurNumber}? O documento poderá receber um novo boleto.
+              {writeOffTarget?.status === "Remessa Enviada" ? " Este boleto já foi registrado no banco: solicite a baixa também no internet banking." : ""}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isMutating}>Voltar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => writeOffTarget && writeOffMutation.mutate(writeOffTarget)}
+              disabled={isMutating}
+              className={buttonVariants({ variant: "destructive" })}
+            >
+              Baixar Boleto
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
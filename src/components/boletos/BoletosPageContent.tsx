@@ -0,0 +1,17 @@
+"use client";
+
+import { BoletosClientPage } from "@/components/boletos/BoletosClientPage";
+import { useState, useEffect } from 'react';
+import type { FC } from 'react';
+
+export const BoletosPageContent: FC = () => {
+  const [isClient, setIsClient] = useState(false);
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  if (!isClient) {
+    return null;
+  }
+  return <BoletosClientPage />;
+}
@@ -0,0 +1,252 @@
+"use client";
+
+import type { ReactNode } from "react";
+import Image from "next/image";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import type * as z from "zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, Ban, CheckCircle2, FileDown, Loader2, ThumbsUp, XCircle } from "lucide-react";
+import type { BudgetApprovalLink, BudgetCustomerDecision } from "@/types";
+import { BudgetCustomerResponseSchema } from "@/types";
+import { db } from "@/lib/firebase";
+import { fetchBudgetApprovalLink, submitBudgetCustomerResponse, queryKeys } from "@/lib/repositories";
+import { isBudgetApprovalLinkExpired } from "@/lib/budget-approval";
+import { formatBudgetRevisionNumber } from "@/lib/budget-revisions";
+import { generateBudgetPDF } from "@/lib/budget-pdf";
+import { computeBudgetTotals, formatDiscount, getBudgetItemCategory } from "@/lib/budget-totals";
+import { formatAddressForDisplay, formatCurrency, formatDateForDisplay, toTitleCase } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BudgetTotalsSummary } from "@/components/budgets/BudgetTotalsSummary";
+
+interface BudgetApprovalClientPageProps {
+  token: string | null;
+}
+
+type ResponseFormValues = z.input<typeof BudgetCustomerResponseSchema>;
+
+const PageShell = ({ children }: { children: ReactNode }) => (
+  <div className="flex min-h-screen justify-center bg-background p-4">
+    <div className="w-full max-w-3xl space-y-4 py-6">
+      <div className="flex justify-center">
+        <Image src="/images/logo.png" alt="Gold Maq Controle Logo" width={160} height={40} priority />
+      </div>
+      {children}
+    </div>
+  </div>
+);
+
+const MessageCard = ({ icon, title, description }: { icon: ReactNode; title: string; description: string }) => (
+  <Card className="shadow-lg">
+    <CardHeader className="items-center text-center">
+      {icon}
+      <CardTitle className="font-headline text-2xl pt-2">{title}</CardTitle>
+      <CardDescription>{description}</CardDescription>
+    </CardHeader>
+  </Card>
+);
+
+const downloadPdf = (link: BudgetApprovalLink) => {
+  generateBudgetPDF(link, link.customer, link.equipment, link.serviceOrderNumber, link.company);
+};
+
+export function BudgetApprovalClientPage({ token }: BudgetApprovalClientPageProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: link, isLoading, isError } = useQuery<BudgetApprovalLink | null, Error>({
+    queryKey: queryKeys.budgetApprovals.detail(token),
+    queryFn: () => fetchBudgetApprovalLink(token || ""),
+    enabled: !!db && !!token,
+  });
+
+  const form = useForm<ResponseFormValues>({
+    resolver: zodResolver(BudgetCustomerResponseSchema),
+    defaultValues: { decision: "Aprovado", name: "", cnpj: "", comment: "" },
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async (values: ResponseFormValues) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      if (!link) throw new Error("Orçamento não encontrado.");
+      await submitBudgetCustomerResponse(link, values);
+      return values.decision;
+    },
+    onSuccess: (decision) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgetApprovals.detail(token) });
+      toast({ title: decision === "Aprovado" ? "Orçamento Aprovado" : "Orçamento Recusado", description: "Sua resposta foi registrada. Obrigado!" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Não foi possível registrar a resposta", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const respond = (decision: BudgetCustomerDecision) => {
+    form.setValue("decision", decision);
+    form.handleSubmit(values => respondMutation.mutate(values))();
+  };
+
+  if (!token) {
+    return (
+      <PageShell>
+        <MessageCard icon={<AlertTriangle className="h-10 w-10 text-destructive" />} title="Link inválido" description="Verifique se o endereço foi copiado por completo." />
+      </PageShell>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <PageShell>
+        <div className="flex h-64 items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="ml-2">Carregando orçamento...</p>
+        </div>
+      </PageShell>
+    );
+  }
+
+  if (isError || !link) {
+    return (
+      <PageShell>
+        <MessageCard
+          icon={<AlertTriangle className="h-10 w-10 text-destructive" />}
+          title="Orçamento não encontrado"
+          description="Este link não existe mais, provavelmente porque o orçamento foi revisado. Solicite o link atualizado à nossa equipe."
+        />
+      </PageShell>
+    );
+  }
+
+  const displayNumber = formatBudgetRevisionNumber(link.budgetNumber, link.revision);
+  const isExpired = isBudgetApprovalLinkExpired(link);
+  const companyName = link.company?.name || "Gold Maq Empilhadeiras";
+  const totals = computeBudgetTotals(link);
+
+  return (
+    <PageShell>
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="font-headline text-2xl">Orçamento Nº {displayNumber}</CardTitle>
+          <CardDescription>
+            {companyName} · Emitido em {formatDateForDisplay(link.createdDate)} · Válido até {formatDateForDisplay(link.validUntilDate)}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div>
+              <p className="font-medium text-muted-foreground">Cliente</p>
+              <p>{toTitleCase(link.customer.name)}</p>
+              <p className="text-muted-foreground">{formatAddressForDisplay(link.customer)}</p>
+            </div>
+            {link.equipment && (
+              <div>
+                <p className="font-medium text-muted-foreground">Máquina</p>
+                <p>{toTitleCase(link.equipment.brand)} {toTitleCase(link.equipment.model)}</p>
+                <p className="text-muted-foreground">
+                  Chassi: {link.equipment.chassisNumber || "N/A"}{link.equipment.manufactureYear ? ` · Ano: ${link.equipment.manufactureYear}` : ""}
+                </p>
+              </div>
+            )}
+          </div>
+          {link.serviceOrderNumber && <p><span className="font-medium text-muted-foreground">Referente à OS:</span> {link.serviceOrderNumber}</p>}
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Descrição</TableHead>
+                <TableHead>Categoria</TableHead>
+                <TableHead className="text-right">Qtd.</TableHead>
+                <TableHead className="text-right">Preço Unit.</TableHead>
+                {totals.itemDiscount > 0 && <TableHead className="text-right">Desconto</TableHead>}
+                <TableHead className="text-right">Subtotal</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {link.items.map((item, index) => (
+                <TableRow key={item.id}>
+                  <TableCell>{item.description}</TableCell>
+                  <TableCell>{getBudgetItemCategory(item)}</TableCell>
+                  <TableCell className="text-right">{item.quantity}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(item.unitPrice)}</TableCell>
+                  {totals.itemDiscount > 0 && <TableCell className="text-right">{item.discount?.value ? formatDiscount(item.discount) : "-"}</TableCell>}
+                  <TableCell className="text-right">{formatCurrency(totals.lines[index].net)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <BudgetTotalsSummary totals={totals} />
+
+          {link.notes && (
+            <div>
+              <p className="font-medium text-muted-foreground">Observações</p>
+              <p className="whitespace-pre-line">{link.notes}</p>
+            </div>
+          )}
+        </CardContent>
+        <CardFooter>
+          <Button variant="outline" onClick={() => downloadPdf(link)}>
+            <FileDown className="mr-2 h-4 w-4" /> Baixar PDF
+          </Button>
+        </CardFooter>
+      </Card>
+
+      {link.response ? (
+        <MessageCard
+          icon={link.response.decision === "Aprovado"
+            ? <CheckCircle2 className="h-10 w-10 text-green-600" />
+            : <XCircle className="h-10 w-10 text-red-600" />}
+          title={link.response.decision === "Aprovado" ? "Orçamento aprovado" : "Orçamento recusado"}
+          description={`Resposta registrada por ${link.response.name} em ${formatDateForDisplay(link.response.respondedAt)}.`}
+        />
+      ) : isExpired ? (
+        <MessageCard
+          icon={<AlertTriangle className="h-10 w-10 text-amber-500" />}
+          title="Orçamento vencido"
+          description={`A validade deste orçamento terminou em ${formatDateForDisplay(link.validUntilDate)}. Fale com a ${companyName} para receber uma proposta atualizada.`}
+        />
+      ) : (
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle className="font-headline text-xl">Sua resposta</CardTitle>
+            <CardDescription>Confirme seus dados para aprovar ou recusar este orçamento. A resposta vale para a revisão {displayNumber} exibida acima.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={(e) => e.preventDefault()} className="space-y-4">
+                <FormField control={form.control} name="name" render={({ field }) => (
+                  <FormItem><FormLabel>Nome do responsável</FormLabel><FormControl><Input autoComplete="name" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="cnpj" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>CNPJ/CPF da empresa</FormLabel>
+                    <FormControl><Input inputMode="numeric" placeholder="00.000.000/0000-00" {...field} /></FormControl>
+                    <FormDescription>O mesmo documento cadastrado para {toTitleCase(link.customer.name)}.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+                <FormField control={form.control} name="comment" render={({ field }) => (
+                  <FormItem><FormLabel>Comentário (Opcional)</FormLabel><FormControl><Textarea placeholder="Prazo, forma de pagamento, motivo da recusa..." {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+                )} />
+              </form>
+            </Form>
+          </CardContent>
+          <CardFooter className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+            <Button variant="outline" className="border-red-500 text-red-600 hover:bg-red-50 hover:text-red-700" onClick={() => respond("Recusado")} disabled={respondMutation.isPending}>
+              <Ban className="mr-2 h-4 w-4" /> Recusar
+            </Button>
+            <Button className="bg-green-600 hover:bg-green-700" onClick={() => respond("Aprovado")} disabled={respondMutation.isPending}>
+              {respondMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ThumbsUp className="mr-2 h-4 w-4" />}
+              Aprovar Orçamento
+            </Button>
+          </CardFooter>
+        </Card>
+      )}
+    </PageShell>
+  );
+}
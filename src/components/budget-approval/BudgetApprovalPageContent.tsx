@@ -0,0 +1,21 @@
+"use client";
+
+import { BudgetApprovalClientPage } from "@/components/budget-approval/BudgetApprovalClientPage";
+import { useState, useEffect } from 'react';
+import type { FC } from 'react';
+import { useSearchParams } from "next/navigation";
+
+export const BudgetApprovalPageContent: FC = () => {
+  const [isClient, setIsClient] = useState(false);
+  const searchParams = useSearchParams();
+  const token = searchParams ? searchParams.get('token') : null;
+
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  if (!isClient) {
+    return null;
+  }
+  return <BudgetApprovalClientPage token={token} />;
+}
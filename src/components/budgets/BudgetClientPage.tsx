@@ -1,14 +1,12 @@
 
 "use client";
 
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm, useFieldArray, useWatch } from "react-hook-form";
 import type * as z from "zod";
-import { PlusCircle, FileText, Users, Construction, Mail, MessageSquare, DollarSign, Trash2, Loader2, AlertTriangle, CalendarDays, ShoppingCart, Percent, Edit, Save, ThumbsUp, Ban, Pencil, X, Search, Send, Layers, Tag, FileDown } from "lucide-react";
+import { PlusCircle, FileText, Users, Construction, Mail, MessageSquare, DollarSign, Trash2, Loader2, AlertTriangle, CalendarDays, ShoppingCart, Percent, Edit, Save, ThumbsUp, Ban, Pencil, X, Search, Send, Layers, Tag, FileDown, Route, Link2, UserCheck, CheckCircle2 } from "lucide-react";
 import Link from "next/link";
-import jsPDF from "jspdf";
-import autoTable from "jspdf-autotable";
 
 import { Button, buttonVariants } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
@@ -16,18 +14,31 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
-import type { Budget, BudgetItem, ServiceOrder, Customer, Maquina, BudgetStatusType, Company, CompanyId, ServiceOrderPhaseType } from "@/types";
-import { BudgetSchema, BudgetItemSchema, budgetStatusOptions, companyIds, GOLDMAQ_COMPANY_ID } from "@/types";
+import type { Budget, BudgetItem, ServiceOrder, Customer, Maquina, BudgetStatusType, BudgetDisplayStatus, BudgetRefusalReason, Company, CompanyId, ServiceOrderPhaseType, CatalogItem } from "@/types";
+import { BudgetSchema, BudgetItemSchema, budgetItemCategoryOptions, budgetStatusOptions, budgetDisplayStatusOptions, budgetRefusalReasonOptions, companyIds, GOLDMAQ_COMPANY_ID } from "@/types";
 import { PageHeader } from "@/components/shared/PageHeader";
 import { DataTablePlaceholder } from "@/components/shared/DataTablePlaceholder";
 import { FormModal } from "@/components/shared/FormModal";
+import { DetailsHistoryTabs } from "@/components/shared/DetailsHistoryTabs";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
 import { db } from "@/lib/firebase";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { collection, getDocs, addDoc, updateDoc, deleteDoc, doc, Timestamp, query, orderBy, serverTimestamp, getDoc } from "firebase/firestore";
+import {
+  fetchBudgets, fetchServiceOrders, fetchCustomers, fetchMaquinas, fetchCompanies, fetchCatalogItems,
+  createBudget, updateBudget, deleteBudget, updateBudgetStatus, handleBudgetCustomerResponse, createBudgetApprovalLink, updateServiceOrderFields, queryKeys, PENDING_DOCUMENT_NUMBER,
+} from "@/lib/repositories";
 import { format, parseISO, isValid as isValidDateFn, addDays } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { tripCostToBudgetItems } from "@/lib/trip-cost";
+import { formatBudgetRevisionNumber, getBudgetDisplayNumber, isBudgetRevisionFrozen } from "@/lib/budget-revisions";
 import { cn, formatAddressForDisplay, formatDateForDisplay, getWhatsAppNumber, formatPhoneNumberForInputDisplay, toTitleCase, formatCurrency } from "@/lib/utils";
+import { buildCompanyPixPayload } from "@/lib/pix";
+import { generateBudgetPDF } from "@/lib/budget-pdf";
+import { getBudgetApprovalUrl } from "@/lib/budget-approval";
+import { computeBudgetTotals, formatBudgetTotalsLines, formatDiscount, getBudgetItemCategory, getCompanyTaxRates } from "@/lib/budget-totals";
+import { catalogItemToBudgetItem, computeBudgetMargin } from "@/lib/catalog";
+import { getBudgetDisplayStatus } from "@/lib/budget-funnel";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -40,85 +51,26 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { Label } from "@/components/ui/label";
-
-const FIRESTORE_BUDGET_COLLECTION_NAME = "budgets";
-const FIRESTORE_SERVICE_ORDER_COLLECTION_NAME = "ordensDeServico";
-const FIRESTORE_CUSTOMER_COLLECTION_NAME = "clientes";
-const FIRESTORE_EQUIPMENT_COLLECTION_NAME = "equipamentos";
-const FIRESTORE_COMPANY_COLLECTION_NAME = "empresas";
+import { BudgetRevisionsPanel } from "./BudgetRevisionsPanel";
+import { BudgetDiscountInput } from "./BudgetDiscountInput";
+import { BudgetTotalsSummary } from "./BudgetTotalsSummary";
+import { BudgetMarginSummary } from "./BudgetMarginSummary";
+import { CatalogAutocompleteInput } from "@/components/catalog/CatalogAutocompleteInput";
 
 const NO_SERVICE_ORDER_SELECTED = "_NO_SERVICE_ORDER_SELECTED_";
 const ALL_STATUSES_FILTER_VALUE = "_ALL_STATUSES_BUDGET_";
 
-
-async function fetchBudgets(): Promise<Budget[]> {
-  if (!db) throw new Error("Firebase DB is not available");
-  const q = query(collection(db, FIRESTORE_BUDGET_COLLECTION_NAME), orderBy("createdDate", "desc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => {
-    const data = docSnap.data();
-    return {
-      id: docSnap.id,
-      ...data,
-      createdDate: data.createdDate instanceof Timestamp ? data.createdDate.toDate().toISOString() : data.createdDate,
-      validUntilDate: data.validUntilDate instanceof Timestamp ? data.validUntilDate.toDate().toISOString() : data.validUntilDate,
-      serviceOrderCreated: data.serviceOrderCreated || false,
-    } as Budget;
-  });
-}
-
-async function fetchServiceOrders(): Promise<ServiceOrder[]> {
-  if (!db) throw new Error("Firebase DB is not available");
-  const q = query(collection(db, FIRESTORE_SERVICE_ORDER_COLLECTION_NAME), orderBy("orderNumber", "desc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as ServiceOrder));
-}
-
-async function fetchCustomers(): Promise<Customer[]> {
-  if (!db) throw new Error("Firebase DB is not available");
-  const q = query(collection(db, FIRESTORE_CUSTOMER_COLLECTION_NAME), orderBy("name", "asc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Customer));
-}
-
-async function fetchEquipment(): Promise<Maquina[]> {
-  if (!db) throw new Error("Firebase DB is not available");
-  const q = query(collection(db, FIRESTORE_EQUIPMENT_COLLECTION_NAME), orderBy("brand", "asc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Maquina));
-}
-
-async function fetchCompanyById(companyId: CompanyId): Promise<Company | null> {
-  if (!db) {
-    console.error(`fetchCompanyById (${companyId}): Firebase DB is not available.`);
-    throw new Error("Firebase DB is not available");
-  }
-  const docRef = doc(db, FIRESTORE_COMPANY_COLLECTION_NAME, companyId);
-  const docSnap = await getDoc(docRef);
-  if (docSnap.exists()) {
-    return { id: docSnap.id as CompanyId, ...docSnap.data() } as Company;
+const getBudgetFormDescription = (budget: Budget | null): string => {
+  if (!budget) return "Preencha os detalhes do orçamento.";
+  if (budget.status === "Aprovado") return `A revisão ${getBudgetDisplayNumber(budget)} foi aprovada. Reabra o orçamento para alterar itens ou valores.`;
+  if (isBudgetRevisionFrozen(budget)) {
+    return `A revisão ${getBudgetDisplayNumber(budget)} já foi enviada. Alterar itens, descontos, frete, validade ou observações cria a revisão ${formatBudgetRevisionNumber(budget.budgetNumber, (budget.revision ?? 0) + 1)}.`;
   }
-  console.warn(`fetchCompanyById: Company with ID ${companyId} not found.`);
-  return null;
-}
-
-
-const getNextBudgetNumber = (currentBudgets: Budget[]): string => {
-  if (!currentBudgets || currentBudgets.length === 0) return "0001";
-  let maxNum = 0;
-  currentBudgets.forEach(budget => {
-    const numPartMatch = budget.budgetNumber.match(/(\d+)$/);
-    if (numPartMatch && numPartMatch[1]) {
-      const num = parseInt(numPartMatch[1], 10);
-      if (!isNaN(num) && num > maxNum) {
-        maxNum = num;
-      }
-    }
-  });
-  return (maxNum + 1).toString().padStart(4, '0');
+  return "Preencha os detalhes do orçamento.";
 };
 
 
+
 const generateDetailedWhatsAppMessage = (
   budget: Budget,
   customer?: Customer,
@@ -127,7 +79,7 @@ const generateDetailedWhatsAppMessage = (
   companyDetails?: Company | null
 ): string => {
   let message = `Olá, ${toTitleCase(customer?.name) || 'Cliente'}!\n\n`;
-  message += `Segue o Orçamento Nº *${budget.budgetNumber}* da ${companyDetails?.name || 'Gold Maq Empilhadeiras'}.\n\n`;
+  message += `Segue o Orçamento Nº *${getBudgetDisplayNumber(budget)}* da ${companyDetails?.name || 'Gold Maq Empilhadeiras'}.\n\n`;
 
   if (serviceOrder && serviceOrder.orderNumber && serviceOrder.orderNumber !== NO_SERVICE_ORDER_SELECTED) {
     message += `Referente à OS: *${serviceOrder.orderNumber}*\n`;
@@ -153,9 +105,15 @@ const generateDetailedWhatsAppMessage = (
   }
   message += `Validade da Proposta: *${validityDisplay}*\n`;
 
+  const totals = computeBudgetTotals(budget);
   message += "\n*Itens/Serviços:*\n";
-  budget.items.forEach(item => {
-    message += `- ${item.description} (Qtd: ${item.quantity}, Unit.: ${formatCurrency(item.unitPrice)}): *${formatCurrency(item.quantity * item.unitPrice)}*\n`;
+  budget.items.forEach((item, index) => {
+    const discount = item.discount?.value ? `, Desc.: ${formatDiscount(item.discount)}` : "";
+    message += `- [${getBudgetItemCategory(item)}] ${item.description} (Qtd: ${item.quantity}, Unit.: ${formatCurrency(item.unitPrice)}${discount}): *${formatCurrency(totals.lines[index].net)}*\n`;
+  });
+  message += "\n*Resumo:*\n";
+  formatBudgetTotalsLines(totals).forEach(line => {
+    message += `${line}\n`;
   });
   if (budget.shippingCost && budget.shippingCost > 0) {
     message += `Frete: *${formatCurrency(budget.shippingCost)}*\n`;
@@ -166,8 +124,14 @@ const generateDetailedWhatsAppMessage = (
     message += `\n*Observações:*\n${budget.notes}\n`;
   }
 
+  if (budget.approvalLinkId) {
+    message += `\n*Aprovar ou recusar online:*\n${getBudgetApprovalUrl(window.location.origin, budget.approvalLinkId)}\n`;
+  }
+
+  const pixPayload = buildCompanyPixPayload(companyDetails, budget.totalAmount, budget.budgetNumber);
   if (companyDetails?.bankPixKey) {
-    message += `\n*Pagamento via PIX:*\nChave PIX (CNPJ): ${companyDetails.bankPixKey}\n`;
+    message += `\n*Pagamento via PIX:*\nChave PIX: ${companyDetails.bankPixKey}\n`;
+    if (pixPayload) message += `PIX copia e cola (valor do orçamento):\n${pixPayload}\n`;
   } else if (companyDetails?.bankName) {
     message += `\n*Dados Bancários para Pagamento:*\n`;
     message += `Banco: ${companyDetails.bankName}\n`;
@@ -184,6 +148,7 @@ const generateDetailedWhatsAppMessage = (
 };
 
 
+// Plain text: the mailto link encodes it once, PIX payload included.
 const generateEmailBody = (
   budget: Budget,
   customer?: Customer,
@@ -191,22 +156,22 @@ const generateEmailBody = (
   serviceOrder?: ServiceOrder,
   companyDetails?: Company | null
 ): string => {
-  let body = `Prezado(a) ${toTitleCase(customer?.name) || 'Cliente'},%0A%0A`;
-  body += `Segue o Orçamento Nº ${budget.budgetNumber} da ${companyDetails?.name || 'Gold Maq Empilhadeiras'}.%0A%0A`;
+  let body = `Prezado(a) ${toTitleCase(customer?.name) || 'Cliente'},\n\n`;
+  body += `Segue o Orçamento Nº ${getBudgetDisplayNumber(budget)} da ${companyDetails?.name || 'Gold Maq Empilhadeiras'}.\n\n`;
 
   if (serviceOrder && serviceOrder.orderNumber && serviceOrder.orderNumber !== NO_SERVICE_ORDER_SELECTED) {
-    body += `Referente à Ordem de Serviço (OS): ${serviceOrder.orderNumber}%0A`;
+    body += `Referente à Ordem de Serviço (OS): ${serviceOrder.orderNumber}\n`;
   }
   if (customer) {
-    body += `Cliente: ${toTitleCase(customer.name)}%0A`;
+    body += `Cliente: ${toTitleCase(customer.name)}\n`;
   }
   if (equipment) {
-    body += `Máquina: ${toTitleCase(equipment.brand)} ${toTitleCase(equipment.model)}%0A`;
-    if (equipment.chassisNumber) body += `Chassi: ${equipment.chassisNumber}%0A`;
-    if (equipment.manufactureYear) body += `Ano: ${equipment.manufactureYear}%0A`;
+    body += `Máquina: ${toTitleCase(equipment.brand)} ${toTitleCase(equipment.model)}\n`;
+    if (equipment.chassisNumber) body += `Chassi: ${equipment.chassisNumber}\n`;
+    if (equipment.manufactureYear) body += `Ano: ${equipment.manufactureYear}\n`;
   }
-  body += `%0A--- DETALHES DO ORÇAMENTO ---%0A`;
-  body += `Data de Emissão: ${formatDateForDisplay(budget.createdDate)}%0A`;
+  body += `\n--- DETALHES DO ORÇAMENTO ---\n`;
+  body += `Data de Emissão: ${formatDateForDisplay(budget.createdDate)}\n`;
 
   let validityDisplay = "7 dias";
   if (budget.validUntilDate && isValidDateFn(parseISO(budget.validUntilDate))) {
@@ -216,226 +181,86 @@ const generateEmailBody = (
      const validityEndDate = addDays(creationDate, 7);
      validityDisplay = formatDateForDisplay(validityEndDate);
   }
-  body += `Validade da Proposta: ${validityDisplay}%0A`;
+  body += `Validade da Proposta: ${validityDisplay}\n`;
 
-  body += `%0A--- ITENS/SERVIÇOS ---%0A`;
-  budget.items.forEach(item => {
-    body += `- ${item.description} (Qtd: ${item.quantity}, Valor Unitário: ${formatCurrency(item.unitPrice)}): ${formatCurrency(item.quantity * item.unitPrice)}%0A`;
+  const totals = computeBudgetTotals(budget);
+  body += `\n--- ITENS/SERVIÇOS ---\n`;
+  budget.items.forEach((item, index) => {
+    const discount = item.discount?.value ? `, Desconto: ${formatDiscount(item.discount)}` : "";
+    body += `- [${getBudgetItemCategory(item)}] ${item.description} (Qtd: ${item.quantity}, Valor Unitário: ${formatCurrency(item.unitPrice)}${discount}): ${formatCurrency(totals.lines[index].net)}\n`;
+  });
+  body += `\n--- RESUMO ---\n`;
+  formatBudgetTotalsLines(totals).forEach(line => {
+    body += `${line}\n`;
   });
   if (budget.shippingCost && budget.shippingCost > 0) {
-    body += `Frete: ${formatCurrency(budget.shippingCost)}%0A`;
+    body += `Frete: ${formatCurrency(budget.shippingCost)}\n`;
   }
-  body += `%0AVALOR TOTAL DO ORÇAMENTO: ${formatCurrency(budget.totalAmount)}%0A`;
+  body += `\nVALOR TOTAL DO ORÇAMENTO: ${formatCurrency(budget.totalAmount)}\n`;
 
   if (budget.notes) {
-    body += `%0A--- OBSERVAÇÕES ---%0A${budget.notes.replace(/\n/g, '%0A')}%0A`;
+    body += `\n--- OBSERVAÇÕES ---\n${budget.notes}\n`;
+  }
+
+  if (budget.approvalLinkId) {
+    body += `\n--- APROVAÇÃO ONLINE ---\n${getBudgetApprovalUrl(window.location.origin, budget.approvalLinkId)}\n`;
   }
 
   if (companyDetails?.bankPixKey || companyDetails?.bankName) {
-      body += `%0A--- DADOS PARA PAGAMENTO ---%0A`;
+      body += `\n--- DADOS PARA PAGAMENTO ---\n`;
       if (companyDetails.bankPixKey) {
-          body += `Chave PIX (CNPJ): ${companyDetails.bankPixKey}%0A`;
+          body += `Chave PIX: ${companyDetails.bankPixKey}\n`;
+          const pixPayload = buildCompanyPixPayload(companyDetails, budget.totalAmount, budget.budgetNumber);
+          if (pixPayload) body += `PIX copia e cola (valor do orçamento): ${pixPayload}\n`;
       }
       if (companyDetails.bankName) {
-          body += `Banco: ${companyDetails.bankName}%0A`;
-          if (companyDetails.bankAgency) body += `Agência: ${companyDetails.bankAgency}%0A`;
-          if (companyDetails.bankAccount) body += `Conta Corrente: ${companyDetails.bankAccount}%0A`;
+          body += `Banco: ${companyDetails.bankName}\n`;
+          if (companyDetails.bankAgency) body += `Agência: ${companyDetails.bankAgency}\n`;
+          if (companyDetails.bankAccount) body += `Conta Corrente: ${companyDetails.bankAccount}\n`;
       }
   }
 
 
-  body += `%0AFicamos à disposição para quaisquer esclarecimentos.%0A%0A`;
-  body += `Atenciosamente,%0AEquipe ${companyDetails?.name || 'Gold Maq Empilhadeiras'}`;
+  body += `\nFicamos à disposição para quaisquer esclarecimentos.\n\n`;
+  body += `Atenciosamente,\nEquipe ${companyDetails?.name || 'Gold Maq Empilhadeiras'}`;
   if (companyDetails?.phone) {
-      body += `%0A${formatPhoneNumberForInputDisplay(companyDetails.phone)}`;
+      body += `\n${formatPhoneNumberForInputDisplay(companyDetails.phone)}`;
   }
   if (companyDetails?.email) {
-      body += `%0A${companyDetails.email}`;
+      body += `\n${companyDetails.email}`;
   }
   if (companyDetails?.street) { // Add address if available
-      body += `%0A${formatAddressForDisplay(companyDetails)}`;
+      body += `\n${formatAddressForDisplay(companyDetails)}`;
   }
   return body;
 };
 
 
-const generateBudgetPDF = (
-  budget: Budget,
-  customer: Customer | undefined,
-  equipment: Maquina | undefined,
-  serviceOrder: ServiceOrder | undefined,
-  companyDetails: Company | null
-) => {
-  const doc = new jsPDF();
-  let yPos = 15;
-  const lineSpacing = 6;
-  const sectionSpacing = 10;
-  const smallText = 9;
-  const normalText = 10;
-  const largeText = 12;
-  const titleText = 16;
-
-  if (companyDetails) {
-    doc.setFontSize(largeText);
-    doc.setFont("helvetica", "bold");
-    doc.text(companyDetails.name, 14, yPos);
-    yPos += lineSpacing;
-    doc.setFontSize(smallText);
-    doc.setFont("helvetica", "normal");
-    doc.text(`CNPJ: ${companyDetails.cnpj}`, 14, yPos);
-    yPos += lineSpacing / 2;
-    doc.text(formatAddressForDisplay(companyDetails), 14, yPos);
-    yPos += lineSpacing;
-  } else {
-    doc.setFontSize(largeText);
-    doc.text("Gold Maq Empilhadeiras (Detalhes não encontrados)", 14, yPos);
-    yPos += sectionSpacing;
-  }
-
-  doc.setFontSize(titleText);
-  doc.setFont("helvetica", "bold");
-  doc.text(`ORÇAMENTO Nº ${budget.budgetNumber}`, 105, yPos, { align: "center" });
-  yPos += sectionSpacing;
-
-  doc.setFontSize(normalText);
-  doc.setFont("helvetica", "normal");
-  doc.text(`Data de Emissão: ${formatDateForDisplay(budget.createdDate)}`, 14, yPos);
-  let validityDisplay = "7 dias (a partir da emissão)";
-  if (budget.validUntilDate && isValidDateFn(parseISO(budget.validUntilDate))) {
-    validityDisplay = formatDateForDisplay(budget.validUntilDate);
-  } else if (budget.createdDate && isValidDateFn(parseISO(budget.createdDate))) {
-     const creationDate = parseISO(budget.createdDate);
-     const validityEndDate = addDays(creationDate, 7);
-     validityDisplay = formatDateForDisplay(validityEndDate);
-  }
-  doc.text(`Validade da Proposta: ${validityDisplay}`, 120, yPos);
-  yPos += sectionSpacing;
-
-  doc.setFontSize(largeText);
-  doc.setFont("helvetica", "bold");
-  doc.text("Dados do Cliente:", 14, yPos);
-  yPos += lineSpacing;
-  doc.setFontSize(normalText);
-  doc.setFont("helvetica", "normal");
-  if (customer) {
-    doc.text(`Nome/Razão Social: ${toTitleCase(customer.name)}`, 14, yPos);
-    yPos += lineSpacing;
-    doc.text(`CNPJ: ${customer.cnpj}`, 14, yPos);
-    yPos += lineSpacing;
-    doc.text(`Endereço: ${formatAddressForDisplay(customer)}`, 14, yPos);
-  } else {
-    doc.text("Cliente não especificado.", 14, yPos);
-  }
-  yPos += sectionSpacing;
-
-  if (equipment) {
-    doc.setFontSize(largeText);
-    doc.setFont("helvetica", "bold");
-    doc.text("Dados da Máquina:", 14, yPos);
-    yPos += lineSpacing;
-    doc.setFontSize(normalText);
-    doc.setFont("helvetica", "normal");
-    doc.text(`Marca/Modelo: ${toTitleCase(equipment.brand)} ${toTitleCase(equipment.model)}`, 14, yPos);
-    yPos += lineSpacing;
-    doc.text(`Chassi: ${equipment.chassisNumber || 'N/A'}`, 14, yPos);
-    yPos += lineSpacing;
-    if (equipment.manufactureYear) {
-      doc.text(`Ano: ${equipment.manufactureYear}`, 14, yPos);
-      yPos += lineSpacing;
-    }
-  }
-  if (serviceOrder && serviceOrder.orderNumber && serviceOrder.orderNumber !== NO_SERVICE_ORDER_SELECTED) {
-    doc.setFontSize(normalText);
-    doc.text(`Referente à Ordem de Serviço Nº: ${serviceOrder.orderNumber}`, 14, yPos);
-    yPos += lineSpacing;
-  }
-  yPos += (lineSpacing / 2);
-
-  const tableColumn = ["Descrição", "Qtd.", "Preço Unit.", "Subtotal"];
-  const tableRows: any[][] = [];
-  budget.items.forEach(item => {
-    const itemData = [
-      item.description,
-      item.quantity.toString(),
-      formatCurrency(item.unitPrice),
-      formatCurrency(item.quantity * item.unitPrice)
-    ];
-    tableRows.push(itemData);
-  });
-
-  autoTable(doc, {
-    head: [tableColumn],
-    body: tableRows,
-    startY: yPos,
-    theme: 'grid',
-    headStyles: { fillColor: [249, 115, 22] },
-    styles: { fontSize: 9, cellPadding: 1.5 },
-    columnStyles: {
-        0: { cellWidth: 'auto'},
-        1: { cellWidth: 15, halign: 'right' },
-        2: { cellWidth: 30, halign: 'right' },
-        3: { cellWidth: 30, halign: 'right' },
-    }
-  });
-
-  // @ts-ignore
-  yPos = doc.lastAutoTable.finalY + sectionSpacing;
-
-  doc.setFontSize(normalText);
-  doc.text(`Subtotal Itens: ${formatCurrency(budget.subtotal)}`, 140, yPos, { align: 'left' });
-  yPos += lineSpacing;
-  if (budget.shippingCost && budget.shippingCost > 0) {
-    doc.text(`Frete: ${formatCurrency(budget.shippingCost)}`, 140, yPos, { align: 'left' });
-    yPos += lineSpacing;
-  }
-  doc.setFont("helvetica", "bold");
-  doc.text(`Valor Total: ${formatCurrency(budget.totalAmount)}`, 140, yPos, { align: 'left' });
-  yPos += sectionSpacing;
-  doc.setFont("helvetica", "normal");
-
-  if (budget.notes) {
-    doc.setFontSize(largeText);
-    doc.setFont("helvetica", "bold");
-    doc.text("Observações:", 14, yPos);
-    yPos += lineSpacing;
-    doc.setFontSize(normalText);
-    doc.setFont("helvetica", "normal");
-    const splitNotes = doc.splitTextToSize(budget.notes, 180);
-    doc.text(splitNotes, 14, yPos);
-    yPos += splitNotes.length * (lineSpacing / 1.5) + (lineSpacing / 2);
-  }
-
-  if (companyDetails && (companyDetails.bankName || companyDetails.bankPixKey)) {
-    doc.setFontSize(largeText);
-    doc.setFont("helvetica", "bold");
-    doc.text("Dados para Pagamento:", 14, yPos);
-    yPos += lineSpacing;
-    doc.setFontSize(smallText);
-    doc.setFont("helvetica", "normal");
-    if (companyDetails.bankName && companyDetails.bankAgency && companyDetails.bankAccount) {
-        doc.text(`Banco: ${companyDetails.bankName} | Agência: ${companyDetails.bankAgency} | Conta: ${companyDetails.bankAccount}`, 14, yPos);
-        yPos += lineSpacing / 1.5;
-    }
-    if (companyDetails.bankPixKey) {
-        doc.text(`Chave PIX (CNPJ): ${companyDetails.bankPixKey}`, 14, yPos);
-        yPos += lineSpacing / 1.5;
-    }
-  }
-  doc.save(`orcamento_${budget.budgetNumber}.pdf`);
-};
+interface BudgetClientPageProps {
+  budgetIdFromUrl?: string | null;
+  initialStatusFilter?: string | null;
+}
 
+const isBudgetDisplayStatus = (value: string | null | undefined): value is BudgetDisplayStatus =>
+  !!value && budgetDisplayStatusOptions.includes(value as BudgetDisplayStatus);
 
-export function BudgetClientPage() {
+export function BudgetClientPage({ budgetIdFromUrl, initialStatusFilter }: BudgetClientPageProps) {
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canManageBudgets = can("budgets:manage");
+  const canDecideBudgets = can("budgets:approve");
 
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingBudget, setEditingBudget] = useState<Budget | null>(null);
   const [isEditMode, setIsEditMode] = useState(false);
   const [isStatusConfirmModalOpen, setIsStatusConfirmModalOpen] = useState(false);
   const [statusChangeInfo, setStatusChangeInfo] = useState<{ budgetId: string; budgetNumber: string, newStatus: BudgetStatusType } | null>(null);
+  const [refusalReason, setRefusalReason] = useState<BudgetRefusalReason | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
-  const [statusFilter, setStatusFilter] = useState<BudgetStatusType | typeof ALL_STATUSES_FILTER_VALUE>(ALL_STATUSES_FILTER_VALUE);
+  const [statusFilter, setStatusFilter] = useState<BudgetDisplayStatus | typeof ALL_STATUSES_FILTER_VALUE>(
+    isBudgetDisplayStatus(initialStatusFilter) ? initialStatusFilter : ALL_STATUSES_FILTER_VALUE
+  );
 
   const [isWhatsAppModalOpen, setIsWhatsAppModalOpen] = useState(false);
   const [selectedBudgetForWhatsApp, setSelectedBudgetForWhatsApp] = useState<Budget | null>(null);
@@ -450,14 +275,18 @@ export function BudgetClientPage() {
       customerId: "",
       equipmentId: "",
       status: "Pendente",
-      items: [{ id: crypto.randomUUID(), description: "", quantity: 1, unitPrice: 0, totalPrice: 0 }],
+      companyId: GOLDMAQ_COMPANY_ID,
+      items: [{ id: crypto.randomUUID(), description: "", quantity: 1, unitPrice: 0, totalPrice: 0, category: "Peça", discount: null, catalogItemId: null, unitCost: null }],
       shippingCost: 0,
+      discount: null,
+      taxRates: null,
       subtotal: 0,
       totalAmount: 0,
       createdDate: new Date().toISOString().split('T')[0],
       validUntilDate: null,
       notes: "",
       serviceOrderCreated: false,
+      refusalReason: null,
     },
   });
 
@@ -468,47 +297,76 @@ export function BudgetClientPage() {
 
   const itemsWatch = useWatch({ control: form.control, name: "items" });
   const shippingCostWatch = useWatch({ control: form.control, name: "shippingCost" });
+  const discountWatch = useWatch({ control: form.control, name: "discount" });
+  const taxRatesWatch = useWatch({ control: form.control, name: "taxRates" });
+  const equipmentIdWatch = useWatch({ control: form.control, name: "equipmentId" });
+  const statusWatch = useWatch({ control: form.control, name: "status" });
+
+  const formTotals = useMemo(
+    () => computeBudgetTotals({ items: itemsWatch ?? [], discount: discountWatch, taxRates: taxRatesWatch, shippingCost: shippingCostWatch }),
+    [itemsWatch, discountWatch, taxRatesWatch, shippingCostWatch]
+  );
+  const formMargin = useMemo(
+    () => computeBudgetMargin({ items: itemsWatch ?? [], discount: discountWatch }),
+    [itemsWatch, discountWatch]
+  );
 
   useEffect(() => {
-    let subtotal = 0;
-    itemsWatch?.forEach(item => {
-      subtotal += (Number(item.quantity) || 0) * (Number(item.unitPrice) || 0);
-    });
-    form.setValue("subtotal", subtotal);
-    form.setValue("totalAmount", subtotal + (Number(shippingCostWatch) || 0));
-  }, [itemsWatch, shippingCostWatch, form]);
+    form.setValue("subtotal", formTotals.subtotal);
+    form.setValue("totalAmount", formTotals.totalAmount);
+  }, [formTotals, form]);
 
 
   const { data: budgets = [], isLoading: isLoadingBudgets, isError: isErrorBudgets, error: errorBudgets } = useQuery<Budget[], Error>({
-    queryKey: [FIRESTORE_BUDGET_COLLECTION_NAME],
+    queryKey: queryKeys.budgets.all,
     queryFn: fetchBudgets,
     enabled: !!db,
   });
 
   const { data: serviceOrders = [], isLoading: isLoadingServiceOrders } = useQuery<ServiceOrder[], Error>({
-    queryKey: [FIRESTORE_SERVICE_ORDER_COLLECTION_NAME],
+    queryKey: queryKeys.serviceOrders.all,
     queryFn: fetchServiceOrders,
     enabled: !!db,
   });
 
   const { data: customers = [], isLoading: isLoadingCustomers } = useQuery<Customer[], Error>({
-    queryKey: [FIRESTORE_CUSTOMER_COLLECTION_NAME],
+    queryKey: queryKeys.customers.all,
     queryFn: fetchCustomers,
     enabled: !!db,
   });
 
   const { data: equipmentList = [], isLoading: isLoadingEquipment } = useQuery<Maquina[], Error>({
-    queryKey: [FIRESTORE_EQUIPMENT_COLLECTION_NAME],
-    queryFn: fetchEquipment,
+    queryKey: queryKeys.maquinas.all,
+    queryFn: fetchMaquinas,
     enabled: !!db,
   });
 
-  const { data: goldmaqCompanyDetails, isLoading: isLoadingCompanyDetails } = useQuery<Company | null, Error>({
-    queryKey: [FIRESTORE_COMPANY_COLLECTION_NAME, GOLDMAQ_COMPANY_ID],
-    queryFn: () => fetchCompanyById(GOLDMAQ_COMPANY_ID),
+  const { data: companies = [], isLoading: isLoadingCompanyDetails } = useQuery<Company[], Error>({
+    queryKey: queryKeys.companies.all,
+    queryFn: fetchCompanies,
     enabled: !!db,
   });
 
+  const { data: catalogItems = [] } = useQuery<CatalogItem[], Error>({
+    queryKey: queryKeys.catalogItems.all,
+    queryFn: fetchCatalogItems,
+    enabled: !!db,
+  });
+
+  // Budgets saved before the issuer was recorded are Gold Maq's.
+  const getIssuingCompany = useCallback(
+    (budget: Pick<Budget, "companyId">) => companies.find(company => company.id === (budget.companyId ?? GOLDMAQ_COMPANY_ID)) ?? null,
+    [companies]
+  );
+
+  const selectedCompanyId = useWatch({ control: form.control, name: "companyId" });
+
+  // A new budget takes the issuer's current rates; saved ones keep theirs.
+  useEffect(() => {
+    if (!isModalOpen || editingBudget) return;
+    form.setValue("taxRates", getCompanyTaxRates(companies.find(company => company.id === selectedCompanyId)));
+  }, [selectedCompanyId, companies, isModalOpen, editingBudget, form]);
+
 
   const selectedServiceOrderId = useWatch({ control: form.control, name: 'serviceOrderId' });
 
@@ -528,9 +386,8 @@ export function BudgetClientPage() {
   const updateServiceOrderStatus = async (orderId: string, newPhase: ServiceOrderPhaseType) => {
     if (!db || !orderId || orderId === NO_SERVICE_ORDER_SELECTED) return;
     try {
-      const osRef = doc(db, FIRESTORE_SERVICE_ORDER_COLLECTION_NAME, orderId);
-      await updateDoc(osRef, { phase: newPhase });
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_SERVICE_ORDER_COLLECTION_NAME] });
+      await updateServiceOrderFields(orderId, { phase: newPhase });
+      queryClient.invalidateQueries({ queryKey: queryKeys.serviceOrders.all });
       toast({ title: "Status da OS Atualizado", description: `OS movida para "${newPhase}".` });
     } catch (error: any) {
       console.error("Erro ao atualizar status da OS:", error);
@@ -538,30 +395,32 @@ export function BudgetClientPage() {
     }
   };
 
+  // The linked OS follows a decision taken here; answers given on the approval
+  // link move it when staff confirm them (handleBudgetCustomerResponse).
+  const moveServiceOrderForDecision = (serviceOrderId: string | null | undefined, status: BudgetStatusType) => {
+    if (!serviceOrderId || serviceOrderId === NO_SERVICE_ORDER_SELECTED) return;
+    if (status === "Aprovado") {
+      updateServiceOrderStatus(serviceOrderId, "Autorizado, Aguardando Peça");
+    } else if (status === "Recusado") {
+      updateServiceOrderStatus(serviceOrderId, "Cancelada");
+    }
+  };
+
   const addBudgetMutation = useMutation({
     mutationFn: async (newBudgetData: z.infer<typeof BudgetSchema>) => {
       if (!db) throw new Error("Conexão com Firebase não disponível.");
-      const dataToSave = {
-        ...newBudgetData,
-        createdDate: serverTimestamp(),
-        validUntilDate: newBudgetData.validUntilDate ? Timestamp.fromDate(parseISO(newBudgetData.validUntilDate)) : null,
-        items: newBudgetData.items.map(item => ({...item, quantity: Number(item.quantity), unitPrice: Number(item.unitPrice), totalPrice: (Number(item.quantity) * Number(item.unitPrice))})),
-        subtotal: newBudgetData.items.reduce((acc, item) => acc + (Number(item.quantity) * Number(item.unitPrice)), 0),
-        totalAmount: newBudgetData.items.reduce((acc, item) => acc + (Number(item.quantity) * Number(item.unitPrice)), 0) + (Number(newBudgetData.shippingCost) || 0),
-        serviceOrderCreated: false,
-      };
-      return addDoc(collection(db, FIRESTORE_BUDGET_COLLECTION_NAME), dataToSave);
+      return createBudget(newBudgetData);
     },
-    onSuccess: (docRef, variables) => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_BUDGET_COLLECTION_NAME] });
-      toast({ title: "Orçamento Criado", description: `Orçamento ${variables.budgetNumber} foi criado.` });
+    onSuccess: (createdBudget, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgets.all });
+      toast({ title: "Orçamento Criado", description: `Orçamento ${createdBudget.budgetNumber} foi criado.` });
       closeModal();
       if (variables.serviceOrderId && variables.serviceOrderId !== NO_SERVICE_ORDER_SELECTED) {
         updateServiceOrderStatus(variables.serviceOrderId, "Avaliado, Aguardando Autorização");
       }
     },
-    onError: (err: Error, variables) => {
-      toast({ title: "Erro ao Criar", description: `Não foi possível criar o orçamento ${variables.budgetNumber}. Detalhes: ${err.message}`, variant: "destructive" });
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Criar", description: `Não foi possível criar o orçamento. Detalhes: ${err.message}`, variant: "destructive" });
     },
   });
 
@@ -570,42 +429,33 @@ export function BudgetClientPage() {
       if (!db) throw new Error("Conexão com Firebase não disponível.");
       const { id, ...dataToUpdate } = budgetData;
       if (!id) throw new Error("ID do orçamento é necessário.");
-      const budgetRef = doc(db, FIRESTORE_BUDGET_COLLECTION_NAME, id);
-
-      const originalBudgetDoc = await getDoc(budgetRef);
-      const originalCreatedDate = originalBudgetDoc.exists() ? originalBudgetDoc.data().createdDate : Timestamp.fromDate(parseISO(dataToUpdate.createdDate));
-      const originalServiceOrderCreated = originalBudgetDoc.exists() ? originalBudgetDoc.data().serviceOrderCreated : false;
-
-
-      const dataToSave = {
-        ...dataToUpdate,
-        createdDate: originalCreatedDate,
-        validUntilDate: dataToUpdate.validUntilDate ? Timestamp.fromDate(parseISO(dataToUpdate.validUntilDate)) : null,
-        items: dataToUpdate.items.map(item => ({...item, quantity: Number(item.quantity), unitPrice: Number(item.unitPrice), totalPrice: (Number(item.quantity) * Number(item.unitPrice))})),
-        subtotal: dataToUpdate.items.reduce((acc, item) => acc + (Number(item.quantity) * Number(item.unitPrice)), 0),
-        totalAmount: dataToUpdate.items.reduce((acc, item) => acc + (Number(item.quantity) * Number(item.unitPrice)), 0) + (Number(dataToUpdate.shippingCost) || 0),
-        serviceOrderCreated: dataToUpdate.serviceOrderCreated === undefined ? originalServiceOrderCreated : dataToUpdate.serviceOrderCreated,
-      };
-      await updateDoc(budgetRef, dataToSave as { [x: string]: any });
-      return budgetData;
+      const revision = await updateBudget(id, dataToUpdate);
+      return { ...budgetData, revision, openedRevision: revision !== (budgetData.revision ?? 0) };
     },
     onSuccess: (updatedBudgetData) => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_BUDGET_COLLECTION_NAME] });
-      toast({ title: "Orçamento Atualizado", description: `Orçamento ${updatedBudgetData.budgetNumber} foi atualizado.` });
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgets.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgets.revisions(updatedBudgetData.id) });
+      const displayNumber = getBudgetDisplayNumber(updatedBudgetData);
+      toast({
+        title: "Orçamento Atualizado",
+        description: updatedBudgetData.openedRevision
+          ? `Nova revisão ${displayNumber} criada; a revisão anterior foi preservada como enviada.`
+          : `Orçamento ${displayNumber} foi atualizado.`,
+      });
       closeModal();
     },
     onError: (err: Error, variables) => {
-      toast({ title: "Erro ao Atualizar", description: `Não foi possível atualizar o orçamento ${variables.budgetNumber}. Detalhes: ${err.message}`, variant: "destructive" });
+      toast({ title: "Erro ao Atualizar", description: `Não foi possível atualizar o orçamento ${getBudgetDisplayNumber(variables)}. Detalhes: ${err.message}`, variant: "destructive" });
     },
   });
 
   const deleteBudgetMutation = useMutation({
     mutationFn: async (budgetId: string) => {
       if (!db) throw new Error("Conexão com Firebase não disponível.");
-      return deleteDoc(doc(db, FIRESTORE_BUDGET_COLLECTION_NAME, budgetId));
+      return deleteBudget(budgetId);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_BUDGET_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgets.all });
       toast({ title: "Orçamento Excluído" });
       closeModal();
     },
@@ -615,26 +465,16 @@ export function BudgetClientPage() {
   });
 
   const updateBudgetStatusMutation = useMutation({
-    mutationFn: async ({ budgetId, newStatus }: { budgetId: string; newStatus: BudgetStatusType }) => {
+    mutationFn: async ({ budgetId, newStatus, refusalReason }: { budgetId: string; newStatus: BudgetStatusType; refusalReason?: BudgetRefusalReason | null }) => {
       if (!db) throw new Error("Conexão com Firebase não disponível.");
-      const budgetRef = doc(db, FIRESTORE_BUDGET_COLLECTION_NAME, budgetId);
-      const budgetSnap = await getDoc(budgetRef);
-      if (!budgetSnap.exists()) throw new Error("Orçamento não encontrado.");
-      const budgetData = budgetSnap.data() as Budget;
-      await updateDoc(budgetRef, { status: newStatus });
+      const budgetData = await updateBudgetStatus(budgetId, newStatus, refusalReason);
       return { budgetData, newStatus };
     },
     onSuccess: ({ budgetData, newStatus }) => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_BUDGET_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgets.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgets.revisions(budgetData.id) });
       toast({ title: "Status Atualizado", description: `O orçamento foi atualizado para "${newStatus}".` });
-
-      if (budgetData.serviceOrderId && budgetData.serviceOrderId !== NO_SERVICE_ORDER_SELECTED) {
-        if (newStatus === "Aprovado") {
-          updateServiceOrderStatus(budgetData.serviceOrderId, "Autorizado, Aguardando Peça");
-        } else if (newStatus === "Recusado") {
-          updateServiceOrderStatus(budgetData.serviceOrderId, "Cancelada");
-        }
-      }
+      moveServiceOrderForDecision(budgetData.serviceOrderId, newStatus);
       setIsStatusConfirmModalOpen(false);
       setStatusChangeInfo(null);
     },
@@ -654,32 +494,68 @@ export function BudgetClientPage() {
         ...budget,
         createdDate: budget.createdDate ? format(parseISO(budget.createdDate), 'yyyy-MM-dd') : new Date().toISOString().split('T')[0],
         validUntilDate: budget.validUntilDate ? format(parseISO(budget.validUntilDate), 'yyyy-MM-dd') : null,
-        items: budget.items.map(item => ({...item, id: item.id || crypto.randomUUID(), quantity: Number(item.quantity), unitPrice: Number(item.unitPrice)})),
+        companyId: budget.companyId ?? GOLDMAQ_COMPANY_ID,
+        items: budget.items.map(item => ({
+          ...item, id: item.id || crypto.randomUUID(), quantity: Number(item.quantity), unitPrice: Number(item.unitPrice),
+          category: getBudgetItemCategory(item), discount: item.discount ?? null,
+        })),
         shippingCost: Number(budget.shippingCost) || 0,
+        discount: budget.discount ?? null,
+        taxRates: budget.taxRates ?? null,
         serviceOrderId: budget.serviceOrderId || NO_SERVICE_ORDER_SELECTED,
         serviceOrderCreated: budget.serviceOrderCreated || false,
+        refusalReason: budget.refusalReason ?? null,
       });
     } else {
       setEditingBudget(null);
       setIsEditMode(true);
       form.reset({
-        budgetNumber: getNextBudgetNumber(budgets),
+        budgetNumber: PENDING_DOCUMENT_NUMBER,
         serviceOrderId: NO_SERVICE_ORDER_SELECTED,
         customerId: "",
         equipmentId: "",
         status: "Pendente",
-        items: [{ id: crypto.randomUUID(), description: "", quantity: 1, unitPrice: 0, totalPrice: 0 }],
+        companyId: GOLDMAQ_COMPANY_ID,
+        items: [{ id: crypto.randomUUID(), description: "", quantity: 1, unitPrice: 0, totalPrice: 0, category: "Peça", discount: null, catalogItemId: null, unitCost: null }],
         shippingCost: 0,
+        discount: null,
+        taxRates: getCompanyTaxRates(companies.find(company => company.id === GOLDMAQ_COMPANY_ID)),
         subtotal: 0,
         totalAmount: 0,
         createdDate: new Date().toISOString().split('T')[0],
         validUntilDate: null,
         notes: "",
         serviceOrderCreated: false,
+        refusalReason: null,
       });
     }
     setIsModalOpen(true);
-  }, [form, budgets]);
+  }, [form, budgets, companies]);
+
+  // Opened once: the prop keeps the id after the URL is cleaned.
+  const openedFromUrl = useRef(false);
+  useEffect(() => {
+    if (budgetIdFromUrl && !openedFromUrl.current && !isLoadingBudgets && budgets.length > 0 && !isModalOpen) {
+      const budgetToOpen = budgets.find(budget => budget.id === budgetIdFromUrl);
+      if (budgetToOpen) {
+        openedFromUrl.current = true;
+        openModal(budgetToOpen);
+        if (typeof window !== "undefined") {
+          const currentUrl = new URL(window.location.href);
+          currentUrl.searchParams.delete('openBudgetId');
+          window.history.replaceState({}, '', currentUrl.toString());
+        }
+      }
+    }
+  }, [budgetIdFromUrl, budgets, isLoadingBudgets, openModal, isModalOpen]);
+
+  useEffect(() => {
+    if (isBudgetDisplayStatus(initialStatusFilter) && typeof window !== "undefined") {
+      const currentUrl = new URL(window.location.href);
+      currentUrl.searchParams.delete('status');
+      window.history.replaceState({}, '', currentUrl.toString());
+    }
+  }, [initialStatusFilter]);
 
   const closeModal = () => {
     setIsModalOpen(false);
@@ -689,16 +565,17 @@ export function BudgetClientPage() {
   };
 
   const onSubmit = (values: z.infer<typeof BudgetSchema>) => {
+    const totals = computeBudgetTotals(values);
     const budgetData = {
       ...values,
-      items: values.items.map(item => ({...item, quantity: Number(item.quantity), unitPrice: Number(item.unitPrice), totalPrice: (Number(item.quantity) * Number(item.unitPrice))})),
-      subtotal: values.items.reduce((acc, item) => acc + (Number(item.quantity) * Number(item.unitPrice)), 0),
-      totalAmount: values.items.reduce((acc, item) => acc + (Number(item.quantity) * Number(item.unitPrice)), 0) + (Number(values.shippingCost) || 0),
+      items: values.items.map((item, index) => ({...item, quantity: Number(item.quantity), unitPrice: Number(item.unitPrice), totalPrice: totals.lines[index].net})),
+      subtotal: totals.subtotal,
+      totalAmount: totals.totalAmount,
       serviceOrderCreated: editingBudget ? (editingBudget.serviceOrderCreated || false) : false,
     };
 
     if (editingBudget && editingBudget.id) {
-      updateBudgetMutation.mutate({ ...budgetData, id: editingBudget.id, createdDate: editingBudget.createdDate } as Budget);
+      updateBudgetMutation.mutate({ ...budgetData, id: editingBudget.id, createdDate: editingBudget.createdDate, revision: editingBudget.revision } as Budget);
     } else {
       addBudgetMutation.mutate(budgetData);
     }
@@ -713,17 +590,113 @@ export function BudgetClientPage() {
   };
 
   const handleAddItem = () => {
-    append({ id: crypto.randomUUID(), description: "", quantity: 1, unitPrice: 0, totalPrice: 0 });
+    append({ id: crypto.randomUUID(), description: "", quantity: 1, unitPrice: 0, totalPrice: 0, category: "Peça", discount: null, catalogItemId: null, unitCost: null });
+  };
+
+  // A line retyped after being picked no longer carries the catalog cost.
+  const handleUnlinkCatalogItem = (index: number) => {
+    if (!form.getValues(`items.${index}.catalogItemId`)) return;
+    form.setValue(`items.${index}.catalogItemId`, null);
+    form.setValue(`items.${index}.unitCost`, null);
+  };
+
+  // Quantity and discount already typed on the line are kept.
+  const handleSelectCatalogItem = (index: number, catalogItem: CatalogItem) => {
+    const { description, unitPrice, category, catalogItemId, unitCost } = catalogItemToBudgetItem(catalogItem);
+    const options = { shouldValidate: true, shouldDirty: true };
+    form.setValue(`items.${index}.description`, description, options);
+    form.setValue(`items.${index}.unitPrice`, unitPrice, options);
+    form.setValue(`items.${index}.category`, category ?? "Peça", options);
+    form.setValue(`items.${index}.catalogItemId`, catalogItemId ?? null, options);
+    form.setValue(`items.${index}.unitCost`, unitCost ?? null, options);
+  };
+
+  const selectedOrderTravelCost = serviceOrders.find(os => os.id === selectedServiceOrderId)?.travelCostBreakdown;
+
+  // The trip estimated on the OS, one line per cost, replacing an empty first line.
+  const handleAddTravelCostItems = () => {
+    if (!selectedOrderTravelCost) return;
+    const travelItems = tripCostToBudgetItems(selectedOrderTravelCost);
+    if (travelItems.length === 0) {
+      toast({ title: "Deslocamento sem Custo", description: "A OS não tem custos de deslocamento para incluir." });
+      return;
+    }
+    const currentItems = form.getValues("items");
+    if (currentItems.length === 1 && !currentItems[0].description.trim()) remove(0);
+    append(travelItems.map(item => ({ ...item, category: getBudgetItemCategory(item) })));
   };
 
+  const createApprovalLinkMutation = useMutation({
+    mutationFn: async (budget: Budget) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      const customer = getCustomerInfo(budget.customerId);
+      if (!customer) throw new Error("Cliente do orçamento não encontrado.");
+      const token = await createBudgetApprovalLink(budget.id, {
+        customer,
+        equipment: getEquipmentInfo(budget.equipmentId),
+        company: getIssuingCompany(budget),
+        serviceOrderNumber: getServiceOrderInfo(budget.serviceOrderId)?.orderNumber,
+      });
+      return { budget, token };
+    },
+    onSuccess: ({ budget, token }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgets.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgets.revisions(budget.id) });
+      copyApprovalLink(token);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Gerar Link", description: `Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const copyApprovalLink = async (token: string) => {
+    const url = getBudgetApprovalUrl(window.location.origin, token);
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Link de Aprovação Copiado", description: "Envie o link ao cliente; ele expira ao fim da validade do orçamento." });
+    } catch {
+      toast({ title: "Link de Aprovação", description: url });
+    }
+  };
+
+  // An existing link keeps working until the revision changes, so it is copied again rather than replaced.
+  const handleApprovalLinkClick = (budget: Budget) => {
+    if (budget.approvalLinkId) {
+      copyApprovalLink(budget.approvalLinkId);
+    } else {
+      createApprovalLinkMutation.mutate(budget);
+    }
+  };
+
+  const handleResponseMutation = useMutation({
+    mutationFn: async (budget: Budget) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      return { budget, movedTo: await handleBudgetCustomerResponse(budget) };
+    },
+    onSuccess: ({ budget, movedTo }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgets.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.serviceOrders.all });
+      toast({
+        title: "Resposta Confirmada",
+        description: movedTo
+          ? `Resposta ao orçamento ${getBudgetDisplayNumber(budget)} confirmada; OS movida para "${movedTo}".`
+          : `Resposta ao orçamento ${getBudgetDisplayNumber(budget)} confirmada.`,
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Confirmar Resposta", description: `Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
   const handleChangeStatus = (budgetId: string, budgetNumber: string, newStatus: BudgetStatusType) => {
     setStatusChangeInfo({ budgetId, budgetNumber, newStatus });
+    setRefusalReason(null);
     setIsStatusConfirmModalOpen(true);
   };
 
   const confirmChangeStatus = () => {
     if (statusChangeInfo) {
-      updateBudgetStatusMutation.mutate(statusChangeInfo);
+      updateBudgetStatusMutation.mutate({ ...statusChangeInfo, refusalReason });
     }
   };
 
@@ -739,7 +712,7 @@ export function BudgetClientPage() {
     let tempBudgets = budgets;
 
     if (statusFilter !== ALL_STATUSES_FILTER_VALUE) {
-      tempBudgets = tempBudgets.filter(budget => budget.status === statusFilter);
+      tempBudgets = tempBudgets.filter(budget => getBudgetDisplayStatus(budget) === statusFilter);
     }
 
     if (searchTerm.trim()) {
@@ -785,7 +758,7 @@ export function BudgetClientPage() {
     const equipment = getEquipmentInfo(selectedBudgetForWhatsApp.equipmentId);
     const serviceOrder = getServiceOrderInfo(selectedBudgetForWhatsApp.serviceOrderId);
 
-    const message = generateDetailedWhatsAppMessage(selectedBudgetForWhatsApp, customer, equipment, serviceOrder, goldmaqCompanyDetails);
+    const message = generateDetailedWhatsAppMessage(selectedBudgetForWhatsApp, customer, equipment, serviceOrder, getIssuingCompany(selectedBudgetForWhatsApp));
     const whatsappUrl = `https://wa.me/${cleanedPhoneNumber}?text=${encodeURIComponent(message)}`;
 
     window.open(whatsappUrl, '_blank');
@@ -798,19 +771,20 @@ export function BudgetClientPage() {
       toast({ title: "Aguarde", description: "Carregando detalhes da empresa para gerar o PDF." });
       return;
     }
-    if (!goldmaqCompanyDetails) {
+    const companyDetails = getIssuingCompany(budget);
+    if (!companyDetails) {
       toast({ title: "Erro", description: "Detalhes da empresa não encontrados para gerar o PDF.", variant: "destructive" });
       return;
     }
     const customer = getCustomerInfo(budget.customerId);
     const equipment = getEquipmentInfo(budget.equipmentId);
     const serviceOrder = getServiceOrderInfo(budget.serviceOrderId);
-    generateBudgetPDF(budget, customer, equipment, serviceOrder, goldmaqCompanyDetails);
+    generateBudgetPDF(budget, customer, equipment, serviceOrder?.orderNumber, companyDetails);
   };
 
 
   const isLoadingPageData = isLoadingBudgets || isLoadingServiceOrders || isLoadingCustomers || isLoadingEquipment || isLoadingCompanyDetails;
-  const isMutating = addBudgetMutation.isPending || updateBudgetMutation.isPending || deleteBudgetMutation.isPending || updateBudgetStatusMutation.isPending;
+  const isMutating = addBudgetMutation.isPending || updateBudgetMutation.isPending || deleteBudgetMutation.isPending || updateBudgetStatusMutation.isPending || createApprovalLinkMutation.isPending;
 
   if (!db) {
     return <div className="text-red-500 p-4">Erro: Conexão com Firebase não disponível.</div>;
@@ -826,11 +800,11 @@ export function BudgetClientPage() {
     <>
       <PageHeader
         title=""
-        actions={
+        actions={canManageBudgets ? (
           <Button onClick={() => openModal()} className="bg-primary hover:bg-primary/90" disabled={isMutating}>
             <PlusCircle className="mr-2 h-4 w-4" /> Criar Orçamento
           </Button>
-        }
+        ) : undefined}
       />
       <p className="text-muted-foreground text-sm mb-6 -mt-4">
         Criação e gerenciamento de propostas comerciais (orçamentos) para os clientes. Detalhe itens, calcule custos, defina validades, envie e acompanhe o status. Orçamentos aprovados podem gerar Ordens de Serviço.
@@ -850,14 +824,14 @@ export function BudgetClientPage() {
         <div className="relative md:w-auto">
            <Select
             value={statusFilter}
-            onValueChange={(value) => setStatusFilter(value as BudgetStatusType | typeof ALL_STATUSES_FILTER_VALUE)}
+            onValueChange={(value) => setStatusFilter(value as BudgetDisplayStatus | typeof ALL_STATUSES_FILTER_VALUE)}
           >
             <SelectTrigger className="w-full md:w-[200px]">
               <SelectValue placeholder="Filtrar por status..." />
             </SelectTrigger>
             <SelectContent>
               <SelectItem value={ALL_STATUSES_FILTER_VALUE}>Todos os Status</SelectItem>
-              {budgetStatusOptions.map(status => (
+              {budgetDisplayStatusOptions.map(status => (
                 <SelectItem key={status} value={status}>{status}</SelectItem>
               ))}
             </SelectContent>
@@ -871,8 +845,8 @@ export function BudgetClientPage() {
           icon={FileText}
           title="Nenhum Orçamento Criado"
           description="Crie seu primeiro orçamento para começar."
-          buttonLabel="Criar Orçamento"
-          onButtonClick={() => openModal()}
+          buttonLabel={canManageBudgets ? "Criar Orçamento" : undefined}
+          onButtonClick={canManageBudgets ? () => openModal() : undefined}
         />
       ) : filteredBudgets.length === 0 ? (
         <div className="text-center py-10">
@@ -888,33 +862,44 @@ export function BudgetClientPage() {
             const customer = getCustomerInfo(budget.customerId);
             const equipment = getEquipmentInfo(budget.equipmentId);
             const serviceOrder = getServiceOrderInfo(budget.serviceOrderId);
+            const margin = computeBudgetMargin(budget);
+            const displayStatus = getBudgetDisplayStatus(budget);
 
-            const mailtoBody = generateEmailBody(budget, customer, equipment, serviceOrder, goldmaqCompanyDetails);
+            const issuingCompany = getIssuingCompany(budget);
+            const mailtoBody = generateEmailBody(budget, customer, equipment, serviceOrder, issuingCompany);
             const mailtoHref = customer?.email
-              ? `mailto:${customer.email}?subject=${encodeURIComponent(`Orçamento ${goldmaqCompanyDetails?.name || 'Gold Maq Empilhadeiras'}: Nº ${budget.budgetNumber}`)}&body=${encodeURIComponent(mailtoBody)}`
+              ? `mailto:${customer.email}?subject=${encodeURIComponent(`Orçamento ${issuingCompany?.name || 'Gold Maq Empilhadeiras'}: Nº ${getBudgetDisplayNumber(budget)}`)}&body=${encodeURIComponent(mailtoBody)}`
               : "#";
 
 
-            const canApprove = budget.status === "Pendente" || budget.status === "Enviado";
-            const canDeny = budget.status === "Pendente" || budget.status === "Enviado";
-            const canCancel = budget.status !== "Cancelado" && budget.status !== "Recusado";
-            const canReopen = budget.status === "Aprovado" || budget.status === "Recusado" || budget.status === "Cancelado";
+            // Approving, refusing or reopening a decided budget belongs to whoever holds "budgets:approve".
+            const canApprove = canDecideBudgets && (budget.status === "Pendente" || budget.status === "Enviado");
+            const canDeny = canDecideBudgets && (budget.status === "Pendente" || budget.status === "Enviado");
+            const canCancel = (budget.status === "Aprovado" ? canDecideBudgets : canManageBudgets) && budget.status !== "Cancelado" && budget.status !== "Recusado";
+            const canReopen = budget.status === "Cancelado" ? canManageBudgets : canDecideBudgets && (budget.status === "Aprovado" || budget.status === "Recusado");
 
             return (
               <Card key={budget.id} className="flex flex-col shadow-lg hover:shadow-xl transition-shadow duration-300">
                 <div onClick={() => openModal(budget)} className="cursor-pointer flex-grow">
                   <CardHeader>
                     <div className="flex justify-between items-start">
-                        <CardTitle className="font-headline text-xl text-primary">Orçamento: {budget.budgetNumber}</CardTitle>
+                        <CardTitle className="font-headline text-xl text-primary">Orçamento: {getBudgetDisplayNumber(budget)}</CardTitle>
                         <span className={cn("px-2 py-0.5 rounded-full text-xs font-semibold", {
-                            "bg-yellow-100 text-yellow-700": budget.status === "Pendente" || budget.status === "Enviado",
-                            "bg-green-100 text-green-700": budget.status === "Aprovado",
-                            "bg-red-100 text-red-700": budget.status === "Recusado" || budget.status === "Cancelado",
+                            "bg-yellow-100 text-yellow-700": displayStatus === "Pendente" || displayStatus === "Enviado",
+                            "bg-green-100 text-green-700": displayStatus === "Aprovado",
+                            "bg-red-100 text-red-700": displayStatus === "Recusado" || displayStatus === "Cancelado",
+                            "bg-gray-100 text-gray-600": displayStatus === "Expirado",
                         })}>
-                            {budget.status}
+                            {displayStatus}
                         </span>
                     </div>
                     <CardDescription>OS Vinculada: {serviceOrder?.orderNumber || "Nenhuma"}</CardDescription>
+                    {(budget.revision ?? 0) > 0 && (
+                      <CardDescription>
+                        Enviada: {budget.sentRevision != null ? formatBudgetRevisionNumber(budget.budgetNumber, budget.sentRevision) : "—"}
+                        {budget.approvedRevision != null && <> · Aprovada: {formatBudgetRevisionNumber(budget.budgetNumber, budget.approvedRevision)}</>}
+                      </CardDescription>
+                    )}
                   </CardHeader>
                   <CardContent className="flex-grow space-y-2 text-sm">
                     <p className="flex items-center">
@@ -952,6 +937,16 @@ export function BudgetClientPage() {
                       <span className="font-medium text-muted-foreground mr-1">Valor Total:</span>
                       {formatCurrency(budget.totalAmount)}
                     </p>
+                    {margin.cost > 0 && (
+                      <p className="flex items-center">
+                        <Percent className="mr-2 h-4 w-4 text-primary flex-shrink-0" />
+                        <span className="font-medium text-muted-foreground mr-1">Margem:</span>
+                        <span className={cn({ "text-destructive": margin.margin < 0 })}>
+                          {formatCurrency(margin.margin)}{margin.marginPercent !== null && ` (${margin.marginPercent.toLocaleString("pt-BR")}%)`}
+                        </span>
+                        {margin.linesWithoutCost > 0 && <span className="ml-1 text-xs text-muted-foreground">· {margin.linesWithoutCost} sem custo</span>}
+                      </p>
+                    )}
                     <p className="flex items-center">
                       <CalendarDays className="mr-2 h-4 w-4 text-primary flex-shrink-0" />
                       <span className="font-medium text-muted-foreground mr-1">Criado em:</span>
@@ -964,27 +959,76 @@ export function BudgetClientPage() {
                         {formatDateForDisplay(budget.validUntilDate)}
                       </p>
                     )}
+                    {budget.sentDate && (
+                      <p className="flex items-center">
+                        <Send className="mr-2 h-4 w-4 text-primary flex-shrink-0" />
+                        <span className="font-medium text-muted-foreground mr-1">Enviado em:</span>
+                        {formatDateForDisplay(budget.sentDate)}
+                        {(budget.followUpCount ?? 0) > 0 && (
+                          <span className="ml-1 text-xs text-muted-foreground">
+                            · {budget.followUpCount === 1 ? "1 contato" : `${budget.followUpCount} contatos`}, último em {formatDateForDisplay(budget.lastFollowUpDate)}
+                          </span>
+                        )}
+                      </p>
+                    )}
+                    {budget.status === "Recusado" && budget.refusalReason && (
+                      <p className="flex items-center">
+                        <Ban className="mr-2 h-4 w-4 text-red-600 flex-shrink-0" />
+                        <span className="font-medium text-muted-foreground mr-1">Motivo da recusa:</span>
+                        {budget.refusalReason}
+                      </p>
+                    )}
+                    {budget.customerResponse && (
+                      <p className="flex items-start">
+                        <UserCheck className={cn("mr-2 mt-0.5 h-4 w-4 flex-shrink-0", budget.customerResponse.decision === "Aprovado" ? "text-green-600" : "text-red-600")} />
+                        <span>
+                          <span className="font-medium text-muted-foreground mr-1">Resposta online:</span>
+                          {budget.customerResponse.decision} por {budget.customerResponse.name} em {formatDateForDisplay(budget.customerResponse.respondedAt)}
+                          {budget.customerResponse.comment && <span className="block text-muted-foreground italic">&ldquo;{budget.customerResponse.comment}&rdquo;</span>}
+                          {!budget.customerResponseHandled && (
+                            <span className="mt-1 flex flex-wrap items-center gap-2">
+                              <span className="text-xs font-semibold text-yellow-700">Aguardando confirmação da equipe</span>
+                              {canManageBudgets && (
+                                <Button variant="outline" size="sm" onClick={() => handleResponseMutation.mutate(budget)} disabled={handleResponseMutation.isPending}>
+                                  {handleResponseMutation.isPending && handleResponseMutation.variables?.id === budget.id
+                                    ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                    : <CheckCircle2 className="mr-2 h-4 w-4" />}
+                                  Confirmar Resposta
+                                </Button>
+                              )}
+                            </span>
+                          )}
+                        </span>
+                      </p>
+                    )}
+                    {budget.paidDate && (
+                      <p className="flex items-center">
+                        <DollarSign className="mr-2 h-4 w-4 text-green-600 flex-shrink-0" />
+                        <span className="font-medium text-muted-foreground mr-1">Pago em:</span>
+                        {formatDateForDisplay(budget.paidDate)}
+                      </p>
+                    )}
                   </CardContent>
                 </div>
                 <CardFooter className="border-t pt-4 flex flex-col sm:flex-row sm:justify-between sm:items-start gap-2">
                   <div className="flex flex-wrap gap-2">
                       {canApprove && (
-                          <Button variant="outline" size="sm" className="border-green-500 text-green-600 hover:bg-green-50 hover:text-green-700" onClick={(e) => { e.stopPropagation(); handleChangeStatus(budget.id, budget.budgetNumber, 'Aprovado'); }} disabled={isMutating}>
+                          <Button variant="outline" size="sm" className="border-green-500 text-green-600 hover:bg-green-50 hover:text-green-700" onClick={(e) => { e.stopPropagation(); handleChangeStatus(budget.id, getBudgetDisplayNumber(budget), 'Aprovado'); }} disabled={isMutating}>
                               <ThumbsUp className="mr-1.5 h-3.5 w-3.5"/> Aprovar
                           </Button>
                       )}
                       {canDeny && (
-                          <Button variant="outline" size="sm" className="border-red-500 text-red-600 hover:bg-red-50 hover:text-red-700" onClick={(e) => { e.stopPropagation(); handleChangeStatus(budget.id, budget.budgetNumber, 'Recusado'); }} disabled={isMutating}>
+                          <Button variant="outline" size="sm" className="border-red-500 text-red-600 hover:bg-red-50 hover:text-red-700" onClick={(e) => { e.stopPropagation(); handleChangeStatus(budget.id, getBudgetDisplayNumber(budget), 'Recusado'); }} disabled={isMutating}>
                               <Ban className="mr-1.5 h-3.5 w-3.5"/> Recusar
                           </Button>
                       )}
                        {canCancel && (
-                          <Button variant="outline" size="sm" className="border-slate-500 text-slate-600 hover:bg-slate-50 hover:text-slate-700" onClick={(e) => { e.stopPropagation(); handleChangeStatus(budget.id, budget.budgetNumber, 'Cancelado'); }} disabled={isMutating}>
+                          <Button variant="outline" size="sm" className="border-slate-500 text-slate-600 hover:bg-slate-50 hover:text-slate-700" onClick={(e) => { e.stopPropagation(); handleChangeStatus(budget.id, getBudgetDisplayNumber(budget), 'Cancelado'); }} disabled={isMutating}>
                              <X className="mr-1.5 h-3.5 w-3.5"/> Cancelar
                           </Button>
                       )}
                       {canReopen && (
-                        <Button variant="outline" size="sm" className="border-blue-500 text-blue-600 hover:bg-blue-50 hover:text-blue-700" onClick={(e) => { e.stopPropagation(); handleChangeStatus(budget.id, budget.budgetNumber, 'Pendente'); }} disabled={isMutating}>
+                        <Button variant="outline" size="sm" className="border-blue-500 text-blue-600 hover:bg-blue-50 hover:text-blue-700" onClick={(e) => { e.stopPropagation(); handleChangeStatus(budget.id, getBudgetDisplayNumber(budget), 'Pendente'); }} disabled={isMutating}>
                             <Pencil className="mr-1.5 h-3.5 w-3.5"/> Reabrir
                         </Button>
                       )}
@@ -1011,6 +1055,17 @@ export function BudgetClientPage() {
                       >
                           <MessageSquare className="mr-1.5 h-3.5 w-3.5" /> WhatsApp
                       </Button>
+                      {canManageBudgets && (budget.status === "Pendente" || budget.status === "Enviado") && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={(e) => { e.stopPropagation(); handleApprovalLinkClick(budget); }}
+                          disabled={isMutating || isLoadingCompanyDetails}
+                          className="w-full sm:w-auto justify-start sm:justify-center"
+                        >
+                          <Link2 className="mr-1.5 h-3.5 w-3.5" /> Link de Aprovação
+                        </Button>
+                      )}
                       <Button
                         variant="outline"
                         size="sm"
@@ -1032,147 +1087,209 @@ export function BudgetClientPage() {
         isOpen={isModalOpen}
         onClose={closeModal}
         title={editingBudget ? "Editar Orçamento" : "Criar Novo Orçamento"}
-        description="Preencha os detalhes do orçamento."
+        description={getBudgetFormDescription(editingBudget)}
         formId="budget-form"
         isSubmitting={isMutating}
         editingItem={editingBudget}
-        onDeleteConfirm={handleModalDeleteConfirm}
+        onDeleteConfirm={canManageBudgets ? handleModalDeleteConfirm : undefined}
         isDeleting={deleteBudgetMutation.isPending}
         deleteButtonLabel="Excluir Orçamento"
         isEditMode={isEditMode}
-        onEditModeToggle={() => setIsEditMode(true)}
+        onEditModeToggle={canManageBudgets ? () => setIsEditMode(true) : undefined}
         submitButtonLabel={editingBudget && !isEditMode ? "Editar" : (editingBudget ? "Salvar Alterações" : "Criar Orçamento")}
       >
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} id="budget-form" className="space-y-6">
-            <fieldset disabled={!!editingBudget && !isEditMode} className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <FormField control={form.control} name="budgetNumber" render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Número do Orçamento</FormLabel>
-                    <FormControl><Input {...field} readOnly className="bg-muted/50" /></FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )} />
-                <FormField control={form.control} name="serviceOrderId" render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Ordem de Serviço Vinculada</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value}>
-                      <FormControl><SelectTrigger>
-                        <SelectValue placeholder={isLoadingServiceOrders ? "Carregando OS..." : "Selecione uma OS"} />
-                      </SelectTrigger></FormControl>
-                      <SelectContent>
-                        <SelectItem value={NO_SERVICE_ORDER_SELECTED}>Nenhuma</SelectItem>
-                        {serviceOrders.map(os => (
-                          <SelectItem key={os.id} value={os.id}>
-                            OS: {os.orderNumber} (Cliente: {toTitleCase(customers.find(c => c.id === os.customerId)?.name)})
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
-                )} />
-              </div>
-
-              {selectedServiceOrderId && selectedServiceOrderId !== NO_SERVICE_ORDER_SELECTED && (
-                <Card className="bg-muted/30">
-                    <CardHeader className="pb-2 pt-3">
-                        <CardTitle className="text-sm font-medium">Detalhes da OS Vinculada</CardTitle>
-                    </CardHeader>
-                    <CardContent className="text-xs space-y-1 pb-3">
-                        <p><strong>Cliente:</strong> {toTitleCase(getCustomerInfo(form.getValues("customerId"))?.name) || 'N/A'}</p>
-                        <p><strong>Equipamento:</strong> {`${toTitleCase(getEquipmentInfo(form.getValues("equipmentId"))?.brand)} ${toTitleCase(getEquipmentInfo(form.getValues("equipmentId"))?.model)} (Chassi: ${getEquipmentInfo(form.getValues("equipmentId"))?.chassisNumber || 'N/A'})`}</p>
-                    </CardContent>
-                </Card>
-              )}
-
-              <FormField control={form.control} name="status" render={({ field }) => (
-                <FormItem><FormLabel>Status do Orçamento</FormLabel>
-                  <Select onValueChange={field.onChange} value={field.value}>
-                    <FormControl><SelectTrigger><SelectValue placeholder="Selecione o status" /></SelectTrigger></FormControl>
-                    <SelectContent>{budgetStatusOptions.map(opt => <SelectItem key={opt} value={opt}>{opt}</SelectItem>)}</SelectContent>
-                  </Select><FormMessage />
-                </FormItem>
-              )} />
-
-              <div>
-                <h3 className="text-md font-semibold mb-2 mt-4 border-b pb-1 font-headline">Itens do Orçamento</h3>
-                {fields.map((item, index) => (
-                  <div key={item.id} className="grid grid-cols-12 gap-x-3 gap-y-2 items-end border-b py-3">
-                    <FormField control={form.control} name={`items.${index}.description`} render={({ field }) => (
-                      <FormItem className="col-span-12 sm:col-span-4"> {/* Changed from sm:col-span-5 */}
-                        {index === 0 && <FormLabel>Descrição</FormLabel>}
-                        <FormControl>
-                          <Input placeholder="Peça ou Serviço" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )} />
-                    <FormField control={form.control} name={`items.${index}.quantity`} render={({ field }) => (
-                      <FormItem className="col-span-4 sm:col-span-2">
-                         {index === 0 && <FormLabel>Qtd.</FormLabel>}
-                        <FormControl>
-                           <Input type="number" placeholder="1" {...field} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )} />
-                     <FormField control={form.control} name={`items.${index}.unitPrice`} render={({ field }) => (
-                      <FormItem className="col-span-4 sm:col-span-2">
-                        {index === 0 && <FormLabel>Preço Un.</FormLabel>}
-                        <FormControl>
-                          <Input type="number" step="0.01" placeholder="0.00" {...field} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} />
-                        </FormControl>
-                        <FormMessage />
+        <DetailsHistoryTabs entityType="budget" entityId={editingBudget?.id}>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} id="budget-form" className="space-y-6">
+              <fieldset disabled={!!editingBudget && !isEditMode} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField control={form.control} name="budgetNumber" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Número do Orçamento</FormLabel>
+                      <FormControl><Input {...field} readOnly className="bg-muted/50" /></FormControl>
+                      {!editingBudget && <FormDescription>Gerado ao salvar, pela sequência da empresa.</FormDescription>}
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                  <FormField control={form.control} name="serviceOrderId" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ordem de Serviço Vinculada</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl><SelectTrigger>
+                          <SelectValue placeholder={isLoadingServiceOrders ? "Carregando OS..." : "Selecione uma OS"} />
+                        </SelectTrigger></FormControl>
+                        <SelectContent>
+                          <SelectItem value={NO_SERVICE_ORDER_SELECTED}>Nenhuma</SelectItem>
+                          {serviceOrders.map(os => (
+                            <SelectItem key={os.id} value={os.id}>
+                              OS: {os.orderNumber} (Cliente: {toTitleCase(customers.find(c => c.id === os.customerId)?.name)})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                </div>
+
+                {selectedServiceOrderId && selectedServiceOrderId !== NO_SERVICE_ORDER_SELECTED && (
+                  <Card className="bg-muted/30">
+                      <CardHeader className="pb-2 pt-3">
+                          <CardTitle className="text-sm font-medium">Detalhes da OS Vinculada</CardTitle>
+                      </CardHeader>
+                      <CardContent className="text-xs space-y-1 pb-3">
+                          <p><strong>Cliente:</strong> {toTitleCase(getCustomerInfo(form.getValues("customerId"))?.name) || 'N/A'}</p>
+                          <p><strong>Equipamento:</strong> {`${toTitleCase(getEquipmentInfo(form.getValues("equipmentId"))?.brand)} ${toTitleCase(getEquipmentInfo(form.getValues("equipmentId"))?.model)} (Chassi: ${getEquipmentInfo(form.getValues("equipmentId"))?.chassisNumber || 'N/A'})`}</p>
+                      </CardContent>
+                  </Card>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField control={form.control} name="companyId" render={({ field }) => (
+                    <FormItem><FormLabel>Empresa Emissora</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value} disabled={!!editingBudget}>
+                        <FormControl><SelectTrigger><SelectValue placeholder="Selecione a empresa" /></SelectTrigger></FormControl>
+                        <SelectContent>{companies.map(company => <SelectItem key={company.id} value={company.id}>{company.name}</SelectItem>)}</SelectContent>
+                      </Select>
+                      <FormDescription>Define a numeração, o cabeçalho e os impostos do orçamento.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                  <FormField control={form.control} name="status" render={({ field }) => (
+                    <FormItem><FormLabel>Status do Orçamento</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl><SelectTrigger><SelectValue placeholder="Selecione o status" /></SelectTrigger></FormControl>
+                        <SelectContent>{budgetStatusOptions.map(opt => <SelectItem key={opt} value={opt}>{opt}</SelectItem>)}</SelectContent>
+                      </Select><FormMessage />
+                    </FormItem>
+                  )} />
+                  {statusWatch === "Recusado" && (
+                    <FormField control={form.control} name="refusalReason" render={({ field }) => (
+                      <FormItem className="md:col-start-2"><FormLabel>Motivo da Recusa</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value ?? undefined}>
+                          <FormControl><SelectTrigger><SelectValue placeholder="Selecione o motivo" /></SelectTrigger></FormControl>
+                          <SelectContent>{budgetRefusalReasonOptions.map(opt => <SelectItem key={opt} value={opt}>{opt}</SelectItem>)}</SelectContent>
+                        </Select><FormMessage />
                       </FormItem>
                     )} />
-                    <div className="col-span-4 sm:col-span-3 flex items-center"> {/* Changed from sm:col-span-2 */}
-                        {index === 0 && <FormLabel className="invisible sm:visible">Total</FormLabel>}
-                        <p className="text-sm pt-1 sm:pt-0 w-full text-right sm:text-left font-medium pr-1">{formatCurrency((Number(itemsWatch[index]?.quantity) || 0) * (Number(itemsWatch[index]?.unitPrice) || 0))}</p>
-                    </div>
-                    <div className="col-span-12 sm:col-span-1 flex items-center justify-end sm:justify-center">
-                      {fields.length > 1 && (
-                        <Button type="button" variant="ghost" size="sm" onClick={() => remove(index)} className="text-destructive hover:text-destructive">
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      )}
+                  )}
+                </div>
+
+                <div>
+                  <h3 className="text-md font-semibold mb-2 mt-4 border-b pb-1 font-headline">Itens do Orçamento</h3>
+                  {fields.map((item, index) => (
+                    <div key={item.id} className="grid grid-cols-12 gap-x-3 gap-y-2 items-end border-b py-3">
+                      <FormField control={form.control} name={`items.${index}.description`} render={({ field }) => (
+                        <FormItem className="col-span-12 sm:col-span-4"> {/* Changed from sm:col-span-5 */}
+                          {index === 0 && <FormLabel>Descrição</FormLabel>}
+                          <FormControl>
+                            <CatalogAutocompleteInput
+                              placeholder="Código ou descrição da peça/serviço"
+                              {...field}
+                              onChange={(value) => { field.onChange(value); handleUnlinkCatalogItem(index); }}
+                              catalogItems={catalogItems}
+                              equipment={getEquipmentInfo(equipmentIdWatch)}
+                              onSelect={(catalogItem) => handleSelectCatalogItem(index, catalogItem)}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name={`items.${index}.quantity`} render={({ field }) => (
+                        <FormItem className="col-span-4 sm:col-span-2">
+                           {index === 0 && <FormLabel>Qtd.</FormLabel>}
+                          <FormControl>
+                             <Input type="number" placeholder="1" {...field} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                       <FormField control={form.control} name={`items.${index}.unitPrice`} render={({ field }) => (
+                        <FormItem className="col-span-4 sm:col-span-2">
+                          {index === 0 && <FormLabel>Preço Un.</FormLabel>}
+                          <FormControl>
+                            <Input type="number" step="0.01" placeholder="0.00" {...field} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <div className="col-span-4 sm:col-span-3 flex items-center"> {/* Changed from sm:col-span-2 */}
+                          {index === 0 && <FormLabel className="invisible sm:visible">Total</FormLabel>}
+                          <p className="text-sm pt-1 sm:pt-0 w-full text-right sm:text-left font-medium pr-1">
+                            {formTotals.lines[index]?.discount > 0 && <span className="mr-1 text-xs text-muted-foreground line-through">{formatCurrency(formTotals.lines[index].gross)}</span>}
+                            {formatCurrency(formTotals.lines[index]?.net ?? 0)}
+                          </p>
+                      </div>
+                      <div className="col-span-12 sm:col-span-1 flex items-center justify-end sm:justify-center">
+                        {fields.length > 1 && (
+                          <Button type="button" variant="ghost" size="sm" onClick={() => remove(index)} className="text-destructive hover:text-destructive">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                      <FormField control={form.control} name={`items.${index}.category`} render={({ field }) => (
+                        <FormItem className="col-span-12 sm:col-span-4">
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl><SelectTrigger><SelectValue placeholder="Categoria" /></SelectTrigger></FormControl>
+                            <SelectContent>{budgetItemCategoryOptions.map(opt => <SelectItem key={opt} value={opt}>{opt}</SelectItem>)}</SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name={`items.${index}.discount`} render={({ field }) => (
+                        <FormItem className="col-span-12 sm:col-span-5">
+                          <FormControl><BudgetDiscountInput value={field.value} onChange={field.onChange} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
                     </div>
-                  </div>
-                ))}
-                <Button type="button" variant="outline" size="sm" onClick={handleAddItem} className="mt-3">
-                  <PlusCircle className="mr-2 h-4 w-4" /> Adicionar Item
-                </Button>
-              </div>
-
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-4 border-t">
-                <FormField control={form.control} name="shippingCost" render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Custo de Frete (Opcional)</FormLabel>
-                    <FormControl><Input type="number" step="0.01" placeholder="0.00" {...field} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} value={field.value ?? 0} /></FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )} />
-              </div>
-              <div className="text-right space-y-1 mt-4">
-                <p className="text-sm">Subtotal: <span className="font-semibold">{formatCurrency(form.getValues("subtotal"))}</span></p>
-                <p className="text-lg font-bold text-primary">Valor Total: <span className="font-bold">{formatCurrency(form.getValues("totalAmount"))}</span></p>
-              </div>
-
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <FormField control={form.control} name="createdDate" render={({ field }) => (
-                  <FormItem><FormLabel>Data de Criação</FormLabel><FormControl><Input type="date" {...field} readOnly={!editingBudget} className={!editingBudget ? "bg-muted/50" : ""} /></FormControl><FormMessage /></FormItem>
-                )} />
-                <FormField control={form.control} name="validUntilDate" render={({ field }) => (
-                  <FormItem><FormLabel>Válido Até (Opcional)</FormLabel><FormControl><Input type="date" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+                  ))}
+                  <Button type="button" variant="outline" size="sm" onClick={handleAddItem} className="mt-3">
+                    <PlusCircle className="mr-2 h-4 w-4" /> Adicionar Item
+                  </Button>
+                  {selectedOrderTravelCost && (
+                    <Button type="button" variant="outline" size="sm" onClick={handleAddTravelCostItems} className="mt-3 ml-2">
+                      <Route className="mr-2 h-4 w-4" /> Incluir Deslocamento da OS ({formatCurrency(selectedOrderTravelCost.totalCost)})
+                    </Button>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-4 border-t">
+                  <FormField control={form.control} name="shippingCost" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Custo de Frete (Opcional)</FormLabel>
+                      <FormControl><Input type="number" step="0.01" placeholder="0.00" {...field} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} value={field.value ?? 0} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                  <FormField control={form.control} name="discount" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Desconto Geral (Opcional)</FormLabel>
+                      <FormControl><BudgetDiscountInput value={field.value} onChange={field.onChange} /></FormControl>
+                      <FormDescription>Aplicado sobre os itens após os descontos individuais; não incide no frete.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                </div>
+                <BudgetTotalsSummary totals={formTotals} className="mt-4" />
+                <BudgetMarginSummary margin={formMargin} className="mt-2" />
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField control={form.control} name="createdDate" render={({ field }) => (
+                    <FormItem><FormLabel>Data de Criação</FormLabel><FormControl><Input type="date" {...field} readOnly={!editingBudget} className={!editingBudget ? "bg-muted/50" : ""} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                  <FormField control={form.control} name="validUntilDate" render={({ field }) => (
+                    <FormItem><FormLabel>Válido Até (Opcional)</FormLabel><FormControl><Input type="date" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                </div>
+                <FormField control={form.control} name="notes" render={({ field }) => (
+                  <FormItem><FormLabel>Observações (Opcional)</FormLabel><FormControl><Textarea placeholder="Condições de pagamento, informações adicionais..." {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
                 )} />
-              </div>
-              <FormField control={form.control} name="notes" render={({ field }) => (
-                <FormItem><FormLabel>Observações (Opcional)</FormLabel><FormControl><Textarea placeholder="Condições de pagamento, informações adicionais..." {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
-              )} />
-            </fieldset>
-          </form>
-        </Form>
+              </fieldset>
+            </form>
+          </Form>
+          {editingBudget && <BudgetRevisionsPanel budget={editingBudget} />}
+        </DetailsHistoryTabs>
       </FormModal>
 
        <AlertDialog open={isStatusConfirmModalOpen} onOpenChange={setIsStatusConfirmModalOpen}>
@@ -1183,6 +1300,16 @@ export function BudgetClientPage() {
               Tem certeza que deseja alterar o status do orçamento "{statusChangeInfo?.budgetNumber}" para "{statusChangeInfo?.newStatus}"?
             </AlertDialogDescription>
           </AlertDialogHeader>
+          {statusChangeInfo?.newStatus === "Recusado" && (
+            <div className="space-y-2">
+              <Label>Motivo da Recusa</Label>
+              <Select value={refusalReason ?? undefined} onValueChange={(value) => setRefusalReason(value as BudgetRefusalReason)}>
+                <SelectTrigger><SelectValue placeholder="Selecione o motivo (opcional)" /></SelectTrigger>
+                <SelectContent>{budgetRefusalReasonOptions.map(opt => <SelectItem key={opt} value={opt}>{opt}</SelectItem>)}</SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Entra no relatório de motivos de recusa do painel.</p>
+            </div>
+          )}
           <AlertDialogFooter>
             <AlertDialogCancel onClick={() => { setIsStatusConfirmModalOpen(false); setStatusChangeInfo(null);}} disabled={isMutating}>Cancelar</AlertDialogCancel>
             <AlertDialogAction onClick={confirmChangeStatus} disabled={isMutating} className={cn(
@@ -1201,7 +1328,7 @@ export function BudgetClientPage() {
           <AlertDialogHeader>
             <AlertDialogTitle>Enviar Orçamento por WhatsApp</AlertDialogTitle>
             <AlertDialogDescription>
-              Confirme ou edite o número do destinatário para enviar o orçamento {selectedBudgetForWhatsApp?.budgetNumber}.
+              Confirme ou edite o número do destinatário para enviar o orçamento {selectedBudgetForWhatsApp && getBudgetDisplayNumber(selectedBudgetForWhatsApp)}.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <div className="py-4">
@@ -0,0 +1,55 @@
+"use client";
+
+import type { BudgetDiscount, DiscountType } from "@/types";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const NO_DISCOUNT_VALUE = "_NO_DISCOUNT_";
+
+interface BudgetDiscountInputProps {
+  value: BudgetDiscount | null | undefined;
+  onChange: (discount: BudgetDiscount | null) => void;
+  disabled?: boolean;
+}
+
+// Type and amount side by side; choosing "Sem desconto" clears it.
+export function BudgetDiscountInput({ value, onChange, disabled }: BudgetDiscountInputProps) {
+  const handleTypeChange = (selected: string) => {
+    if (selected === NO_DISCOUNT_VALUE) {
+      onChange(null);
+      return;
+    }
+    onChange({ type: selected as DiscountType, value: value?.value ?? 0 });
+  };
+
+  const handleValueChange = (raw: string) => {
+    if (!value) return;
+    const parsed = Math.max(parseFloat(raw) || 0, 0);
+    onChange({ ...value, value: value.type === "percent" ? Math.min(parsed, 100) : parsed });
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Select value={value?.type ?? NO_DISCOUNT_VALUE} onValueChange={handleTypeChange} disabled={disabled}>
+        <SelectTrigger className="w-[130px] shrink-0"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_DISCOUNT_VALUE}>Sem desconto</SelectItem>
+          <SelectItem value="percent">%</SelectItem>
+          <SelectItem value="value">R$</SelectItem>
+        </SelectContent>
+      </Select>
+      {value && (
+        <Input
+          type="number"
+          step="0.01"
+          min={0}
+          max={value.type === "percent" ? 100 : undefined}
+          placeholder="0"
+          value={value.value}
+          onChange={e => handleValueChange(e.target.value)}
+          disabled={disabled}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import type { BudgetMargin } from "@/lib/catalog";
+import { cn, formatCurrency } from "@/lib/utils";
+
+interface BudgetMarginSummaryProps {
+  margin: BudgetMargin;
+  className?: string;
+}
+
+// Internal only: never rendered on the PDF or the approval link.
+export function BudgetMarginSummary({ margin, className }: BudgetMarginSummaryProps) {
+  if (margin.revenue === 0 && margin.cost === 0) {
+    return margin.linesWithoutCost > 0
+      ? <p className={cn("ml-auto w-full max-w-sm text-xs text-muted-foreground", className)}>Margem indisponível: nenhum item veio do catálogo com custo.</p>
+      : null;
+  }
+  return (
+    <div className={cn("ml-auto w-full max-w-sm rounded-md border border-dashed p-2 text-sm", className)}>
+      <p className="flex justify-between gap-4"><span>Custo dos itens</span><span>{formatCurrency(margin.cost)}</span></p>
+      <p className={cn("flex justify-between gap-4 font-medium", margin.margin < 0 ? "text-destructive" : "text-green-700")}>
+        <span>Margem</span>
+        <span>{formatCurrency(margin.margin)}{margin.marginPercent !== null && ` (${margin.marginPercent.toLocaleString("pt-BR")}%)`}</span>
+      </p>
+      {margin.linesWithoutCost > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {margin.linesWithoutCost === 1 ? "1 item sem custo ficou de fora." : `${margin.linesWithoutCost} itens sem custo ficaram de fora.`}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { History, Loader2 } from "lucide-react";
+import type { Budget, BudgetItem } from "@/types";
+import { db } from "@/lib/firebase";
+import { fetchBudgetRevisions, queryKeys } from "@/lib/repositories";
+import {
+  diffBudgetRevisions, formatBudgetRevisionNumber, getBudgetRevisionContent, isBudgetRevisionFrozen, type BudgetRevisionContent,
+} from "@/lib/budget-revisions";
+import { formatDiscount, getBudgetItemCategory } from "@/lib/budget-totals";
+import { cn, formatCurrency, formatDateForDisplay } from "@/lib/utils";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface BudgetRevisionsPanelProps {
+  budget: Budget;
+}
+
+interface RevisionOption {
+  revision: number;
+  label: string;
+  content: BudgetRevisionContent;
+}
+
+const itemSummary = (item: BudgetItem) =>
+  `${getBudgetItemCategory(item)} · ${item.quantity} × ${formatCurrency(item.unitPrice)}${item.discount?.value ? ` − ${formatDiscount(item.discount)}` : ""}`;
+
+// Frozen revisions plus the one being edited, with the changes between any two.
+export function BudgetRevisionsPanel({ budget }: BudgetRevisionsPanelProps) {
+  const { data: revisions = [], isLoading } = useQuery({
+    queryKey: queryKeys.budgets.revisions(budget.id),
+    queryFn: () => fetchBudgetRevisions(budget.id),
+    enabled: !!db && !!budget.id,
+  });
+
+  const options = useMemo<RevisionOption[]>(() => {
+    const frozen = revisions.map(revision => ({
+      revision: revision.revision,
+      label: [
+        formatBudgetRevisionNumber(revision.budgetNumber, revision.revision),
+        revision.revision === budget.approvedRevision ? "aprovada" : revision.revision === budget.sentRevision ? "enviada" : null,
+        revision.frozenAt ? formatDateForDisplay(revision.frozenAt) : null,
+      ].filter(Boolean).join(" · "),
+      content: getBudgetRevisionContent(revision),
+    }));
+    if (isBudgetRevisionFrozen(budget) && frozen.some(option => option.revision === budget.revision)) return frozen;
+    return [...frozen, {
+      revision: budget.revision ?? 0,
+      label: `${formatBudgetRevisionNumber(budget.budgetNumber, budget.revision)} · em edição`,
+      content: getBudgetRevisionContent(budget),
+    }];
+  }, [revisions, budget]);
+
+  const [beforeRevision, setBeforeRevision] = useState<number | null>(null);
+  const [afterRevision, setAfterRevision] = useState<number | null>(null);
+
+  useEffect(() => {
+    setAfterRevision(options.length > 0 ? options[options.length - 1].revision : null);
+    setBeforeRevision(options.length > 1 ? options[options.length - 2].revision : null);
+  }, [options]);
+
+  const before = options.find(option => option.revision === beforeRevision);
+  const after = options.find(option => option.revision === afterRevision);
+  const diff = before && after ? diffBudgetRevisions(before.content, after.content) : null;
+
+  if (isLoading) {
+    return <p className="flex items-center text-sm text-muted-foreground"><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Carregando revisões...</p>;
+  }
+  if (options.length < 2) return null;
+
+  const renderSelect = (value: number | null, onChange: (revision: number) => void, label: string) => (
+    <div className="space-y-1">
+      <Label>{label}</Label>
+      <Select value={value !== null ? String(value) : undefined} onValueChange={(selected) => onChange(Number(selected))}>
+        <SelectTrigger><SelectValue placeholder="Selecione a revisão" /></SelectTrigger>
+        <SelectContent>
+          {options.map(option => <SelectItem key={option.revision} value={String(option.revision)}>{option.label}</SelectItem>)}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <section className="space-y-3 rounded-md border p-4">
+      <h3 className="flex items-center font-headline text-lg"><History className="mr-2 h-5 w-5 text-primary" /> Revisões</h3>
+      <p className="text-sm text-muted-foreground">
+        Revisões enviadas ou aprovadas ficam guardadas sem alteração. Compare duas delas para ver o que mudou.
+      </p>
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        {renderSelect(beforeRevision, setBeforeRevision, "De")}
+        {renderSelect(afterRevision, setAfterRevision, "Para")}
+      </div>
+      {diff && before && after && (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Antes</TableHead>
+                <TableHead>Depois</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {diff.items.map(change => {
+                const item = change.type === "removed" ? change.before : change.after;
+                return (
+                  <TableRow key={`${change.type}-${item.id}`} className={cn({
+                    "bg-green-50": change.type === "added",
+                    "bg-red-50 text-muted-foreground line-through": change.type === "removed",
+                    "bg-yellow-50": change.type === "changed",
+                  })}>
+                    <TableCell>{change.type === "changed" && change.before.description !== change.after.description ? `${change.before.description} → ${change.after.description}` : item.description}</TableCell>
+                    <TableCell>{change.type === "added" ? "—" : itemSummary(change.type === "changed" ? change.before : item)}</TableCell>
+                    <TableCell>{change.type === "removed" ? "—" : itemSummary(item)}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+          <div className="space-y-1 text-sm">
+            {diff.shippingCost && (
+              <p><span className="font-medium text-muted-foreground">Frete:</span> {formatCurrency(diff.shippingCost.before)} → {formatCurrency(diff.shippingCost.after)}</p>
+            )}
+            {diff.discount && (
+              <p>
+                <span className="font-medium text-muted-foreground">Desconto geral:</span>{" "}
+                {diff.discount.before ? formatDiscount(diff.discount.before) : "sem desconto"} → {diff.discount.after ? formatDiscount(diff.discount.after) : "sem desconto"}
+              </p>
+            )}
+            {diff.taxRatesChanged && <p className="text-muted-foreground">As alíquotas de impostos foram alteradas.</p>}
+            {diff.validUntilDate && (
+              <p>
+                <span className="font-medium text-muted-foreground">Validade:</span>{" "}
+                {diff.validUntilDate.before ? formatDateForDisplay(diff.validUntilDate.before) : "sem data"} → {diff.validUntilDate.after ? formatDateForDisplay(diff.validUntilDate.after) : "sem data"}
+              </p>
+            )}
+            {diff.notesChanged && <p className="text-muted-foreground">As observações foram alteradas.</p>}
+            <p className={cn("font-semibold", { "text-primary": diff.totalAmount.before !== diff.totalAmount.after })}>
+              Total: {formatCurrency(diff.totalAmount.before)} → {formatCurrency(diff.totalAmount.after)}
+            </p>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
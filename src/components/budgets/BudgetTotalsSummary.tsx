@@ -0,0 +1,34 @@
+import type { BudgetTotals } from "@/lib/budget-totals";
+import { cn, formatCurrency } from "@/lib/utils";
+
+interface BudgetTotalsSummaryProps {
+  totals: BudgetTotals;
+  className?: string;
+}
+
+const SummaryLine = ({ label, value, className }: { label: string; value: string; className?: string }) => (
+  <p className={cn("flex justify-between gap-4", className)}><span>{label}</span><span>{value}</span></p>
+);
+
+// Category subtotals, discounts, taxes and total, as on the PDF.
+export function BudgetTotalsSummary({ totals, className }: BudgetTotalsSummaryProps) {
+  return (
+    <div className={cn("ml-auto w-full max-w-sm space-y-1 text-sm", className)}>
+      {totals.categories.map(entry => (
+        <SummaryLine key={entry.category} label={entry.category} value={formatCurrency(entry.gross)} />
+      ))}
+      {totals.itemDiscount > 0 && <SummaryLine label="Descontos nos itens" value={`-${formatCurrency(totals.itemDiscount)}`} className="text-green-700" />}
+      {totals.globalDiscount > 0 && <SummaryLine label="Desconto geral" value={`-${formatCurrency(totals.globalDiscount)}`} className="text-green-700" />}
+      {totals.taxes.map(tax => (
+        <SummaryLine
+          key={tax.name}
+          label={`${tax.name} ${tax.rate.toLocaleString("pt-BR")}%${tax.addedToTotal ? "" : " (incluso)"}`}
+          value={tax.addedToTotal ? `+${formatCurrency(tax.amount)}` : formatCurrency(tax.amount)}
+          className={cn({ "text-muted-foreground": !tax.addedToTotal })}
+        />
+      ))}
+      {totals.shippingCost > 0 && <SummaryLine label="Frete" value={formatCurrency(totals.shippingCost)} />}
+      <SummaryLine label="Valor Total" value={formatCurrency(totals.totalAmount)} className="border-t pt-1 text-base font-bold text-primary" />
+    </div>
+  );
+}
@@ -1,11 +1,15 @@
-
 "use client";
 
+import { useSearchParams } from "next/navigation";
 import { BudgetClientPage } from "@/components/budgets/BudgetClientPage";
 import { useState, useEffect } from 'react';
 import type { FC } from 'react';
 
 export const BudgetsPageContent: FC = () => {
+  const searchParams = useSearchParams();
+  const budgetIdToOpen = searchParams ? searchParams.get('openBudgetId') : null;
+  const initialStatusFilterFromUrl = searchParams ? searchParams.get('status') : null;
+
   const [isClient, setIsClient] = useState(false);
   useEffect(() => {
     setIsClient(true);
@@ -14,5 +18,5 @@ export const BudgetsPageContent: FC = () => {
   if (!isClient) {
     return null;
   }
-  return <BudgetClientPage />;
+  return <BudgetClientPage budgetIdFromUrl={budgetIdToOpen} initialStatusFilter={initialStatusFilterFromUrl} />;
 }
@@ -0,0 +1,94 @@
+"use client";
+
+import { forwardRef, useMemo, useState } from "react";
+import type { ComponentPropsWithoutRef, FocusEvent, KeyboardEvent } from "react";
+import type { CatalogItem, CatalogItemKind, Maquina } from "@/types";
+import { formatCatalogPrice, isCatalogItemCompatible, searchCatalogItems } from "@/lib/catalog";
+import { cn } from "@/lib/utils";
+import { Input } from "@/components/ui/input";
+
+interface CatalogAutocompleteInputProps extends Omit<ComponentPropsWithoutRef<typeof Input>, "value" | "onChange" | "onSelect"> {
+  value: string;
+  onChange: (value: string) => void;
+  onSelect: (item: CatalogItem) => void;
+  catalogItems: CatalogItem[];
+  kind?: CatalogItemKind;
+  equipment?: Pick<Maquina, "brand" | "model"> | null;
+}
+
+// Free text with catalog suggestions below it; typing something that is not in
+// the catalog is still allowed.
+export const CatalogAutocompleteInput = forwardRef<HTMLInputElement, CatalogAutocompleteInputProps>(
+  ({ value, onChange, onSelect, catalogItems, kind, equipment, onBlur, onKeyDown, className, ...inputProps }, ref) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [highlighted, setHighlighted] = useState(0);
+    const suggestions = useMemo(
+      () => isOpen ? searchCatalogItems(catalogItems, value, { kind, equipment }) : [],
+      [isOpen, catalogItems, value, kind, equipment]
+    );
+
+    const select = (item: CatalogItem) => {
+      onSelect(item);
+      setIsOpen(false);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+      if (suggestions.length > 0) {
+        if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+          e.preventDefault();
+          const step = e.key === "ArrowDown" ? 1 : -1;
+          setHighlighted(current => (current + step + suggestions.length) % suggestions.length);
+        } else if (e.key === "Enter") {
+          e.preventDefault();
+          select(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+        } else if (e.key === "Escape") {
+          setIsOpen(false);
+        }
+      }
+      onKeyDown?.(e);
+    };
+
+    const handleBlur = (e: FocusEvent<HTMLInputElement>) => {
+      setIsOpen(false);
+      onBlur?.(e);
+    };
+
+    return (
+      <div className="relative">
+        <Input
+          ref={ref}
+          autoComplete="off"
+          {...inputProps}
+          className={className}
+          value={value}
+          onChange={(e) => { onChange(e.target.value); setIsOpen(true); setHighlighted(0); }}
+          onKeyDown={handleKeyDown}
+          onBlur={handleBlur}
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute z-50 mt-1 max-h-64 w-full min-w-[18rem] overflow-auto rounded-md border bg-popover p-1 text-sm shadow-md">
+            {suggestions.map((item, index) => (
+              <li
+                key={item.id}
+                // mousedown keeps the input from blurring (and closing the list) before the click lands
+                onMouseDown={(e) => { e.preventDefault(); select(item); }}
+                onMouseEnter={() => setHighlighted(index)}
+                className={cn("cursor-pointer rounded-sm px-2 py-1.5", { "bg-accent text-accent-foreground": index === highlighted })}
+              >
+                <div className="flex justify-between gap-2">
+                  <span className="font-medium">{item.code}</span>
+                  <span>{formatCatalogPrice(item)}</span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {item.description}
+                  {equipment && item.kind === "Peça" && !isCatalogItemCompatible(item, equipment) && " · não listada para esta máquina"}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+);
+CatalogAutocompleteInput.displayName = "CatalogAutocompleteInput";
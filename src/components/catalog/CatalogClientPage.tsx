@@ -0,0 +1,384 @@
+"use client";
+
+import { useState, useMemo, useCallback } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm, useWatch } from "react-hook-form";
+import type * as z from "zod";
+import { PlusCircle, BookOpen, Loader2, Search } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
+import type { CatalogItem, CatalogItemKind } from "@/types";
+import { CatalogItemSchema, catalogItemKindOptions, servicePricingOptions } from "@/types";
+import { PageHeader } from "@/components/shared/PageHeader";
+import { DataTablePlaceholder } from "@/components/shared/DataTablePlaceholder";
+import { FormModal } from "@/components/shared/FormModal";
+import { DetailsHistoryTabs } from "@/components/shared/DetailsHistoryTabs";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { db } from "@/lib/firebase";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { fetchCatalogItems, createCatalogItem, updateCatalogItem, deleteCatalogItem, queryKeys } from "@/lib/repositories";
+import { applyCatalogMarkup, formatCatalogPrice, getCatalogMarkup } from "@/lib/catalog";
+import { cn, formatCurrency } from "@/lib/utils";
+
+type CatalogItemFormValues = z.infer<typeof CatalogItemSchema>;
+
+const ALL_KINDS_FILTER_VALUE = "_ALL_KINDS_CATALOG_";
+
+const emptyFormValues = (): CatalogItemFormValues => ({
+  kind: "Peça",
+  code: "",
+  description: "",
+  compatibleBrands: [],
+  compatibleModels: [],
+  costPrice: null,
+  salePrice: 0,
+  pricing: null,
+  active: true,
+});
+
+// Lists are typed comma-separated; blanks are dropped when saving.
+const listToText = (values: string[] | undefined) => (values ?? []).join(", ");
+const textToList = (text: string) => text.split(/,\s*/);
+
+const formatMarkup = (item: Pick<CatalogItem, "costPrice" | "salePrice">) => {
+  const markup = getCatalogMarkup(item);
+  return markup === null ? "-" : `${markup.toLocaleString("pt-BR")}%`;
+};
+
+export function CatalogClientPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canManageCatalog = can("catalog:manage");
+
+  const [searchTerm, setSearchTerm] = useState("");
+  const [kindFilter, setKindFilter] = useState<CatalogItemKind | typeof ALL_KINDS_FILTER_VALUE>(ALL_KINDS_FILTER_VALUE);
+  const [showInactive, setShowInactive] = useState(false);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<CatalogItem | null>(null);
+  const [isEditMode, setIsEditMode] = useState(false);
+  const [markupInput, setMarkupInput] = useState<string | null>(null);
+
+  const form = useForm<CatalogItemFormValues>({
+    resolver: zodResolver(CatalogItemSchema),
+    defaultValues: emptyFormValues(),
+  });
+  const kindWatch = useWatch({ control: form.control, name: "kind" });
+  const costPriceWatch = useWatch({ control: form.control, name: "costPrice" });
+  const salePriceWatch = useWatch({ control: form.control, name: "salePrice" });
+
+  const { data: catalogItems = [], isLoading, isError, error } = useQuery<CatalogItem[], Error>({
+    queryKey: queryKeys.catalogItems.all,
+    queryFn: fetchCatalogItems,
+    enabled: !!db,
+  });
+
+  const filteredItems = useMemo(() => {
+    const lowerSearchTerm = searchTerm.trim().toLowerCase();
+    return catalogItems.filter(item =>
+      (showInactive || item.active)
+      && (kindFilter === ALL_KINDS_FILTER_VALUE || item.kind === kindFilter)
+      && (!lowerSearchTerm
+        || item.code.toLowerCase().includes(lowerSearchTerm)
+        || item.description.toLowerCase().includes(lowerSearchTerm)
+        || [...item.compatibleBrands, ...item.compatibleModels].some(entry => entry.toLowerCase().includes(lowerSearchTerm)))
+    );
+  }, [catalogItems, searchTerm, kindFilter, showInactive]);
+
+  const addItemMutation = useMutation({
+    mutationFn: async (data: CatalogItemFormValues) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      await createCatalogItem(data);
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.catalogItems.all });
+      toast({ title: "Item Cadastrado", description: `"${data.description}" foi incluído no catálogo.` });
+      closeModal();
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Cadastrar", description: `Não foi possível cadastrar o item. Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const updateItemMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: CatalogItemFormValues }) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      await updateCatalogItem(id, data);
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.catalogItems.all });
+      toast({ title: "Item Atualizado", description: `"${data.description}" foi atualizado.` });
+      closeModal();
+    },
+    onError: (err: Error, variables) => {
+      toast({ title: "Erro ao Atualizar", description: `Não foi possível atualizar "${variables.data.description}". Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const deleteItemMutation = useMutation({
+    mutationFn: async (itemId: string) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      return deleteCatalogItem(itemId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.catalogItems.all });
+      toast({ title: "Item Excluído" });
+      closeModal();
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Excluir", description: `Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const openModal = useCallback((item?: CatalogItem) => {
+    setMarkupInput(null);
+    if (item) {
+      setEditingItem(item);
+      setIsEditMode(false);
+      const { id, ...values } = item;
+      form.reset(values);
+    } else {
+      setEditingItem(null);
+      setIsEditMode(true);
+      form.reset(emptyFormValues());
+    }
+    setIsModalOpen(true);
+  }, [form]);
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingItem(null);
+    setIsEditMode(false);
+    form.reset(emptyFormValues());
+  };
+
+  const onSubmit = (values: CatalogItemFormValues) => {
+    if (editingItem) {
+      updateItemMutation.mutate({ id: editingItem.id, data: values });
+    } else {
+      addItemMutation.mutate(values);
+    }
+  };
+
+  const handleModalDeleteConfirm = () => {
+    if (editingItem && window.confirm(`Tem certeza que deseja excluir "${editingItem.description}"? Orçamentos e requisições que já usam o item não mudam. Para apenas deixar de sugeri-lo, desmarque "Ativo".`)) {
+      deleteItemMutation.mutate(editingItem.id);
+    }
+  };
+
+  // Typing a markup recalculates the sale price from the cost.
+  const handleMarkupChange = (text: string) => {
+    setMarkupInput(text);
+    const markup = parseFloat(text.replace(",", "."));
+    const cost = Number(costPriceWatch) || 0;
+    if (!isNaN(markup) && cost > 0) form.setValue("salePrice", applyCatalogMarkup(cost, markup), { shouldValidate: true });
+  };
+
+  const currentMarkup = getCatalogMarkup({ costPrice: Number(costPriceWatch) || null, salePrice: Number(salePriceWatch) || 0 });
+  const isMutating = addItemMutation.isPending || updateItemMutation.isPending || deleteItemMutation.isPending;
+  const isFormDisabled = !!editingItem && !isEditMode;
+
+  if (!db) {
+    return <div className="text-red-500 p-4">Erro: Conexão com Firebase não disponível.</div>;
+  }
+  if (isLoading && !isModalOpen) {
+    return <div className="flex justify-center items-center h-64"><Loader2 className="h-8 w-8 animate-spin text-primary" /><p className="ml-2">Carregando catálogo...</p></div>;
+  }
+  if (isError) {
+    return <div className="text-red-500 p-4">Erro ao carregar o catálogo: {error?.message}</div>;
+  }
+
+  return (
+    <>
+      <PageHeader
+        title=""
+        actions={canManageCatalog ? (
+          <Button onClick={() => openModal()} className="bg-primary hover:bg-primary/90" disabled={isMutating}>
+            <PlusCircle className="mr-2 h-4 w-4" /> Novo Item
+          </Button>
+        ) : undefined}
+      />
+      <p className="text-muted-foreground text-sm mb-6 -mt-4">
+        Peças e serviços com código, custo e preço de venda. Os itens de orçamentos e requisições são sugeridos a partir daqui e trazem o preço do catálogo.
+      </p>
+
+      {catalogItems.length === 0 ? (
+        <DataTablePlaceholder
+          icon={BookOpen}
+          title="Catálogo Vazio"
+          description="Cadastre as peças e serviços mais usados para padronizar descrições e preços nos orçamentos."
+          buttonLabel={canManageCatalog ? "Novo Item" : undefined}
+          onButtonClick={canManageCatalog ? () => openModal() : undefined}
+        />
+      ) : (
+        <>
+          <div className="flex flex-col md:flex-row md:items-center gap-4 mb-4">
+            <div className="relative max-w-sm flex-grow">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input placeholder="Buscar por código, descrição, marca ou modelo..." value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} className="pl-8" />
+            </div>
+            <Select value={kindFilter} onValueChange={(value) => setKindFilter(value as CatalogItemKind | typeof ALL_KINDS_FILTER_VALUE)}>
+              <SelectTrigger className="w-full md:w-[180px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_KINDS_FILTER_VALUE}>Peças e Serviços</SelectItem>
+                {catalogItemKindOptions.map(kind => <SelectItem key={kind} value={kind}>{kind === "Peça" ? "Peças" : "Serviços"}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center space-x-2">
+              <Checkbox id="catalog-show-inactive" checked={showInactive} onCheckedChange={(checked) => setShowInactive(checked === true)} />
+              <Label htmlFor="catalog-show-inactive" className="font-normal">Mostrar inativos</Label>
+            </div>
+          </div>
+          <Card>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Código</TableHead>
+                    <TableHead>Descrição</TableHead>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Compatibilidade</TableHead>
+                    <TableHead className="text-right">Custo</TableHead>
+                    <TableHead className="text-right">Venda</TableHead>
+                    <TableHead className="text-right">Markup</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredItems.map(item => (
+                    <TableRow key={item.id} onClick={() => openModal(item)} className={cn("cursor-pointer", { "text-muted-foreground": !item.active })}>
+                      <TableCell className="font-medium">{item.code}</TableCell>
+                      <TableCell>{item.description}{!item.active && " (inativo)"}</TableCell>
+                      <TableCell>{item.kind === "Serviço" ? `Serviço · ${item.pricing ?? "-"}` : "Peça"}</TableCell>
+                      <TableCell className="text-xs">
+                        {item.kind === "Serviço" ? "-" : [item.compatibleBrands.join(", "), item.compatibleModels.join(", ")].filter(Boolean).join(" · ") || "Todas"}
+                      </TableCell>
+                      <TableCell className="text-right">{item.costPrice !== null ? formatCurrency(item.costPrice) : "-"}</TableCell>
+                      <TableCell className="text-right">{formatCatalogPrice(item)}</TableCell>
+                      <TableCell className="text-right">{formatMarkup(item)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <FormModal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        title={editingItem ? "Editar Item do Catálogo" : "Novo Item do Catálogo"}
+        description="Código, descrição e preços usados nos orçamentos e requisições."
+        formId="catalog-item-form"
+        isSubmitting={isMutating}
+        editingItem={editingItem}
+        onDeleteConfirm={canManageCatalog ? handleModalDeleteConfirm : undefined}
+        isDeleting={deleteItemMutation.isPending}
+        deleteButtonLabel="Excluir Item"
+        isEditMode={isEditMode}
+        onEditModeToggle={canManageCatalog ? () => setIsEditMode(true) : undefined}
+        submitButtonLabel={editingItem && !isEditMode ? "Editar" : (editingItem ? "Salvar Alterações" : "Cadastrar Item")}
+      >
+        <DetailsHistoryTabs entityType="catalogItem" entityId={editingItem?.id}>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} id="catalog-item-form" className="space-y-4">
+              <fieldset disabled={isFormDisabled} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField control={form.control} name="kind" render={({ field }) => (
+                    <FormItem><FormLabel>Tipo</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                        <SelectContent>{catalogItemKindOptions.map(kind => <SelectItem key={kind} value={kind}>{kind}</SelectItem>)}</SelectContent>
+                      </Select><FormMessage />
+                    </FormItem>
+                  )} />
+                  <FormField control={form.control} name="code" render={({ field }) => (
+                    <FormItem><FormLabel>Código</FormLabel><FormControl><Input placeholder="Ex: FLT-0042" {...field} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                </div>
+                <FormField control={form.control} name="description" render={({ field }) => (
+                  <FormItem><FormLabel>Descrição</FormLabel><FormControl><Input placeholder={kindWatch === "Serviço" ? "Ex: Revisão do sistema hidráulico" : "Ex: Filtro de óleo do motor"} {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+
+                {kindWatch === "Serviço" ? (
+                  <FormField control={form.control} name="pricing" render={({ field }) => (
+                    <FormItem><FormLabel>Cobrança</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value ?? undefined}>
+                        <FormControl><SelectTrigger><SelectValue placeholder="Por hora ou preço fixo" /></SelectTrigger></FormControl>
+                        <SelectContent>{servicePricingOptions.map(option => <SelectItem key={option} value={option}>{option}</SelectItem>)}</SelectContent>
+                      </Select>
+                      <FormDescription>Serviços por hora entram no orçamento com a quantidade em horas.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <FormField control={form.control} name="compatibleBrands" render={({ field }) => (
+                      <FormItem><FormLabel>Marcas Compatíveis</FormLabel>
+                        <FormControl><Input placeholder="Ex: Toyota, Hyster" value={listToText(field.value)} onChange={(e) => field.onChange(textToList(e.target.value))} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )} />
+                    <FormField control={form.control} name="compatibleModels" render={({ field }) => (
+                      <FormItem><FormLabel>Modelos Compatíveis</FormLabel>
+                        <FormControl><Input placeholder="Ex: 8FGU25, H50FT" value={listToText(field.value)} onChange={(e) => field.onChange(textToList(e.target.value))} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )} />
+                    <p className="text-sm text-muted-foreground md:col-span-2">Separe por vírgulas. Em branco, a peça é sugerida para qualquer máquina.</p>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <FormField control={form.control} name="costPrice" render={({ field }) => (
+                    <FormItem><FormLabel>Custo (R$)</FormLabel>
+                      <FormControl><Input type="number" step="0.01" min={0} value={field.value ?? ""} onChange={(e) => field.onChange(e.target.value === "" ? null : e.target.value)} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                  <div className="space-y-2">
+                    <Label htmlFor="catalog-markup">Markup (%)</Label>
+                    <Input
+                      id="catalog-markup"
+                      type="number"
+                      step="0.01"
+                      value={markupInput ?? (currentMarkup ?? "")}
+                      onChange={(e) => handleMarkupChange(e.target.value)}
+                      onBlur={() => setMarkupInput(null)}
+                      disabled={!(Number(costPriceWatch) > 0)}
+                    />
+                  </div>
+                  <FormField control={form.control} name="salePrice" render={({ field }) => (
+                    <FormItem><FormLabel>{kindWatch === "Serviço" ? "Preço de Venda (R$)" : "Preço de Venda (R$/un.)"}</FormLabel>
+                      <FormControl><Input type="number" step="0.01" min={0} {...field} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                </div>
+                <FormField control={form.control} name="active" render={({ field }) => (
+                  <FormItem>
+                    <div className="flex flex-row items-center space-x-2 space-y-0">
+                      <FormControl><Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} /></FormControl>
+                      <FormLabel className="font-normal">Ativo</FormLabel>
+                    </div>
+                    <FormDescription>Itens inativos não são sugeridos nos formulários.</FormDescription>
+                  </FormItem>
+                )} />
+              </fieldset>
+            </form>
+          </Form>
+        </DetailsHistoryTabs>
+      </FormModal>
+    </>
+  );
+}
@@ -0,0 +1,17 @@
+"use client";
+
+import { CatalogClientPage } from "@/components/catalog/CatalogClientPage";
+import { useState, useEffect } from 'react';
+import type { FC } from 'react';
+
+export const CatalogPageContent: FC = () => {
+  const [isClient, setIsClient] = useState(false);
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  if (!isClient) {
+    return null;
+  }
+  return <CatalogClientPage />;
+}
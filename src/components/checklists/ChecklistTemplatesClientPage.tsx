@@ -0,0 +1,305 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm, useFieldArray } from "react-hook-form";
+import type * as z from "zod";
+import { PlusCircle, ListChecks, Loader2, Trash2, Wrench, Construction } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
+import type { ChecklistTemplate } from "@/types";
+import { ChecklistTemplateSchema, maquinaTypeOptions, serviceTypeOptionsList } from "@/types";
+import { PageHeader } from "@/components/shared/PageHeader";
+import { DataTablePlaceholder } from "@/components/shared/DataTablePlaceholder";
+import { FormModal } from "@/components/shared/FormModal";
+import { DetailsHistoryTabs } from "@/components/shared/DetailsHistoryTabs";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { db } from "@/lib/firebase";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  fetchChecklistTemplates, createChecklistTemplate, updateChecklistTemplate, deleteChecklistTemplate, queryKeys,
+} from "@/lib/repositories";
+import { defaultChecklistItemLabels } from "@/lib/checklists";
+import { cn } from "@/lib/utils";
+
+const ALL_EQUIPMENT_TYPES_VALUE = "_ALL_EQUIPMENT_TYPES_";
+
+type ChecklistTemplateFormValues = z.infer<typeof ChecklistTemplateSchema>;
+
+const emptyFormValues = (): ChecklistTemplateFormValues => ({
+  name: "",
+  serviceType: "Manutenção Preventiva",
+  equipmentType: null,
+  items: defaultChecklistItemLabels.map(label => ({ id: crypto.randomUUID(), label })),
+  active: true,
+});
+
+export function ChecklistTemplatesClientPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canManageTemplates = can("serviceOrders:manage");
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<ChecklistTemplate | null>(null);
+  const [isEditMode, setIsEditMode] = useState(false);
+
+  const form = useForm<ChecklistTemplateFormValues>({
+    resolver: zodResolver(ChecklistTemplateSchema),
+    defaultValues: emptyFormValues(),
+  });
+
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "items" });
+
+  const { data: templates = [], isLoading, isError, error } = useQuery<ChecklistTemplate[], Error>({
+    queryKey: queryKeys.checklistTemplates.all,
+    queryFn: fetchChecklistTemplates,
+    enabled: !!db,
+  });
+
+  const addTemplateMutation = useMutation({
+    mutationFn: async (data: ChecklistTemplateFormValues) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      await createChecklistTemplate(data);
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.checklistTemplates.all });
+      toast({ title: "Checklist Criado", description: `Checklist "${data.name}" foi criado.` });
+      closeModal();
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Criar", description: `Não foi possível criar o checklist. Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const updateTemplateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: ChecklistTemplateFormValues }) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      await updateChecklistTemplate(id, data);
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.checklistTemplates.all });
+      toast({ title: "Checklist Atualizado", description: `Checklist "${data.name}" foi atualizado.` });
+      closeModal();
+    },
+    onError: (err: Error, variables) => {
+      toast({ title: "Erro ao Atualizar", description: `Não foi possível atualizar o checklist "${variables.data.name}". Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      return deleteChecklistTemplate(templateId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.checklistTemplates.all });
+      toast({ title: "Checklist Excluído" });
+      closeModal();
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Excluir", description: `Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const openModal = useCallback((template?: ChecklistTemplate) => {
+    if (template) {
+      setEditingTemplate(template);
+      setIsEditMode(false);
+      form.reset({ ...template, equipmentType: template.equipmentType || null });
+    } else {
+      setEditingTemplate(null);
+      setIsEditMode(true);
+      form.reset(emptyFormValues());
+    }
+    setIsModalOpen(true);
+  }, [form]);
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingTemplate(null);
+    setIsEditMode(false);
+    form.reset(emptyFormValues());
+  };
+
+  const onSubmit = (values: ChecklistTemplateFormValues) => {
+    if (editingTemplate) {
+      updateTemplateMutation.mutate({ id: editingTemplate.id, data: values });
+    } else {
+      addTemplateMutation.mutate(values);
+    }
+  };
+
+  const handleModalDeleteConfirm = () => {
+    if (editingTemplate && window.confirm(`Tem certeza que deseja excluir o checklist "${editingTemplate.name}"? Os checklists já preenchidos nas OS são mantidos.`)) {
+      deleteTemplateMutation.mutate(editingTemplate.id);
+    }
+  };
+
+  const isMutating = addTemplateMutation.isPending || updateTemplateMutation.isPending || deleteTemplateMutation.isPending;
+  const isFormDisabled = !!editingTemplate && !isEditMode;
+
+  if (!db) {
+    return <div className="text-red-500 p-4">Erro: Conexão com Firebase não disponível.</div>;
+  }
+  if (isLoading && !isModalOpen) {
+    return <div className="flex justify-center items-center h-64"><Loader2 className="h-8 w-8 animate-spin text-primary" /><p className="ml-2">Carregando checklists...</p></div>;
+  }
+  if (isError) {
+    return <div className="text-red-500 p-4">Erro ao carregar checklists: {error?.message}</div>;
+  }
+
+  return (
+    <>
+      <PageHeader
+        title=""
+        actions={canManageTemplates ? (
+          <Button onClick={() => openModal()} className="bg-primary hover:bg-primary/90" disabled={isMutating}>
+            <PlusCircle className="mr-2 h-4 w-4" /> Novo Checklist
+          </Button>
+        ) : undefined}
+      />
+      <p className="text-muted-foreground text-sm mb-6 -mt-4">
+        Itens de inspeção por tipo de serviço e tipo de máquina. A OS usa o checklist do seu tipo de serviço, dando preferência ao feito para o tipo da máquina.
+      </p>
+
+      {templates.length === 0 ? (
+        <DataTablePlaceholder
+          icon={ListChecks}
+          title="Nenhum Checklist Cadastrado"
+          description="Cadastre os itens de inspeção da preventiva, da revisão geral e dos demais serviços."
+          buttonLabel={canManageTemplates ? "Novo Checklist" : undefined}
+          onButtonClick={canManageTemplates ? () => openModal() : undefined}
+        />
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {templates.map((template) => (
+            <Card key={template.id} onClick={() => openModal(template)} className="flex flex-col shadow-lg hover:shadow-xl transition-shadow duration-300 cursor-pointer">
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <CardTitle className="font-headline text-xl text-primary">{template.name}</CardTitle>
+                  <span className={cn("px-2 py-0.5 rounded-full text-xs font-semibold", {
+                    "bg-green-100 text-green-700": template.active,
+                    "bg-slate-100 text-slate-700": !template.active,
+                  })}>
+                    {template.active ? "Ativo" : "Inativo"}
+                  </span>
+                </div>
+                <CardDescription>{template.items.length} itens</CardDescription>
+              </CardHeader>
+              <CardContent className="flex-grow space-y-2 text-sm">
+                <p className="flex items-center">
+                  <Wrench className="mr-2 h-4 w-4 text-primary flex-shrink-0" />
+                  <span className="font-medium text-muted-foreground mr-1">Serviço:</span>
+                  {template.serviceType}
+                </p>
+                <p className="flex items-center">
+                  <Construction className="mr-2 h-4 w-4 text-primary flex-shrink-0" />
+                  <span className="font-medium text-muted-foreground mr-1">Máquina:</span>
+                  {template.equipmentType || "Todos os tipos"}
+                </p>
+                <p className="text-muted-foreground line-clamp-2">{template.items.map(item => item.label).join(", ")}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <FormModal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        title={editingTemplate ? "Editar Checklist" : "Novo Checklist"}
+        description="Tipo de serviço, máquinas a que se aplica e itens a inspecionar."
+        formId="checklist-template-form"
+        isSubmitting={isMutating}
+        editingItem={editingTemplate}
+        onDeleteConfirm={canManageTemplates ? handleModalDeleteConfirm : undefined}
+        isDeleting={deleteTemplateMutation.isPending}
+        deleteButtonLabel="Excluir Checklist"
+        isEditMode={isEditMode}
+        onEditModeToggle={canManageTemplates ? () => setIsEditMode(true) : undefined}
+        submitButtonLabel={editingTemplate && !isEditMode ? "Editar" : (editingTemplate ? "Salvar Alterações" : "Criar Checklist")}
+      >
+        <DetailsHistoryTabs entityType="checklistTemplate" entityId={editingTemplate?.id}>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} id="checklist-template-form" className="space-y-4">
+              <fieldset disabled={isFormDisabled} className="space-y-4">
+                <FormField control={form.control} name="name" render={({ field }) => (
+                  <FormItem><FormLabel>Nome do Checklist</FormLabel><FormControl><Input placeholder="Ex: Inspeção Preventiva GLP" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField control={form.control} name="serviceType" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tipo de Serviço</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                        <SelectContent>
+                          {serviceTypeOptionsList.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                  <FormField control={form.control} name="equipmentType" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tipo de Máquina</FormLabel>
+                      <Select onValueChange={(value) => field.onChange(value === ALL_EQUIPMENT_TYPES_VALUE ? null : value)} value={field.value || ALL_EQUIPMENT_TYPES_VALUE}>
+                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                        <SelectContent>
+                          <SelectItem value={ALL_EQUIPMENT_TYPES_VALUE}>Todos os tipos</SelectItem>
+                          {maquinaTypeOptions.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                </div>
+                <FormItem>
+                  <FormLabel>Itens</FormLabel>
+                  <FormDescription>Cada item é marcado como OK, NOK ou N/A na OS.</FormDescription>
+                  <div className="space-y-2">
+                    {fields.map((item, index) => (
+                      <div key={item.id} className="flex items-start gap-2">
+                        <FormField control={form.control} name={`items.${index}.label`} render={({ field }) => (
+                          <FormItem className="flex-1">
+                            <FormControl><Input placeholder={`Item ${index + 1}`} {...field} /></FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )} />
+                        {!isFormDisabled && (
+                          <Button type="button" variant="ghost" size="icon" className="text-destructive hover:text-destructive" onClick={() => remove(index)} disabled={fields.length <= 1} aria-label="Remover item">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  {!isFormDisabled && (
+                    <Button type="button" variant="outline" size="sm" onClick={() => append({ id: crypto.randomUUID(), label: "" })}>
+                      <PlusCircle className="mr-2 h-4 w-4" /> Adicionar Item
+                    </Button>
+                  )}
+                  <FormMessage>{form.formState.errors.items?.message}</FormMessage>
+                </FormItem>
+                <FormField control={form.control} name="active" render={({ field }) => (
+                  <FormItem className="flex flex-row items-center space-x-2 space-y-0">
+                    <FormControl><Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} /></FormControl>
+                    <FormLabel className="font-normal">Checklist ativo</FormLabel>
+                  </FormItem>
+                )} />
+              </fieldset>
+            </form>
+          </Form>
+        </DetailsHistoryTabs>
+      </FormModal>
+    </>
+  );
+}
@@ -0,0 +1,17 @@
+"use client";
+
+import { ChecklistTemplatesClientPage } from "@/components/checklists/ChecklistTemplatesClientPage";
+import { useState, useEffect } from 'react';
+import type { FC } from 'react';
+
+export const ChecklistTemplatesPageContent: FC = () => {
+  const [isClient, setIsClient] = useState(false);
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  if (!isClient) {
+    return null;
+  }
+  return <ChecklistTemplatesClientPage />;
+}
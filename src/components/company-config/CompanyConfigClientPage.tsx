@@ -11,69 +11,20 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
-import type { Company, CompanyId } from "@/types";
-import { CompanySchema, companyIds } from "@/types";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Company } from "@/types";
+import { CompanySchema, boletoBankCodes, boletoBankNames } from "@/types";
 import { PageHeader } from "@/components/shared/PageHeader";
 import { FormModal } from "@/components/shared/FormModal";
+import { DocumentNumberingSection } from "@/components/company-config/DocumentNumberingSection";
+import { LaborRatesSection } from "@/components/company-config/LaborRatesSection";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
 import { db } from "@/lib/firebase";
-import { doc, getDoc, setDoc, updateDoc } from "firebase/firestore";
+import { fetchCompanies, saveCompany, queryKeys } from "@/lib/repositories";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { formatAddressForDisplay, formatPhoneNumberForInputDisplay } from "@/lib/utils"; // Import the utility function
-
-const FIRESTORE_COLLECTION_NAME = "empresas";
-
-
-const initialCompanyDataFromCode: Record<CompanyId, Omit<Company, 'id'>> = {
-  goldmaq: { 
-    name: "Gold Maq", 
-    cnpj: "04.325.000/0001-12", 
-    street: "RUA ARISTIDES MARIOTTI", 
-    number: "290", 
-    neighborhood: "RECANTO QUARTO CENTENARIO", 
-    city: "Jundiai", 
-    state: "SP", 
-    cep: "13211-740",
-    phone: "11999998888",
-    email: "contato@goldmaq.com.br",
-    bankName: "Banco Alpha", 
-    bankAgency: "0001", 
-    bankAccount: "12345-6", 
-    bankPixKey: "04325000000112" 
-  },
-  goldcomercio: { 
-    name: "Gold Comércio", 
-    cnpj: "33.521.128/0001-50", 
-    street: "RUA ARISTIDES MARIOTTI", 
-    number: "290", 
-    neighborhood: "RECANTO QUARTO CENTENARIO", 
-    city: "Jundiai", 
-    state: "SP", 
-    cep: "13211-740",
-    phone: "11777776666",
-    email: "comercial@goldcomercio.com.br",
-    bankName: "Banco Beta", 
-    bankAgency: "0002", 
-    bankAccount: "65432-1",
-    bankPixKey: undefined,
-  },
-  goldjob: { 
-    name: "Gold Empilhadeiras", 
-    cnpj: "13.311.149/0001-33", 
-    street: "RUA ARISTIDES MARIOTTI", 
-    number: "290", 
-    neighborhood: "RECANTO QUARTO CENTENARIO", 
-    city: "Jundiai", 
-    state: "SP", 
-    cep: "13211-740",
-    phone: "11555554444",
-    email: "orcamento@goldempilhadeiras.com.br",
-    bankName: undefined,
-    bankAgency: undefined,
-    bankAccount: undefined,
-    bankPixKey: undefined,
-  },
-};
+import { DEFAULT_BUDGET_FOLLOW_UP_DAYS } from "@/lib/budget-funnel";
 
 interface ViaCepResponse {
   cep: string;
@@ -85,52 +36,13 @@ interface ViaCepResponse {
   erro?: boolean;
 }
 
-async function fetchCompanyConfigs(): Promise<Company[]> {
-  if (!db) {
-    console.error("fetchCompanyConfigs: Firebase DB is not available.");
-    throw new Error("Firebase DB is not available");
-  }
-  const fetchedCompanies: Company[] = [];
-  for (const id of companyIds) {
-    const docRef = doc(db, FIRESTORE_COLLECTION_NAME, id);
-    const docSnap = await getDoc(docRef);
-    if (docSnap.exists()) {
-      const data = docSnap.data();
-      fetchedCompanies.push({ 
-        id, 
-        name: data.name || initialCompanyDataFromCode[id].name,
-        cnpj: data.cnpj || initialCompanyDataFromCode[id].cnpj,
-        street: data.street || initialCompanyDataFromCode[id].street,
-        number: data.number || initialCompanyDataFromCode[id].number,
-        complement: data.complement || initialCompanyDataFromCode[id].complement,
-        neighborhood: data.neighborhood || initialCompanyDataFromCode[id].neighborhood,
-        city: data.city || initialCompanyDataFromCode[id].city,
-        state: data.state || initialCompanyDataFromCode[id].state,
-        cep: data.cep || initialCompanyDataFromCode[id].cep,
-        phone: data.phone || initialCompanyDataFromCode[id].phone,
-        email: data.email || initialCompanyDataFromCode[id].email,
-        bankName: data.bankName || initialCompanyDataFromCode[id].bankName,
-        bankAgency: data.bankAgency || initialCompanyDataFromCode[id].bankAgency,
-        bankAccount: data.bankAccount || initialCompanyDataFromCode[id].bankAccount,
-        bankPixKey: data.bankPixKey || initialCompanyDataFromCode[id].bankPixKey,
-      } as Company);
-    } else {
-      const initialData = initialCompanyDataFromCode[id];
-      if (initialData) {
-        console.warn(`CompanyConfig: Document for ${id} not found in Firestore. Using initial data from code. Consider seeding this data if it should persist.`);
-        fetchedCompanies.push({ id, ...initialData });
-      } else {
-        console.error(`CompanyConfig: Document for ${id} not found and no initial data in code.`);
-      }
-    }
-  }
-  return fetchedCompanies;
-}
-
+const NO_BOLETO_BANK_VALUE = "_NO_BOLETO_BANK_";
 
 export function CompanyConfigClientPage() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canManage = can("companyConfig:manage");
 
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingCompany, setEditingCompany] = useState<Company | null>(null);
@@ -144,12 +56,14 @@ export function CompanyConfigClientPage() {
       street: "", number: "", complement: "", neighborhood: "", city: "", state: "", cep: "",
       phone: "", email: "",
       bankName: "", bankAgency: "", bankAccount: "", bankPixKey: "",
+      bankCode: undefined, boletoWallet: "", boletoAgreement: "",
+      issRate: undefined, icmsRate: undefined, ipiRate: undefined, budgetFollowUpDays: undefined,
     },
   });
 
   const { data: companies = [], isLoading, isError, error } = useQuery<Company[], Error>({
-    queryKey: [FIRESTORE_COLLECTION_NAME],
-    queryFn: fetchCompanyConfigs,
+    queryKey: queryKeys.companies.all,
+    queryFn: fetchCompanies,
     enabled: !!db, 
   });
 
@@ -173,24 +87,11 @@ export function CompanyConfigClientPage() {
         console.error("updateCompanyMutation: Firebase DB is not available.");
         throw new Error("Firebase DB is not available for updating company.");
       }
-      const { id, ...dataToUpdate } = companyData; // Destructure id out
-
-      if (!id) throw new Error("ID da empresa é necessário para atualização.");
-      
-      // Firestore updateDoc does not accept 'id' in the data payload
-      const companyRef = doc(db, FIRESTORE_COLLECTION_NAME, id);
-      const docSnap = await getDoc(companyRef);
-      if (docSnap.exists()) {
-        // Pass only dataToUpdate to updateDoc
-        return updateDoc(companyRef, dataToUpdate);
-      } else {
-        console.log(`CompanyConfig: Document for ${id} not found. Creating it now.`);
-        // Pass only dataToUpdate to setDoc
-        return setDoc(companyRef, dataToUpdate); 
-      }
+      if (!companyData.id) throw new Error("ID da empresa é necessário para atualização.");
+      return saveCompany(companyData);
     },
     onSuccess: (_, variables) => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.companies.all });
       toast({ title: "Informações da Empresa Atualizadas", description: `Os detalhes de ${variables.name} foram atualizados.` });
       closeModal();
     },
@@ -207,7 +108,7 @@ export function CompanyConfigClientPage() {
         ...company,
         phone: company.phone ? formatPhoneNumberForInputDisplay(company.phone) : ""
     });
-    setIsEditMode(true); 
+    setIsEditMode(canManage);
     setIsModalOpen(true);
   };
 
@@ -219,7 +120,9 @@ export function CompanyConfigClientPage() {
       name: "", cnpj: "", 
       street: "", number: "", complement: "", neighborhood: "", city: "", state: "", cep: "",
       phone: "", email: "",
-      bankName: "", bankAgency: "", bankAccount: "", bankPixKey: ""
+      bankName: "", bankAgency: "", bankAccount: "", bankPixKey: "",
+      bankCode: undefined, boletoWallet: "", boletoAgreement: "",
+      issRate: undefined, icmsRate: undefined, ipiRate: undefined, budgetFollowUpDays: undefined,
     });
   };
 
@@ -242,6 +145,14 @@ export function CompanyConfigClientPage() {
         bankAgency: values.bankAgency || undefined,
         bankAccount: values.bankAccount || undefined,
         bankPixKey: values.bankPixKey || undefined,
+        bankCode: values.bankCode || undefined,
+        boletoWallet: values.boletoWallet || undefined,
+        boletoAgreement: values.boletoAgreement || undefined,
+        // Zero rather than undefined, so clearing a rate overwrites the saved one.
+        issRate: values.issRate ?? 0,
+        icmsRate: values.icmsRate ?? 0,
+        ipiRate: values.ipiRate ?? 0,
+        budgetFollowUpDays: values.budgetFollowUpDays ?? 0,
     };
     updateCompanyMutation.mutate(dataToSave);
   };
@@ -396,6 +307,10 @@ export function CompanyConfigClientPage() {
         </div>
       )}
 
+      <DocumentNumberingSection />
+
+      <LaborRatesSection />
+
       <FormModal
         isOpen={isModalOpen}
         onClose={closeModal}
@@ -408,104 +323,159 @@ export function CompanyConfigClientPage() {
       >
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} id="company-form" className="space-y-4">
-            <FormField control={form.control} name="name" render={({ field }) => (
-              <FormItem><FormLabel>Nome da Empresa</FormLabel><FormControl><Input {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
-            )} />
-            <FormField control={form.control} name="cnpj" render={({ field }) => (
-              <FormItem><FormLabel>CNPJ</FormLabel><FormControl><Input {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
-            )} />
-            
-            <h3 className="text-md font-semibold pt-2 border-b pb-1 font-headline">Endereço</h3>
-            <FormField control={form.control} name="cep" render={({ field }) => (
-              <FormItem>
-                <FormLabel>CEP</FormLabel>
-                <div className="flex items-center gap-2">
-                  <FormControl>
-                    <Input placeholder="00000-000" {...field} value={field.value ?? ""} onChange={(e) => {
-                      const value = e.target.value.replace(/\D/g, "");
-                      if (value.length <= 5) {
-                        field.onChange(value);
-                      } else if (value.length <= 8) {
-                        field.onChange(`${value.slice(0,5)}-${value.slice(5)}`);
-                      } else {
-                        field.onChange(`${value.slice(0,5)}-${value.slice(5,8)}`);
-                      }
-                    }}/>
-                  </FormControl>
-                  <Button type="button" variant="outline" onClick={handleSearchCep} disabled={isCepLoading}>
-                    {isCepLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
-                    <span className="ml-2 sm:inline hidden">Buscar</span>
-                  </Button>
-                </div>
-                <FormDescription>Digite o CEP para buscar o endereço automaticamente.</FormDescription>
-                <FormMessage />
-              </FormItem>
-            )} />
-
-            <FormField control={form.control} name="street" render={({ field }) => (
-              <FormItem><FormLabel>Rua / Logradouro</FormLabel><FormControl><Input placeholder="Ex: Av. Paulista" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
-            )} />
-
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <FormField control={form.control} name="number" render={({ field }) => (
-                <FormItem className="md:col-span-1"><FormLabel>Número</FormLabel><FormControl><Input placeholder="Ex: 123" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+            <fieldset disabled={!isEditMode} className="space-y-4">
+              <FormField control={form.control} name="name" render={({ field }) => (
+                <FormItem><FormLabel>Nome da Empresa</FormLabel><FormControl><Input {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
               )} />
-              <FormField control={form.control} name="complement" render={({ field }) => (
-                <FormItem className="md:col-span-2"><FormLabel>Complemento (Opcional)</FormLabel><FormControl><Input placeholder="Ex: Apto 10, Bloco B" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+              <FormField control={form.control} name="cnpj" render={({ field }) => (
+                <FormItem><FormLabel>CNPJ</FormLabel><FormControl><Input {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
               )} />
-            </div>
-
-            <FormField control={form.control} name="neighborhood" render={({ field }) => (
-              <FormItem><FormLabel>Bairro</FormLabel><FormControl><Input placeholder="Ex: Bela Vista" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
-            )} />
-
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <FormField control={form.control} name="city" render={({ field }) => (
-                <FormItem className="md:col-span-2"><FormLabel>Cidade</FormLabel><FormControl><Input placeholder="Ex: São Paulo" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+              
+              <h3 className="text-md font-semibold pt-2 border-b pb-1 font-headline">Endereço</h3>
+              <FormField control={form.control} name="cep" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>CEP</FormLabel>
+                  <div className="flex items-center gap-2">
+                    <FormControl>
+                      <Input placeholder="00000-000" {...field} value={field.value ?? ""} onChange={(e) => {
+                        const value = e.target.value.replace(/\D/g, "");
+                        if (value.length <= 5) {
+                          field.onChange(value);
+                        } else if (value.length <= 8) {
+                          field.onChange(`${value.slice(0,5)}-${value.slice(5)}`);
+                        } else {
+                          field.onChange(`${value.slice(0,5)}-${value.slice(5,8)}`);
+                        }
+                      }}/>
+                    </FormControl>
+                    <Button type="button" variant="outline" onClick={handleSearchCep} disabled={isCepLoading}>
+                      {isCepLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+                      <span className="ml-2 sm:inline hidden">Buscar</span>
+                    </Button>
+                  </div>
+                  <FormDescription>Digite o CEP para buscar o endereço automaticamente.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )} />
+  
+              <FormField control={form.control} name="street" render={({ field }) => (
+                <FormItem><FormLabel>Rua / Logradouro</FormLabel><FormControl><Input placeholder="Ex: Av. Paulista" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+              )} />
+  
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormField control={form.control} name="number" render={({ field }) => (
+                  <FormItem className="md:col-span-1"><FormLabel>Número</FormLabel><FormControl><Input placeholder="Ex: 123" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="complement" render={({ field }) => (
+                  <FormItem className="md:col-span-2"><FormLabel>Complemento (Opcional)</FormLabel><FormControl><Input placeholder="Ex: Apto 10, Bloco B" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+                )} />
+              </div>
+  
+              <FormField control={form.control} name="neighborhood" render={({ field }) => (
+                <FormItem><FormLabel>Bairro</FormLabel><FormControl><Input placeholder="Ex: Bela Vista" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+              )} />
+  
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormField control={form.control} name="city" render={({ field }) => (
+                  <FormItem className="md:col-span-2"><FormLabel>Cidade</FormLabel><FormControl><Input placeholder="Ex: São Paulo" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="state" render={({ field }) => (
+                  <FormItem className="md:col-span-1"><FormLabel>Estado (UF)</FormLabel><FormControl><Input placeholder="Ex: SP" maxLength={2} {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+                )} />
+              </div>
+  
+              <h3 className="text-md font-semibold pt-2 border-b pb-1 font-headline">Informações de Contato (Opcional)</h3>
+              <FormField control={form.control} name="phone" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Telefone</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="(00) 00000-0000"
+                        {...field}
+                        value={field.value ?? ""}
+                        onChange={(e) => {
+                           field.onChange(formatPhoneNumberForInputDisplay(e.target.value));
+                        }}
+                        maxLength={15}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+              <FormField control={form.control} name="email" render={({ field }) => (
+                <FormItem><FormLabel>Email</FormLabel><FormControl><Input type="email" placeholder="contato@empresa.com" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+              )} />
+  
+  
+              <h3 className="text-md font-semibold pt-2 border-b pb-1 font-headline">Informações Bancárias (Opcional)</h3>
+              <FormField control={form.control} name="bankName" render={({ field }) => (
+                <FormItem><FormLabel>Nome do Banco</FormLabel><FormControl><Input {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
               )} />
-              <FormField control={form.control} name="state" render={({ field }) => (
-                <FormItem className="md:col-span-1"><FormLabel>Estado (UF)</FormLabel><FormControl><Input placeholder="Ex: SP" maxLength={2} {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField control={form.control} name="bankAgency" render={({ field }) => (
+                  <FormItem><FormLabel>Agência</FormLabel><FormControl><Input {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="bankAccount" render={({ field }) => (
+                  <FormItem><FormLabel>Conta</FormLabel><FormControl><Input {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+                )} />
+              </div>
+              <FormField control={form.control} name="bankPixKey" render={({ field }) => (
+                <FormItem><FormLabel>Chave PIX</FormLabel><FormControl><Input {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
               )} />
-            </div>
 
-            <h3 className="text-md font-semibold pt-2 border-b pb-1 font-headline">Informações de Contato (Opcional)</h3>
-            <FormField control={form.control} name="phone" render={({ field }) => (
+              <h3 className="text-md font-semibold pt-2 border-b pb-1 font-headline">Cobrança por Boleto (Opcional)</h3>
+              <FormField control={form.control} name="bankCode" render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Telefone</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="(00) 00000-0000"
-                      {...field}
-                      value={field.value ?? ""}
-                      onChange={(e) => {
-                         field.onChange(formatPhoneNumberForInputDisplay(e.target.value));
-                      }}
-                      maxLength={15}
-                    />
-                  </FormControl>
+                  <FormLabel>Banco Emissor</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(value === NO_BOLETO_BANK_VALUE ? undefined : value)}
+                    value={field.value ?? NO_BOLETO_BANK_VALUE}
+                  >
+                    <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_BOLETO_BANK_VALUE}>Não emite boletos</SelectItem>
+                      {boletoBankCodes.map(code => <SelectItem key={code} value={code}>{code} - {boletoBankNames[code]}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>A agência e a conta acima são usadas no boleto e nos arquivos de remessa (ex.: 1234-5 e 12345-6).</FormDescription>
                   <FormMessage />
                 </FormItem>
               )} />
-            <FormField control={form.control} name="email" render={({ field }) => (
-              <FormItem><FormLabel>Email</FormLabel><FormControl><Input type="email" placeholder="contato@empresa.com" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
-            )} />
-
-
-            <h3 className="text-md font-semibold pt-2 border-b pb-1 font-headline">Informações Bancárias (Opcional)</h3>
-            <FormField control={form.control} name="bankName" render={({ field }) => (
-              <FormItem><FormLabel>Nome do Banco</FormLabel><FormControl><Input {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
-            )} />
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <FormField control={form.control} name="bankAgency" render={({ field }) => (
-                <FormItem><FormLabel>Agência</FormLabel><FormControl><Input {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
-              )} />
-              <FormField control={form.control} name="bankAccount" render={({ field }) => (
-                <FormItem><FormLabel>Conta</FormLabel><FormControl><Input {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField control={form.control} name="boletoWallet" render={({ field }) => (
+                  <FormItem><FormLabel>Carteira</FormLabel><FormControl><Input placeholder="Padrão do banco" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="boletoAgreement" render={({ field }) => (
+                  <FormItem><FormLabel>Convênio / Código do Beneficiário</FormLabel><FormControl><Input {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+                )} />
+              </div>
+
+              <h3 className="text-md font-semibold pt-2 border-b pb-1 font-headline">Impostos nos Orçamentos (Opcional)</h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormField control={form.control} name="issRate" render={({ field }) => (
+                  <FormItem><FormLabel>ISS (%)</FormLabel><FormControl><Input type="number" step="0.01" placeholder="0" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="icmsRate" render={({ field }) => (
+                  <FormItem><FormLabel>ICMS (%)</FormLabel><FormControl><Input type="number" step="0.01" placeholder="0" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="ipiRate" render={({ field }) => (
+                  <FormItem><FormLabel>IPI (%)</FormLabel><FormControl><Input type="number" step="0.01" placeholder="0" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+                )} />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                ISS sobre mão de obra, deslocamento e terceiros e ICMS sobre peças são destacados como inclusos no preço; o IPI das peças é somado ao total. Orçamentos guardam as alíquotas de quando foram criados.
+              </p>
+
+              <h3 className="text-md font-semibold pt-2 border-b pb-1 font-headline">Acompanhamento de Orçamentos</h3>
+              <FormField control={form.control} name="budgetFollowUpDays" render={({ field }) => (
+                <FormItem className="md:w-1/3">
+                  <FormLabel>Cobrar Retorno Após (dias)</FormLabel>
+                  <FormControl><Input type="number" step="1" min={0} placeholder={String(DEFAULT_BUDGET_FOLLOW_UP_DAYS)} {...field} value={field.value || ""} /></FormControl>
+                  <FormDescription>Orçamentos enviados sem resposta entram na lista de acompanhamento do painel após esse prazo. Em branco: {DEFAULT_BUDGET_FOLLOW_UP_DAYS} dias.</FormDescription>
+                  <FormMessage />
+                </FormItem>
               )} />
-            </div>
-            <FormField control={form.control} name="bankPixKey" render={({ field }) => (
-              <FormItem><FormLabel>Chave PIX</FormLabel><FormControl><Input {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
-            )} />
+            </fieldset>
           </form>
         </Form>
       </FormModal>
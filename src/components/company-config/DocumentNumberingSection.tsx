@@ -0,0 +1,338 @@
+"use client";
+
+import { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import type * as z from "zod";
+import { format, parseISO, isValid } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Hash, Loader2, AlertTriangle, SearchCheck, CheckCircle2, RefreshCw, Save } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import type { CompanyId, DocumentCounter, DocumentNumberDuplicate, NumberedDocumentType } from "@/types";
+import { DocumentNumberingSettingsSchema, GOLDMAQ_COMPANY_ID, companyDisplayOptions, numberedDocumentTypeLabels, numberedDocumentTypeOptions } from "@/types";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
+import type { Permission } from "@/lib/permissions";
+import { db } from "@/lib/firebase";
+import {
+  fetchDocumentCounters, saveDocumentNumberingSettings, findDuplicateDocumentNumbers, reissueDocumentNumber,
+  previewNextDocumentNumber, queryKeys,
+} from "@/lib/repositories";
+
+type NumberingFormValues = z.infer<typeof DocumentNumberingSettingsSchema>;
+
+// Renumbering edits the document itself, so it needs the same permission as editing it.
+const documentManagePermission: Record<NumberedDocumentType, Permission> = {
+  serviceOrder: "serviceOrders:manage",
+  budget: "budgets:manage",
+  partsRequisition: "partsTriage:work",
+  rentalContract: "rentals:manage",
+  invoice: "billing:manage",
+  boleto: "billing:manage",
+  boletoRemittance: "billing:manage",
+};
+
+const documentQueryKey: Record<NumberedDocumentType, readonly string[]> = {
+  serviceOrder: queryKeys.serviceOrders.all,
+  budget: queryKeys.budgets.all,
+  partsRequisition: queryKeys.partsRequisitions.all,
+  rentalContract: queryKeys.rentalContracts.all,
+  invoice: queryKeys.invoices.all,
+  boleto: queryKeys.boletos.all,
+  boletoRemittance: queryKeys.boletoRemittances.all,
+};
+
+const formatCreatedDate = (value: string | null): string => {
+  if (!value) return "Data desconhecida";
+  const date = parseISO(value);
+  return isValid(date) ? format(date, "dd/MM/yyyy HH:mm", { locale: ptBR }) : "Data desconhecida";
+};
+
+function CounterSettingsCard({ counter, canManage }: { counter: DocumentCounter; canManage: boolean }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const form = useForm<NumberingFormValues>({
+    resolver: zodResolver(DocumentNumberingSettingsSchema),
+    values: {
+      prefix: counter.prefix,
+      padding: counter.padding,
+      yearlyReset: counter.yearlyReset,
+      lastNumber: counter.initialized ? counter.lastNumber : undefined,
+    },
+  });
+
+  const watched = form.watch();
+  // Inputs hold strings until the resolver coerces them on submit.
+  const previewLastNumber = parseInt(String(watched.lastNumber ?? ""), 10);
+  const nextNumberPreview = previewNextDocumentNumber({
+    ...counter,
+    prefix: watched.prefix ?? "",
+    padding: Math.min(Math.max(Number(watched.padding) || 0, 0), 8),
+    yearlyReset: !!watched.yearlyReset,
+    lastNumber: isNaN(previewLastNumber) ? counter.lastNumber : previewLastNumber,
+  });
+
+  // Left untouched, the last number follows the format: the current sequence,
+  // or the highest number already issued in a new format.
+  const isLastNumberDirty = !!form.formState.dirtyFields.lastNumber;
+  const formatChanged = (watched.prefix ?? "") !== counter.prefix || !!watched.yearlyReset !== counter.yearlyReset;
+
+  const saveMutation = useMutation({
+    mutationFn: (values: NumberingFormValues) =>
+      saveDocumentNumberingSettings(counter.documentType, counter.companyId, { ...values, lastNumber: isLastNumberDirty ? values.lastNumber : undefined }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.counters.all });
+      toast({ title: "Numeração Atualizada", description: `A numeração de ${numberedDocumentTypeLabels[counter.documentType]} foi salva.` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Salvar Numeração", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="flex flex-col">
+      <CardHeader>
+        <CardTitle className="font-headline text-lg">{numberedDocumentTypeLabels[counter.documentType]}</CardTitle>
+        <CardDescription>
+          {!counter.initialized && isNaN(previewLastNumber) ? (
+            "Ainda não utilizada: o primeiro número continua a sequência dos documentos existentes."
+          ) : formatChanged && !isLastNumberDirty ? (
+            "Novo formato: continua do maior número já emitido nele."
+          ) : (
+            <>Próximo número: <span className="font-semibold text-foreground">{nextNumberPreview}</span></>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <Form {...form}>
+        <form
+          onSubmit={form.handleSubmit(values => saveMutation.mutate(values))}
+          className="flex flex-1 flex-col"
+        >
+          <CardContent className="flex-1">
+            <fieldset disabled={!canManage || saveMutation.isPending} className="space-y-4">
+              <FormField control={form.control} name="prefix" render={({ field }) => (
+                <FormItem><FormLabel>Prefixo</FormLabel><FormControl><Input placeholder="Ex: OS-" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+              )} />
+              <FormField control={form.control} name="padding" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Dígitos</FormLabel>
+                  <FormControl><Input type="number" min={0} max={8} {...field} value={field.value ?? ""} /></FormControl>
+                  <FormDescription>Completa com zeros à esquerda (0 = sem preenchimento).</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="yearlyReset" render={({ field }) => (
+                <FormItem className="flex flex-row items-center space-x-2 space-y-0">
+                  <FormControl><Checkbox checked={!!field.value} onCheckedChange={checked => field.onChange(checked === true)} /></FormControl>
+                  <FormLabel className="font-normal">Incluir o ano e reiniciar a cada ano</FormLabel>
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="lastNumber" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Último número emitido</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder={counter.initialized ? undefined : "Calculado pelos documentos existentes"}
+                      {...field}
+                      value={field.value ?? ""}
+                    />
+                  </FormControl>
+                  <FormDescription>Reduzir este valor pode gerar números repetidos.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )} />
+            </fieldset>
+          </CardContent>
+          {canManage && (
+            <CardFooter className="border-t pt-4">
+              <Button type="submit" size="sm" disabled={saveMutation.isPending || !form.formState.isDirty}>
+                {saveMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Salvar
+              </Button>
+            </CardFooter>
+          )}
+        </form>
+      </Form>
+    </Card>
+  );
+}
+
+function DuplicateNumbersChecker({ companyId }: { companyId: CompanyId }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const repairableTypes = numberedDocumentTypeOptions.filter(type => can(documentManagePermission[type]));
+
+  const [documentType, setDocumentType] = useState<NumberedDocumentType | undefined>(repairableTypes[0]);
+  const [hasChecked, setHasChecked] = useState(false);
+
+  const { data: duplicates = [], isFetching, isError, error, refetch } = useQuery<DocumentNumberDuplicate[], Error>({
+    queryKey: queryKeys.counters.duplicates(documentType ?? "", companyId),
+    queryFn: () => findDuplicateDocumentNumbers(documentType!, companyId),
+    enabled: !!db && !!documentType && hasChecked,
+    staleTime: 0,
+  });
+
+  const reissueMutation = useMutation({
+    mutationFn: ({ documentId }: { documentId: string }) => reissueDocumentNumber(documentType!, documentId),
+    onSuccess: (newNumber) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.counters.all });
+      queryClient.invalidateQueries({ queryKey: documentQueryKey[documentType!] });
+      toast({ title: "Documento Renumerado", description: `O documento recebeu o número ${newNumber}.` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Renumerar", description: err.message, variant: "destructive" });
+    },
+  });
+
+  if (repairableTypes.length === 0) return null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="font-headline text-lg flex items-center">
+          <SearchCheck className="mr-2 h-5 w-5 text-primary" /> Verificar Números Duplicados
+        </CardTitle>
+        <CardDescription>
+          Procura documentos que receberam o mesmo número. O mais antigo mantém o número; os demais podem ser renumerados pela sequência de {companyDisplayOptions.find(c => c.id === companyId)?.name}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+          <div className="space-y-2 sm:w-64">
+            <Label>Tipo de documento</Label>
+            <Select value={documentType} onValueChange={value => { setDocumentType(value as NumberedDocumentType); setHasChecked(false); }}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {repairableTypes.map(type => (
+                  <SelectItem key={type} value={type}>{numberedDocumentTypeLabels[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="button" variant="outline" onClick={() => (hasChecked ? refetch() : setHasChecked(true))} disabled={isFetching}>
+            {isFetching ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <SearchCheck className="mr-2 h-4 w-4" />}
+            Verificar
+          </Button>
+        </div>
+
+        {isError && (
+          <p className="flex items-center text-sm text-destructive">
+            <AlertTriangle className="mr-2 h-4 w-4" /> Erro ao verificar: {error?.message}
+          </p>
+        )}
+
+        {hasChecked && !isFetching && !isError && duplicates.length === 0 && (
+          <p className="flex items-center text-sm text-green-600">
+            <CheckCircle2 className="mr-2 h-4 w-4" /> Nenhum número duplicado encontrado.
+          </p>
+        )}
+
+        {duplicates.length > 0 && (
+          <ul className="space-y-3">
+            {duplicates.map(duplicate => (
+              <li key={duplicate.number} className="rounded-md border p-3">
+                <p className="text-sm font-semibold flex items-center">
+                  <Hash className="mr-1 h-4 w-4 text-destructive" /> {duplicate.number}
+                  <span className="ml-2 font-normal text-muted-foreground">({duplicate.documents.length} documentos)</span>
+                </p>
+                <ul className="mt-2 space-y-1">
+                  {duplicate.documents.map((document, index) => (
+                    <li key={document.id} className="flex items-center justify-between gap-2 text-xs">
+                      <span className="truncate">
+                        {formatCreatedDate(document.createdDate)} <span className="text-muted-foreground">· {document.id}</span>
+                      </span>
+                      {index === 0 ? (
+                        <span className="text-muted-foreground">Mantém o número</span>
+                      ) : (
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          onClick={() => reissueMutation.mutate({ documentId: document.id }, { onSuccess: () => refetch() })}
+                          disabled={reissueMutation.isPending}
+                        >
+                          {reissueMutation.isPending && reissueMutation.variables?.documentId === document.id
+                            ? <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                            : <RefreshCw className="mr-1 h-3 w-3" />}
+                          Renumerar
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function DocumentNumberingSection() {
+  const { can } = useAuth();
+  const canManage = can("companyConfig:manage");
+  const [companyId, setCompanyId] = useState<CompanyId>(GOLDMAQ_COMPANY_ID);
+
+  const { data: counters = [], isLoading, isError, error } = useQuery<DocumentCounter[], Error>({
+    queryKey: queryKeys.counters.byCompany(companyId),
+    queryFn: () => fetchDocumentCounters(companyId),
+    enabled: !!db,
+  });
+
+  return (
+    <section className="mt-10">
+      <div className="mb-4 flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold font-headline flex items-center">
+            <Hash className="mr-2 h-5 w-5 text-primary" /> Numeração de Documentos
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Cada empresa tem sua própria sequência para OS, orçamentos e requisições. O número é reservado no momento em que o documento é salvo.
+          </p>
+        </div>
+        <div className="space-y-2 sm:w-56">
+          <Label>Empresa</Label>
+          <Select value={companyId} onValueChange={value => setCompanyId(value as CompanyId)}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {companyDisplayOptions.map(option => (
+                <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8 text-muted-foreground">
+          <Loader2 className="mr-2 h-5 w-5 animate-spin" /> Carregando numeração...
+        </div>
+      ) : isError ? (
+        <p className="flex items-center text-destructive">
+          <AlertTriangle className="mr-2 h-5 w-5" /> Erro ao carregar numeração: {error?.message}
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {counters.map(counter => (
+            <CounterSettingsCard key={counter.id} counter={counter} canManage={canManage} />
+          ))}
+        </div>
+      )}
+
+      {canManage && <DuplicateNumbersChecker companyId={companyId} />}
+    </section>
+  );
+}
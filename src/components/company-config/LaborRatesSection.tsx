@@ -0,0 +1,111 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Clock, Loader2, AlertTriangle, Save } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { LaborRate } from "@/types";
+import { roleOptionsList } from "@/types";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { db } from "@/lib/firebase";
+import { fetchLaborRates, saveLaborRate, queryKeys } from "@/lib/repositories";
+
+type RoleOption = typeof roleOptionsList[number];
+
+function LaborRateRow({ role, rate, canManage }: { role: RoleOption; rate: number | undefined; canManage: boolean }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [value, setValue] = useState(rate !== undefined ? String(rate) : "");
+
+  useEffect(() => {
+    setValue(rate !== undefined ? String(rate) : "");
+  }, [rate]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      return saveLaborRate({ role, hourlyRate: Number(value.replace(",", ".")) });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.laborRates.all });
+      toast({ title: "Valor Hora Atualizado", description: `O valor hora de ${role} foi salvo.` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Salvar Valor Hora", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const isUnchanged = value === (rate !== undefined ? String(rate) : "");
+
+  return (
+    <div className="flex items-end gap-2">
+      <div className="flex-1 space-y-1">
+        <Label htmlFor={`labor-rate-${role}`}>{role}</Label>
+        <Input
+          id={`labor-rate-${role}`}
+          type="number"
+          step="0.01"
+          min="0"
+          placeholder="R$ / hora"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          disabled={!canManage}
+        />
+      </div>
+      {canManage && (
+        <Button type="button" variant="outline" size="icon" aria-label={`Salvar valor hora de ${role}`}
+          onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || isUnchanged || value === ""}>
+          {saveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export function LaborRatesSection() {
+  const { can } = useAuth();
+  const canManage = can("companyConfig:manage");
+
+  const { data: rates = [], isLoading, isError, error } = useQuery<LaborRate[], Error>({
+    queryKey: queryKeys.laborRates.all,
+    queryFn: fetchLaborRates,
+    enabled: !!db,
+  });
+
+  return (
+    <section className="mt-10">
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-headline text-xl flex items-center">
+            <Clock className="mr-2 h-5 w-5 text-primary" /> Valor Hora por Função
+          </CardTitle>
+          <CardDescription>
+            Custo da hora de mão de obra usado nos apontamentos das OS. O valor é gravado no apontamento ao encerrá-lo; alterações não mudam apontamentos já encerrados.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center text-muted-foreground">
+              <Loader2 className="mr-2 h-5 w-5 animate-spin" /> Carregando valores...
+            </div>
+          ) : isError ? (
+            <p className="flex items-center text-destructive">
+              <AlertTriangle className="mr-2 h-5 w-5" /> Erro ao carregar valores: {error?.message}
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              {roleOptionsList.map(role => (
+                <LaborRateRow key={role} role={role} rate={rates.find(rate => rate.role === role)?.hourlyRate} canManage={canManage} />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </section>
+  );
+}
@@ -18,57 +18,17 @@ import { PageHeader } from "@/components/shared/PageHeader";
 import { DataTablePlaceholder } from "@/components/shared/DataTablePlaceholder";
 import { FormModal } from "@/components/shared/FormModal";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
 import { db } from "@/lib/firebase";
-import { collection, getDocs, addDoc, updateDoc, deleteDoc, doc, query, where, orderBy } from "firebase/firestore";
+import { fetchCustomers, fetchTechnicians, fetchMaquinas, customerCnpjExists, createCustomer, updateCustomer, deleteCustomer, queryKeys } from "@/lib/repositories";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Textarea } from "../ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area"; // Import ScrollArea
 import { toTitleCase, getWhatsAppNumber, formatPhoneNumberForInputDisplay, formatAddressForDisplay, generateGoogleMapsUrl } from "@/lib/utils"; // Import centralized utils
 
-const FIRESTORE_CUSTOMER_COLLECTION_NAME = "clientes";
-const FIRESTORE_TECHNICIAN_COLLECTION_NAME = "tecnicos";
-const FIRESTORE_EQUIPMENT_COLLECTION_NAME = "equipamentos";
-
 const NO_TECHNICIAN_SELECT_ITEM_VALUE = "_NO_TECHNICIAN_SELECTED_";
 const LOADING_TECHNICIANS_SELECT_ITEM_VALUE = "_LOADING_TECHS_";
 
-async function fetchCustomers(): Promise<Customer[]> {
-  if (!db) {
-    console.error("fetchCustomers: Firebase DB is not available.");
-    throw new Error("Firebase DB is not available");
-  }
-  const q = query(collection(db!, FIRESTORE_CUSTOMER_COLLECTION_NAME), orderBy("name", "asc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Customer));
-}
-
-async function fetchTechnicians(): Promise<Technician[]> {
-  if (!db) {
-    console.error("fetchTechnicians: Firebase DB is not available.");
-    throw new Error("Firebase DB is not available");
-  }
-  const q = query(collection(db!, FIRESTORE_TECHNICIAN_COLLECTION_NAME), orderBy("name", "asc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Technician));
-}
-
-async function fetchMaquinas(): Promise<Maquina[]> {
-  if (!db) {
-    console.error("fetchMaquinas: Firebase DB is not available.");
-    throw new Error("Firebase DB is not available");
-  }
-  const q = query(collection(db!, FIRESTORE_EQUIPMENT_COLLECTION_NAME), orderBy("brand", "asc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => {
-    const data = docSnap.data();
-    return {
-      id: docSnap.id,
-      ...data,
-      fleetNumber: data.fleetNumber || null, // Ensure fleetNumber is handled
-    } as Maquina;
-  });
-}
-
 interface ViaCepResponse {
   cep: string;
   logradouro: string;
@@ -101,6 +61,8 @@ interface BrasilApiResponseCnpj {
 export function CustomerClientPage() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canManage = can("customers:manage");
 
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
@@ -131,13 +93,13 @@ export function CustomerClientPage() {
   });
 
   const { data: customers = [], isLoading: isLoadingCustomers, isError: isErrorCustomers, error: errorCustomers } = useQuery<Customer[], Error>({
-    queryKey: [FIRESTORE_CUSTOMER_COLLECTION_NAME],
+    queryKey: queryKeys.customers.all,
     queryFn: fetchCustomers,
     enabled: !!db,
   });
 
   const { data: technicians = [], isLoading: isLoadingTechnicians } = useQuery<Technician[], Error>({
-    queryKey: [FIRESTORE_TECHNICIAN_COLLECTION_NAME],
+    queryKey: queryKeys.technicians.all,
     queryFn: fetchTechnicians,
     enabled: !!db,
   });
@@ -148,7 +110,7 @@ export function CustomerClientPage() {
   }, [technicians]);
 
   const { data: maquinaList = [], isLoading: isLoadingMaquinas, isError: isErrorMaquinas, error: errorMaquinas } = useQuery<Maquina[], Error>({
-    queryKey: [FIRESTORE_EQUIPMENT_COLLECTION_NAME],
+    queryKey: queryKeys.maquinas.all,
     queryFn: fetchMaquinas,
     enabled: !!db,
   });
@@ -182,37 +144,17 @@ export function CustomerClientPage() {
     );
   }
 
-  const checkCnpjExists = async (cnpj: string, currentCustomerId?: string): Promise<boolean> => {
-    if (!db) return false;
-    const cleanedCnpj = cnpj.replace(/\D/g, "");
-    const q = query(collection(db, FIRESTORE_CUSTOMER_COLLECTION_NAME), where("cnpj", "==", cleanedCnpj));
-    const querySnapshot = await getDocs(q);
-    if (querySnapshot.empty) {
-      return false;
-    }
-    // If updating, check if the found CNPJ belongs to a different customer
-    if (currentCustomerId) {
-      return querySnapshot.docs.some(doc => doc.id !== currentCustomerId);
-    }
-    return true; // Found for a new customer
-  };
-
   const addCustomerMutation = useMutation({
     mutationFn: async (newCustomerData: z.infer<typeof CustomerSchema>) => {
       if (!db) throw new Error("Conexão com Firebase não disponível.");
-      const cnpjExists = await checkCnpjExists(newCustomerData.cnpj);
+      const cnpjExists = await customerCnpjExists(newCustomerData.cnpj);
       if (cnpjExists) {
         throw new Error(`Já existe um cliente cadastrado com o CNPJ: ${newCustomerData.cnpj}`);
       }
-      const dataToSave = {
-        ...newCustomerData,
-        cnpj: newCustomerData.cnpj.replace(/\D/g, ""), // Save cleaned CNPJ
-      };
-      const docRef = await addDoc(collection(db!, FIRESTORE_CUSTOMER_COLLECTION_NAME), dataToSave);
-      return docRef;
+      return createCustomer(newCustomerData);
     },
-    onSuccess: (docRef, variables) => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_CUSTOMER_COLLECTION_NAME] });
+    onSuccess: (newCustomerId, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
       toast({ title: "Cliente Criado", description: `${variables.name} foi adicionado.` });
       closeModal();
     },
@@ -229,20 +171,15 @@ export function CustomerClientPage() {
 
       const originalCustomer = customers.find(c => c.id === id);
       if (originalCustomer && dataToUpdate.cnpj !== originalCustomer.cnpj) {
-        const cnpjExists = await checkCnpjExists(dataToUpdate.cnpj, id);
+        const cnpjExists = await customerCnpjExists(dataToUpdate.cnpj, id);
         if (cnpjExists) {
           throw new Error(`O CNPJ ${dataToUpdate.cnpj} já está em uso por outro cliente.`);
         }
       }
-      const dataToSave = {
-        ...dataToUpdate,
-        cnpj: dataToUpdate.cnpj.replace(/\D/g, ""), // Save cleaned CNPJ
-      };
-      const customerRef = doc(db!, FIRESTORE_CUSTOMER_COLLECTION_NAME, id);
-      await updateDoc(customerRef, dataToSave);
+      await updateCustomer(id, dataToUpdate);
     },
     onSuccess: (_, variables) => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_CUSTOMER_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
       toast({ title: "Cliente Atualizado", description: `${variables.name} foi atualizado.` });
       closeModal();
     },
@@ -255,10 +192,10 @@ export function CustomerClientPage() {
     mutationFn: async (customerId: string) => {
       if (!db) throw new Error("Conexão com Firebase não disponível.");
       if (!customerId) throw new Error("ID do cliente é necessário para exclusão.");
-      await deleteDoc(doc(db!, FIRESTORE_CUSTOMER_COLLECTION_NAME, customerId));
+      await deleteCustomer(customerId);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_CUSTOMER_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
       toast({ title: "Cliente Excluído", description: `O cliente foi excluído.` });
       closeModal();
     },
@@ -448,11 +385,11 @@ export function CustomerClientPage() {
     <>
       <PageHeader
         title=""
-        actions={
+        actions={canManage ? (
           <Button onClick={() => openModal()} className="bg-primary hover:bg-primary/90" disabled={isMutating || deleteCustomerMutation.isPending}>
             <PlusCircle className="mr-2 h-4 w-4" /> Adicionar Cliente
           </Button>
-        }
+        ) : undefined}
       />
       <p className="text-muted-foreground text-sm mb-6 -mt-4">
         Centralize o cadastro e gerencie suas informações de contato. Adicione, edite e visualize informações e máquinas vinculadas.
@@ -475,8 +412,8 @@ export function CustomerClientPage() {
           icon={Users}
           title="Nenhum Cliente Ainda"
           description="Comece adicionando seu primeiro cliente."
-          buttonLabel="Adicionar Cliente"
-          onButtonClick={() => openModal()}
+          buttonLabel={canManage ? "Adicionar Cliente" : undefined}
+          onButtonClick={canManage ? () => openModal() : undefined}
         />
       ) : filteredCustomers.length === 0 ? (
         <div className="text-center py-10">
@@ -649,10 +586,10 @@ export function CustomerClientPage() {
         formId="customer-form"
         isSubmitting={isMutating}
         editingItem={editingCustomer}
-        onDeleteConfirm={editingCustomer ? handleModalDeleteConfirm : undefined}
+        onDeleteConfirm={canManage && editingCustomer ? handleModalDeleteConfirm : undefined}
         isDeleting={deleteCustomerMutation.isPending}
         isEditMode={isEditMode}
-        onEditModeToggle={() => setIsEditMode(true)}
+        onEditModeToggle={canManage ? () => setIsEditMode(true) : undefined}
         deleteButtonLabel="Excluir Cliente"
       >
         <Form {...form}>
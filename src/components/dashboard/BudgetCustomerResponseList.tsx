@@ -0,0 +1,95 @@
+"use client";
+
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CheckCircle2, Loader2, UserCheck } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import type { Budget, Customer } from "@/types";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { db } from "@/lib/firebase";
+import { fetchBudgetsWithUnhandledResponse, handleBudgetCustomerResponse, queryKeys } from "@/lib/repositories";
+import { getBudgetDisplayNumber } from "@/lib/budget-revisions";
+import { cn, formatCurrency, formatDateForDisplay, toTitleCase } from "@/lib/utils";
+
+interface BudgetCustomerResponseListProps {
+  customers: Customer[];
+}
+
+// Answers given on the approval link move the linked OS only once confirmed
+// here or on the Budgets page. Hidden while there is nothing to confirm.
+export function BudgetCustomerResponseList({ customers }: BudgetCustomerResponseListProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canManageBudgets = can("budgets:manage");
+
+  const { data: budgets = [] } = useQuery<Budget[], Error>({
+    queryKey: queryKeys.budgets.unhandledResponses,
+    queryFn: fetchBudgetsWithUnhandledResponse,
+    enabled: !!db,
+  });
+
+  const handleResponseMutation = useMutation({
+    mutationFn: async (budget: Budget) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      return { budget, movedTo: await handleBudgetCustomerResponse(budget) };
+    },
+    onSuccess: ({ budget, movedTo }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgets.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.serviceOrders.all });
+      toast({
+        title: "Resposta Confirmada",
+        description: movedTo
+          ? `Resposta ao orçamento ${getBudgetDisplayNumber(budget)} confirmada; OS movida para "${movedTo}".`
+          : `Resposta ao orçamento ${getBudgetDisplayNumber(budget)} confirmada.`,
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Confirmar Resposta", description: `Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const responses = budgets.filter(budget => budget.customerResponse);
+  if (responses.length === 0) return null;
+
+  return (
+    <section>
+      <h2 className="text-xl font-headline font-semibold flex items-center mb-4">
+        <UserCheck className="mr-2 h-5 w-5 text-primary" /> Respostas de Clientes a Confirmar
+      </h2>
+      <Card>
+        <CardContent className="p-0">
+          <ul className="divide-y text-sm">
+            {responses.map(budget => {
+              const response = budget.customerResponse!;
+              return (
+                <li key={budget.id} className="flex flex-wrap items-center justify-between gap-2 px-4 py-2">
+                  <Link href={`/budgets?openBudgetId=${budget.id}`} className="font-medium hover:underline">
+                    {getBudgetDisplayNumber(budget)}
+                    <span className="text-muted-foreground font-normal"> · {toTitleCase(customers.find(customer => customer.id === budget.customerId)?.name) || "Cliente não encontrado"}</span>
+                  </Link>
+                  <span>{formatCurrency(budget.totalAmount || 0)}</span>
+                  <span className="text-muted-foreground">
+                    <span className={cn("font-semibold", response.decision === "Aprovado" ? "text-green-600" : "text-red-600")}>{response.decision}</span>
+                    {` por ${response.name} em ${formatDateForDisplay(response.respondedAt)}`}
+                  </span>
+                  {canManageBudgets && (
+                    <Button variant="outline" size="sm" onClick={() => handleResponseMutation.mutate(budget)} disabled={handleResponseMutation.isPending}>
+                      {handleResponseMutation.isPending && handleResponseMutation.variables?.id === budget.id
+                        ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        : <CheckCircle2 className="mr-2 h-4 w-4" />}
+                      Confirmar Resposta
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </CardContent>
+      </Card>
+    </section>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { BellRing, Loader2, PhoneCall } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import type { Budget, Company, Customer } from "@/types";
+import { GOLDMAQ_COMPANY_ID } from "@/types";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { db } from "@/lib/firebase";
+import { fetchBudgetsAwaitingAnswer, registerBudgetFollowUp, queryKeys } from "@/lib/repositories";
+import { getBudgetFollowUpDays, getBudgetFollowUps } from "@/lib/budget-funnel";
+import { getBudgetDisplayNumber } from "@/lib/budget-revisions";
+import { formatCurrency, formatDateForDisplay, toTitleCase } from "@/lib/utils";
+
+interface BudgetFollowUpListProps {
+  customers: Customer[];
+  companies: Company[];
+}
+
+// Reads only the sent budgets still valid, however many budgets there are.
+export function BudgetFollowUpList({ customers, companies }: BudgetFollowUpListProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canManageBudgets = can("budgets:manage");
+
+  const { data: budgets = [] } = useQuery<Budget[], Error>({
+    queryKey: queryKeys.budgets.awaitingAnswer,
+    queryFn: fetchBudgetsAwaitingAnswer,
+    enabled: !!db,
+  });
+
+  const followUpMutation = useMutation({
+    mutationFn: async (budget: Budget) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      await registerBudgetFollowUp(budget.id);
+      return budget;
+    },
+    onSuccess: (budget) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgets.all });
+      toast({ title: "Contato Registrado", description: `O orçamento ${getBudgetDisplayNumber(budget)} sai da lista até o próximo prazo de retorno.` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Registrar Contato", description: `Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const followUps = getBudgetFollowUps(budgets, budget =>
+    getBudgetFollowUpDays(companies.find(company => company.id === (budget.companyId ?? GOLDMAQ_COMPANY_ID)))
+  );
+
+  return (
+    <section>
+      <h2 className="text-xl font-headline font-semibold flex items-center mb-4">
+        <BellRing className="mr-2 h-5 w-5 text-primary" /> Orçamentos Aguardando Retorno
+      </h2>
+      <Card>
+        <CardContent className="p-0">
+          {followUps.length === 0 ? (
+            <p className="text-sm text-muted-foreground p-4">Nenhum orçamento enviado esperando contato.</p>
+          ) : (
+            <ul className="divide-y text-sm">
+              {followUps.map(({ budget, lastContactDate, daysWithoutAnswer, daysSinceContact }) => (
+                <li key={budget.id} className="flex flex-wrap items-center justify-between gap-2 px-4 py-2">
+                  <Link href={`/budgets?openBudgetId=${budget.id}`} className="font-medium hover:underline">
+                    {getBudgetDisplayNumber(budget)}
+                    <span className="text-muted-foreground font-normal"> · {toTitleCase(customers.find(customer => customer.id === budget.customerId)?.name) || "Cliente não encontrado"}</span>
+                  </Link>
+                  <span>{formatCurrency(budget.totalAmount || 0)}</span>
+                  <span className="text-muted-foreground">
+                    Enviado há {daysWithoutAnswer} {daysWithoutAnswer === 1 ? "dia" : "dias"}
+                    {(budget.followUpCount ?? 0) > 0 && ` · último contato em ${formatDateForDisplay(lastContactDate)}`}
+                    {budget.validUntilDate && ` · válido até ${formatDateForDisplay(budget.validUntilDate)}`}
+                  </span>
+                  <span className="flex items-center gap-2">
+                    <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-yellow-100 text-yellow-700">
+                      {daysSinceContact} {daysSinceContact === 1 ? "dia" : "dias"} sem contato
+                    </span>
+                    {canManageBudgets && (
+                      <Button variant="outline" size="sm" onClick={() => followUpMutation.mutate(budget)} disabled={followUpMutation.isPending}>
+                        {followUpMutation.isPending && followUpMutation.variables?.id === budget.id
+                          ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          : <PhoneCall className="mr-2 h-4 w-4" />}
+                        Registrar Contato
+                      </Button>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </section>
+  );
+}
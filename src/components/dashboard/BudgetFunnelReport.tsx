@@ -0,0 +1,131 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Filter } from "lucide-react";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { Budget, Customer } from "@/types";
+import type { BudgetFunnelRow } from "@/lib/budget-funnel";
+import { budgetMonthGroup, computeBudgetFunnel, countBudgetRefusalReasons } from "@/lib/budget-funnel";
+import { cn, formatCurrency, toTitleCase } from "@/lib/utils";
+
+type FunnelGrouping = "month" | "customer";
+
+interface BudgetFunnelReportProps {
+  budgets: Budget[];
+  customers: Customer[];
+}
+
+const formatPercent = (value: number | null) => value === null ? "-" : `${value.toLocaleString("pt-BR")}%`;
+const formatDays = (value: number | null) => value === null ? "-" : `${value.toLocaleString("pt-BR")} ${value === 1 ? "dia" : "dias"}`;
+
+function FunnelRowCells({ row }: { row: BudgetFunnelRow }) {
+  return (
+    <>
+      <TableCell className="text-right">{row.created}</TableCell>
+      <TableCell className="text-right">{row.sent}</TableCell>
+      <TableCell className="text-right text-green-700">{row.approved}</TableCell>
+      <TableCell className="text-right text-red-700">{row.refused}</TableCell>
+      <TableCell className="text-right text-muted-foreground">{row.expired}</TableCell>
+      <TableCell className="text-right font-medium">{formatPercent(row.conversionRate)}</TableCell>
+      <TableCell className="text-right">{formatDays(row.averageResponseDays)}</TableCell>
+      <TableCell className="text-right">{formatCurrency(row.approvedValue)}</TableCell>
+    </>
+  );
+}
+
+// Months newest first; customers with the most budgets first.
+export function BudgetFunnelReport({ budgets, customers }: BudgetFunnelReportProps) {
+  const [grouping, setGrouping] = useState<FunnelGrouping>("month");
+
+  const funnel = useMemo(() => {
+    const groupOf = grouping === "month"
+      ? budgetMonthGroup
+      : (budget: Budget) => ({
+        key: budget.customerId,
+        label: toTitleCase(customers.find(customer => customer.id === budget.customerId)?.name) || "Cliente não encontrado",
+      });
+    const { rows, total } = computeBudgetFunnel(budgets, groupOf);
+    const sortedRows = grouping === "month"
+      ? rows.sort((a, b) => b.key.localeCompare(a.key))
+      : rows.sort((a, b) => b.created - a.created || a.label.localeCompare(b.label));
+    return { rows: sortedRows, total };
+  }, [budgets, customers, grouping]);
+
+  const refusalReasons = useMemo(() => countBudgetRefusalReasons(budgets), [budgets]);
+  const refusedCount = refusalReasons.reduce((sum, entry) => sum + entry.count, 0);
+
+  if (budgets.length === 0) return null;
+
+  return (
+    <section>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-xl font-headline font-semibold flex items-center">
+          <Filter className="mr-2 h-5 w-5 text-primary" /> Funil de Orçamentos
+        </h2>
+        <Select value={grouping} onValueChange={(value) => setGrouping(value as FunnelGrouping)}>
+          <SelectTrigger className="w-[160px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="month">Por Mês</SelectItem>
+            <SelectItem value="customer">Por Cliente</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid grid-cols-1 xl:grid-cols-4 gap-4">
+        <Card className="xl:col-span-3">
+          <CardContent className="p-0 max-h-[28rem] overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{grouping === "month" ? "Mês de Criação" : "Cliente"}</TableHead>
+                  <TableHead className="text-right">Criados</TableHead>
+                  <TableHead className="text-right">Enviados</TableHead>
+                  <TableHead className="text-right">Aprovados</TableHead>
+                  <TableHead className="text-right">Recusados</TableHead>
+                  <TableHead className="text-right">Expirados</TableHead>
+                  <TableHead className="text-right">Conversão</TableHead>
+                  <TableHead className="text-right">Tempo de Resposta</TableHead>
+                  <TableHead className="text-right">Valor Aprovado</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {funnel.rows.map(row => (
+                  <TableRow key={row.key}>
+                    <TableCell className="font-medium capitalize">{row.label}</TableCell>
+                    <FunnelRowCells row={row} />
+                  </TableRow>
+                ))}
+                <TableRow className="bg-muted/50 font-semibold">
+                  <TableCell>{funnel.total.label}</TableCell>
+                  <FunnelRowCells row={funnel.total} />
+                </TableRow>
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4 space-y-2 text-sm">
+            <h3 className="font-semibold">Motivos de Recusa</h3>
+            {refusalReasons.length === 0 ? (
+              <p className="text-muted-foreground">Nenhum orçamento recusado.</p>
+            ) : (
+              <ul className="space-y-1">
+                {refusalReasons.map(entry => (
+                  <li key={entry.reason ?? "sem-motivo"} className={cn("flex justify-between gap-4", { "text-muted-foreground": !entry.reason })}>
+                    <span>{entry.reason ?? "Não informado"}</span>
+                    <span>{entry.count} ({formatPercent(Math.round(entry.count / refusedCount * 1000) / 10)})</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="text-xs text-muted-foreground pt-2">
+              Conversão: aprovados sobre enviados. Tempo de resposta: do envio até a aprovação ou recusa, nos orçamentos com as duas datas.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </section>
+  );
+}
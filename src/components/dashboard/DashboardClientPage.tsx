@@ -0,0 +1,283 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import {
+  Construction, ClipboardList, PackageCheck, FileText, CheckCircle,
+  Wrench as WrenchIcon, TrendingUp, TrendingDown, Banknote, FileCheck2, Trash2, Loader2, FileX2, Percent
+} from "lucide-react";
+import { KPICard } from '@/components/dashboard/KPICard';
+import { PreventiveMaintenanceDueList } from '@/components/dashboard/PreventiveMaintenanceDueList';
+import { BudgetFollowUpList } from '@/components/dashboard/BudgetFollowUpList';
+import { BudgetCustomerResponseList } from '@/components/dashboard/BudgetCustomerResponseList';
+import { BudgetFunnelReport } from '@/components/dashboard/BudgetFunnelReport';
+import { useAuth } from "@/components/auth/AuthProvider";
+import { db } from '@/lib/firebase';
+import type { Maquina, Budget, ServiceOrder, Customer, Company } from '@/types';
+import { formatCurrency } from '@/lib/utils';
+import { computeBudgetFunnel, isBudgetExpired } from '@/lib/budget-funnel';
+import {
+  fetchMaquinas, fetchBudgets, fetchServiceOrders, fetchServiceOrdersForTechnician, fetchCustomers, fetchCompanies, queryKeys,
+} from '@/lib/repositories';
+
+interface MaquinaRentalKPIs {
+  totalRentalValue: number;
+  highestRentalMachine?: { name: string; value: number; id: string };
+  lowestRentalMachine?: { name: string; value: number; id: string };
+}
+
+const normalizeStatusString = (str: string | undefined | null): string => {
+  if (!str) return "";
+  return str
+    .toLowerCase()
+    .normalize("NFD") // Normaliza para decompor acentos
+    .replace(/[\u0300-\u036f]/g, ""); // Remove diacríticos (acentos)
+};
+
+function getMaquinaKPIs(maquinas: Maquina[]): {
+  total: number;
+  disponivel: number;
+  locada: number;
+  manutencao: number;
+  sucata: number;
+} & MaquinaRentalKPIs {
+  let totalRentalValue = 0;
+  let highestRentalMachine: { name: string; value: number; id: string } | undefined = undefined;
+  let lowestRentalMachine: { name: string; value: number; id: string } | undefined = undefined;
+
+  maquinas.forEach(m => {
+    if (typeof m.monthlyRentalValue === 'number' && m.monthlyRentalValue > 0) {
+      totalRentalValue += m.monthlyRentalValue;
+
+      const machineName = `${m.brand} ${m.model} (${m.chassisNumber})`;
+
+      if (!highestRentalMachine || m.monthlyRentalValue > highestRentalMachine.value) {
+        highestRentalMachine = { name: machineName, value: m.monthlyRentalValue, id: m.id };
+      }
+      if (!lowestRentalMachine || m.monthlyRentalValue < lowestRentalMachine.value) {
+        lowestRentalMachine = { name: machineName, value: m.monthlyRentalValue, id: m.id };
+      }
+    }
+  });
+
+  const normalizedDisponivel = normalizeStatusString("Disponível");
+  const normalizedLocada = normalizeStatusString("Locada");
+  const normalizedManutencao = normalizeStatusString("Em Manutenção");
+  const normalizedSucata = normalizeStatusString("Sucata");
+
+  return {
+    total: maquinas.length,
+    disponivel: maquinas.filter(m => normalizeStatusString(m.operationalStatus) === normalizedDisponivel).length,
+    locada: maquinas.filter(m => normalizeStatusString(m.operationalStatus) === normalizedLocada).length,
+    manutencao: maquinas.filter(m => normalizeStatusString(m.operationalStatus) === normalizedManutencao).length,
+    sucata: maquinas.filter(m => normalizeStatusString(m.operationalStatus) === normalizedSucata).length,
+    totalRentalValue,
+    highestRentalMachine,
+    lowestRentalMachine,
+  };
+}
+
+// Expired budgets are no longer counted as pending.
+function getBudgetKPIs(budgets: Budget[]) {
+  const expiredBudgets = budgets.filter(b => isBudgetExpired(b));
+  const pendingBudgets = budgets.filter(b => (b.status === 'Pendente' || b.status === 'Enviado') && !isBudgetExpired(b));
+  const approvedBudgets = budgets.filter(b => b.status === 'Aprovado');
+  const funnel = computeBudgetFunnel(budgets, () => ({ key: "total", label: "Total" })).total;
+
+  return {
+    pendingCount: pendingBudgets.length,
+    pendingValue: pendingBudgets.reduce((sum, b) => sum + (b.totalAmount || 0), 0),
+    approvedCount: approvedBudgets.length,
+    approvedValue: approvedBudgets.reduce((sum, b) => sum + (b.totalAmount || 0), 0),
+    expiredCount: expiredBudgets.length,
+    expiredValue: expiredBudgets.reduce((sum, b) => sum + (b.totalAmount || 0), 0),
+    sentCount: funnel.sent,
+    conversionRate: funnel.conversionRate,
+    averageResponseDays: funnel.averageResponseDays,
+  };
+}
+
+function getServiceOrderKPIs(serviceOrders: ServiceOrder[]) {
+  const openOrders = serviceOrders.filter(
+    os => os.phase !== 'Concluída' && os.phase !== 'Cancelada'
+  );
+
+  return {
+    openCount: openOrders.length,
+  };
+}
+
+// Runs on the client so every read carries the signed-in user's credentials;
+// the security rules reject the anonymous reads a server component would make.
+export function DashboardClientPage() {
+  const { technician, can } = useAuth();
+  const canViewBudgets = can("budgets:view");
+  const canViewAllOrders = can("serviceOrders:viewAll");
+
+  const { data: maquinas = [], isLoading: isLoadingMaquinas } = useQuery<Maquina[], Error>({
+    queryKey: queryKeys.maquinas.all,
+    queryFn: fetchMaquinas,
+    enabled: !!db,
+  });
+
+  const { data: budgets = [], isLoading: isLoadingBudgets } = useQuery<Budget[], Error>({
+    queryKey: queryKeys.budgets.all,
+    queryFn: fetchBudgets,
+    enabled: !!db && canViewBudgets,
+  });
+
+  const { data: customers = [] } = useQuery<Customer[], Error>({
+    queryKey: queryKeys.customers.all,
+    queryFn: fetchCustomers,
+    enabled: !!db && canViewBudgets,
+  });
+
+  const { data: companies = [] } = useQuery<Company[], Error>({
+    queryKey: queryKeys.companies.all,
+    queryFn: fetchCompanies,
+    enabled: !!db && canViewBudgets,
+  });
+
+  const { data: serviceOrders = [], isLoading: isLoadingServiceOrders } = useQuery<ServiceOrder[], Error>({
+    queryKey: canViewAllOrders ? queryKeys.serviceOrders.all : queryKeys.serviceOrders.byTechnician(technician?.id),
+    queryFn: () => canViewAllOrders ? fetchServiceOrders() : fetchServiceOrdersForTechnician(technician!.id),
+    enabled: !!db && (canViewAllOrders || !!technician),
+  });
+
+  if (isLoadingMaquinas || isLoadingBudgets || isLoadingServiceOrders) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <p className="ml-2">Carregando indicadores...</p>
+      </div>
+    );
+  }
+
+  const maquinaKPIs = getMaquinaKPIs(maquinas);
+  const budgetKPIs = getBudgetKPIs(budgets);
+  const serviceOrderKPIs = getServiceOrderKPIs(serviceOrders);
+
+  return (
+    <div className="space-y-8">
+      <p className="text-muted-foreground text-sm mb-6">
+        Acompanhe os Indicadores Chave de Performance (KPIs) para uma visão geral do estado atual das suas operações.
+      </p>
+      <section>
+        <h2 className="text-xl font-headline font-semibold mb-4">Indicadores Chave</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 mb-8">
+          <KPICard
+            title="Total de Máquinas"
+            value={maquinaKPIs.total}
+            icon={Construction}
+            href="/maquinas"
+          />
+          <KPICard
+            title="Máquinas Disponíveis"
+            value={maquinaKPIs.disponivel}
+            icon={CheckCircle}
+            iconColor="text-green-500"
+            href="/maquinas?status=Disponível"
+          />
+          <KPICard
+            title="Máquinas Locadas"
+            value={maquinaKPIs.locada}
+            icon={PackageCheck}
+            iconColor="text-blue-500"
+            href="/maquinas?status=Locada"
+          />
+          <KPICard
+            title="Máquinas em Manutenção"
+            value={maquinaKPIs.manutencao}
+            icon={WrenchIcon}
+            iconColor="text-yellow-500"
+            href="/maquinas?status=Em Manutenção"
+          />
+          <KPICard
+            title="Máquinas em Sucata"
+            value={maquinaKPIs.sucata}
+            icon={Trash2}
+            iconColor="text-red-500"
+            href="/maquinas?status=Sucata"
+          />
+          <KPICard
+              title="Soma Mensal Aluguéis Máquinas"
+              value={formatCurrency(maquinaKPIs.totalRentalValue)}
+              icon={Banknote}
+              iconColor="text-green-600"
+              href="/maquinas"
+          />
+          {maquinaKPIs.highestRentalMachine && (
+              <KPICard
+                  title="Maior Aluguel Mensal"
+                  value={formatCurrency(maquinaKPIs.highestRentalMachine.value)}
+                  icon={TrendingUp}
+                  iconColor="text-emerald-500"
+                  additionalInfo={<span className="text-xs">{maquinaKPIs.highestRentalMachine.name}</span>}
+                  href={`/maquinas?openMaquinaId=${maquinaKPIs.highestRentalMachine.id}`}
+              />
+          )}
+          {maquinaKPIs.lowestRentalMachine && (
+              <KPICard
+                  title="Menor Aluguel Mensal"
+                  value={formatCurrency(maquinaKPIs.lowestRentalMachine.value)}
+                  icon={TrendingDown}
+                  iconColor="text-amber-600"
+                  additionalInfo={<span className="text-xs">{maquinaKPIs.lowestRentalMachine.name}</span>}
+                  href={`/maquinas?openMaquinaId=${maquinaKPIs.lowestRentalMachine.id}`}
+              />
+          )}
+          {canViewBudgets && (
+            <>
+              <KPICard
+                title="Orçamentos Pendentes"
+                value={budgetKPIs.pendingCount}
+                icon={FileText}
+                iconColor="text-yellow-500"
+                additionalInfo={<span className="text-sm font-semibold">{formatCurrency(budgetKPIs.pendingValue)}</span>}
+                href="/budgets?status=Pendente"
+              />
+              <KPICard
+                title="Orçamentos Aprovados"
+                value={budgetKPIs.approvedCount}
+                icon={FileCheck2}
+                iconColor="text-green-500"
+                additionalInfo={<span className="text-sm font-semibold">{formatCurrency(budgetKPIs.approvedValue)}</span>}
+                href="/budgets?status=Aprovado"
+              />
+              <KPICard
+                title="Orçamentos Expirados"
+                value={budgetKPIs.expiredCount}
+                icon={FileX2}
+                iconColor="text-gray-500"
+                additionalInfo={<span className="text-sm font-semibold">{formatCurrency(budgetKPIs.expiredValue)}</span>}
+                href="/budgets?status=Expirado"
+              />
+              <KPICard
+                title="Conversão de Orçamentos"
+                value={budgetKPIs.conversionRate === null ? "-" : `${budgetKPIs.conversionRate.toLocaleString("pt-BR")}%`}
+                icon={Percent}
+                iconColor="text-emerald-500"
+                additionalInfo={
+                  <span className="text-xs">
+                    {budgetKPIs.approvedCount} de {budgetKPIs.sentCount} enviados
+                    {budgetKPIs.averageResponseDays !== null && ` · resposta em ${budgetKPIs.averageResponseDays.toLocaleString("pt-BR")} dias em média`}
+                  </span>
+                }
+              />
+            </>
+          )}
+          <KPICard
+            title={canViewAllOrders ? "Ordens de Serviço Abertas" : "Minhas OS Abertas"}
+            value={serviceOrderKPIs.openCount}
+            icon={ClipboardList}
+            iconColor="text-orange-500"
+            href="/service-orders?status=Abertas"
+          />
+        </div>
+      </section>
+      {canViewBudgets && <BudgetCustomerResponseList customers={customers} />}
+      {canViewBudgets && <BudgetFollowUpList customers={customers} companies={companies} />}
+      <PreventiveMaintenanceDueList maquinas={maquinas} />
+      {canViewBudgets && <BudgetFunnelReport budgets={budgets} customers={customers} />}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import Link from "next/link";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { CalendarClock, ClipboardList, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import type { MaintenancePlan, Maquina } from "@/types";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { db } from "@/lib/firebase";
+import { fetchMaintenancePlans, generatePreventiveServiceOrders, queryKeys } from "@/lib/repositories";
+import { getPreventiveMaintenanceDues } from "@/lib/preventive-maintenance";
+import { cn } from "@/lib/utils";
+
+interface PreventiveMaintenanceDueListProps {
+  maquinas: Maquina[];
+}
+
+export function PreventiveMaintenanceDueList({ maquinas }: PreventiveMaintenanceDueListProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canOpenPreventiveOrders = can("serviceOrders:manage");
+
+  const { data: plans = [], isLoading } = useQuery<MaintenancePlan[], Error>({
+    queryKey: queryKeys.maintenancePlans.all,
+    queryFn: fetchMaintenancePlans,
+    enabled: !!db,
+  });
+
+  const generateOrdersMutation = useMutation({
+    mutationFn: async (maquinaIds: string[]) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      return generatePreventiveServiceOrders(maquinaIds);
+    },
+    onSuccess: (run) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.serviceOrders.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.maquinas.all });
+      if (run.created.length > 0) {
+        toast({ title: "OS Preventivas Abertas", description: `OS ${run.created.map(order => order.orderNumber).join(", ")}.` });
+      }
+      run.skipped.forEach(skipped => {
+        const maquina = maquinas.find(m => m.id === skipped.maquinaId);
+        toast({ title: "OS não Aberta", description: `${maquina ? `${maquina.brand} ${maquina.model}: ` : ""}${skipped.reason}`, variant: "destructive" });
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Gerar OS Preventivas", description: `Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || plans.length === 0) return null;
+
+  const dues = getPreventiveMaintenanceDues(maquinas, plans);
+  const overdueMaquinaIds = Array.from(new Set(dues.filter(due => due.status === "Vencida").map(due => due.maquina.id)));
+
+  return (
+    <section>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-xl font-headline font-semibold flex items-center">
+          <CalendarClock className="mr-2 h-5 w-5 text-primary" /> Manutenções Preventivas
+        </h2>
+        {canOpenPreventiveOrders && overdueMaquinaIds.length > 0 && (
+          <Button variant="outline" size="sm" onClick={() => generateOrdersMutation.mutate(overdueMaquinaIds)} disabled={generateOrdersMutation.isPending}>
+            {generateOrdersMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ClipboardList className="mr-2 h-4 w-4" />}
+            Gerar OS
+          </Button>
+        )}
+      </div>
+      <Card>
+        <CardContent className="p-0">
+          {dues.length === 0 ? (
+            <p className="text-sm text-muted-foreground p-4">Nenhuma manutenção preventiva vencida ou próxima.</p>
+          ) : (
+            <ul className="divide-y text-sm">
+              {dues.map(due => (
+                <li key={`${due.maquina.id}-${due.plan.id}`} className="flex flex-wrap items-center justify-between gap-2 px-4 py-2">
+                  <Link href={`/maquinas?openMaquinaId=${due.maquina.id}`} className="font-medium hover:underline">
+                    {due.maquina.brand} {due.maquina.model}
+                    <span className="text-muted-foreground font-normal"> · Chassi {due.maquina.chassisNumber}</span>
+                  </Link>
+                  <span className="text-muted-foreground">{due.plan.name}</span>
+                  <span>
+                    {due.dueHours}h <span className="text-muted-foreground">(atual {due.maquina.hourMeter}h)</span>
+                  </span>
+                  <span className={cn("px-2 py-0.5 rounded-full text-xs font-semibold", {
+                    "bg-red-100 text-red-700": due.status === "Vencida",
+                    "bg-yellow-100 text-yellow-700": due.status === "Próxima",
+                  })}>
+                    {due.status === "Vencida" ? "Vencida" : `Faltam ${Math.round(due.hoursRemaining * 10) / 10}h`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </section>
+  );
+}
@@ -0,0 +1,348 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { addDays, addWeeks, format, isToday, parseISO, startOfWeek } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { ChevronLeft, ChevronRight, Loader2, AlertTriangle, CalendarRange, HardHat, CarFront, Inbox } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import type { Customer, ServiceOrder, Technician, Vehicle } from "@/types";
+import { PageHeader } from "@/components/shared/PageHeader";
+import { getDeadlineStatusInfo } from "@/components/service-orders/deadline-status";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { db } from "@/lib/firebase";
+import {
+  fetchServiceOrders, fetchServiceOrdersForTechnician, fetchTechnicians, fetchVehicles, fetchCustomers,
+  updateServiceOrderFields, queryKeys,
+} from "@/lib/repositories";
+import {
+  findDispatchConflicts, getOrderDateRange, getOrderResourceId, isOpenServiceOrder, isOrderOnDay, rescheduleOrder,
+  type DispatchResourceType,
+} from "@/lib/dispatch";
+import { cn } from "@/lib/utils";
+
+type BoardView = "week" | "day";
+
+// Row id for orders without a technician/vehicle; dropping there unassigns.
+const UNASSIGNED_ROW_ID = "_UNASSIGNED_";
+
+interface BoardRow {
+  id: string;
+  label: string;
+  detail?: string;
+  inMaintenance?: boolean;
+}
+
+interface OrderMove {
+  order: ServiceOrder;
+  fields: Pick<ServiceOrder, "startDate" | "endDate"> & Partial<Pick<ServiceOrder, "technicianId" | "vehicleId">>;
+}
+
+const toDayString = (date: Date) => format(date, "yyyy-MM-dd");
+
+export function DispatchBoardClientPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { technician, can } = useAuth();
+  const canViewAllOrders = can("serviceOrders:viewAll");
+  const canDispatch = can("serviceOrders:manage");
+
+  const [view, setView] = useState<BoardView>("week");
+  const [resourceType, setResourceType] = useState<DispatchResourceType>("technician");
+  const [referenceDate, setReferenceDate] = useState(() => new Date());
+  const [draggingOrderId, setDraggingOrderId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const { data: serviceOrders = [], isLoading: isLoadingOrders, isError, error } = useQuery<ServiceOrder[], Error>({
+    queryKey: canViewAllOrders ? queryKeys.serviceOrders.all : queryKeys.serviceOrders.byTechnician(technician?.id),
+    queryFn: () => canViewAllOrders ? fetchServiceOrders() : fetchServiceOrdersForTechnician(technician!.id),
+    enabled: !!db && (canViewAllOrders || !!technician),
+  });
+
+  const { data: technicians = [], isLoading: isLoadingTechnicians } = useQuery<Technician[], Error>({
+    queryKey: queryKeys.technicians.all,
+    queryFn: fetchTechnicians,
+    enabled: !!db,
+  });
+
+  const { data: vehicles = [], isLoading: isLoadingVehicles } = useQuery<Vehicle[], Error>({
+    queryKey: queryKeys.vehicles.all,
+    queryFn: fetchVehicles,
+    enabled: !!db,
+  });
+
+  const { data: customers = [] } = useQuery<Customer[], Error>({
+    queryKey: queryKeys.customers.all,
+    queryFn: fetchCustomers,
+    enabled: !!db,
+  });
+
+  const moveOrderMutation = useMutation({
+    mutationFn: async ({ order, fields }: OrderMove) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      await updateServiceOrderFields(order.id, fields);
+    },
+    onSuccess: (_, { order, fields }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.serviceOrders.all });
+      toast({ title: "OS Reagendada", description: `OS ${order.orderNumber} em ${format(parseISO(fields.startDate!), "dd/MM", { locale: ptBR })}.` });
+    },
+    onError: (err: Error, { order }) => {
+      toast({ title: "Erro ao Reagendar", description: `Não foi possível mover a OS ${order.orderNumber}. Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const days = useMemo(() => {
+    if (view === "day") return [toDayString(referenceDate)];
+    const monday = startOfWeek(referenceDate, { weekStartsOn: 1 });
+    return Array.from({ length: 7 }, (_, i) => toDayString(addDays(monday, i)));
+  }, [view, referenceDate]);
+
+  const customerNames = useMemo(() => new Map(customers.map(customer => [customer.id, customer.fantasyName || customer.name])), [customers]);
+  const technicianNames = useMemo(() => new Map(technicians.map(t => [t.id, t.name])), [technicians]);
+  const vehicleLabels = useMemo(() => new Map(vehicles.map(v => [v.id, `${v.model} (${v.licensePlate})`])), [vehicles]);
+
+  const conflicts = useMemo(() => findDispatchConflicts(serviceOrders, vehicles), [serviceOrders, vehicles]);
+
+  const rows: BoardRow[] = useMemo(() => {
+    const resourceRows: BoardRow[] = resourceType === "technician"
+      ? technicians
+          .filter(t => canViewAllOrders || t.id === technician?.id)
+          .map(t => ({ id: t.id, label: t.name, detail: t.specialization || t.role }))
+      : vehicles.map(v => ({ id: v.id, label: v.model, detail: v.licensePlate, inMaintenance: v.status === "Manutenção" }));
+    return [...resourceRows, { id: UNASSIGNED_ROW_ID, label: resourceType === "technician" ? "Sem técnico" : "Sem veículo" }];
+  }, [resourceType, technicians, vehicles, canViewAllOrders, technician?.id]);
+
+  const visibleOrders = useMemo(() => {
+    const first = days[0];
+    const last = days[days.length - 1];
+    return serviceOrders.filter(order => {
+      const range = getOrderDateRange(order);
+      return range && range.start <= last && first <= range.end;
+    });
+  }, [serviceOrders, days]);
+
+  const unscheduledOrders = useMemo(
+    () => serviceOrders.filter(order => isOpenServiceOrder(order) && !getOrderDateRange(order)),
+    [serviceOrders]
+  );
+
+  const visibleConflictCount = visibleOrders.filter(order => conflicts.has(order.id)).length;
+
+  const ordersInCell = (rowId: string, day: string) =>
+    visibleOrders.filter(order =>
+      (getOrderResourceId(order, resourceType) || UNASSIGNED_ROW_ID) === rowId && isOrderOnDay(order, day)
+    );
+
+  const handleDrop = (rowId: string, day: string) => {
+    const order = serviceOrders.find(o => o.id === draggingOrderId);
+    setDraggingOrderId(null);
+    setDropTarget(null);
+    if (!order || !isOpenServiceOrder(order)) return;
+
+    const resourceId = rowId === UNASSIGNED_ROW_ID ? null : rowId;
+    const resourceField = resourceType === "technician" ? "technicianId" : "vehicleId";
+    const schedule = rescheduleOrder(order, day);
+    const fields: OrderMove["fields"] = { ...schedule, [resourceField]: resourceId };
+    if (schedule.startDate === order.startDate && schedule.endDate === order.endDate && resourceId === getOrderResourceId(order, resourceType)) return;
+
+    const moved = { ...order, ...fields };
+    const newConflicts = findDispatchConflicts(serviceOrders.map(o => (o.id === order.id ? moved : o)), vehicles).get(order.id);
+    if (newConflicts) {
+      toast({ title: "Conflito de Agenda", description: newConflicts.join(" "), variant: "destructive" });
+    }
+    moveOrderMutation.mutate({ order, fields });
+  };
+
+  const shiftPeriod = (direction: 1 | -1) =>
+    setReferenceDate(current => (view === "week" ? addWeeks(current, direction) : addDays(current, direction)));
+
+  const periodLabel = view === "week"
+    ? `${format(parseISO(days[0]), "dd/MM", { locale: ptBR })} a ${format(parseISO(days[days.length - 1]), "dd/MM/yyyy", { locale: ptBR })}`
+    : format(parseISO(days[0]), "EEEE, dd/MM/yyyy", { locale: ptBR });
+
+  const renderOrderChip = (order: ServiceOrder, day: string) => {
+    const deadlineInfo = getDeadlineStatusInfo(order.endDate, order.phase);
+    const orderConflicts = conflicts.get(order.id);
+    const isOpen = isOpenServiceOrder(order);
+    const range = getOrderDateRange(order);
+    const counterpart = resourceType === "technician"
+      ? (order.vehicleId ? vehicleLabels.get(order.vehicleId) : null)
+      : (order.technicianId ? technicianNames.get(order.technicianId) : null);
+    return (
+      <div
+        key={`${order.id}-${day}`}
+        draggable={canDispatch && isOpen}
+        onDragStart={(e) => { e.dataTransfer.setData("text/plain", order.id); setDraggingOrderId(order.id); }}
+        onDragEnd={() => { setDraggingOrderId(null); setDropTarget(null); }}
+        className={cn(
+          "rounded border bg-card px-2 py-1 text-xs shadow-sm",
+          deadlineInfo.alertClass,
+          orderConflicts && "ring-2 ring-destructive",
+          !isOpen && "opacity-50",
+          canDispatch && isOpen && "cursor-grab active:cursor-grabbing",
+          draggingOrderId === order.id && "opacity-40"
+        )}
+      >
+        <div className="flex items-center justify-between gap-1">
+          <Link href={`/service-orders?openServiceOrderId=${order.id}`} className="font-semibold text-primary hover:underline">
+            OS {order.orderNumber}
+          </Link>
+          <div className="flex items-center gap-0.5">
+            {deadlineInfo.icon && (
+              <Tooltip>
+                <TooltipTrigger asChild><span className="[&>svg]:h-3.5 [&>svg]:w-3.5">{deadlineInfo.icon}</span></TooltipTrigger>
+                <TooltipContent><p>{deadlineInfo.message}</p></TooltipContent>
+              </Tooltip>
+            )}
+            {orderConflicts && (
+              <Tooltip>
+                <TooltipTrigger asChild><AlertTriangle className="h-3.5 w-3.5 text-destructive" /></TooltipTrigger>
+                <TooltipContent>{orderConflicts.map(message => <p key={message}>{message}</p>)}</TooltipContent>
+              </Tooltip>
+            )}
+          </div>
+        </div>
+        <p className="truncate">{customerNames.get(order.customerId) || "Cliente não encontrado"}</p>
+        <p className="truncate text-muted-foreground">{order.serviceType}</p>
+        {view === "day" && (
+          <>
+            {counterpart && <p className="truncate text-muted-foreground">{counterpart}</p>}
+            {range && range.start !== range.end && (
+              <p className="text-muted-foreground">{format(parseISO(range.start), "dd/MM")} a {format(parseISO(range.end), "dd/MM")}</p>
+            )}
+            <p className="text-muted-foreground">{order.phase}</p>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  if (!db) {
+    return <div className="text-red-500 p-4">Erro: Conexão com Firebase não disponível.</div>;
+  }
+  if (isLoadingOrders || isLoadingTechnicians || isLoadingVehicles) {
+    return <div className="flex justify-center items-center h-64"><Loader2 className="h-8 w-8 animate-spin text-primary" /><p className="ml-2">Carregando agenda...</p></div>;
+  }
+  if (isError) {
+    return <div className="text-red-500 p-4">Erro ao carregar ordens de serviço: {error?.message}</div>;
+  }
+
+  return (
+    <TooltipProvider>
+      <PageHeader
+        title=""
+        actions={
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={resourceType} onValueChange={(value) => setResourceType(value as DispatchResourceType)}>
+              <SelectTrigger className="w-[150px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="technician">Por Técnico</SelectItem>
+                <SelectItem value="vehicle">Por Veículo</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={view} onValueChange={(value) => setView(value as BoardView)}>
+              <SelectTrigger className="w-[120px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="week">Semana</SelectItem>
+                <SelectItem value="day">Dia</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={() => shiftPeriod(-1)} aria-label="Período anterior"><ChevronLeft className="h-4 w-4" /></Button>
+            <Button variant="outline" onClick={() => setReferenceDate(new Date())}>Hoje</Button>
+            <Button variant="outline" size="icon" onClick={() => shiftPeriod(1)} aria-label="Próximo período"><ChevronRight className="h-4 w-4" /></Button>
+          </div>
+        }
+      />
+      <p className="text-muted-foreground text-sm mb-6 -mt-4">
+        Agenda das ordens de serviço por {resourceType === "technician" ? "técnico" : "veículo"}.
+        {canDispatch && " Arraste uma OS para outra linha ou dia para reatribuí-la ou reagendá-la."}
+      </p>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h2 className="text-lg font-headline font-semibold flex items-center capitalize">
+          <CalendarRange className="mr-2 h-5 w-5 text-primary" /> {periodLabel}
+        </h2>
+        {visibleConflictCount > 0 && (
+          <span className="flex items-center text-sm text-destructive font-medium">
+            <AlertTriangle className="mr-1 h-4 w-4" /> {visibleConflictCount} OS com conflito de agenda
+          </span>
+        )}
+      </div>
+
+      <div className="overflow-x-auto rounded-md border">
+        <table className="w-full border-collapse text-sm table-fixed">
+          <thead>
+            <tr className="bg-muted/50">
+              <th className="sticky left-0 z-10 bg-muted w-44 p-2 text-left font-medium">
+                {resourceType === "technician" ? "Técnico" : "Veículo"}
+              </th>
+              {days.map(day => (
+                <th key={day} className={cn("p-2 text-left font-medium", view === "week" ? "w-40" : "w-auto", isToday(parseISO(day)) && "text-primary")}>
+                  <span className="capitalize">{format(parseISO(day), view === "week" ? "EEE dd/MM" : "EEEE dd/MM", { locale: ptBR })}</span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.id} className="border-t align-top">
+                <td className="sticky left-0 z-10 bg-background p-2">
+                  <div className="flex items-center font-medium">
+                    {resourceType === "technician" ? <HardHat className="mr-1.5 h-4 w-4 text-primary flex-shrink-0" /> : <CarFront className="mr-1.5 h-4 w-4 text-primary flex-shrink-0" />}
+                    <span className="truncate">{row.label}</span>
+                  </div>
+                  {row.detail && <p className="text-xs text-muted-foreground truncate">{row.detail}</p>}
+                  {row.inMaintenance && (
+                    <span className="mt-1 inline-block px-2 py-0.5 rounded-full text-xs font-semibold bg-red-100 text-red-700">Manutenção</span>
+                  )}
+                </td>
+                {days.map(day => {
+                  const cellId = `${row.id}|${day}`;
+                  return (
+                    <td
+                      key={cellId}
+                      onDragOver={canDispatch ? (e) => { e.preventDefault(); setDropTarget(cellId); } : undefined}
+                      onDragLeave={canDispatch ? () => setDropTarget(current => (current === cellId ? null : current)) : undefined}
+                      onDrop={canDispatch ? (e) => { e.preventDefault(); handleDrop(row.id, day); } : undefined}
+                      className={cn(
+                        "p-1 min-h-[4rem] h-16 space-y-1 border-l",
+                        isToday(parseISO(day)) && "bg-primary/5",
+                        row.inMaintenance && "bg-red-50 dark:bg-red-950/20",
+                        dropTarget === cellId && "bg-primary/15 outline outline-2 outline-primary"
+                      )}
+                    >
+                      {ordersInCell(row.id, day).map(order => renderOrderChip(order, day))}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <Card className="mt-6">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base font-headline flex items-center">
+            <Inbox className="mr-2 h-4 w-4 text-primary" /> OS sem data ({unscheduledOrders.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {unscheduledOrders.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Todas as ordens abertas estão agendadas.</p>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-2">
+              {unscheduledOrders.map(order => renderOrderChip(order, "unscheduled"))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </TooltipProvider>
+  );
+}
@@ -0,0 +1,17 @@
+"use client";
+
+import { DispatchBoardClientPage } from "@/components/dispatch/DispatchBoardClientPage";
+import { useState, useEffect } from 'react';
+import type { FC } from 'react';
+
+export const DispatchBoardPageContent: FC = () => {
+  const [isClient, setIsClient] = useState(false);
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  if (!isClient) {
+    return null;
+  }
+  return <DispatchBoardClientPage />;
+}
@@ -18,8 +18,9 @@ import { PageHeader } from "@/components/shared/PageHeader";
 import { DataTablePlaceholder } from "@/components/shared/DataTablePlaceholder";
 import { FormModal } from "@/components/shared/FormModal";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
 import { db, storage } from "@/lib/firebase";
-import { collection, getDocs, addDoc, updateDoc, deleteDoc, doc, query, orderBy, setDoc } from "firebase/firestore";
+import { fetchMaquinas, fetchCustomers, newMaquinaId as generateMaquinaId, createMaquina, updateMaquina, updateMaquinaFields, deleteMaquina, queryKeys } from "@/lib/repositories";
 import { ref as storageRef, uploadBytes, getDownloadURL, deleteObject } from "firebase/storage";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Textarea } from "@/components/ui/textarea";
@@ -28,8 +29,6 @@ import type { LucideIcon } from "lucide-react";
 import React from 'react';
 
 
-const FIRESTORE_EQUIPMENT_COLLECTION_NAME = "equipamentos"; // Mantido, conforme plano
-const FIRESTORE_CUSTOMER_COLLECTION_NAME = "clientes";
 
 const NO_CUSTOMER_SELECT_ITEM_VALUE = "_NO_CUSTOMER_SELECTED_";
 const LOADING_CUSTOMERS_SELECT_ITEM_VALUE = "_LOADING_CUSTOMERS_";
@@ -102,48 +101,6 @@ async function deleteFileFromStorage(fileUrl?: string | null) {
 }
 
 
-async function fetchMaquinas(): Promise<Maquina[]> {
-  if (!db) {
-    throw new Error("Firebase Firestore connection not available.");
-  }
-  const q = query(collection(db!, FIRESTORE_EQUIPMENT_COLLECTION_NAME), orderBy("brand", "asc"), orderBy("model", "asc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => {
-    const data = docSnap.data();
-    return {
-      id: docSnap.id,
-      brand: data.brand || "Marca Desconhecida",
-      model: data.model || "Modelo Desconhecido",
-      chassisNumber: data.chassisNumber || "N/A",
-      equipmentType: (maquinaTypeOptions.includes(data.equipmentType as any) || typeof data.equipmentType === 'string') ? data.equipmentType : "Empilhadeira Contrabalançada GLP",
-      manufactureYear: parseNumericToNullOrNumber(data.manufactureYear),
-      operationalStatus: maquinaOperationalStatusOptions.includes(data.operationalStatus as any) ? data.operationalStatus : "Disponível",
-      customerId: data.customerId || null,
-      ownerReference: data.ownerReference || null,
-      towerOpenHeightMm: parseNumericToNullOrNumber(data.towerOpenHeightMm),
-      towerClosedHeightMm: parseNumericToNullOrNumber(data.towerClosedHeightMm),
-      nominalCapacityKg: parseNumericToNullOrNumber(data.nominalCapacityKg),
-      batteryBoxWidthMm: parseNumericToNullOrNumber(data.batteryBoxWidthMm),
-      batteryBoxHeightMm: parseNumericToNullOrNumber(data.batteryBoxHeightMm),
-      batteryBoxDepthMm: parseNumericToNullOrNumber(data.batteryBoxDepthMm),
-      monthlyRentalValue: parseNumericToNullOrNumber(data.monthlyRentalValue),
-      hourMeter: parseNumericToNullOrNumber(data.hourMeter),
-      notes: data.notes || null,
-      partsCatalogUrl: data.partsCatalogUrl || null,
-      errorCodesUrl: data.errorCodesUrl || null,
-    } as Maquina;
-  });
-}
-
-async function fetchCustomers(): Promise<Customer[]> {
-  if (!db) {
-    throw new Error("Firebase Firestore connection not available.");
-  }
-  const q = query(collection(db!, FIRESTORE_CUSTOMER_COLLECTION_NAME), orderBy("name", "asc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Customer));
-}
-
 interface EquipmentClientPageProps { // Name will be changed later
   equipmentIdFromUrl?: string | null; // Name will be changed later
 }
@@ -151,6 +108,8 @@ interface EquipmentClientPageProps { // Name will be changed later
 export function EquipmentClientPage({ equipmentIdFromUrl }: EquipmentClientPageProps) { // Name will be changed later
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canManage = can("maquinas:manage");
 
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingMaquina, setEditingMaquina] = useState<Maquina | null>(null);
@@ -182,13 +141,13 @@ export function EquipmentClientPage({ equipmentIdFromUrl }: EquipmentClientPageP
   });
 
   const { data: maquinaList = [], isLoading: isLoadingMaquinas, isError: isErrorMaquinas, error: errorMaquinas } = useQuery<Maquina[], Error>({
-    queryKey: [FIRESTORE_EQUIPMENT_COLLECTION_NAME], // Query key based on collection name
+    queryKey: queryKeys.maquinas.all,
     queryFn: fetchMaquinas,
     enabled: !!db,
   });
 
   const { data: customers = [], isLoading: isLoadingCustomers } = useQuery<Customer[], Error>({
-    queryKey: [FIRESTORE_CUSTOMER_COLLECTION_NAME],
+    queryKey: queryKeys.customers.all,
     queryFn: fetchCustomers,
     enabled: !!db,
   });
@@ -314,7 +273,7 @@ export function EquipmentClientPage({ equipmentIdFromUrl }: EquipmentClientPageP
         throw new Error("Firebase Firestore ou Storage connection not available.");
       }
       setIsUploadingFiles(true);
-      const newMaquinaId = doc(collection(db!, FIRESTORE_EQUIPMENT_COLLECTION_NAME)).id;
+      const newMaquinaId = generateMaquinaId();
       let partsCatalogUrl: string | null = null;
       let errorCodesUrl: string | null = null;
 
@@ -326,11 +285,11 @@ export function EquipmentClientPage({ equipmentIdFromUrl }: EquipmentClientPageP
       }
 
       const maquinaDataForFirestore = prepareDataForFirestore(data.formData, partsCatalogUrl, errorCodesUrl);
-      await setDoc(doc(db!, FIRESTORE_EQUIPMENT_COLLECTION_NAME, newMaquinaId), maquinaDataForFirestore);
+      await createMaquina(newMaquinaId, maquinaDataForFirestore);
       return { ...maquinaDataForFirestore, id: newMaquinaId };
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_EQUIPMENT_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.maquinas.all });
       toast({ title: "Máquina Criada", description: `${data.brand} ${data.model} adicionada.` });
       closeModal();
     },
@@ -369,12 +328,11 @@ export function EquipmentClientPage({ equipmentIdFromUrl }: EquipmentClientPageP
       }
 
       const maquinaDataForFirestore = prepareDataForFirestore(data.formData, newPartsCatalogUrl, newErrorCodesUrl);
-      const maquinaRef = doc(db!, FIRESTORE_EQUIPMENT_COLLECTION_NAME, data.id);
-      await updateDoc(maquinaRef, maquinaDataForFirestore);
+      await updateMaquina(data.id, maquinaDataForFirestore);
       return { ...maquinaDataForFirestore, id: data.id };
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_EQUIPMENT_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.maquinas.all });
       toast({ title: "Máquina Atualizada", description: `${data.brand} ${data.model} atualizada.` });
       closeModal();
     },
@@ -394,12 +352,11 @@ export function EquipmentClientPage({ equipmentIdFromUrl }: EquipmentClientPageP
         throw new Error("Firebase Firestore ou Storage connection not available.");
       }
       await deleteFileFromStorage(data.fileUrl);
-      const maquinaRef = doc(db!, FIRESTORE_EQUIPMENT_COLLECTION_NAME, data.maquinaId);
-      await updateDoc(maquinaRef, { [data.fileType]: null });
+      await updateMaquinaFields(data.maquinaId, { [data.fileType]: null });
       return { maquinaId: data.maquinaId, fileType: data.fileType };
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_EQUIPMENT_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.maquinas.all });
       if(editingMaquina && editingMaquina.id === data.maquinaId){
         setEditingMaquina(prev => prev ? ({...prev, [data.fileType]: null}) : null);
         form.setValue(data.fileType, null);
@@ -419,15 +376,14 @@ export function EquipmentClientPage({ equipmentIdFromUrl }: EquipmentClientPageP
       if (!maquinaToDelete?.id) {
         throw new Error("ID da máquina inválido fornecido para a função de mutação.");
       }
-      const { id, partsCatalogUrl, errorCodesUrl } = maquinaToDelete;
+      const { id, partsCatalogUrl, errorCodesUrl, linkedAuxiliaryEquipmentIds } = maquinaToDelete;
       await deleteFileFromStorage(partsCatalogUrl);
       await deleteFileFromStorage(errorCodesUrl);
-      const maquinaRef = doc(db!, FIRESTORE_EQUIPMENT_COLLECTION_NAME, id);
-      await deleteDoc(maquinaRef);
+      await deleteMaquina(id, linkedAuxiliaryEquipmentIds || []);
       return id;
     },
     onSuccess: (deletedMaquinaId) => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_EQUIPMENT_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.maquinas.all });
       toast({ title: "Máquina Excluída", description: "A máquina e seus arquivos foram removidos." });
       closeModal();
     },
@@ -543,11 +499,11 @@ export function EquipmentClientPage({ equipmentIdFromUrl }: EquipmentClientPageP
     <>
       <PageHeader
         title="Rastreamento de Máquinas"
-        actions={
+        actions={canManage ? (
           <Button onClick={() => openModal()} className="bg-primary hover:bg-primary/90" disabled={isMutating}>
             <PlusCircle className="mr-2 h-4 w-4" /> Adicionar Máquina
           </Button>
-        }
+        ) : undefined}
       />
 
       {maquinaList.length === 0 && !isLoadingMaquinas ? (
@@ -555,8 +511,8 @@ export function EquipmentClientPage({ equipmentIdFromUrl }: EquipmentClientPageP
           icon={Construction}
           title="Nenhuma Máquina Registrada"
           description="Adicione sua primeira máquina para começar a rastrear."
-          buttonLabel="Adicionar Máquina"
-          onButtonClick={() => openModal()}
+          buttonLabel={canManage ? "Adicionar Máquina" : undefined}
+          onButtonClick={canManage ? () => openModal() : undefined}
         />
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -677,9 +633,9 @@ export function EquipmentClientPage({ equipmentIdFromUrl }: EquipmentClientPageP
         formId="maquina-form" // Updated formId
         isSubmitting={isMutating}
         editingItem={editingMaquina}
-        onDeleteConfirm={handleModalDeleteConfirm}
+        onDeleteConfirm={canManage ? handleModalDeleteConfirm : undefined}
  isEditMode={isEditMode}
- onEditModeToggle={() => setIsEditMode(true)}
+ onEditModeToggle={canManage ? () => setIsEditMode(true) : undefined}
         isDeleting={deleteMaquinaMutation.isPending}
         deleteButtonLabel="Excluir Máquina"
       >
@@ -0,0 +1,149 @@
+"use client";
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CloudOff, Loader2, RefreshCw, Smartphone, Trash2, Wifi } from "lucide-react";
+import { Accordion } from "@/components/ui/accordion";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { Customer, Maquina, ServiceOrder } from "@/types";
+import { PageHeader } from "@/components/shared/PageHeader";
+import { DataTablePlaceholder } from "@/components/shared/DataTablePlaceholder";
+import { FieldServiceOrderItem } from "@/components/field/FieldServiceOrderItem";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { useToast } from "@/hooks/use-toast";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import { db } from "@/lib/firebase";
+import { fetchCustomers, fetchMaquinas, fetchServiceOrdersForTechnician, queryKeys } from "@/lib/repositories";
+import type { OfflineOperation } from "@/lib/offline-queue";
+
+const operationLabels: Record<OfflineOperation["kind"], string> = {
+  phase: "Mudança de fase",
+  photo: "Foto",
+  conclusion: "Conclusão",
+  partsRequisition: "Requisição de peças",
+};
+
+export function FieldModeClientPage() {
+  const { technician } = useAuth();
+  const { toast } = useToast();
+  const offlineQueue = useOfflineQueue();
+
+  // "offlineFirst" lets React Query call Firestore without a connection; the
+  // answer then comes from the persistent cache.
+  const { data: serviceOrders = [], isLoading } = useQuery<ServiceOrder[], Error>({
+    queryKey: queryKeys.serviceOrders.byTechnician(technician?.id),
+    queryFn: () => fetchServiceOrdersForTechnician(technician!.id),
+    enabled: !!db && !!technician,
+    networkMode: "offlineFirst",
+  });
+
+  const { data: customers = [] } = useQuery<Customer[], Error>({
+    queryKey: queryKeys.customers.all,
+    queryFn: fetchCustomers,
+    enabled: !!db,
+    networkMode: "offlineFirst",
+  });
+
+  const { data: maquinas = [] } = useQuery<Maquina[], Error>({
+    queryKey: queryKeys.maquinas.all,
+    queryFn: fetchMaquinas,
+    enabled: !!db,
+    networkMode: "offlineFirst",
+  });
+
+  const openOrders = useMemo(
+    () => serviceOrders.filter(order => order.phase !== "Concluída" && order.phase !== "Cancelada"),
+    [serviceOrders]
+  );
+
+  const handleSync = async () => {
+    try {
+      const result = await offlineQueue.sync();
+      toast({
+        title: "Sincronização",
+        description: `${result.synced} enviado(s), ${result.failed} com erro, ${result.remaining} pendente(s).`,
+        variant: result.failed > 0 ? "destructive" : "default",
+      });
+    } catch (e: any) {
+      toast({ title: "Erro ao Sincronizar", description: e.message, variant: "destructive" });
+    }
+  };
+
+  if (!db) {
+    return <div className="text-red-500 p-4">Erro: Conexão com Firebase não disponível.</div>;
+  }
+
+  return (
+    <>
+      <PageHeader
+        title=""
+        actions={
+          <Button variant="outline" onClick={handleSync} disabled={!offlineQueue.isOnline || offlineQueue.isSyncing}>
+            {offlineQueue.isSyncing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            Sincronizar Agora
+          </Button>
+        }
+      />
+      <p className="text-muted-foreground text-sm mb-6 -mt-4">
+        Suas ordens de serviço abertas, para uso no celular. Sem sinal, as alterações ficam guardadas no aparelho e são enviadas sozinhas quando a conexão voltar.
+      </p>
+
+      <div className="mb-4 flex flex-wrap items-center gap-3 rounded-md border p-3 text-sm">
+        {offlineQueue.isOnline
+          ? <span className="flex items-center text-green-600"><Wifi className="mr-1 h-4 w-4" /> Online</span>
+          : <span className="flex items-center text-amber-600"><CloudOff className="mr-1 h-4 w-4" /> Offline</span>}
+        <span className="text-muted-foreground">
+          {offlineQueue.pendingCount > 0 ? `${offlineQueue.pendingCount} alteração(ões) aguardando envio` : "Nada pendente de envio"}
+        </span>
+      </div>
+
+      {offlineQueue.failedOperations.length > 0 && (
+        <Card className="mb-4 border-destructive">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base text-destructive">Envios recusados</CardTitle>
+            <CardDescription>
+              O sistema não aceitou estas alterações. As demais alterações da mesma OS só são enviadas depois que estas forem descartadas.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {offlineQueue.failedOperations.map(queued => (
+              <div key={queued.id} className="flex items-start justify-between gap-2 rounded-md border p-2 text-sm">
+                <div>
+                  <p className="font-medium">{operationLabels[queued.operation.kind]} - OS {queued.operation.orderNumber}</p>
+                  <p className="text-destructive">{queued.error}</p>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => offlineQueue.discard(queued.id)} title="Descartar">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-64"><Loader2 className="h-8 w-8 animate-spin text-primary" /><p className="ml-2">Carregando suas ordens de serviço...</p></div>
+      ) : openOrders.length === 0 ? (
+        <DataTablePlaceholder
+          icon={Smartphone}
+          title="Nenhuma OS em aberto"
+          description="As ordens de serviço atribuídas a você aparecem aqui."
+        />
+      ) : (
+        <Accordion type="single" collapsible className="space-y-2">
+          {openOrders.map(order => (
+            <FieldServiceOrderItem
+              key={order.id}
+              order={order}
+              customer={customers.find(customer => customer.id === order.customerId)}
+              maquina={maquinas.find(maquina => maquina.id === order.equipmentId)}
+              queuedOperations={offlineQueue.operations.filter(queued => queued.operation.orderId === order.id)}
+              onEnqueue={offlineQueue.enqueue}
+            />
+          ))}
+        </Accordion>
+      )}
+    </>
+  );
+}
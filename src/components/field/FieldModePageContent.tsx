@@ -0,0 +1,17 @@
+"use client";
+
+import { FieldModeClientPage } from "@/components/field/FieldModeClientPage";
+import { useState, useEffect } from 'react';
+import type { FC } from 'react';
+
+export const FieldModePageContent: FC = () => {
+  const [isClient, setIsClient] = useState(false);
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  if (!isClient) {
+    return null;
+  }
+  return <FieldModeClientPage />;
+}
@@ -0,0 +1,245 @@
+"use client";
+
+import { useState } from "react";
+import type { ChangeEvent } from "react";
+import { Camera, Check, CloudUpload, Construction, Loader2, MapPin, PackageSearch, Phone, Play } from "lucide-react";
+import { AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import type { Customer, Maquina, ServiceOrder, ServiceOrderPhaseType } from "@/types";
+import { SignaturePad } from "@/components/shared/SignaturePad";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { useToast } from "@/hooks/use-toast";
+import { canTransitionServiceOrderPhase, getSelectableServiceOrderPhases, phaseNeedsBudgets } from "@/lib/service-order-phases";
+import { MAX_SERVICE_ORDER_FILES } from "@/lib/service-order-files";
+import type { OfflineOperation, QueuedOperation } from "@/lib/offline-queue";
+import { formatAddressForDisplay, generateGoogleMapsUrl, toTitleCase } from "@/lib/utils";
+
+interface FieldServiceOrderItemProps {
+  order: ServiceOrder;
+  customer?: Customer;
+  maquina?: Maquina;
+  // Queued work for this order, oldest first.
+  queuedOperations: QueuedOperation[];
+  onEnqueue: (operation: OfflineOperation) => Promise<QueuedOperation>;
+}
+
+// The phase the order will have once the queued work reaches the server.
+function getExpectedPhase(order: ServiceOrder, queuedOperations: QueuedOperation[]): ServiceOrderPhaseType {
+  return queuedOperations.reduce<ServiceOrderPhaseType>((phase, { operation, error }) => {
+    if (error) return phase;
+    if (operation.kind === "phase") return operation.phase;
+    if (operation.kind === "conclusion") return "Concluída";
+    return phase;
+  }, order.phase);
+}
+
+export function FieldServiceOrderItem({ order, customer, maquina, queuedOperations, onEnqueue }: FieldServiceOrderItemProps) {
+  const { technician, can } = useAuth();
+  const { toast } = useToast();
+  const [nextPhase, setNextPhase] = useState<ServiceOrderPhaseType | "">("");
+  const [partName, setPartName] = useState("");
+  const [partQuantity, setPartQuantity] = useState("1");
+  const [partNotes, setPartNotes] = useState("");
+  const [technicalConclusion, setTechnicalConclusion] = useState(order.technicalConclusion || "");
+  const [signatureDataUrl, setSignatureDataUrl] = useState<string | null>(null);
+  const [signerName, setSignerName] = useState(order.requesterName || "");
+  const [signerDocument, setSignerDocument] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const expectedPhase = getExpectedPhase(order, queuedOperations);
+  const isConclusionQueued = expectedPhase === "Concluída";
+  const pendingCount = queuedOperations.filter(queued => !queued.error).length;
+  const queuedPhotoCount = queuedOperations.filter(queued => queued.operation.kind === "photo" && !queued.error).length;
+  const photoCount = (order.mediaUrls?.length || 0) + queuedPhotoCount;
+  // Concluding has its own section below; cancelling is left to the office.
+  const selectablePhases = getSelectableServiceOrderPhases(expectedPhase)
+    .filter(phase => phase !== expectedPhase && phase !== "Concluída" && phase !== "Cancelada" && (can("budgets:view") || !phaseNeedsBudgets(phase)));
+  const canConclude = canTransitionServiceOrderPhase(expectedPhase, "Concluída") && !isConclusionQueued;
+  const isSignatureIncomplete = !!signatureDataUrl && (!signerName.trim() || !signerDocument.trim());
+
+  const enqueue = async (operation: OfflineOperation, successMessage: string) => {
+    setIsSaving(true);
+    try {
+      await onEnqueue(operation);
+      toast({ title: `OS ${order.orderNumber}`, description: successMessage });
+      return true;
+    } catch (e: any) {
+      toast({ title: "Erro ao Salvar no Aparelho", description: e.message, variant: "destructive" });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleChangePhase = async () => {
+    if (!nextPhase) return;
+    const saved = await enqueue({ kind: "phase", orderId: order.id, orderNumber: order.orderNumber, phase: nextPhase }, `Fase alterada para "${nextPhase}".`);
+    if (saved) setNextPhase("");
+  };
+
+  const handlePhotoSelected = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    if (photoCount >= MAX_SERVICE_ORDER_FILES) {
+      toast({ title: "Limite de Arquivos", description: `A OS aceita no máximo ${MAX_SERVICE_ORDER_FILES} arquivos.`, variant: "destructive" });
+      return;
+    }
+    await enqueue({ kind: "photo", orderId: order.id, orderNumber: order.orderNumber, file }, "Foto anexada.");
+  };
+
+  const handleRequestPart = async () => {
+    if (!technician) return;
+    const quantity = parseInt(partQuantity, 10);
+    if (!partName.trim() || !Number.isInteger(quantity) || quantity < 1) {
+      toast({ title: "Peça Incompleta", description: "Informe o nome da peça e a quantidade.", variant: "destructive" });
+      return;
+    }
+    const saved = await enqueue({
+      kind: "partsRequisition",
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      requisitionId: crypto.randomUUID(),
+      technicianId: technician.id,
+      technicianName: technician.name,
+      items: [{ partName: partName.trim(), quantity, notes: partNotes.trim() || null }],
+      generalNotes: "Solicitada pelo modo campo.",
+    }, `Requisição de "${partName.trim()}" registrada.`);
+    if (saved) {
+      setPartName("");
+      setPartQuantity("1");
+      setPartNotes("");
+    }
+  };
+
+  const handleConclude = async () => {
+    if (!technicalConclusion.trim()) {
+      toast({ title: "Conclusão Obrigatória", description: "Descreva o serviço realizado.", variant: "destructive" });
+      return;
+    }
+    const now = new Date().toISOString();
+    await enqueue({
+      kind: "conclusion",
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      technicalConclusion: technicalConclusion.trim(),
+      endDate: now,
+      signature: signatureDataUrl
+        ? { dataUrl: signatureDataUrl, signerName: signerName.trim(), signerDocument: signerDocument.trim(), signedAt: now }
+        : null,
+    }, "Conclusão registrada.");
+  };
+
+  return (
+    <AccordionItem value={order.id} className="rounded-md border px-3">
+      <AccordionTrigger className="hover:no-underline">
+        <div className="flex flex-1 flex-col items-start gap-1 text-left">
+          <span className="font-semibold">OS {order.orderNumber} - {customer ? toTitleCase(customer.fantasyName || customer.name) : "Cliente não encontrado"}</span>
+          <div className="flex flex-wrap gap-1">
+            <Badge variant="outline">{expectedPhase}</Badge>
+            {pendingCount > 0 && (
+              <Badge variant="secondary" className="gap-1"><CloudUpload className="h-3 w-3" /> {pendingCount} pendente(s)</Badge>
+            )}
+          </div>
+        </div>
+      </AccordionTrigger>
+      <AccordionContent className="space-y-4">
+        <div className="space-y-1 text-sm">
+          <p className="flex items-center"><Construction className="mr-2 h-4 w-4 text-primary" />
+            {maquina ? `${maquina.brand} ${maquina.model} (Chassi: ${maquina.chassisNumber})` : "Máquina não encontrada"}
+          </p>
+          {customer && (
+            <a href={generateGoogleMapsUrl(customer)} target="_blank" rel="noopener noreferrer" className="flex items-center text-primary hover:underline">
+              <MapPin className="mr-2 h-4 w-4" /> {formatAddressForDisplay(customer)}
+            </a>
+          )}
+          {customer?.phone && (
+            <a href={`tel:${customer.phone}`} className="flex items-center text-primary hover:underline">
+              <Phone className="mr-2 h-4 w-4" /> {customer.contactName ? `${customer.contactName} - ` : ""}{customer.phone}
+            </a>
+          )}
+          <p className="text-muted-foreground"><span className="font-medium text-foreground">{order.serviceType}:</span> {order.description}</p>
+        </div>
+
+        {!isConclusionQueued && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <Label className="flex items-center"><Play className="mr-2 h-4 w-4 text-primary" /> Fase</Label>
+              <div className="flex gap-2">
+                <Select value={nextPhase} onValueChange={(value) => setNextPhase(value as ServiceOrderPhaseType)} disabled={selectablePhases.length === 0}>
+                  <SelectTrigger><SelectValue placeholder="Mover para..." /></SelectTrigger>
+                  <SelectContent>
+                    {selectablePhases.map(phase => <SelectItem key={phase} value={phase}>{phase}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Button onClick={handleChangePhase} disabled={!nextPhase || isSaving}>Alterar</Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor={`photo-${order.id}`} className="flex items-center">
+                <Camera className="mr-2 h-4 w-4 text-primary" /> Fotos ({photoCount}/{MAX_SERVICE_ORDER_FILES})
+              </Label>
+              <Input
+                id={`photo-${order.id}`}
+                type="file"
+                accept="image/*"
+                capture="environment"
+                onChange={handlePhotoSelected}
+                disabled={isSaving || photoCount >= MAX_SERVICE_ORDER_FILES}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="flex items-center"><PackageSearch className="mr-2 h-4 w-4 text-primary" /> Solicitar Peça</Label>
+              <div className="flex gap-2">
+                <Input placeholder="Peça" value={partName} onChange={(e) => setPartName(e.target.value)} />
+                <Input type="number" min={1} className="w-20" value={partQuantity} onChange={(e) => setPartQuantity(e.target.value)} aria-label="Quantidade" />
+              </div>
+              <Input placeholder="Observações (opcional)" value={partNotes} onChange={(e) => setPartNotes(e.target.value)} />
+              <Button variant="outline" className="w-full" onClick={handleRequestPart} disabled={isSaving}>Solicitar</Button>
+            </div>
+          </>
+        )}
+
+        {canConclude && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <Label htmlFor={`conclusion-${order.id}`} className="flex items-center"><Check className="mr-2 h-4 w-4 text-primary" /> Conclusão Técnica</Label>
+              <Textarea
+                id={`conclusion-${order.id}`}
+                placeholder="Descreva o serviço realizado..."
+                value={technicalConclusion}
+                onChange={(e) => setTechnicalConclusion(e.target.value)}
+                rows={4}
+              />
+              <Label>Assinatura do Cliente (opcional)</Label>
+              <SignaturePad onChange={setSignatureDataUrl} />
+              {signatureDataUrl && (
+                <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                  <Input placeholder="Nome de quem assina" value={signerName} onChange={(e) => setSignerName(e.target.value)} />
+                  <Input placeholder="CPF ou RG" value={signerDocument} onChange={(e) => setSignerDocument(e.target.value)} />
+                </div>
+              )}
+              <Button className="w-full" onClick={handleConclude} disabled={isSaving || isSignatureIncomplete}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Concluir OS
+              </Button>
+            </div>
+          </>
+        )}
+
+        {isConclusionQueued && (
+          <p className="text-sm text-muted-foreground">Conclusão registrada no aparelho; a OS sai desta lista quando for enviada.</p>
+        )}
+      </AccordionContent>
+    </AccordionItem>
+  );
+}
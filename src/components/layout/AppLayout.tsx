@@ -3,7 +3,8 @@
 
 import Link from "next/link";
 import Image from "next/image";
-import { usePathname } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
+import { useEffect } from "react";
 import type { ReactNode } from "react";
 import {
   LayoutDashboard,
@@ -12,6 +13,7 @@ import {
   ClipboardList,
   HardHat,
   CarFront,
+  Milestone,
   SlidersHorizontal,
   Settings,
   PackageSearch,
@@ -19,6 +21,19 @@ import {
   Wrench, 
   ClipboardCheck, 
   Archive, 
+  BookOpen,
+  Loader2,
+  LogOut,
+  ShieldAlert,
+  FileSignature,
+  Receipt,
+  Barcode,
+  CalendarClock,
+  CalendarRange,
+  Timer,
+  ListChecks,
+  Smartphone,
+  Route,
 } from "lucide-react";
 import {
   SidebarProvider,
@@ -36,6 +51,10 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
 import { BackToTopButton } from "@/components/shared/BackToTopButton";
 import { ThemeToggle } from "@/components/shared/ThemeToggle";
+import { OfflineSyncIndicator } from "@/components/shared/OfflineSyncIndicator";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { canAccessRoute } from "@/lib/permissions";
 
 interface NavItem {
   href: string;
@@ -47,14 +66,25 @@ const navItems: NavItem[] = [
   { href: "/", icon: LayoutDashboard, label: "Painel" },
   { href: "/customers", icon: Users, label: "Clientes" },
   { href: "/maquinas", icon: Construction, label: "Máquinas" },
+  { href: "/maintenance-plans", icon: CalendarClock, label: "Planos de Manutenção" },
   { href: "/auxiliary-equipment", icon: PackageSearch, label: "Equipamentos Auxiliares" },
+  { href: "/rental-contracts", icon: FileSignature, label: "Contratos de Locação" },
+  { href: "/billing", icon: Receipt, label: "Faturamento" },
+  { href: "/boletos", icon: Barcode, label: "Boletos" },
   { href: "/service-orders", icon: ClipboardList, label: "Ordens de Serviço" },
+  { href: "/field", icon: Smartphone, label: "Minhas OS" },
+  { href: "/dispatch", icon: CalendarRange, label: "Agenda de Técnicos" },
+  { href: "/route-planner", icon: Route, label: "Roteiro do Dia" },
+  { href: "/checklists", icon: ListChecks, label: "Checklists de Serviço" },
   { href: "/budgets", icon: FileText, label: "Orçamentos" },
   { href: "/parts-requisitions", icon: Wrench, label: "Requisições Peças" },
   { href: "/parts-triage", icon: ClipboardCheck, label: "Triagem de Ordens e Peças" },
   { href: "/parts-warehouse", icon: Archive, label: "Almoxarifado Peças" },
+  { href: "/catalog", icon: BookOpen, label: "Catálogo de Peças e Serviços" },
   { href: "/technicians", icon: HardHat, label: "Técnicos / Colaboradores" },
+  { href: "/productivity", icon: Timer, label: "Produtividade Técnica" },
   { href: "/vehicles", icon: CarFront, label: "Veículos" },
+  { href: "/toll-plazas", icon: Milestone, label: "Praças de Pedágio" },
   { href: "/company-config", icon: SlidersHorizontal, label: "Dados das Empresas" },
 ];
 
@@ -63,6 +93,8 @@ const appVersion = "6.0";
 function MainSidebar() {
   const pathname = usePathname();
   const { open } = useSidebar();
+  const { technician } = useAuth();
+  const visibleNavItems = navItems.filter(item => canAccessRoute(technician?.role, item.href));
 
   return (
     <Sidebar
@@ -89,7 +121,7 @@ function MainSidebar() {
       <SidebarContent>
         <ScrollArea className="h-full">
           <SidebarMenu>
-            {navItems.map((item) => {
+            {visibleNavItems.map((item) => {
               const isActive = pathname === item.href || (item.href !== "/" && pathname.startsWith(item.href));
               return (
                 <SidebarMenuItem key={item.label}>
@@ -116,8 +148,51 @@ function MainSidebar() {
   );
 }
 
+function FullScreenMessage({ children }: { children: ReactNode }) {
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen text-center p-6 bg-background">
+      {children}
+    </div>
+  );
+}
+
 export function AppLayout({ children }: { children: ReactNode }) {
   const currentPathname = usePathname();
+  const router = useRouter();
+  const { user, technician, isLoading, linkError, signOut } = useAuth();
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      router.replace(`/login?redirect=${encodeURIComponent(currentPathname)}`);
+    }
+  }, [isLoading, user, currentPathname, router]);
+
+  if (isLoading || !user) {
+    return (
+      <FullScreenMessage>
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </FullScreenMessage>
+    );
+  }
+
+  if (!technician) {
+    return (
+      <FullScreenMessage>
+        <ShieldAlert className="w-16 h-16 text-destructive mb-6" />
+        <h1 className="text-2xl font-bold font-headline text-foreground mb-4">Usuário Sem Cadastro de Colaborador</h1>
+        <p className="text-muted-foreground mb-8 max-w-md">
+          {linkError || "Seu usuário não está vinculado a nenhum colaborador."}
+          <br />
+          Peça à gerência para cadastrar seu e-mail em Técnicos / Colaboradores.
+        </p>
+        <Button variant="outline" onClick={() => signOut()}>
+          <LogOut className="mr-2 h-4 w-4" /> Sair
+        </Button>
+      </FullScreenMessage>
+    );
+  }
+
+  const canAccessCurrentRoute = canAccessRoute(technician.role, currentPathname);
   const currentNavItem = navItems.find(item => {
     if (item.href === "/") return currentPathname === "/";
     return currentPathname.startsWith(item.href);
@@ -136,13 +211,26 @@ export function AppLayout({ children }: { children: ReactNode }) {
             <div className="font-heading text-3xl font-semibold text-foreground"> {/* Alterado de text-2xl para text-3xl */}
               {currentPathname === "/" ? "Painel Principal" : pageTitle}
             </div>
-            <div>
+            <div className="flex items-center gap-2">
+              <OfflineSyncIndicator />
+              <div className="hidden sm:flex flex-col items-end text-xs leading-tight">
+                <span className="font-medium text-foreground">{technician.name}</span>
+                <span className="text-muted-foreground">{technician.role}</span>
+              </div>
               <ThemeToggle />
+              <Button variant="ghost" size="icon" onClick={() => signOut()} title="Sair">
+                <LogOut className="h-5 w-5" />
+              </Button>
             </div>
           </header>
           <main className="flex-1 px-4 sm:px-6 py-6 overflow-auto bg-background">
-            {children}
-            
+            {canAccessCurrentRoute ? children : (
+              <div className="flex flex-col items-center justify-center h-64 text-center">
+                <ShieldAlert className="h-12 w-12 text-destructive mb-4" />
+                <h2 className="text-xl font-semibold mb-2">Acesso Negado</h2>
+                <p className="text-muted-foreground">O cargo &quot;{technician.role}&quot; não tem permissão para acessar esta página.</p>
+              </div>
+            )}
           </main>
           <footer className="p-4 text-right text-xs text-muted-foreground border-t">
             
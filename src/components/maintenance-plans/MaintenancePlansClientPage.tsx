@@ -0,0 +1,351 @@
+"use client";
+
+import { useState, useCallback, useMemo } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import type * as z from "zod";
+import { PlusCircle, CalendarClock, Construction, Timer, Bell, Loader2, ClipboardList } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
+import type { MaintenancePlan, Maquina } from "@/types";
+import { MaintenancePlanSchema, maquinaTypeOptions } from "@/types";
+import { PageHeader } from "@/components/shared/PageHeader";
+import { DataTablePlaceholder } from "@/components/shared/DataTablePlaceholder";
+import { FormModal } from "@/components/shared/FormModal";
+import { DetailsHistoryTabs } from "@/components/shared/DetailsHistoryTabs";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { db } from "@/lib/firebase";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  fetchMaintenancePlans, fetchMaquinas, createMaintenancePlan, updateMaintenancePlan, deleteMaintenancePlan,
+  generatePreventiveServiceOrders, queryKeys,
+} from "@/lib/repositories";
+import { planAppliesTo } from "@/lib/preventive-maintenance";
+import { cn } from "@/lib/utils";
+
+const ALL_EQUIPMENT_TYPES_VALUE = "_ALL_EQUIPMENT_TYPES_";
+
+type MaintenancePlanFormValues = z.infer<typeof MaintenancePlanSchema>;
+
+const emptyFormValues = (): MaintenancePlanFormValues => ({
+  name: "",
+  equipmentType: null,
+  brand: "",
+  intervalHours: 250,
+  warningHours: 25,
+  tasks: "",
+  active: true,
+});
+
+export function MaintenancePlansClientPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canManagePlans = can("maquinas:manage");
+  const canOpenPreventiveOrders = can("serviceOrders:manage");
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingPlan, setEditingPlan] = useState<MaintenancePlan | null>(null);
+  const [isEditMode, setIsEditMode] = useState(false);
+
+  const form = useForm<MaintenancePlanFormValues>({
+    resolver: zodResolver(MaintenancePlanSchema),
+    defaultValues: emptyFormValues(),
+  });
+
+  const { data: plans = [], isLoading: isLoadingPlans, isError: isErrorPlans, error: errorPlans } = useQuery<MaintenancePlan[], Error>({
+    queryKey: queryKeys.maintenancePlans.all,
+    queryFn: fetchMaintenancePlans,
+    enabled: !!db,
+  });
+
+  const { data: maquinaList = [], isLoading: isLoadingMaquinas } = useQuery<Maquina[], Error>({
+    queryKey: queryKeys.maquinas.all,
+    queryFn: fetchMaquinas,
+    enabled: !!db,
+  });
+
+  const addPlanMutation = useMutation({
+    mutationFn: async (data: MaintenancePlanFormValues) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      await createMaintenancePlan(data);
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.maintenancePlans.all });
+      toast({ title: "Plano Criado", description: `Plano "${data.name}" foi criado.` });
+      closeModal();
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Criar", description: `Não foi possível criar o plano. Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const updatePlanMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: MaintenancePlanFormValues }) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      await updateMaintenancePlan(id, data);
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.maintenancePlans.all });
+      toast({ title: "Plano Atualizado", description: `Plano "${data.name}" foi atualizado.` });
+      closeModal();
+    },
+    onError: (err: Error, variables) => {
+      toast({ title: "Erro ao Atualizar", description: `Não foi possível atualizar o plano "${variables.data.name}". Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const deletePlanMutation = useMutation({
+    mutationFn: async (planId: string) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      return deleteMaintenancePlan(planId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.maintenancePlans.all });
+      toast({ title: "Plano Excluído" });
+      closeModal();
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Excluir", description: `Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const generateOrdersMutation = useMutation({
+    mutationFn: async () => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      return generatePreventiveServiceOrders();
+    },
+    onSuccess: (run) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.serviceOrders.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.maquinas.all });
+      const created = run.created.length > 0
+        ? `OS abertas: ${run.created.map(order => order.orderNumber).join(", ")}.`
+        : "Nenhuma manutenção preventiva vencida sem OS.";
+      const skipped = run.skipped.length > 0 ? ` ${run.skipped.length} máquina(s) sem OS: ${run.skipped[0].reason}` : "";
+      toast({ title: "Verificação Concluída", description: created + skipped, variant: run.skipped.length > 0 ? "destructive" : "default" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Gerar OS Preventivas", description: `Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const openModal = useCallback((plan?: MaintenancePlan) => {
+    if (plan) {
+      setEditingPlan(plan);
+      setIsEditMode(false);
+      form.reset({
+        ...plan,
+        equipmentType: plan.equipmentType || null,
+        brand: plan.brand || "",
+      });
+    } else {
+      setEditingPlan(null);
+      setIsEditMode(true);
+      form.reset(emptyFormValues());
+    }
+    setIsModalOpen(true);
+  }, [form]);
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingPlan(null);
+    setIsEditMode(false);
+    form.reset(emptyFormValues());
+  };
+
+  const onSubmit = (values: MaintenancePlanFormValues) => {
+    if (editingPlan) {
+      updatePlanMutation.mutate({ id: editingPlan.id, data: values });
+    } else {
+      addPlanMutation.mutate(values);
+    }
+  };
+
+  const handleModalDeleteConfirm = () => {
+    if (editingPlan && window.confirm(`Tem certeza que deseja excluir o plano "${editingPlan.name}"?`)) {
+      deletePlanMutation.mutate(editingPlan.id);
+    }
+  };
+
+  const coveredMaquinaCount = useMemo(() => {
+    const counts = new Map<string, number>();
+    plans.forEach(plan => counts.set(plan.id, maquinaList.filter(maquina => maquina.operationalStatus !== "Sucata" && planAppliesTo(plan, maquina)).length));
+    return counts;
+  }, [plans, maquinaList]);
+
+  const isMutating = addPlanMutation.isPending || updatePlanMutation.isPending || deletePlanMutation.isPending || generateOrdersMutation.isPending;
+
+  if (!db) {
+    return <div className="text-red-500 p-4">Erro: Conexão com Firebase não disponível.</div>;
+  }
+  if ((isLoadingPlans || isLoadingMaquinas) && !isModalOpen) {
+    return <div className="flex justify-center items-center h-64"><Loader2 className="h-8 w-8 animate-spin text-primary" /><p className="ml-2">Carregando dados...</p></div>;
+  }
+  if (isErrorPlans) {
+    return <div className="text-red-500 p-4">Erro ao carregar planos: {errorPlans?.message}</div>;
+  }
+
+  return (
+    <>
+      <PageHeader
+        title=""
+        actions={(canManagePlans || canOpenPreventiveOrders) ? (
+          <div className="flex flex-wrap gap-2">
+            {canManagePlans && (
+              <Button onClick={() => openModal()} className="bg-primary hover:bg-primary/90" disabled={isMutating}>
+                <PlusCircle className="mr-2 h-4 w-4" /> Novo Plano
+              </Button>
+            )}
+            {canOpenPreventiveOrders && (
+              <Button variant="outline" onClick={() => generateOrdersMutation.mutate()} disabled={isMutating || plans.length === 0}>
+                {generateOrdersMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ClipboardList className="mr-2 h-4 w-4" />}
+                Gerar OS Preventivas
+              </Button>
+            )}
+          </div>
+        ) : undefined}
+      />
+      <p className="text-muted-foreground text-sm mb-6 -mt-4">
+        Planos de manutenção preventiva por horímetro. Quando a leitura de uma máquina atinge o intervalo de um plano, é aberta uma OS de &quot;Manutenção Preventiva&quot;; as próximas aparecem no Painel.
+      </p>
+
+      {plans.length === 0 ? (
+        <DataTablePlaceholder
+          icon={CalendarClock}
+          title="Nenhum Plano de Manutenção"
+          description="Cadastre os intervalos de revisão (ex.: 250, 500 e 1000 horas) por tipo ou marca de máquina."
+          buttonLabel={canManagePlans ? "Novo Plano" : undefined}
+          onButtonClick={canManagePlans ? () => openModal() : undefined}
+        />
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {plans.map((plan) => (
+            <Card key={plan.id} onClick={() => openModal(plan)} className="flex flex-col shadow-lg hover:shadow-xl transition-shadow duration-300 cursor-pointer">
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <CardTitle className="font-headline text-xl text-primary">{plan.name}</CardTitle>
+                  <span className={cn("px-2 py-0.5 rounded-full text-xs font-semibold", {
+                    "bg-green-100 text-green-700": plan.active,
+                    "bg-slate-100 text-slate-700": !plan.active,
+                  })}>
+                    {plan.active ? "Ativo" : "Inativo"}
+                  </span>
+                </div>
+                <CardDescription>{[plan.equipmentType || "Todos os tipos", plan.brand || "Todas as marcas"].join(" · ")}</CardDescription>
+              </CardHeader>
+              <CardContent className="flex-grow space-y-2 text-sm">
+                <p className="flex items-center">
+                  <Timer className="mr-2 h-4 w-4 text-primary flex-shrink-0" />
+                  <span className="font-medium text-muted-foreground mr-1">Intervalo:</span>
+                  a cada {plan.intervalHours}h
+                </p>
+                <p className="flex items-center">
+                  <Bell className="mr-2 h-4 w-4 text-primary flex-shrink-0" />
+                  <span className="font-medium text-muted-foreground mr-1">Aviso:</span>
+                  {plan.warningHours}h antes
+                </p>
+                <p className="flex items-center">
+                  <Construction className="mr-2 h-4 w-4 text-primary flex-shrink-0" />
+                  <span className="font-medium text-muted-foreground mr-1">Máquinas cobertas:</span>
+                  {coveredMaquinaCount.get(plan.id) ?? 0}
+                </p>
+                <p className="text-muted-foreground line-clamp-3 whitespace-pre-line">{plan.tasks}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <FormModal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        title={editingPlan ? "Editar Plano de Manutenção" : "Novo Plano de Manutenção"}
+        description="Intervalo em horas, máquinas a que se aplica e serviços a executar."
+        formId="maintenance-plan-form"
+        isSubmitting={isMutating}
+        editingItem={editingPlan}
+        onDeleteConfirm={canManagePlans ? handleModalDeleteConfirm : undefined}
+        isDeleting={deletePlanMutation.isPending}
+        deleteButtonLabel="Excluir Plano"
+        isEditMode={isEditMode}
+        onEditModeToggle={canManagePlans ? () => setIsEditMode(true) : undefined}
+        submitButtonLabel={editingPlan && !isEditMode ? "Editar" : (editingPlan ? "Salvar Alterações" : "Criar Plano")}
+      >
+        <DetailsHistoryTabs entityType="maintenancePlan" entityId={editingPlan?.id}>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} id="maintenance-plan-form" className="space-y-4">
+              <fieldset disabled={!!editingPlan && !isEditMode} className="space-y-4">
+                <FormField control={form.control} name="name" render={({ field }) => (
+                  <FormItem><FormLabel>Nome do Plano</FormLabel><FormControl><Input placeholder="Ex: Revisão 500h" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField control={form.control} name="equipmentType" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tipo de Máquina</FormLabel>
+                      <Select onValueChange={(value) => field.onChange(value === ALL_EQUIPMENT_TYPES_VALUE ? null : value)} value={field.value || ALL_EQUIPMENT_TYPES_VALUE}>
+                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                        <SelectContent>
+                          <SelectItem value={ALL_EQUIPMENT_TYPES_VALUE}>Todos os tipos</SelectItem>
+                          {maquinaTypeOptions.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                  <FormField control={form.control} name="brand" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Marca</FormLabel>
+                      <FormControl><Input placeholder="Todas as marcas" {...field} value={field.value ?? ""} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField control={form.control} name="intervalHours" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Intervalo (h)</FormLabel>
+                      <FormControl><Input type="number" min={1} {...field} /></FormControl>
+                      <FormDescription>OS a cada múltiplo deste valor do horímetro.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                  <FormField control={form.control} name="warningHours" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Aviso com Antecedência (h)</FormLabel>
+                      <FormControl><Input type="number" min={0} {...field} /></FormControl>
+                      <FormDescription>Mostra a máquina como próxima no Painel.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                </div>
+                <FormField control={form.control} name="tasks" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Serviços</FormLabel>
+                    <FormControl><Textarea rows={5} placeholder="Troca de óleo do motor, filtros, lubrificação da torre..." {...field} /></FormControl>
+                    <FormDescription>Copiados para a descrição da OS gerada.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+                <FormField control={form.control} name="active" render={({ field }) => (
+                  <FormItem className="flex flex-row items-center space-x-2 space-y-0">
+                    <FormControl><Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} /></FormControl>
+                    <FormLabel className="font-normal">Plano ativo</FormLabel>
+                  </FormItem>
+                )} />
+              </fieldset>
+            </form>
+          </Form>
+        </DetailsHistoryTabs>
+      </FormModal>
+    </>
+  );
+}
@@ -0,0 +1,17 @@
+"use client";
+
+import { MaintenancePlansClientPage } from "@/components/maintenance-plans/MaintenancePlansClientPage";
+import { useState, useEffect } from 'react';
+import type { FC } from 'react';
+
+export const MaintenancePlansPageContent: FC = () => {
+  const [isClient, setIsClient] = useState(false);
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  if (!isClient) {
+    return null;
+  }
+  return <MaintenancePlansClientPage />;
+}
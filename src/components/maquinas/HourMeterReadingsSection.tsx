@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { Timer, Loader2, PlusCircle } from "lucide-react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { HourMeterReading, Maquina } from "@/types";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { db } from "@/lib/firebase";
+import { fetchHourMeterReadings, recordHourMeterReading, generatePreventiveServiceOrders, queryKeys } from "@/lib/repositories";
+import { formatDateForDisplay } from "@/lib/utils";
+
+interface HourMeterReadingsSectionProps {
+  maquina: Maquina;
+  // Lets the open machine form follow the new value, so saving it does not write the old one back.
+  onRecorded?: (hours: number) => void;
+}
+
+// Dated hour-meter history of a machine. A new reading may cross a
+// maintenance plan threshold, so it is followed by the preventive OS check.
+export function HourMeterReadingsSection({ maquina, onRecorded }: HourMeterReadingsSectionProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { technician, can } = useAuth();
+  const canRecord = can("maquinas:manage") || can("serviceOrders:view");
+
+  const [hours, setHours] = useState("");
+  const [readingDate, setReadingDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+
+  const { data: readings = [], isLoading } = useQuery<HourMeterReading[], Error>({
+    queryKey: queryKeys.hourMeterReadings.byMaquina(maquina.id),
+    queryFn: () => fetchHourMeterReadings(maquina.id),
+    enabled: !!db,
+  });
+
+  const recordMutation = useMutation({
+    mutationFn: async () => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      await recordHourMeterReading({
+        equipmentId: maquina.id,
+        hours: hours === "" ? NaN : Number(hours),
+        readingDate,
+        recordedByName: technician?.name ?? null,
+      });
+      return can("serviceOrders:manage") ? generatePreventiveServiceOrders([maquina.id]) : null;
+    },
+    onSuccess: (run) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.hourMeterReadings.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.maquinas.all });
+      toast({ title: "Leitura Registrada", description: `Horímetro de ${maquina.brand} ${maquina.model}: ${hours}h.` });
+      if (run && run.created.length > 0) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.serviceOrders.all });
+        toast({ title: "Manutenção Preventiva", description: `OS ${run.created.map(order => order.orderNumber).join(", ")} aberta pelo plano de manutenção.` });
+      }
+      run?.skipped.forEach(skipped => {
+        toast({ title: "Manutenção Preventiva Vencida", description: skipped.reason, variant: "destructive" });
+      });
+      onRecorded?.(Number(hours));
+      setHours("");
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Registrar Leitura", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-3 pt-4">
+      <h3 className="text-md font-semibold border-b pb-1 font-headline flex items-center">
+        <Timer className="mr-2 h-4 w-4 text-primary" /> Leituras do Horímetro
+      </h3>
+      {canRecord && (
+        <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+          <div className="flex-1">
+            <Label htmlFor="hour-meter-reading">Horímetro (h)</Label>
+            <Input id="hour-meter-reading" type="number" min={0} step="0.1" value={hours} onChange={(e) => setHours(e.target.value)} placeholder={maquina.hourMeter != null ? `Atual: ${maquina.hourMeter}h` : ""} className="mt-1" />
+          </div>
+          <div className="flex-1">
+            <Label htmlFor="hour-meter-reading-date">Data</Label>
+            <Input id="hour-meter-reading-date" type="date" value={readingDate} onChange={(e) => setReadingDate(e.target.value)} className="mt-1" />
+          </div>
+          <Button type="button" variant="outline" onClick={() => recordMutation.mutate()} disabled={recordMutation.isPending || hours === "" || !readingDate}>
+            {recordMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PlusCircle className="mr-2 h-4 w-4" />}
+            Registrar
+          </Button>
+        </div>
+      )}
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground flex items-center"><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Carregando leituras...</p>
+      ) : readings.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhuma leitura registrada.</p>
+      ) : (
+        <ul className="max-h-48 overflow-y-auto divide-y text-sm">
+          {readings.map(reading => (
+            <li key={reading.id} className="flex justify-between py-1.5">
+              <span>{formatDateForDisplay(reading.readingDate)}</span>
+              <span className="font-medium">{reading.hours}h</span>
+              <span className="text-muted-foreground text-xs">{reading.source}{reading.recordedByName ? ` · ${reading.recordedByName}` : ""}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
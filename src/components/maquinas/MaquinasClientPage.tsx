@@ -18,9 +18,12 @@ import { MaquinaSchema, maquinaTypeOptions, maquinaOperationalStatusOptions, com
 import { PageHeader } from "@/components/shared/PageHeader";
 import { DataTablePlaceholder } from "@/components/shared/DataTablePlaceholder";
 import { FormModal } from "@/components/shared/FormModal";
+import { DetailsHistoryTabs } from "@/components/shared/DetailsHistoryTabs";
+import { HourMeterReadingsSection } from "@/components/maquinas/HourMeterReadingsSection";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
 import { db, storage } from "@/lib/firebase";
-import { collection, getDocs, addDoc, updateDoc, deleteDoc, doc, query, orderBy, setDoc, writeBatch, where } from "firebase/firestore";
+import { fetchMaquinas, fetchCustomers, fetchAuxiliaryEquipment, maquinaChassisNumberExists, newMaquinaId as generateMaquinaId, createMaquina, updateMaquina, updateMaquinaFields, deleteMaquina, generatePreventiveServiceOrders, queryKeys } from "@/lib/repositories";
 import { ref as storageRefFB, uploadBytes, getDownloadURL, deleteObject } from "firebase/storage"; // Renamed to avoid conflict with React ref
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Textarea } from "@/components/ui/textarea";
@@ -34,11 +37,6 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 
 
-const FIRESTORE_EQUIPMENT_COLLECTION_NAME = "equipamentos";
-const FIRESTORE_CUSTOMER_COLLECTION_NAME = "clientes";
-const FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME = "equipamentosAuxiliares";
-
-
 const NO_CUSTOMER_SELECT_ITEM_VALUE = "_NO_CUSTOMER_SELECTED_";
 const LOADING_CUSTOMERS_SELECT_ITEM_VALUE = "_LOADING_CUSTOMERS_";
 const NO_OWNER_REFERENCE_VALUE = "_NOT_SPECIFIED_";
@@ -100,75 +98,6 @@ async function deleteFileFromStorageFirebase(fileUrl?: string | null) {
   }
 }
 
-async function fetchMaquinas(): Promise<Maquina[]> {
-  if (!db) {
-    throw new Error("Firebase Firestore connection not available.");
-  }
-  const q = query(collection(db!, FIRESTORE_EQUIPMENT_COLLECTION_NAME), orderBy("brand", "asc"), orderBy("model", "asc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => {
-    const data = docSnap.data();
-    return {
-      id: docSnap.id,
-      brand: data.brand || "Marca Desconhecida",
-      model: data.model || "Modelo Desconhecido",
-      chassisNumber: data.chassisNumber || "N/A",
-      fleetNumber: data.fleetNumber || null,
-      equipmentType: (maquinaTypeOptions.includes(data.equipmentType as any) || typeof data.equipmentType === 'string') ? data.equipmentType : "Empilhadeira Contrabalançada GLP",
-      manufactureYear: parseNumericToNullOrNumber(data.manufactureYear),
-      operationalStatus: maquinaOperationalStatusOptions.includes(data.operationalStatus as any) ? data.operationalStatus : "Disponível",
-      customerId: data.customerId || null,
-      ownerReference: data.ownerReference || null,
-      towerOpenHeightMm: parseNumericToNullOrNumber(data.towerOpenHeightMm),
-      towerClosedHeightMm: parseNumericToNullOrNumber(data.towerClosedHeightMm),
-      nominalCapacityKg: parseNumericToNullOrNumber(data.nominalCapacityKg),
-      batteryBoxWidthMm: parseNumericToNullOrNumber(data.batteryBoxWidthMm),
-      batteryBoxHeightMm: parseNumericToNullOrNumber(data.batteryBoxHeightMm),
-      batteryBoxDepthMm: parseNumericToNullOrNumber(data.batteryBoxDepthMm),
-      monthlyRentalValue: parseNumericToNullOrNumber(data.monthlyRentalValue),
-      hourMeter: parseNumericToNullOrNumber(data.hourMeter),
-      notes: data.notes || null,
-      partsCatalogUrl: data.partsCatalogUrl || null,
-      errorCodesUrl: data.errorCodesUrl || null,
-      linkedAuxiliaryEquipmentIds: Array.isArray(data.linkedAuxiliaryEquipmentIds) ? data.linkedAuxiliaryEquipmentIds : null,
-      imageUrls: Array.isArray(data.imageUrls) ? data.imageUrls : null,
-    } as Maquina;
-  });
-}
-
-async function fetchCustomers(): Promise<Customer[]> {
-  if (!db) {
-    throw new Error("Firebase Firestore connection not available.");
-  }
-  const q = query(collection(db!, FIRESTORE_CUSTOMER_COLLECTION_NAME), orderBy("name", "asc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Customer));
-}
-
-async function fetchAllAuxiliaryEquipments(): Promise<AuxiliaryEquipment[]> {
-    if (!db) {
-        console.error("fetchAllAuxiliaryEquipments: Firebase DB is not available.");
-        throw new Error("Firebase DB is not available");
-    }
-    const q = query(collection(db, FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME), orderBy("name", "asc"));
-    const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as AuxiliaryEquipment));
-}
-
-async function checkChassisNumberExists(chassisNumber: string, currentMaquinaId?: string): Promise<boolean> {
-  if (!db || !chassisNumber) return false;
-  const q = query(collection(db, FIRESTORE_EQUIPMENT_COLLECTION_NAME), where("chassisNumber", "==", chassisNumber));
-  const querySnapshot = await getDocs(q);
-  if (querySnapshot.empty) {
-    return false;
-  }
-  if (currentMaquinaId) {
-    return querySnapshot.docs.some(doc => doc.id !== currentMaquinaId);
-  }
-  return true;
-}
-
-
 interface MaquinasClientPageProps {
   maquinaIdFromUrl?: string | null;
   initialStatusFilter?: string | null;
@@ -177,6 +106,9 @@ interface MaquinasClientPageProps {
 export function MaquinasClientPage({ maquinaIdFromUrl, initialStatusFilter }: MaquinasClientPageProps) {
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canManage = can("maquinas:manage");
+  const canOpenPreventiveOrders = can("serviceOrders:manage");
 
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingMaquina, setEditingMaquina] = useState<Maquina | null>(null);
@@ -245,20 +177,20 @@ export function MaquinasClientPage({ maquinaIdFromUrl, initialStatusFilter }: Ma
 
 
   const { data: maquinaList = [], isLoading: isLoadingMaquinas, isError: isErrorMaquinas, error: errorMaquinasData } = useQuery<Maquina[], Error>({
-    queryKey: [FIRESTORE_EQUIPMENT_COLLECTION_NAME],
+    queryKey: queryKeys.maquinas.all,
     queryFn: fetchMaquinas,
     enabled: !!db,
   });
 
   const { data: customers = [], isLoading: isLoadingCustomers } = useQuery<Customer[], Error>({
-    queryKey: [FIRESTORE_CUSTOMER_COLLECTION_NAME],
+    queryKey: queryKeys.customers.all,
     queryFn: fetchCustomers,
     enabled: !!db,
   });
 
   const { data: allAuxiliaryEquipments = [], isLoading: isLoadingAuxiliaryEquipment } = useQuery<AuxiliaryEquipment[], Error>({
-    queryKey: [FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME],
-    queryFn: fetchAllAuxiliaryEquipments,
+    queryKey: queryKeys.auxiliaryEquipment.all,
+    queryFn: fetchAuxiliaryEquipment,
     enabled: !!db,
   });
 
@@ -468,13 +400,13 @@ export function MaquinasClientPage({ maquinaIdFromUrl, initialStatusFilter }: Ma
       if (!db || !storage) {
         throw new Error("Firebase Firestore ou Storage connection not available.");
       }
-      const chassisExists = await checkChassisNumberExists(data.formData.chassisNumber);
+      const chassisExists = await maquinaChassisNumberExists(data.formData.chassisNumber);
       if (chassisExists) {
         throw new Error(`Já existe uma máquina cadastrada com o chassi: ${data.formData.chassisNumber}`);
       }
 
       setIsUploadingFiles(true);
-      const newMaquinaId = doc(collection(db!, FIRESTORE_EQUIPMENT_COLLECTION_NAME)).id;
+      const newMaquinaId = generateMaquinaId();
       let partsCatalogUrl: string | null = null;
       let errorCodesUrl: string | null = null;
       const uploadedImageUrls: string[] = [];
@@ -493,21 +425,12 @@ export function MaquinasClientPage({ maquinaIdFromUrl, initialStatusFilter }: Ma
 
 
       const maquinaDataForFirestore = prepareDataForFirestore(data.formData, partsCatalogUrl, errorCodesUrl, uploadedImageUrls);
-      const batch = writeBatch(db!);
-
-      batch.set(doc(db!, FIRESTORE_EQUIPMENT_COLLECTION_NAME, newMaquinaId), maquinaDataForFirestore);
-
-      const auxIdsToLink = maquinaDataForFirestore.linkedAuxiliaryEquipmentIds || [];
-      for (const auxId of auxIdsToLink) {
-        const auxRef = doc(db!, FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME, auxId);
-        batch.update(auxRef, { linkedEquipmentId: newMaquinaId });
-      }
-      await batch.commit();
+      await createMaquina(newMaquinaId, maquinaDataForFirestore);
       return { ...maquinaDataForFirestore, id: newMaquinaId };
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_EQUIPMENT_COLLECTION_NAME] });
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.maquinas.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.auxiliaryEquipment.all });
       toast({ title: "Máquina Criada", description: `${data.brand} ${data.model} adicionada.` });
       closeModal();
     },
@@ -532,7 +455,7 @@ export function MaquinasClientPage({ maquinaIdFromUrl, initialStatusFilter }: Ma
         throw new Error("Firebase Firestore ou Storage connection not available.");
       }
       if (data.formData.chassisNumber !== data.currentMaquina.chassisNumber) {
-        const chassisExists = await checkChassisNumberExists(data.formData.chassisNumber, data.id);
+        const chassisExists = await maquinaChassisNumberExists(data.formData.chassisNumber, data.id);
         if (chassisExists) {
           throw new Error(`O número do chassi ${data.formData.chassisNumber} já está em uso por outra máquina.`);
         }
@@ -567,31 +490,20 @@ export function MaquinasClientPage({ maquinaIdFromUrl, initialStatusFilter }: Ma
 
 
       const maquinaDataForFirestore = prepareDataForFirestore(data.formData, newPartsCatalogUrl, newErrorCodesUrl, finalImageUrls);
-      const batch = writeBatch(db!);
-      const maquinaRef = doc(db!, FIRESTORE_EQUIPMENT_COLLECTION_NAME, data.id);
-      batch.update(maquinaRef, maquinaDataForFirestore as { [x: string]: any });
-
-      const oldLinkedIds = data.currentMaquina.linkedAuxiliaryEquipmentIds || [];
-      const newLinkedIds = maquinaDataForFirestore.linkedAuxiliaryEquipmentIds || [];
-
-      const idsToUnlink = oldLinkedIds.filter(id => !newLinkedIds.includes(id));
-      const idsToLink = newLinkedIds.filter(id => !oldLinkedIds.includes(id));
-
-      for (const auxId of idsToUnlink) {
-        const auxRef = doc(db!, FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME, auxId);
-        batch.update(auxRef, { linkedEquipmentId: null });
-      }
-      for (const auxId of idsToLink) {
-        const auxRef = doc(db!, FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME, auxId);
-        batch.update(auxRef, { linkedEquipmentId: data.id });
-      }
-      await batch.commit();
-      return { ...maquinaDataForFirestore, id: data.id };
+      await updateMaquina(data.id, maquinaDataForFirestore, data.currentMaquina.linkedAuxiliaryEquipmentIds || []);
+      const hourMeterChanged = maquinaDataForFirestore.hourMeter !== (data.currentMaquina.hourMeter ?? null);
+      const preventiveRun = hourMeterChanged && canOpenPreventiveOrders ? await generatePreventiveServiceOrders([data.id]) : null;
+      return { ...maquinaDataForFirestore, id: data.id, preventiveOrderNumbers: preventiveRun?.created.map(order => order.orderNumber) ?? [] };
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_EQUIPMENT_COLLECTION_NAME] });
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.maquinas.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.auxiliaryEquipment.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.hourMeterReadings.all });
       toast({ title: "Máquina Atualizada", description: `${data.brand} ${data.model} atualizada.` });
+      if (data.preventiveOrderNumbers.length > 0) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.serviceOrders.all });
+        toast({ title: "Manutenção Preventiva", description: `OS ${data.preventiveOrderNumbers.join(", ")} aberta pelo plano de manutenção.` });
+      }
       closeModal();
     },
     onError: (err: Error, variables) => {
@@ -607,12 +519,11 @@ export function MaquinasClientPage({ maquinaIdFromUrl, initialStatusFilter }: Ma
         throw new Error("Firebase Firestore ou Storage connection not available.");
       }
       await deleteFileFromStorageFirebase(data.fileUrl);
-      const maquinaRef = doc(db!, FIRESTORE_EQUIPMENT_COLLECTION_NAME, data.maquinaId);
-      await updateDoc(maquinaRef, { [data.fileType]: null });
+      await updateMaquinaFields(data.maquinaId, { [data.fileType]: null });
       return { maquinaId: data.maquinaId, fileType: data.fileType };
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_EQUIPMENT_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.maquinas.all });
       if(editingMaquina && editingMaquina.id === data.maquinaId){
         setEditingMaquina(prev => prev ? ({...prev, [data.fileType]: null}) : null);
         form.setValue(data.fileType, null);
@@ -641,22 +552,12 @@ export function MaquinasClientPage({ maquinaIdFromUrl, initialStatusFilter }: Ma
         }
       }
 
-      const batch = writeBatch(db!);
-      const maquinaRef = doc(db!, FIRESTORE_EQUIPMENT_COLLECTION_NAME, id);
-      batch.delete(maquinaRef);
-
-      if (linkedAuxiliaryEquipmentIds && linkedAuxiliaryEquipmentIds.length > 0) {
-        for (const auxId of linkedAuxiliaryEquipmentIds) {
-          const auxRef = doc(db!, FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME, auxId);
-          batch.update(auxRef, { linkedEquipmentId: null });
-        }
-      }
-      await batch.commit();
+      await deleteMaquina(id, linkedAuxiliaryEquipmentIds || []);
       return id;
     },
     onSuccess: (deletedMaquinaId) => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_EQUIPMENT_COLLECTION_NAME] });
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.maquinas.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.auxiliaryEquipment.all });
       toast({ title: "Máquina Excluída", description: "A máquina e seus arquivos foram removidos." });
       closeModal();
     },
@@ -847,11 +748,11 @@ export function MaquinasClientPage({ maquinaIdFromUrl, initialStatusFilter }: Ma
   return (
     <>
       <PageHeader title=""
-        actions={
+        actions={canManage ? (
           <Button onClick={() => openModal()} className="bg-primary hover:bg-primary/90" disabled={isMutating}>
             <PlusCircle className="mr-2 h-4 w-4" /> Adicionar Máquina
           </Button>
-        }
+        ) : undefined}
       />
       <p className="text-muted-foreground text-sm mb-6 -mt-4">
         Gerencie sua frota de máquinas. Cadastre novos equipamentos, edite detalhes técnicos, status operacional e vincule a clientes e auxiliares.
@@ -891,8 +792,8 @@ export function MaquinasClientPage({ maquinaIdFromUrl, initialStatusFilter }: Ma
           icon={Construction}
           title="Nenhuma Máquina Registrada"
           description="Adicione sua primeira máquina para começar a rastrear."
-          buttonLabel="Adicionar Máquina"
-          onButtonClick={() => openModal()}
+          buttonLabel={canManage ? "Adicionar Máquina" : undefined}
+          onButtonClick={canManage ? () => openModal() : undefined}
         />
       ) : filteredMaquinaList.length === 0 ? (
           <div className="text-center py-10">
@@ -1110,380 +1011,391 @@ export function MaquinasClientPage({ maquinaIdFromUrl, initialStatusFilter }: Ma
         formId="maquina-form"
         isSubmitting={isMutating}
         editingItem={editingMaquina}
-        onDeleteConfirm={handleModalDeleteConfirm}
+        onDeleteConfirm={canManage ? handleModalDeleteConfirm : undefined}
         isEditMode={isEditMode}
-        onEditModeToggle={() => setIsEditMode(true)}
+        onEditModeToggle={canManage ? () => setIsEditMode(true) : undefined}
         isDeleting={deleteMaquinaMutation.isPending}
         deleteButtonLabel={deleteMaquinaMutation.isPending ? "Excluindo..." : "Excluir Máquina"}
       >
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} id="maquina-form" className="space-y-4">
-            <fieldset disabled={!!editingMaquina && !isEditMode} className="space-y-4">
-                <h3 className="text-md font-semibold pt-2 border-b pb-1 font-headline">Informações Básicas</h3>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <FormField control={form.control} name="brand" render={({ field }) => (
+        <DetailsHistoryTabs entityType="maquina" entityId={editingMaquina?.id}>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} id="maquina-form" className="space-y-4">
+              <fieldset disabled={!!editingMaquina && !isEditMode} className="space-y-4">
+                  <h3 className="text-md font-semibold pt-2 border-b pb-1 font-headline">Informações Básicas</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <FormField control={form.control} name="brand" render={({ field }) => (
+                      <FormItem>
+                          <FormLabel>Marca</FormLabel>
+                          <Select onValueChange={(value) => handleSelectChange('brand', value)} value={field.value}>
+                          <FormControl><SelectTrigger><SelectValue placeholder="Selecione ou digite" /></SelectTrigger></FormControl>
+                          <SelectContent>
+                              {predefinedBrandOptionsList.map(option => (
+                              <SelectItem key={option} value={option}>{option}</SelectItem>
+                              ))}
+                              <SelectItem value="_CUSTOM_">Digitar Marca...</SelectItem>
+                          </SelectContent>
+                          </Select>
+                          {showCustomFields.brand && (
+                          <FormField control={form.control} name="customBrand" render={({ field: customField }) => (
+                              <FormItem className="mt-2">
+                              <FormControl><Input placeholder="Digite a marca" {...customField} value={customField.value ?? ""} /></FormControl>
+                              <FormMessage />
+                              </FormItem>
+                          )} />
+                          )}
+                          <FormMessage />
+                      </FormItem>
+                      )} />
+
+                      <FormField control={form.control} name="model" render={({ field }) => (
+                      <FormItem>
+                          <FormLabel>Modelo</FormLabel>
+                          <FormControl><Input placeholder="Ex: 8FGCU25, S25" {...field} value={field.value ?? ""} /></FormControl>
+                          <FormMessage />
+                      </FormItem>
+                      )} />
+                  </div>
+
+                <FormField control={form.control} name="chassisNumber" render={({ field }) => (
+                  <FormItem><FormLabel>Número do Chassi</FormLabel><FormControl><Input placeholder="Número único do chassi" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                 <FormField control={form.control} name="fleetNumber" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Número da Frota (Opcional)</FormLabel>
+                    <FormControl><Input placeholder="Ex: GM001, F-123" {...field} value={field.value ?? ""} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+
+                <FormField
+                  control={form.control}
+                  name="ownerReference"
+                  render={({ field }) => (
                     <FormItem>
-                        <FormLabel>Marca</FormLabel>
-                        <Select onValueChange={(value) => handleSelectChange('brand', value)} value={field.value}>
-                        <FormControl><SelectTrigger><SelectValue placeholder="Selecione ou digite" /></SelectTrigger></FormControl>
+                      <FormLabel>Propriedade</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(value === NO_OWNER_REFERENCE_VALUE ? null : value as OwnerReferenceType)}
+                        value={field.value || NO_OWNER_REFERENCE_VALUE}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Selecione o proprietário" />
+                          </SelectTrigger>
+                        </FormControl>
                         <SelectContent>
-                            {predefinedBrandOptionsList.map(option => (
-                            <SelectItem key={option} value={option}>{option}</SelectItem>
-                            ))}
-                            <SelectItem value="_CUSTOM_">Digitar Marca...</SelectItem>
+                          <SelectItem value={NO_OWNER_REFERENCE_VALUE}>Não Especificado / Outro</SelectItem>
+                          {companyDisplayOptions.map((company) => (
+                            <SelectItem key={company.id} value={company.id}>
+                              {company.name}
+                            </SelectItem>
+                          ))}
+                          <SelectItem value={OWNER_REF_CUSTOMER}>Cliente Vinculado</SelectItem>
                         </SelectContent>
-                        </Select>
-                        {showCustomFields.brand && (
-                        <FormField control={form.control} name="customBrand" render={({ field: customField }) => (
-                            <FormItem className="mt-2">
-                            <FormControl><Input placeholder="Digite a marca" {...customField} value={customField.value ?? ""} /></FormControl>
-                            <FormMessage />
-                            </FormItem>
-                        )} />
-                        )}
-                        <FormMessage />
+                      </Select>
+                      {field.value === OWNER_REF_CUSTOMER && !form.getValues("customerId") && (
+                         <FormDescription className="text-destructive">Atenção: Vincule um cliente abaixo para esta opção.</FormDescription>
+                      )}
+                      <FormMessage />
                     </FormItem>
-                    )} />
+                  )}
+                />
 
-                    <FormField control={form.control} name="model" render={({ field }) => (
+                <FormField control={form.control} name="customerId" render={({ field }) => (
                     <FormItem>
-                        <FormLabel>Modelo</FormLabel>
-                        <FormControl><Input placeholder="Ex: 8FGCU25, S25" {...field} value={field.value ?? ""} /></FormControl>
-                        <FormMessage />
+                      <FormLabel>Cliente Associado (Serviço/Locação)</FormLabel>
+                      <Select
+                        onValueChange={(selectedValue) => field.onChange(selectedValue === NO_CUSTOMER_SELECT_ITEM_VALUE ? null : selectedValue)}
+                        value={field.value || NO_CUSTOMER_SELECT_ITEM_VALUE}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder={isLoadingCustomers ? "Carregando clientes..." : "Selecione um cliente"} />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {isLoadingCustomers ? (
+                            <SelectItem value={LOADING_CUSTOMERS_SELECT_ITEM_VALUE} disabled>Carregando...</SelectItem>
+                          ) : (
+                            <>
+                              <SelectItem value={NO_CUSTOMER_SELECT_ITEM_VALUE}>Nenhum</SelectItem>
+                              {customers.map((cust) => (
+                                <SelectItem key={cust.id} value={cust.id}>
+                                  {toTitleCase(cust.name)}{cust.fantasyName ? ` (${toTitleCase(cust.fantasyName)})` : ''}
+                                </SelectItem>
+                              ))}
+                            </>
+                          )}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
                     </FormItem>
-                    )} />
-                </div>
+                  )} />
 
-              <FormField control={form.control} name="chassisNumber" render={({ field }) => (
-                <FormItem><FormLabel>Número do Chassi</FormLabel><FormControl><Input placeholder="Número único do chassi" {...field} /></FormControl><FormMessage /></FormItem>
-              )} />
-               <FormField control={form.control} name="fleetNumber" render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Número da Frota (Opcional)</FormLabel>
-                  <FormControl><Input placeholder="Ex: GM001, F-123" {...field} value={field.value ?? ""} /></FormControl>
-                  <FormMessage />
-                </FormItem>
-              )} />
 
-              <FormField
-                control={form.control}
-                name="ownerReference"
-                render={({ field }) => (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField control={form.control} name="equipmentType" render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Propriedade</FormLabel>
-                    <Select
-                      onValueChange={(value) => field.onChange(value === NO_OWNER_REFERENCE_VALUE ? null : value as OwnerReferenceType)}
-                      value={field.value || NO_OWNER_REFERENCE_VALUE}
-                    >
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Selecione o proprietário" />
-                        </SelectTrigger>
-                      </FormControl>
+                    <FormLabel>Tipo de Máquina</FormLabel>
+                    <Select onValueChange={(value) => handleSelectChange('equipmentType', value)} value={field.value}>
+                      <FormControl><SelectTrigger><SelectValue placeholder="Selecione o tipo" /></SelectTrigger></FormControl>
                       <SelectContent>
-                        <SelectItem value={NO_OWNER_REFERENCE_VALUE}>Não Especificado / Outro</SelectItem>
-                        {companyDisplayOptions.map((company) => (
-                          <SelectItem key={company.id} value={company.id}>
-                            {company.name}
-                          </SelectItem>
-                        ))}
-                        <SelectItem value={OWNER_REF_CUSTOMER}>Cliente Vinculado</SelectItem>
+                        {maquinaTypeOptions.map(opt => <SelectItem key={opt} value={opt}>{opt}</SelectItem>)}
+                        <SelectItem value="_CUSTOM_">Digitar Tipo...</SelectItem>
                       </SelectContent>
                     </Select>
-                    {field.value === OWNER_REF_CUSTOMER && !form.getValues("customerId") && (
-                       <FormDescription className="text-destructive">Atenção: Vincule um cliente abaixo para esta opção.</FormDescription>
+                    {showCustomFields.equipmentType && (
+                      <FormField control={form.control} name="customEquipmentType" render={({ field: customField }) => (
+                       <FormItem className="mt-2">
+                          <FormControl><Input placeholder="Digite o tipo" {...customField} value={customField.value ?? ""} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
                     )}
                     <FormMessage />
                   </FormItem>
-                )}
-              />
+                )} />
+                <FormField control={form.control} name="manufactureYear" render={({ field }) => (
+                  <FormItem><FormLabel>Ano de Fabricação</FormLabel><FormControl><Input type="number" placeholder="Ex: 2022" {...field} value={field.value ?? ""} onChange={e => field.onChange(e.target.value === '' ? null : parseInt(e.target.value,10))} /></FormControl><FormMessage /></FormItem>
+                )} />
+              </div>
+              <FormField control={form.control} name="operationalStatus" render={({ field }) => (
+               <FormItem><FormLabel>Status Operacional</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl><SelectTrigger><SelectValue placeholder="Selecione o status" /></SelectTrigger></FormControl>
+                    <SelectContent>
+                      {maquinaOperationalStatusOptions.map(opt => <SelectItem key={opt} value={opt}>{opt}</SelectItem>)}
+                    </SelectContent>
+                  </Select><FormMessage />
+                </FormItem>
+              )} />
 
-              <FormField control={form.control} name="customerId" render={({ field }) => (
+              <h3 className="text-md font-semibold pt-4 border-b pb-1 font-headline">Equipamentos Auxiliares Vinculados</h3>
+              <FormField
+                control={form.control}
+                name="linkedAuxiliaryEquipmentIds"
+                render={({ field: { onChange, value } }) => (
                   <FormItem>
-                    <FormLabel>Cliente Associado (Serviço/Locação)</FormLabel>
-                    <Select
-                      onValueChange={(selectedValue) => field.onChange(selectedValue === NO_CUSTOMER_SELECT_ITEM_VALUE ? null : selectedValue)}
-                      value={field.value || NO_CUSTOMER_SELECT_ITEM_VALUE}
-                    >
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder={isLoadingCustomers ? "Carregando clientes..." : "Selecione um cliente"} />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        {isLoadingCustomers ? (
-                          <SelectItem value={LOADING_CUSTOMERS_SELECT_ITEM_VALUE} disabled>Carregando...</SelectItem>
-                        ) : (
-                          <>
-                            <SelectItem value={NO_CUSTOMER_SELECT_ITEM_VALUE}>Nenhum</SelectItem>
-                            {customers.map((cust) => (
-                              <SelectItem key={cust.id} value={cust.id}>
-                                {toTitleCase(cust.name)}{cust.fantasyName ? ` (${toTitleCase(cust.fantasyName)})` : ''}
-                              </SelectItem>
-                            ))}
-                          </>
+                    <Popover open={isAuxiliaryEquipmentPopoverOpen} onOpenChange={setIsAuxiliaryEquipmentPopoverOpen}>
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <Button
+                            variant="outline"
+                            role="combobox"
+                            aria-expanded={isAuxiliaryEquipmentPopoverOpen}
+                            className="w-full justify-between font-normal"
+                          >
+                            {Array.isArray(value) && value && value.length > 0
+                              ? `${value.length} selecionado(s)`
+                              : "Selecionar equipamentos..."}
+                             <Layers className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+                          </Button>
+                        </FormControl>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-[--radix-popover-trigger-width] p-0">
+                        {isLoadingAuxiliaryEquipment ? (
+                          <div className="flex justify-center items-center p-4">
+                            <Loader2 className="h-4 w-4 animate-spin mr-2" /> Carregando...
+                          </div>
+                        ) : allAuxiliaryEquipments.length === 0 ? (
+                          <div className="p-4 text-sm text-center text-muted-foreground">
+                              Nenhum equipamento auxiliar cadastrado.
+                          </div>
+                         ) : (
+                          <Command>
+                            <CommandInput placeholder="Buscar equipamento auxiliar..." />
+                            <CommandList className="max-h-[200px]">
+                              <CommandEmpty>Nenhum equipamento encontrado.</CommandEmpty>
+                              <CommandGroup>
+                                {allAuxiliaryEquipments?.map((equipment) => (
+                                  <CommandItem
+                                    key={equipment.id}
+                                    value={equipment.name}
+                                    onSelect={() => {
+                                      const currentVal = Array.isArray(value) ? value : [];
+                                      onChange(currentVal?.includes(equipment.id) ? currentVal.filter((id: string) => id !== equipment.id) : [...(currentVal || []), equipment.id]);
+                                    }}
+                                  >
+                                    <Checkbox
+                                      checked={Array.isArray(value) && value?.includes(equipment.id)}
+                                      onCheckedChange={() => handleAuxiliaryEquipmentSelect(equipment.id)}
+                                      className="mr-2"
+                                      aria-labelledby={`aux-label-${equipment.id}`}
+                                    />
+                                    <Label htmlFor={`aux-label-${equipment.id}`} className="flex-grow cursor-pointer">
+                                      {equipment.name} ({equipment.type})
+                                    </Label>
+                                    {Array.isArray(value) && value?.includes(equipment.id) && (
+                                      <Check className="ml-auto h-4 w-4 text-primary" />
+                                    )}
+                                  </CommandItem>
+                                ))}
+                              </CommandGroup>
+                            </CommandList>
+                          </Command>
                         )}
-                      </SelectContent>
-                    </Select>
+                      </PopoverContent>
+                    </Popover>
                     <FormMessage />
+                     {Array.isArray(value) && value && value.length > 0 && (
+                      <div className="mt-2 text-sm text-muted-foreground">
+                        <strong>Selecionados:</strong> {value.map((id: string) => allAuxiliaryEquipments?.find(eq => eq.id === id)?.name).filter(Boolean).join(", ")}
+                      </div>
+                    )}
                   </FormItem>
-                )} />
+                )}
+              />
 
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <FormField control={form.control} name="equipmentType" render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Tipo de Máquina</FormLabel>
-                  <Select onValueChange={(value) => handleSelectChange('equipmentType', value)} value={field.value}>
-                    <FormControl><SelectTrigger><SelectValue placeholder="Selecione o tipo" /></SelectTrigger></FormControl>
-                    <SelectContent>
-                      {maquinaTypeOptions.map(opt => <SelectItem key={opt} value={opt}>{opt}</SelectItem>)}
-                      <SelectItem value="_CUSTOM_">Digitar Tipo...</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  {showCustomFields.equipmentType && (
-                    <FormField control={form.control} name="customEquipmentType" render={({ field: customField }) => (
-                     <FormItem className="mt-2">
-                        <FormControl><Input placeholder="Digite o tipo" {...customField} value={customField.value ?? ""} /></FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )} />
-                  )}
-                  <FormMessage />
-                </FormItem>
-              )} />
-              <FormField control={form.control} name="manufactureYear" render={({ field }) => (
-                <FormItem><FormLabel>Ano de Fabricação</FormLabel><FormControl><Input type="number" placeholder="Ex: 2022" {...field} value={field.value ?? ""} onChange={e => field.onChange(e.target.value === '' ? null : parseInt(e.target.value,10))} /></FormControl><FormMessage /></FormItem>
-              )} />
-            </div>
-            <FormField control={form.control} name="operationalStatus" render={({ field }) => (
-             <FormItem><FormLabel>Status Operacional</FormLabel>
-                <Select onValueChange={field.onChange} value={field.value}>
-                  <FormControl><SelectTrigger><SelectValue placeholder="Selecione o status" /></SelectTrigger></FormControl>
-                  <SelectContent>
-                    {maquinaOperationalStatusOptions.map(opt => <SelectItem key={opt} value={opt}>{opt}</SelectItem>)}
-                  </SelectContent>
-                </Select><FormMessage />
-              </FormItem>
-            )} />
-
-            <h3 className="text-md font-semibold pt-4 border-b pb-1 font-headline">Equipamentos Auxiliares Vinculados</h3>
-            <FormField
-              control={form.control}
-              name="linkedAuxiliaryEquipmentIds"
-              render={({ field: { onChange, value } }) => (
-                <FormItem>
-                  <Popover open={isAuxiliaryEquipmentPopoverOpen} onOpenChange={setIsAuxiliaryEquipmentPopoverOpen}>
-                    <PopoverTrigger asChild>
+                <h3 className="text-md font-semibold pt-4 border-b pb-1 font-headline">Especificações Técnicas (Opcional)</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                <FormField control={form.control} name="towerOpenHeightMm" render={({ field }) => (
+                  <FormItem><FormLabel>H3 - Torre Aberta (mm)</FormLabel><FormControl><Input type="number" {...field} value={field.value ?? ""} onChange={e => field.onChange(e.target.value === '' ? null : parseInt(e.target.value, 10))} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="towerClosedHeightMm" render={({ field }) => (
+                  <FormItem><FormLabel>H1 - Torre Fechada (mm)</FormLabel><FormControl><Input type="number" {...field} value={field.value ?? ""} onChange={e => field.onChange(e.target.value === '' ? null : parseInt(e.target.value, 10))} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="nominalCapacityKg" render={({ field }) => (
+                  <FormItem><FormLabel>Capacidade Nominal (kg)</FormLabel><FormControl><Input type="number" {...field} value={field.value ?? ""} onChange={e => field.onChange(e.target.value === '' ? null : parseInt(e.target.value, 10))} /></FormControl><FormMessage /></FormItem>
+                )} />
+              </div>
+              <h3 className="text-md font-semibold pt-4 border-b pb-1 font-headline">Dimensões Caixa de Bateria (Opcional)</h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <FormField control={form.control} name="batteryBoxWidthMm" render={({ field }) => (
+                      <FormItem><FormLabel>Largura (mm)</FormLabel><FormControl><Input type="number" {...field} value={field.value ?? ""} onChange={e => field.onChange(e.target.value === '' ? null : parseInt(e.target.value, 10))} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                  <FormField control={form.control} name="batteryBoxHeightMm" render={({ field }) => (
+                      <FormItem><FormLabel>Altura (mm)</FormLabel><FormControl><Input type="number" {...field} value={field.value ?? ""} onChange={e => field.onChange(e.target.value === '' ? null : parseInt(e.target.value, 10))} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                  <FormField control={form.control} name="batteryBoxDepthMm" render={({ field }) => (
+                      <FormItem><FormLabel>Comprimento (mm)</FormLabel><FormControl><Input type="number" {...field} value={field.value ?? ""} onChange={e => field.onChange(e.target.value === '' ? null : parseInt(e.target.value, 10))} /></FormControl><FormMessage /></FormItem>
+                  )} />
+              </div>
+
+               <h3 className="text-md font-semibold pt-4 border-b pb-1 font-headline">Imagens da Máquina (Máx. {MAX_IMAGE_FILES})</h3>
+                  <FormItem>
+                      <FormLabel htmlFor="machine-images-upload">Adicionar Imagens</FormLabel>
                       <FormControl>
-                        <Button
-                          variant="outline"
-                          role="combobox"
-                          aria-expanded={isAuxiliaryEquipmentPopoverOpen}
-                          className="w-full justify-between font-normal"
-                        >
-                          {Array.isArray(value) && value && value.length > 0
-                            ? `${value.length} selecionado(s)`
-                            : "Selecionar equipamentos..."}
-                           <Layers className="ml-2 h-4 w-4 shrink-0 opacity-50" />
-                        </Button>
+                          <Input
+                              id="machine-images-upload"
+                              type="file"
+                              multiple
+                              accept="image/jpeg, image/png, image/webp"
+                              onChange={handleImageFilesChange}
+                              disabled={isUploadingFiles || imagePreviews.length + imageFilesToUpload.length >= MAX_IMAGE_FILES}
+                          />
                       </FormControl>
-                    </PopoverTrigger>
-                    <PopoverContent className="w-[--radix-popover-trigger-width] p-0">
-                      {isLoadingAuxiliaryEquipment ? (
-                        <div className="flex justify-center items-center p-4">
-                          <Loader2 className="h-4 w-4 animate-spin mr-2" /> Carregando...
-                        </div>
-                      ) : allAuxiliaryEquipments.length === 0 ? (
-                        <div className="p-4 text-sm text-center text-muted-foreground">
-                            Nenhum equipamento auxiliar cadastrado.
-                        </div>
-                       ) : (
-                        <Command>
-                          <CommandInput placeholder="Buscar equipamento auxiliar..." />
-                          <CommandList className="max-h-[200px]">
-                            <CommandEmpty>Nenhum equipamento encontrado.</CommandEmpty>
-                            <CommandGroup>
-                              {allAuxiliaryEquipments?.map((equipment) => (
-                                <CommandItem
-                                  key={equipment.id}
-                                  value={equipment.name}
-                                  onSelect={() => {
-                                    const currentVal = Array.isArray(value) ? value : [];
-                                    onChange(currentVal?.includes(equipment.id) ? currentVal.filter((id: string) => id !== equipment.id) : [...(currentVal || []), equipment.id]);
-                                  }}
-                                >
-                                  <Checkbox
-                                    checked={Array.isArray(value) && value?.includes(equipment.id)}
-                                    onCheckedChange={() => handleAuxiliaryEquipmentSelect(equipment.id)}
-                                    className="mr-2"
-                                    aria-labelledby={`aux-label-${equipment.id}`}
-                                  />
-                                  <Label htmlFor={`aux-label-${equipment.id}`} className="flex-grow cursor-pointer">
-                                    {equipment.name} ({equipment.type})
-                                  </Label>
-                                  {Array.isArray(value) && value?.includes(equipment.id) && (
-                                    <Check className="ml-auto h-4 w-4 text-primary" />
-                                  )}
-                                </CommandItem>
-                              ))}
-                            </CommandGroup>
-                          </CommandList>
-                        </Command>
-                      )}
-                    </PopoverContent>
-                  </Popover>
-                  <FormMessage />
-                   {Array.isArray(value) && value && value.length > 0 && (
-                    <div className="mt-2 text-sm text-muted-foreground">
-                      <strong>Selecionados:</strong> {value.map((id: string) => allAuxiliaryEquipments?.find(eq => eq.id === id)?.name).filter(Boolean).join(", ")}
-                    </div>
+                      <FormDescription>
+                          Total de imagens: {imagePreviews.length + imageFilesToUpload.length - (editingMaquina?.imageUrls?.filter(url => imagePreviews.includes(url)).length || 0) } de {MAX_IMAGE_FILES}.
+                      </FormDescription>
+                      <FormMessage />
+                  </FormItem>
+                  {(imagePreviews.length > 0 || imageFilesToUpload.length > 0) && (
+                      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-2 mt-2">
+                          {imagePreviews.map((previewUrl, index) => {
+                              const isExisting = (editingMaquina?.imageUrls || []).includes(previewUrl) && previewUrl.startsWith('https://firebasestorage.googleapis.com');
+                              return (
+                                  <div key={`preview-${index}`} className="relative group aspect-square">
+                                      <NextImage
+                                          src={previewUrl}
+                                          alt={`Preview ${index + 1}`}
+   fill // Replace layout="fill"
+   style={{ objectFit: 'cover' }} // Replace objectFit="cover"
+                                          onClick={() => handleImageClick(previewUrl, index)}
+                                          className="rounded-md"
+                                          data-ai-hint="machine image"
+                                      />
+                                      <Button
+                                          type="button"
+                                          variant="ghost"
+                                          size="icon"
+                                          className="absolute top-1 right-1 h-6 w-6 rounded-full bg-destructive text-destructive-foreground opacity-80 hover:opacity-100 transition-opacity"
+                                          onClick={() => handleRemoveMachineImage(index, isExisting)}
+                                          title={isExisting ? "Remover imagem existente (será excluída ao salvar)" : "Remover nova imagem"}
+                                      >
+                                          <XCircle className="h-4 w-4" />
+                                      </Button>
+                                  </div>
+                              );
+                          })}
+                      </div>
                   )}
-                </FormItem>
-              )}
-            />
 
 
-              <h3 className="text-md font-semibold pt-4 border-b pb-1 font-headline">Especificações Técnicas (Opcional)</h3>
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              <FormField control={form.control} name="towerOpenHeightMm" render={({ field }) => (
-                <FormItem><FormLabel>H3 - Torre Aberta (mm)</FormLabel><FormControl><Input type="number" {...field} value={field.value ?? ""} onChange={e => field.onChange(e.target.value === '' ? null : parseInt(e.target.value, 10))} /></FormControl><FormMessage /></FormItem>
-              )} />
-              <FormField control={form.control} name="towerClosedHeightMm" render={({ field }) => (
-                <FormItem><FormLabel>H1 - Torre Fechada (mm)</FormLabel><FormControl><Input type="number" {...field} value={field.value ?? ""} onChange={e => field.onChange(e.target.value === '' ? null : parseInt(e.target.value, 10))} /></FormControl><FormMessage /></FormItem>
-              )} />
-              <FormField control={form.control} name="nominalCapacityKg" render={({ field }) => (
-                <FormItem><FormLabel>Capacidade Nominal (kg)</FormLabel><FormControl><Input type="number" {...field} value={field.value ?? ""} onChange={e => field.onChange(e.target.value === '' ? null : parseInt(e.target.value, 10))} /></FormControl><FormMessage /></FormItem>
-              )} />
-            </div>
-            <h3 className="text-md font-semibold pt-4 border-b pb-1 font-headline">Dimensões Caixa de Bateria (Opcional)</h3>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <FormField control={form.control} name="batteryBoxWidthMm" render={({ field }) => (
-                    <FormItem><FormLabel>Largura (mm)</FormLabel><FormControl><Input type="number" {...field} value={field.value ?? ""} onChange={e => field.onChange(e.target.value === '' ? null : parseInt(e.target.value, 10))} /></FormControl><FormMessage /></FormItem>
-                )} />
-                <FormField control={form.control} name="batteryBoxHeightMm" render={({ field }) => (
-                    <FormItem><FormLabel>Altura (mm)</FormLabel><FormControl><Input type="number" {...field} value={field.value ?? ""} onChange={e => field.onChange(e.target.value === '' ? null : parseInt(e.target.value, 10))} /></FormControl><FormMessage /></FormItem>
-                )} />
-                <FormField control={form.control} name="batteryBoxDepthMm" render={({ field }) => (
-                    <FormItem><FormLabel>Comprimento (mm)</FormLabel><FormControl><Input type="number" {...field} value={field.value ?? ""} onChange={e => field.onChange(e.target.value === '' ? null : parseInt(e.target.value, 10))} /></FormControl><FormMessage /></FormItem>
-                )} />
-            </div>
-
-             <h3 className="text-md font-semibold pt-4 border-b pb-1 font-headline">Imagens da Máquina (Máx. {MAX_IMAGE_FILES})</h3>
-                <FormItem>
-                    <FormLabel htmlFor="machine-images-upload">Adicionar Imagens</FormLabel>
-                    <FormControl>
-                        <Input
-                            id="machine-images-upload"
-                            type="file"
-                            multiple
-                            accept="image/jpeg, image/png, image/webp"
-                            onChange={handleImageFilesChange}
-                            disabled={isUploadingFiles || imagePreviews.length + imageFilesToUpload.length >= MAX_IMAGE_FILES}
-                        />
-                    </FormControl>
-                    <FormDescription>
-                        Total de imagens: {imagePreviews.length + imageFilesToUpload.length - (editingMaquina?.imageUrls?.filter(url => imagePreviews.includes(url)).length || 0) } de {MAX_IMAGE_FILES}.
-                    </FormDescription>
-                    <FormMessage />
-                </FormItem>
-                {(imagePreviews.length > 0 || imageFilesToUpload.length > 0) && (
-                    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-2 mt-2">
-                        {imagePreviews.map((previewUrl, index) => {
-                            const isExisting = (editingMaquina?.imageUrls || []).includes(previewUrl) && previewUrl.startsWith('https://firebasestorage.googleapis.com');
-                            return (
-                                <div key={`preview-${index}`} className="relative group aspect-square">
-                                    <NextImage
-                                        src={previewUrl}
-                                        alt={`Preview ${index + 1}`}
- fill // Replace layout="fill"
- style={{ objectFit: 'cover' }} // Replace objectFit="cover"
-                                        onClick={() => handleImageClick(previewUrl, index)}
-                                        className="rounded-md"
-                                        data-ai-hint="machine image"
-                                    />
-                                    <Button
-                                        type="button"
-                                        variant="ghost"
-                                        size="icon"
-                                        className="absolute top-1 right-1 h-6 w-6 rounded-full bg-destructive text-destructive-foreground opacity-80 hover:opacity-100 transition-opacity"
-                                        onClick={() => handleRemoveMachineImage(index, isExisting)}
-                                        title={isExisting ? "Remover imagem existente (será excluída ao salvar)" : "Remover nova imagem"}
-                                    >
-                                        <XCircle className="h-4 w-4" />
-                                    </Button>
-                                </div>
-                            );
-                        })}
-                    </div>
+              <h3 className="text-md font-semibold pt-4 border-b pb-1 font-headline">Arquivos (PDF)</h3>
+              <FormItem>
+                <FormLabel>Catálogo de Peças (PDF)</FormLabel>
+                {editingMaquina?.partsCatalogUrl && !partsCatalogFile && (
+                  <div className="flex items-center justify-between p-2 border rounded-md bg-muted/50">
+                    <a href={editingMaquina.partsCatalogUrl} target="_blank" rel="noopener noreferrer" className="text-sm text-primary hover:underline flex items-center gap-1">
+                      <LinkIconLI className="h-3 w-3"/> Ver Catálogo: {getFileNameFromUrl(editingMaquina.partsCatalogUrl)}
+                    </a>
+                    <Button type="button" variant="ghost" size="sm" onClick={() => handleFileRemove('partsCatalogUrl')} className="text-destructive hover:text-destructive">
+                      <XCircle className="h-4 w-4 mr-1"/> Remover
+                    </Button>
+                  </div>
                 )}
+                <FormControl>
+                  <Input
+                    type="file"
+                    accept=".pdf"
+                    onChange={(e) => setPartsCatalogFile(e.target.files ? e.target.files[0] : null)}
+                    className="mt-1"
+                  />
+                </FormControl>
+                {partsCatalogFile && <FormDescription>Novo arquivo selecionado: {partsCatalogFile.name}</FormDescription>}
+                <FormMessage />
+              </FormItem>
 
-
-            <h3 className="text-md font-semibold pt-4 border-b pb-1 font-headline">Arquivos (PDF)</h3>
-            <FormItem>
-              <FormLabel>Catálogo de Peças (PDF)</FormLabel>
-              {editingMaquina?.partsCatalogUrl && !partsCatalogFile && (
-                <div className="flex items-center justify-between p-2 border rounded-md bg-muted/50">
-                  <a href={editingMaquina.partsCatalogUrl} target="_blank" rel="noopener noreferrer" className="text-sm text-primary hover:underline flex items-center gap-1">
-                    <LinkIconLI className="h-3 w-3"/> Ver Catálogo: {getFileNameFromUrl(editingMaquina.partsCatalogUrl)}
-                  </a>
-                  <Button type="button" variant="ghost" size="sm" onClick={() => handleFileRemove('partsCatalogUrl')} className="text-destructive hover:text-destructive">
-                    <XCircle className="h-4 w-4 mr-1"/> Remover
-                  </Button>
-                </div>
-              )}
-              <FormControl>
-                <Input
-                  type="file"
-                  accept=".pdf"
-                  onChange={(e) => setPartsCatalogFile(e.target.files ? e.target.files[0] : null)}
-                  className="mt-1"
-                />
-              </FormControl>
-              {partsCatalogFile && <FormDescription>Novo arquivo selecionado: {partsCatalogFile.name}</FormDescription>}
-              <FormMessage />
-            </FormItem>
-
-            <FormItem>
-              <FormLabel>Códigos de Erro (PDF)</FormLabel>
-               {editingMaquina?.errorCodesUrl && !errorCodesFile && (
-                <div className="flex items-center justify-between p-2 border rounded-md bg-muted/50">
-                  <a href={editingMaquina.errorCodesUrl} target="_blank" rel="noopener noreferrer" className="text-sm text-primary hover:underline flex items-center gap-1">
-                    <LinkIconLI className="h-3 w-3"/> Ver Códigos: {getFileNameFromUrl(editingMaquina.errorCodesUrl)}
-                  </a>
-                   <Button type="button" variant="ghost" size="sm" onClick={() => handleFileRemove('errorCodesUrl')} className="text-destructive hover:text-destructive">
-                    <XCircle className="h-4 w-4 mr-1"/> Remover
-                  </Button>
-                </div>
-              )}
-              <FormControl>
-                <Input
-                  type="file"
-                  accept=".pdf"
-                  onChange={(e) => setErrorCodesFile(e.target.files ? e.target.files[0] : null)}
-                  className="mt-1"
-                />
-              </FormControl>
-              {errorCodesFile && <FormDescription>Novo arquivo selecionado: {errorCodesFile.name}</FormDescription>}
-              <FormMessage />
-            </FormItem>
+              <FormItem>
+                <FormLabel>Códigos de Erro (PDF)</FormLabel>
+                 {editingMaquina?.errorCodesUrl && !errorCodesFile && (
+                  <div className="flex items-center justify-between p-2 border rounded-md bg-muted/50">
+                    <a href={editingMaquina.errorCodesUrl} target="_blank" rel="noopener noreferrer" className="text-sm text-primary hover:underline flex items-center gap-1">
+                      <LinkIconLI className="h-3 w-3"/> Ver Códigos: {getFileNameFromUrl(editingMaquina.errorCodesUrl)}
+                    </a>
+                     <Button type="button" variant="ghost" size="sm" onClick={() => handleFileRemove('errorCodesUrl')} className="text-destructive hover:text-destructive">
+                      <XCircle className="h-4 w-4 mr-1"/> Remover
+                    </Button>
+                  </div>
+                )}
+                <FormControl>
+                  <Input
+                    type="file"
+                    accept=".pdf"
+                    onChange={(e) => setErrorCodesFile(e.target.files ? e.target.files[0] : null)}
+                    className="mt-1"
+                  />
+                </FormControl>
+                {errorCodesFile && <FormDescription>Novo arquivo selecionado: {errorCodesFile.name}</FormDescription>}
+                <FormMessage />
+              </FormItem>
 
 
-            <h3 className="text-md font-semibold pt-4 border-b pb-1 font-headline">Informações Adicionais (Opcional)</h3>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                <FormField control={form.control} name="hourMeter" render={({ field }) => (
-                    <FormItem><FormLabel>Horímetro Atual (h)</FormLabel><FormControl><Input type="number" {...field} value={field.value ?? ""} onChange={e => field.onChange(e.target.value === '' ? null : parseFloat(e.target.value))} /></FormControl><FormMessage /></FormItem>
-                )} />
-                <FormField control={form.control} name="monthlyRentalValue" render={({ field }) => (
-                   <FormItem><FormLabel>Valor Aluguel Mensal (R$)</FormLabel><FormControl><Input type="number" step="0.01" {...field} value={field.value ?? ""} onChange={e => field.onChange(e.target.value === '' ? null : parseFloat(e.target.value))} /></FormControl><FormMessage /></FormItem>
-                )} />
-            </div>
-            <FormField control={form.control} name="notes" render={({ field }) => (
-              <FormItem><FormLabel>Observações</FormLabel><FormControl><Textarea placeholder="Detalhes adicionais, histórico, etc." {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
-            )} />
-            </fieldset>
-          </form>
-        </Form>
+              <h3 className="text-md font-semibold pt-4 border-b pb-1 font-headline">Informações Adicionais (Opcional)</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  <FormField control={form.control} name="hourMeter" render={({ field }) => (
+                      <FormItem><FormLabel>Horímetro Atual (h)</FormLabel><FormControl><Input type="number" {...field} value={field.value ?? ""} onChange={e => field.onChange(e.target.value === '' ? null : parseFloat(e.target.value))} /></FormControl>{editingMaquina && <FormDescription>Para o dia a dia, use Leituras do Horímetro abaixo; alterar aqui fica registrado como correção.</FormDescription>}<FormMessage /></FormItem>
+                  )} />
+                  <FormField control={form.control} name="monthlyRentalValue" render={({ field }) => (
+                     <FormItem><FormLabel>Valor Aluguel Mensal (R$)</FormLabel><FormControl><Input type="number" step="0.01" {...field} value={field.value ?? ""} onChange={e => field.onChange(e.target.value === '' ? null : parseFloat(e.target.value))} /></FormControl><FormMessage /></FormItem>
+                  )} />
+              </div>
+              <FormField control={form.control} name="notes" render={({ field }) => (
+                <FormItem><FormLabel>Observações</FormLabel><FormControl><Textarea placeholder="Detalhes adicionais, histórico, etc." {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+              )} />
+              </fieldset>
+            </form>
+          </Form>
+          {editingMaquina && (
+            <HourMeterReadingsSection
+              maquina={editingMaquina}
+              onRecorded={(hours) => {
+                form.setValue("hourMeter", hours);
+                setEditingMaquina({ ...editingMaquina, hourMeter: hours });
+              }}
+            />
+          )}
+        </DetailsHistoryTabs>
       </FormModal>
 
        {/* Image Viewer Modal Overlay */}
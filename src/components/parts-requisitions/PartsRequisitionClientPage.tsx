@@ -3,7 +3,7 @@
 
 import { useState, useEffect, useCallback, useMemo } from "react";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useForm, useFieldArray, Controller } from "react-hook-form";
+import { useForm, useFieldArray, useWatch, Controller } from "react-hook-form";
 import type * as z from "zod";
 import { PlusCircle, Wrench, ClipboardList, User, Construction, CalendarDays, ImagePlus, Trash2, Loader2, FileText, XCircle, PackageSearch, AlertTriangle, Image as ImageIcon, MessageSquare, Layers, Tag } from "lucide-react";
 import Link from "next/link";
@@ -18,102 +18,26 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { PageHeader } from "@/components/shared/PageHeader";
 import { DataTablePlaceholder } from "@/components/shared/DataTablePlaceholder";
 import { FormModal } from "@/components/shared/FormModal";
+import { DetailsHistoryTabs } from "@/components/shared/DetailsHistoryTabs";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
 import { db, storage } from "@/lib/firebase";
-import { collection, getDocs, addDoc, updateDoc, deleteDoc, doc, query, orderBy, serverTimestamp, Timestamp, setDoc } from "firebase/firestore";
+import {
+  fetchPartsRequisitions, fetchOpenServiceOrders, fetchServiceOrdersForTechnician, fetchTechnicians, fetchCustomers, fetchMaquinas, fetchCatalogItems,
+  createPartsRequisition, updatePartsRequisition, deletePartsRequisition, queryKeys, PENDING_DOCUMENT_NUMBER,
+} from "@/lib/repositories";
 import { ref as storageRef, uploadBytes, getDownloadURL, deleteObject } from "firebase/storage";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import type { PartsRequisition, PartsRequisitionItem, ServiceOrder, Technician, Customer, Maquina } from "@/types";
+import type { PartsRequisition, PartsRequisitionItem, ServiceOrder, Technician, Customer, Maquina, CatalogItem } from "@/types";
 import { PartsRequisitionSchema } from "@/types";
-import { cn, formatDateForDisplay, getFileNameFromUrl, toTitleCase, parseNumericToNullOrNumber } from "@/lib/utils";
+import { cn, formatDateForDisplay, getFileNameFromUrl, toTitleCase } from "@/lib/utils";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { CatalogAutocompleteInput } from "@/components/catalog/CatalogAutocompleteInput";
 
 
-const FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME = "partsRequisitions";
-const FIRESTORE_SERVICE_ORDER_COLLECTION_NAME = "ordensDeServico";
-const FIRESTORE_TECHNICIAN_COLLECTION_NAME = "tecnicos";
-const FIRESTORE_CUSTOMER_COLLECTION_NAME = "clientes";
-const FIRESTORE_EQUIPMENT_COLLECTION_NAME = "equipamentos";
-
 const NO_SERVICE_ORDER_SELECTED = "_NO_OS_SELECTED_";
 const NO_TECHNICIAN_SELECTED = "_NO_TECHNICIAN_SELECTED_";
 
-async function fetchPartsRequisitions(): Promise<PartsRequisition[]> {
-  if (!db) throw new Error("Firebase DB is not available");
-  const q = query(collection(db, FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME), orderBy("createdDate", "desc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => {
-    const data = docSnap.data();
-    return {
-      id: docSnap.id,
-      ...data,
-      createdDate: data.createdDate instanceof Timestamp ? data.createdDate.toDate().toISOString() : data.createdDate,
-      items: Array.isArray(data.items) ? data.items.map((item: any) => ({...item, id: item.id || crypto.randomUUID() })) : [],
-    } as PartsRequisition;
-  });
-}
-
-async function fetchOpenServiceOrders(): Promise<ServiceOrder[]> {
-  if (!db) throw new Error("Firebase DB is not available");
-  const q = query(collection(db, FIRESTORE_SERVICE_ORDER_COLLECTION_NAME), orderBy("orderNumber", "desc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs
-    .map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as ServiceOrder))
-    .filter(os => os.phase !== "Concluída" && os.phase !== "Cancelada");
-}
-
-async function fetchTechnicians(): Promise<Technician[]> {
-  if (!db) throw new Error("Firebase DB is not available");
-  const q = query(collection(db, FIRESTORE_TECHNICIAN_COLLECTION_NAME), orderBy("name", "asc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Technician));
-}
-
-async function fetchCustomers(): Promise<Customer[]> {
-    if (!db) {
-      console.error("fetchCustomers: Firebase DB is not available.");
-      throw new Error("Firebase DB is not available");
-    }
-    const q = query(collection(db!, FIRESTORE_CUSTOMER_COLLECTION_NAME), orderBy("name", "asc"));
-    const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Customer));
-}
-
-async function fetchEquipmentList(): Promise<Maquina[]> {
-  if (!db) {
-    throw new Error("Firebase Firestore connection not available.");
-  }
-  const q = query(collection(db!, FIRESTORE_EQUIPMENT_COLLECTION_NAME), orderBy("brand", "asc"), orderBy("model", "asc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => {
-    const data = docSnap.data();
-    return {
-      id: docSnap.id,
-      brand: data.brand || "Marca Desconhecida",
-      model: data.model || "Modelo Desconhecido",
-      chassisNumber: data.chassisNumber || "N/A",
-      equipmentType: data.equipmentType,
-      manufactureYear: parseNumericToNullOrNumber(data.manufactureYear),
-      operationalStatus: data.operationalStatus,
-      customerId: data.customerId || null,
-      ownerReference: data.ownerReference || null,
-    } as Maquina;
-  });
-}
-
-
-const getNextRequisitionNumber = (currentRequisitions: PartsRequisition[]): string => {
-  if (!currentRequisitions || currentRequisitions.length === 0) return "0001";
-  let maxNum = 0;
-  currentRequisitions.forEach(req => {
-    const num = parseInt(req.requisitionNumber, 10); // Remove "REQ-" prefix logic
-    if (!isNaN(num) && num > maxNum) {
-      maxNum = num;
-    }
-  });
-  return (maxNum + 1).toString().padStart(4, '0'); // Ensure 4-digit padding
-};
-
 async function uploadPartImageToStorage(file: File, requisitionId: string, itemId: string): Promise<string> {
   if (!storage) throw new Error("Firebase Storage is not available.");
   const filePath = `parts_requisitions/${requisitionId}/${itemId}/${file.name.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
@@ -144,6 +68,8 @@ async function deletePartImageFromStorage(imageUrl?: string | null) {
 export function PartsRequisitionClientPage() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { technician: currentTechnician, can } = useAuth();
+  const canViewAllOrders = can("serviceOrders:viewAll");
 
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingRequisition, setEditingRequisition] = useState<PartsRequisition | null>(null);
@@ -169,30 +95,43 @@ export function PartsRequisitionClientPage() {
   });
 
   const { data: requisitions = [], isLoading: isLoadingRequisitions, isError: isErrorRequisitions, error: errorRequisitions } = useQuery<PartsRequisition[], Error>({
-    queryKey: [FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME],
+    queryKey: queryKeys.partsRequisitions.all,
     queryFn: fetchPartsRequisitions,
   });
 
   const { data: serviceOrders = [], isLoading: isLoadingServiceOrders } = useQuery<ServiceOrder[], Error>({
-    queryKey: [FIRESTORE_SERVICE_ORDER_COLLECTION_NAME, "open"],
-    queryFn: fetchOpenServiceOrders,
+    queryKey: canViewAllOrders ? queryKeys.serviceOrders.open : queryKeys.serviceOrders.byTechnician(currentTechnician?.id),
+    queryFn: () => canViewAllOrders ? fetchOpenServiceOrders() : fetchServiceOrdersForTechnician(currentTechnician!.id),
+    select: orders => orders.filter(os => os.phase !== "Concluída" && os.phase !== "Cancelada"),
+    enabled: canViewAllOrders || !!currentTechnician,
   });
 
   const { data: technicians = [], isLoading: isLoadingTechnicians } = useQuery<Technician[], Error>({
-    queryKey: [FIRESTORE_TECHNICIAN_COLLECTION_NAME],
+    queryKey: queryKeys.technicians.all,
     queryFn: fetchTechnicians,
   });
 
   const { data: customers = [], isLoading: isLoadingCustomers } = useQuery<Customer[], Error>({
-    queryKey: [FIRESTORE_CUSTOMER_COLLECTION_NAME],
+    queryKey: queryKeys.customers.all,
     queryFn: fetchCustomers,
   });
 
   const { data: equipmentList = [], isLoading: isLoadingEquipment } = useQuery<Maquina[], Error>({
-    queryKey: [FIRESTORE_EQUIPMENT_COLLECTION_NAME],
-    queryFn: fetchEquipmentList,
+    queryKey: queryKeys.maquinas.all,
+    queryFn: fetchMaquinas,
+  });
+
+  const { data: catalogItems = [] } = useQuery<CatalogItem[], Error>({
+    queryKey: queryKeys.catalogItems.all,
+    queryFn: fetchCatalogItems,
   });
 
+  const serviceOrderIdWatch = useWatch({ control: form.control, name: "serviceOrderId" });
+  const formEquipment = useMemo(() => {
+    const serviceOrder = serviceOrders.find(os => os.id === serviceOrderIdWatch);
+    return serviceOrder ? equipmentList.find(eq => eq.id === serviceOrder.equipmentId) ?? null : null;
+  }, [serviceOrders, equipmentList, serviceOrderIdWatch]);
+
 
   const openModal = useCallback((requisition?: PartsRequisition) => {
     setPartImageFiles({});
@@ -220,16 +159,16 @@ export function PartsRequisitionClientPage() {
       setIsEditMode(true);
       form.reset({
         id: undefined,
-        requisitionNumber: getNextRequisitionNumber(requisitions),
+        requisitionNumber: PENDING_DOCUMENT_NUMBER,
         serviceOrderId: NO_SERVICE_ORDER_SELECTED,
-        technicianId: NO_TECHNICIAN_SELECTED,
+        technicianId: currentTechnician?.id || NO_TECHNICIAN_SELECTED,
         status: "Pendente",
         items: [{ id: crypto.randomUUID(), partName: "", quantity: 1, notes: "", imageUrl: null, status: "Pendente Aprovação" }],
         generalNotes: "",
       });
     }
     setIsModalOpen(true);
-  }, [form, requisitions]);
+  }, [form, requisitions, currentTechnician]);
 
   const closeModal = () => {
     setIsModalOpen(false);
@@ -284,6 +223,22 @@ export function PartsRequisitionClientPage() {
     });
   };
 
+  // The catalog cost becomes the estimate the warehouse starts from.
+  const handleSelectCatalogPart = (index: number, catalogItem: CatalogItem) => {
+    const options = { shouldValidate: true, shouldDirty: true };
+    form.setValue(`items.${index}.partName`, catalogItem.description, options);
+    form.setValue(`items.${index}.partCode`, catalogItem.code, options);
+    form.setValue(`items.${index}.catalogItemId`, catalogItem.id, options);
+    if (catalogItem.costPrice !== null) form.setValue(`items.${index}.estimatedCost`, catalogItem.costPrice, options);
+  };
+
+  // Typing over a picked part makes it a free-text request again.
+  const handleUnlinkCatalogPart = (index: number) => {
+    if (!form.getValues(`items.${index}.catalogItemId`)) return;
+    form.setValue(`items.${index}.partCode`, null);
+    form.setValue(`items.${index}.catalogItemId`, null);
+  };
+
   const removeItem = async (index: number, itemId: string) => {
     const itemToRemove = fields[index];
     if (partImageFiles[itemId]) {
@@ -320,15 +275,14 @@ export function PartsRequisitionClientPage() {
 
       const dataToSave = {
         ...dataFromForm,
-        createdDate: serverTimestamp(),
         items: itemsWithImageUrls,
       };
 
-      await setDoc(doc(db, FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME, requisitionId), dataToSave);
-      return { ...dataToSave, id: requisitionId };
+      const requisitionNumber = await createPartsRequisition(requisitionId, dataToSave);
+      return { ...dataToSave, requisitionNumber, id: requisitionId };
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.partsRequisitions.all });
       toast({ title: "Requisição Criada", description: `Requisição ${data.requisitionNumber} foi criada.` });
       closeModal();
     },
@@ -371,12 +325,11 @@ export function PartsRequisitionClientPage() {
           }
       }
 
-      const reqRef = doc(db, FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME, id);
-      await updateDoc(reqRef, { ...dataToUpdate, items: itemsWithImageUrls });
+      await updatePartsRequisition(id, { ...dataToUpdate, items: itemsWithImageUrls });
       return { ...requisitionData, items: itemsWithImageUrls, createdDate: originalRequisition.createdDate };
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.partsRequisitions.all });
       toast({ title: "Requisição Atualizada", description: `Requisição ${data.requisitionNumber} foi atualizada.` });
       closeModal();
     },
@@ -396,10 +349,10 @@ export function PartsRequisitionClientPage() {
           }
         }
       }
-      await deleteDoc(doc(db, FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME, requisitionId));
+      await deletePartsRequisition(requisitionId);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.partsRequisitions.all });
       toast({ title: "Requisição Excluída" });
       closeModal();
     },
@@ -606,141 +559,156 @@ export function PartsRequisitionClientPage() {
         isEditMode={isEditMode}
         onEditModeToggle={() => setIsEditMode(true)}
       >
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} id="parts-requisition-form" className="space-y-6">
-            <fieldset disabled={!!editingRequisition && !isEditMode && editingRequisition?.status !== 'Pendente'} className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <FormField control={form.control} name="requisitionNumber" render={({ field }) => (
+        <DetailsHistoryTabs entityType="partsRequisition" entityId={editingRequisition?.id}>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} id="parts-requisition-form" className="space-y-6">
+              <fieldset disabled={!!editingRequisition && !isEditMode && editingRequisition?.status !== 'Pendente'} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField control={form.control} name="requisitionNumber" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Número da Requisição</FormLabel>
+                      <FormControl><Input {...field} readOnly className="bg-muted/50" /></FormControl>
+                      {!editingRequisition && <FormDescription>Gerado ao salvar, pela sequência da empresa.</FormDescription>}
+                    </FormItem>
+                  )} />
+                  <FormField control={form.control} name="serviceOrderId" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ordem de Serviço Vinculada</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value || NO_SERVICE_ORDER_SELECTED} disabled={!!editingRequisition}>
+                        <FormControl><SelectTrigger>
+                          <SelectValue placeholder={isLoadingServiceOrders ? "Carregando OS..." : "Selecione uma OS"} />
+                        </SelectTrigger></FormControl>
+                        <SelectContent>
+                          <SelectItem value={NO_SERVICE_ORDER_SELECTED} disabled>Selecione uma OS</SelectItem>
+                          {serviceOrders?.map(os => (
+                            <SelectItem key={os.id} value={os.id}>
+                              OS: {os.orderNumber} (Cliente: {customers?.find(c=>c.id === os.customerId)?.name || 'N/A'})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                </div>
+                <FormField control={form.control} name="technicianId" render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Número da Requisição</FormLabel>
-                    <FormControl><Input {...field} readOnly className="bg-muted/50" /></FormControl>
-                  </FormItem>
-                )} />
-                <FormField control={form.control} name="serviceOrderId" render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Ordem de Serviço Vinculada</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value || NO_SERVICE_ORDER_SELECTED} disabled={!!editingRequisition}>
+                    <FormLabel>Técnico Solicitante</FormLabel>
+                     <Select onValueChange={field.onChange} value={field.value || NO_TECHNICIAN_SELECTED} disabled={!!editingRequisition}>
                       <FormControl><SelectTrigger>
-                        <SelectValue placeholder={isLoadingServiceOrders ? "Carregando OS..." : "Selecione uma OS"} />
+                        <SelectValue placeholder={isLoadingTechnicians ? "Carregando Técnicos..." : "Selecione o Técnico"} />
                       </SelectTrigger></FormControl>
                       <SelectContent>
-                        <SelectItem value={NO_SERVICE_ORDER_SELECTED} disabled>Selecione uma OS</SelectItem>
-                        {serviceOrders?.map(os => (
-                          <SelectItem key={os.id} value={os.id}>
-                            OS: {os.orderNumber} (Cliente: {customers?.find(c=>c.id === os.customerId)?.name || 'N/A'})
-                          </SelectItem>
+                         <SelectItem value={NO_TECHNICIAN_SELECTED} disabled>Selecione o Técnico</SelectItem>
+                        {technicians?.map(tech => (
+                          <SelectItem key={tech.id} value={tech.id}>{tech.name}</SelectItem>
                         ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
                   </FormItem>
                 )} />
-              </div>
-              <FormField control={form.control} name="technicianId" render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Técnico Solicitante</FormLabel>
-                   <Select onValueChange={field.onChange} value={field.value || NO_TECHNICIAN_SELECTED} disabled={!!editingRequisition}>
-                    <FormControl><SelectTrigger>
-                      <SelectValue placeholder={isLoadingTechnicians ? "Carregando Técnicos..." : "Selecione o Técnico"} />
-                    </SelectTrigger></FormControl>
-                    <SelectContent>
-                       <SelectItem value={NO_TECHNICIAN_SELECTED} disabled>Selecione o Técnico</SelectItem>
-                      {technicians?.map(tech => (
-                        <SelectItem key={tech.id} value={tech.id}>{tech.name}</SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )} />
-               <FormField control={form.control} name="generalNotes" render={({ field }) => (
-                <FormItem><FormLabel>Observações Gerais (Opcional)</FormLabel><FormControl><Textarea placeholder="Notas gerais sobre a requisição..." {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
-              )} />
-
-              <div>
-                <h3 className="text-md font-semibold mb-2 mt-4 border-b pb-1 font-headline">Itens da Requisição</h3>
-                {fields.map((item, index) => (
-                  <div key={item.id} className="grid grid-cols-12 gap-x-3 gap-y-2 items-start border-b py-3">
-                    <FormField control={form.control} name={`items.${index}.partName`} render={({ field }) => (
-                      <FormItem className="col-span-12 sm:col-span-6 md:col-span-4">
-                        {index === 0 && <FormLabel>Nome da Peça</FormLabel>}
-                        <FormControl><Input placeholder="Ex: Filtro de óleo" {...field} /></FormControl><FormMessage />
-                      </FormItem>
-                    )} />
-                    <FormField control={form.control} name={`items.${index}.quantity`} render={({ field }) => (
-                      <FormItem className="col-span-6 sm:col-span-3 md:col-span-2">
-                        {index === 0 && <FormLabel>Qtd.</FormLabel>}
-                        <FormControl><Input type="number" placeholder="1" {...field} onChange={e => field.onChange(parseInt(e.target.value,10) || 0)} /></FormControl><FormMessage />
-                      </FormItem>
-                    )} />
-                    <FormField control={form.control} name={`items.${index}.notes`} render={({ field }) => (
-                      <FormItem className="col-span-12 sm:col-span-6 md:col-span-4">
-                         {index === 0 && <FormLabel>Obs. Item (Opcional)</FormLabel>}
-                        <FormControl><Input placeholder="Detalhes da peça" {...field} value={field.value ?? ""} /></FormControl><FormMessage />
-                      </FormItem>
-                    )} />
-                    <div className="col-span-10 sm:col-span-9 md:col-span-10">
-                      {index === 0 && <FormLabel>Imagem (Opcional)</FormLabel>}
-                      <div className="flex items-center gap-2">
-                        <Input
-                            id={`items.${index}.imageFile`}
-                            type="file"
-                            accept="image/*"
-                            onChange={(e) => handleItemImageChange(item.id!, e.target.files ? e.target.files[0] : null)}
-                            className="text-xs"
-                            disabled={!!editingRequisition && !isEditMode && !!item.imageUrl && editingRequisition?.status !== 'Pendente'}
-                        />
-                        {item.id && imagePreviews[item.id] && (
-                            <div className="relative group">
-                                <Image src={imagePreviews[item.id]!} alt="Preview" width={32} height={32} className="rounded object-cover aspect-square" data-ai-hint="part image"/>
-                                <Button
-                                    type="button"
-                                    variant="ghost"
-                                    size="icon"
-                                    className="absolute -top-2 -right-2 h-5 w-5 rounded-full bg-destructive text-destructive-foreground opacity-0 group-hover:opacity-100 transition-opacity"
-                                    onClick={() => handleRemoveItemImage(item.id!, index)}
-                                    disabled={!!editingRequisition && !isEditMode && editingRequisition?.status !== 'Pendente'}
-                                >
-                                    <XCircle className="h-3.5 w-3.5" />
-                                </Button>
-                            </div>
-                        )}
+                 <FormField control={form.control} name="generalNotes" render={({ field }) => (
+                  <FormItem><FormLabel>Observações Gerais (Opcional)</FormLabel><FormControl><Textarea placeholder="Notas gerais sobre a requisição..." {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+                )} />
+
+                <div>
+                  <h3 className="text-md font-semibold mb-2 mt-4 border-b pb-1 font-headline">Itens da Requisição</h3>
+                  {fields.map((item, index) => (
+                    <div key={item.id} className="grid grid-cols-12 gap-x-3 gap-y-2 items-start border-b py-3">
+                      <FormField control={form.control} name={`items.${index}.partName`} render={({ field }) => (
+                        <FormItem className="col-span-12 sm:col-span-6 md:col-span-4">
+                          {index === 0 && <FormLabel>Nome da Peça</FormLabel>}
+                          <FormControl>
+                            <CatalogAutocompleteInput
+                              placeholder="Ex: Filtro de óleo"
+                              {...field}
+                              catalogItems={catalogItems}
+                              onChange={(value) => { field.onChange(value); handleUnlinkCatalogPart(index); }}
+                              kind="Peça"
+                              equipment={formEquipment}
+                              onSelect={(catalogItem) => handleSelectCatalogPart(index, catalogItem)}
+                            />
+                          </FormControl>
+                          {form.getValues(`items.${index}.partCode`) && <FormDescription>Código {form.getValues(`items.${index}.partCode`)}</FormDescription>}
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name={`items.${index}.quantity`} render={({ field }) => (
+                        <FormItem className="col-span-6 sm:col-span-3 md:col-span-2">
+                          {index === 0 && <FormLabel>Qtd.</FormLabel>}
+                          <FormControl><Input type="number" placeholder="1" {...field} onChange={e => field.onChange(parseInt(e.target.value,10) || 0)} /></FormControl><FormMessage />
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name={`items.${index}.notes`} render={({ field }) => (
+                        <FormItem className="col-span-12 sm:col-span-6 md:col-span-4">
+                           {index === 0 && <FormLabel>Obs. Item (Opcional)</FormLabel>}
+                          <FormControl><Input placeholder="Detalhes da peça" {...field} value={field.value ?? ""} /></FormControl><FormMessage />
+                        </FormItem>
+                      )} />
+                      <div className="col-span-10 sm:col-span-9 md:col-span-10">
+                        {index === 0 && <FormLabel>Imagem (Opcional)</FormLabel>}
+                        <div className="flex items-center gap-2">
+                          <Input
+                              id={`items.${index}.imageFile`}
+                              type="file"
+                              accept="image/*"
+                              onChange={(e) => handleItemImageChange(item.id!, e.target.files ? e.target.files[0] : null)}
+                              className="text-xs"
+                              disabled={!!editingRequisition && !isEditMode && !!item.imageUrl && editingRequisition?.status !== 'Pendente'}
+                          />
+                          {item.id && imagePreviews[item.id] && (
+                              <div className="relative group">
+                                  <Image src={imagePreviews[item.id]!} alt="Preview" width={32} height={32} className="rounded object-cover aspect-square" data-ai-hint="part image"/>
+                                  <Button
+                                      type="button"
+                                      variant="ghost"
+                                      size="icon"
+                                      className="absolute -top-2 -right-2 h-5 w-5 rounded-full bg-destructive text-destructive-foreground opacity-0 group-hover:opacity-100 transition-opacity"
+                                      onClick={() => handleRemoveItemImage(item.id!, index)}
+                                      disabled={!!editingRequisition && !isEditMode && editingRequisition?.status !== 'Pendente'}
+                                  >
+                                      <XCircle className="h-3.5 w-3.5" />
+                                  </Button>
+                              </div>
+                          )}
+                        </div>
+                         {item.imageUrl && !partImageFiles[item.id!] && !imagePreviews[item.id!] && (
+                            <Link href={item.imageUrl} target="_blank" className="text-xs text-primary hover:underline mt-1 block">Ver imagem atual: {getFileNameFromUrl(item.imageUrl)}</Link>
+                          )}
                       </div>
-                       {item.imageUrl && !partImageFiles[item.id!] && !imagePreviews[item.id!] && (
-                          <Link href={item.imageUrl} target="_blank" className="text-xs text-primary hover:underline mt-1 block">Ver imagem atual: {getFileNameFromUrl(item.imageUrl)}</Link>
+                      <div className="col-span-2 sm:col-span-3 md:col-span-2 flex justify-end items-end h-full">
+                        {fields.length > 1 && (
+                          <Button type="button" variant="ghost" size="sm" onClick={() => removeItem(index, item.id!)} className="text-destructive hover:text-destructive self-center sm:self-end" disabled={!!editingRequisition && !isEditMode && editingRequisition?.status !== 'Pendente'}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
                         )}
+                      </div>
+                      <Controller
+                          name={`items.${index}.imageUrl`}
+                          control={form.control}
+                          render={({ field: imageUrlField }) => <input type="hidden" {...imageUrlField} value={imageUrlField.value || ""} />}
+                      />
+                       <Controller
+                          name={`items.${index}.id`}
+                          control={form.control}
+                          render={({ field: idField }) => <input type="hidden" {...idField} />}
+                      />
+                       <Controller
+                          name={`items.${index}.status`}
+                          control={form.control}
+                          render={({ field: statusField }) => <input type="hidden" {...statusField} />}
+                      />
                     </div>
-                    <div className="col-span-2 sm:col-span-3 md:col-span-2 flex justify-end items-end h-full">
-                      {fields.length > 1 && (
-                        <Button type="button" variant="ghost" size="sm" onClick={() => removeItem(index, item.id!)} className="text-destructive hover:text-destructive self-center sm:self-end" disabled={!!editingRequisition && !isEditMode && editingRequisition?.status !== 'Pendente'}>
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      )}
-                    </div>
-                    <Controller
-                        name={`items.${index}.imageUrl`}
-                        control={form.control}
-                        render={({ field: imageUrlField }) => <input type="hidden" {...imageUrlField} value={imageUrlField.value || ""} />}
-                    />
-                     <Controller
-                        name={`items.${index}.id`}
-                        control={form.control}
-                        render={({ field: idField }) => <input type="hidden" {...idField} />}
-                    />
-                     <Controller
-                        name={`items.${index}.status`}
-                        control={form.control}
-                        render={({ field: statusField }) => <input type="hidden" {...statusField} />}
-                    />
-                  </div>
-                ))}
-                <Button type="button" variant="outline" size="sm" onClick={addItem} className="mt-3" disabled={!!editingRequisition && !isEditMode && editingRequisition?.status !== 'Pendente'}>
-                  <PlusCircle className="mr-2 h-4 w-4" /> Adicionar Peça
-                </Button>
-              </div>
-            </fieldset>
-          </form>
-        </Form>
+                  ))}
+                  <Button type="button" variant="outline" size="sm" onClick={addItem} className="mt-3" disabled={!!editingRequisition && !isEditMode && editingRequisition?.status !== 'Pendente'}>
+                    <PlusCircle className="mr-2 h-4 w-4" /> Adicionar Peça
+                  </Button>
+                </div>
+              </fieldset>
+            </form>
+          </Form>
+        </DetailsHistoryTabs>
       </FormModal>
     </TooltipProvider>
   );
@@ -15,10 +15,13 @@ import { PageHeader } from "@/components/shared/PageHeader";
 import { DataTablePlaceholder } from "@/components/shared/DataTablePlaceholder";
 import { useToast } from "@/hooks/use-toast";
 import { db } from "@/lib/firebase";
-import { collection, getDocs, doc, query, orderBy, Timestamp, updateDoc, runTransaction } from "firebase/firestore";
+import {
+  fetchPartsRequisitions, fetchServiceOrders, fetchTechnicians, fetchCustomers, fetchMaquinas, fetchBudgets,
+  updatePartsRequisitionItem, queryKeys,
+} from "@/lib/repositories";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import type { PartsRequisition, ServiceOrder, Technician, Customer, PartsRequisitionItem, PartsRequisitionItemStatusType, PartsRequisitionStatusType, Maquina, Budget } from "@/types";
-import { cn, formatDateForDisplay, toTitleCase, parseNumericToNullOrNumber, formatCurrency } from "@/lib/utils";
+import type { PartsRequisition, ServiceOrder, Technician, Customer, PartsRequisitionItem, PartsRequisitionItemStatusType, Maquina, Budget } from "@/types";
+import { cn, formatDateForDisplay, toTitleCase, formatCurrency } from "@/lib/utils";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -33,90 +36,6 @@ import { Label } from "@/components/ui/label";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 
 
-const FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME = "partsRequisitions";
-const FIRESTORE_SERVICE_ORDER_COLLECTION_NAME = "ordensDeServico";
-const FIRESTORE_TECHNICIAN_COLLECTION_NAME = "tecnicos";
-const FIRESTORE_CUSTOMER_COLLECTION_NAME = "clientes";
-const FIRESTORE_EQUIPMENT_COLLECTION_NAME = "equipamentos";
-const FIRESTORE_BUDGET_COLLECTION_NAME = "budgets";
-
-async function fetchPartsRequisitions(): Promise<PartsRequisition[]> {
-  if (!db) throw new Error("Firebase DB is not available");
-  const q = query(collection(db, FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME), orderBy("createdDate", "desc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => {
-    const data = docSnap.data();
-    return {
-      id: docSnap.id,
-      ...data,
-      createdDate: data.createdDate instanceof Timestamp ? data.createdDate.toDate().toISOString() : data.createdDate,
-      items: Array.isArray(data.items) ? data.items.map((item: any) => ({...item, id: item.id || crypto.randomUUID() })) : [],
-    } as PartsRequisition;
-  });
-}
-
-async function fetchServiceOrders(): Promise<ServiceOrder[]> {
-  if (!db) throw new Error("Firebase DB is not available");
-  const q = query(collection(db, FIRESTORE_SERVICE_ORDER_COLLECTION_NAME), orderBy("orderNumber", "desc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as ServiceOrder));
-}
-
-async function fetchTechnicians(): Promise<Technician[]> {
-  if (!db) throw new Error("Firebase DB is not available");
-  const q = query(collection(db, FIRESTORE_TECHNICIAN_COLLECTION_NAME), orderBy("name", "asc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Technician));
-}
-
-async function fetchCustomers(): Promise<Customer[]> {
-    if (!db) {
-      console.error("fetchCustomers: Firebase DB is not available.");
-      throw new Error("Firebase DB is not available");
-    }
-    const q = query(collection(db!, FIRESTORE_CUSTOMER_COLLECTION_NAME), orderBy("name", "asc"));
-    const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Customer));
-}
-
-async function fetchEquipmentList(): Promise<Maquina[]> {
-  if (!db) {
-    throw new Error("Firebase Firestore connection not available.");
-  }
-  const q = query(collection(db!, FIRESTORE_EQUIPMENT_COLLECTION_NAME), orderBy("brand", "asc"), orderBy("model", "asc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => {
-    const data = docSnap.data();
-    return {
-      id: docSnap.id,
-      brand: data.brand || "Marca Desconhecida",
-      model: data.model || "Modelo Desconhecido",
-      chassisNumber: data.chassisNumber || "N/A",
-      equipmentType: data.equipmentType,
-      manufactureYear: parseNumericToNullOrNumber(data.manufactureYear),
-      operationalStatus: data.operationalStatus,
-      customerId: data.customerId || null,
-      ownerReference: data.ownerReference || null,
-    } as Maquina;
-  });
-}
-
-async function fetchBudgets(): Promise<Budget[]> {
-  if (!db) throw new Error("Firebase DB is not available");
-  const q = query(collection(db, FIRESTORE_BUDGET_COLLECTION_NAME), orderBy("createdDate", "desc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => {
-    const data = docSnap.data();
-    return {
-      id: docSnap.id,
-      ...data,
-      createdDate: data.createdDate instanceof Timestamp ? data.createdDate.toDate().toISOString() : data.createdDate,
-      validUntilDate: data.validUntilDate instanceof Timestamp ? data.validUntilDate.toDate().toISOString() : data.validUntilDate,
-      items: Array.isArray(data.items) ? data.items.map((item: any) => ({...item, id: item.id || crypto.randomUUID() })) : [],
-    } as Budget;
-  });
-}
-
 export function PartsTriageClientPage() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -134,32 +53,32 @@ export function PartsTriageClientPage() {
 
 
   const { data: requisitions = [], isLoading: isLoadingRequisitions, isError: isErrorRequisitions, error: errorRequisitionsDataAll } = useQuery<PartsRequisition[], Error>({
-    queryKey: [FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME],
+    queryKey: queryKeys.partsRequisitions.all,
     queryFn: fetchPartsRequisitions,
   });
 
   const { data: serviceOrders = [], isLoading: isLoadingServiceOrders } = useQuery<ServiceOrder[], Error>({
-    queryKey: [FIRESTORE_SERVICE_ORDER_COLLECTION_NAME],
+    queryKey: queryKeys.serviceOrders.all,
     queryFn: fetchServiceOrders,
   });
 
   const { data: technicians = [], isLoading: isLoadingTechnicians } = useQuery<Technician[], Error>({
-    queryKey: [FIRESTORE_TECHNICIAN_COLLECTION_NAME],
+    queryKey: queryKeys.technicians.all,
     queryFn: fetchTechnicians,
   });
 
   const { data: customers = [], isLoading: isLoadingCustomers } = useQuery<Customer[], Error>({
-    queryKey: [FIRESTORE_CUSTOMER_COLLECTION_NAME],
+    queryKey: queryKeys.customers.all,
     queryFn: fetchCustomers,
   });
 
   const { data: equipmentList = [], isLoading: isLoadingEquipment } = useQuery<Maquina[], Error>({
-    queryKey: [FIRESTORE_EQUIPMENT_COLLECTION_NAME],
-    queryFn: fetchEquipmentList,
+    queryKey: queryKeys.maquinas.all,
+    queryFn: fetchMaquinas,
   });
 
   const { data: budgets = [], isLoading: isLoadingBudgets, isError: isErrorBudgets, error: errorBudgetsData } = useQuery<Budget[], Error>({
-    queryKey: [FIRESTORE_BUDGET_COLLECTION_NAME],
+    queryKey: queryKeys.budgets.all,
     queryFn: fetchBudgets,
   });
 
@@ -181,43 +100,22 @@ export function PartsTriageClientPage() {
       newStatus: PartsRequisitionItemStatusType;
       notes?: string | null;
     }) => {
-      if (!db) throw new Error("Firebase DB is not available.");
-      const reqRef = doc(db, FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME, data.requisitionId);
-
-      await runTransaction(db, async (transaction) => {
-        const reqDoc = await transaction.get(reqRef);
-        if (!reqDoc.exists()) {
-          throw new Error("Requisição não encontrada.");
-        }
-
-        const currentRequisition = reqDoc.data() as PartsRequisition;
-        const itemIndex = currentRequisition.items.findIndex(item => item.id === data.itemId);
-
-        if (itemIndex === -1) {
-          throw new Error("Item da requisição não encontrado.");
-        }
-
-        const updatedItems = [...currentRequisition.items];
-        updatedItems[itemIndex] = {
-          ...updatedItems[itemIndex],
+      await updatePartsRequisitionItem(
+        data.requisitionId,
+        data.itemId,
+        item => ({
+          ...item,
           status: data.newStatus,
-          triageNotes: data.notes || updatedItems[itemIndex].triageNotes || null,
-        };
-
-        let newRequisitionStatus: PartsRequisitionStatusType = currentRequisition.status;
-        const allItemsTriaged = updatedItems.every(item => item.status !== "Pendente Aprovação");
-
-        if (allItemsTriaged) {
-          newRequisitionStatus = "Triagem Realizada";
-        } else {
-          newRequisitionStatus = "Pendente";
-        }
-
-        transaction.update(reqRef, { items: updatedItems, status: newRequisitionStatus });
-      });
+          triageNotes: data.notes || item.triageNotes || null,
+        }),
+        updatedItems => {
+          const allItemsTriaged = updatedItems.every(item => item.status !== "Pendente Aprovação");
+          return allItemsTriaged ? "Triagem Realizada" : "Pendente";
+        },
+      );
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.partsRequisitions.all });
       toast({ title: "Status do Item Atualizado", description: "O status do item foi atualizado com sucesso." });
       setIsItemStatusModalOpen(false);
       setCurrentTriageData(null);
@@ -373,7 +271,7 @@ export function PartsTriageClientPage() {
             icon={ClipboardCheck}
             title="Nenhuma Requisição Pendente de Triagem"
             buttonLabel="Atualizar Lista"
-            onButtonClick={() => queryClient.invalidateQueries({ queryKey: [FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME] })}
+            onButtonClick={() => queryClient.invalidateQueries({ queryKey: queryKeys.partsRequisitions.all })}
             description="Aguardando novas requisições de peças dos técnicos ou todas já foram triadas."
             />
         ) : (
@@ -13,10 +13,13 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { db } from "@/lib/firebase";
-import { collection, getDocs, query, orderBy, Timestamp, doc, updateDoc, runTransaction } from "firebase/firestore";
+import {
+  fetchPartsRequisitions, fetchServiceOrders, fetchTechnicians, fetchCustomers, fetchMaquinas,
+  updatePartsRequisitionItem, queryKeys,
+} from "@/lib/repositories";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import type { PartsRequisition, ServiceOrder, Technician, Customer, PartsRequisitionItem, PartsRequisitionItemStatusType, PartsRequisitionStatusType, Maquina } from "@/types";
-import { cn, formatDateForDisplay, toTitleCase, parseNumericToNullOrNumber } from "@/lib/utils";
+import { cn, formatDateForDisplay, toTitleCase } from "@/lib/utils";
 import Link from "next/link";
 import Image from "next/image";
 import {
@@ -32,12 +35,6 @@ import {
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 
 
-const FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME = "partsRequisitions";
-const FIRESTORE_SERVICE_ORDER_COLLECTION_NAME = "ordensDeServico";
-const FIRESTORE_TECHNICIAN_COLLECTION_NAME = "tecnicos";
-const FIRESTORE_CUSTOMER_COLLECTION_NAME = "clientes";
-const FIRESTORE_EQUIPMENT_COLLECTION_NAME = "equipamentos";
-
 const ALL_STATUSES_FILTER_VALUE = "_ALL_STATUSES_WAREHOUSE_";
 
 interface ApprovedItem extends PartsRequisitionItem {
@@ -70,62 +67,6 @@ interface CurrentItemAction {
   currentEstimatedCost?: number | null;
 }
 
-async function fetchPartsRequisitions(): Promise<PartsRequisition[]> {
-  if (!db) throw new Error("Firebase DB is not available");
-  const q = query(collection(db, FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME), orderBy("createdDate", "desc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => {
-    const data = docSnap.data();
-    return {
-      id: docSnap.id,
-      ...data,
-      createdDate: data.createdDate instanceof Timestamp ? data.createdDate.toDate().toISOString() : data.createdDate,
-      items: Array.isArray(data.items) ? data.items.map((item: any) => ({...item, id: item.id || crypto.randomUUID() })) : [],
-    } as PartsRequisition;
-  });
-}
-
-async function fetchServiceOrders(): Promise<ServiceOrder[]> {
-  if (!db) throw new Error("Firebase DB is not available");
-  const q = query(collection(db, FIRESTORE_SERVICE_ORDER_COLLECTION_NAME), orderBy("orderNumber", "desc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as ServiceOrder));
-}
-
-async function fetchTechnicians(): Promise<Technician[]> {
-  if (!db) throw new Error("Firebase DB is not available");
-  const q = query(collection(db, FIRESTORE_TECHNICIAN_COLLECTION_NAME), orderBy("name", "asc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Technician));
-}
-
-async function fetchCustomers(): Promise<Customer[]> {
-  if (!db) throw new Error("Firebase DB is not available");
-  const q = query(collection(db!, FIRESTORE_CUSTOMER_COLLECTION_NAME), orderBy("name", "asc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Customer));
-}
-
-async function fetchEquipmentList(): Promise<Maquina[]> {
-  if (!db) throw new Error("Firebase Firestore connection not available.");
-  const q = query(collection(db!, FIRESTORE_EQUIPMENT_COLLECTION_NAME), orderBy("brand", "asc"), orderBy("model", "asc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => {
-    const data = docSnap.data();
-    return {
-      id: docSnap.id,
-      brand: data.brand || "Marca Desconhecida",
-      model: data.model || "Modelo Desconhecido",
-      chassisNumber: data.chassisNumber || "N/A",
-      equipmentType: data.equipmentType,
-      manufactureYear: parseNumericToNullOrNumber(data.manufactureYear),
-      operationalStatus: data.operationalStatus,
-      customerId: data.customerId || null,
-      ownerReference: data.ownerReference || null,
-    } as Maquina;
-  });
-}
-
 export function PartsWarehouseClientPage() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -139,32 +80,32 @@ export function PartsWarehouseClientPage() {
 
 
   const { data: requisitions = [], isLoading: isLoadingRequisitions, isError: isErrorRequisitions, error: errorRequisitionsDataAll } = useQuery<PartsRequisition[], Error>({
-    queryKey: [FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME],
+    queryKey: queryKeys.partsRequisitions.all,
     queryFn: fetchPartsRequisitions,
     enabled: !!db,
   });
 
   const { data: serviceOrders = [], isLoading: isLoadingServiceOrders, isError: isErrorServiceOrders, error: errorServiceOrdersData } = useQuery<ServiceOrder[], Error>({
-    queryKey: [FIRESTORE_SERVICE_ORDER_COLLECTION_NAME],
+    queryKey: queryKeys.serviceOrders.all,
     queryFn: fetchServiceOrders,
     enabled: !!db,
   });
 
   const { data: technicians = [], isLoading: isLoadingTechnicians, isError: isErrorTechnicians, error: errorTechniciansData } = useQuery<Technician[], Error>({
-    queryKey: [FIRESTORE_TECHNICIAN_COLLECTION_NAME],
+    queryKey: queryKeys.technicians.all,
     queryFn: fetchTechnicians,
     enabled: !!db,
   });
 
   const { data: customers = [], isLoading: isLoadingCustomers, isError: isErrorCustomers, error: errorCustomersData } = useQuery<Customer[], Error>({
-    queryKey: [FIRESTORE_CUSTOMER_COLLECTION_NAME],
+    queryKey: queryKeys.customers.all,
     queryFn: fetchCustomers,
     enabled: !!db,
   });
 
   const { data: equipmentList = [], isLoading: isLoadingEquipment, isError: isErrorEquipment, error: errorEquipmentData } = useQuery<Maquina[], Error>({
-    queryKey: [FIRESTORE_EQUIPMENT_COLLECTION_NAME],
-    queryFn: fetchEquipmentList,
+    queryKey: queryKeys.maquinas.all,
+    queryFn: fetchMaquinas,
     enabled: !!db,
   });
 
@@ -246,30 +187,16 @@ export function PartsWarehouseClientPage() {
         warehouseNotes?: string | null;
         estimatedCost?: number | null;
     }) => {
-        if (!db) throw new Error("Firebase DB is not available.");
-        const reqRef = doc(db, FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME, data.requisitionId);
-
-        await runTransaction(db, async (transaction) => {
-            const reqDoc = await transaction.get(reqRef);
-            if (!reqDoc.exists()) {
-                throw new Error("Requisição não encontrada.");
-            }
-
-            const currentRequisition = reqDoc.data() as PartsRequisition;
-            const itemIndex = currentRequisition.items.findIndex(item => item.id === data.itemId);
-
-            if (itemIndex === -1) {
-                throw new Error("Item da requisição não encontrado.");
-            }
-
-            const updatedItems = [...currentRequisition.items];
-            updatedItems[itemIndex] = {
-                ...updatedItems[itemIndex],
-                status: data.newStatus,
-                warehouseNotes: data.warehouseNotes === undefined ? updatedItems[itemIndex].warehouseNotes : data.warehouseNotes,
-                estimatedCost: data.estimatedCost === undefined ? updatedItems[itemIndex].estimatedCost : data.estimatedCost,
-            };
-
+        await updatePartsRequisitionItem(
+          data.requisitionId,
+          data.itemId,
+          item => ({
+            ...item,
+            status: data.newStatus,
+            warehouseNotes: data.warehouseNotes === undefined ? item.warehouseNotes : data.warehouseNotes,
+            estimatedCost: data.estimatedCost === undefined ? item.estimatedCost : data.estimatedCost,
+          }),
+          (updatedItems, currentRequisition) => {
             let newRequisitionStatus: PartsRequisitionStatusType = currentRequisition.status;
 
             if (currentRequisition.status !== "Cancelada") {
@@ -291,11 +218,12 @@ export function PartsWarehouseClientPage() {
                    newRequisitionStatus = "Triagem Realizada";
                 }
             }
-            transaction.update(reqRef, { items: updatedItems, status: newRequisitionStatus });
-        });
+            return newRequisitionStatus;
+          },
+        );
     },
     onSuccess: () => {
-        queryClient.invalidateQueries({ queryKey: [FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME] });
+        queryClient.invalidateQueries({ queryKey: queryKeys.partsRequisitions.all });
         toast({ title: "Ação do Almoxarifado Concluída", description: "O item foi atualizado com sucesso." });
         setIsActionModalOpen(false);
         setCurrentItemAction(null);
@@ -417,7 +345,7 @@ export function PartsWarehouseClientPage() {
           description={searchTerm.trim() || statusFilter !== ALL_STATUSES_FILTER_VALUE ? "Nenhuma peça corresponde aos filtros aplicados." : "Aguardando peças aprovadas na triagem ou todas já foram processadas."}
           buttonLabel="Atualizar Lista"
           onButtonClick={() => {
-             queryClient.invalidateQueries({ queryKey: [FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME] });
+             queryClient.invalidateQueries({ queryKey: queryKeys.partsRequisitions.all });
              toast({title: "Lista Atualizada", description: "Buscando novas peças..."})
             }}
         />
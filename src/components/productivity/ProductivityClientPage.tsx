@@ -0,0 +1,114 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { addMonths, endOfMonth, format, startOfMonth } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { ChevronLeft, ChevronRight, Loader2, Timer, HardHat } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { LaborTimeEntry } from "@/types";
+import { PageHeader } from "@/components/shared/PageHeader";
+import { DataTablePlaceholder } from "@/components/shared/DataTablePlaceholder";
+import { db } from "@/lib/firebase";
+import { fetchLaborTimeEntriesBetween, queryKeys } from "@/lib/repositories";
+import { formatLaborHours, getTechnicianProductivity, summarizeLaborTime } from "@/lib/labor-time";
+import { formatCurrency } from "@/lib/utils";
+
+export function ProductivityClientPage() {
+  const [referenceMonth, setReferenceMonth] = useState(() => startOfMonth(new Date()));
+  const startDate = format(referenceMonth, "yyyy-MM-dd");
+  const endDate = format(endOfMonth(referenceMonth), "yyyy-MM-dd");
+
+  const { data: entries = [], isLoading, isError, error } = useQuery<LaborTimeEntry[], Error>({
+    queryKey: queryKeys.laborTimeEntries.byPeriod(startDate, endDate),
+    queryFn: () => fetchLaborTimeEntriesBetween(startDate, endDate),
+    enabled: !!db,
+  });
+
+  const productivity = useMemo(() => getTechnicianProductivity(entries), [entries]);
+  const totals = useMemo(() => summarizeLaborTime(entries), [entries]);
+  const totalServiceOrders = useMemo(() => new Set(entries.map(entry => entry.serviceOrderId)).size, [entries]);
+
+  if (!db) {
+    return <div className="text-red-500 p-4">Erro: Conexão com Firebase não disponível.</div>;
+  }
+
+  return (
+    <>
+      <PageHeader
+        title=""
+        actions={
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => setReferenceMonth(month => addMonths(month, -1))} aria-label="Mês anterior"><ChevronLeft className="h-4 w-4" /></Button>
+            <Button variant="outline" onClick={() => setReferenceMonth(startOfMonth(new Date()))}>Mês Atual</Button>
+            <Button variant="outline" size="icon" onClick={() => setReferenceMonth(month => addMonths(month, 1))} aria-label="Próximo mês"><ChevronRight className="h-4 w-4" /></Button>
+          </div>
+        }
+      />
+      <p className="text-muted-foreground text-sm mb-6 -mt-4">
+        Horas apontadas pelos técnicos nas ordens de serviço, separando deslocamento e atendimento. Apontamentos em andamento não entram nos totais.
+      </p>
+
+      <h2 className="text-lg font-headline font-semibold flex items-center capitalize mb-3">
+        <Timer className="mr-2 h-5 w-5 text-primary" /> {format(referenceMonth, "MMMM 'de' yyyy", { locale: ptBR })}
+      </h2>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-64"><Loader2 className="h-8 w-8 animate-spin text-primary" /><p className="ml-2">Carregando apontamentos...</p></div>
+      ) : isError ? (
+        <div className="text-red-500 p-4">Erro ao carregar apontamentos: {error?.message}</div>
+      ) : productivity.length === 0 ? (
+        <DataTablePlaceholder
+          icon={HardHat}
+          title="Nenhum Apontamento no Período"
+          description="Os técnicos registram entrada e saída na própria OS."
+        />
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Técnico</TableHead>
+                <TableHead className="text-right">OS Atendidas</TableHead>
+                <TableHead className="text-right">Deslocamento</TableHead>
+                <TableHead className="text-right">Atendimento</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="text-right">% em Atendimento</TableHead>
+                <TableHead className="text-right">Custo</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {productivity.map(row => (
+                <TableRow key={row.technicianId}>
+                  <TableCell className="font-medium">
+                    {row.technicianName}
+                    {row.openEntries > 0 && <span className="ml-2 text-xs text-muted-foreground">({row.openEntries} em andamento)</span>}
+                  </TableCell>
+                  <TableCell className="text-right">{row.serviceOrderCount}</TableCell>
+                  <TableCell className="text-right">{formatLaborHours(row.travelHours)}</TableCell>
+                  <TableCell className="text-right">{formatLaborHours(row.onSiteHours)}</TableCell>
+                  <TableCell className="text-right font-medium">{formatLaborHours(row.totalHours)}</TableCell>
+                  <TableCell className="text-right">{row.totalHours > 0 ? `${Math.round((row.onSiteHours / row.totalHours) * 100)}%` : "-"}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.laborCost)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell>Total</TableCell>
+                <TableCell className="text-right">{totalServiceOrders}</TableCell>
+                <TableCell className="text-right">{formatLaborHours(totals.travelHours)}</TableCell>
+                <TableCell className="text-right">{formatLaborHours(totals.onSiteHours)}</TableCell>
+                <TableCell className="text-right">{formatLaborHours(totals.totalHours)}</TableCell>
+                <TableCell className="text-right">{totals.totalHours > 0 ? `${Math.round((totals.onSiteHours / totals.totalHours) * 100)}%` : "-"}</TableCell>
+                <TableCell className="text-right">{formatCurrency(totals.laborCost)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,17 @@
+"use client";
+
+import { ProductivityClientPage } from "@/components/productivity/ProductivityClientPage";
+import { useState, useEffect } from 'react';
+import type { FC } from 'react';
+
+export const ProductivityPageContent: FC = () => {
+  const [isClient, setIsClient] = useState(false);
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  if (!isClient) {
+    return null;
+  }
+  return <ProductivityClientPage />;
+}
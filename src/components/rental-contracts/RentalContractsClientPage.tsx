@@ -0,0 +1,734 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import type * as z from "zod";
+import { PlusCircle, FileSignature, Users, Construction, PackageSearch, DollarSign, CalendarDays, Loader2, Search, Play, Square, X, FileDown, AlertTriangle, Percent } from "lucide-react";
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+
+import { Button, buttonVariants } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
+import type { RentalContract, RentalContractStatusType, Customer, Maquina, AuxiliaryEquipment, Company } from "@/types";
+import { RentalContractSchema, rentalContractStatusOptions, readjustmentIndexOptions, companyDisplayOptions, GOLDMAQ_COMPANY_ID } from "@/types";
+import { PageHeader } from "@/components/shared/PageHeader";
+import { DataTablePlaceholder } from "@/components/shared/DataTablePlaceholder";
+import { FormModal } from "@/components/shared/FormModal";
+import { DetailsHistoryTabs } from "@/components/shared/DetailsHistoryTabs";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { db } from "@/lib/firebase";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  fetchRentalContracts, fetchCustomers, fetchMaquinas, fetchAuxiliaryEquipment, fetchCompanies,
+  createRentalContract, updateRentalContract, updateRentalContractStatus, deleteRentalContract, queryKeys, PENDING_DOCUMENT_NUMBER,
+} from "@/lib/repositories";
+import { cn, formatAddressForDisplay, formatDateForDisplay, toTitleCase, formatCurrency } from "@/lib/utils";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+const ALL_STATUSES_FILTER_VALUE = "_ALL_STATUSES_RENTAL_";
+
+type RentalContractFormValues = z.infer<typeof RentalContractSchema>;
+
+const todayInputValue = () => new Date().toISOString().split('T')[0];
+
+const describeMaquina = (maquina: Maquina) =>
+  `${toTitleCase(maquina.brand)} ${toTitleCase(maquina.model)} (Chassi: ${maquina.chassisNumber || 'N/A'})`;
+
+const emptyFormValues = (): RentalContractFormValues => ({
+  contractNumber: PENDING_DOCUMENT_NUMBER,
+  companyId: GOLDMAQ_COMPANY_ID,
+  customerId: "",
+  equipmentIds: [],
+  auxiliaryEquipmentIds: [],
+  startDate: todayInputValue(),
+  endDate: null,
+  monthlyValue: 0,
+  depositValue: null,
+  readjustmentIndex: "IGP-M",
+  status: "Aguardando Início",
+  notes: "",
+});
+
+const isContractOverdue = (contract: RentalContract) =>
+  contract.status === "Ativo" && !!contract.endDate && contract.endDate < todayInputValue();
+
+const generateRentalContractPDF = (
+  contract: RentalContract,
+  customer: Customer | undefined,
+  maquinas: Maquina[],
+  auxiliaryItems: AuxiliaryEquipment[],
+  companyDetails: Company | undefined
+) => {
+  const doc = new jsPDF();
+  let yPos = 15;
+  const lineSpacing = 6;
+  const sectionSpacing = 10;
+  const smallText = 9;
+  const normalText = 10;
+  const largeText = 12;
+  const titleText = 16;
+
+  if (companyDetails) {
+    doc.setFontSize(largeText);
+    doc.setFont("helvetica", "bold");
+    doc.text(companyDetails.name, 14, yPos);
+    yPos += lineSpacing;
+    doc.setFontSize(smallText);
+    doc.setFont("helvetica", "normal");
+    doc.text(`CNPJ: ${companyDetails.cnpj}`, 14, yPos);
+    yPos += lineSpacing / 2;
+    doc.text(formatAddressForDisplay(companyDetails), 14, yPos);
+    yPos += lineSpacing;
+  }
+
+  doc.setFontSize(titleText);
+  doc.setFont("helvetica", "bold");
+  doc.text(`CONTRATO DE LOCAÇÃO Nº ${contract.contractNumber}`, 105, yPos, { align: "center" });
+  yPos += sectionSpacing;
+
+  doc.setFontSize(largeText);
+  doc.text("Locatário:", 14, yPos);
+  yPos += lineSpacing;
+  doc.setFontSize(normalText);
+  doc.setFont("helvetica", "normal");
+  if (customer) {
+    doc.text(`Nome/Razão Social: ${toTitleCase(customer.name)}`, 14, yPos);
+    yPos += lineSpacing;
+    doc.text(`CNPJ: ${customer.cnpj}`, 14, yPos);
+    yPos += lineSpacing;
+    doc.text(`Endereço: ${formatAddressForDisplay(customer)}`, 14, yPos);
+  } else {
+    doc.text("Cliente não especificado.", 14, yPos);
+  }
+  yPos += sectionSpacing;
+
+  doc.setFontSize(largeText);
+  doc.setFont("helvetica", "bold");
+  doc.text("Condições:", 14, yPos);
+  yPos += lineSpacing;
+  doc.setFontSize(normalText);
+  doc.setFont("helvetica", "normal");
+  doc.text(`Início: ${formatDateForDisplay(contract.startDate)}`, 14, yPos);
+  doc.text(`Término: ${contract.endDate ? formatDateForDisplay(contract.endDate) : "Prazo indeterminado"}`, 105, yPos);
+  yPos += lineSpacing;
+  doc.text(`Valor Mensal: ${formatCurrency(contract.monthlyValue)}`, 14, yPos);
+  doc.text(`Caução: ${contract.depositValue ? formatCurrency(contract.depositValue) : "Não há"}`, 105, yPos);
+  yPos += lineSpacing;
+  doc.text(`Índice de Reajuste: ${contract.readjustmentIndex}`, 14, yPos);
+  yPos += sectionSpacing;
+
+  const tableRows: string[][] = [
+    ...maquinas.map(maquina => ["Máquina", `${toTitleCase(maquina.brand)} ${toTitleCase(maquina.model)}`, maquina.chassisNumber || "N/A"]),
+    ...auxiliaryItems.map(item => ["Equip. Auxiliar", `${item.name} (${item.type})`, item.serialNumber || "N/A"]),
+  ];
+
+  autoTable(doc, {
+    head: [["Tipo", "Descrição", "Chassi / Nº de Série"]],
+    body: tableRows,
+    startY: yPos,
+    theme: 'grid',
+    headStyles: { fillColor: [249, 115, 22] },
+    styles: { fontSize: 9, cellPadding: 1.5 },
+    columnStyles: {
+      0: { cellWidth: 30 },
+      1: { cellWidth: 'auto' },
+      2: { cellWidth: 50 },
+    }
+  });
+
+  // @ts-ignore
+  yPos = doc.lastAutoTable.finalY + sectionSpacing;
+
+  if (contract.notes) {
+    doc.setFontSize(largeText);
+    doc.setFont("helvetica", "bold");
+    doc.text("Observações:", 14, yPos);
+    yPos += lineSpacing;
+    doc.setFontSize(normalText);
+    doc.setFont("helvetica", "normal");
+    const splitNotes = doc.splitTextToSize(contract.notes, 180);
+    doc.text(splitNotes, 14, yPos);
+    yPos += splitNotes.length * (lineSpacing / 1.5) + lineSpacing;
+  }
+
+  if (yPos > 250) {
+    doc.addPage();
+    yPos = 20;
+  }
+  yPos += sectionSpacing * 2;
+  doc.setFontSize(smallText);
+  doc.line(14, yPos, 94, yPos);
+  doc.line(116, yPos, 196, yPos);
+  yPos += lineSpacing / 1.5;
+  doc.text(companyDetails?.name || "Locadora", 54, yPos, { align: "center" });
+  doc.text(toTitleCase(customer?.name) || "Locatário", 156, yPos, { align: "center" });
+
+  doc.save(`contrato_locacao_${contract.contractNumber}.pdf`);
+};
+
+interface RentalContractsClientPageProps {
+  contractIdFromUrl?: string | null;
+}
+
+export function RentalContractsClientPage({ contractIdFromUrl }: RentalContractsClientPageProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canManageRentals = can("rentals:manage");
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingContract, setEditingContract] = useState<RentalContract | null>(null);
+  const [isEditMode, setIsEditMode] = useState(false);
+  const [statusChangeInfo, setStatusChangeInfo] = useState<{ contractId: string; contractNumber: string; newStatus: RentalContractStatusType } | null>(null);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState<RentalContractStatusType | typeof ALL_STATUSES_FILTER_VALUE>(ALL_STATUSES_FILTER_VALUE);
+
+  const form = useForm<RentalContractFormValues>({
+    resolver: zodResolver(RentalContractSchema),
+    defaultValues: emptyFormValues(),
+  });
+
+  const { data: contracts = [], isLoading: isLoadingContracts, isError: isErrorContracts, error: errorContracts } = useQuery<RentalContract[], Error>({
+    queryKey: queryKeys.rentalContracts.all,
+    queryFn: fetchRentalContracts,
+    enabled: !!db,
+  });
+
+  const { data: customers = [], isLoading: isLoadingCustomers } = useQuery<Customer[], Error>({
+    queryKey: queryKeys.customers.all,
+    queryFn: fetchCustomers,
+    enabled: !!db,
+  });
+
+  const { data: maquinaList = [], isLoading: isLoadingMaquinas } = useQuery<Maquina[], Error>({
+    queryKey: queryKeys.maquinas.all,
+    queryFn: fetchMaquinas,
+    enabled: !!db,
+  });
+
+  const { data: auxiliaryEquipmentList = [], isLoading: isLoadingAux } = useQuery<AuxiliaryEquipment[], Error>({
+    queryKey: queryKeys.auxiliaryEquipment.all,
+    queryFn: fetchAuxiliaryEquipment,
+    enabled: !!db,
+  });
+
+  const { data: companies = [], isLoading: isLoadingCompanies } = useQuery<Company[], Error>({
+    queryKey: queryKeys.companies.all,
+    queryFn: fetchCompanies,
+    enabled: !!db,
+  });
+
+  // Starting or ending a contract also changes the status of its machines.
+  const invalidateContractData = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.rentalContracts.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.maquinas.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.auxiliaryEquipment.all });
+  };
+
+  const addContractMutation = useMutation({
+    mutationFn: async (data: RentalContractFormValues) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      const { contractNumber, ...contractData } = data;
+      return createRentalContract(contractData);
+    },
+    onSuccess: (createdContract) => {
+      invalidateContractData();
+      toast({ title: "Contrato Criado", description: `Contrato ${createdContract.contractNumber} foi criado.` });
+      closeModal();
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Criar", description: `Não foi possível criar o contrato. Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const updateContractMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: RentalContractFormValues }) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      await updateRentalContract(id, data);
+      return data;
+    },
+    onSuccess: (data) => {
+      invalidateContractData();
+      toast({ title: "Contrato Atualizado", description: `Contrato ${data.contractNumber} foi atualizado.` });
+      closeModal();
+    },
+    onError: (err: Error, variables) => {
+      toast({ title: "Erro ao Atualizar", description: `Não foi possível atualizar o contrato ${variables.data.contractNumber}. Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const deleteContractMutation = useMutation({
+    mutationFn: async (contractId: string) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      return deleteRentalContract(contractId);
+    },
+    onSuccess: () => {
+      invalidateContractData();
+      toast({ title: "Contrato Excluído" });
+      closeModal();
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Excluir", description: `Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ contractId, newStatus }: { contractId: string; newStatus: RentalContractStatusType }) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      await updateRentalContractStatus(contractId, newStatus);
+      return newStatus;
+    },
+    onSuccess: (newStatus) => {
+      invalidateContractData();
+      toast({ title: "Status Atualizado", description: `O contrato foi atualizado para "${newStatus}".` });
+      setStatusChangeInfo(null);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Atualizar Status", description: `Detalhes: ${err.message}`, variant: "destructive" });
+      setStatusChangeInfo(null);
+    },
+  });
+
+  const openModal = useCallback((contract?: RentalContract) => {
+    if (contract) {
+      setEditingContract(contract);
+      setIsEditMode(false);
+      form.reset({
+        ...contract,
+        endDate: contract.endDate || null,
+        depositValue: contract.depositValue ?? null,
+        notes: contract.notes || "",
+      });
+    } else {
+      setEditingContract(null);
+      setIsEditMode(true);
+      form.reset(emptyFormValues());
+    }
+    setIsModalOpen(true);
+  }, [form]);
+
+  useEffect(() => {
+    if (contractIdFromUrl && !isLoadingContracts && contracts.length > 0 && !isModalOpen) {
+      const contractToOpen = contracts.find(contract => contract.id === contractIdFromUrl);
+      if (contractToOpen) {
+        openModal(contractToOpen);
+        if (typeof window !== "undefined") {
+          window.history.replaceState(null, '', '/rental-contracts');
+        }
+      }
+    }
+  }, [contractIdFromUrl, contracts, isLoadingContracts, openModal, isModalOpen]);
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingContract(null);
+    setIsEditMode(false);
+    form.reset(emptyFormValues());
+  };
+
+  const onSubmit = (values: RentalContractFormValues) => {
+    if (editingContract) {
+      updateContractMutation.mutate({ id: editingContract.id, data: values });
+    } else {
+      addContractMutation.mutate(values);
+    }
+  };
+
+  const handleModalDeleteConfirm = () => {
+    if (editingContract && window.confirm(`Tem certeza que deseja excluir o contrato "${editingContract.contractNumber}"?`)) {
+      deleteContractMutation.mutate(editingContract.id);
+    }
+  };
+
+  const getCustomerInfo = useCallback((customerId: string) => customers.find(c => c.id === customerId), [customers]);
+  const getContractMaquinas = useCallback((contract: RentalContract) =>
+    maquinaList.filter(maquina => contract.equipmentIds.includes(maquina.id)), [maquinaList]);
+  const getContractAuxiliaryItems = useCallback((contract: RentalContract) =>
+    auxiliaryEquipmentList.filter(item => contract.auxiliaryEquipmentIds.includes(item.id)), [auxiliaryEquipmentList]);
+
+  // Scrapped items cannot be rented; the ones already in the contract stay listed so they can be removed.
+  const selectedEquipmentIds = form.watch("equipmentIds");
+  const selectedAuxiliaryIds = form.watch("auxiliaryEquipmentIds");
+  const selectableMaquinas = useMemo(() => maquinaList.filter(maquina =>
+    maquina.operationalStatus !== "Sucata" || selectedEquipmentIds.includes(maquina.id)), [maquinaList, selectedEquipmentIds]);
+  const selectableAuxiliaryItems = useMemo(() => auxiliaryEquipmentList.filter(item =>
+    item.status !== "Sucata" || selectedAuxiliaryIds.includes(item.id)), [auxiliaryEquipmentList, selectedAuxiliaryIds]);
+
+  const filteredContracts = useMemo(() => {
+    let tempContracts = contracts;
+    if (statusFilter !== ALL_STATUSES_FILTER_VALUE) {
+      tempContracts = tempContracts.filter(contract => contract.status === statusFilter);
+    }
+    if (searchTerm.trim()) {
+      const lowerSearchTerm = searchTerm.toLowerCase();
+      tempContracts = tempContracts.filter(contract =>
+        contract.contractNumber.toLowerCase().includes(lowerSearchTerm) ||
+        getCustomerInfo(contract.customerId)?.name.toLowerCase().includes(lowerSearchTerm) ||
+        getContractMaquinas(contract).some(maquina =>
+          maquina.chassisNumber.toLowerCase().includes(lowerSearchTerm) ||
+          `${maquina.brand} ${maquina.model}`.toLowerCase().includes(lowerSearchTerm))
+      );
+    }
+    return tempContracts;
+  }, [contracts, statusFilter, searchTerm, getCustomerInfo, getContractMaquinas]);
+
+  const handleGeneratePdfClick = (contract: RentalContract) => {
+    generateRentalContractPDF(
+      contract,
+      getCustomerInfo(contract.customerId),
+      getContractMaquinas(contract),
+      getContractAuxiliaryItems(contract),
+      companies.find(company => company.id === contract.companyId)
+    );
+  };
+
+  const isLoadingPageData = isLoadingContracts || isLoadingCustomers || isLoadingMaquinas || isLoadingAux || isLoadingCompanies;
+  const isMutating = addContractMutation.isPending || updateContractMutation.isPending || deleteContractMutation.isPending || updateStatusMutation.isPending;
+
+  if (!db) {
+    return <div className="text-red-500 p-4">Erro: Conexão com Firebase não disponível.</div>;
+  }
+  if (isLoadingPageData && !isModalOpen) {
+    return <div className="flex justify-center items-center h-64"><Loader2 className="h-8 w-8 animate-spin text-primary" /><p className="ml-2">Carregando dados...</p></div>;
+  }
+  if (isErrorContracts) {
+    return <div className="text-red-500 p-4">Erro ao carregar contratos: {errorContracts?.message}</div>;
+  }
+
+  return (
+    <>
+      <PageHeader
+        title=""
+        actions={canManageRentals ? (
+          <Button onClick={() => openModal()} className="bg-primary hover:bg-primary/90" disabled={isMutating}>
+            <PlusCircle className="mr-2 h-4 w-4" /> Novo Contrato
+          </Button>
+        ) : undefined}
+      />
+      <p className="text-muted-foreground text-sm mb-6 -mt-4">
+        Contratos de locação de máquinas e equipamentos auxiliares. Ao iniciar um contrato os itens passam a "Locada"/"Locado"; ao encerrá-lo ou cancelá-lo voltam a "Disponível".
+      </p>
+
+      <div className="mb-6 flex flex-col md:flex-row gap-4">
+        <div className="relative flex-grow">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+          <Input
+            type="search"
+            placeholder="Buscar por nº contrato, cliente, máquina..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10"
+          />
+        </div>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as RentalContractStatusType | typeof ALL_STATUSES_FILTER_VALUE)}>
+          <SelectTrigger className="w-full md:w-[200px]">
+            <SelectValue placeholder="Filtrar por status..." />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_STATUSES_FILTER_VALUE}>Todos os Status</SelectItem>
+            {rentalContractStatusOptions.map(status => (
+              <SelectItem key={status} value={status}>{status}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {contracts.length === 0 && !searchTerm.trim() && statusFilter === ALL_STATUSES_FILTER_VALUE ? (
+        <DataTablePlaceholder
+          icon={FileSignature}
+          title="Nenhum Contrato de Locação"
+          description="Cadastre o primeiro contrato para controlar as máquinas locadas."
+          buttonLabel={canManageRentals ? "Novo Contrato" : undefined}
+          onButtonClick={canManageRentals ? () => openModal() : undefined}
+        />
+      ) : filteredContracts.length === 0 ? (
+        <div className="text-center py-10">
+          <Search className="mx-auto h-12 w-12 text-muted-foreground" />
+          <h3 className="mt-2 text-lg font-semibold">Nenhum Contrato Encontrado</h3>
+          <p className="text-sm text-muted-foreground">Sua busca ou filtro não retornou resultados.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {filteredContracts.map((contract) => {
+            const customer = getCustomerInfo(contract.customerId);
+            const contractMaquinas = getContractMaquinas(contract);
+            const contractAuxiliaryItems = getContractAuxiliaryItems(contract);
+            const companyName = companyDisplayOptions.find(company => company.id === contract.companyId)?.name || contract.companyId;
+
+            return (
+              <Card key={contract.id} className="flex flex-col shadow-lg hover:shadow-xl transition-shadow duration-300">
+                <div onClick={() => openModal(contract)} className="cursor-pointer flex-grow">
+                  <CardHeader>
+                    <div className="flex justify-between items-start">
+                      <CardTitle className="font-headline text-xl text-primary">Contrato: {contract.contractNumber}</CardTitle>
+                      <span className={cn("px-2 py-0.5 rounded-full text-xs font-semibold", {
+                        "bg-yellow-100 text-yellow-700": contract.status === "Aguardando Início",
+                        "bg-green-100 text-green-700": contract.status === "Ativo",
+                        "bg-slate-100 text-slate-700": contract.status === "Encerrado",
+                        "bg-red-100 text-red-700": contract.status === "Cancelado",
+                      })}>
+                        {contract.status}
+                      </span>
+                    </div>
+                    <CardDescription>Locadora: {companyName}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="flex-grow space-y-2 text-sm">
+                    <p className="flex items-center">
+                      <Users className="mr-2 h-4 w-4 text-primary flex-shrink-0" />
+                      <span className="font-medium text-muted-foreground mr-1">Cliente:</span>
+                      {toTitleCase(customer?.name) || 'N/A'}
+                    </p>
+                    <div className="flex items-start">
+                      <Construction className="mr-2 mt-0.5 h-4 w-4 text-primary flex-shrink-0" />
+                      <div>
+                        <span className="font-medium text-muted-foreground mr-1">Máquinas:</span>
+                        {contractMaquinas.length > 0 ? contractMaquinas.map(describeMaquina).join(", ") : "N/A"}
+                      </div>
+                    </div>
+                    {contractAuxiliaryItems.length > 0 && (
+                      <p className="flex items-start">
+                        <PackageSearch className="mr-2 mt-0.5 h-4 w-4 text-primary flex-shrink-0" />
+                        <span><span className="font-medium text-muted-foreground mr-1">Auxiliares:</span>{contractAuxiliaryItems.map(item => item.name).join(", ")}</span>
+                      </p>
+                    )}
+                    <p className="flex items-center">
+                      <DollarSign className="mr-2 h-4 w-4 text-primary flex-shrink-0" />
+                      <span className="font-medium text-muted-foreground mr-1">Valor Mensal:</span>
+                      {formatCurrency(contract.monthlyValue)}
+                    </p>
+                    <p className="flex items-center">
+                      <Percent className="mr-2 h-4 w-4 text-primary flex-shrink-0" />
+                      <span className="font-medium text-muted-foreground mr-1">Reajuste:</span>
+                      {contract.readjustmentIndex}
+                    </p>
+                    <p className="flex items-center">
+                      <CalendarDays className="mr-2 h-4 w-4 text-primary flex-shrink-0" />
+                      <span className="font-medium text-muted-foreground mr-1">Vigência:</span>
+                      {formatDateForDisplay(contract.startDate)} – {contract.endDate ? formatDateForDisplay(contract.endDate) : "Indeterminado"}
+                    </p>
+                    {isContractOverdue(contract) && (
+                      <p className="flex items-center text-destructive font-medium">
+                        <AlertTriangle className="mr-2 h-4 w-4 flex-shrink-0" /> Vencido: encerre ou renove o contrato.
+                      </p>
+                    )}
+                  </CardContent>
+                </div>
+                <CardFooter className="border-t pt-4 flex flex-wrap gap-2">
+                  {canManageRentals && contract.status === "Aguardando Início" && (
+                    <Button variant="outline" size="sm" className="border-green-500 text-green-600 hover:bg-green-50 hover:text-green-700" onClick={() => setStatusChangeInfo({ contractId: contract.id, contractNumber: contract.contractNumber, newStatus: "Ativo" })} disabled={isMutating}>
+                      <Play className="mr-1.5 h-3.5 w-3.5" /> Iniciar
+                    </Button>
+                  )}
+                  {canManageRentals && contract.status === "Ativo" && (
+                    <Button variant="outline" size="sm" className="border-blue-500 text-blue-600 hover:bg-blue-50 hover:text-blue-700" onClick={() => setStatusChangeInfo({ contractId: contract.id, contractNumber: contract.contractNumber, newStatus: "Encerrado" })} disabled={isMutating}>
+                      <Square className="mr-1.5 h-3.5 w-3.5" /> Encerrar
+                    </Button>
+                  )}
+                  {canManageRentals && contract.status === "Aguardando Início" && (
+                    <Button variant="outline" size="sm" className="border-slate-500 text-slate-600 hover:bg-slate-50 hover:text-slate-700" onClick={() => setStatusChangeInfo({ contractId: contract.id, contractNumber: contract.contractNumber, newStatus: "Cancelado" })} disabled={isMutating}>
+                      <X className="mr-1.5 h-3.5 w-3.5" /> Cancelar
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" className="ml-auto" onClick={() => handleGeneratePdfClick(contract)} disabled={isMutating}>
+                    <FileDown className="mr-1.5 h-3.5 w-3.5" /> PDF
+                  </Button>
+                </CardFooter>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <FormModal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        title={editingContract ? "Editar Contrato de Locação" : "Novo Contrato de Locação"}
+        description="Cliente, itens locados, vigência e valores do contrato."
+        formId="rental-contract-form"
+        isSubmitting={isMutating}
+        editingItem={editingContract}
+        onDeleteConfirm={canManageRentals ? handleModalDeleteConfirm : undefined}
+        isDeleting={deleteContractMutation.isPending}
+        deleteButtonLabel="Excluir Contrato"
+        isEditMode={isEditMode}
+        onEditModeToggle={canManageRentals ? () => setIsEditMode(true) : undefined}
+        submitButtonLabel={editingContract && !isEditMode ? "Editar" : (editingContract ? "Salvar Alterações" : "Criar Contrato")}
+      >
+        <DetailsHistoryTabs entityType="rentalContract" entityId={editingContract?.id}>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} id="rental-contract-form" className="space-y-6">
+              <fieldset disabled={!!editingContract && !isEditMode} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField control={form.control} name="contractNumber" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Número do Contrato</FormLabel>
+                      <FormControl><Input {...field} readOnly className="bg-muted/50" /></FormControl>
+                      {!editingContract && <FormDescription>Gerado ao salvar, pela sequência da empresa.</FormDescription>}
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                  <FormField control={form.control} name="companyId" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Empresa Locadora</FormLabel>
+                      {/* The number belongs to the company's sequence, so it is fixed once issued. */}
+                      <Select onValueChange={field.onChange} value={field.value} disabled={!!editingContract}>
+                        <FormControl><SelectTrigger><SelectValue placeholder="Selecione a empresa" /></SelectTrigger></FormControl>
+                        <SelectContent>
+                          {companyDisplayOptions.map(company => <SelectItem key={company.id} value={company.id}>{company.name}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                </div>
+
+                <FormField control={form.control} name="customerId" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cliente</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl><SelectTrigger><SelectValue placeholder={isLoadingCustomers ? "Carregando clientes..." : "Selecione o cliente"} /></SelectTrigger></FormControl>
+                      <SelectContent>
+                        {customers.map(customer => <SelectItem key={customer.id} value={customer.id}>{toTitleCase(customer.name)}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+
+                <FormField control={form.control} name="equipmentIds" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Máquinas</FormLabel>
+                    <ScrollArea className="h-40 rounded-md border p-2">
+                      {selectableMaquinas.map(maquina => (
+                        <label key={maquina.id} className="flex items-center gap-2 py-1 text-sm cursor-pointer">
+                          <Checkbox
+                            checked={field.value.includes(maquina.id)}
+                            onCheckedChange={(checked) => field.onChange(checked ? [...field.value, maquina.id] : field.value.filter(id => id !== maquina.id))}
+                          />
+                          <span className="flex-grow">{describeMaquina(maquina)}</span>
+                          <span className="text-xs text-muted-foreground">{maquina.operationalStatus}</span>
+                        </label>
+                      ))}
+                    </ScrollArea>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+
+                <FormField control={form.control} name="auxiliaryEquipmentIds" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Equipamentos Auxiliares (Opcional)</FormLabel>
+                    <ScrollArea className="h-32 rounded-md border p-2">
+                      {selectableAuxiliaryItems.length === 0 ? (
+                        <p className="text-sm text-muted-foreground text-center py-2">Nenhum equipamento auxiliar cadastrado.</p>
+                      ) : selectableAuxiliaryItems.map(item => (
+                        <label key={item.id} className="flex items-center gap-2 py-1 text-sm cursor-pointer">
+                          <Checkbox
+                            checked={field.value.includes(item.id)}
+                            onCheckedChange={(checked) => field.onChange(checked ? [...field.value, item.id] : field.value.filter(id => id !== item.id))}
+                          />
+                          <span className="flex-grow">{item.name} ({item.type})</span>
+                          <span className="text-xs text-muted-foreground">{item.status}</span>
+                        </label>
+                      ))}
+                    </ScrollArea>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField control={form.control} name="startDate" render={({ field }) => (
+                    <FormItem><FormLabel>Data de Início</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                  <FormField control={form.control} name="endDate" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Data de Término (Opcional)</FormLabel>
+                      <FormControl><Input type="date" {...field} value={field.value ?? ""} onChange={e => field.onChange(e.target.value || null)} /></FormControl>
+                      <FormDescription>Deixe em branco para prazo indeterminado.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <FormField control={form.control} name="monthlyValue" render={({ field }) => (
+                    <FormItem><FormLabel>Valor Mensal (R$)</FormLabel><FormControl><Input type="number" step="0.01" placeholder="0.00" {...field} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                  <FormField control={form.control} name="depositValue" render={({ field }) => (
+                    <FormItem><FormLabel>Caução (R$, Opcional)</FormLabel><FormControl><Input type="number" step="0.01" placeholder="0.00" {...field} value={field.value ?? ""} onChange={e => field.onChange(e.target.value === "" ? null : parseFloat(e.target.value))} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                  <FormField control={form.control} name="readjustmentIndex" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Índice de Reajuste</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                        <SelectContent>{readjustmentIndexOptions.map(opt => <SelectItem key={opt} value={opt}>{opt}</SelectItem>)}</SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                </div>
+
+                <FormField control={form.control} name="status" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Status do Contrato</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                      <SelectContent>{rentalContractStatusOptions.map(opt => <SelectItem key={opt} value={opt}>{opt}</SelectItem>)}</SelectContent>
+                    </Select>
+                    <FormDescription>Um contrato "Ativo" marca as máquinas e equipamentos como locados.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+
+                <FormField control={form.control} name="notes" render={({ field }) => (
+                  <FormItem><FormLabel>Observações (Opcional)</FormLabel><FormControl><Textarea placeholder="Local de uso, condições especiais, franquia de horas..." {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+                )} />
+              </fieldset>
+            </form>
+          </Form>
+        </DetailsHistoryTabs>
+      </FormModal>
+
+      <AlertDialog open={!!statusChangeInfo} onOpenChange={(open) => { if (!open) setStatusChangeInfo(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Confirmar Mudança de Status</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja alterar o status do contrato "{statusChangeInfo?.contractNumber}" para "{statusChangeInfo?.newStatus}"?
+              {statusChangeInfo?.newStatus === "Ativo" && " As máquinas e equipamentos do contrato passarão a constar como locados."}
+              {statusChangeInfo?.newStatus === "Encerrado" && " As máquinas e equipamentos do contrato voltarão a constar como disponíveis."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isMutating}>Voltar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => statusChangeInfo && updateStatusMutation.mutate(statusChangeInfo)}
+              disabled={isMutating}
+              className={cn(statusChangeInfo?.newStatus === "Cancelado" && buttonVariants({ variant: "destructive" }))}
+            >
+              {isMutating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Confirmar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
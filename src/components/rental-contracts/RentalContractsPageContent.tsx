@@ -0,0 +1,21 @@
+"use client";
+
+import { useSearchParams } from "next/navigation";
+import { RentalContractsClientPage } from "@/components/rental-contracts/RentalContractsClientPage";
+import { useState, useEffect } from 'react';
+import type { FC } from 'react';
+
+export const RentalContractsPageContent: FC = () => {
+  const searchParams = useSearchParams();
+  const contractIdToOpen = searchParams ? searchParams.get('openRentalContractId') : null;
+
+  const [isClient, setIsClient] = useState(false);
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  if (!isClient) {
+    return null;
+  }
+  return <RentalContractsClientPage contractIdFromUrl={contractIdToOpen} />;
+}
@@ -0,0 +1,574 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { AlertTriangle, Loader2, Route, MapPin, Save, Building } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { Company, Customer, DailyRoute, DailyRouteStop, LaborRate, ServiceOrder, Technician, TollPlaza, TripCostBreakdown, Vehicle } from "@/types";
+import { GOLDMAQ_COMPANY_ID } from "@/types";
+import { PageHeader } from "@/components/shared/PageHeader";
+import { DataTablePlaceholder } from "@/components/shared/DataTablePlaceholder";
+import { TripCostBreakdownSummary } from "@/components/service-orders/TripCostBreakdownSummary";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { db } from "@/lib/firebase";
+import {
+  fetchServiceOrders, fetchServiceOrdersForTechnician, fetchTechnicians, fetchVehicles, fetchCustomers, fetchCompanyById,
+  fetchTollPlazas, fetchLaborRates, fetchDailyRoute, saveDailyRoute, getDailyRouteId, queryKeys, type DailyRouteInput,
+} from "@/lib/repositories";
+import { isOpenServiceOrder, isOrderOnDay } from "@/lib/dispatch";
+import { lookupRouteMatrix, type RoutePlace, type RouteLookupResult } from "@/lib/route-lookup";
+import { formatTimeOfDay, optimizeRoute, parseTimeOfDay } from "@/lib/route-optimization";
+import { AVERAGE_TRAVEL_SPEED_KMH, calculateTripCost, splitTripCost } from "@/lib/trip-cost";
+import { findRouteTollPlazas, getTollCategoryForVehicleKind, sumLegTolls } from "@/lib/tolls";
+import { decodePolyline } from "@/lib/routing";
+import { formatLaborHours } from "@/lib/labor-time";
+import { cn, formatCurrency } from "@/lib/utils";
+
+const NO_VEHICLE_SELECTED_VALUE = "_NO_VEHICLE_";
+const DEFAULT_START_TIME = "08:00";
+const DEFAULT_SERVICE_MINUTES = 90;
+
+interface VisitWindow {
+  start: string;
+  end: string;
+}
+
+interface PlannedRoute {
+  route: DailyRouteInput;
+  shares: TripCostBreakdown[];
+  separateTripsDistanceKm: number; // Each order as its own round trip
+  isSimulated: boolean;
+}
+
+interface RoutePlanParams {
+  orders: ServiceOrder[];
+  legs: (RouteLookupResult | null)[][]; // Index 0 is the company
+  windows: VisitWindow[];
+  technicianId: string;
+  date: string;
+  vehicle: Vehicle | undefined;
+  startTime: string;
+  serviceMinutes: number;
+  tollPlazas: TollPlaza[];
+  travelHourlyRate: number | undefined;
+  updatedByName: string | null;
+}
+
+const roundDistance = (value: number) => Math.round(value * 10) / 10;
+
+const hasRoutingAddress = (address: Customer | Company | null | undefined) =>
+  !!address && !!address.street && !!address.city && !!address.state && !!address.cep;
+
+// The whole route is priced as one trip and then divided among the orders by
+// what each would have cost on its own (its direct round trip from the company).
+function buildPlannedRoute(params: RoutePlanParams): PlannedRoute {
+  const { orders, legs, vehicle, tollPlazas } = params;
+  const leg = (from: number, to: number) => legs[from][to]!;
+  const distanceKm = legs.map((row, from) => row.map((_, to) => (from === to ? 0 : leg(from, to).distanceKm)));
+  const durationMinutes = legs.map((row, from) => row.map((_, to) => {
+    if (from === to) return 0;
+    return leg(from, to).durationMinutes ?? (leg(from, to).distanceKm / AVERAGE_TRAVEL_SPEED_KMH) * 60;
+  }));
+
+  const category = getTollCategoryForVehicleKind(vehicle?.kind);
+  let usedAiTolls = false;
+  const legToll = (from: number, to: number) => {
+    const { routePolyline, estimatedTollCostByAI } = leg(from, to);
+    if (routePolyline && tollPlazas.length > 0) return sumLegTolls(findRouteTollPlazas(decodePolyline(routePolyline), tollPlazas, category));
+    if (estimatedTollCostByAI) usedAiTolls = true;
+    return estimatedTollCostByAI ?? 0;
+  };
+
+  const plan = optimizeRoute(
+    { distanceKm, durationMinutes },
+    params.windows.map(window => ({ windowStart: parseTimeOfDay(window.start), windowEnd: parseTimeOfDay(window.end) })),
+    { startMinutes: parseTimeOfDay(params.startTime) ?? parseTimeOfDay(DEFAULT_START_TIME)!, serviceMinutes: params.serviceMinutes }
+  );
+
+  let previous = 0;
+  const legTolls = plan.stops.map(stop => {
+    const toll = legToll(previous, stop.stopIndex);
+    previous = stop.stopIndex;
+    return toll;
+  });
+  const totalTollCost = Math.round((legTolls.reduce((total, toll) => total + toll, 0) + legToll(previous, 0)) * 100) / 100;
+
+  const costBreakdown = calculateTripCost({
+    roundTripDistanceKm: roundDistance(plan.totalDistanceKm),
+    roundTripTollCost: totalTollCost,
+    tollDetails: totalTollCost > 0
+      ? { tollSource: usedAiTolls ? "Estimativa IA" : "Praças de pedágio", tollCategory: usedAiTolls ? null : category, tollPlazas: null }
+      : null,
+    vehicle,
+    // calculateTripCost doubles the one-way time of a round trip.
+    oneWayDurationMinutes: plan.totalDrivingMinutes / 2,
+    travelHourlyRate: params.travelHourlyRate,
+  });
+
+  const routeId = getDailyRouteId(params.technicianId, params.date);
+  const directRoundTrips = plan.stops.map(stop => distanceKm[0][stop.stopIndex] + distanceKm[stop.stopIndex][0]);
+  const shares = splitTripCost(costBreakdown, directRoundTrips, routeId);
+  const stops: DailyRouteStop[] = plan.stops.map((stop, position) => {
+    const order = orders[stop.stopIndex - 1];
+    const window = params.windows[stop.stopIndex - 1];
+    return {
+      serviceOrderId: order.id,
+      orderNumber: order.orderNumber,
+      customerId: order.customerId,
+      windowStart: window.start || null,
+      windowEnd: window.end || null,
+      legDistanceKm: roundDistance(stop.legDistanceKm),
+      legTollCost: legTolls[position],
+      arrivalTime: formatTimeOfDay(stop.arrival),
+      departureTime: formatTimeOfDay(stop.departure),
+      lateMinutes: Math.round(stop.lateMinutes),
+      costShare: shares[position].routeShare?.share ?? 0,
+    };
+  });
+
+  return {
+    route: {
+      technicianId: params.technicianId,
+      vehicleId: vehicle?.id ?? null,
+      date: params.date,
+      startTime: params.startTime,
+      serviceMinutes: params.serviceMinutes,
+      stops,
+      returnDistanceKm: roundDistance(plan.returnDistanceKm),
+      returnTime: formatTimeOfDay(plan.returnArrival),
+      totalDistanceKm: roundDistance(plan.totalDistanceKm),
+      totalTollCost,
+      costBreakdown,
+      updatedByName: params.updatedByName,
+    },
+    shares,
+    separateTripsDistanceKm: roundDistance(directRoundTrips.reduce((total, distance) => total + distance, 0)),
+    isSimulated: legs.some(row => row.some(result => result?.status === "SIMULATED")),
+  };
+}
+
+export function RoutePlannerClientPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { technician, can } = useAuth();
+  const canViewAllOrders = can("serviceOrders:viewAll");
+  const canApplyRoute = can("serviceOrders:manage");
+
+  const [selectedTechnicianId, setSelectedTechnicianId] = useState("");
+  const [date, setDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [selectedVehicleId, setSelectedVehicleId] = useState<string | null | undefined>(undefined);
+  const [startTime, setStartTime] = useState(DEFAULT_START_TIME);
+  const [serviceMinutes, setServiceMinutes] = useState(DEFAULT_SERVICE_MINUTES);
+  const [editedWindows, setEditedWindows] = useState<Record<string, VisitWindow>>({});
+  const [plannedRoute, setPlannedRoute] = useState<PlannedRoute | null>(null);
+  const [isCalculating, setIsCalculating] = useState(false);
+
+  const technicianId = canViewAllOrders ? selectedTechnicianId : technician?.id || "";
+
+  const { data: serviceOrders = [], isLoading: isLoadingOrders, isError, error } = useQuery<ServiceOrder[], Error>({
+    queryKey: canViewAllOrders ? queryKeys.serviceOrders.all : queryKeys.serviceOrders.byTechnician(technician?.id),
+    queryFn: () => canViewAllOrders ? fetchServiceOrders() : fetchServiceOrdersForTechnician(technician!.id),
+    enabled: !!db && (canViewAllOrders || !!technician),
+  });
+
+  const { data: technicians = [], isLoading: isLoadingTechnicians } = useQuery<Technician[], Error>({
+    queryKey: queryKeys.technicians.all,
+    queryFn: fetchTechnicians,
+    enabled: !!db,
+  });
+
+  const { data: vehicles = [] } = useQuery<Vehicle[], Error>({
+    queryKey: queryKeys.vehicles.all,
+    queryFn: fetchVehicles,
+    enabled: !!db,
+  });
+
+  const { data: customers = [] } = useQuery<Customer[], Error>({
+    queryKey: queryKeys.customers.all,
+    queryFn: fetchCustomers,
+    enabled: !!db,
+  });
+
+  const { data: goldmaqCompany } = useQuery<Company | null, Error>({
+    queryKey: queryKeys.companies.detail(GOLDMAQ_COMPANY_ID),
+    queryFn: () => fetchCompanyById(GOLDMAQ_COMPANY_ID),
+    enabled: !!db,
+  });
+
+  const { data: tollPlazas = [] } = useQuery<TollPlaza[], Error>({
+    queryKey: queryKeys.tollPlazas.all,
+    queryFn: fetchTollPlazas,
+    enabled: !!db,
+  });
+
+  const { data: laborRates = [] } = useQuery<LaborRate[], Error>({
+    queryKey: queryKeys.laborRates.all,
+    queryFn: fetchLaborRates,
+    enabled: !!db,
+  });
+
+  const dailyRouteId = technicianId ? getDailyRouteId(technicianId, date) : null;
+  const { data: savedRoute } = useQuery<DailyRoute | null, Error>({
+    queryKey: queryKeys.dailyRoutes.detail(dailyRouteId),
+    queryFn: () => fetchDailyRoute(technicianId, date),
+    enabled: !!db && !!dailyRouteId,
+  });
+
+  const customerById = useMemo(() => new Map(customers.map(customer => [customer.id, customer])), [customers]);
+  const selectedTechnician = technicians.find(t => t.id === technicianId);
+
+  const dayOrders = useMemo(() => serviceOrders
+    .filter(order => order.technicianId === technicianId && isOpenServiceOrder(order) && isOrderOnDay(order, date))
+    .sort((a, b) => a.orderNumber.localeCompare(b.orderNumber)),
+  [serviceOrders, technicianId, date]);
+
+  // Until a vehicle is picked, the one already on the day's orders.
+  const vehicleId = selectedVehicleId !== undefined ? selectedVehicleId : dayOrders.find(order => order.vehicleId)?.vehicleId ?? null;
+  const vehicle = vehicles.find(v => v.id === vehicleId);
+
+  const getWindow = (order: ServiceOrder): VisitWindow =>
+    editedWindows[order.id] ?? { start: order.visitWindowStart || "", end: order.visitWindowEnd || "" };
+  const invalidWindowOrders = dayOrders.filter(order => {
+    const window = getWindow(order);
+    return !!window.start && !!window.end && window.start >= window.end;
+  });
+
+  const resetPlan = () => {
+    setPlannedRoute(null);
+    setEditedWindows({});
+    setSelectedVehicleId(undefined);
+  };
+
+  const updateWindow = (order: ServiceOrder, field: keyof VisitWindow, value: string) => {
+    setEditedWindows(current => ({ ...current, [order.id]: { ...getWindow(order), [field]: value } }));
+    setPlannedRoute(null);
+  };
+
+  const handleCalculate = async () => {
+    if (!hasRoutingAddress(goldmaqCompany)) {
+      toast({ title: "Endereço da Goldmaq Incompleto", description: "Complete o endereço da empresa Goldmaq para calcular o roteiro.", variant: "destructive" });
+      return;
+    }
+    const withoutAddress = dayOrders.filter(order => !hasRoutingAddress(customerById.get(order.customerId)));
+    if (withoutAddress.length > 0) {
+      toast({
+        title: "Endereço do Cliente Incompleto",
+        description: `Complete o endereço do cliente das OS ${withoutAddress.map(order => order.orderNumber).join(", ")}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsCalculating(true);
+    try {
+      const places: RoutePlace[] = [
+        { type: "company", company: goldmaqCompany! },
+        ...dayOrders.map(order => ({ type: "customer" as const, customer: customerById.get(order.customerId)! })),
+      ];
+      const legs = await lookupRouteMatrix(places);
+      const failedLeg = legs.flat().find(result => result && result.status !== "SUCCESS" && result.status !== "SIMULATED");
+      if (failedLeg) throw new Error(failedLeg.errorMessage || `Não foi possível calcular a rota (${failedLeg.status}).`);
+
+      const planned = buildPlannedRoute({
+        orders: dayOrders,
+        legs,
+        windows: dayOrders.map(getWindow),
+        technicianId,
+        date,
+        vehicle,
+        startTime,
+        serviceMinutes,
+        tollPlazas,
+        travelHourlyRate: laborRates.find(rate => rate.role === selectedTechnician?.role)?.hourlyRate,
+        updatedByName: technician?.name || null,
+      });
+      setPlannedRoute(planned);
+      const lateCount = planned.route.stops.filter(stop => stop.lateMinutes > 0).length;
+      toast({
+        title: "Roteiro Calculado",
+        description: `${planned.route.stops.length} visitas, ${planned.route.totalDistanceKm} km.${planned.isSimulated ? " Distâncias simuladas." : ""}${lateCount > 0 ? ` ${lateCount} visita(s) fora da janela.` : ""}`,
+        variant: lateCount > 0 ? "destructive" : "default",
+      });
+    } catch (e: any) {
+      toast({ title: "Erro ao Calcular Roteiro", description: e.message || "Não foi possível calcular as rotas entre os clientes.", variant: "destructive" });
+    } finally {
+      setIsCalculating(false);
+    }
+  };
+
+  const applyRouteMutation = useMutation({
+    mutationFn: async (planned: PlannedRoute) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      return saveDailyRoute(planned.route, planned.shares);
+    },
+    onSuccess: (routeId, planned) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.serviceOrders.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dailyRoutes.detail(routeId) });
+      setPlannedRoute(null);
+      setEditedWindows({});
+      toast({ title: "Rateio Aplicado", description: `Custo de deslocamento de ${formatCurrency(planned.route.costBreakdown.totalCost)} dividido entre ${planned.route.stops.length} OS.` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Aplicar Rateio", description: `Não foi possível salvar o roteiro. Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const shownRoute: DailyRouteInput | DailyRoute | null | undefined = plannedRoute?.route ?? savedRoute;
+
+  const renderRouteTable = (route: DailyRouteInput | DailyRoute) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-10">#</TableHead>
+          <TableHead>OS / Cliente</TableHead>
+          <TableHead>Janela</TableHead>
+          <TableHead>Chegada</TableHead>
+          <TableHead>Saída</TableHead>
+          <TableHead className="text-right">Trecho</TableHead>
+          <TableHead className="text-right">Pedágio</TableHead>
+          <TableHead className="text-right">Rateio</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        <TableRow className="text-muted-foreground">
+          <TableCell><Building className="h-4 w-4" /></TableCell>
+          <TableCell>Saída da Goldmaq</TableCell>
+          <TableCell>-</TableCell>
+          <TableCell>-</TableCell>
+          <TableCell>{route.startTime}</TableCell>
+          <TableCell colSpan={3} />
+        </TableRow>
+        {route.stops.map((stop, position) => {
+          const customer = customerById.get(stop.customerId);
+          return (
+            <TableRow key={stop.serviceOrderId}>
+              <TableCell className="font-medium">{position + 1}</TableCell>
+              <TableCell>
+                <Link href={`/service-orders?openServiceOrderId=${stop.serviceOrderId}`} className="font-semibold text-primary hover:underline">
+                  OS {stop.orderNumber}
+                </Link>
+                <p className="text-xs text-muted-foreground">{customer ? customer.fantasyName || customer.name : "Cliente não encontrado"}</p>
+              </TableCell>
+              <TableCell>{stop.windowStart || stop.windowEnd ? `${stop.windowStart || "--:--"} - ${stop.windowEnd || "--:--"}` : "Livre"}</TableCell>
+              <TableCell className={cn(stop.lateMinutes > 0 && "text-destructive font-medium")}>
+                {stop.arrivalTime}
+                {stop.lateMinutes > 0 && (
+                  <span className="flex items-center text-xs"><AlertTriangle className="mr-1 h-3 w-3" /> {stop.lateMinutes} min de atraso</span>
+                )}
+              </TableCell>
+              <TableCell>{stop.departureTime}</TableCell>
+              <TableCell className="text-right">{stop.legDistanceKm.toLocaleString("pt-BR")} km</TableCell>
+              <TableCell className="text-right">{formatCurrency(stop.legTollCost)}</TableCell>
+              <TableCell className="text-right">
+                {formatCurrency(route.costBreakdown.totalCost * stop.costShare)}
+                <p className="text-xs text-muted-foreground">{(stop.costShare * 100).toLocaleString("pt-BR", { maximumFractionDigits: 1 })}%</p>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+        <TableRow className="text-muted-foreground">
+          <TableCell><Building className="h-4 w-4" /></TableCell>
+          <TableCell>Retorno à Goldmaq</TableCell>
+          <TableCell>-</TableCell>
+          <TableCell>{route.returnTime}</TableCell>
+          <TableCell>-</TableCell>
+          <TableCell className="text-right">{route.returnDistanceKm.toLocaleString("pt-BR")} km</TableCell>
+          <TableCell colSpan={2} />
+        </TableRow>
+      </TableBody>
+      <TableFooter>
+        <TableRow>
+          <TableCell colSpan={5}>Total do roteiro</TableCell>
+          <TableCell className="text-right">{route.totalDistanceKm.toLocaleString("pt-BR")} km</TableCell>
+          <TableCell className="text-right">{formatCurrency(route.totalTollCost)}</TableCell>
+          <TableCell className="text-right">{formatCurrency(route.costBreakdown.totalCost)}</TableCell>
+        </TableRow>
+      </TableFooter>
+    </Table>
+  );
+
+  if (!db) {
+    return <div className="text-red-500 p-4">Erro: Conexão com Firebase não disponível.</div>;
+  }
+  if (isLoadingOrders || isLoadingTechnicians) {
+    return <div className="flex justify-center items-center h-64"><Loader2 className="h-8 w-8 animate-spin text-primary" /><p className="ml-2">Carregando ordens de serviço...</p></div>;
+  }
+  if (isError) {
+    return <div className="text-red-500 p-4">Erro ao carregar ordens de serviço: {error?.message}</div>;
+  }
+
+  return (
+    <>
+      <PageHeader
+        title=""
+        actions={
+          <div className="flex flex-wrap items-center gap-2">
+            <Button onClick={handleCalculate} disabled={!technicianId || dayOrders.length === 0 || invalidWindowOrders.length > 0 || isCalculating}>
+              {isCalculating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Route className="mr-2 h-4 w-4" />}
+              Calcular Roteiro
+            </Button>
+            {canApplyRoute && plannedRoute && (
+              <Button variant="secondary" onClick={() => applyRouteMutation.mutate(plannedRoute)} disabled={applyRouteMutation.isPending}>
+                {applyRouteMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Aplicar Rateio às OS
+              </Button>
+            )}
+          </div>
+        }
+      />
+      <p className="text-muted-foreground text-sm mb-6 -mt-4">
+        Ordem de visitas do técnico no dia, saindo e voltando à Goldmaq e respeitando as janelas de atendimento. O custo de deslocamento do roteiro é dividido entre as OS proporcionalmente à distância de cada cliente, em vez de cobrar uma viagem de ida e volta por OS.
+      </p>
+
+      <Card className="mb-6">
+        <CardContent className="grid grid-cols-1 md:grid-cols-5 gap-4 pt-6">
+          <div className="space-y-1">
+            <Label>Técnico</Label>
+            {canViewAllOrders ? (
+              <Select value={selectedTechnicianId} onValueChange={(value) => { setSelectedTechnicianId(value); resetPlan(); }}>
+                <SelectTrigger><SelectValue placeholder="Selecione o técnico" /></SelectTrigger>
+                <SelectContent>
+                  {technicians.map(t => <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input value={technician?.name || ""} disabled />
+            )}
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="route-date">Data</Label>
+            <Input id="route-date" type="date" value={date} onChange={(e) => { setDate(e.target.value); resetPlan(); }} />
+          </div>
+          <div className="space-y-1">
+            <Label>Veículo</Label>
+            <Select
+              value={vehicleId || NO_VEHICLE_SELECTED_VALUE}
+              onValueChange={(value) => { setSelectedVehicleId(value === NO_VEHICLE_SELECTED_VALUE ? null : value); setPlannedRoute(null); }}
+            >
+              <SelectTrigger><SelectValue placeholder="Selecione um veículo" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_VEHICLE_SELECTED_VALUE}>Nenhum</SelectItem>
+                {vehicles.map(v => <SelectItem key={v.id} value={v.id}>{v.model} ({v.licensePlate})</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="route-start-time">Saída da Goldmaq</Label>
+            <Input id="route-start-time" type="time" value={startTime} onChange={(e) => { setStartTime(e.target.value || DEFAULT_START_TIME); setPlannedRoute(null); }} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="route-service-minutes">Tempo por Visita (min)</Label>
+            <Input
+              id="route-service-minutes"
+              type="number"
+              min={0}
+              step={15}
+              value={serviceMinutes}
+              onChange={(e) => { setServiceMinutes(Math.max(Number(e.target.value) || 0, 0)); setPlannedRoute(null); }}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {!technicianId ? (
+        <DataTablePlaceholder icon={Route} title="Selecione um Técnico" description="Escolha o técnico e o dia para montar o roteiro de visitas." />
+      ) : dayOrders.length === 0 ? (
+        <DataTablePlaceholder
+          icon={Route}
+          title="Nenhuma OS no Dia"
+          description={`${selectedTechnician?.name || "O técnico"} não tem ordens de serviço abertas em ${format(parseISO(date), "dd/MM/yyyy", { locale: ptBR })}.`}
+        />
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-1">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base font-headline flex items-center">
+                <MapPin className="mr-2 h-4 w-4 text-primary" /> Visitas do Dia ({dayOrders.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {dayOrders.map(order => {
+                const customer = customerById.get(order.customerId);
+                const window = getWindow(order);
+                const isInvalid = invalidWindowOrders.includes(order);
+                return (
+                  <div key={order.id} className="rounded-md border p-2 text-sm">
+                    <div className="flex justify-between gap-2">
+                      <span className="font-semibold">OS {order.orderNumber}</span>
+                      {!hasRoutingAddress(customer) && <span className="text-xs text-destructive">Endereço incompleto</span>}
+                    </div>
+                    <p className="truncate text-muted-foreground">{customer ? customer.fantasyName || customer.name : "Cliente não encontrado"}</p>
+                    <div className="mt-2 grid grid-cols-2 gap-2">
+                      <Input type="time" aria-label="Início da janela" value={window.start} onChange={(e) => updateWindow(order, "start", e.target.value)} />
+                      <Input type="time" aria-label="Fim da janela" value={window.end} onChange={(e) => updateWindow(order, "end", e.target.value)} />
+                    </div>
+                    {isInvalid && <p className="mt-1 text-xs text-destructive">O fim da janela deve ser depois do início.</p>}
+                  </div>
+                );
+              })}
+              <p className="text-xs text-muted-foreground">Sem janela, a visita pode ser feita a qualquer hora do dia.</p>
+            </CardContent>
+          </Card>
+
+          <div className="lg:col-span-2 space-y-4">
+            {shownRoute ? (
+              <>
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-base font-headline flex items-center">
+                      <Route className="mr-2 h-4 w-4 text-primary" />
+                      {plannedRoute ? "Roteiro Calculado" : "Roteiro Aplicado"}
+                    </CardTitle>
+                    {!plannedRoute && savedRoute && (
+                      <p className="text-xs text-muted-foreground">
+                        Aplicado {savedRoute.updatedAt ? `em ${format(parseISO(savedRoute.updatedAt), "dd/MM/yyyy HH:mm", { locale: ptBR })}` : ""} por {savedRoute.updatedByName || "—"}.
+                        Calcule novamente se as visitas do dia mudaram.
+                      </p>
+                    )}
+                    {plannedRoute?.isSimulated && (
+                      <p className="text-xs text-destructive">Distâncias simuladas: nenhum serviço de rotas está configurado.</p>
+                    )}
+                  </CardHeader>
+                  <CardContent className="overflow-x-auto">{renderRouteTable(shownRoute)}</CardContent>
+                </Card>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <TripCostBreakdownSummary breakdown={shownRoute.costBreakdown} />
+                  <div className="rounded-md border bg-muted/30 p-3 text-sm space-y-1">
+                    <p>Horas de deslocamento: <span className="font-medium">{formatLaborHours(shownRoute.costBreakdown.travelHours)}</span></p>
+                    {plannedRoute && (
+                      <p>
+                        Em viagens separadas seriam <span className="font-medium">{plannedRoute.separateTripsDistanceKm.toLocaleString("pt-BR")} km</span>;
+                        o roteiro percorre {plannedRoute.route.totalDistanceKm.toLocaleString("pt-BR")} km.
+                      </p>
+                    )}
+                    {plannedRoute && !canApplyRoute && (
+                      <p className="text-muted-foreground">Somente quem gerencia as OS pode aplicar o rateio.</p>
+                    )}
+                  </div>
+                </div>
+              </>
+            ) : (
+              <DataTablePlaceholder
+                icon={Route}
+                title="Roteiro Não Calculado"
+                description="Ajuste as janelas de atendimento se necessário e calcule a melhor ordem de visitas."
+                buttonLabel="Calcular Roteiro"
+                onButtonClick={handleCalculate}
+              />
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
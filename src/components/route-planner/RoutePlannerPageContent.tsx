@@ -0,0 +1,17 @@
+"use client";
+
+import { RoutePlannerClientPage } from "@/components/route-planner/RoutePlannerClientPage";
+import { useState, useEffect } from 'react';
+import type { FC } from 'react';
+
+export const RoutePlannerPageContent: FC = () => {
+  const [isClient, setIsClient] = useState(false);
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  if (!isClient) {
+    return null;
+  }
+  return <RoutePlannerClientPage />;
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Clock, Loader2, Play, Square, PlusCircle, Trash2 } from "lucide-react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { LaborTimeEntry, LaborTimeKind, ServiceOrder, Technician } from "@/types";
+import { laborTimeKindOptions } from "@/types";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { db } from "@/lib/firebase";
+import {
+  fetchLaborTimeEntries, checkInLaborTime, checkOutLaborTime, addLaborTimeEntry, deleteLaborTimeEntry, queryKeys,
+} from "@/lib/repositories";
+import { formatLaborHours, getLaborEntryCost, getLaborEntryHours, summarizeLaborTime } from "@/lib/labor-time";
+import { cn, formatCurrency } from "@/lib/utils";
+
+interface LaborTimeSectionProps {
+  order: ServiceOrder;
+  technicians: Technician[];
+}
+
+const formatTime = (iso: string) => format(parseISO(iso), "dd/MM HH:mm");
+
+// Check-in/check-out of the technicians working on an order. Technicians log
+// their own time; managers log anyone's and can type entries afterwards.
+export function LaborTimeSection({ order, technicians }: LaborTimeSectionProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { technician: currentTechnician, can } = useAuth();
+  const canManageOrders = can("serviceOrders:manage");
+  const isOrderOpen = order.phase !== "Concluída" && order.phase !== "Cancelada";
+
+  const [technicianId, setTechnicianId] = useState<string>(() => (canManageOrders ? order.technicianId : currentTechnician?.id) || "");
+  const [kind, setKind] = useState<LaborTimeKind>("Atendimento");
+  const [manualCheckIn, setManualCheckIn] = useState("");
+  const [manualCheckOut, setManualCheckOut] = useState("");
+
+  const selectedTechnician = technicians.find(t => t.id === technicianId)
+    || (currentTechnician?.id === technicianId ? currentTechnician : undefined);
+
+  const { data: entries = [], isLoading } = useQuery<LaborTimeEntry[], Error>({
+    queryKey: queryKeys.laborTimeEntries.byServiceOrder(order.id),
+    queryFn: () => fetchLaborTimeEntries(order.id),
+    enabled: !!db,
+  });
+
+  const invalidateEntries = () => queryClient.invalidateQueries({ queryKey: queryKeys.laborTimeEntries.all });
+  const onMutationError = (title: string) => (err: Error) => {
+    toast({ title, description: err.message, variant: "destructive" });
+  };
+
+  const checkInMutation = useMutation({
+    mutationFn: async () => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      if (!selectedTechnician) throw new Error("Selecione o técnico.");
+      await checkInLaborTime({ serviceOrderId: order.id, technicianId: selectedTechnician.id, technicianName: selectedTechnician.name, kind });
+    },
+    onSuccess: () => {
+      invalidateEntries();
+      toast({ title: "Apontamento Iniciado", description: `${kind} de ${selectedTechnician?.name} na OS ${order.orderNumber}.` });
+    },
+    onError: onMutationError("Erro ao Iniciar Apontamento"),
+  });
+
+  const checkOutMutation = useMutation({
+    mutationFn: async (entry: LaborTimeEntry) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      await checkOutLaborTime(entry);
+    },
+    onSuccess: () => {
+      invalidateEntries();
+      toast({ title: "Apontamento Encerrado" });
+    },
+    onError: onMutationError("Erro ao Encerrar Apontamento"),
+  });
+
+  const addEntryMutation = useMutation({
+    mutationFn: async () => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      if (!selectedTechnician) throw new Error("Selecione o técnico.");
+      if (!manualCheckIn || !manualCheckOut) throw new Error("Informe o início e o fim.");
+      await addLaborTimeEntry({
+        serviceOrderId: order.id,
+        technicianId: selectedTechnician.id,
+        technicianName: selectedTechnician.name,
+        kind,
+        checkIn: new Date(manualCheckIn).toISOString(),
+        checkOut: new Date(manualCheckOut).toISOString(),
+      });
+    },
+    onSuccess: () => {
+      invalidateEntries();
+      setManualCheckIn("");
+      setManualCheckOut("");
+      toast({ title: "Apontamento Registrado" });
+    },
+    onError: onMutationError("Erro ao Registrar Apontamento"),
+  });
+
+  const deleteEntryMutation = useMutation({
+    mutationFn: async (entryId: string) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      await deleteLaborTimeEntry(entryId);
+    },
+    onSuccess: () => {
+      invalidateEntries();
+      toast({ title: "Apontamento Excluído" });
+    },
+    onError: onMutationError("Erro ao Excluir Apontamento"),
+  });
+
+  const isMutating = checkInMutation.isPending || checkOutMutation.isPending || addEntryMutation.isPending || deleteEntryMutation.isPending;
+  const summary = summarizeLaborTime(entries);
+  const canLogFor = (entry: LaborTimeEntry) => canManageOrders || entry.technicianId === currentTechnician?.id;
+
+  return (
+    <div className="space-y-3 pt-4">
+      <h3 className="text-md font-semibold border-b pb-1 font-headline flex items-center">
+        <Clock className="mr-2 h-4 w-4 text-primary" /> Apontamento de Horas
+      </h3>
+
+      {(canManageOrders || (isOrderOpen && currentTechnician)) && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <div>
+            <Label>Técnico</Label>
+            {canManageOrders ? (
+              <Select value={technicianId} onValueChange={setTechnicianId}>
+                <SelectTrigger className="mt-1"><SelectValue placeholder="Selecione o técnico" /></SelectTrigger>
+                <SelectContent>
+                  {technicians.map(t => <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input className="mt-1" value={currentTechnician?.name ?? ""} disabled />
+            )}
+          </div>
+          <div>
+            <Label>Tipo</Label>
+            <Select value={kind} onValueChange={(value) => setKind(value as LaborTimeKind)}>
+              <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {laborTimeKindOptions.map(option => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          {isOrderOpen && (
+            <Button type="button" variant="outline" className="sm:col-span-2" onClick={() => checkInMutation.mutate()} disabled={isMutating || !selectedTechnician}>
+              {checkInMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+              Iniciar {kind === "Deslocamento" ? "Deslocamento" : "Atendimento"} Agora
+            </Button>
+          )}
+          {canManageOrders && (
+            <>
+              <div>
+                <Label htmlFor="labor-manual-check-in">Início</Label>
+                <Input id="labor-manual-check-in" type="datetime-local" className="mt-1" value={manualCheckIn} onChange={(e) => setManualCheckIn(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="labor-manual-check-out">Fim</Label>
+                <Input id="labor-manual-check-out" type="datetime-local" className="mt-1" value={manualCheckOut} onChange={(e) => setManualCheckOut(e.target.value)} />
+              </div>
+              <Button type="button" variant="ghost" className="sm:col-span-2" onClick={() => addEntryMutation.mutate()} disabled={isMutating || !selectedTechnician || !manualCheckIn || !manualCheckOut}>
+                {addEntryMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PlusCircle className="mr-2 h-4 w-4" />}
+                Lançar Período Informado
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground flex items-center"><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Carregando apontamentos...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhum apontamento registrado.</p>
+      ) : (
+        <>
+          <ul className="max-h-56 overflow-y-auto divide-y text-sm">
+            {entries.map(entry => {
+              const hours = getLaborEntryHours(entry);
+              return (
+                <li key={entry.id} className="flex flex-wrap items-center justify-between gap-2 py-1.5">
+                  <span className="font-medium">{entry.technicianName}</span>
+                  <span className={cn("px-2 py-0.5 rounded-full text-xs font-semibold", {
+                    "bg-blue-100 text-blue-700": entry.kind === "Deslocamento",
+                    "bg-green-100 text-green-700": entry.kind === "Atendimento",
+                  })}>{entry.kind}</span>
+                  <span className="text-muted-foreground">
+                    {formatTime(entry.checkIn)} – {entry.checkOut ? format(parseISO(entry.checkOut), "HH:mm") : "em andamento"}
+                  </span>
+                  <span>{hours !== null ? formatLaborHours(hours) : ""}</span>
+                  {canManageOrders && hours !== null && <span className="text-muted-foreground">{formatCurrency(getLaborEntryCost(entry))}</span>}
+                  <span className="flex gap-1">
+                    {!entry.checkOut && canLogFor(entry) && (
+                      <Button type="button" variant="outline" size="sm" onClick={() => checkOutMutation.mutate(entry)} disabled={isMutating}>
+                        <Square className="mr-1 h-3 w-3" /> Encerrar
+                      </Button>
+                    )}
+                    {canManageOrders && (
+                      <Button type="button" variant="ghost" size="sm" className="text-destructive hover:text-destructive" aria-label="Excluir apontamento"
+                        onClick={() => { if (window.confirm("Excluir este apontamento?")) deleteEntryMutation.mutate(entry.id); }} disabled={isMutating}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+          <p className="text-sm border-t pt-2 flex flex-wrap gap-x-4">
+            <span><span className="text-muted-foreground">Deslocamento:</span> {formatLaborHours(summary.travelHours)}</span>
+            <span><span className="text-muted-foreground">Atendimento:</span> {formatLaborHours(summary.onSiteHours)}</span>
+            <span className="font-medium">Total: {formatLaborHours(summary.totalHours)}</span>
+            {canManageOrders && <span className="font-medium">Mão de obra: {formatCurrency(summary.laborCost)}</span>}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
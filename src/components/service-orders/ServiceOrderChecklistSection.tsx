@@ -0,0 +1,261 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { ref as storageRef, uploadBytes, getDownloadURL } from "firebase/storage";
+import { ListChecks, Loader2, Camera, Save, PackagePlus, FileText, ImageIcon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { ChecklistResult, ChecklistTemplate, ServiceOrder, ServiceOrderChecklist, ServiceOrderChecklistItem } from "@/types";
+import { checklistResultOptions } from "@/types";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { db, storage } from "@/lib/firebase";
+import {
+  fetchChecklistTemplates, fetchServiceOrderChecklist, saveServiceOrderChecklist, openPartsRequisitionFromChecklist,
+  openBudgetFromChecklist, queryKeys,
+} from "@/lib/repositories";
+import { createChecklistFromTemplate, findChecklistTemplate, getUnquotedNokItems, summarizeChecklist } from "@/lib/checklists";
+import { cn } from "@/lib/utils";
+
+interface ServiceOrderChecklistSectionProps {
+  order: ServiceOrder;
+  equipmentType?: string | null;
+}
+
+const resultButtonClasses: Record<ChecklistResult, string> = {
+  "OK": "bg-green-600 hover:bg-green-700 text-white",
+  "NOK": "bg-red-600 hover:bg-red-700 text-white",
+  "N/A": "bg-slate-500 hover:bg-slate-600 text-white",
+};
+
+async function uploadChecklistPhoto(file: File, orderId: string, itemId: string): Promise<string> {
+  if (!storage) throw new Error("Firebase Storage is not available");
+  const photoRef = storageRef(storage, `service_order_checklists/${orderId}/${itemId}-${Date.now()}-${file.name.replace(/[^a-zA-Z0-9._-]/g, '_')}`);
+  await uploadBytes(photoRef, file);
+  return getDownloadURL(photoRef);
+}
+
+export function ServiceOrderChecklistSection({ order, equipmentType }: ServiceOrderChecklistSectionProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { technician: currentTechnician, can } = useAuth();
+  const isOrderOpen = order.phase !== "Concluída" && order.phase !== "Cancelada";
+  const canFill = can("serviceOrders:manage") || (isOrderOpen && !!currentTechnician && order.technicianId === currentTechnician.id);
+  const canRequestParts = !!currentTechnician && (can("partsRequisitions:view") || can("partsTriage:work"));
+  const canCreateBudget = can("budgets:manage");
+
+  const [draft, setDraft] = useState<ServiceOrderChecklist | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>("");
+  const [uploadingItemId, setUploadingItemId] = useState<string | null>(null);
+
+  const { data: savedChecklist, isLoading: isLoadingChecklist } = useQuery<ServiceOrderChecklist | null, Error>({
+    queryKey: queryKeys.serviceOrderChecklists.detail(order.id),
+    queryFn: () => fetchServiceOrderChecklist(order.id),
+    enabled: !!db,
+  });
+
+  const { data: templates = [], isLoading: isLoadingTemplates } = useQuery<ChecklistTemplate[], Error>({
+    queryKey: queryKeys.checklistTemplates.all,
+    queryFn: fetchChecklistTemplates,
+    enabled: !!db,
+  });
+
+  useEffect(() => {
+    setDraft(savedChecklist ?? null);
+    setIsDirty(false);
+  }, [savedChecklist]);
+
+  const suggestedTemplate = useMemo(
+    () => findChecklistTemplate(templates, order.serviceType, equipmentType),
+    [templates, order.serviceType, equipmentType]
+  );
+  const activeTemplates = templates.filter(template => template.active);
+  const templateToStart = activeTemplates.find(template => template.id === selectedTemplateId) || suggestedTemplate;
+
+  const invalidateChecklist = () => queryClient.invalidateQueries({ queryKey: queryKeys.serviceOrderChecklists.detail(order.id) });
+  const withSigner = (checklist: ServiceOrderChecklist): ServiceOrderChecklist => ({ ...checklist, updatedByName: currentTechnician?.name || null });
+
+  const saveMutation = useMutation({
+    mutationFn: async (checklist: ServiceOrderChecklist) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      await saveServiceOrderChecklist(withSigner(checklist));
+    },
+    onSuccess: () => {
+      invalidateChecklist();
+      toast({ title: "Checklist Salvo", description: `Checklist da OS ${order.orderNumber} atualizado.` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Salvar Checklist", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const requisitionMutation = useMutation({
+    mutationFn: async (itemId: string) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      if (!draft || !currentTechnician) throw new Error("Checklist não iniciado.");
+      return openPartsRequisitionFromChecklist(withSigner(draft), itemId, { technicianId: currentTechnician.id, technicianName: currentTechnician.name });
+    },
+    onSuccess: (requisitionNumber) => {
+      invalidateChecklist();
+      queryClient.invalidateQueries({ queryKey: queryKeys.partsRequisitions.all });
+      toast({ title: "Requisição Criada", description: `Requisição ${requisitionNumber} aberta para a triagem de peças.` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Criar Requisição", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const budgetMutation = useMutation({
+    mutationFn: async () => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      if (!draft) throw new Error("Checklist não iniciado.");
+      return openBudgetFromChecklist(withSigner(draft), order, getUnquotedNokItems(draft.items).map(item => item.id));
+    },
+    onSuccess: (budgetNumber) => {
+      invalidateChecklist();
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgets.all });
+      toast({ title: "Orçamento Criado", description: `Orçamento ${budgetNumber} criado com os itens reprovados. Preencha os valores na tela de orçamentos.` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Criar Orçamento", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const updateItem = (itemId: string, changes: Partial<ServiceOrderChecklistItem>) => {
+    setDraft(current => current && { ...current, items: current.items.map(item => item.id === itemId ? { ...item, ...changes } : item) });
+    setIsDirty(true);
+  };
+
+  const handlePhotoSelected = async (itemId: string, file: File | undefined) => {
+    if (!file) return;
+    setUploadingItemId(itemId);
+    try {
+      updateItem(itemId, { photoUrl: await uploadChecklistPhoto(file, order.id, itemId) });
+    } catch (e: any) {
+      toast({ title: "Erro ao Enviar Foto", description: e.message, variant: "destructive" });
+    } finally {
+      setUploadingItemId(null);
+    }
+  };
+
+  const isMutating = saveMutation.isPending || requisitionMutation.isPending || budgetMutation.isPending || !!uploadingItemId;
+
+  if (isLoadingChecklist || isLoadingTemplates) {
+    return <p className="text-sm text-muted-foreground flex items-center pt-4"><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Carregando checklist...</p>;
+  }
+
+  const summary = draft ? summarizeChecklist(draft.items) : null;
+  const unquotedNokCount = draft ? getUnquotedNokItems(draft.items).length : 0;
+
+  return (
+    <div className="space-y-3 pt-4">
+      <h3 className="text-md font-semibold border-b pb-1 font-headline flex items-center">
+        <ListChecks className="mr-2 h-4 w-4 text-primary" /> Checklist {draft ? `- ${draft.templateName}` : ""}
+      </h3>
+
+      {!draft ? (
+        activeTemplates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum modelo de checklist cadastrado.</p>
+        ) : canFill ? (
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={templateToStart?.id || ""} onValueChange={setSelectedTemplateId}>
+              <SelectTrigger className="sm:flex-1"><SelectValue placeholder="Selecione o modelo" /></SelectTrigger>
+              <SelectContent>
+                {activeTemplates.map(template => (
+                  <SelectItem key={template.id} value={template.id}>{template.name} ({template.serviceType})</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="button" variant="outline" disabled={!templateToStart}
+              onClick={() => { if (templateToStart) { setDraft(createChecklistFromTemplate(templateToStart, order.id)); setIsDirty(true); } }}>
+              <ListChecks className="mr-2 h-4 w-4" /> Iniciar Checklist
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {suggestedTemplate ? `Checklist "${suggestedTemplate.name}" ainda não preenchido.` : "Nenhum checklist para este tipo de serviço."}
+          </p>
+        )
+      ) : (
+        <>
+          <ul className="divide-y text-sm">
+            {draft.items.map(item => (
+              <li key={item.id} className="py-2 space-y-1.5">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="font-medium">{item.label}</span>
+                  <div className="flex gap-1">
+                    {checklistResultOptions.map(result => (
+                      <Button key={result} type="button" size="sm" variant="outline" disabled={!canFill || isMutating}
+                        className={cn("h-7 px-2", item.result === result && resultButtonClasses[result])}
+                        onClick={() => updateItem(item.id, { result: item.result === result ? null : result })}>
+                        {result}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Input className="h-8" placeholder="Observação" value={item.notes ?? ""} disabled={!canFill || isMutating}
+                    onChange={(e) => updateItem(item.id, { notes: e.target.value })} />
+                  {item.photoUrl && (
+                    <a href={item.photoUrl} target="_blank" rel="noopener noreferrer" className="text-primary" aria-label="Ver foto">
+                      <ImageIcon className="h-5 w-5" />
+                    </a>
+                  )}
+                  {canFill && (
+                    <Button type="button" variant="ghost" size="icon" className="h-8 w-8 flex-shrink-0" disabled={isMutating} asChild>
+                      <label aria-label="Anexar foto" className="cursor-pointer">
+                        {uploadingItemId === item.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Camera className="h-4 w-4" />}
+                        <input type="file" accept="image/*" capture="environment" className="hidden"
+                          onChange={(e) => { handlePhotoSelected(item.id, e.target.files?.[0]); e.target.value = ""; }} />
+                      </label>
+                    </Button>
+                  )}
+                </div>
+                {item.result === "NOK" && (
+                  <div className="flex flex-wrap items-center gap-2 text-xs">
+                    {item.partsRequisitionId ? (
+                      <span className="text-muted-foreground">Requisição de peça aberta.</span>
+                    ) : canRequestParts && (
+                      <Button type="button" size="sm" variant="outline" className="h-7" disabled={isMutating}
+                        onClick={() => requisitionMutation.mutate(item.id)}>
+                        <PackagePlus className="mr-1 h-3 w-3" /> Requisitar Peça
+                      </Button>
+                    )}
+                    {item.budgetId && <span className="text-muted-foreground">Incluído em orçamento.</span>}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+          {summary && (
+            <p className="text-sm flex flex-wrap gap-x-4 border-t pt-2">
+              <span className="text-green-700">OK: {summary.ok}</span>
+              <span className="text-red-700">NOK: {summary.nok}</span>
+              <span className="text-muted-foreground">N/A: {summary.notApplicable}</span>
+              {summary.pending > 0 && <span className="text-muted-foreground">Pendentes: {summary.pending}</span>}
+              {draft.updatedAt && <span className="text-muted-foreground">Salvo por {draft.updatedByName || "—"}</span>}
+            </p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {canFill && (
+              <Button type="button" variant="outline" onClick={() => saveMutation.mutate(draft)} disabled={isMutating || !isDirty}>
+                {saveMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Salvar Checklist
+              </Button>
+            )}
+            {canCreateBudget && unquotedNokCount > 0 && (
+              <Button type="button" variant="outline" onClick={() => budgetMutation.mutate()} disabled={isMutating}>
+                {budgetMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileText className="mr-2 h-4 w-4" />}
+                Orçamento dos Itens NOK ({unquotedNokCount})
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
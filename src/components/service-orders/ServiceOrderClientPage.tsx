@@ -15,19 +15,24 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import type { ServiceOrder, Customer, Maquina, Technician, Vehicle, ServiceOrderPhaseType, OwnerReferenceType, Company, CompanyId, Budget } from "@/types";
+import type { ServiceOrder, Customer, Maquina, Technician, Vehicle, ServiceOrderPhaseType, OwnerReferenceType, Company, CompanyId, Budget, LaborTimeEntry, LaborRate, TollPlaza, TollCategory, TollCostSource, RouteTollPlaza, ServiceOrderSignature, ServiceOrderChecklist, ChecklistTemplate } from "@/types";
 import { ServiceOrderSchema, serviceTypeOptionsList, serviceOrderPhaseOptions, companyDisplayOptions, OWNER_REF_CUSTOMER, companyIds, maquinaTypeOptions, maquinaOperationalStatusOptions, GOLDMAQ_COMPANY_ID } from "@/types";
 import { PageHeader } from "@/components/shared/PageHeader";
 import { DataTablePlaceholder } from "@/components/shared/DataTablePlaceholder";
 import { FormModal } from "@/components/ui/FormModal";
+import { DetailsHistoryTabs } from "@/components/shared/DetailsHistoryTabs";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
 import { db, storage } from "@/lib/firebase";
-import { collection, getDocs, addDoc, updateDoc, deleteDoc, doc, Timestamp, query, orderBy, setDoc, type DocumentData, getDoc, limit } from "firebase/firestore";
-import { ref as storageRef, uploadBytes, getDownloadURL, deleteObject } from "firebase/storage";
+import {
+  fetchRecentServiceOrders, fetchServiceOrdersForTechnician, fetchCustomers, fetchMaquinas, fetchTechnicians, fetchVehicles, fetchCompanyById, fetchMaquinaById,
+  newServiceOrderId, createServiceOrder, updateServiceOrder, updateServiceOrderFields, deleteServiceOrder,
+  updateMaquinaFields, updateBudgetFields, fetchLaborTimeEntries, fetchLaborRates, fetchTollPlazas, fetchServiceOrderChecklist, fetchChecklistTemplates, queryKeys, PENDING_DOCUMENT_NUMBER, type ServiceOrderWriteData,
+} from "@/lib/repositories";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { isBefore, isToday, addDays, parseISO, isValid, format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-import { cn } from "@/lib/utils";
+import { cn, formatCurrency } from "@/lib/utils";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -41,12 +46,22 @@ import {
 import { Label } from "@/components/ui/label";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { toTitleCase, getFileNameFromUrl, formatDateForInput, getWhatsAppNumber, formatPhoneNumberForInputDisplay, parseNumericToNullOrNumber, formatAddressForDisplay, generateGoogleMapsUrl, formatDateForDisplay } from "@/lib/utils";
-import { calculateDistance, type CalculateDistanceOutput } from '@/ai/flows/calculate-distance-flow';
+import { lookupRoute, type RouteLookupResult } from '@/lib/route-lookup';
 import { DialogFooter } from "@/components/ui/dialog";
+import { getDeadlineStatusInfo } from "@/components/service-orders/deadline-status";
+import { canTransitionServiceOrderPhase, getSelectableServiceOrderPhases, initialServiceOrderPhases, phaseNeedsBudgets } from "@/lib/service-order-phases";
+import { formatLaborHours, getLaborEntryHours, summarizeLaborTime } from "@/lib/labor-time";
+import { LaborTimeSection } from "@/components/service-orders/LaborTimeSection";
+import { TripCostBreakdownSummary } from "@/components/service-orders/TripCostBreakdownSummary";
+import { SignaturePad } from "@/components/shared/SignaturePad";
+import { ServiceOrderChecklistSection } from "@/components/service-orders/ServiceOrderChecklistSection";
+import { createChecklistFromTemplate, findChecklistTemplate } from "@/lib/checklists";
+import { calculateTripCost } from "@/lib/trip-cost";
+import { findRouteTollPlazas, getTollCategoryForVehicleKind, sumRouteTolls } from "@/lib/tolls";
+import { decodePolyline } from "@/lib/routing";
+import { MAX_SERVICE_ORDER_FILES, deleteServiceOrderFileFromStorage, loadSignatureImage, uploadServiceOrderFile, uploadServiceOrderSignature } from "@/lib/service-order-files";
 
 
-const MAX_FILES_ALLOWED = 5;
-
 const phaseIcons: Record<ServiceOrderPhaseType, JSX.Element> = {
   'Aguardando Avaliação Técnica': <ClipboardEdit className="h-4 w-4 text-yellow-500" />,
   'Avaliado, Aguardando Autorização': <ThumbsUp className="h-4 w-4 text-purple-500" />,
@@ -56,15 +71,6 @@ const phaseIcons: Record<ServiceOrderPhaseType, JSX.Element> = {
   'Cancelada': <Ban className="h-4 w-4 text-red-500" />,
 };
 
-const FIRESTORE_COLLECTION_NAME = "ordensDeServico";
-const FIRESTORE_BUDGET_COLLECTION_NAME = "budgets";
-const FIRESTORE_CUSTOMER_COLLECTION_NAME = "clientes";
-const FIRESTORE_EQUIPMENT_COLLECTION_NAME = "equipamentos";
-const FIRESTORE_TECHNICIAN_COLLECTION_NAME = "tecnicos";
-const FIRESTORE_VEHICLE_COLLECTION_NAME = "veiculos";
-const FIRESTORE_COMPANY_COLLECTION_NAME = "empresas";
-
-
 const NO_VEHICLE_SELECTED_VALUE = "_NO_VEHICLE_SELECTED_";
 const LOADING_VEHICLES_SELECT_ITEM_VALUE = "_LOADING_VEHICLES_";
 const CUSTOM_SERVICE_TYPE_VALUE = "_CUSTOM_";
@@ -73,209 +79,35 @@ const LOADING_EQUIPMENT_SELECT_ITEM_VALUE = "_LOADING_EQUIPMENT_";
 const NO_TECHNICIAN_SELECTED_VALUE = "_NO_TECHNICIAN_SELECTED_";
 const LOADING_TECHNICIANS_SELECT_ITEM_VALUE = "_LOADING_TECHNICIANS_";
 
-const convertToTimestamp = (dateString?: string | null): Timestamp | null => {
-  if (!dateString) return null;
-  const date = parseISO(dateString);
-  if (!isValid(date)) return null;
-  return Timestamp.fromDate(date);
-};
-
-async function fetchServiceOrders(): Promise<ServiceOrder[]> {
-  if (!db) {
-    console.error("fetchServiceOrders: Firebase DB is not available.");
-    throw new Error("Firebase DB is not available");
-  }
-  const q = query(collection(db, FIRESTORE_COLLECTION_NAME), orderBy("startDate", "desc"), orderBy("orderNumber", "desc"), limit(50));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => {
-    const data = docSnap.data() as DocumentData;
-    const serviceOrder: ServiceOrder = {
-      id: docSnap.id,
-      orderNumber: data.orderNumber || "N/A",
-      customerId: data.customerId || "N/A",
-      equipmentId: data.equipmentId || "N/A",
-      requesterName: data.requesterName || null,
-      phase: (serviceOrderPhaseOptions.includes(data.phase) ? data.phase : "Aguardando Avaliação Técnica") as ServiceOrderPhaseType,
-      technicianId: data.technicianId || null,
-      serviceType: data.serviceType || "Não especificado",
-      customServiceType: data.customServiceType,
-      vehicleId: data.vehicleId || null,
-      startDate: data.startDate ? formatDateForInput(data.startDate) : undefined,
-      endDate: data.endDate ? formatDateForInput(data.endDate) : undefined,
-      description: data.description || "N/A",
-      notes: data.notes || null,
-      mediaUrls: Array.isArray(data.mediaUrls) ? data.mediaUrls.filter(url => typeof url === 'string') : [],
-      technicalConclusion: data.technicalConclusion || null,
-      estimatedTravelDistanceKm: data.estimatedTravelDistanceKm !== undefined ? Number(data.estimatedTravelDistanceKm) : null,
-      estimatedTollCosts: data.estimatedTollCosts !== undefined ? Number(data.estimatedTollCosts) : null,
-      estimatedTravelCost: data.estimatedTravelCost !== undefined ? Number(data.estimatedTravelCost) : null,
-      machineStatusBeforeOs: data.machineStatusBeforeOs || null,
-    };
-    return serviceOrder;
-  });
-}
-
-async function fetchCustomers(): Promise<Customer[]> {
-  if (!db) {
-    console.error("fetchCustomers: Firebase DB is not available.");
-    throw new Error("Firebase DB is not available");
-  }
-  const q = query(collection(db, FIRESTORE_CUSTOMER_COLLECTION_NAME), orderBy("name", "asc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Customer));
-}
-
-async function fetchEquipment(): Promise<Maquina[]> {
-  if (!db) {
-    console.error("fetchEquipment: Firebase DB is not available.");
-    throw new Error("Firebase DB is not available");
-  }
-  const q = query(collection(db, FIRESTORE_EQUIPMENT_COLLECTION_NAME), orderBy("brand", "asc"));
-  const querySnapshot = await getDocs(q);
- return querySnapshot.docs.map(docSnap => {
-    const data = docSnap.data();
-    return {
-      id: docSnap.id,
-      brand: data.brand || "Marca Desconhecida",
-      model: data.model || "Modelo Desconhecido",
-      chassisNumber: data.chassisNumber || "N/A",
-      equipmentType: (data.equipmentType || "Empilhadeira Contrabalançada GLP") as typeof maquinaTypeOptions[number] | string,
-      manufactureYear: parseNumericToNullOrNumber(data.manufactureYear),
-      operationalStatus: (data.operationalStatus || "Disponível") as typeof maquinaOperationalStatusOptions[number],
-      customerId: data.customerId || null,
-      ownerReference: data.ownerReference || null,
-      towerOpenHeightMm: parseNumericToNullOrNumber(data.towerOpenHeightMm),
-      towerClosedHeightMm: parseNumericToNullOrNumber(data.towerClosedHeightMm),
-      nominalCapacityKg: parseNumericToNullOrNumber(data.nominalCapacityKg),
-    } as Maquina;
-  });
-}
-
-async function fetchTechnicians(): Promise<Technician[]> {
-  if (!db) {
-    console.error("fetchTechnicians: Firebase DB is not available.");
-    throw new Error("Firebase DB is not available");
-  }
-  const q = query(collection(db, FIRESTORE_TECHNICIAN_COLLECTION_NAME), orderBy("name", "asc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Technician));
-}
 
-async function fetchVehicles(): Promise<Vehicle[]> {
-  if (!db) {
-    console.error("fetchVehicles: Firebase DB is not available.");
-    throw new Error("Firebase DB is not available");
-  }
-  const q = query(collection(db, FIRESTORE_VEHICLE_COLLECTION_NAME), orderBy("model", "asc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Vehicle));
-}
-
-async function fetchCompanyById(companyId: CompanyId): Promise<Company | null> {
-  if (!db) {
-    console.error(`fetchCompanyById (${companyId}): Firebase DB is not available.`);
-    throw new Error("Firebase DB is not available");
-  }
-  const docRef = doc(db, FIRESTORE_COMPANY_COLLECTION_NAME, companyId);
-  const docSnap = await getDoc(docRef);
-  if (docSnap.exists()) {
-    return { id: docSnap.id as CompanyId, ...docSnap.data() } as Company;
-  }
-  console.warn(`fetchCompanyById: Company with ID ${companyId} not found.`);
-  return null;
-}
-
-
-const getNextOrderNumber = (currentOrders: ServiceOrder[]): string => {
-  let maxOrderNum = 3999;
-  currentOrders.forEach(order => {
-    if (order.orderNumber) {
-        const num = parseInt(order.orderNumber, 10);
-        if (!isNaN(num) && num > maxOrderNum) {
-        maxOrderNum = num;
-        }
-    }
+// Checklist table shared by both PDFs; returns the y position after it.
+function addChecklistToPDF(doc: jsPDF, checklist: ServiceOrderChecklist, startY: number, blankResults: boolean): number {
+  doc.setFont("helvetica", "bold");
+  doc.text(`CHECKLIST - ${checklist.templateName.toUpperCase()}`, 14, startY);
+  doc.setFont("helvetica", "normal");
+  autoTable(doc, {
+    head: [["Item", "OK", "NOK", "N/A", "Observação"]],
+    body: checklist.items.map(item => [
+      item.label,
+      !blankResults && item.result === "OK" ? "X" : "",
+      !blankResults && item.result === "NOK" ? "X" : "",
+      !blankResults && item.result === "N/A" ? "X" : "",
+      blankResults ? "" : (item.notes || ""),
+    ]),
+    startY: startY + 3,
+    theme: 'grid',
+    headStyles: { fillColor: [249, 115, 22] },
+    styles: { fontSize: 9, cellPadding: 1.5 },
+    columnStyles: {
+      0: { cellWidth: 60 },
+      1: { cellWidth: 12, halign: 'center' },
+      2: { cellWidth: 12, halign: 'center' },
+      3: { cellWidth: 12, halign: 'center' },
+      4: { cellWidth: 'auto' },
+    },
   });
-  return (maxOrderNum + 1).toString();
-};
-
-type DeadlineStatus = 'overdue' | 'due_today' | 'due_soon' | 'none';
-
-const getDeadlineStatusInfo = (
-  endDateString?: string | null,
-  phase?: ServiceOrderPhaseType
-): { status: DeadlineStatus; message?: string; icon?: JSX.Element; alertClass?: string } => {
-  if (typeof endDateString !== 'string' || endDateString.trim() === "" || phase === 'Concluída' || phase === 'Cancelada') {
-    return { status: 'none', alertClass: "" };
-  }
-
-  const parsedEndDate = parseISO(endDateString);
-  if (!isValid(parsedEndDate)) {
-    return { status: 'none', alertClass: "" };
-  }
-
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-
-  const endDateNormalized = new Date(parsedEndDate.getFullYear(), parsedEndDate.getMonth(), parsedEndDate.getDate());
-  endDateNormalized.setHours(0,0,0,0);
-
-  if (isBefore(endDateNormalized, today) && !isToday(endDateNormalized)) {
-    return { status: 'overdue', message: 'Atrasada!', icon: <AlertTriangle className="h-5 w-5 text-destructive" />, alertClass: "bg-destructive/20 border-destructive/50" };
-  }
-  if (isToday(endDateNormalized)) {
-    return { status: 'due_today', message: 'Vence Hoje!', icon: <AlertTriangle className="h-5 w-5 text-accent" />, alertClass: "bg-accent/20 border-accent/50" };
-  }
-  const twoDaysFromNow = addDays(today, 2);
-  if (isBefore(endDateNormalized, twoDaysFromNow)) {
-     return { status: 'due_soon', message: 'Vence em Breve', icon: <AlertTriangle className="h-5 w-5 text-accent" />, alertClass: "bg-accent/20 border-accent/50" };
-  }
-  return { status: 'none', alertClass: "" };
-};
-
-const formatAddressToString = (addressSource: Customer | Company | null | undefined): string => {
-    if (!addressSource) return "";
-    const parts = [
-        addressSource.street,
-        addressSource.number,
-        addressSource.complement,
-        addressSource.neighborhood,
-        addressSource.city,
-        addressSource.state,
-        addressSource.cep,
-    ].filter(Boolean).join(', ');
-    return parts;
-};
-
-async function uploadServiceOrderFile(
-  file: File,
-  orderId: string
-): Promise<string> {
-  if (!storage) {
-    console.error("uploadServiceOrderFile: Firebase Storage is not available.");
-    throw new Error("Firebase Storage is not available");
-  }
-  const filePath = `service_order_media/${orderId}/${Date.now()}-${file.name.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
-  const fileStorageRef = storageRef(storage, filePath);
-  await uploadBytes(fileStorageRef, file);
-  return getDownloadURL(fileStorageRef);
-}
-
-async function deleteServiceOrderFileFromStorage(fileUrl?: string | null) {
-  if (fileUrl) {
-    if (!storage) {
-      console.warn("deleteServiceOrderFileFromStorage: Firebase Storage is not available. Skipping deletion.");
-      return;
-    }
-    try {
-      const gcsPath = new URL(fileUrl).pathname.split('/o/')[1].split('?')[0];
-      const decodedPath = decodeURIComponent(gcsPath);
-      const fileStorageRef = storageRef(storage, decodedPath);
-      await deleteObject(fileStorageRef);
-    } catch (e) {
-      console.warn(`[DELETE SO FILE] Failed to delete file from storage: ${fileUrl}`, e);
-    }
-  }
+  // @ts-ignore
+  return doc.lastAutoTable.finalY + 7;
 }
 
 interface ServiceOrderClientPageProps {
@@ -288,6 +120,10 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
   const { serviceOrderIdFromUrl, initialDataFromBudget, budgetIdToCreateFrom } = props;
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { technician: currentTechnician, can } = useAuth();
+  const canViewAllOrders = can("serviceOrders:viewAll");
+  const canManageOrders = can("serviceOrders:manage");
+  const canViewBudgets = can("budgets:view");
 
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingOrder, setEditingOrder] = useState<ServiceOrder | null>(null);
@@ -296,10 +132,18 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
   const [isUploadingFile, setIsUploadingFile] = useState(false);
   const [isConclusionModalOpen, setIsConclusionModalOpen] = useState(false);
   const [technicalConclusionText, setTechnicalConclusionText] = useState("");
+  const [signerName, setSignerName] = useState("");
+  const [signerDocument, setSignerDocument] = useState("");
+  const [signatureDataUrl, setSignatureDataUrl] = useState<string | null>(null);
+  const [isConcluding, setIsConcluding] = useState(false);
   const [isEditMode, setIsEditMode] = useState(false);
   const [selectedPhaseFilter, setSelectedPhaseFilter] = useState<ServiceOrderPhaseType | "Todos">("Todos");
   const [isCancelConfirmModalOpen, setIsCancelConfirmModalOpen] = useState(false);
   const [isCalculatingDistance, setIsCalculatingDistance] = useState(false);
+  // Last calculated route; its driving time and polyline only count while the distance is still that route's.
+  const [calculatedRoute, setCalculatedRoute] = useState<{ roundTripDistanceKm: number; oneWayMinutes: number | null; polyline: string | null } | null>(null);
+  // Where the toll value came from, while the field still holds that value.
+  const [tollEstimate, setTollEstimate] = useState<{ roundTripCost: number; source: TollCostSource; category: TollCategory | null; plazas: RouteTollPlaza[] | null } | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
 
 
@@ -310,7 +154,8 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
       requesterName: "", serviceType: "", customServiceType: "", vehicleId: null, description: "",
       notes: "", startDate: formatDateForInput(new Date().toISOString()), endDate: "",
       mediaUrls: [], technicalConclusion: null,
-      estimatedTravelDistanceKm: null, estimatedTollCosts: null, estimatedTravelCost: null,
+      estimatedTravelDistanceKm: null, estimatedTollCosts: null, estimatedTravelCost: null, travelCostBreakdown: null,
+      visitWindowStart: null, visitWindowEnd: null, dailyRouteId: null,
     },
   });
 
@@ -320,41 +165,58 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
   const formVehicleId = useWatch({ control: form.control, name: 'vehicleId' });
   const formEstimatedTravelDistanceKm = useWatch({ control: form.control, name: 'estimatedTravelDistanceKm' });
   const formEstimatedTollCosts = useWatch({ control: form.control, name: 'estimatedTollCosts' });
+  const formTechnicianId = useWatch({ control: form.control, name: 'technicianId' });
+  const formTravelCostBreakdown = useWatch({ control: form.control, name: 'travelCostBreakdown' });
   const isOrderConcludedOrCancelled = !!editingOrder && (editingOrder.phase === 'Concluída' || editingOrder.phase === 'Cancelada');
+  // Concluding goes through the conclusion dialog; budget-related phases need access to the budgets.
+  const selectablePhases = (editingOrder ? getSelectableServiceOrderPhases(editingOrder.phase) : [...initialServiceOrderPhases])
+    .filter(phase => phase === editingOrder?.phase || (phase !== 'Concluída' && (canViewBudgets || !phaseNeedsBudgets(phase))));
 
 
   const { data: serviceOrdersRaw = [], isLoading: isLoadingServiceOrders, isError: isErrorServiceOrders, error: errorServiceOrdersData } = useQuery<ServiceOrder[], Error>({
-    queryKey: [FIRESTORE_COLLECTION_NAME],
-    queryFn: fetchServiceOrders,
-    enabled: !!db,
+    queryKey: canViewAllOrders ? queryKeys.serviceOrders.recent : queryKeys.serviceOrders.byTechnician(currentTechnician?.id),
+    queryFn: () => canViewAllOrders ? fetchRecentServiceOrders() : fetchServiceOrdersForTechnician(currentTechnician!.id),
+    enabled: !!db && (canViewAllOrders || !!currentTechnician),
   });
 
   const { data: customers = [], isLoading: isLoadingCustomers } = useQuery<Customer[], Error>({
-    queryKey: [FIRESTORE_CUSTOMER_COLLECTION_NAME],
+    queryKey: queryKeys.customers.all,
     queryFn: fetchCustomers,
     enabled: !!db,
   });
 
   const { data: equipmentList = [], isLoading: isLoadingEquipment } = useQuery<Maquina[], Error>({
-    queryKey: [FIRESTORE_EQUIPMENT_COLLECTION_NAME],
-    queryFn: fetchEquipment,
+    queryKey: queryKeys.maquinas.all,
+    queryFn: fetchMaquinas,
     enabled: !!db,
   });
 
   const { data: technicians = [], isLoading: isLoadingTechnicians } = useQuery<Technician[], Error>({
-    queryKey: [FIRESTORE_TECHNICIAN_COLLECTION_NAME],
+    queryKey: queryKeys.technicians.all,
     queryFn: fetchTechnicians,
     enabled: !!db,
   });
 
   const { data: vehicles = [], isLoading: isLoadingVehicles } = useQuery<Vehicle[], Error>({
-    queryKey: [FIRESTORE_VEHICLE_COLLECTION_NAME],
+    queryKey: queryKeys.vehicles.all,
     queryFn: fetchVehicles,
     enabled: !!db,
   });
 
+  const { data: laborRates = [] } = useQuery<LaborRate[], Error>({
+    queryKey: queryKeys.laborRates.all,
+    queryFn: fetchLaborRates,
+    enabled: !!db,
+  });
+
+  const { data: tollPlazas = [] } = useQuery<TollPlaza[], Error>({
+    queryKey: queryKeys.tollPlazas.all,
+    queryFn: fetchTollPlazas,
+    enabled: !!db,
+  });
+
   const { data: goldmaqCompanyDetails, isLoading: isLoadingGoldmaqCompany } = useQuery<Company | null, Error>({
-      queryKey: [FIRESTORE_COMPANY_COLLECTION_NAME, GOLDMAQ_COMPANY_ID],
+      queryKey: queryKeys.companies.detail(GOLDMAQ_COMPANY_ID),
       queryFn: () => fetchCompanyById(GOLDMAQ_COMPANY_ID),
       enabled: !!db,
   });
@@ -405,23 +267,54 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
   }, [serviceOrdersRaw, selectedPhaseFilter, searchTerm, getCustomerDetails, getEquipmentDetails, getTechnicianName]);
 
 
+  // Without a distance there is no trip to price; typed tolls still count.
   useEffect(() => {
-    if (formVehicleId && typeof formEstimatedTravelDistanceKm === 'number') {
-      const vehicle = (vehicles || []).find(v => v.id === formVehicleId);
-      if (vehicle && typeof vehicle.costPerKilometer === 'number') {
-        const fuelCost = formEstimatedTravelDistanceKm * vehicle.costPerKilometer;
-        const totalTolls = typeof formEstimatedTollCosts === 'number' ? formEstimatedTollCosts : 0;
-        form.setValue('estimatedTravelCost', parseFloat((fuelCost + totalTolls).toFixed(2)));
-      } else {
-        form.setValue('estimatedTravelCost', typeof formEstimatedTollCosts === 'number' ? formEstimatedTollCosts : null);
-      }
-    } else if (typeof formEstimatedTollCosts === 'number') {
-      form.setValue('estimatedTravelCost', formEstimatedTollCosts);
-    }
-     else {
-      form.setValue('estimatedTravelCost', null);
+    if (!isModalOpen || (editingOrder && !isEditMode)) return;
+    if (typeof formEstimatedTravelDistanceKm !== 'number') {
+      form.setValue('travelCostBreakdown', null);
+      form.setValue('estimatedTravelCost', typeof formEstimatedTollCosts === 'number' ? formEstimatedTollCosts : null);
+      return;
     }
-  }, [formVehicleId, formEstimatedTravelDistanceKm, formEstimatedTollCosts, vehicles, form]);
+    // The share of a day's route (applied from the route planner) stands until
+    // the trip itself is changed here; then the order is priced on its own.
+    const currentBreakdown = form.getValues('travelCostBreakdown');
+    if (currentBreakdown?.routeShare
+      && currentBreakdown.roundTripDistanceKm === formEstimatedTravelDistanceKm
+      && currentBreakdown.tollCost === (formEstimatedTollCosts ?? 0)
+      && currentBreakdown.vehicleId === (formVehicleId || null)) return;
+    const vehicle = vehicles.find(v => v.id === formVehicleId);
+    const technicianRole = technicians.find(t => t.id === formTechnicianId)?.role;
+    const tollDetails = typeof formEstimatedTollCosts !== 'number' ? null
+      : tollEstimate && tollEstimate.roundTripCost === formEstimatedTollCosts
+        ? { tollSource: tollEstimate.source, tollCategory: tollEstimate.category, tollPlazas: tollEstimate.plazas }
+        : { tollSource: "Manual" as const, tollCategory: null, tollPlazas: null };
+    const breakdown = calculateTripCost({
+      roundTripDistanceKm: formEstimatedTravelDistanceKm,
+      roundTripTollCost: formEstimatedTollCosts,
+      tollDetails,
+      vehicle,
+      oneWayDurationMinutes: calculatedRoute?.roundTripDistanceKm === formEstimatedTravelDistanceKm ? calculatedRoute.oneWayMinutes : null,
+      travelHourlyRate: laborRates.find(rate => rate.role === technicianRole)?.hourlyRate,
+    });
+    form.setValue('travelCostBreakdown', breakdown);
+    form.setValue('estimatedTravelCost', breakdown.totalCost);
+  }, [isModalOpen, editingOrder, isEditMode, formVehicleId, formTechnicianId, formEstimatedTravelDistanceKm, formEstimatedTollCosts, calculatedRoute, tollEstimate, vehicles, technicians, laborRates, form]);
+
+  // Tolls from the plaza table follow the route and the vehicle's category
+  // (Furgão and Carro are category 1, Caminhão category 2...). A value typed
+  // over the calculated one is kept.
+  useEffect(() => {
+    if (!calculatedRoute?.polyline || tollPlazas.length === 0 || calculatedRoute.roundTripDistanceKm !== formEstimatedTravelDistanceKm) return;
+    const currentTolls = form.getValues('estimatedTollCosts');
+    if (typeof currentTolls === 'number' && currentTolls !== tollEstimate?.roundTripCost) return;
+    const category = getTollCategoryForVehicleKind(vehicles.find(v => v.id === formVehicleId)?.kind);
+    const plazas = findRouteTollPlazas(decodePolyline(calculatedRoute.polyline), tollPlazas, category);
+    const roundTripCost = sumRouteTolls(plazas);
+    setTollEstimate({ roundTripCost, source: "Praças de pedágio", category, plazas });
+    form.setValue('estimatedTollCosts', roundTripCost, { shouldValidate: true });
+    // tollEstimate is what this effect writes; reading it as a dependency would loop.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [calculatedRoute, formEstimatedTravelDistanceKm, formEstimatedTollCosts, formVehicleId, vehicles, tollPlazas, form]);
 
   useEffect(() => {
     const attemptCalculateDistanceAndTolls = async () => {
@@ -433,8 +326,7 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
         (!editingOrder || (editingOrder && isEditMode)) &&
         selectedCustomerId &&
         formEquipmentId && formEquipmentId !== NO_EQUIPMENT_SELECTED_VALUE &&
-        !isCalculatingDistance &&
-        typeof calculateDistance === 'function'
+        !isCalculatingDistance
       ) {
         const customer = (customers || []).find(c => c.id === selectedCustomerId);
         const equipment = (equipmentList || []).find(e => e.id === formEquipmentId);
@@ -451,33 +343,30 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
           return;
         }
 
-        const originAddress = formatAddressToString(originCompany);
-        const destinationAddress = formatAddressToString(customer);
-
-        if (!originAddress || !destinationAddress) {
-            console.warn("[OS ClientPage] Could not format origin or destination address strings. Automatic calculation skipped.");
-            return;
-        }
-
         if (currentDistanceValue !== null && currentDistanceValue !== undefined) {
             return;
         }
 
         setIsCalculatingDistance(true);
         try {
-          const result: CalculateDistanceOutput = await calculateDistance({ originAddress, destinationAddress });
+          const result: RouteLookupResult = await lookupRoute({ type: "company", company: originCompany }, { type: "customer", customer });
 
           let toastMessage = "";
           if (result.status === 'SIMULATED' || result.status === 'SUCCESS') {
             const roundTripDistance = parseFloat((result.distanceKm * 2).toFixed(1));
             form.setValue('estimatedTravelDistanceKm', roundTripDistance, { shouldValidate: true });
-            toastMessage += `Distância (ida/volta): ${roundTripDistance} km (${result.status === 'SIMULATED' ? 'Simulado' : 'Calculado'}).`;
+            setCalculatedRoute({ roundTripDistanceKm: roundTripDistance, oneWayMinutes: result.durationMinutes ?? null, polyline: result.routePolyline ?? null });
+            toastMessage += `Distância (ida/volta): ${roundTripDistance} km (${result.status === 'SIMULATED' ? 'Simulado' : result.fromCache ? 'Rota já calculada' : 'Calculado'}).`;
 
-            if ((currentTollValue === null || currentTollValue === undefined) &&
+            if (result.routePolyline && tollPlazas.length > 0) {
+              // The plaza effect above fills in the tolls for this route.
+              toastMessage += ` Pedágios calculados pelas praças cadastradas.`;
+            } else if ((currentTollValue === null || currentTollValue === undefined) &&
                 result.estimatedTollCostByAI && result.estimatedTollCostByAI > 0) {
               const roundTripTollAI = parseFloat((result.estimatedTollCostByAI * 2).toFixed(2));
+              setTollEstimate({ roundTripCost: roundTripTollAI, source: "Estimativa IA", category: null, plazas: null });
               form.setValue('estimatedTollCosts', roundTripTollAI, { shouldValidate: true });
-              toastMessage += ` Pedágio (est. IA): R$ ${roundTripTollAI}.`;
+              toastMessage += ` Pedágio (estimativa IA, sem praças cadastradas na rota): R$ ${roundTripTollAI}.`;
             } else if (result.estimatedTollCostByAI === 0 || result.estimatedTollCostByAI === null) {
               toastMessage += ` Estimativa de pedágio pela IA: R$ 0.00 ou não aplicável.`;
               if (currentTollValue === null || currentTollValue === undefined) {
@@ -490,7 +379,7 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
             toast({ title: "Falha ao Calcular Distância", description: result.errorMessage || "Não foi possível calcular a distância automaticamente.", variant: "default" });
           }
         } catch (e: any) {
-          console.error("[OS ClientPage] Error calling calculateDistance flow:", e);
+          console.error("[OS ClientPage] Error looking up route:", e);
           toast({ title: "Erro no Cálculo de Distância", description: e.message || "Ocorreu um erro ao tentar calcular a distância.", variant: "destructive" });
         } finally {
           setIsCalculatingDistance(false);
@@ -506,7 +395,7 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
     }
   }, [
     isModalOpen, editingOrder, isEditMode, selectedCustomerId, formEquipmentId,
-    isCalculatingDistance, customers, equipmentList, goldmaqCompanyDetails, form, toast
+    isCalculatingDistance, customers, equipmentList, goldmaqCompanyDetails, tollPlazas, form, toast
   ]);
 
 
@@ -568,7 +457,7 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
     formData: z.infer<typeof ServiceOrderSchema>,
     processedMediaUrls?: (string | null)[] | null
     , machineStatusBeforeOs?: typeof maquinaOperationalStatusOptions[number] | null
-  ): Omit<ServiceOrder, 'id' | 'customServiceType' | 'startDate' | 'endDate' | 'mediaUrls'> & { startDate: Timestamp | null; endDate: Timestamp | null; mediaUrls: string[] | null } => {
+  ): ServiceOrderWriteData => {
     const { customServiceType, mediaUrls: formMediaUrlsIgnored, ...restOfData } = formData;
 
     let finalServiceType = restOfData.serviceType;
@@ -586,8 +475,8 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
       phase: restOfData.phase,
       description: restOfData.description,
       serviceType: finalServiceType,
-      startDate: convertToTimestamp(restOfData.startDate),
-      endDate: convertToTimestamp(restOfData.endDate),
+      startDate: restOfData.startDate || undefined,
+      endDate: restOfData.endDate || undefined,
       vehicleId: restOfData.vehicleId || null,
       technicianId: restOfData.technicianId || null,
       mediaUrls: validProcessedUrls && validProcessedUrls.length > 0 ? validProcessedUrls : null,
@@ -596,6 +485,10 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
       estimatedTravelDistanceKm: restOfData.estimatedTravelDistanceKm !== undefined && restOfData.estimatedTravelDistanceKm !== null ? Number(restOfData.estimatedTravelDistanceKm) : null,
       estimatedTollCosts: restOfData.estimatedTollCosts !== undefined && restOfData.estimatedTollCosts !== null ? Number(restOfData.estimatedTollCosts) : null,
       estimatedTravelCost: restOfData.estimatedTravelCost !== undefined && restOfData.estimatedTravelCost !== null ? Number(restOfData.estimatedTravelCost) : null,
+      travelCostBreakdown: restOfData.travelCostBreakdown || null,
+      visitWindowStart: restOfData.visitWindowStart || null,
+      visitWindowEnd: restOfData.visitWindowEnd || null,
+      dailyRouteId: restOfData.travelCostBreakdown?.routeShare ? restOfData.dailyRouteId || null : null,
       machineStatusBeforeOs: machineStatusBeforeOs !== undefined ? machineStatusBeforeOs : null,
     };
   };
@@ -605,7 +498,7 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
     mutationFn: async (data: { formData: z.infer<typeof ServiceOrderSchema>; filesToUpload: File[]; budgetIdToMark?: string; }) => {
       if (!db) throw new Error("Firebase DB is not available for adding service order.");
       setIsUploadingFile(true);
-      const newOrderId = doc(collection(db, FIRESTORE_COLLECTION_NAME)).id;
+      const newOrderId = newServiceOrderId();
       const uploadedUrls: string[] = [];
 
       if (data.filesToUpload && data.filesToUpload.length > 0) {
@@ -616,35 +509,34 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
       }
 
       // Fetch equipment status before saving OS
-      const equipmentSnapshot = await getDoc(doc(db, FIRESTORE_EQUIPMENT_COLLECTION_NAME, data.formData.equipmentId));
-      const currentMachineStatus = equipmentSnapshot.exists() ? equipmentSnapshot.data()?.operationalStatus as typeof maquinaOperationalStatusOptions[number] : null;
+      const currentMachine = await fetchMaquinaById(data.formData.equipmentId);
+      const currentMachineStatus = currentMachine ? currentMachine.operationalStatus : null;
 
       const orderDataForFirestore = prepareDataForFirestore(data.formData, uploadedUrls, currentMachineStatus);
 
       // Update equipment status if not 'Sucata'
       if (data.formData.equipmentId && currentMachineStatus !== 'Sucata') {
-        await updateDoc(doc(db, FIRESTORE_EQUIPMENT_COLLECTION_NAME, data.formData.equipmentId), { operationalStatus: 'Em Manutenção' });
-        queryClient.invalidateQueries({ queryKey: [FIRESTORE_EQUIPMENT_COLLECTION_NAME] });
+        await updateMaquinaFields(data.formData.equipmentId, { operationalStatus: 'Em Manutenção' });
+        queryClient.invalidateQueries({ queryKey: queryKeys.maquinas.all });
       }
-      await setDoc(doc(db, FIRESTORE_COLLECTION_NAME, newOrderId), orderDataForFirestore);
+      const orderNumber = await createServiceOrder(newOrderId, orderDataForFirestore);
 
       if (data.budgetIdToMark) {
-        const budgetRef = doc(db, FIRESTORE_BUDGET_COLLECTION_NAME, data.budgetIdToMark);
-        await updateDoc(budgetRef, { serviceOrderCreated: true });
+        await updateBudgetFields(data.budgetIdToMark, { serviceOrderCreated: true });
       }
 
-      return { ...orderDataForFirestore, id: newOrderId };
+      return { ...orderDataForFirestore, orderNumber, id: newOrderId };
     },
     onSuccess: (data, variables) => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.serviceOrders.all });
       if (variables.budgetIdToMark) {
-        queryClient.invalidateQueries({ queryKey: [FIRESTORE_BUDGET_COLLECTION_NAME] });
+        queryClient.invalidateQueries({ queryKey: queryKeys.budgets.all });
       }
       toast({ title: "Ordem de Serviço Criada", description: `Ordem ${data.orderNumber} criada.` });
       closeModal();
     },
-    onError: (err: Error, variables) => {
-      toast({ title: "Erro ao Criar OS", description: `Não foi possível criar a OS ${variables.formData.orderNumber}. Detalhe: ${err.message}`, variant: "destructive" });
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Criar OS", description: `Não foi possível criar a OS. Detalhe: ${err.message}`, variant: "destructive" });
     },
     onSettled: () => setIsUploadingFile(false)
   });
@@ -676,14 +568,15 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
         await deleteServiceOrderFileFromStorage(urlToDelete);
       }
 
-      const orderDataForFirestore = prepareDataForFirestore(data.formData, finalMediaUrls);
-      const orderRef = doc(db, FIRESTORE_COLLECTION_NAME, data.id);
-      await updateDoc(orderRef, orderDataForFirestore as { [x: string]: any });
+      // Keep the status captured when the OS was opened; it is restored on conclusion/cancel.
+      const orderDataForFirestore = prepareDataForFirestore(data.formData, finalMediaUrls, data.formData.machineStatusBeforeOs);
+      await updateServiceOrder(data.id, orderDataForFirestore);
       return { ...orderDataForFirestore, id: data.id };
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_COLLECTION_NAME] });
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_EQUIPMENT_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.serviceOrders.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.maquinas.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgets.all });
       toast({ title: "Ordem de Serviço Atualizada", description: `Ordem ${data.orderNumber} atualizada.` });
       closeModal();
     },
@@ -702,11 +595,11 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
           await deleteServiceOrderFileFromStorage(url);
         }
       }
-      return deleteDoc(doc(db, FIRESTORE_COLLECTION_NAME, orderId));
+      return deleteServiceOrder(orderId);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_COLLECTION_NAME] });
-       queryClient.invalidateQueries({ queryKey: [FIRESTORE_EQUIPMENT_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.serviceOrders.all });
+       queryClient.invalidateQueries({ queryKey: queryKeys.maquinas.all });
       toast({ title: "Ordem de Serviço Excluída" });
       closeModal();
     },
@@ -716,6 +609,10 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
   });
 
   const openModal = useCallback((order?: ServiceOrder) => {
+    setCalculatedRoute(null);
+    setTollEstimate(order?.travelCostBreakdown?.tollSource
+      ? { roundTripCost: order.travelCostBreakdown.tollCost, source: order.travelCostBreakdown.tollSource, category: order.travelCostBreakdown.tollCategory ?? null, plazas: order.travelCostBreakdown.tollPlazas ?? null }
+      : null);
     if (order) {
       setEditingOrder(order);
       setIsEditMode(false);
@@ -734,6 +631,10 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
         estimatedTravelDistanceKm: order.estimatedTravelDistanceKm !== undefined ? order.estimatedTravelDistanceKm : null,
         estimatedTollCosts: order.estimatedTollCosts !== undefined ? order.estimatedTollCosts : null,
         estimatedTravelCost: order.estimatedTravelCost !== undefined ? order.estimatedTravelCost : null,
+        travelCostBreakdown: order.travelCostBreakdown || null,
+        visitWindowStart: order.visitWindowStart || null,
+        visitWindowEnd: order.visitWindowEnd || null,
+        dailyRouteId: order.dailyRouteId || null,
         machineStatusBeforeOs: order.machineStatusBeforeOs !== undefined ? order.machineStatusBeforeOs : null,
       });
       setShowCustomServiceType(!!(order.serviceType && !serviceTypeOptionsList.includes(order.serviceType as any)));
@@ -741,7 +642,7 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
       setEditingOrder(null);
       setIsEditMode(true);
       const defaultValuesForNewOS = {
-        orderNumber: getNextOrderNumber(serviceOrdersRaw),
+        orderNumber: PENDING_DOCUMENT_NUMBER,
         customerId: initialDataFromBudget?.customerId || "",
         equipmentId: initialDataFromBudget?.equipmentId || NO_EQUIPMENT_SELECTED_VALUE,
         phase: "Aguardando Avaliação Técnica" as ServiceOrderPhaseType,
@@ -756,7 +657,8 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
         endDate: "",
         mediaUrls: [],
         technicalConclusion: null,
-        estimatedTravelDistanceKm: null, estimatedTollCosts: null, estimatedTravelCost: null, machineStatusBeforeOs: null,
+        estimatedTravelDistanceKm: null, estimatedTollCosts: null, estimatedTravelCost: null, travelCostBreakdown: null, machineStatusBeforeOs: null,
+        visitWindowStart: null, visitWindowEnd: null, dailyRouteId: null,
       };
       form.reset(defaultValuesForNewOS);
       setShowCustomServiceType(false);
@@ -769,43 +671,55 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
     }
     setMediaFiles([]);
     setIsModalOpen(true);
-  }, [form, serviceOrdersRaw, initialDataFromBudget]);
+  }, [form, initialDataFromBudget]);
 
 
   const handleOpenConclusionModal = (orderToConclude: ServiceOrder) => {
     setEditingOrder(orderToConclude);
     setTechnicalConclusionText(orderToConclude.technicalConclusion || "");
+    setSignerName(orderToConclude.requesterName || "");
+    setSignerDocument("");
+    setSignatureDataUrl(null);
     setIsConclusionModalOpen(true);
   };
 
+  // The signature is optional (the customer may not be on site), but once
+  // drawn it has to say who signed.
+  const isSignatureIncomplete = !!signatureDataUrl && (!signerName.trim() || !signerDocument.trim());
+
+  // The machine status is restored in the same transaction (updateServiceOrderFields).
   const handleConfirmConclusion = async () => {
     if (!editingOrder || !editingOrder.id) return;
-    const orderRef = doc(db!, FIRESTORE_COLLECTION_NAME, editingOrder.id);
-
-    let newMachineStatus = 'Disponível';
-    if (editingOrder.machineStatusBeforeOs) {
-        newMachineStatus = editingOrder.machineStatusBeforeOs;
-    }
 
+    setIsConcluding(true);
+    let customerSignature: ServiceOrderSignature | undefined;
     try {
-      await updateDoc(orderRef, {
+      if (signatureDataUrl) {
+        customerSignature = {
+          signerName: signerName.trim(),
+          signerDocument: signerDocument.trim(),
+          imageUrl: await uploadServiceOrderSignature(signatureDataUrl, editingOrder.id),
+          signedAt: new Date().toISOString(),
+        };
+      }
+      await updateServiceOrderFields(editingOrder.id, {
         phase: 'Concluída',
         technicalConclusion: technicalConclusionText.trim() || "Serviço concluído conforme solicitado.",
-        endDate: Timestamp.fromDate(new Date()),
+        endDate: new Date().toISOString(),
+        customerSignature,
       });
-
-      // Update equipment status based on status before OS, fallback to 'Disponível'
-      if (editingOrder.equipmentId) {
-        await updateDoc(doc(db!, FIRESTORE_EQUIPMENT_COLLECTION_NAME, editingOrder.equipmentId), { operationalStatus: newMachineStatus });
-         console.log(`Updated machine ${editingOrder.equipmentId} status to ${newMachineStatus} after OS ${editingOrder.orderNumber} conclusion.`);
-      }
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.serviceOrders.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.maquinas.all });
       toast({ title: "Ordem de Serviço Concluída", description: `OS ${editingOrder.orderNumber} marcada como concluída.` });
       setIsConclusionModalOpen(false);
       setEditingOrder(null);
       setTechnicalConclusionText("");
+      setSignatureDataUrl(null);
     } catch (e: any) {
+      await deleteServiceOrderFileFromStorage(customerSignature?.imageUrl);
       toast({ title: "Erro ao Concluir OS", description: e.message, variant: "destructive" });
+    } finally {
+      setIsConcluding(false);
     }
   };
 
@@ -816,23 +730,15 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
 
   const handleConfirmCancel = async () => {
     if (!editingOrder || !editingOrder.id) return;
-    const orderRef = doc(db!, FIRESTORE_COLLECTION_NAME, editingOrder.id);
-
-    let newMachineStatus = 'Disponível';
-    if (editingOrder.machineStatusBeforeOs) {
-        newMachineStatus = editingOrder.machineStatusBeforeOs;
-    }
 
     try {
-      await updateDoc(orderRef, {
+      await updateServiceOrderFields(editingOrder.id, {
         phase: 'Cancelada',
-        endDate: Timestamp.fromDate(new Date()), // Or leave null? Based on schema, setting endDate on cancel
+        endDate: new Date().toISOString(), // Or leave null? Based on schema, setting endDate on cancel
       });
-       // Update equipment status based on status before OS, fallback to 'Disponível'
-       if (editingOrder.equipmentId) {
-        await updateDoc(doc(db!, FIRESTORE_EQUIPMENT_COLLECTION_NAME, editingOrder.equipmentId), { operationalStatus: newMachineStatus });
-      }
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.serviceOrders.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.maquinas.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgets.all });
       toast({ title: "Ordem de Serviço Cancelada", description: `OS ${editingOrder.orderNumber} marcada como cancelada.` });
       setIsCancelConfirmModalOpen(false);
       setEditingOrder(null);
@@ -883,10 +789,10 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
     if (event.target.files) {
       const currentTotalFiles = (formMediaUrls?.length || 0) + mediaFiles.length;
       const newFilesArray = Array.from(event.target.files);
-      if (currentTotalFiles + newFilesArray.length > MAX_FILES_ALLOWED) {
+      if (currentTotalFiles + newFilesArray.length > MAX_SERVICE_ORDER_FILES) {
         toast({
           title: "Limite de Arquivos Excedido",
-          description: `Você pode anexar no máximo ${MAX_FILES_ALLOWED} arquivos no total.`,
+          description: `Você pode anexar no máximo ${MAX_SERVICE_ORDER_FILES} arquivos no total.`,
           variant: "destructive",
         });
         return;
@@ -920,7 +826,8 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
     customer: Customer | undefined,
     equipment: Maquina | undefined,
     technicianName: string,
-    companyDetails: Company | null
+    companyDetails: Company | null,
+    checklist: ServiceOrderChecklist | null
   ) => {
     if (!order) return;
     console.log("[PrintDebug] generateTechnicianOsPDF called for OS:", order.orderNumber, "Tech:", technicianName);
@@ -1014,6 +921,15 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
     doc.text(problemLines, 14, yPos);
     yPos += (problemLines.length * lineSpacing * 0.7) + lineSpacing;
 
+    if (checklist) {
+      // A checklist not started yet prints blank, to be filled in by hand.
+      yPos = addChecklistToPDF(doc, checklist, yPos, !checklist.updatedAt);
+      if (yPos + 95 > doc.internal.pageSize.height - 15) {
+        doc.addPage();
+        yPos = 20;
+      }
+    }
+
     doc.setFont("helvetica", "bold");
     doc.text("OBSERVAÇÕES / DIAGNÓSTICO TÉCNICO:", 14, yPos);
     yPos += lineSpacing;
@@ -1043,7 +959,10 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
     order: ServiceOrder,
     customer: Customer | undefined,
     equipment: Maquina | undefined,
-    companyDetails: Company | null
+    companyDetails: Company | null,
+    laborEntries: LaborTimeEntry[],
+    signatureImage: string | null,
+    checklist: ServiceOrderChecklist | null
   ) => {
     if (!order) return;
     console.log("[PrintDebug] generateCustomerReceiptPDF called for OS:", order.orderNumber);
@@ -1126,9 +1045,63 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
     doc.text(conclusionLines, 14, yPos);
     yPos += (conclusionLines.length * lineSpacing * 0.7) + lineSpacing * 2;
 
+    if (checklist) {
+      yPos = addChecklistToPDF(doc, checklist, yPos, false) + lineSpacing;
+    }
 
+    const closedLaborEntries = laborEntries.filter(entry => entry.checkOut);
+    if (closedLaborEntries.length > 0) {
+      doc.setFont("helvetica", "bold");
+      doc.text("MÃO DE OBRA", 14, yPos);
+      yPos += lineSpacing * 0.5;
+      doc.setFont("helvetica", "normal");
+      autoTable(doc, {
+        head: [["Técnico", "Tipo", "Data", "Início", "Fim", "Horas"]],
+        body: closedLaborEntries.map(entry => [
+          entry.technicianName,
+          entry.kind,
+          format(parseISO(entry.checkIn), "dd/MM/yyyy"),
+          format(parseISO(entry.checkIn), "HH:mm"),
+          format(parseISO(entry.checkOut!), "HH:mm"),
+          formatLaborHours(getLaborEntryHours(entry) ?? 0),
+        ]),
+        startY: yPos,
+        theme: 'grid',
+        headStyles: { fillColor: [249, 115, 22] },
+        styles: { fontSize: 9, cellPadding: 1.5 },
+        columnStyles: { 5: { halign: 'right' } },
+      });
+      // @ts-ignore
+      yPos = doc.lastAutoTable.finalY + lineSpacing;
+
+      const laborSummary = summarizeLaborTime(closedLaborEntries);
+      doc.setFontSize(normalText);
+      doc.text(`Deslocamento: ${formatLaborHours(laborSummary.travelHours)}   Atendimento: ${formatLaborHours(laborSummary.onSiteHours)}   Total: ${formatLaborHours(laborSummary.totalHours)}`, 14, yPos);
+      if (laborSummary.laborCost > 0) {
+        doc.setFont("helvetica", "bold");
+        doc.text(`Mão de obra: ${formatCurrency(laborSummary.laborCost)}`, 196, yPos, { align: "right" });
+        doc.setFont("helvetica", "normal");
+      }
+      yPos += lineSpacing * 3;
+    }
+
+    const signature = order.customerSignature;
+    if (signature && signatureImage) {
+      if (yPos + 45 > doc.internal.pageSize.height - 15) {
+        doc.addPage();
+        yPos = 20;
+      }
+      doc.addImage(signatureImage, "PNG", 14, yPos, 70, 25);
+      yPos += 27;
+    }
     doc.line(14, yPos, 84, yPos);
     doc.text("Assinatura do Cliente", 14, yPos + 5);
+    if (signature) {
+      doc.setFontSize(smallText);
+      doc.text(`${signature.signerName} - Doc.: ${signature.signerDocument}`, 14, yPos + 10);
+      doc.text(`Assinado eletronicamente em ${signature.signedAt ? format(parseISO(signature.signedAt), "dd/MM/yyyy 'às' HH:mm:ss") : "N/A"}`, 14, yPos + 15);
+      yPos += lineSpacing;
+    }
     yPos += lineSpacing * 1.5;
 
     doc.setFontSize(smallText - 1);
@@ -1137,7 +1110,28 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
     console.log("[PrintDebug] generateCustomerReceiptPDF finished for OS:", order.orderNumber);
   };
 
-  const handlePrintForTechnician = (order: ServiceOrder) => {
+  // The saved checklist; for the technician's copy, the template the order
+  // will use when nothing was filled in yet.
+  const loadChecklistForPrint = async (order: ServiceOrder, includeTemplate: boolean): Promise<ServiceOrderChecklist | null> => {
+    try {
+      const checklist = await queryClient.fetchQuery({
+        queryKey: queryKeys.serviceOrderChecklists.detail(order.id),
+        queryFn: () => fetchServiceOrderChecklist(order.id),
+      });
+      if (checklist || !includeTemplate) return checklist;
+      const templates = await queryClient.fetchQuery<ChecklistTemplate[]>({
+        queryKey: queryKeys.checklistTemplates.all,
+        queryFn: fetchChecklistTemplates,
+      });
+      const template = findChecklistTemplate(templates, order.serviceType, getEquipmentDetails(order.equipmentId)?.equipmentType);
+      return template ? createChecklistFromTemplate(template, order.id) : null;
+    } catch (error: any) {
+      toast({ title: "Erro ao Carregar Checklist", description: `O documento será gerado sem o checklist. Detalhes: ${error.message}`, variant: "destructive" });
+      return null;
+    }
+  };
+
+  const handlePrintForTechnician = async (order: ServiceOrder) => {
     console.log("[PrintDebug] handlePrintForTechnician called for OS:", order.id);
     if (isLoadingGoldmaqCompany) {
       toast({ title: "Aguarde", description: "Carregando dados da empresa..."});
@@ -1150,10 +1144,11 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
     const customer = getCustomerDetails(order.customerId);
     const equipment = getEquipmentDetails(order.equipmentId);
     const technicianName = getTechnicianName(order.technicianId);
-    generateTechnicianOsPDF(order, customer, equipment, technicianName, goldmaqCompanyDetails || null);
+    const checklist = await loadChecklistForPrint(order, true);
+    generateTechnicianOsPDF(order, customer, equipment, technicianName, goldmaqCompanyDetails || null, checklist);
   };
 
-  const handlePrintForCustomer = (order: ServiceOrder) => {
+  const handlePrintForCustomer = async (order: ServiceOrder) => {
     console.log("[PrintDebug] handlePrintForCustomer called for OS:", order.id);
     if (isLoadingGoldmaqCompany) {
       toast({ title: "Aguarde", description: "Carregando dados da empresa..."});
@@ -1165,7 +1160,25 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
     }
     const customer = getCustomerDetails(order.customerId);
     const equipment = getEquipmentDetails(order.equipmentId);
-    generateCustomerReceiptPDF(order, customer, equipment, goldmaqCompanyDetails || null);
+    let laborEntries: LaborTimeEntry[] = [];
+    try {
+      laborEntries = await queryClient.fetchQuery({
+        queryKey: queryKeys.laborTimeEntries.byServiceOrder(order.id),
+        queryFn: () => fetchLaborTimeEntries(order.id),
+      });
+    } catch (error: any) {
+      toast({ title: "Erro ao Carregar Apontamentos", description: `O recibo será gerado sem a mão de obra. Detalhes: ${error.message}`, variant: "destructive" });
+    }
+    let signatureImage: string | null = null;
+    if (order.customerSignature) {
+      try {
+        signatureImage = await loadSignatureImage(order.customerSignature.imageUrl);
+      } catch (error: any) {
+        toast({ title: "Erro ao Carregar Assinatura", description: `O recibo será gerado sem a imagem da assinatura. Detalhes: ${error.message}`, variant: "destructive" });
+      }
+    }
+    const checklist = await loadChecklistForPrint(order, false);
+    generateCustomerReceiptPDF(order, customer, equipment, goldmaqCompanyDetails || null, laborEntries, signatureImage, checklist);
   };
 
 
@@ -1214,11 +1227,11 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
     <TooltipProvider>
       <PageHeader
         title="Ordens de Serviço"
-        actions={
+        actions={canManageOrders ? (
           <Button onClick={() => openModal()} className="bg-primary hover:bg-primary/90" disabled={isMutating}>
             <PlusCircle className="mr-2 h-4 w-4" /> Nova OS
           </Button>
-        }
+        ) : undefined}
       />
 
       <div className="mb-6 flex flex-col md:flex-row gap-4">
@@ -1253,9 +1266,9 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
         <DataTablePlaceholder
           icon={ClipboardList}
           title="Nenhuma Ordem de Serviço Registrada"
-          description="Crie sua primeira ordem de serviço para começar."
-          buttonLabel="Nova OS"
-          onButtonClick={() => openModal()}
+          description={canManageOrders ? "Crie sua primeira ordem de serviço para começar." : "Nenhuma ordem de serviço atribuída a você."}
+          buttonLabel={canManageOrders ? "Nova OS" : undefined}
+          onButtonClick={canManageOrders ? () => openModal() : undefined}
         />
       ) : filteredServiceOrders.length === 0 ? (
         <div className="text-center py-10">
@@ -1405,7 +1418,7 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
                             </Button>
                         )}
                     </div>
-                    {!localIsOrderConcludedOrCancelled && (
+                    {canTransitionServiceOrderPhase(order.phase, 'Concluída') && !localIsOrderConcludedOrCancelled && (
                         <Button
                             variant="outline"
                             size="sm"
@@ -1431,238 +1444,265 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
         formId="service-order-form"
         isSubmitting={isMutating}
         editingItem={editingOrder}
-        onDeleteConfirm={handleModalDeleteConfirm}
+        onDeleteConfirm={canManageOrders ? handleModalDeleteConfirm : undefined}
         isDeleting={deleteServiceOrderMutation.isPending}
         deleteButtonLabel="Excluir OS"
         isEditMode={isEditMode}
         onEditModeToggle={() => setIsEditMode(true)}
         additionalFooterActions={null}
       >
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} id="service-order-form" className="space-y-4">
-            <fieldset disabled={!!editingOrder && !isEditMode && (isOrderConcludedOrCancelled)} className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <FormField control={form.control} name="orderNumber" render={({ field }) => (
-                  <FormItem><FormLabel>Número da OS</FormLabel><FormControl><Input {...field} readOnly className="bg-muted/50" /></FormControl><FormMessage /></FormItem>
-                )} />
-                <FormField control={form.control} name="customerId" render={({ field }) => (
-                  <FormItem><FormLabel>Cliente</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value} disabled={!!editingOrder || !!initialDataFromBudget?.customerId}>
-                      <FormControl><SelectTrigger><SelectValue placeholder={isLoadingCustomers ? "Carregando..." : "Selecione o cliente"} /></SelectTrigger></FormControl>
-                      <SelectContent>
-                        {customers.map(cust => {
-                          let displayName = toTitleCase(cust.name);
-                          const fantasyNameDisplay = cust.fantasyName ? ` (${toTitleCase(cust.fantasyName)})` : "";
-                          const maxLength = 50; // Max length for the display string in dropdown
+        <DetailsHistoryTabs entityType="serviceOrder" entityId={editingOrder?.id}>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} id="service-order-form" className="space-y-4">
+              <fieldset disabled={!!editingOrder && !isEditMode && (isOrderConcludedOrCancelled)} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField control={form.control} name="orderNumber" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Número da OS</FormLabel>
+                      <FormControl><Input {...field} readOnly className="bg-muted/50" /></FormControl>
+                      {!editingOrder && <FormDescription>Gerado ao salvar, pela sequência da empresa.</FormDescription>}
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                  <FormField control={form.control} name="customerId" render={({ field }) => (
+                    <FormItem><FormLabel>Cliente</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value} disabled={!!editingOrder || !!initialDataFromBudget?.customerId}>
+                        <FormControl><SelectTrigger><SelectValue placeholder={isLoadingCustomers ? "Carregando..." : "Selecione o cliente"} /></SelectTrigger></FormControl>
+                        <SelectContent>
+                          {customers.map(cust => {
+                            let displayName = toTitleCase(cust.name);
+                            const fantasyNameDisplay = cust.fantasyName ? ` (${toTitleCase(cust.fantasyName)})` : "";
+                            const maxLength = 50; // Max length for the display string in dropdown
                           
-                          if (displayName.length + fantasyNameDisplay.length > maxLength && cust.fantasyName) {
-                            const remainingLength = maxLength - fantasyNameDisplay.length - 3; // -3 for "..."
-                            if (remainingLength > 0) {
-                                displayName = displayName.substring(0, remainingLength) + "...";
-                            } else { 
-                                // Fantasy name is too long, just show truncated fantasy name
-                                displayName = fantasyNameDisplay.substring(0, maxLength-3) + "...";
+                            if (displayName.length + fantasyNameDisplay.length > maxLength && cust.fantasyName) {
+                              const remainingLength = maxLength - fantasyNameDisplay.length - 3; // -3 for "..."
+                              if (remainingLength > 0) {
+                                  displayName = displayName.substring(0, remainingLength) + "...";
+                              } else { 
+                                  // Fantasy name is too long, just show truncated fantasy name
+                                  displayName = fantasyNameDisplay.substring(0, maxLength-3) + "...";
+                              }
                             }
-                          }
-                          const finalDisplay = displayName + fantasyNameDisplay;
-
-                          return (
-                            <SelectItem key={cust.id} value={cust.id} title={`${toTitleCase(cust.name)}${cust.fantasyName ? ' (' + toTitleCase(cust.fantasyName) + ')' : ''} - CNPJ: ${cust.cnpj}`}>
-                              {finalDisplay}
-                            </SelectItem>
-                          );
-                        })}
+                            const finalDisplay = displayName + fantasyNameDisplay;
+
+                            return (
+                              <SelectItem key={cust.id} value={cust.id} title={`${toTitleCase(cust.name)}${cust.fantasyName ? ' (' + toTitleCase(cust.fantasyName) + ')' : ''} - CNPJ: ${cust.cnpj}`}>
+                                {finalDisplay}
+                              </SelectItem>
+                            );
+                          })}
+                        </SelectContent>
+                      </Select><FormMessage />
+                    </FormItem>
+                  )} />
+                </div>
+                <FormField control={form.control} name="equipmentId" render={({ field }) => (
+                  <FormItem><FormLabel>Máquina</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={!!editingOrder || !!initialDataFromBudget?.equipmentId}>
+                      <FormControl><SelectTrigger><SelectValue placeholder={isLoadingEquipment ? "Carregando..." : (selectedCustomerId ? "Selecione a máquina" : "Selecione uma máquina")} /></SelectTrigger></FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_EQUIPMENT_SELECTED_VALUE} disabled>
+                          {selectedCustomerId ? "Selecione uma máquina" : "Selecione um cliente"}
+                        </SelectItem>
+                        {filteredEquipmentList.map(eq => <SelectItem key={eq.id} value={eq.id}>{eq.brand} {eq.model} (Chassi: {eq.chassisNumber})</SelectItem>)}
                       </SelectContent>
                     </Select><FormMessage />
                   </FormItem>
                 )} />
-              </div>
-              <FormField control={form.control} name="equipmentId" render={({ field }) => (
-                <FormItem><FormLabel>Máquina</FormLabel>
-                  <Select onValueChange={field.onChange} value={field.value} disabled={!!editingOrder || !!initialDataFromBudget?.equipmentId}>
-                    <FormControl><SelectTrigger><SelectValue placeholder={isLoadingEquipment ? "Carregando..." : (selectedCustomerId ? "Selecione a máquina" : "Selecione uma máquina")} /></SelectTrigger></FormControl>
-                    <SelectContent>
-                      <SelectItem value={NO_EQUIPMENT_SELECTED_VALUE} disabled>
-                        {selectedCustomerId ? "Selecione uma máquina" : "Selecione um cliente"}
-                      </SelectItem>
-                      {filteredEquipmentList.map(eq => <SelectItem key={eq.id} value={eq.id}>{eq.brand} {eq.model} (Chassi: {eq.chassisNumber})</SelectItem>)}
-                    </SelectContent>
-                  </Select><FormMessage />
-                </FormItem>
-              )} />
-              <FormField control={form.control} name="requesterName" render={({ field }) => (
-                <FormItem><FormLabel>Nome do Solicitante (Opcional)</FormLabel><FormControl><Input placeholder="Quem abriu o chamado no cliente" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
-              )} />
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <FormField control={form.control} name="phase" render={({ field }) => (
-                  <FormItem><FormLabel>Fase da OS</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value} disabled={(isOrderConcludedOrCancelled) && !!editingOrder}>
-                      <FormControl><SelectTrigger><SelectValue placeholder="Selecione a fase" /></SelectTrigger></FormControl>
+                <FormField control={form.control} name="requesterName" render={({ field }) => (
+                  <FormItem><FormLabel>Nome do Solicitante (Opcional)</FormLabel><FormControl><Input placeholder="Quem abriu o chamado no cliente" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField control={form.control} name="phase" render={({ field }) => (
+                    <FormItem><FormLabel>Fase da OS</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value} disabled={(isOrderConcludedOrCancelled) && !!editingOrder}>
+                        <FormControl><SelectTrigger><SelectValue placeholder="Selecione a fase" /></SelectTrigger></FormControl>
+                        <SelectContent>
+                          {selectablePhases.map(phase => <SelectItem key={phase} value={phase}>{phase}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                      {editingOrder && !isOrderConcludedOrCancelled && canTransitionServiceOrderPhase(editingOrder.phase, 'Concluída') && (
+                        <FormDescription>Para concluir, use o botão &quot;Concluir&quot; do card da OS.</FormDescription>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                   <FormField control={form.control} name="technicianId" render={({ field }) => (
+                    <FormItem><FormLabel>Técnico Responsável</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value || NO_TECHNICIAN_SELECTED_VALUE}>
+                        <FormControl><SelectTrigger><SelectValue placeholder={isLoadingTechnicians ? "Carregando..." : "Selecione um técnico"} /></SelectTrigger></FormControl>
+                        <SelectContent>
+                           <SelectItem value={NO_TECHNICIAN_SELECTED_VALUE}>Não Atribuído</SelectItem>
+                          {technicians.map(tech => <SelectItem key={tech.id} value={tech.id}>{tech.name}</SelectItem>)}
+                        </SelectContent>
+                      </Select><FormMessage />
+                    </FormItem>
+                  )} />
+                </div>
+                 <FormField control={form.control} name="serviceType" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo de Serviço</FormLabel>
+                    <Select onValueChange={handleServiceTypeChange} value={field.value}>
+                      <FormControl><SelectTrigger><SelectValue placeholder="Selecione o tipo de serviço" /></SelectTrigger></FormControl>
                       <SelectContent>
-                        {serviceOrderPhaseOptions.map(phase => <SelectItem key={phase} value={phase}>{phase}</SelectItem>)}
+                        {serviceTypeOptionsList.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+                        <SelectItem value={CUSTOM_SERVICE_TYPE_VALUE}>Outro (Especificar)</SelectItem>
                       </SelectContent>
-                    </Select><FormMessage />
+                    </Select>
+                    {showCustomServiceType && (
+                      <FormField control={form.control} name="customServiceType" render={({ field: customField }) => (
+                        <FormItem className="mt-2"><FormControl><Input placeholder="Especifique o tipo de serviço" {...customField} value={customField.value ?? ""} /></FormControl><FormMessage /></FormItem>
+                      )} />
+                    )}
+                    <FormMessage />
                   </FormItem>
                 )} />
-                 <FormField control={form.control} name="technicianId" render={({ field }) => (
-                  <FormItem><FormLabel>Técnico Responsável</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value || NO_TECHNICIAN_SELECTED_VALUE}>
-                      <FormControl><SelectTrigger><SelectValue placeholder={isLoadingTechnicians ? "Carregando..." : "Selecione um técnico"} /></SelectTrigger></FormControl>
+
+                  <FormField control={form.control} name="vehicleId" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Veículo Utilizado (Opcional)</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value || NO_VEHICLE_SELECTED_VALUE}>
+                      <FormControl><SelectTrigger><SelectValue placeholder={isLoadingVehicles ? "Carregando..." : "Selecione um veículo"} /></SelectTrigger></FormControl>
                       <SelectContent>
-                         <SelectItem value={NO_TECHNICIAN_SELECTED_VALUE}>Não Atribuído</SelectItem>
-                        {technicians.map(tech => <SelectItem key={tech.id} value={tech.id}>{tech.name}</SelectItem>)}
+                        <SelectItem value={NO_VEHICLE_SELECTED_VALUE}>Nenhum / Não se aplica</SelectItem>
+                        {vehicles.map(v => <SelectItem key={v.id} value={v.id}>{v.model} ({v.licensePlate})</SelectItem>)}
                       </SelectContent>
                     </Select><FormMessage />
                   </FormItem>
                 )} />
-              </div>
-               <FormField control={form.control} name="serviceType" render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Tipo de Serviço</FormLabel>
-                  <Select onValueChange={handleServiceTypeChange} value={field.value}>
-                    <FormControl><SelectTrigger><SelectValue placeholder="Selecione o tipo de serviço" /></SelectTrigger></FormControl>
-                    <SelectContent>
-                      {serviceTypeOptionsList.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
-                      <SelectItem value={CUSTOM_SERVICE_TYPE_VALUE}>Outro (Especificar)</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  {showCustomServiceType && (
-                    <FormField control={form.control} name="customServiceType" render={({ field: customField }) => (
-                      <FormItem className="mt-2"><FormControl><Input placeholder="Especifique o tipo de serviço" {...customField} value={customField.value ?? ""} /></FormControl><FormMessage /></FormItem>
-                    )} />
-                  )}
-                  <FormMessage />
-                </FormItem>
-              )} />
 
-                <FormField control={form.control} name="vehicleId" render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Veículo Utilizado (Opcional)</FormLabel>
-                  <Select onValueChange={field.onChange} value={field.value || NO_VEHICLE_SELECTED_VALUE}>
-                    <FormControl><SelectTrigger><SelectValue placeholder={isLoadingVehicles ? "Carregando..." : "Selecione um veículo"} /></SelectTrigger></FormControl>
-                    <SelectContent>
-                      <SelectItem value={NO_VEHICLE_SELECTED_VALUE}>Nenhum / Não se aplica</SelectItem>
-                      {vehicles.map(v => <SelectItem key={v.id} value={v.id}>{v.model} ({v.licensePlate})</SelectItem>)}
-                    </SelectContent>
-                  </Select><FormMessage />
-                </FormItem>
-              )} />
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField control={form.control} name="startDate" render={({ field }) => (
+                    <FormItem><FormLabel>Data de Início</FormLabel><FormControl><Input type="date" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                  <FormField control={form.control} name="endDate" render={({ field }) => (
+                    <FormItem><FormLabel>Data de Conclusão Prevista (Opcional)</FormLabel><FormControl><Input type="date" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <FormField control={form.control} name="startDate" render={({ field }) => (
-                  <FormItem><FormLabel>Data de Início</FormLabel><FormControl><Input type="date" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField control={form.control} name="visitWindowStart" render={({ field }) => (
+                    <FormItem><FormLabel>Janela de Atendimento - Início (Opcional)</FormLabel><FormControl><Input type="time" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                  <FormField control={form.control} name="visitWindowEnd" render={({ field }) => (
+                    <FormItem><FormLabel>Janela de Atendimento - Fim (Opcional)</FormLabel><FormControl><Input type="time" {...field} value={field.value ?? ""} /></FormControl><FormDescription>Usada pelo Roteiro do Dia para ordenar as visitas.</FormDescription><FormMessage /></FormItem>
+                  )} />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField control={form.control} name="estimatedTravelDistanceKm" render={({ field }) => (
+                      <FormItem>
+                          <FormLabel>Distância Estimada Viagem (km, ida e volta)</FormLabel>
+                          <div className="flex items-center gap-2">
+                              <FormControl>
+                                  <Input type="number" step="0.1" placeholder="Ex: 120.5" {...field}
+                                         onChange={e => field.onChange(e.target.value === '' ? null : parseFloat(e.target.value))}
+                                         value={field.value ?? ""}
+                                  />
+                              </FormControl>
+                               <Button type="button" variant="ghost" size="icon" onClick={() => form.setValue('estimatedTravelDistanceKm', null)} disabled={isCalculatingDistance}>
+                                  {isCalculatingDistance ? <Loader2 className="h-4 w-4 animate-spin"/> : <Brain className="h-4 w-4"/>}
+                                  <span className="sr-only">Recalcular Distância com IA</span>
+                              </Button>
+                          </div>
+                          <FormDescription>Preenchido automaticamente ou manualmente.</FormDescription>
+                          <FormMessage/>
+                      </FormItem>
+                  )}/>
+                  <FormField control={form.control} name="estimatedTollCosts" render={({ field }) => (
+                      <FormItem>
+                          <FormLabel>Custos de Pedágio Estimados (R$, ida e volta)</FormLabel>
+                           <div className="flex items-center gap-2">
+                              <FormControl>
+                                  <Input type="number" step="0.01" placeholder="Ex: 25.50" {...field}
+                                        onChange={e => field.onChange(e.target.value === '' ? null : parseFloat(e.target.value))}
+                                        value={field.value ?? ""}
+                                  />
+                              </FormControl>
+                               <Button type="button" variant="ghost" size="icon" onClick={() => form.setValue('estimatedTollCosts', null)} disabled={isCalculatingDistance}>
+                                  {isCalculatingDistance ? <Loader2 className="h-4 w-4 animate-spin"/> : <Brain className="h-4 w-4"/>}
+                                  <span className="sr-only">Recalcular Pedágio</span>
+                              </Button>
+                          </div>
+                          <FormDescription>Calculado pelas praças de pedágio cadastradas na rota; sem elas, estimado pela IA.</FormDescription>
+                          <FormMessage/>
+                      </FormItem>
+                  )}/>
+                </div>
+                 <FormField control={form.control} name="estimatedTravelCost" render={({ field }) => (
+                  <FormItem>
+                      <FormLabel>Custo Total de Viagem Estimado (R$)</FormLabel>
+                      <FormControl>
+                          <Input type="number" step="0.01" {...field}
+                                value={field.value ?? ""}
+                                readOnly
+                                className="bg-muted/50"
+                          />
+                      </FormControl>
+                      <FormDescription>Combustível + pedágios + desgaste do veículo + horas de deslocamento do técnico.</FormDescription>
+                      <FormMessage/>
+                  </FormItem>
+                )}/>
+                {formTravelCostBreakdown && <TripCostBreakdownSummary breakdown={formTravelCostBreakdown} />}
+
+
+                <FormField control={form.control} name="description" render={({ field }) => (
+                  <FormItem><FormLabel>Problema Relatado / Descrição do Serviço</FormLabel><FormControl><Textarea placeholder="Descreva o problema ou o serviço a ser realizado" {...field} rows={4} /></FormControl><FormMessage /></FormItem>
                 )} />
-                <FormField control={form.control} name="endDate" render={({ field }) => (
-                  <FormItem><FormLabel>Data de Conclusão Prevista (Opcional)</FormLabel><FormControl><Input type="date" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
+                <FormField control={form.control} name="notes" render={({ field }) => (
+                  <FormItem><FormLabel>Observações Internas (Opcional)</FormLabel><FormControl><Textarea placeholder="Notas internas, detalhes adicionais, etc." {...field} value={field.value ?? ""} rows={3} /></FormControl><FormMessage /></FormItem>
                 )} />
-              </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <FormField control={form.control} name="estimatedTravelDistanceKm" render={({ field }) => (
-                    <FormItem>
-                        <FormLabel>Distância Estimada Viagem (km, ida e volta)</FormLabel>
-                        <div className="flex items-center gap-2">
-                            <FormControl>
-                                <Input type="number" step="0.1" placeholder="Ex: 120.5" {...field}
-                                       onChange={e => field.onChange(e.target.value === '' ? null : parseFloat(e.target.value))}
-                                       value={field.value ?? ""}
-                                />
-                            </FormControl>
-                             <Button type="button" variant="ghost" size="icon" onClick={() => form.setValue('estimatedTravelDistanceKm', null)} disabled={isCalculatingDistance}>
-                                {isCalculatingDistance ? <Loader2 className="h-4 w-4 animate-spin"/> : <Brain className="h-4 w-4"/>}
-                                <span className="sr-only">Recalcular Distância com IA</span>
-                            </Button>
-                        </div>
-                        <FormDescription>Preenchido automaticamente ou manualmente.</FormDescription>
-                        <FormMessage/>
-                    </FormItem>
-                )}/>
-                <FormField control={form.control} name="estimatedTollCosts" render={({ field }) => (
-                    <FormItem>
-                        <FormLabel>Custos de Pedágio Estimados (R$, ida e volta)</FormLabel>
-                         <div className="flex items-center gap-2">
-                            <FormControl>
-                                <Input type="number" step="0.01" placeholder="Ex: 25.50" {...field}
-                                      onChange={e => field.onChange(e.target.value === '' ? null : parseFloat(e.target.value))}
-                                      value={field.value ?? ""}
-                                />
-                            </FormControl>
-                             <Button type="button" variant="ghost" size="icon" onClick={() => form.setValue('estimatedTollCosts', null)} disabled={isCalculatingDistance}>
-                                {isCalculatingDistance ? <Loader2 className="h-4 w-4 animate-spin"/> : <Brain className="h-4 w-4"/>}
-                                <span className="sr-only">Recalcular Pedágio com IA</span>
-                            </Button>
-                        </div>
-                        <FormDescription>Estimado pela IA se a rota tiver pedágios.</FormDescription>
-                        <FormMessage/>
-                    </FormItem>
-                )}/>
-              </div>
-               <FormField control={form.control} name="estimatedTravelCost" render={({ field }) => (
                 <FormItem>
-                    <FormLabel>Custo Total de Viagem Estimado (R$)</FormLabel>
-                    <FormControl>
-                        <Input type="number" step="0.01" {...field}
-                              value={field.value ?? ""}
-                              readOnly
-                              className="bg-muted/50"
-                        />
-                    </FormControl>
-                    <FormDescription>Calculado: (Distância * Custo/km Veículo) + Pedágios.</FormDescription>
-                    <FormMessage/>
-                </FormItem>
-              )}/>
-
-
-              <FormField control={form.control} name="description" render={({ field }) => (
-                <FormItem><FormLabel>Problema Relatado / Descrição do Serviço</FormLabel><FormControl><Textarea placeholder="Descreva o problema ou o serviço a ser realizado" {...field} rows={4} /></FormControl><FormMessage /></FormItem>
-              )} />
-              <FormField control={form.control} name="notes" render={({ field }) => (
-                <FormItem><FormLabel>Observações Internas (Opcional)</FormLabel><FormControl><Textarea placeholder="Notas internas, detalhes adicionais, etc." {...field} value={field.value ?? ""} rows={3} /></FormControl><FormMessage /></FormItem>
-              )} />
-
-              <FormItem>
-                <FormLabel>Mídia (Fotos/Vídeos - Máx. ${MAX_FILES_ALLOWED} arquivos)</FormLabel>
-                <FormControl>
-                  <Input
-                    type="file"
-                    multiple
-                    accept="image/*,video/*"
-                    onChange={handleFileChange}
-                    disabled={(formMediaUrls?.length || 0) + mediaFiles.length >= MAX_FILES_ALLOWED || (isOrderConcludedOrCancelled && !!editingOrder)}
-                  />
-                </FormControl>
-                <FormDescription>
-                  Arquivos selecionados para upload: {mediaFiles.length}.
-                  Arquivos existentes: {formMediaUrls?.length || 0}.
-                  Total: {(formMediaUrls?.length || 0) + mediaFiles.length} de ${MAX_FILES_ALLOWED}.
-                </FormDescription>
-                <div className="mt-2 space-y-2">
-                  {formMediaUrls?.map((url, index) => (
-                    <div key={`existing-${index}`} className="flex items-center justify-between p-2 border rounded-md bg-muted/50 text-sm">
-                      <a href={url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline truncate flex items-center gap-1">
-                        <LinkIconLI className="h-3 w-3"/> {getFileNameFromUrl(url)} (Salvo)
-                      </a>
-                      {(!(isOrderConcludedOrCancelled && !!editingOrder)) && (
-                        <Button type="button" variant="ghost" size="sm" onClick={() => handleRemoveExistingUrl(url)} className="text-destructive hover:text-destructive">
+                  <FormLabel>Mídia (Fotos/Vídeos - Máx. ${MAX_SERVICE_ORDER_FILES} arquivos)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="file"
+                      multiple
+                      accept="image/*,video/*"
+                      onChange={handleFileChange}
+                      disabled={(formMediaUrls?.length || 0) + mediaFiles.length >= MAX_SERVICE_ORDER_FILES || (isOrderConcludedOrCancelled && !!editingOrder)}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Arquivos selecionados para upload: {mediaFiles.length}.
+                    Arquivos existentes: {formMediaUrls?.length || 0}.
+                    Total: {(formMediaUrls?.length || 0) + mediaFiles.length} de ${MAX_SERVICE_ORDER_FILES}.
+                  </FormDescription>
+                  <div className="mt-2 space-y-2">
+                    {formMediaUrls?.map((url, index) => (
+                      <div key={`existing-${index}`} className="flex items-center justify-between p-2 border rounded-md bg-muted/50 text-sm">
+                        <a href={url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline truncate flex items-center gap-1">
+                          <LinkIconLI className="h-3 w-3"/> {getFileNameFromUrl(url)} (Salvo)
+                        </a>
+                        {(!(isOrderConcludedOrCancelled && !!editingOrder)) && (
+                          <Button type="button" variant="ghost" size="sm" onClick={() => handleRemoveExistingUrl(url)} className="text-destructive hover:text-destructive">
+                            <XCircle className="h-4 w-4 mr-1"/> Remover
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                    {mediaFiles.map((file, index) => (
+                      <div key={`new-${index}`} className="flex items-center justify-between p-2 border rounded-md text-sm">
+                        <span className="truncate">{file.name} (Novo)</span>
+                        <Button type="button" variant="ghost" size="sm" onClick={() => handleRemoveNewFile(index)} className="text-destructive hover:text-destructive">
                           <XCircle className="h-4 w-4 mr-1"/> Remover
                         </Button>
-                      )}
-                    </div>
-                  ))}
-                  {mediaFiles.map((file, index) => (
-                    <div key={`new-${index}`} className="flex items-center justify-between p-2 border rounded-md text-sm">
-                      <span className="truncate">{file.name} (Novo)</span>
-                      <Button type="button" variant="ghost" size="sm" onClick={() => handleRemoveNewFile(index)} className="text-destructive hover:text-destructive">
-                        <XCircle className="h-4 w-4 mr-1"/> Remover
-                      </Button>
-                    </div>
-                  ))}
-                </div>
-                <FormMessage />
-              </FormItem>
-            </fieldset>
-          </form>
-        </Form>
+                      </div>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              </fieldset>
+            </form>
+          </Form>
+          {editingOrder && (
+            <>
+              <ServiceOrderChecklistSection order={editingOrder} equipmentType={getEquipmentDetails(editingOrder.equipmentId)?.equipmentType} />
+              <LaborTimeSection order={editingOrder} technicians={technicians} />
+            </>
+          )}
+        </DetailsHistoryTabs>
       </FormModal>
 
       <AlertDialog open={isConclusionModalOpen} onOpenChange={setIsConclusionModalOpen}>
@@ -1670,26 +1710,49 @@ export function ServiceOrderClientPage(props: ServiceOrderClientPageProps) {
           <AlertDialogHeader>
             <AlertDialogTitle>Concluir Ordem de Serviço: {editingOrder?.orderNumber}</AlertDialogTitle>
             <AlertDialogDescription>
-              Descreva a conclusão técnica do serviço. Esta informação será registrada e poderá ser usada no recibo do cliente.
+              Descreva a conclusão técnica do serviço e colete a assinatura do cliente. Ambas aparecem no recibo do cliente.
             </AlertDialogDescription>
           </AlertDialogHeader>
-          <div className="py-4">
-            <Label htmlFor="technical-conclusion" className="text-sm font-medium">
-              Conclusão Técnica
-            </Label>
-            <Textarea
-              id="technical-conclusion"
-              value={technicalConclusionText}
-              onChange={(e) => setTechnicalConclusionText(e.target.value)}
-              placeholder="Detalhe os serviços realizados e a solução aplicada..."
-              rows={5}
-              className="mt-1"
-            />
+          <div className="py-4 space-y-4 max-h-[60vh] overflow-y-auto">
+            <div>
+              <Label htmlFor="technical-conclusion" className="text-sm font-medium">
+                Conclusão Técnica
+              </Label>
+              <Textarea
+                id="technical-conclusion"
+                value={technicalConclusionText}
+                onChange={(e) => setTechnicalConclusionText(e.target.value)}
+                placeholder="Detalhe os serviços realizados e a solução aplicada..."
+                rows={5}
+                className="mt-1"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Assinatura do Cliente (opcional)</Label>
+              <SignaturePad onChange={setSignatureDataUrl} />
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="signer-name" className="text-xs">Nome de quem assina</Label>
+                  <Input id="signer-name" value={signerName} onChange={(e) => setSignerName(e.target.value)} className="mt-1" />
+                </div>
+                <div>
+                  <Label htmlFor="signer-document" className="text-xs">CPF / RG</Label>
+                  <Input id="signer-document" value={signerDocument} onChange={(e) => setSignerDocument(e.target.value)} className="mt-1" />
+                </div>
+              </div>
+              {isSignatureIncomplete && (
+                <p className="text-xs text-destructive">Informe o nome e o documento de quem assinou.</p>
+              )}
+            </div>
           </div>
           <AlertDialogFooter>
-            <AlertDialogCancel onClick={() => setIsConclusionModalOpen(false)}>Cancelar</AlertDialogCancel>
-            <AlertDialogAction onClick={handleConfirmConclusion} disabled={!technicalConclusionText.trim()} className={buttonVariants({className: "bg-green-600 hover:bg-green-700"})}>
-              <Check className="mr-2 h-4 w-4"/> Concluir OS
+            <AlertDialogCancel onClick={() => setIsConclusionModalOpen(false)} disabled={isConcluding}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => { e.preventDefault(); handleConfirmConclusion(); }}
+              disabled={!technicalConclusionText.trim() || isSignatureIncomplete || isConcluding}
+              className={buttonVariants({className: "bg-green-600 hover:bg-green-700"})}
+            >
+              {isConcluding ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <Check className="mr-2 h-4 w-4"/>} Concluir OS
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -7,37 +7,11 @@ import type { FC } from 'react';
 import { useSearchParams } from "next/navigation";
 import { useQuery } from "@tanstack/react-query";
 import type { Budget, Customer, Maquina } from "@/types";
-import { db } from "@/lib/firebase";
-import { doc, getDoc } from "firebase/firestore";
+import { fetchBudgetById, fetchCustomerById, fetchMaquinaById, queryKeys } from "@/lib/repositories";
 import { Loader2 } from "lucide-react";
 import { toTitleCase } from "@/lib/utils"; // formatCurrency removed as it's no longer needed here
 
 
-const FIRESTORE_BUDGET_COLLECTION_NAME = "budgets";
-const FIRESTORE_CUSTOMER_COLLECTION_NAME = "clientes";
-const FIRESTORE_EQUIPMENT_COLLECTION_NAME = "equipamentos";
-
-
-async function fetchBudgetById(budgetId: string): Promise<Budget | null> {
-  if (!db || !budgetId) return null;
-  const docRef = doc(db, FIRESTORE_BUDGET_COLLECTION_NAME, budgetId);
-  const docSnap = await getDoc(docRef);
-  return docSnap.exists() ? ({ id: docSnap.id, ...docSnap.data() } as Budget) : null;
-}
-async function fetchCustomerById(customerId: string): Promise<Customer | null> {
-  if (!db || !customerId) return null;
-  const docRef = doc(db, FIRESTORE_CUSTOMER_COLLECTION_NAME, customerId);
-  const docSnap = await getDoc(docRef);
-  return docSnap.exists() ? ({ id: docSnap.id, ...docSnap.data() } as Customer) : null;
-}
-async function fetchEquipmentById(equipmentId: string): Promise<Maquina | null> {
-  if (!db || !equipmentId) return null;
-  const docRef = doc(db, FIRESTORE_EQUIPMENT_COLLECTION_NAME, equipmentId);
-  const docSnap = await getDoc(docRef);
-  return docSnap.exists() ? ({ id: docSnap.id, ...docSnap.data() } as Maquina) : null;
-}
-
-
 export const ServiceOrdersPageContent: FC = () => {
   const [isClient, setIsClient] = useState(false);
   const searchParams = useSearchParams();
@@ -46,7 +20,7 @@ export const ServiceOrdersPageContent: FC = () => {
   const budgetIdFromUrl = searchParams ? searchParams.get('fromBudgetId') : null;
 
   const { data: budgetToPrefill, isLoading: isLoadingBudget } = useQuery<Budget | null, Error>({
-    queryKey: [FIRESTORE_BUDGET_COLLECTION_NAME, budgetIdFromUrl],
+    queryKey: queryKeys.budgets.detail(budgetIdFromUrl),
     queryFn: () => budgetIdFromUrl ? fetchBudgetById(budgetIdFromUrl) : Promise.resolve(null),
     enabled: !!budgetIdFromUrl && action === 'create',
   });
@@ -55,14 +29,14 @@ export const ServiceOrdersPageContent: FC = () => {
   const equipmentIdForBudget = budgetToPrefill?.equipmentId;
 
   const { data: customerForBudget, isLoading: isLoadingCustomerForBudget } = useQuery<Customer | null, Error>({
-      queryKey: [FIRESTORE_CUSTOMER_COLLECTION_NAME, customerIdForBudget],
+      queryKey: queryKeys.customers.detail(customerIdForBudget),
       queryFn: () => customerIdForBudget ? fetchCustomerById(customerIdForBudget) : Promise.resolve(null),
       enabled: !!customerIdForBudget,
   });
 
   const { data: equipmentForBudget, isLoading: isLoadingEquipmentForBudget } = useQuery<Maquina | null, Error>({
-      queryKey: [FIRESTORE_EQUIPMENT_COLLECTION_NAME, equipmentIdForBudget],
-      queryFn: () => equipmentIdForBudget ? fetchEquipmentById(equipmentIdForBudget) : Promise.resolve(null),
+      queryKey: queryKeys.maquinas.detail(equipmentIdForBudget),
+      queryFn: () => equipmentIdForBudget ? fetchMaquinaById(equipmentIdForBudget) : Promise.resolve(null),
       enabled: !!equipmentIdForBudget,
   });
 
@@ -0,0 +1,61 @@
+"use client";
+
+import type { TripCostBreakdown } from "@/types";
+import { formatLaborHours } from "@/lib/labor-time";
+import { tollCategoryLabels } from "@/lib/tolls";
+import { formatCurrency } from "@/lib/utils";
+
+interface TripCostBreakdownSummaryProps {
+  breakdown: TripCostBreakdown;
+}
+
+export function TripCostBreakdownSummary({ breakdown }: TripCostBreakdownSummaryProps) {
+  const fuelDetail = breakdown.fuelConsumptionKmPerLiter && breakdown.fuelPricePerLiter
+    ? `${(breakdown.roundTripDistanceKm / breakdown.fuelConsumptionKmPerLiter).toFixed(1)} L × ${formatCurrency(breakdown.fuelPricePerLiter)}`
+    : "sem consumo ou abastecimento do veículo";
+  const trip = breakdown.routeShare ? "rateio do roteiro" : "ida e volta";
+  const lines = [
+    { label: "Combustível", detail: fuelDetail, value: breakdown.fuelCost },
+    {
+      label: "Pedágios",
+      detail: [breakdown.tollSource, breakdown.tollCategory ? `cat. ${breakdown.tollCategory}` : null, trip].filter(Boolean).join(", "),
+      value: breakdown.tollCost,
+    },
+    { label: "Desgaste do veículo", detail: `${breakdown.roundTripDistanceKm} km × ${formatCurrency(breakdown.wearCostPerKm)}`, value: breakdown.wearCost },
+    {
+      label: "Horas de deslocamento",
+      detail: `${formatLaborHours(breakdown.travelHours)} × ${breakdown.travelHourlyRate > 0 ? formatCurrency(breakdown.travelHourlyRate) : "sem valor hora"}`,
+      value: breakdown.travelLaborCost,
+    },
+  ];
+
+  return (
+    <div className="rounded-md border bg-muted/30 p-3 text-sm">
+      {lines.map(line => (
+        <div key={line.label} className="flex justify-between gap-2 py-0.5">
+          <span>{line.label} <span className="text-xs text-muted-foreground">({line.detail})</span></span>
+          <span className="font-medium">{formatCurrency(line.value)}</span>
+        </div>
+      ))}
+      {breakdown.tollPlazas && breakdown.tollPlazas.length > 0 && (
+        <ul className="ml-3 text-xs text-muted-foreground" title={breakdown.tollCategory ? tollCategoryLabels[breakdown.tollCategory] : undefined}>
+          {breakdown.tollPlazas.map(plaza => (
+            <li key={plaza.plazaId}>
+              {plaza.highway} - {plaza.name}: {plaza.passages} × {formatCurrency(plaza.tariff)}
+            </li>
+          ))}
+        </ul>
+      )}
+      {breakdown.routeShare && (
+        <p className="mt-1 text-xs text-muted-foreground">
+          {(breakdown.routeShare.share * 100).toLocaleString("pt-BR", { maximumFractionDigits: 1 })}% do roteiro do dia
+          ({breakdown.routeShare.stopCount} visitas, {formatCurrency(breakdown.routeShare.routeTotalCost)} no total)
+        </p>
+      )}
+      <div className="mt-1 flex justify-between border-t pt-1 font-semibold">
+        <span>Total {trip}</span>
+        <span>{formatCurrency(breakdown.totalCost)}</span>
+      </div>
+    </div>
+  );
+}
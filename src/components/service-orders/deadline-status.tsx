@@ -0,0 +1,38 @@
+import { isBefore, isToday, addDays, parseISO, isValid } from "date-fns";
+import { AlertTriangle } from "lucide-react";
+import type { ServiceOrderPhaseType } from "@/types";
+
+// Shared by the service order cards and the dispatch board.
+export type DeadlineStatus = 'overdue' | 'due_today' | 'due_soon' | 'none';
+
+export const getDeadlineStatusInfo = (
+  endDateString?: string | null,
+  phase?: ServiceOrderPhaseType
+): { status: DeadlineStatus; message?: string; icon?: JSX.Element; alertClass?: string } => {
+  if (typeof endDateString !== 'string' || endDateString.trim() === "" || phase === 'Concluída' || phase === 'Cancelada') {
+    return { status: 'none', alertClass: "" };
+  }
+
+  const parsedEndDate = parseISO(endDateString);
+  if (!isValid(parsedEndDate)) {
+    return { status: 'none', alertClass: "" };
+  }
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  const endDateNormalized = new Date(parsedEndDate.getFullYear(), parsedEndDate.getMonth(), parsedEndDate.getDate());
+  endDateNormalized.setHours(0,0,0,0);
+
+  if (isBefore(endDateNormalized, today) && !isToday(endDateNormalized)) {
+    return { status: 'overdue', message: 'Atrasada!', icon: <AlertTriangle className="h-5 w-5 text-destructive" />, alertClass: "bg-destructive/20 border-destructive/50" };
+  }
+  if (isToday(endDateNormalized)) {
+    return { status: 'due_today', message: 'Vence Hoje!', icon: <AlertTriangle className="h-5 w-5 text-accent" />, alertClass: "bg-accent/20 border-accent/50" };
+  }
+  const twoDaysFromNow = addDays(today, 2);
+  if (isBefore(endDateNormalized, twoDaysFromNow)) {
+     return { status: 'due_soon', message: 'Vence em Breve', icon: <AlertTriangle className="h-5 w-5 text-accent" />, alertClass: "bg-accent/20 border-accent/50" };
+  }
+  return { status: 'none', alertClass: "" };
+};
@@ -0,0 +1,198 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO, isValid } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { History, Loader2, AlertTriangle, PlusCircle, Pencil, Trash2, type LucideIcon } from "lucide-react";
+import type { AuditAction, AuditEntityType, AuditFieldChange, AuditLogEntry } from "@/types";
+import { db } from "@/lib/firebase";
+import { fetchAuditLog, queryKeys } from "@/lib/repositories";
+import { formatCurrency } from "@/lib/utils";
+
+const actionDisplay: Record<AuditAction, { label: string; icon: LucideIcon; color: string }> = {
+  create: { label: "Criado", icon: PlusCircle, color: "text-green-600" },
+  update: { label: "Alterado", icon: Pencil, color: "text-blue-600" },
+  delete: { label: "Excluído", icon: Trash2, color: "text-destructive" },
+};
+
+// Labels for the stored field names; unknown fields fall back to the raw name.
+const fieldLabels: Record<string, string> = {
+  name: "Nome", fantasyName: "Nome Fantasia", cnpj: "CNPJ", email: "E-mail", phone: "Telefone",
+  contactName: "Contato", cep: "CEP", street: "Rua", number: "Número", complement: "Complemento",
+  neighborhood: "Bairro", city: "Cidade", state: "UF", notes: "Observações", role: "Cargo",
+  brand: "Marca", model: "Modelo", chassisNumber: "Chassi", fleetNumber: "Nº Frota",
+  equipmentType: "Tipo de Máquina", manufactureYear: "Ano", operationalStatus: "Status Operacional",
+  customerId: "Cliente", ownerReference: "Propriedade", monthlyRentalValue: "Aluguel Mensal",
+  hourMeter: "Horímetro", imageUrls: "Imagens", linkedAuxiliaryEquipmentIds: "Equip. Auxiliares",
+  partsCatalogUrl: "Catálogo de Peças", errorCodesUrl: "Códigos de Erro",
+  orderNumber: "Nº OS", equipmentId: "Máquina", requesterName: "Solicitante", phase: "Fase",
+  technicianId: "Técnico", serviceType: "Tipo de Serviço", vehicleId: "Veículo",
+  startDate: "Data de Início", endDate: "Data de Conclusão", description: "Descrição",
+  mediaUrls: "Mídias", technicalConclusion: "Conclusão Técnica",
+  estimatedTravelDistanceKm: "Distância Estimada (km)", estimatedTollCosts: "Pedágios Estimados",
+  estimatedTravelCost: "Custo de Viagem Estimado", travelCostBreakdown: "Composição do Custo de Viagem", machineStatusBeforeOs: "Status da Máquina Antes da OS",
+  budgetNumber: "Nº Orçamento", serviceOrderId: "OS Vinculada", status: "Status", items: "Itens",
+  shippingCost: "Frete", subtotal: "Subtotal", totalAmount: "Valor Total", createdDate: "Data de Criação",
+  validUntilDate: "Validade", serviceOrderCreated: "OS Gerada",
+  revision: "Revisão", sentRevision: "Revisão Enviada", approvedRevision: "Revisão Aprovada",
+  approvalLinkId: "Link de Aprovação", customerResponse: "Resposta do Cliente", customerResponseHandled: "Resposta Processada",
+  discount: "Desconto", taxRates: "Alíquotas", issRate: "ISS (%)", icmsRate: "ICMS (%)", ipiRate: "IPI (%)",
+  requisitionNumber: "Nº Requisição", technicianName: "Técnico", generalNotes: "Observações Gerais",
+  partName: "Peça", quantity: "Quantidade", unitPrice: "Preço Unitário", totalPrice: "Preço Total",
+  triageNotes: "Notas da Triagem", warehouseNotes: "Notas do Almoxarifado", estimatedCost: "Custo Estimado",
+  imageUrl: "Imagem", licensePlate: "Placa", kind: "Tipo", currentMileage: "Quilometragem",
+  fuelConsumption: "Consumo", costPerKilometer: "Desgaste por km", fuelingHistory: "Abastecimentos",
+  maintenanceHistory: "Manutenções", serialNumber: "Nº de Série", type: "Tipo",
+  linkedEquipmentId: "Máquina Vinculada", bankName: "Banco", bankAgency: "Agência",
+  bankAccount: "Conta", bankPixKey: "Chave PIX",
+  contractNumber: "Nº Contrato", companyId: "Empresa", equipmentIds: "Máquinas",
+  auxiliaryEquipmentIds: "Equip. Auxiliares", monthlyValue: "Valor Mensal", depositValue: "Caução",
+  readjustmentIndex: "Índice de Reajuste",
+  invoiceNumber: "Nº Fatura", contractId: "Contrato", referenceMonth: "Mês de Referência",
+  periodStart: "Início do Período", periodEnd: "Fim do Período", issueDate: "Emissão",
+  dueDate: "Vencimento", paidDate: "Data de Pagamento",
+  bankCode: "Banco Emissor", boletoWallet: "Carteira", boletoAgreement: "Convênio",
+  wallet: "Carteira", beneficiaryCode: "Código do Beneficiário", ourNumber: "Nosso Número",
+  bankOurNumber: "Nosso Número (Banco)", sourceType: "Origem", sourceId: "Documento",
+  sourceNumber: "Nº Documento", amount: "Valor", barcode: "Código de Barras",
+  digitableLine: "Linha Digitável", remittanceId: "Remessa", paidAmount: "Valor Pago",
+  remittanceNumber: "Nº Remessa", layout: "Layout CNAB", boletoIds: "Boletos", fileName: "Arquivo",
+  hours: "Horímetro", readingDate: "Data da Leitura", source: "Origem", recordedByName: "Registrado por",
+  intervalHours: "Intervalo (h)", warningHours: "Aviso (h)", tasks: "Serviços", active: "Ativo",
+  preventiveMaintenanceHours: "Preventivas Realizadas", maintenancePlanIds: "Planos de Manutenção",
+  maintenanceDueHours: "Horímetro da Preventiva",
+  checkIn: "Entrada", checkOut: "Saída", hourlyRate: "Valor Hora",
+  customerSignature: "Assinatura do Cliente", signerName: "Assinado por", signerDocument: "Documento",
+  signedAt: "Data da Assinatura",
+  coordinates: "Coordenadas", highway: "Rodovia", latitude: "Latitude", longitude: "Longitude", oneWay: "Sentido Único", tariffs: "Tarifas",
+  templateName: "Checklist", templateId: "Modelo de Checklist", updatedByName: "Atualizado por",
+  visitWindowStart: "Início da Janela", visitWindowEnd: "Fim da Janela", dailyRouteId: "Roteiro do Dia",
+  date: "Data", startTime: "Saída", serviceMinutes: "Tempo por Visita (min)", stops: "Visitas",
+  returnDistanceKm: "Distância de Retorno (km)", returnTime: "Retorno", totalDistanceKm: "Distância Total (km)",
+  totalTollCost: "Pedágios", costBreakdown: "Custo do Roteiro",
+  code: "Código", category: "Categoria", compatibleBrands: "Marcas Compatíveis", compatibleModels: "Modelos Compatíveis",
+  costPrice: "Custo", salePrice: "Preço de Venda", pricing: "Cobrança",
+  catalogItemId: "Item do Catálogo", unitCost: "Custo Unitário", partCode: "Código da Peça",
+  sentDate: "Data de Envio", decisionDate: "Data da Decisão", refusalReason: "Motivo da Recusa",
+  lastFollowUpDate: "Último Contato", followUpCount: "Contatos de Acompanhamento", budgetFollowUpDays: "Retorno de Orçamentos (dias)",
+};
+
+const currencyFields = new Set([
+  "monthlyRentalValue", "estimatedTollCosts", "estimatedTravelCost", "shippingCost", "subtotal",
+  "totalAmount", "unitPrice", "totalPrice", "estimatedCost", "costPerKilometer",
+  "monthlyValue", "depositValue", "amount", "paidAmount", "hourlyRate", "totalTollCost",
+  "costPrice", "salePrice", "unitCost",
+]);
+
+const getFieldLabel = (change: AuditFieldChange): string => {
+  const [field, subField] = change.field.split(".");
+  const label = fieldLabels[field] || field;
+  if (!change.itemId) return label;
+  const itemPart = change.itemLabel ? `${label} › ${change.itemLabel}` : label;
+  return subField ? `${itemPart} › ${fieldLabels[subField] || subField}` : itemPart;
+};
+
+const formatAuditValue = (field: string, value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  const leafField = field.split(".").pop() || field;
+  if (typeof value === "number" && currencyFields.has(leafField)) return formatCurrency(value);
+  if (typeof value === "boolean") return value ? "Sim" : "Não";
+  if (typeof value === "string") {
+    if (/^\d{4}-\d{2}-\d{2}T/.test(value) && isValid(parseISO(value))) {
+      return format(parseISO(value), "dd/MM/yyyy", { locale: ptBR });
+    }
+    return value.length > 120 ? `${value.slice(0, 117)}...` : value;
+  }
+  if (Array.isArray(value)) return value.length === 0 ? "—" : `${value.length} item(ns)`;
+  if (typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const label = record.partName ?? record.description ?? record.signerName ?? record.label;
+    return typeof label === "string" ? label : "Registro";
+  }
+  return String(value);
+};
+
+const formatTimestamp = (timestamp: string): string => {
+  const date = parseISO(timestamp);
+  return isValid(date) ? format(date, "dd/MM/yyyy 'às' HH:mm", { locale: ptBR }) : "Data pendente";
+};
+
+interface AuditHistoryTimelineProps {
+  entityType: AuditEntityType;
+  entityId: string;
+}
+
+export function AuditHistoryTimeline({ entityType, entityId }: AuditHistoryTimelineProps) {
+  const { data: entries = [], isLoading, isError, error } = useQuery<AuditLogEntry[], Error>({
+    queryKey: queryKeys.auditLog.entity(entityType, entityId),
+    queryFn: () => fetchAuditLog(entityType, entityId),
+    enabled: !!db && !!entityId,
+    staleTime: 0, // Every mutation appends to the history, so always refetch when the tab opens.
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-muted-foreground">
+        <Loader2 className="mr-2 h-5 w-5 animate-spin" /> Carregando histórico...
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="flex items-center py-8 text-destructive">
+        <AlertTriangle className="mr-2 h-5 w-5" /> Erro ao carregar histórico: {error?.message}
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="flex flex-col items-center py-8 text-muted-foreground">
+        <History className="h-8 w-8 mb-2" />
+        <p className="text-sm">Nenhuma alteração registrada.</p>
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-3 space-y-6 py-2">
+      {entries.map(entry => {
+        const { label, icon: ActionIcon, color } = actionDisplay[entry.action] ?? actionDisplay.update;
+        // Create/delete entries list every field; only the changed values matter for updates.
+        const changes = entry.action === "update" ? entry.changes : [];
+        return (
+          <li key={entry.id} className="ml-6">
+            <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-card ring-2 ring-border">
+              <ActionIcon className={`h-3.5 w-3.5 ${color}`} />
+            </span>
+            <p className="text-sm font-semibold">
+              <span className={color}>{label}</span> por {entry.actorName || "Usuário desconhecido"}
+            </p>
+            <p className="text-xs text-muted-foreground">{formatTimestamp(entry.timestamp)}</p>
+            {changes.length > 0 && (
+              <ul className="mt-2 space-y-1 text-xs">
+                {changes.map((change, index) => (
+                  <li key={`${entry.id}-${index}`} className="break-words">
+                    <span className="font-medium">{getFieldLabel(change)}:</span>{" "}
+                    {change.itemId && change.before === null ? (
+                      <span className="text-green-700">adicionado</span>
+                    ) : change.itemId && change.after === null ? (
+                      <span className="text-destructive">removido</span>
+                    ) : (
+                      <>
+                        <span className="text-muted-foreground line-through">{formatAuditValue(change.field, change.before)}</span>
+                        {" → "}
+                        <span>{formatAuditValue(change.field, change.after)}</span>
+                      </>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
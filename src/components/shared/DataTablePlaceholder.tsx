@@ -6,8 +6,8 @@ interface DataTablePlaceholderProps {
   icon: LucideIcon;
   title: string;
   description: string;
-  buttonLabel: string;
-  onButtonClick: () => void;
+  buttonLabel?: string;
+  onButtonClick?: () => void;
 }
 
 export function DataTablePlaceholder({
@@ -26,11 +26,13 @@ export function DataTablePlaceholder({
         <CardTitle className="mt-4 font-headline">{title}</CardTitle>
         <CardDescription>{description}</CardDescription>
       </CardHeader>
-      <CardContent className="text-center">
-        <Button onClick={onButtonClick} className="bg-accent hover:bg-accent/90 text-accent-foreground">
-          {buttonLabel}
-        </Button>
-      </CardContent>
+      {buttonLabel && onButtonClick && (
+        <CardContent className="text-center">
+          <Button onClick={onButtonClick} className="bg-accent hover:bg-accent/90 text-accent-foreground">
+            {buttonLabel}
+          </Button>
+        </CardContent>
+      )}
     </Card>
   );
 }
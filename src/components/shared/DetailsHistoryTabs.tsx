@@ -0,0 +1,33 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { AuditEntityType } from "@/types";
+import { AuditHistoryTimeline } from "@/components/shared/AuditHistoryTimeline";
+
+interface DetailsHistoryTabsProps {
+  entityType: AuditEntityType;
+  // Null while creating a new record: there is no history yet, so only the form is shown.
+  entityId?: string | null;
+  children: ReactNode;
+}
+
+export function DetailsHistoryTabs({ entityType, entityId, children }: DetailsHistoryTabsProps) {
+  if (!entityId) return <>{children}</>;
+
+  return (
+    <Tabs defaultValue="details" className="w-full">
+      <TabsList className="mb-4 grid w-full grid-cols-2">
+        <TabsTrigger value="details">Detalhes</TabsTrigger>
+        <TabsTrigger value="history">Histórico</TabsTrigger>
+      </TabsList>
+      {/* Kept mounted so the modal's submit button still finds the form by id. */}
+      <TabsContent value="details" forceMount className="data-[state=inactive]:hidden">
+        {children}
+      </TabsContent>
+      <TabsContent value="history">
+        <AuditHistoryTimeline entityType={entityType} entityId={entityId} />
+      </TabsContent>
+    </Tabs>
+  );
+}
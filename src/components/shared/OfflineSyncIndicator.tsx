@@ -0,0 +1,38 @@
+"use client";
+
+import Link from "next/link";
+import { CloudOff, RefreshCw, AlertTriangle } from "lucide-react";
+import { buttonVariants } from "@/components/ui/button";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import { cn } from "@/lib/utils";
+
+// Header badge for the field mode queue. Mounted once in AppLayout, it is
+// also what replays queued work when the connection returns.
+export function OfflineSyncIndicator() {
+  const { isOnline, isSyncing, pendingCount, failedOperations } = useOfflineQueue({ autoSync: true });
+
+  if (isOnline && pendingCount === 0 && failedOperations.length === 0) return null;
+
+  const label = failedOperations.length > 0
+    ? `${failedOperations.length} envio(s) com erro`
+    : !isOnline
+      ? (pendingCount > 0 ? `Offline - ${pendingCount} pendente(s)` : "Offline")
+      : `Sincronizando ${pendingCount}`;
+
+  return (
+    <Link
+      href="/field"
+      title="Abrir Minhas OS"
+      className={cn(
+        buttonVariants({ variant: "outline", size: "sm" }),
+        "gap-1 text-xs",
+        failedOperations.length > 0 ? "border-destructive text-destructive" : !isOnline && "border-amber-500 text-amber-600"
+      )}
+    >
+      {failedOperations.length > 0 ? <AlertTriangle className="h-4 w-4" />
+        : !isOnline ? <CloudOff className="h-4 w-4" />
+        : <RefreshCw className={cn("h-4 w-4", isSyncing && "animate-spin")} />}
+      <span className="hidden sm:inline">{label}</span>
+    </Link>
+  );
+}
@@ -0,0 +1,16 @@
+"use client";
+
+import { useEffect } from "react";
+
+// Registers public/sw.js, which keeps the field mode usable offline. Left out
+// in development so `next dev` is never served stale chunks.
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    navigator.serviceWorker.register("/sw.js").catch(error => {
+      console.error("ServiceWorkerRegistration: registration failed:", error);
+    });
+  }, []);
+
+  return null;
+}
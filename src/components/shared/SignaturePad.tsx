@@ -0,0 +1,120 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { PointerEvent as ReactPointerEvent } from "react";
+import { Eraser } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface SignaturePadProps {
+  // PNG data URL of the drawing, or null when the pad is empty.
+  onChange: (dataUrl: string | null) => void;
+  className?: string;
+}
+
+// Drawn with pointer events, so finger, stylus and mouse behave the same.
+// `touch-action: none` keeps the page from scrolling while the customer signs.
+export function SignaturePad({ onChange, className }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [isEmpty, setIsEmpty] = useState(true);
+
+  // The backing store follows the displayed size and pixel ratio, or strokes
+  // come out blurry and offset on phones. The on-screen keyboard and the URL
+  // bar fire resizes without changing the pad, so those are skipped; a real
+  // resize keeps what was drawn, and the signature already reported stays.
+  const resizeCanvas = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    const width = Math.round(canvas.offsetWidth * ratio);
+    const height = Math.round(canvas.offsetHeight * ratio);
+    if (canvas.width === width && canvas.height === height) return;
+
+    // Drawing from an empty (hidden) canvas throws, so there is nothing to keep.
+    const drawing = canvas.width > 0 && canvas.height > 0 ? document.createElement("canvas") : null;
+    if (drawing) {
+      drawing.width = canvas.width;
+      drawing.height = canvas.height;
+      drawing.getContext("2d")?.drawImage(canvas, 0, 0);
+    }
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext("2d");
+    if (!context) return;
+    if (drawing) context.drawImage(drawing, 0, 0);
+    context.scale(ratio, ratio);
+    context.lineWidth = 2;
+    context.lineCap = "round";
+    context.lineJoin = "round";
+    context.strokeStyle = "#111827";
+  }, []);
+
+  useEffect(() => {
+    resizeCanvas();
+    window.addEventListener("resize", resizeCanvas);
+    return () => window.removeEventListener("resize", resizeCanvas);
+  }, [resizeCanvas]);
+
+  const getPoint = (event: ReactPointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: ReactPointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    lastPointRef.current = getPoint(event);
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext("2d");
+    const lastPoint = lastPointRef.current;
+    if (!context || !lastPoint) return;
+    const point = getPoint(event);
+    context.beginPath();
+    context.moveTo(lastPoint.x, lastPoint.y);
+    context.lineTo(point.x, point.y);
+    context.stroke();
+    lastPointRef.current = point;
+    if (isEmpty) setIsEmpty(false);
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPointRef.current) return;
+    lastPointRef.current = null;
+    if (!isEmpty && canvasRef.current) onChange(canvasRef.current.toDataURL("image/png"));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    setIsEmpty(true);
+    onChange(null);
+  };
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <div className="relative rounded-md border bg-white">
+        <canvas
+          ref={canvasRef}
+          className="block h-40 w-full touch-none cursor-crosshair"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          aria-label="Área de assinatura"
+        />
+        {isEmpty && (
+          <span className="pointer-events-none absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+            Assine aqui
+          </span>
+        )}
+      </div>
+      <div className="flex justify-end">
+        <Button type="button" variant="ghost" size="sm" onClick={handleClear} disabled={isEmpty}>
+          <Eraser className="mr-1 h-4 w-4" /> Limpar
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import { useState, useEffect } from "react";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import type * as z from "zod";
-import { PlusCircle, HardHat, UserCircle, Wrench, Loader2, AlertTriangle, Phone, Briefcase, UploadCloud, XCircle, Image as ImageIconLucide } from "lucide-react";
+import { PlusCircle, HardHat, UserCircle, Wrench, Loader2, AlertTriangle, Phone, Briefcase, UploadCloud, XCircle, Image as ImageIconLucide, Mail } from "lucide-react";
 import Image from "next/image"; // For Next.js optimized images
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
@@ -19,23 +19,12 @@ import { DataTablePlaceholder } from "@/components/shared/DataTablePlaceholder";
 import { FormModal } from "@/components/shared/FormModal";
 import { useToast } from "@/hooks/use-toast";
 import { db, storage } from "@/lib/firebase"; // Import storage
-import { collection, getDocs, addDoc, updateDoc, deleteDoc, doc, query, orderBy } from "firebase/firestore";
+import { fetchTechnicians, newTechnicianId, createTechnician, updateTechnician, deleteTechnician, queryKeys } from "@/lib/repositories";
 import { ref as storageRef, uploadBytes, getDownloadURL, deleteObject } from "firebase/storage"; // Storage functions
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { getWhatsAppNumber, formatPhoneNumberForInputDisplay } from "@/lib/utils";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"; // For preview
-
-const FIRESTORE_COLLECTION_NAME = "tecnicos";
-
-async function fetchTechnicians(): Promise<Technician[]> {
-  if (!db) {
-    console.error("fetchTechnicians: Firebase DB is not available.");
-    throw new Error("Firebase DB is not available");
-  }
-  const q = query(collection(db!, FIRESTORE_COLLECTION_NAME), orderBy("name", "asc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Technician));
-}
+import { useAuth } from "@/components/auth/AuthProvider";
 
 async function uploadProfileImage(file: File, technicianId: string): Promise<string> {
   if (!storage) {
@@ -70,6 +59,8 @@ async function deleteProfileImage(imageUrl?: string | null) {
 export function TechnicianClientPage() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canManage = can("technicians:manage");
 
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingTechnician, setEditingTechnician] = useState<Technician | null>(null);
@@ -81,11 +72,11 @@ export function TechnicianClientPage() {
 
   const form = useForm<z.infer<typeof TechnicianSchema>>({
     resolver: zodResolver(TechnicianSchema),
-    defaultValues: { name: "", role: "", specialization: "", phone: "", imageUrl: null },
+    defaultValues: { name: "", role: "", specialization: "", phone: "", imageUrl: null, email: "" },
   });
 
   const { data: technicians = [], isLoading, isError, error } = useQuery<Technician[], Error>({
-    queryKey: [FIRESTORE_COLLECTION_NAME],
+    queryKey: queryKeys.technicians.all,
     queryFn: fetchTechnicians,
     enabled: !!db,
   });
@@ -108,12 +99,12 @@ export function TechnicianClientPage() {
     mutationFn: async (data: { technicianData: z.infer<typeof TechnicianSchema>; imageFile: File | null }) => {
       if (!db) throw new Error("Conexão com Firebase não disponível para adicionar colaborador.");
       let imageUrl: string | null = null;
-      const newTechnicianId = doc(collection(db!, FIRESTORE_COLLECTION_NAME)).id; // Generate ID beforehand
+      const technicianId = newTechnicianId(); // Generate ID beforehand so the image path matches the document
 
       if (data.imageFile) {
         setIsUploadingImage(true);
         try {
-          imageUrl = await uploadProfileImage(data.imageFile, newTechnicianId);
+          imageUrl = await uploadProfileImage(data.imageFile, technicianId);
         } catch (uploadError: any) {
           setIsUploadingImage(false);
           toast({ title: "Erro no Upload da Imagem", description: uploadError.message, variant: "destructive" });
@@ -122,11 +113,11 @@ export function TechnicianClientPage() {
         setIsUploadingImage(false);
       }
       const dataToSave = { ...data.technicianData, imageUrl };
-      await addDoc(collection(db!, FIRESTORE_COLLECTION_NAME), dataToSave); // Use addDoc with pre-generated ID if needed, or let Firestore generate
-      return { ...dataToSave, id: newTechnicianId }; // Return with ID
+      await createTechnician(dataToSave, technicianId);
+      return { ...dataToSave, id: technicianId };
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.technicians.all });
       toast({ title: "Colaborador Adicionado", description: `${data.name} foi adicionado.` });
       closeModal();
     },
@@ -167,12 +158,11 @@ export function TechnicianClientPage() {
       setIsUploadingImage(false);
 
       const dataToUpdate = { ...currentData, ...form.getValues(), imageUrl: finalImageUrl };
-      const techRef = doc(db!, FIRESTORE_COLLECTION_NAME, id);
-      await updateDoc(techRef, dataToUpdate);
+      await updateTechnician(id, dataToUpdate);
       return { ...dataToUpdate, id };
     },
     onSuccess: (_, variables) => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.technicians.all });
       toast({ title: "Colaborador Atualizado", description: `${variables.technicianData.name} foi atualizado.` });
       closeModal();
     },
@@ -189,10 +179,10 @@ export function TechnicianClientPage() {
       if (technician.imageUrl) {
         await deleteProfileImage(technician.imageUrl);
       }
-      return deleteDoc(doc(db!, FIRESTORE_COLLECTION_NAME, technician.id));
+      return deleteTechnician(technician.id);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.technicians.all });
       toast({ title: "Colaborador Excluído", description: `O colaborador foi removido.` });
       closeModal();
     },
@@ -210,12 +200,13 @@ export function TechnicianClientPage() {
         ...technician,
         phone: technician.phone ? formatPhoneNumberForInputDisplay(technician.phone) : "",
         imageUrl: technician.imageUrl || null,
+        email: technician.email || "",
       });
       setImagePreview(technician.imageUrl || null);
       setIsEditMode(false);
     } else {
       setEditingTechnician(null);
-      form.reset({ name: "", role: "", specialization: "", phone: "", imageUrl: null });
+      form.reset({ name: "", role: "", specialization: "", phone: "", imageUrl: null, email: "" });
       setImagePreview(null);
       setIsEditMode(true);
     }
@@ -307,11 +298,11 @@ export function TechnicianClientPage() {
     <>
       <PageHeader
         title=""
-        actions={
+        actions={canManage ? (
           <Button onClick={() => openModal()} className="bg-primary hover:bg-primary/90" disabled={isMutating || deleteTechnicianMutation.isPending}>
             <PlusCircle className="mr-2 h-4 w-4" /> Adicionar Colaborador
           </Button>
-        }
+        ) : undefined}
       />
       <p className="text-muted-foreground text-sm mb-6 -mt-4">
         Cadastro e gerenciamento dos dados dos técnicos e outros colaboradores da empresa. Permite registrar nome, cargo, especialização (para técnicos) e informações de contato.
@@ -322,8 +313,8 @@ export function TechnicianClientPage() {
           icon={HardHat}
           title="Nenhum Colaborador Cadastrado"
           description="Adicione seu primeiro colaborador ao cadastro."
-          buttonLabel="Adicionar Colaborador"
-          onButtonClick={() => openModal()}
+          buttonLabel={canManage ? "Adicionar Colaborador" : undefined}
+          onButtonClick={canManage ? () => openModal() : undefined}
         />
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -364,6 +355,13 @@ export function TechnicianClientPage() {
                       <span>{tech.specialization}</span>
                     </p>
                   )}
+                  {tech.email && (
+                    <p className="flex items-center text-sm">
+                      <Mail className="mr-2 h-4 w-4 text-primary" />
+                      <span className="font-medium text-muted-foreground mr-1">Acesso:</span>
+                      <span>{tech.email}</span>
+                    </p>
+                  )}
                   {tech.phone && (
                     <p className="flex items-center text-sm">
                       <Phone className="mr-2 h-4 w-4 text-primary" />
@@ -397,10 +395,10 @@ export function TechnicianClientPage() {
         formId="technician-form"
         isSubmitting={isMutating}
         editingItem={editingTechnician}
-        onDeleteConfirm={handleModalDeleteConfirm}
+        onDeleteConfirm={canManage ? handleModalDeleteConfirm : undefined}
         isDeleting={deleteTechnicianMutation.isPending}
         isEditMode={isEditMode}
-        onEditModeToggle={() => setIsEditMode(true)}
+        onEditModeToggle={canManage ? () => setIsEditMode(true) : undefined}
         deleteButtonLabel="Excluir Colaborador"
       >
         <Form {...form}>
@@ -471,6 +469,14 @@ export function TechnicianClientPage() {
               <FormField control={form.control} name="specialization" render={({ field }) => (
                 <FormItem><FormLabel>Especialização (Opcional)</FormLabel><FormControl><Input placeholder="ex: Hidráulica, Elétrica (para técnicos)" {...field} value={field.value ?? ""} /></FormControl><FormMessage /></FormItem>
               )} />
+              <FormField control={form.control} name="email" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>E-mail de Acesso (Opcional)</FormLabel>
+                  <FormControl><Input type="email" placeholder="nome@goldmaq.com.br" {...field} value={field.value ?? ""} /></FormControl>
+                  <FormDescription>O colaborador entra no sistema com este e-mail; as permissões seguem o cargo.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )} />
               <FormField control={form.control} name="phone" render={({ field }) => (
                 <FormItem>
                   <FormLabel>Telefone/WhatsApp (Opcional)</FormLabel>
@@ -0,0 +1,384 @@
+"use client";
+
+import { useState, useMemo, useCallback } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import type * as z from "zod";
+import { PlusCircle, Milestone, Loader2, Search, Upload, FileDown } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
+import type { TollPlaza } from "@/types";
+import { TollPlazaSchema, tollCategoryOptions } from "@/types";
+import { PageHeader } from "@/components/shared/PageHeader";
+import { DataTablePlaceholder } from "@/components/shared/DataTablePlaceholder";
+import { FormModal } from "@/components/shared/FormModal";
+import { DetailsHistoryTabs } from "@/components/shared/DetailsHistoryTabs";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { db } from "@/lib/firebase";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  fetchTollPlazas, createTollPlaza, updateTollPlaza, deleteTollPlaza, importTollPlazas, queryKeys,
+} from "@/lib/repositories";
+import { parseTollPlazaCsv, tollCategoryLabels, tollPlazasToCsv } from "@/lib/tolls";
+import { formatCurrency } from "@/lib/utils";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+type TollPlazaFormValues = z.infer<typeof TollPlazaSchema>;
+
+const emptyFormValues = (): TollPlazaFormValues => ({
+  name: "",
+  highway: "",
+  latitude: 0,
+  longitude: 0,
+  oneWay: false,
+  tariffs: {},
+});
+
+// Lines with errors block the whole import, so a half-read file never
+// overwrites the table.
+const MAX_IMPORT_ERRORS_SHOWN = 5;
+
+const downloadCsvFile = (fileName: string, content: string) => {
+  // BOM so Excel opens the accents correctly.
+  const blob = new Blob(["\uFEFF" + content], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export function TollPlazasClientPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canManagePlazas = can("vehicles:manage");
+
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingPlaza, setEditingPlaza] = useState<TollPlaza | null>(null);
+  const [isEditMode, setIsEditMode] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+
+  const form = useForm<TollPlazaFormValues>({
+    resolver: zodResolver(TollPlazaSchema),
+    defaultValues: emptyFormValues(),
+  });
+
+  const { data: plazas = [], isLoading, isError, error } = useQuery<TollPlaza[], Error>({
+    queryKey: queryKeys.tollPlazas.all,
+    queryFn: fetchTollPlazas,
+    enabled: !!db,
+  });
+
+  const filteredPlazas = useMemo(() => {
+    const lowerSearchTerm = searchTerm.trim().toLowerCase();
+    if (!lowerSearchTerm) return plazas;
+    return plazas.filter(plaza =>
+      plaza.name.toLowerCase().includes(lowerSearchTerm) || plaza.highway.toLowerCase().includes(lowerSearchTerm)
+    );
+  }, [plazas, searchTerm]);
+
+  const addPlazaMutation = useMutation({
+    mutationFn: async (data: TollPlazaFormValues) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      await createTollPlaza(data);
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tollPlazas.all });
+      toast({ title: "Praça Cadastrada", description: `Praça "${data.name}" foi cadastrada.` });
+      closeModal();
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Cadastrar", description: `Não foi possível cadastrar a praça. Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const updatePlazaMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: TollPlazaFormValues }) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      await updateTollPlaza(id, data);
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tollPlazas.all });
+      toast({ title: "Praça Atualizada", description: `Praça "${data.name}" foi atualizada.` });
+      closeModal();
+    },
+    onError: (err: Error, variables) => {
+      toast({ title: "Erro ao Atualizar", description: `Não foi possível atualizar a praça "${variables.data.name}". Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const deletePlazaMutation = useMutation({
+    mutationFn: async (plazaId: string) => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      return deleteTollPlaza(plazaId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tollPlazas.all });
+      toast({ title: "Praça Excluída" });
+      closeModal();
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Excluir", description: `Detalhes: ${err.message}`, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      if (!db) throw new Error("Conexão com Firebase não disponível.");
+      if (!importFile) throw new Error("Selecione o arquivo CSV.");
+      const { plazas: parsedPlazas, errors } = parseTollPlazaCsv(await importFile.text());
+      if (errors.length > 0) {
+        const more = errors.length > MAX_IMPORT_ERRORS_SHOWN ? ` (e mais ${errors.length - MAX_IMPORT_ERRORS_SHOWN})` : "";
+        throw new Error(errors.slice(0, MAX_IMPORT_ERRORS_SHOWN).join(" ") + more);
+      }
+      if (parsedPlazas.length === 0) throw new Error("O arquivo não tem nenhuma praça.");
+      return importTollPlazas(parsedPlazas);
+    },
+    onSuccess: ({ created, updated }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tollPlazas.all });
+      toast({ title: "Praças Importadas", description: `${created} praça(s) cadastrada(s) e ${updated} atualizada(s).` });
+      setIsImportOpen(false);
+      setImportFile(null);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao Importar", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const openModal = useCallback((plaza?: TollPlaza) => {
+    if (plaza) {
+      setEditingPlaza(plaza);
+      setIsEditMode(false);
+      form.reset({ name: plaza.name, highway: plaza.highway, latitude: plaza.latitude, longitude: plaza.longitude, oneWay: plaza.oneWay, tariffs: plaza.tariffs });
+    } else {
+      setEditingPlaza(null);
+      setIsEditMode(true);
+      form.reset(emptyFormValues());
+    }
+    setIsModalOpen(true);
+  }, [form]);
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingPlaza(null);
+    setIsEditMode(false);
+    form.reset(emptyFormValues());
+  };
+
+  const onSubmit = (values: TollPlazaFormValues) => {
+    if (editingPlaza) {
+      updatePlazaMutation.mutate({ id: editingPlaza.id, data: values });
+    } else {
+      addPlazaMutation.mutate(values);
+    }
+  };
+
+  const handleModalDeleteConfirm = () => {
+    if (editingPlaza && window.confirm(`Tem certeza que deseja excluir a praça "${editingPlaza.name}"? Os custos já calculados nas OS são mantidos.`)) {
+      deletePlazaMutation.mutate(editingPlaza.id);
+    }
+  };
+
+  const isMutating = addPlazaMutation.isPending || updatePlazaMutation.isPending || deletePlazaMutation.isPending || importMutation.isPending;
+  const isFormDisabled = !!editingPlaza && !isEditMode;
+
+  if (!db) {
+    return <div className="text-red-500 p-4">Erro: Conexão com Firebase não disponível.</div>;
+  }
+  if (isLoading && !isModalOpen) {
+    return <div className="flex justify-center items-center h-64"><Loader2 className="h-8 w-8 animate-spin text-primary" /><p className="ml-2">Carregando praças de pedágio...</p></div>;
+  }
+  if (isError) {
+    return <div className="text-red-500 p-4">Erro ao carregar praças de pedágio: {error?.message}</div>;
+  }
+
+  return (
+    <>
+      <PageHeader
+        title=""
+        actions={
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => downloadCsvFile("pracas-pedagio.csv", tollPlazasToCsv(plazas))} disabled={plazas.length === 0}>
+              <FileDown className="mr-2 h-4 w-4" /> Exportar CSV
+            </Button>
+            {canManagePlazas && (
+              <>
+                <Button variant="outline" onClick={() => setIsImportOpen(true)} disabled={isMutating}>
+                  <Upload className="mr-2 h-4 w-4" /> Importar CSV
+                </Button>
+                <Button onClick={() => openModal()} className="bg-primary hover:bg-primary/90" disabled={isMutating}>
+                  <PlusCircle className="mr-2 h-4 w-4" /> Nova Praça
+                </Button>
+              </>
+            )}
+          </div>
+        }
+      />
+      <p className="text-muted-foreground text-sm mb-6 -mt-4">
+        Praças de pedágio e tarifas por categoria de veículo. O pedágio das OS soma as praças por onde passa a rota calculada, na categoria do veículo escolhido.
+      </p>
+
+      {plazas.length === 0 ? (
+        <DataTablePlaceholder
+          icon={Milestone}
+          title="Nenhuma Praça Cadastrada"
+          description="Cadastre ou importe as praças das rodovias atendidas. Sem elas, o pedágio das OS fica na estimativa da IA."
+          buttonLabel={canManagePlazas ? "Nova Praça" : undefined}
+          onButtonClick={canManagePlazas ? () => openModal() : undefined}
+        />
+      ) : (
+        <>
+          <div className="relative mb-4 max-w-sm">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input placeholder="Buscar por praça ou rodovia..." value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} className="pl-8" />
+          </div>
+          <Card>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rodovia</TableHead>
+                    <TableHead>Praça</TableHead>
+                    <TableHead>Cobrança</TableHead>
+                    {tollCategoryOptions.map(category => (
+                      <TableHead key={category} className="text-right" title={tollCategoryLabels[category]}>Cat. {category}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredPlazas.map(plaza => (
+                    <TableRow key={plaza.id} onClick={() => openModal(plaza)} className="cursor-pointer">
+                      <TableCell className="font-medium">{plaza.highway}</TableCell>
+                      <TableCell>{plaza.name}</TableCell>
+                      <TableCell>{plaza.oneWay ? "Sentido único" : "Ambos os sentidos"}</TableCell>
+                      {tollCategoryOptions.map(category => (
+                        <TableCell key={category} className="text-right">
+                          {typeof plaza.tariffs[category] === "number" ? formatCurrency(plaza.tariffs[category]) : "-"}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <FormModal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        title={editingPlaza ? "Editar Praça de Pedágio" : "Nova Praça de Pedágio"}
+        description="Localização da praça e tarifa de cada categoria."
+        formId="toll-plaza-form"
+        isSubmitting={isMutating}
+        editingItem={editingPlaza}
+        onDeleteConfirm={canManagePlazas ? handleModalDeleteConfirm : undefined}
+        isDeleting={deletePlazaMutation.isPending}
+        deleteButtonLabel="Excluir Praça"
+        isEditMode={isEditMode}
+        onEditModeToggle={canManagePlazas ? () => setIsEditMode(true) : undefined}
+        submitButtonLabel={editingPlaza && !isEditMode ? "Editar" : (editingPlaza ? "Salvar Alterações" : "Cadastrar Praça")}
+      >
+        <DetailsHistoryTabs entityType="tollPlaza" entityId={editingPlaza?.id}>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} id="toll-plaza-form" className="space-y-4">
+              <fieldset disabled={isFormDisabled} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField control={form.control} name="name" render={({ field }) => (
+                    <FormItem><FormLabel>Nome da Praça</FormLabel><FormControl><Input placeholder="Ex: Praça de Itupeva" {...field} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                  <FormField control={form.control} name="highway" render={({ field }) => (
+                    <FormItem><FormLabel>Rodovia</FormLabel><FormControl><Input placeholder="Ex: SP-348" {...field} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                  <FormField control={form.control} name="latitude" render={({ field }) => (
+                    <FormItem><FormLabel>Latitude</FormLabel><FormControl><Input type="number" step="any" {...field} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                  <FormField control={form.control} name="longitude" render={({ field }) => (
+                    <FormItem><FormLabel>Longitude</FormLabel><FormControl><Input type="number" step="any" {...field} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                </div>
+                <FormField control={form.control} name="oneWay" render={({ field }) => (
+                  <FormItem>
+                    <div className="flex flex-row items-center space-x-2 space-y-0">
+                      <FormControl><Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} /></FormControl>
+                      <FormLabel className="font-normal">Cobra em um sentido só</FormLabel>
+                    </div>
+                    <FormDescription>Praças de sentido único são pagas uma vez por viagem de ida e volta; as demais, duas.</FormDescription>
+                  </FormItem>
+                )} />
+                <FormItem>
+                  <FormLabel>Tarifas (R$)</FormLabel>
+                  <FormDescription>Deixe em branco as categorias que a praça não informa.</FormDescription>
+                  <div className="space-y-2">
+                    {tollCategoryOptions.map(category => (
+                      <FormField key={category} control={form.control} name={`tariffs.${category}`} render={({ field }) => (
+                        <FormItem className="grid grid-cols-[1fr_8rem] items-center gap-2 space-y-0">
+                          <FormLabel className="font-normal">{tollCategoryLabels[category]}</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              step="0.01"
+                              min={0}
+                              value={field.value ?? ""}
+                              onChange={(e) => field.onChange(e.target.value === "" ? null : e.target.value)}
+                            />
+                          </FormControl>
+                          <FormMessage className="col-span-2" />
+                        </FormItem>
+                      )} />
+                    ))}
+                  </div>
+                </FormItem>
+              </fieldset>
+            </form>
+          </Form>
+        </DetailsHistoryTabs>
+      </FormModal>
+
+      <AlertDialog open={isImportOpen} onOpenChange={(open) => { setIsImportOpen(open); if (!open) setImportFile(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Importar Praças de Pedágio</AlertDialogTitle>
+            <AlertDialogDescription>
+              CSV separado por ponto e vírgula, com as colunas do arquivo exportado: nome; rodovia; latitude; longitude; sentido_unico (sim/não) e a tarifa de cada categoria. Praças com a mesma rodovia e nome são atualizadas.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="py-2">
+            <Label htmlFor="toll-plaza-import-file">Arquivo (.csv)</Label>
+            <Input id="toll-plaza-import-file" type="file" accept=".csv,.CSV,.txt,.TXT" onChange={(e) => setImportFile(e.target.files?.[0] ?? null)} className="mt-1" />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isMutating}>Voltar</AlertDialogCancel>
+            <AlertDialogAction onClick={(e) => { e.preventDefault(); importMutation.mutate(); }} disabled={isMutating || !importFile}>
+              {importMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Importar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,17 @@
+"use client";
+
+import { TollPlazasClientPage } from "@/components/toll-plazas/TollPlazasClientPage";
+import { useState, useEffect } from 'react';
+import type { FC } from 'react';
+
+export const TollPlazasPageContent: FC = () => {
+  const [isClient, setIsClient] = useState(false);
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  if (!isClient) {
+    return null;
+  }
+  return <TollPlazasClientPage />;
+}
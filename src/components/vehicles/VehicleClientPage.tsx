@@ -19,8 +19,9 @@ import { PageHeader } from "@/components/shared/PageHeader";
 import { DataTablePlaceholder } from "@/components/shared/DataTablePlaceholder";
 import { FormModal } from "@/components/shared/FormModal";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
 import { db, storage } from "@/lib/firebase"; // Import storage
-import { collection, getDocs, addDoc, updateDoc, deleteDoc, doc, query, orderBy, arrayUnion, writeBatch } from "firebase/firestore";
+import { fetchVehicles, newVehicleId, createVehicle, updateVehicle, deleteVehicle, addVehicleFuelingRecord, addVehicleMaintenanceRecord, queryKeys } from "@/lib/repositories";
 import { ref as storageRefFB, uploadBytes, getDownloadURL, deleteObject } from "firebase/storage"; // Storage functions
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
@@ -35,7 +36,6 @@ const statusIcons = {
   Manutenção: <WrenchIconMain className="h-4 w-4 text-yellow-500" />,
 };
 
-const FIRESTORE_COLLECTION_NAME = "veiculos";
 const NO_MAINTENANCE_ALERT_VALUE = "_NO_ALERT_"; // Constante para o valor "Nenhum"
 const MAX_VEHICLE_IMAGE_FILES = 2;
 
@@ -81,41 +81,11 @@ async function deleteVehicleImageFromStorage(fileUrl?: string | null) {
   }
 }
 
-async function fetchVehicles(): Promise<Vehicle[]> {
- if (!db) {
-    console.error("fetchVehicles: Firebase DB is not available.");
-    throw new Error("Firebase DB is not available");
-  }
-  const q = query(collection(db!, FIRESTORE_COLLECTION_NAME), orderBy("model", "asc"), orderBy("licensePlate", "asc"));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(docSnap => {
-    const data = docSnap.data();
-    return {
-        id: docSnap.id,
-        model: data.model,
-        licensePlate: data.licensePlate,
-        kind: data.kind,
-        currentMileage: Number(data.currentMileage),
-        fuelConsumption: Number(data.fuelConsumption),
-        costPerKilometer: Number(data.costPerKilometer),
-        fipeValue: data.fipeValue !== undefined && data.fipeValue !== null ? Number(data.fipeValue) : null,
-        year: data.year !== undefined && data.year !== null ? Number(data.year) : null,
-        registrationInfo: data.registrationInfo,
-        status: data.status,
-        fuelingHistory: Array.isArray(data.fuelingHistory) ? data.fuelingHistory : [],
-        maintenanceHistory: Array.isArray(data.maintenanceHistory) ? data.maintenanceHistory : [],
-        nextMaintenanceType: data.nextMaintenanceType || null,
-        nextMaintenanceKm: data.nextMaintenanceKm !== undefined && data.nextMaintenanceKm !== null ? Number(data.nextMaintenanceKm) : null,
-        nextMaintenanceDate: data.nextMaintenanceDate || null,
-        maintenanceNotes: data.maintenanceNotes || null,
-        imageUrls: Array.isArray(data.imageUrls) ? data.imageUrls : null,
-    } as Vehicle;
-  });
-}
-
 export function VehicleClientPage() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canManage = can("vehicles:manage");
 
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingVehicle, setEditingVehicle] = useState<Vehicle | null>(null);
@@ -179,7 +149,7 @@ export function VehicleClientPage() {
 
 
   const { data: vehiclesFromFirestore = [], isLoading, isError, error } = useQuery<Vehicle[], Error>({
-    queryKey: [FIRESTORE_COLLECTION_NAME],
+    queryKey: queryKeys.vehicles.all,
     queryFn: fetchVehicles,
     enabled: !!db,
   });
@@ -210,12 +180,12 @@ export function VehicleClientPage() {
     mutationFn: async (data: { vehicleData: z.infer<typeof VehicleSchema>; newImageFiles: File[] }) => {
  if (!db) throw new Error("Conexão com Firebase não disponível para adicionar veículo.");
       setIsUploadingImage(true);
-      const newVehicleId = doc(collection(db!, FIRESTORE_COLLECTION_NAME)).id;
+      const vehicleId = newVehicleId();
       const uploadedImageUrls: string[] = [];
 
       for (let i = 0; i < data.newImageFiles.length; i++) {
         const file = data.newImageFiles[i];
-        const imageUrl = await uploadVehicleImageFile(file, newVehicleId, `image_${Date.now()}_${i}`);
+        const imageUrl = await uploadVehicleImageFile(file, vehicleId, `image_${Date.now()}_${i}`);
         uploadedImageUrls.push(imageUrl);
       }
       setIsUploadingImage(false);
@@ -227,11 +197,11 @@ export function VehicleClientPage() {
         nextMaintenanceDate: data.vehicleData.nextMaintenanceDate ? formatDateForInput(data.vehicleData.nextMaintenanceDate) : null,
         imageUrls: uploadedImageUrls,
       };
-      await addDoc(collection(db!, FIRESTORE_COLLECTION_NAME), dataToSave);
-      return { ...dataToSave, id: newVehicleId };
+      await createVehicle(dataToSave, vehicleId);
+      return { ...dataToSave, id: vehicleId };
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.vehicles.all });
       toast({ title: "Veículo Adicionado", description: `${data.model} (${data.licensePlate}) adicionado.` });
       closeModal();
     },
@@ -272,18 +242,15 @@ export function VehicleClientPage() {
       const dataToSave: Omit<Vehicle, 'id'> = {
         // Ensure vehicleData overrides specific fields that might be updated by the form
         ...data.vehicleData,
-        // Ensure vehicleData overrides specific fields that might be updated by the form
-        ...data.vehicleData,
- fuelingHistory: data.currentVehicle.fuelingHistory || [],
- maintenanceHistory: data.currentVehicle.maintenanceHistory || [],
+        fuelingHistory: data.currentVehicle.fuelingHistory || [],
+        maintenanceHistory: data.currentVehicle.maintenanceHistory || [],
+        imageUrls: finalImageUrls,
       };
-      const updatePayload = dataToSave; // No need to remove id, as dataToSave is already Omit<Vehicle, 'id'>
-      const vehicleRef = doc(db!, FIRESTORE_COLLECTION_NAME, data.id);
-      await updateDoc(vehicleRef, updatePayload as { [key: string]: any });
+      await updateVehicle(data.id, dataToSave);
       return { ...dataToSave, id: data.id };
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.vehicles.all });
       toast({ title: "Veículo Atualizado", description: `${data.model} (${data.licensePlate}) atualizado.` });
       closeModal();
     },
@@ -303,10 +270,10 @@ export function VehicleClientPage() {
           await deleteVehicleImageFromStorage(url);
         }
       }
-      return deleteDoc(doc(db!, FIRESTORE_COLLECTION_NAME, vehicleToDelete.id));
+      return deleteVehicle(vehicleToDelete.id);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.vehicles.all });
       toast({ title: "Veículo Excluído", description: `O veículo foi removido.` });
       closeModal();
     },
@@ -318,21 +285,10 @@ export function VehicleClientPage() {
   const addFuelingRecordMutation = useMutation({
     mutationFn: async ({ vehicleId, newRecord, currentMileage }: { vehicleId: string; newRecord: FuelingRecord; currentMileage: number }) => {
  if (!db) throw new Error("Conexão com Firebase não disponível.");
-      const vehicleRef = doc(db, FIRESTORE_COLLECTION_NAME, vehicleId);
-      const batch = writeBatch(db);
-
-      batch.update(vehicleRef, {
-        fuelingHistory: arrayUnion(newRecord)
-      });
-
-      if (newRecord.mileageAtFueling > currentMileage) {
-        batch.update(vehicleRef, { currentMileage: newRecord.mileageAtFueling });
-      }
-
-      await batch.commit();
+      await addVehicleFuelingRecord(vehicleId, newRecord, currentMileage);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.vehicles.all });
       toast({ title: "Abastecimento Registrado", description: "O novo registro de abastecimento foi salvo." });
       closeFuelingModal();
     },
@@ -344,20 +300,10 @@ export function VehicleClientPage() {
   const addMaintenanceRecordMutation = useMutation({
     mutationFn: async ({ vehicleId, newRecord, currentMileage }: { vehicleId: string; newRecord: VehicleMaintenanceRecord; currentMileage: number }) => {
  if (!db) throw new Error("Conexão com Firebase não disponível.");
-      const vehicleRef = doc(db, FIRESTORE_COLLECTION_NAME, vehicleId);
-      const batch = writeBatch(db);
-
-      batch.update(vehicleRef, {
-        maintenanceHistory: arrayUnion(newRecord)
-      });
-
-      if (newRecord.mileageAtMaintenance > currentMileage) {
-        batch.update(vehicleRef, { currentMileage: newRecord.mileageAtMaintenance });
-      }
-      await batch.commit();
+      await addVehicleMaintenanceRecord(vehicleId, newRecord, currentMileage);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [FIRESTORE_COLLECTION_NAME] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.vehicles.all });
       toast({ title: "Manutenção Registrada", description: "O novo registro de manutenção foi salvo." });
       closeMaintenanceModal();
     },
@@ -601,11 +547,11 @@ export function VehicleClientPage() {
     <>
       <PageHeader
         title=""
-        actions={
+        actions={canManage ? (
           <Button onClick={() => openModal()} className="bg-primary hover:bg-primary/90" disabled={isMutating || deleteVehicleMutation.isPending}>
             <PlusCircle className="mr-2 h-4 w-4" /> Adicionar Veículo
           </Button>
-        }
+        ) : undefined}
       />
       <p className="text-muted-foreground text-sm mb-6 -mt-4">
         Gerenciamento da frota de veículos da empresa utilizados para serviços externos. Permite cadastrar veículos, registrar abastecimentos, histórico de manutenções e controlar informações como quilometragem, consumo e custos.
@@ -630,8 +576,8 @@ export function VehicleClientPage() {
           icon={CarFront}
           title="Nenhum Veículo Registrado"
           description="Registre seu primeiro veículo para gerenciar sua frota."
-          buttonLabel="Adicionar Veículo"
-          onButtonClick={() => openModal()}
+          buttonLabel={canManage ? "Adicionar Veículo" : undefined}
+          onButtonClick={canManage ? () => openModal() : undefined}
         />
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -684,7 +630,7 @@ export function VehicleClientPage() {
                   </p>
                   <p className="flex items-center text-sm">
                     <Coins className="mr-2 h-4 w-4 text-primary" />
-                    <span className="font-medium text-muted-foreground mr-1">Custo Médio/km:</span>
+                    <span className="font-medium text-muted-foreground mr-1">Desgaste/km:</span>
                     <span>R$ {Number(vehicle.costPerKilometer).toFixed(2)}</span>
                   </p>
                   {vehicle.fipeValue !== null && vehicle.fipeValue !== undefined && (
@@ -755,11 +701,11 @@ export function VehicleClientPage() {
         formId="vehicle-form"
         isSubmitting={isMutating}
         editingItem={editingVehicle && editingVehicle.id && !editingVehicle.id.startsWith("mock") ? editingVehicle : null}
-          onDeleteConfirm={editingVehicle && editingVehicle.id && !editingVehicle.id.startsWith("mock") ? handleModalDeleteConfirm : undefined}
+          onDeleteConfirm={canManage && editingVehicle && editingVehicle.id && !editingVehicle.id.startsWith("mock") ? handleModalDeleteConfirm : undefined}
         isDeleting={deleteVehicleMutation.isPending}
         deleteButtonLabel={deleteVehicleMutation.isPending ? "Excluindo..." : "Excluir Veículo"}
         isEditMode={isEditMode}
-        onEditModeToggle={() => setIsEditMode(true)}
+        onEditModeToggle={canManage ? () => setIsEditMode(true) : undefined}
       >
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} id="vehicle-form" className="space-y-4">
@@ -810,7 +756,7 @@ export function VehicleClientPage() {
                   )} />
                   <FormField control={form.control} name="costPerKilometer" render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Custo Médio por KM (R$)</FormLabel>
+                      <FormLabel>Custo de Desgaste por KM (R$)</FormLabel>
                       <FormControl>
                         <Input
                           type="number"
@@ -822,6 +768,7 @@ export function VehicleClientPage() {
                           value={String(field.value ?? '')}
                         />
                       </FormControl>
+                      <FormDescription>Pneus, manutenção e depreciação. O combustível é calculado pelo consumo e pelo último abastecimento.</FormDescription>
                       <FormMessage />
                     </FormItem>
                   )} />
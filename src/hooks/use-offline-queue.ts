@@ -0,0 +1,80 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/repositories";
+import {
+  enqueueOfflineOperation, listQueuedOperations, removeQueuedOperation, subscribeToOfflineQueue,
+  type OfflineOperation, type QueuedOperation,
+} from "@/lib/offline-queue";
+import { flushOfflineQueue } from "@/lib/offline-sync";
+
+interface UseOfflineQueueOptions {
+  // Replay the queue on mount and whenever the connection comes back. Only
+  // the instance mounted in AppLayout does this.
+  autoSync?: boolean;
+}
+
+export function useOfflineQueue({ autoSync = false }: UseOfflineQueueOptions = {}) {
+  const queryClient = useQueryClient();
+  const [operations, setOperations] = useState<QueuedOperation[]>([]);
+  const [isOnline, setIsOnline] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  useEffect(() => {
+    const refresh = () => {
+      listQueuedOperations().then(setOperations).catch(error => console.error("useOfflineQueue:", error));
+    };
+    refresh();
+    return subscribeToOfflineQueue(refresh);
+  }, []);
+
+  const sync = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      const result = await flushOfflineQueue();
+      if (result.synced > 0) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.serviceOrders.all });
+        queryClient.invalidateQueries({ queryKey: queryKeys.partsRequisitions.all });
+        queryClient.invalidateQueries({ queryKey: queryKeys.maquinas.all });
+      }
+      return result;
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [queryClient]);
+
+  useEffect(() => {
+    setIsOnline(navigator.onLine);
+    const handleOnline = () => {
+      setIsOnline(true);
+      if (autoSync) sync().catch(error => console.error("useOfflineQueue: sync failed:", error));
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    if (autoSync && navigator.onLine) handleOnline();
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [autoSync, sync]);
+
+  // Queues the work and, when there is a connection, sends it right away.
+  const enqueue = useCallback(async (operation: OfflineOperation) => {
+    const queued = await enqueueOfflineOperation(operation);
+    if (navigator.onLine) sync().catch(error => console.error("useOfflineQueue: sync failed:", error));
+    return queued;
+  }, [sync]);
+
+  return {
+    operations,
+    pendingCount: operations.filter(queued => !queued.error).length,
+    failedOperations: operations.filter(queued => !!queued.error),
+    isOnline,
+    isSyncing,
+    sync,
+    enqueue,
+    discard: removeQueuedOperation,
+  };
+}
@@ -0,0 +1,175 @@
+import type { BoletoBankCode, Company } from "@/types";
+import { boletoBankNames } from "@/types";
+import { modulo10, modulo11Remainder, onlyDigits } from "./febraban";
+
+// Bank data of the beneficiary, parsed from the company settings. Agency and
+// account are typed as "1234-5" / "12345-6": the part after the dash is the digit.
+export interface BoletoAccount {
+  bankCode: BoletoBankCode;
+  agency: string;
+  agencyDigit: string;
+  account: string;
+  accountDigit: string;
+  wallet: string;
+  agreement: string;
+}
+
+interface BoletoBankLayout {
+  sequenceLength: number; // Digits of the nosso número sequence
+  defaultWallet: string;
+  agreementLength: number | null; // Required size of the convênio / código do beneficiário
+  freeField: (account: BoletoAccount, sequence: string) => string;
+  // Nosso número as printed on the boleto
+  printedOurNumber: (account: BoletoAccount, sequence: string) => string;
+  // Nosso número as sent (and returned) in the CNAB 240 files
+  cnab240OurNumber: (account: BoletoAccount, sequence: string) => string;
+  // Only banks with a supported CNAB 400 layout
+  cnab400OurNumber?: (account: BoletoAccount, sequence: string) => string;
+  beneficiaryCode: (account: BoletoAccount) => string;
+}
+
+const pad = (value: string, length: number): string => value.padStart(length, "0");
+
+const withDigit = (value: string, digit: string): string => digit ? `${value}-${digit}` : value;
+
+// Santander: remainder 10 gives 1, remainders 0 and 1 give 0.
+const santanderOurNumberDigit = (sequence: string): string => {
+  const remainder = modulo11Remainder(sequence);
+  if (remainder === 10) return "1";
+  return remainder <= 1 ? "0" : String(11 - remainder);
+};
+
+// Caixa: 11 minus the remainder, results above 9 give 0.
+const caixaDigit = (digits: string): string => {
+  const digit = 11 - modulo11Remainder(digits);
+  return digit > 9 ? "0" : String(digit);
+};
+
+// Bradesco: weights 2..7 over carteira + nosso número; remainder 1 gives "P".
+const bradescoOurNumberDigit = (wallet: string, sequence: string): string => {
+  const remainder = modulo11Remainder(`${pad(wallet, 2)}${sequence}`, 7);
+  if (remainder === 0) return "0";
+  return remainder === 1 ? "P" : String(11 - remainder);
+};
+
+// Itaú carteiras whose DAC ignores agency and account.
+const itauWalletsWithoutAccountInDac = ["126", "131", "146", "150", "168"];
+
+const itauOurNumberDac = (account: BoletoAccount, sequence: string): string => {
+  const wallet = pad(account.wallet, 3);
+  const base = itauWalletsWithoutAccountInDac.includes(wallet)
+    ? `${wallet}${sequence}`
+    : `${pad(account.agency, 4)}${pad(account.account, 5)}${wallet}${sequence}`;
+  return String(modulo10(base));
+};
+
+const boletoBankLayouts: Record<BoletoBankCode, BoletoBankLayout> = {
+  // Convênio de 7 dígitos, carteira 17/18: nosso número = convênio + sequence.
+  "001": {
+    sequenceLength: 10,
+    defaultWallet: "17",
+    agreementLength: 7,
+    freeField: (account, sequence) => `000000${account.agreement}${sequence}${pad(account.wallet, 2)}`,
+    printedOurNumber: (account, sequence) => `${account.agreement}${sequence}`,
+    cnab240OurNumber: (account, sequence) => `${account.agreement}${sequence}`,
+    beneficiaryCode: account => `${withDigit(account.agency, account.agencyDigit)} / ${withDigit(account.account, account.accountDigit)}`,
+  },
+  "033": {
+    sequenceLength: 12,
+    defaultWallet: "101",
+    agreementLength: 7,
+    freeField: (account, sequence) => `9${account.agreement}${sequence}${santanderOurNumberDigit(sequence)}0${pad(account.wallet, 3)}`,
+    printedOurNumber: (_, sequence) => `${sequence}-${santanderOurNumberDigit(sequence)}`,
+    cnab240OurNumber: (_, sequence) => `${sequence}${santanderOurNumberDigit(sequence)}`,
+    beneficiaryCode: account => `${withDigit(account.agency, account.agencyDigit)} / ${account.agreement}`,
+  },
+  // SIGCB, carteira registrada ("RG") emitida pelo beneficiário: nosso número "14" + 15 digits.
+  "104": {
+    sequenceLength: 15,
+    defaultWallet: "RG",
+    agreementLength: 6,
+    freeField: (account, sequence) => {
+      const base = `${account.agreement}${caixaDigit(account.agreement)}${sequence.slice(0, 3)}1${sequence.slice(3, 6)}4${sequence.slice(6)}`;
+      return `${base}${caixaDigit(base)}`;
+    },
+    printedOurNumber: (_, sequence) => `14${sequence}`,
+    cnab240OurNumber: (_, sequence) => `14${sequence}`,
+    beneficiaryCode: account => `${account.agency} / ${account.agreement}-${caixaDigit(account.agreement)}`,
+  },
+  "237": {
+    sequenceLength: 11,
+    defaultWallet: "09",
+    agreementLength: null,
+    freeField: (account, sequence) => `${pad(account.agency, 4)}${pad(account.wallet, 2)}${sequence}${pad(account.account, 7)}0`,
+    printedOurNumber: (account, sequence) => `${pad(account.wallet, 2)}/${sequence}-${bradescoOurNumberDigit(account.wallet, sequence)}`,
+    cnab240OurNumber: (account, sequence) => `${pad(account.wallet, 3)}00000${sequence}${bradescoOurNumberDigit(account.wallet, sequence)}`,
+    cnab400OurNumber: (account, sequence) => `${sequence}${bradescoOurNumberDigit(account.wallet, sequence)}`,
+    beneficiaryCode: account => `${withDigit(account.agency, account.agencyDigit)} / ${withDigit(account.account, account.accountDigit)}`,
+  },
+  "341": {
+    sequenceLength: 8,
+    defaultWallet: "109",
+    agreementLength: null,
+    freeField: (account, sequence) => {
+      const agencyAccount = `${pad(account.agency, 4)}${pad(account.account, 5)}`;
+      return `${pad(account.wallet, 3)}${sequence}${itauOurNumberDac(account, sequence)}${agencyAccount}${modulo10(agencyAccount)}000`;
+    },
+    printedOurNumber: (account, sequence) => `${pad(account.wallet, 3)}/${sequence}-${itauOurNumberDac(account, sequence)}`,
+    cnab240OurNumber: (account, sequence) => `${pad(account.wallet, 3)}${sequence}${itauOurNumberDac(account, sequence)}`,
+    beneficiaryCode: account => `${account.agency} / ${withDigit(account.account, account.accountDigit)}`,
+  },
+};
+
+const splitDigit = (value: string | undefined): [string, string] => {
+  const [main = "", digit = ""] = (value || "").split("-");
+  return [onlyDigits(main), digit.trim().toUpperCase()];
+};
+
+// Fails with a message pointing at the missing setting, before any number is reserved.
+export const getBoletoAccount = (company: Company): BoletoAccount => {
+  if (!company.bankCode) throw new Error(`Configure o banco de cobrança de ${company.name} antes de emitir boletos.`);
+  const layout = boletoBankLayouts[company.bankCode];
+  const [agency, agencyDigit] = splitDigit(company.bankAgency);
+  const [account, accountDigit] = splitDigit(company.bankAccount);
+  const agreement = onlyDigits(company.boletoAgreement);
+  if (!agency || !account) throw new Error(`Agência e conta de ${company.name} são obrigatórias para boletos.`);
+  if (layout.agreementLength && agreement.length !== layout.agreementLength) {
+    throw new Error(`${boletoBankNames[company.bankCode]}: o convênio/código do beneficiário deve ter ${layout.agreementLength} dígitos.`);
+  }
+  return {
+    bankCode: company.bankCode,
+    agency,
+    agencyDigit,
+    account,
+    accountDigit,
+    wallet: company.boletoWallet || layout.defaultWallet,
+    agreement,
+  };
+};
+
+// The counter may be configured with a prefix; nosso número only takes digits.
+const toSequence = (account: BoletoAccount, ourNumber: string): string => {
+  const { sequenceLength } = boletoBankLayouts[account.bankCode];
+  if (!/^\d+$/.test(ourNumber)) throw new Error("A numeração de boletos deve gerar apenas números (remova o prefixo e a reinicialização anual).");
+  if (ourNumber.length > sequenceLength) throw new Error(`Nosso número excede ${sequenceLength} dígitos.`);
+  return pad(ourNumber, sequenceLength);
+};
+
+export const buildFreeField = (account: BoletoAccount, ourNumber: string): string =>
+  boletoBankLayouts[account.bankCode].freeField(account, toSequence(account, ourNumber));
+
+export const formatBankOurNumber = (account: BoletoAccount, ourNumber: string): string =>
+  boletoBankLayouts[account.bankCode].printedOurNumber(account, toSequence(account, ourNumber));
+
+export const formatBeneficiaryCode = (account: BoletoAccount): string =>
+  boletoBankLayouts[account.bankCode].beneficiaryCode(account);
+
+export const getCnabOurNumber = (account: BoletoAccount, ourNumber: string, layout: "240" | "400"): string => {
+  const bankLayout = boletoBankLayouts[account.bankCode];
+  const sequence = toSequence(account, ourNumber);
+  if (layout === "240") return bankLayout.cnab240OurNumber(account, sequence);
+  if (!bankLayout.cnab400OurNumber) throw new Error(`CNAB 400 não disponível para ${boletoBankNames[account.bankCode]}; use o CNAB 240.`);
+  return bankLayout.cnab400OurNumber(account, sequence);
+};
+
+export const supportsCnab400 = (bankCode: BoletoBankCode): boolean => !!boletoBankLayouts[bankCode].cnab400OurNumber;
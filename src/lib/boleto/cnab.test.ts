@@ -0,0 +1,234 @@
+import { describe, expect, it } from "vitest";
+import type { Boleto, Company, Customer } from "@/types";
+import type { BoletoAccount } from "./banks";
+import { buildCnab240Remittance, buildCnab400Remittance, buildRemittanceFileName, normalizeCnabOurNumber, parseCnabReturn } from "./cnab";
+
+const company = {
+  id: "goldmaq",
+  name: "Gold Maq Empilhadeiras Ltda",
+  cnpj: "12.345.678/0001-90",
+  street: "Rua das Empilhadeiras",
+  number: "10",
+  neighborhood: "Centro",
+  city: "Jundiaí",
+  state: "SP",
+  cep: "13201-000",
+} satisfies Company;
+
+// Bradesco, carteira 19: the nosso número 2 has the digit 8 (bank manual).
+const account: BoletoAccount = {
+  bankCode: "237",
+  agency: "1234",
+  agencyDigit: "5",
+  account: "12345",
+  accountDigit: "6",
+  wallet: "19",
+  agreement: "4567890",
+};
+
+const boleto = {
+  id: "boleto-1",
+  companyId: "goldmaq",
+  bankCode: "237",
+  wallet: "19",
+  beneficiaryCode: "1234-5 / 12345-6",
+  ourNumber: "2",
+  bankOurNumber: "19/00000000002-8",
+  sourceType: "invoice",
+  sourceId: "fatura-1",
+  sourceNumber: "FAT-2026-0042",
+  customerId: "cliente-1",
+  amount: 1234.56,
+  issueDate: "2026-10-19",
+  dueDate: "2026-11-05",
+  barcode: "",
+  digitableLine: "",
+  status: "Emitido",
+} satisfies Boleto;
+
+const customer = {
+  id: "cliente-1",
+  name: "Indústria São João Ltda",
+  cnpj: "11.222.333/0001-81",
+  cep: "01310-100",
+  street: "Av. Paulista",
+  number: "1000",
+  neighborhood: "Bela Vista",
+  city: "São Paulo",
+  state: "SP",
+} satisfies Customer;
+
+const input = { company, account, remittanceNumber: 42, createdAt: new Date(2026, 9, 19, 8, 30, 0), entries: [{ boleto, customer }] };
+
+const toLines = (content: string) => content.split("\r\n").slice(0, -1);
+
+// 1-based, inclusive positions as in the bank manuals.
+const field = (line: string, start: number, end: number) => line.slice(start - 1, end);
+
+// A line of the given length with the values written at the given positions.
+const lineWith = (length: number, fields: [number, string][]) => {
+  const line = " ".repeat(length).split("");
+  fields.forEach(([start, value]) => line.splice(start - 1, value.length, ...value.split("")));
+  return line.join("");
+};
+
+describe("buildCnab240Remittance", () => {
+  const lines = toLines(buildCnab240Remittance(input));
+  const [fileHeader, lotHeader, segmentP, segmentQ, lotTrailer, fileTrailer] = lines;
+
+  it("writes header, lot, one P/Q pair per boleto and trailers, all 240 positions", () => {
+    expect(lines).toHaveLength(6);
+    lines.forEach(line => expect(line).toHaveLength(240));
+    expect(lines.map(line => field(line, 8, 8))).toEqual(["0", "1", "3", "3", "5", "9"]);
+  });
+
+  it.each([
+    ["bank", 1, 3, "237"],
+    ["company CNPJ", 19, 32, "12345678000190"],
+    ["company name", 73, 102, "GOLD MAQ EMPILHADEIRAS LTDA   "],
+    ["file created", 144, 151, "19102026"],
+    ["remittance number", 158, 163, "000042"],
+  ])("writes the %s in the file header", (_, start, end, value) => {
+    expect(field(fileHeader, start, end)).toBe(value);
+  });
+
+  it("writes the remittance number in the lot header", () => {
+    expect(field(lotHeader, 184, 191)).toBe("00000042");
+  });
+
+  it.each([
+    ["segment", 14, 14, "P"],
+    ["record number", 9, 13, "00001"],
+    ["agency", 18, 22, "01234"],
+    ["account", 24, 35, "000000012345"],
+    ["nosso número", 38, 57, "01900000000000000028"],
+    ["document number", 63, 77, "FAT-2026-0042  "],
+    ["due date", 78, 85, "05112026"],
+    ["amount", 86, 100, "000000000123456"],
+    ["issue date", 110, 117, "19102026"],
+    ["boleto id", 196, 220, "BOLETO-1".padEnd(25, " ")],
+  ])("writes the %s in segment P", (_, start, end, value) => {
+    expect(field(segmentP, start, end)).toBe(value);
+  });
+
+  it.each([
+    ["segment", 14, 14, "Q"],
+    ["document type", 18, 18, "2"],
+    ["document", 19, 33, "011222333000181"],
+    ["name", 34, 73, "INDUSTRIA SAO JOAO LTDA".padEnd(40, " ")],
+    ["CEP", 129, 133, "01310"],
+    ["CEP suffix", 134, 136, "100"],
+    ["city", 137, 151, "SAO PAULO      "],
+    ["state", 152, 153, "SP"],
+  ])("writes the %s in segment Q", (_, start, end, value) => {
+    expect(field(segmentQ, start, end)).toBe(value);
+  });
+
+  it("counts records and amounts in the trailers", () => {
+    expect(field(lotTrailer, 18, 23)).toBe("000004");
+    expect(field(lotTrailer, 24, 29)).toBe("000001");
+    expect(field(lotTrailer, 30, 46)).toBe("00000000000123456");
+    expect(field(fileTrailer, 18, 23)).toBe("000001");
+    expect(field(fileTrailer, 24, 29)).toBe("000006");
+  });
+
+  it("marks a CPF as document type 1", () => {
+    const [, , , q] = toLines(buildCnab240Remittance({ ...input, entries: [{ boleto, customer: { ...customer, cnpj: "123.456.789-09" } }] }));
+    expect(field(q, 18, 33)).toBe("1000012345678909");
+  });
+});
+
+describe("buildCnab400Remittance", () => {
+  const lines = toLines(buildCnab400Remittance(input));
+  const [header, detail, trailer] = lines;
+
+  it("writes header, one detail per boleto and trailer, all 400 positions and numbered", () => {
+    expect(lines).toHaveLength(3);
+    lines.forEach(line => expect(line).toHaveLength(400));
+    expect(lines.map(line => field(line, 395, 400))).toEqual(["000001", "000002", "000003"]);
+    expect(field(trailer, 1, 1)).toBe("9");
+  });
+
+  it.each([
+    ["operation", 1, 9, "01REMESSA"],
+    ["agreement", 27, 46, "00000000000004567890"],
+    ["bank", 77, 79, "237"],
+    ["file created", 95, 100, "191026"],
+    ["remittance number", 111, 117, "0000042"],
+  ])("writes the %s in the header", (_, start, end, value) => {
+    expect(field(header, start, end)).toBe(value);
+  });
+
+  it.each([
+    ["beneficiary", 21, 37, "00190123400123456"],
+    ["nosso número", 71, 82, "000000000028"],
+    ["occurrence", 109, 110, "01"],
+    ["document number", 111, 120, "FAT-2026-0"],
+    ["due date", 121, 126, "051126"],
+    ["amount", 127, 139, "0000000123456"],
+    ["issue date", 151, 156, "191026"],
+    ["document type", 219, 220, "02"],
+    ["document", 221, 234, "11222333000181"],
+    ["name", 235, 274, "INDUSTRIA SAO JOAO LTDA".padEnd(40, " ")],
+    ["CEP", 327, 334, "01310100"],
+  ])("writes the %s in the detail", (_, start, end, value) => {
+    expect(field(detail, start, end)).toBe(value);
+  });
+
+  it("is only available for Bradesco", () => {
+    expect(() => buildCnab400Remittance({ ...input, account: { ...account, bankCode: "001" } })).toThrow("CNAB 400 não disponível");
+  });
+});
+
+describe("parseCnabReturn", () => {
+  it("reads segments T and U of a CNAB 240 return", () => {
+    const content = [
+      lineWith(240, [[1, "2370000"], [8, "0"]]),
+      lineWith(240, [[1, "2370001"], [8, "3"], [14, "T"], [16, "06"], [38, "01900000000000000028"]]),
+      lineWith(240, [[1, "2370001"], [8, "3"], [14, "U"], [78, "000000000123456"], [138, "06112026"]]),
+      lineWith(240, [[1, "2370001"], [8, "3"], [14, "T"], [16, "02"], [38, "01900000000000000036"]]),
+      lineWith(240, [[1, "2370001"], [8, "3"], [14, "U"], [78, "000000000000000"], [138, "00000000"]]),
+    ].join("\r\n");
+    expect(parseCnabReturn(content)).toEqual({
+      layout: "240",
+      entries: [
+        { cnabOurNumber: "01900000000000000028", occurrence: "06", paid: true, paidAmount: 1234.56, paidDate: "2026-11-06" },
+        { cnabOurNumber: "01900000000000000036", occurrence: "02", paid: false, paidAmount: 0, paidDate: null },
+      ],
+    });
+  });
+
+  it("reads the details of a CNAB 400 return", () => {
+    const content = [
+      lineWith(400, [[1, "02RETORNO"]]),
+      lineWith(400, [[1, "1"], [71, "000000000028"], [109, "06061126"], [254, "0000000123456"]]),
+      lineWith(400, [[1, "9"]]),
+    ].join("\n");
+    expect(parseCnabReturn(content)).toEqual({
+      layout: "400",
+      entries: [{ cnabOurNumber: "000000000028", occurrence: "06", paid: true, paidAmount: 1234.56, paidDate: "2026-11-06" }],
+    });
+  });
+
+  it("rejects empty files and lines of other sizes", () => {
+    expect(() => parseCnabReturn("\r\n")).toThrow("vazio");
+    expect(() => parseCnabReturn(`${"1".repeat(240)}\n${"1".repeat(400)}`)).toThrow("não reconhecido");
+  });
+});
+
+describe("normalizeCnabOurNumber", () => {
+  it.each([
+    ["000000000028", "28"],
+    ["19/00000000002-8", "19000000000028"],
+    ["00000000002-p", "2P"],
+  ])("normalizes %s to %s", (value, normalized) => {
+    expect(normalizeCnabOurNumber(value)).toBe(normalized);
+  });
+});
+
+describe("buildRemittanceFileName", () => {
+  it("names the file by day, month and the last two digits of the number", () => {
+    expect(buildRemittanceFileName("240", 105, new Date(2026, 9, 19))).toBe("CB191005_240.REM");
+    expect(buildRemittanceFileName("400", 7, new Date(2026, 0, 2))).toBe("CB020107_400.REM");
+  });
+});
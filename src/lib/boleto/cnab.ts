@@ -0,0 +1,212 @@
+import { format, parse } from "date-fns";
+import type { Boleto, CnabLayout, Company, Customer } from "@/types";
+import { boletoBankNames } from "@/types";
+import type { BoletoAccount } from "./banks";
+import { getCnabOurNumber } from "./banks";
+import { amountToCents, onlyDigits } from "./febraban";
+
+// Remittance ("remessa") and return ("retorno") files of cobrança registrada.
+// CNAB 240 follows the FEBRABAN layout (segments P/Q out, T/U back), which every
+// supported bank accepts; CNAB 400 follows Bradesco's layout, the only 400 one
+// supported. Banks may still ask for their own values in the reserved fields
+// when homologating the agreement.
+
+export interface RemittanceEntry {
+  boleto: Boleto;
+  customer: Customer | undefined;
+}
+
+export interface RemittanceInput {
+  company: Company;
+  account: BoletoAccount;
+  remittanceNumber: number;
+  createdAt: Date;
+  entries: RemittanceEntry[];
+}
+
+export interface ReturnEntry {
+  cnabOurNumber: string;
+  occurrence: string;
+  paid: boolean;
+  paidAmount: number | null;
+  paidDate: string | null; // yyyy-MM-dd
+}
+
+const toCnabText = (value: string | null | undefined): string =>
+  (value || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Za-z0-9 .,/-]/g, " ")
+    .toUpperCase();
+
+const alpha = (value: string | null | undefined, length: number): string => toCnabText(value).slice(0, length).padEnd(length, " ");
+
+const num = (value: string | number | null | undefined, length: number): string => {
+  const digits = onlyDigits(String(value ?? ""));
+  if (digits.length > length) throw new Error(`Valor "${value}" não cabe em ${length} posições do arquivo CNAB.`);
+  return digits.padStart(length, "0");
+};
+
+const blank = (length: number): string => " ".repeat(length);
+
+const assertLineLength = (line: string, length: number): string => {
+  if (line.length !== length) throw new Error(`Linha CNAB com ${line.length} posições (esperado ${length}).`);
+  return line;
+};
+
+const joinLines = (lines: string[]): string => `${lines.join("\r\n")}\r\n`;
+
+// CPF (11 digits) or CNPJ (14 digits) of a customer.
+const documentType = (document: string): "1" | "2" => (onlyDigits(document).length === 11 ? "1" : "2");
+
+const dateDDMMYYYY = (isoDate: string): string => isoDate.slice(8, 10) + isoDate.slice(5, 7) + isoDate.slice(0, 4);
+const dateDDMMYY = (isoDate: string): string => isoDate.slice(8, 10) + isoDate.slice(5, 7) + isoDate.slice(2, 4);
+
+// --- CNAB 240 ---
+
+export const buildCnab240Remittance = ({ company, account, remittanceNumber, createdAt, entries }: RemittanceInput): string => {
+  const bank = account.bankCode;
+  const cnpj = onlyDigits(company.cnpj);
+  const accountFields = `${num(account.agency, 5)}${alpha(account.agencyDigit, 1)}${num(account.account, 12)}${alpha(account.accountDigit, 1)}${blank(1)}`;
+  const lines: string[] = [];
+
+  lines.push([
+    bank, "0000", "0", blank(9), "2", num(cnpj, 14), alpha(account.agreement, 20), accountFields,
+    alpha(company.name, 30), alpha(boletoBankNames[bank], 30), blank(10), "1",
+    format(createdAt, "ddMMyyyy"), format(createdAt, "HHmmss"), num(remittanceNumber, 6), "103", "00000",
+    blank(20), blank(20), blank(29),
+  ].join(""));
+
+  lines.push([
+    bank, "0001", "1", "R", "01", blank(2), "060", blank(1), "2", num(cnpj, 15), alpha(account.agreement, 20), accountFields,
+    alpha(company.name, 30), blank(40), blank(40), num(remittanceNumber, 8), format(createdAt, "ddMMyyyy"), num(0, 8), blank(33),
+  ].join(""));
+
+  let recordNumber = 0;
+  let totalCents = 0;
+  entries.forEach(({ boleto, customer }) => {
+    const cnabOurNumber = getCnabOurNumber(account, boleto.ourNumber, "240");
+    totalCents += Math.round(boleto.amount * 100);
+    lines.push([
+      bank, "0001", "3", num(++recordNumber, 5), "P", blank(1), "01", accountFields,
+      alpha(cnabOurNumber, 20), "1", "1", "1", "2", "2", alpha(boleto.sourceNumber, 15), dateDDMMYYYY(boleto.dueDate),
+      amountToCents(boleto.amount, 15), num(0, 5), "0", "02", "N", dateDDMMYYYY(boleto.issueDate),
+      "3", num(0, 8), num(0, 15), "0", num(0, 8), num(0, 15), num(0, 15), num(0, 15),
+      alpha(boleto.id, 25), "3", "00", "1", "060", "09", num(0, 10), blank(1),
+    ].join(""));
+
+    const cep = onlyDigits(customer?.cep);
+    lines.push([
+      bank, "0001", "3", num(++recordNumber, 5), "Q", blank(1), "01",
+      documentType(customer?.cnpj || ""), num(customer?.cnpj, 15), alpha(customer?.name, 40),
+      alpha([customer?.street, customer?.number, customer?.complement].filter(Boolean).join(" "), 40),
+      alpha(customer?.neighborhood, 15), num(cep.slice(0, 5), 5), num(cep.slice(5), 3), alpha(customer?.city, 15), alpha(customer?.state, 2),
+      "0", num(0, 15), blank(40), "000", blank(20), blank(8),
+    ].join(""));
+  });
+
+  lines.push([
+    bank, "0001", "5", blank(9), num(recordNumber + 2, 6), num(entries.length, 6), num(totalCents, 17), num(0, 69), blank(8), blank(117),
+  ].join(""));
+
+  lines.push([bank, "9999", "9", blank(9), "000001", num(lines.length + 1, 6), "000000", blank(205)].join(""));
+
+  return joinLines(lines.map(line => assertLineLength(line, 240)));
+};
+
+// Segment T carries the nosso número and the occurrence, the segment U right
+// after it the paid amount and date. 06: liquidação; 17: liquidação após baixa.
+const cnab240PaidOccurrences = ["06", "17"];
+
+const parseCnab240Return = (lines: string[]): ReturnEntry[] => {
+  const entries: ReturnEntry[] = [];
+  lines.forEach(line => {
+    if (line[7] !== "3") return;
+    const segment = line[13];
+    if (segment === "T") {
+      const occurrence = line.slice(15, 17);
+      entries.push({
+        cnabOurNumber: line.slice(37, 57).trim(),
+        occurrence,
+        paid: cnab240PaidOccurrences.includes(occurrence),
+        paidAmount: null,
+        paidDate: null,
+      });
+    } else if (segment === "U" && entries.length > 0) {
+      const entry = entries[entries.length - 1];
+      entry.paidAmount = parseInt(line.slice(77, 92), 10) / 100;
+      entry.paidDate = parseCnabDate(line.slice(137, 145), "ddMMyyyy");
+    }
+  });
+  return entries;
+};
+
+// --- CNAB 400 (Bradesco) ---
+
+export const buildCnab400Remittance = ({ company, account, remittanceNumber, createdAt, entries }: RemittanceInput): string => {
+  if (account.bankCode !== "237") throw new Error(`CNAB 400 não disponível para ${boletoBankNames[account.bankCode]}; use o CNAB 240.`);
+  const lines: string[] = [];
+  const sequence = () => num(lines.length + 1, 6);
+
+  lines.push([
+    "0", "1", "REMESSA", "01", alpha("COBRANCA", 15), num(account.agreement, 20), alpha(company.name, 30),
+    "237", alpha("BRADESCO", 15), format(createdAt, "ddMMyy"), blank(8), "MX", num(remittanceNumber, 7), blank(277), sequence(),
+  ].join(""));
+
+  const beneficiaryId = `0${num(account.wallet, 3)}${num(account.agency, 5)}${num(account.account, 7)}${alpha(account.accountDigit, 1)}`;
+  entries.forEach(({ boleto, customer }) => {
+    const cnabOurNumber = getCnabOurNumber(account, boleto.ourNumber, "400");
+    lines.push([
+      "1", num(0, 5), "0", num(0, 5), num(0, 7), "0", beneficiaryId, alpha(boleto.id, 25), "000", "0", "0000",
+      alpha(cnabOurNumber, 12), num(0, 10), "2", "N", blank(10), blank(1), "2", blank(2), "01",
+      alpha(boleto.sourceNumber, 10), dateDDMMYY(boleto.dueDate), amountToCents(boleto.amount, 13), "000", "00000", "01", "N",
+      dateDDMMYY(boleto.issueDate), "00", "00", num(0, 13), num(0, 6), num(0, 13), num(0, 13), num(0, 13),
+      `0${documentType(customer?.cnpj || "")}`, num(customer?.cnpj, 14), alpha(customer?.name, 40),
+      alpha([customer?.street, customer?.number, customer?.complement, customer?.neighborhood].filter(Boolean).join(" "), 40),
+      blank(12), num(customer?.cep, 8), alpha([customer?.city, customer?.state].filter(Boolean).join(" "), 60), sequence(),
+    ].join(""));
+  });
+
+  lines.push(["9", blank(393), sequence()].join(""));
+  return joinLines(lines.map(line => assertLineLength(line, 400)));
+};
+
+// 06: liquidação normal; 15: em cartório; 17: após baixa.
+const cnab400PaidOccurrences = ["06", "15", "17"];
+
+const parseCnab400Return = (lines: string[]): ReturnEntry[] =>
+  lines
+    .filter(line => line[0] === "1")
+    .map(line => {
+      const occurrence = line.slice(108, 110);
+      return {
+        cnabOurNumber: line.slice(70, 82).trim(),
+        occurrence,
+        paid: cnab400PaidOccurrences.includes(occurrence),
+        paidAmount: parseInt(line.slice(253, 266), 10) / 100,
+        paidDate: parseCnabDate(line.slice(110, 116), "ddMMyy"),
+      };
+    });
+
+// --- Return files ---
+
+function parseCnabDate(value: string, pattern: string): string | null {
+  if (!/^\d+$/.test(value) || /^0+$/.test(value)) return null;
+  const date = parse(value, pattern, new Date());
+  return isNaN(date.getTime()) ? null : format(date, "yyyy-MM-dd");
+}
+
+// The layout is told apart by the size of the lines.
+export const parseCnabReturn = (content: string): { layout: CnabLayout; entries: ReturnEntry[] } => {
+  const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length === 0) throw new Error("Arquivo de retorno vazio.");
+  if (lines.every(line => line.length === 240)) return { layout: "240", entries: parseCnab240Return(lines) };
+  if (lines.every(line => line.length === 400)) return { layout: "400", entries: parseCnab400Return(lines) };
+  throw new Error("Arquivo de retorno não reconhecido: as linhas devem ter 240 ou 400 posições.");
+};
+
+// Nosso número as compared between our boletos and the return file.
+export const normalizeCnabOurNumber = (value: string): string => value.replace(/[^0-9A-Za-z]/g, "").replace(/^0+/, "").toUpperCase();
+
+export const buildRemittanceFileName = (layout: CnabLayout, remittanceNumber: number, createdAt: Date): string =>
+  `CB${format(createdAt, "ddMM")}${String(remittanceNumber % 100).padStart(2, "0")}_${layout}.REM`;
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { amountToCents, barcodeToDigitableLine, buildBarcode, dueDateFactor, modulo10, modulo11Remainder } from "./febraban";
+
+// Banco do Brasil sample from the FEBRABAN layout: R$ 1,00 due on 31/12/2007.
+const sampleFreeField = "0500940144816060680935031";
+const sampleBarcode = "00193373700000001000500940144816060680935031";
+const sampleDigitableLine = "00190.50095 40144.816069 06809.350314 3 37370000000100";
+
+describe("modulo10", () => {
+  it.each([
+    ["001905009", 5],
+    ["4014481606", 9],
+    ["0680935031", 4],
+    ["0", 0],
+  ])("gives the check digit of %s", (digits, digit) => {
+    expect(modulo10(digits)).toBe(digit);
+  });
+});
+
+describe("modulo11Remainder", () => {
+  it.each([
+    // Barcode without its check digit: 11 - 8 = 3
+    ["0019373700000001000500940144816060680935031", 9, 8],
+    // Bradesco manual: carteira 19, nosso número 00000000002, digit 11 - 3 = 8
+    ["1900000000002", 7, 3],
+  ])("gives the remainder of %s with weights up to %i", (digits, maxWeight, remainder) => {
+    expect(modulo11Remainder(digits, maxWeight)).toBe(remainder);
+  });
+});
+
+describe("dueDateFactor", () => {
+  it.each([
+    ["2000-07-03", "1000"],
+    ["2007-12-31", "3737"],
+    ["2025-02-21", "9999"],
+    ["2025-02-22", "1000"],
+    ["2025-02-23", "1001"],
+  ])("gives %s the factor %s", (dueDate, factor) => {
+    expect(dueDateFactor(dueDate)).toBe(factor);
+  });
+
+  it("rejects dates before the first factor", () => {
+    expect(() => dueDateFactor("2000-07-02")).toThrow("Vencimento inválido");
+  });
+});
+
+describe("amountToCents", () => {
+  it.each([
+    [1, 10, "0000000100"],
+    [1234.56, 10, "0000123456"],
+    [0.1 + 0.2, 4, "0030"],
+  ])("writes %d in %i positions", (amount, length, cents) => {
+    expect(amountToCents(amount, length)).toBe(cents);
+  });
+
+  it("rejects amounts that do not fit", () => {
+    expect(() => amountToCents(100, 4)).toThrow("Valor inválido");
+    expect(() => amountToCents(-1, 10)).toThrow("Valor inválido");
+  });
+});
+
+describe("buildBarcode", () => {
+  it("matches the FEBRABAN sample", () => {
+    expect(buildBarcode("001", "2007-12-31", 1, sampleFreeField)).toBe(sampleBarcode);
+  });
+
+  it("rejects a campo livre that is not 25 digits", () => {
+    expect(() => buildBarcode("001", "2007-12-31", 1, sampleFreeField.slice(1))).toThrow("Campo livre");
+  });
+});
+
+describe("barcodeToDigitableLine", () => {
+  it("matches the FEBRABAN sample", () => {
+    expect(barcodeToDigitableLine(sampleBarcode)).toBe(sampleDigitableLine);
+  });
+});
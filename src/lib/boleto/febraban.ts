@@ -0,0 +1,72 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+
+// Boleto barcode and "linha digitável" as defined by FEBRABAN. Only the 25
+// digit "campo livre" changes from bank to bank (see banks.ts).
+
+export const onlyDigits = (value: string | null | undefined): string => (value || "").replace(/\D/g, "");
+
+// Módulo 10: weights 2,1,2,1... from the right, the digits of each product are added.
+export const modulo10 = (digits: string): number => {
+  let sum = 0;
+  let weight = 2;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const product = Number(digits[i]) * weight;
+    sum += product > 9 ? Math.floor(product / 10) + (product % 10) : product;
+    weight = weight === 2 ? 1 : 2;
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+// Weighted sum used by every "módulo 11" variant: weights 2..maxWeight from the
+// right, cycling. Each bank turns the remainder into its check digit its own way.
+export const modulo11Remainder = (digits: string, maxWeight = 9): number => {
+  let sum = 0;
+  let weight = 2;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    sum += Number(digits[i]) * weight;
+    weight = weight === maxWeight ? 2 : weight + 1;
+  }
+  return sum % 11;
+};
+
+// General check digit of the barcode (position 5): 0, 10 and 11 become 1.
+const barcodeCheckDigit = (digits43: string): number => {
+  const digit = 11 - modulo11Remainder(digits43);
+  return digit === 0 || digit === 10 || digit === 11 ? 1 : digit;
+};
+
+// Days since 07/10/1997. The factor reached 9999 on 21/02/2025 and restarted
+// at 1000 on 22/02/2025, cycling every 9000 days since then.
+export const dueDateFactor = (dueDate: string): string => {
+  const days = differenceInCalendarDays(parseISO(dueDate), new Date(1997, 9, 7));
+  if (days < 1000) throw new Error("Vencimento inválido para boleto.");
+  const factor = days < 10000 ? days : ((days - 10000) % 9000) + 1000;
+  return factor.toString().padStart(4, "0");
+};
+
+export const amountToCents = (amount: number, length: number): string => {
+  const cents = Math.round(amount * 100);
+  if (cents < 0 || cents.toString().length > length) throw new Error("Valor inválido para boleto.");
+  return cents.toString().padStart(length, "0");
+};
+
+// 44 digits: bank, currency (9), check digit, due date factor, amount, campo livre.
+export const buildBarcode = (bankCode: string, dueDate: string, amount: number, freeField: string): string => {
+  if (!/^\d{25}$/.test(freeField)) throw new Error("Campo livre do boleto inválido.");
+  const withoutCheckDigit = `${bankCode}9${dueDateFactor(dueDate)}${amountToCents(amount, 10)}${freeField}`;
+  const checkDigit = barcodeCheckDigit(withoutCheckDigit);
+  return `${withoutCheckDigit.slice(0, 4)}${checkDigit}${withoutCheckDigit.slice(4)}`;
+};
+
+// Five fields: the first three carry the campo livre with a módulo 10 digit
+// each, then the barcode check digit, then due date factor + amount.
+export const barcodeToDigitableLine = (barcode: string): string => {
+  const field1 = `${barcode.slice(0, 4)}${barcode.slice(19, 24)}`;
+  const field2 = barcode.slice(24, 34);
+  const field3 = barcode.slice(34, 44);
+  const withDigit = (field: string) => `${field}${modulo10(field)}`;
+  const f1 = withDigit(field1);
+  const f2 = withDigit(field2);
+  const f3 = withDigit(field3);
+  return `${f1.slice(0, 5)}.${f1.slice(5)} ${f2.slice(0, 5)}.${f2.slice(5)} ${f3.slice(0, 5)}.${f3.slice(5)} ${barcode[4]} ${barcode.slice(5, 19)}`;
+};
@@ -0,0 +1,4 @@
+export * from "./febraban";
+export * from "./banks";
+export * from "./cnab";
+export * from "./pdf";
@@ -0,0 +1,167 @@
+import jsPDF from "jspdf";
+import type { Boleto, Company, Customer } from "@/types";
+import { boletoBankNames, boletoSourceTypeLabels } from "@/types";
+import { formatAddressForDisplay, formatCurrency, formatDateForDisplay, toTitleCase } from "@/lib/utils";
+
+// Bank codes are printed with their own check digit.
+const bankCodeWithDigit: Record<Boleto["bankCode"], string> = {
+  "001": "001-9",
+  "033": "033-7",
+  "104": "104-0",
+  "237": "237-2",
+  "341": "341-7",
+};
+
+// Interleaved 2 of 5: each digit is 5 elements, 2 of them wide. Pairs of
+// digits are drawn together, the first one in the bars and the second in the
+// spaces between them.
+const itfPatterns = ["nnwwn", "wnnnw", "nwnnw", "wwnnn", "nnwnw", "wnwnn", "nwwnn", "nnnww", "wnnwn", "nwnwn"];
+
+// FEBRABAN size: 44 digits in 103 mm, wide elements three times the narrow ones.
+const drawInterleaved2of5 = (doc: jsPDF, code: string, x: number, y: number, height: number): void => {
+  const narrow = 0.254;
+  const wide = narrow * 3;
+  let cursor = x;
+  const bar = (width: number) => {
+    doc.rect(cursor, y, width, height, "F");
+    cursor += width;
+  };
+  const space = (width: number) => {
+    cursor += width;
+  };
+  doc.setFillColor(0, 0, 0);
+  bar(narrow); space(narrow); bar(narrow); space(narrow);
+  for (let i = 0; i < code.length; i += 2) {
+    const bars = itfPatterns[Number(code[i])];
+    const spaces = itfPatterns[Number(code[i + 1])];
+    for (let k = 0; k < 5; k++) {
+      bar(bars[k] === "w" ? wide : narrow);
+      space(spaces[k] === "w" ? wide : narrow);
+    }
+  }
+  bar(wide); space(narrow); bar(narrow);
+};
+
+const drawField = (
+  doc: jsPDF,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  label: string,
+  value: string,
+  align: "left" | "right" = "left"
+): void => {
+  doc.setDrawColor(0, 0, 0);
+  doc.rect(x, y, width, height);
+  doc.setFontSize(6);
+  doc.setFont("helvetica", "normal");
+  doc.text(label, x + 1, y + 2.5);
+  doc.setFontSize(9);
+  doc.setFont("helvetica", "bold");
+  doc.text(value, align === "right" ? x + width - 1 : x + 1, y + height - 1.5, { align });
+  doc.setFont("helvetica", "normal");
+};
+
+const drawBankHeader = (doc: jsPDF, boleto: Boleto, y: number, rightText: string): void => {
+  doc.setFontSize(12);
+  doc.setFont("helvetica", "bold");
+  doc.text(boletoBankNames[boleto.bankCode], 10, y);
+  doc.setFontSize(14);
+  doc.text(bankCodeWithDigit[boleto.bankCode], 72, y);
+  doc.setFontSize(rightText === boleto.digitableLine ? 10 : 9);
+  doc.text(rightText, 200, y, { align: "right" });
+  doc.setLineWidth(0.5);
+  doc.line(10, y + 1.5, 200, y + 1.5);
+  doc.setLineWidth(0.2);
+  doc.setFont("helvetica", "normal");
+};
+
+const describeCustomer = (customer: Customer | undefined): string[] => {
+  if (!customer) return ["Pagador não encontrado"];
+  return [
+    `${toTitleCase(customer.name)} - CNPJ/CPF: ${customer.cnpj}`,
+    formatAddressForDisplay(customer),
+  ];
+};
+
+// Recibo do pagador on top, ficha de compensação (with the barcode) below the cut line.
+export const generateBoletoPDF = (boleto: Boleto, company: Company, customer: Customer | undefined): void => {
+  const doc = new jsPDF();
+  const beneficiary = `${company.name} - CNPJ: ${company.cnpj}`;
+  const documentLabel = `${boletoSourceTypeLabels[boleto.sourceType]} ${boleto.sourceNumber}`;
+
+  // Recibo do pagador
+  let y = 15;
+  drawBankHeader(doc, boleto, y, "Recibo do Pagador");
+  y += 3;
+  drawField(doc, 10, y, 130, 9, "Beneficiário", beneficiary);
+  drawField(doc, 140, y, 60, 9, "Agência / Código do Beneficiário", boleto.beneficiaryCode, "right");
+  y += 9;
+  drawField(doc, 10, y, 45, 9, "Nº do Documento", documentLabel);
+  drawField(doc, 55, y, 45, 9, "Vencimento", formatDateForDisplay(boleto.dueDate));
+  drawField(doc, 100, y, 50, 9, "Nosso Número", boleto.bankOurNumber, "right");
+  drawField(doc, 150, y, 50, 9, "(=) Valor do Documento", formatCurrency(boleto.amount), "right");
+  y += 9;
+  drawField(doc, 10, y, 190, 9, "Pagador", describeCustomer(customer)[0]);
+  y += 13;
+  doc.setFontSize(8);
+  doc.text("Autenticação mecânica", 200, y, { align: "right" });
+
+  // Cut line
+  y += 12;
+  doc.setLineDashPattern([1, 1], 0);
+  doc.line(10, y, 200, y);
+  doc.setLineDashPattern([], 0);
+  doc.setFontSize(6);
+  doc.text("Corte na linha pontilhada", 200, y - 1, { align: "right" });
+
+  // Ficha de compensação
+  y += 12;
+  drawBankHeader(doc, boleto, y, boleto.digitableLine);
+  y += 3;
+  drawField(doc, 10, y, 140, 9, "Local de Pagamento", "Pagável em qualquer banco até o vencimento");
+  drawField(doc, 150, y, 50, 9, "Vencimento", formatDateForDisplay(boleto.dueDate), "right");
+  y += 9;
+  drawField(doc, 10, y, 140, 9, "Beneficiário", beneficiary);
+  drawField(doc, 150, y, 50, 9, "Agência / Código do Beneficiário", boleto.beneficiaryCode, "right");
+  y += 9;
+  drawField(doc, 10, y, 28, 9, "Data do Documento", formatDateForDisplay(boleto.issueDate));
+  drawField(doc, 38, y, 40, 9, "Nº do Documento", documentLabel);
+  drawField(doc, 78, y, 20, 9, "Espécie Doc.", "DM");
+  drawField(doc, 98, y, 14, 9, "Aceite", "N");
+  drawField(doc, 112, y, 38, 9, "Data Processamento", formatDateForDisplay(boleto.issueDate));
+  drawField(doc, 150, y, 50, 9, "Nosso Número", boleto.bankOurNumber, "right");
+  y += 9;
+  drawField(doc, 10, y, 28, 9, "Uso do Banco", "");
+  drawField(doc, 38, y, 20, 9, "Carteira", boleto.wallet);
+  drawField(doc, 58, y, 20, 9, "Espécie", "R$");
+  drawField(doc, 78, y, 34, 9, "Quantidade", "");
+  drawField(doc, 112, y, 38, 9, "Valor", "");
+  drawField(doc, 150, y, 50, 9, "(=) Valor do Documento", formatCurrency(boleto.amount), "right");
+  y += 9;
+  doc.rect(10, y, 140, 36);
+  doc.setFontSize(6);
+  doc.text("Instruções (texto de responsabilidade do beneficiário)", 11, y + 2.5);
+  doc.setFontSize(8);
+  doc.text([
+    `Referente a: ${documentLabel}.`,
+    "Não receber após 60 dias do vencimento.",
+    company.phone || company.email ? `Dúvidas: ${[company.phone, company.email].filter(Boolean).join(" | ")}` : "",
+  ], 11, y + 7);
+  ["(-) Desconto / Abatimento", "(+) Mora / Multa", "(=) Valor Cobrado"].forEach((label, index) => {
+    drawField(doc, 150, y + index * 12, 50, 12, label, "");
+  });
+  y += 36;
+  doc.rect(10, y, 190, 14);
+  doc.setFontSize(6);
+  doc.text("Pagador", 11, y + 2.5);
+  doc.setFontSize(8);
+  doc.text(describeCustomer(customer), 11, y + 6.5);
+  y += 18;
+  doc.setFontSize(6);
+  doc.text("Autenticação mecânica - Ficha de Compensação", 200, y, { align: "right" });
+  drawInterleaved2of5(doc, boleto.barcode, 10, y + 2, 13);
+
+  doc.save(`boleto_${boleto.sourceNumber}_${boleto.ourNumber}.pdf`);
+};
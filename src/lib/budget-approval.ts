@@ -0,0 +1,30 @@
+import { addDays, parseISO, startOfDay } from "date-fns";
+import type { BudgetApprovalLink } from "@/types";
+
+// Customer approval through a public link. There is no server to check who
+// is answering, so the link id is a random token and the answer only goes
+// through when the name is filled in and the CNPJ/CPF typed matches the
+// customer's. The link anyone with the token can read carries neither the
+// number nor a hash of it: the number sits in a staff-only document with the
+// same id, and firestore.rules compare the answer against it.
+
+export const BUDGET_APPROVAL_PATH = "/budget-approval";
+
+const TOKEN_BYTES = 24;
+
+export function generateBudgetApprovalToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(TOKEN_BYTES));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export const normalizeDocumentDigits = (value: string | null | undefined): string => (value || "").replace(/\D/g, "");
+
+export const getBudgetApprovalUrl = (origin: string, token: string) => `${origin}${BUDGET_APPROVAL_PATH}?token=${token}`;
+
+// The proposal is valid through its last day.
+export function getBudgetApprovalExpiry(validUntilDate: string): Date {
+  return addDays(startOfDay(parseISO(validUntilDate)), 1);
+}
+
+export const isBudgetApprovalLinkExpired = (link: Pick<BudgetApprovalLink, "expiresAt">, now: Date = new Date()): boolean =>
+  !link.expiresAt || parseISO(link.expiresAt) <= now;
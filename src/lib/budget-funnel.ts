@@ -0,0 +1,165 @@
+import { differenceInCalendarDays, differenceInHours, format, isValid, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { Budget, BudgetDisplayStatus, BudgetRefusalReason, Company } from "@/types";
+import { getBudgetApprovalExpiry } from "@/lib/budget-approval";
+
+// Budget follow-up and conversion funnel. Expiry is derived, like overdue
+// invoices: a budget still "Pendente" or "Enviado" after its last valid day is
+// shown and counted as "Expirado" without anything being written. Decision
+// dates come from the status change made here or, for answers given on the
+// approval link, from the customer's response.
+
+export const DEFAULT_BUDGET_FOLLOW_UP_DAYS = 3;
+
+type BudgetFunnelFields = Pick<Budget,
+  "status" | "createdDate" | "validUntilDate" | "sentDate" | "sentRevision" | "decisionDate" | "customerResponse" | "lastFollowUpDate">;
+
+const isAwaitingAnswer = (budget: Pick<Budget, "status">) => budget.status === "Pendente" || budget.status === "Enviado";
+
+export function isBudgetExpired(budget: Pick<Budget, "status" | "validUntilDate">, now: Date = new Date()): boolean {
+  return isAwaitingAnswer(budget) && !!budget.validUntilDate && getBudgetApprovalExpiry(budget.validUntilDate) <= now;
+}
+
+export function getBudgetDisplayStatus(budget: Pick<Budget, "status" | "validUntilDate">, now: Date = new Date()): BudgetDisplayStatus {
+  return isBudgetExpired(budget, now) ? "Expirado" : budget.status;
+}
+
+// Budgets from before sending was dated count as sent when they were marked
+// so or when the customer answered them.
+export function wasBudgetSent(budget: Pick<Budget, "status" | "sentDate" | "sentRevision" | "customerResponse">): boolean {
+  return !!budget.sentDate || budget.sentRevision != null || !!budget.customerResponse
+    || budget.status === "Aprovado" || budget.status === "Recusado";
+}
+
+export function getBudgetDecisionDate(budget: Pick<Budget, "status" | "decisionDate" | "customerResponse">): string | null {
+  if (budget.status !== "Aprovado" && budget.status !== "Recusado") return null;
+  return budget.decisionDate || budget.customerResponse?.respondedAt || null;
+}
+
+export const getBudgetFollowUpDays = (company: Pick<Company, "budgetFollowUpDays"> | null | undefined): number =>
+  company?.budgetFollowUpDays || DEFAULT_BUDGET_FOLLOW_UP_DAYS;
+
+export interface BudgetFollowUp<T extends BudgetFunnelFields = Budget> {
+  budget: T;
+  lastContactDate: string; // Sending or the last follow-up, whichever is later
+  daysWithoutAnswer: number; // Since it was sent
+  daysSinceContact: number;
+}
+
+// Sent budgets, still valid, with no contact for `followUpDays(budget)` days;
+// the longest without contact first. Budgets sent before sending was dated
+// count from their creation.
+export function getBudgetFollowUps<T extends BudgetFunnelFields>(
+  budgets: T[],
+  followUpDays: (budget: T) => number,
+  now: Date = new Date(),
+): BudgetFollowUp<T>[] {
+  return budgets
+    .filter(budget => budget.status === "Enviado" && !isBudgetExpired(budget, now))
+    .map(budget => {
+      const sentDate = budget.sentDate || budget.createdDate;
+      const lastContactDate = budget.lastFollowUpDate && budget.lastFollowUpDate > sentDate ? budget.lastFollowUpDate : sentDate;
+      return {
+        budget,
+        lastContactDate,
+        daysWithoutAnswer: differenceInCalendarDays(now, parseISO(sentDate)),
+        daysSinceContact: differenceInCalendarDays(now, parseISO(lastContactDate)),
+      };
+    })
+    .filter(followUp => followUp.daysSinceContact >= followUpDays(followUp.budget))
+    .sort((a, b) => b.daysSinceContact - a.daysSinceContact);
+}
+
+export interface BudgetFunnelRow {
+  key: string;
+  label: string;
+  created: number;
+  sent: number;
+  approved: number;
+  refused: number;
+  expired: number;
+  approvedValue: number;
+  conversionRate: number | null; // Approved over sent, in percent
+  averageResponseDays: number | null; // From sending to the decision, where both are known
+}
+
+interface FunnelAccumulator extends Omit<BudgetFunnelRow, "conversionRate" | "averageResponseDays"> {
+  responseHours: number[];
+}
+
+const roundTo = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+function toFunnelRow({ responseHours, ...row }: FunnelAccumulator): BudgetFunnelRow {
+  return {
+    ...row,
+    approvedValue: roundTo(row.approvedValue, 2),
+    conversionRate: row.sent > 0 ? roundTo(row.approved / row.sent * 100, 1) : null,
+    averageResponseDays: responseHours.length > 0
+      ? roundTo(responseHours.reduce((sum, hours) => sum + hours, 0) / responseHours.length / 24, 1)
+      : null,
+  };
+}
+
+export interface BudgetFunnelGroup {
+  key: string;
+  label: string;
+}
+
+// Created → sent → approved/refused/expired, one row per group plus the
+// total. Cancelled budgets only count as created.
+export function computeBudgetFunnel<T extends BudgetFunnelFields & Pick<Budget, "totalAmount">>(
+  budgets: T[],
+  groupOf: (budget: T) => BudgetFunnelGroup,
+  now: Date = new Date(),
+): { rows: BudgetFunnelRow[]; total: BudgetFunnelRow } {
+  const emptyAccumulator = (group: BudgetFunnelGroup): FunnelAccumulator => ({
+    ...group, created: 0, sent: 0, approved: 0, refused: 0, expired: 0, approvedValue: 0, responseHours: [],
+  });
+  const groups = new Map<string, FunnelAccumulator>();
+  const total = emptyAccumulator({ key: "total", label: "Total" });
+
+  budgets.forEach(budget => {
+    const group = groupOf(budget);
+    const accumulator = groups.get(group.key) ?? emptyAccumulator(group);
+    groups.set(group.key, accumulator);
+    const sent = wasBudgetSent(budget);
+    const decisionDate = getBudgetDecisionDate(budget);
+    const responseHours = sent && budget.sentDate && decisionDate
+      ? Math.max(0, differenceInHours(parseISO(decisionDate), parseISO(budget.sentDate)))
+      : null;
+
+    [accumulator, total].forEach(target => {
+      target.created++;
+      if (sent) target.sent++;
+      if (budget.status === "Aprovado") {
+        target.approved++;
+        target.approvedValue += budget.totalAmount || 0;
+      }
+      if (budget.status === "Recusado") target.refused++;
+      if (isBudgetExpired(budget, now)) target.expired++;
+      if (responseHours !== null) target.responseHours.push(responseHours);
+    });
+  });
+
+  return { rows: Array.from(groups.values()).map(toFunnelRow), total: toFunnelRow(total) };
+}
+
+export const budgetMonthGroup = (budget: Pick<Budget, "createdDate">): BudgetFunnelGroup => {
+  const date = parseISO(budget.createdDate);
+  if (!isValid(date)) return { key: "sem-data", label: "Sem data" };
+  return { key: format(date, "yyyy-MM"), label: format(date, "MMM/yyyy", { locale: ptBR }) };
+};
+
+export interface BudgetRefusalReasonCount {
+  reason: BudgetRefusalReason | null; // null: refused without a reason recorded
+  count: number;
+}
+
+// Most frequent first.
+export function countBudgetRefusalReasons(budgets: Pick<Budget, "status" | "refusalReason">[]): BudgetRefusalReasonCount[] {
+  const counts = new Map<BudgetRefusalReason | null, number>();
+  budgets
+    .filter(budget => budget.status === "Recusado")
+    .forEach(budget => counts.set(budget.refusalReason ?? null, (counts.get(budget.refusalReason ?? null) ?? 0) + 1));
+  return Array.from(counts, ([reason, count]) => ({ reason, count })).sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,200 @@
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import { addDays, isValid as isValidDateFn, parseISO } from "date-fns";
+import type { Budget, BudgetApprovalCompany, BudgetApprovalCustomer, BudgetApprovalEquipment } from "@/types";
+import { getBudgetDisplayNumber } from "@/lib/budget-revisions";
+import { computeBudgetTotals, formatDiscount, getBudgetItemCategory } from "@/lib/budget-totals";
+import { buildCompanyPixPayload, drawPixPaymentBlock } from "@/lib/pix";
+import { formatAddressForDisplay, formatCurrency, formatDateForDisplay, toTitleCase } from "@/lib/utils";
+
+// Budget PDF, shared by the budgets page and the customer's approval page,
+// which only has the snapshot stored on its link.
+
+export type BudgetPdfContent = Pick<Budget,
+  "budgetNumber" | "revision" | "createdDate" | "validUntilDate" | "items" | "subtotal" | "shippingCost" | "discount" | "taxRates" | "totalAmount" | "notes">;
+
+export const generateBudgetPDF = (
+  budget: BudgetPdfContent,
+  customer: (BudgetApprovalCustomer & { cnpj?: string }) | undefined,
+  equipment: BudgetApprovalEquipment | null | undefined,
+  serviceOrderNumber: string | null | undefined,
+  companyDetails: BudgetApprovalCompany | null
+) => {
+  const doc = new jsPDF();
+  let yPos = 15;
+  const lineSpacing = 6;
+  const sectionSpacing = 10;
+  const smallText = 9;
+  const normalText = 10;
+  const largeText = 12;
+  const titleText = 16;
+
+  if (companyDetails) {
+    doc.setFontSize(largeText);
+    doc.setFont("helvetica", "bold");
+    doc.text(companyDetails.name, 14, yPos);
+    yPos += lineSpacing;
+    doc.setFontSize(smallText);
+    doc.setFont("helvetica", "normal");
+    doc.text(`CNPJ: ${companyDetails.cnpj}`, 14, yPos);
+    yPos += lineSpacing / 2;
+    doc.text(formatAddressForDisplay(companyDetails), 14, yPos);
+    yPos += lineSpacing;
+  } else {
+    doc.setFontSize(largeText);
+    doc.text("Gold Maq Empilhadeiras (Detalhes não encontrados)", 14, yPos);
+    yPos += sectionSpacing;
+  }
+
+  doc.setFontSize(titleText);
+  doc.setFont("helvetica", "bold");
+  doc.text(`ORÇAMENTO Nº ${getBudgetDisplayNumber(budget)}`, 105, yPos, { align: "center" });
+  yPos += sectionSpacing;
+
+  doc.setFontSize(normalText);
+  doc.setFont("helvetica", "normal");
+  doc.text(`Data de Emissão: ${formatDateForDisplay(budget.createdDate)}`, 14, yPos);
+  let validityDisplay = "7 dias (a partir da emissão)";
+  if (budget.validUntilDate && isValidDateFn(parseISO(budget.validUntilDate))) {
+    validityDisplay = formatDateForDisplay(budget.validUntilDate);
+  } else if (budget.createdDate && isValidDateFn(parseISO(budget.createdDate))) {
+     const creationDate = parseISO(budget.createdDate);
+     const validityEndDate = addDays(creationDate, 7);
+     validityDisplay = formatDateForDisplay(validityEndDate);
+  }
+  doc.text(`Validade da Proposta: ${validityDisplay}`, 120, yPos);
+  yPos += sectionSpacing;
+
+  doc.setFontSize(largeText);
+  doc.setFont("helvetica", "bold");
+  doc.text("Dados do Cliente:", 14, yPos);
+  yPos += lineSpacing;
+  doc.setFontSize(normalText);
+  doc.setFont("helvetica", "normal");
+  if (customer) {
+    doc.text(`Nome/Razão Social: ${toTitleCase(customer.name)}`, 14, yPos);
+    yPos += lineSpacing;
+    if (customer.cnpj) {
+      doc.text(`CNPJ: ${customer.cnpj}`, 14, yPos);
+      yPos += lineSpacing;
+    }
+    doc.text(`Endereço: ${formatAddressForDisplay(customer)}`, 14, yPos);
+  } else {
+    doc.text("Cliente não especificado.", 14, yPos);
+  }
+  yPos += sectionSpacing;
+
+  if (equipment) {
+    doc.setFontSize(largeText);
+    doc.setFont("helvetica", "bold");
+    doc.text("Dados da Máquina:", 14, yPos);
+    yPos += lineSpacing;
+    doc.setFontSize(normalText);
+    doc.setFont("helvetica", "normal");
+    doc.text(`Marca/Modelo: ${toTitleCase(equipment.brand)} ${toTitleCase(equipment.model)}`, 14, yPos);
+    yPos += lineSpacing;
+    doc.text(`Chassi: ${equipment.chassisNumber || 'N/A'}`, 14, yPos);
+    yPos += lineSpacing;
+    if (equipment.manufactureYear) {
+      doc.text(`Ano: ${equipment.manufactureYear}`, 14, yPos);
+      yPos += lineSpacing;
+    }
+  }
+  if (serviceOrderNumber) {
+    doc.setFontSize(normalText);
+    doc.text(`Referente à Ordem de Serviço Nº: ${serviceOrderNumber}`, 14, yPos);
+    yPos += lineSpacing;
+  }
+  yPos += (lineSpacing / 2);
+
+  const totals = computeBudgetTotals(budget);
+  const hasItemDiscounts = totals.itemDiscount > 0;
+  const tableColumn = ["Descrição", "Categoria", "Qtd.", "Preço Unit.", ...(hasItemDiscounts ? ["Desconto"] : []), "Subtotal"];
+  const tableRows: any[][] = [];
+  budget.items.forEach((item, index) => {
+    const itemData = [
+      item.description,
+      getBudgetItemCategory(item),
+      item.quantity.toString(),
+      formatCurrency(item.unitPrice),
+      ...(hasItemDiscounts ? [item.discount?.value ? formatDiscount(item.discount) : "-"] : []),
+      formatCurrency(totals.lines[index].net)
+    ];
+    tableRows.push(itemData);
+  });
+
+  const subtotalColumn = tableColumn.length - 1;
+  autoTable(doc, {
+    head: [tableColumn],
+    body: tableRows,
+    startY: yPos,
+    theme: 'grid',
+    headStyles: { fillColor: [249, 115, 22] },
+    styles: { fontSize: 9, cellPadding: 1.5 },
+    columnStyles: {
+        0: { cellWidth: 'auto'},
+        1: { cellWidth: 26 },
+        2: { cellWidth: 12, halign: 'right' },
+        3: { cellWidth: 26, halign: 'right' },
+        ...(hasItemDiscounts && { 4: { cellWidth: 22, halign: 'right' } }),
+        [subtotalColumn]: { cellWidth: 28, halign: 'right' },
+    }
+  });
+
+  // @ts-ignore
+  yPos = doc.lastAutoTable.finalY + sectionSpacing;
+
+  doc.setFontSize(normalText);
+  const totalsLine = (label: string, value: string) => {
+    doc.text(label, 130, yPos);
+    doc.text(value, 196, yPos, { align: 'right' });
+    yPos += lineSpacing;
+  };
+  totals.categories.forEach(entry => totalsLine(entry.category, formatCurrency(entry.gross)));
+  if (totals.itemDiscount > 0) totalsLine("Descontos nos itens", `-${formatCurrency(totals.itemDiscount)}`);
+  if (totals.globalDiscount > 0) {
+    totalsLine(`Desconto geral${budget.discount ? ` (${formatDiscount(budget.discount)})` : ""}`, `-${formatCurrency(totals.globalDiscount)}`);
+  }
+  totals.taxes.forEach(tax => {
+    totalsLine(`${tax.name} ${tax.rate.toLocaleString("pt-BR")}%${tax.addedToTotal ? "" : " (incluso)"}`, formatCurrency(tax.amount));
+  });
+  if (budget.shippingCost && budget.shippingCost > 0) totalsLine("Frete", formatCurrency(budget.shippingCost));
+  doc.setFont("helvetica", "bold");
+  totalsLine("Valor Total", formatCurrency(budget.totalAmount));
+  yPos += sectionSpacing - lineSpacing;
+  doc.setFont("helvetica", "normal");
+
+  if (budget.notes) {
+    doc.setFontSize(largeText);
+    doc.setFont("helvetica", "bold");
+    doc.text("Observações:", 14, yPos);
+    yPos += lineSpacing;
+    doc.setFontSize(normalText);
+    doc.setFont("helvetica", "normal");
+    const splitNotes = doc.splitTextToSize(budget.notes, 180);
+    doc.text(splitNotes, 14, yPos);
+    yPos += splitNotes.length * (lineSpacing / 1.5) + (lineSpacing / 2);
+  }
+
+  if (companyDetails && (companyDetails.bankName || companyDetails.bankPixKey)) {
+    doc.setFontSize(largeText);
+    doc.setFont("helvetica", "bold");
+    doc.text("Dados para Pagamento:", 14, yPos);
+    yPos += lineSpacing;
+    doc.setFontSize(smallText);
+    doc.setFont("helvetica", "normal");
+    if (companyDetails.bankName && companyDetails.bankAgency && companyDetails.bankAccount) {
+        doc.text(`Banco: ${companyDetails.bankName} | Agência: ${companyDetails.bankAgency} | Conta: ${companyDetails.bankAccount}`, 14, yPos);
+        yPos += lineSpacing / 1.5;
+    }
+    if (companyDetails.bankPixKey) {
+        doc.text(`Chave PIX (CNPJ): ${companyDetails.bankPixKey}`, 14, yPos);
+        yPos += lineSpacing / 1.5;
+    }
+    const pixPayload = buildCompanyPixPayload(companyDetails, budget.totalAmount, budget.budgetNumber);
+    if (pixPayload) {
+        yPos = drawPixPaymentBlock(doc, pixPayload, yPos + lineSpacing / 2);
+    }
+  }
+  doc.save(`orcamento_${getBudgetDisplayNumber(budget)}.pdf`);
+};
@@ -0,0 +1,110 @@
+import type { Budget, BudgetDiscount, BudgetItem, BudgetRevision, BudgetTaxRates } from "@/types";
+import { getBudgetItemCategory } from "@/lib/budget-totals";
+
+// Budget revisions. The budget document is the revision being worked on; it is
+// frozen (copied to an immutable BudgetRevision) when it is sent to the
+// customer or approved. Changing the terms of a frozen revision opens the next
+// one (4012-R1, 4012-R2...), so what was sent or approved is never rewritten
+// and an approval always points at an exact set of items and prices. Until it
+// is sent, a revision can be corrected in place.
+
+export type BudgetRevisionContent = Pick<BudgetRevision, "items" | "shippingCost" | "discount" | "taxRates" | "subtotal" | "totalAmount" | "validUntilDate" | "notes">;
+
+export const formatBudgetRevisionNumber = (budgetNumber: string, revision: number | null | undefined): string =>
+  revision ? `${budgetNumber}-R${revision}` : budgetNumber;
+
+export const getBudgetDisplayNumber = (budget: Pick<Budget, "budgetNumber" | "revision">): string =>
+  formatBudgetRevisionNumber(budget.budgetNumber, budget.revision);
+
+export const getBudgetRevisionId = (budgetId: string, revision: number) => `${budgetId}_R${revision}`;
+
+export const isBudgetRevisionFrozen = (budget: Pick<Budget, "revision" | "sentRevision" | "approvedRevision">): boolean => {
+  const revision = budget.revision ?? 0;
+  return budget.sentRevision === revision || budget.approvedRevision === revision;
+};
+
+export function getBudgetRevisionContent(budget: Pick<Budget, "items" | "shippingCost" | "discount" | "taxRates" | "subtotal" | "totalAmount" | "validUntilDate" | "notes">): BudgetRevisionContent {
+  return {
+    items: budget.items.map(item => ({
+      id: item.id,
+      description: item.description,
+      quantity: Number(item.quantity),
+      unitPrice: Number(item.unitPrice),
+      totalPrice: item.totalPrice ?? Number(item.quantity) * Number(item.unitPrice),
+      category: getBudgetItemCategory(item),
+      discount: item.discount ?? null,
+    })),
+    shippingCost: budget.shippingCost ?? null,
+    discount: budget.discount ?? null,
+    taxRates: budget.taxRates ?? null,
+    subtotal: budget.subtotal ?? 0,
+    totalAmount: budget.totalAmount ?? 0,
+    validUntilDate: budget.validUntilDate || null,
+    notes: budget.notes?.trim() || null,
+  };
+}
+
+const sameDiscount = (a: BudgetDiscount | null | undefined, b: BudgetDiscount | null | undefined) =>
+  (Number(a?.value) || 0) === (Number(b?.value) || 0) && (!a?.value || a.type === b?.type);
+
+const sameTaxRates = (a: BudgetTaxRates | null, b: BudgetTaxRates | null) =>
+  (a?.iss ?? 0) === (b?.iss ?? 0) && (a?.icms ?? 0) === (b?.icms ?? 0) && (a?.ipi ?? 0) === (b?.ipi ?? 0);
+
+const sameItem = (a: BudgetItem, b: BudgetItem) =>
+  a.description.trim() === b.description.trim() && Number(a.quantity) === Number(b.quantity) && Number(a.unitPrice) === Number(b.unitPrice)
+  && getBudgetItemCategory(a) === getBudgetItemCategory(b) && sameDiscount(a.discount, b.discount);
+
+const sameDay = (a: string | null, b: string | null) => (a || "").slice(0, 10) === (b || "").slice(0, 10);
+
+// Whether saving `next` over `current` changes what the customer is offered.
+export function hasBudgetTermsChanged(current: BudgetRevisionContent, next: BudgetRevisionContent): boolean {
+  return current.items.length !== next.items.length
+    || current.items.some((item, index) => item.id !== next.items[index].id || !sameItem(item, next.items[index]))
+    || (current.shippingCost ?? 0) !== (next.shippingCost ?? 0)
+    || !sameDiscount(current.discount, next.discount)
+    || !sameTaxRates(current.taxRates, next.taxRates)
+    || !sameDay(current.validUntilDate, next.validUntilDate)
+    || (current.notes || "") !== (next.notes || "");
+}
+
+export type BudgetItemChange =
+  | { type: "added"; after: BudgetItem }
+  | { type: "removed"; before: BudgetItem }
+  | { type: "changed"; before: BudgetItem; after: BudgetItem }
+  | { type: "unchanged"; after: BudgetItem };
+
+export interface BudgetRevisionDiff {
+  items: BudgetItemChange[];
+  shippingCost: { before: number; after: number } | null;
+  discount: { before: BudgetDiscount | null; after: BudgetDiscount | null } | null;
+  taxRatesChanged: boolean;
+  totalAmount: { before: number; after: number };
+  validUntilDate: { before: string | null; after: string | null } | null;
+  notesChanged: boolean;
+}
+
+// Items are matched by id, which the edit form keeps across revisions.
+// Removed items come first, then the new revision's items in order.
+export function diffBudgetRevisions(before: BudgetRevisionContent, after: BudgetRevisionContent): BudgetRevisionDiff {
+  const afterIds = new Set(after.items.map(item => item.id));
+  const beforeById = new Map(before.items.map(item => [item.id, item]));
+  const items: BudgetItemChange[] = [
+    ...before.items.filter(item => !afterIds.has(item.id)).map(item => ({ type: "removed" as const, before: item })),
+    ...after.items.map((item): BudgetItemChange => {
+      const previous = beforeById.get(item.id);
+      if (!previous) return { type: "added", after: item };
+      return sameItem(previous, item) ? { type: "unchanged", after: item } : { type: "changed", before: previous, after: item };
+    }),
+  ];
+  const shippingBefore = before.shippingCost ?? 0;
+  const shippingAfter = after.shippingCost ?? 0;
+  return {
+    items,
+    shippingCost: shippingBefore !== shippingAfter ? { before: shippingBefore, after: shippingAfter } : null,
+    discount: sameDiscount(before.discount, after.discount) ? null : { before: before.discount, after: after.discount },
+    taxRatesChanged: !sameTaxRates(before.taxRates, after.taxRates),
+    totalAmount: { before: before.totalAmount, after: after.totalAmount },
+    validUntilDate: sameDay(before.validUntilDate, after.validUntilDate) ? null : { before: before.validUntilDate, after: after.validUntilDate },
+    notesChanged: (before.notes || "") !== (after.notes || ""),
+  };
+}
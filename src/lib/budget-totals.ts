@@ -0,0 +1,136 @@
+import type { BudgetDiscount, BudgetItem, BudgetItemCategory, BudgetTaxRates, Company } from "@/types";
+import { budgetItemCategoryOptions } from "@/types";
+import { formatCurrency } from "@/lib/utils";
+
+// Budget totals. Each item may carry its own discount and the budget a global
+// one, taken from what is left after the item discounts and spread over the
+// categories in proportion to their value. Taxes follow the issuing company's
+// rates: ISS on services (labor, travel and third parties) and ICMS on parts
+// are already in the prices and are only shown; IPI on parts is added to the
+// total. Shipping is outside both discounts and taxes.
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export type BudgetTaxName = "ISS" | "ICMS" | "IPI";
+
+export interface BudgetLineTotals {
+  gross: number;
+  discount: number;
+  net: number;
+}
+
+// `net` is after the item discounts and the category's share of the global
+// one, and is what the taxes are computed on.
+export interface BudgetCategorySubtotal extends BudgetLineTotals {
+  category: BudgetItemCategory;
+}
+
+export interface BudgetTaxLine {
+  name: BudgetTaxName;
+  rate: number;
+  base: number;
+  amount: number;
+  addedToTotal: boolean;
+}
+
+export interface BudgetTotals {
+  lines: BudgetLineTotals[];
+  categories: BudgetCategorySubtotal[]; // Only categories with items, in the options' order
+  grossSubtotal: number;
+  itemDiscount: number;
+  subtotal: number; // After item discounts, as stored on the budget
+  globalDiscount: number;
+  taxes: BudgetTaxLine[]; // Only rates above zero
+  shippingCost: number;
+  totalAmount: number;
+}
+
+export interface BudgetTotalsInput {
+  items: Pick<BudgetItem, "quantity" | "unitPrice" | "category" | "discount">[];
+  discount?: BudgetDiscount | null;
+  taxRates?: BudgetTaxRates | null;
+  shippingCost?: number | null;
+}
+
+const serviceCategories: BudgetItemCategory[] = ["Mão de Obra", "Deslocamento", "Terceiros"];
+
+// Snapshot stored on new budgets; null when the company charges none.
+export function getCompanyTaxRates(company: Pick<Company, "issRate" | "icmsRate" | "ipiRate"> | null | undefined): BudgetTaxRates | null {
+  const rates = { iss: Number(company?.issRate) || 0, icms: Number(company?.icmsRate) || 0, ipi: Number(company?.ipiRate) || 0 };
+  return rates.iss || rates.icms || rates.ipi ? rates : null;
+}
+
+export const getBudgetItemCategory = (item: Pick<BudgetItem, "category">): BudgetItemCategory => item.category ?? "Peça";
+
+export function applyDiscount(amount: number, discount: BudgetDiscount | null | undefined): number {
+  const value = Number(discount?.value) || 0;
+  if (!discount || value <= 0 || amount <= 0) return 0;
+  return roundCurrency(Math.min(discount.type === "percent" ? amount * value / 100 : value, amount));
+}
+
+export const formatDiscount = (discount: BudgetDiscount): string =>
+  discount.type === "percent" ? `${Number(discount.value).toLocaleString("pt-BR")}%` : formatCurrency(Number(discount.value));
+
+export function computeBudgetTotals({ items, discount, taxRates, shippingCost }: BudgetTotalsInput): BudgetTotals {
+  const lines = items.map(item => {
+    const gross = roundCurrency(Number(item.quantity) * Number(item.unitPrice));
+    const lineDiscount = applyDiscount(gross, item.discount);
+    return { gross, discount: lineDiscount, net: roundCurrency(gross - lineDiscount) };
+  });
+  const grossSubtotal = roundCurrency(lines.reduce((sum, line) => sum + line.gross, 0));
+  const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.net, 0));
+  const globalDiscount = applyDiscount(subtotal, discount);
+
+  const presentCategories = budgetItemCategoryOptions.filter(category => items.some(item => getBudgetItemCategory(item) === category));
+  let assignedDiscount = 0;
+  const categories = presentCategories.map((category, index): BudgetCategorySubtotal => {
+    const categoryLines = lines.filter((_, lineIndex) => getBudgetItemCategory(items[lineIndex]) === category);
+    const gross = roundCurrency(categoryLines.reduce((sum, line) => sum + line.gross, 0));
+    const beforeGlobal = roundCurrency(categoryLines.reduce((sum, line) => sum + line.net, 0));
+    // The last category takes the rounding remainder so the shares add up.
+    const globalShare = index === presentCategories.length - 1
+      ? roundCurrency(globalDiscount - assignedDiscount)
+      : subtotal > 0 ? roundCurrency(globalDiscount * beforeGlobal / subtotal) : 0;
+    assignedDiscount = roundCurrency(assignedDiscount + globalShare);
+    const categoryDiscount = roundCurrency(gross - beforeGlobal + globalShare);
+    return { category, gross, discount: categoryDiscount, net: roundCurrency(gross - categoryDiscount) };
+  });
+
+  const netFor = (included: BudgetItemCategory[]) =>
+    roundCurrency(categories.filter(entry => included.includes(entry.category)).reduce((sum, entry) => sum + entry.net, 0));
+  const servicesBase = netFor(serviceCategories);
+  const partsBase = netFor(["Peça"]);
+  const taxLine = (name: BudgetTaxName, rate: number | undefined, base: number, addedToTotal: boolean): BudgetTaxLine =>
+    ({ name, rate: Number(rate) || 0, base, amount: roundCurrency(base * (Number(rate) || 0) / 100), addedToTotal });
+  const taxes = [
+    taxLine("ISS", taxRates?.iss, servicesBase, false),
+    taxLine("ICMS", taxRates?.icms, partsBase, false),
+    taxLine("IPI", taxRates?.ipi, partsBase, true),
+  ].filter(tax => tax.rate > 0 && tax.base > 0);
+
+  const shipping = roundCurrency(Number(shippingCost) || 0);
+  const addedTaxes = taxes.filter(tax => tax.addedToTotal).reduce((sum, tax) => sum + tax.amount, 0);
+  return {
+    lines,
+    categories,
+    grossSubtotal,
+    itemDiscount: roundCurrency(grossSubtotal - subtotal),
+    subtotal,
+    globalDiscount,
+    taxes,
+    shippingCost: shipping,
+    totalAmount: roundCurrency(subtotal - globalDiscount + addedTaxes + shipping),
+  };
+}
+
+// One line per category (before discounts), discount and tax, for the
+// WhatsApp and e-mail texts; shipping and the total are written by the caller.
+export function formatBudgetTotalsLines(totals: BudgetTotals): string[] {
+  return [
+    ...totals.categories.map(entry => `${entry.category}: ${formatCurrency(entry.gross)}`),
+    ...(totals.itemDiscount > 0 ? [`Descontos nos itens: -${formatCurrency(totals.itemDiscount)}`] : []),
+    ...(totals.globalDiscount > 0 ? [`Desconto geral: -${formatCurrency(totals.globalDiscount)}`] : []),
+    ...totals.taxes.map(tax =>
+      `${tax.name} (${tax.rate.toLocaleString("pt-BR")}%${tax.addedToTotal ? "" : ", incluso"}): ${formatCurrency(tax.amount)}`),
+  ];
+}
@@ -0,0 +1,108 @@
+import type { Budget, BudgetItem, BudgetItemCategory, CatalogItem, CatalogItemKind, Maquina } from "@/types";
+import { computeBudgetTotals } from "@/lib/budget-totals";
+import { formatCurrency } from "@/lib/utils";
+
+// Parts and services catalog. Budget and requisition lines picked from it copy
+// its description and prices, so later catalog changes never touch what was
+// already quoted; budget lines also keep the cost of the moment, which is what
+// the budget margin is computed from.
+
+const roundTo = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+const normalizeSearchText = (value: string) =>
+  value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim();
+
+// Markup over cost, in percent; null without a cost to compare with.
+export function getCatalogMarkup(item: Pick<CatalogItem, "costPrice" | "salePrice">): number | null {
+  if (!item.costPrice || item.costPrice <= 0) return null;
+  return roundTo((item.salePrice / item.costPrice - 1) * 100, 2);
+}
+
+export const applyCatalogMarkup = (costPrice: number, markupPercent: number): number =>
+  roundTo(costPrice * (1 + markupPercent / 100), 2);
+
+export function formatCatalogPrice(item: Pick<CatalogItem, "kind" | "salePrice" | "pricing">): string {
+  const price = formatCurrency(item.salePrice);
+  if (item.kind === "Peça") return price;
+  return item.pricing === "Por Hora" ? `${price}/h` : `${price} (fixo)`;
+}
+
+// Parts without brands or models fit any machine; services always do.
+export function isCatalogItemCompatible(item: CatalogItem, equipment: Pick<Maquina, "brand" | "model"> | null | undefined): boolean {
+  if (item.kind === "Serviço" || !equipment) return true;
+  const matches = (list: string[], value: string) =>
+    list.length === 0 || list.some(entry => normalizeSearchText(entry) === normalizeSearchText(value || ""));
+  return matches(item.compatibleBrands, equipment.brand) && matches(item.compatibleModels, equipment.model);
+}
+
+export interface CatalogSearchOptions {
+  kind?: CatalogItemKind;
+  equipment?: Pick<Maquina, "brand" | "model"> | null;
+  limit?: number;
+}
+
+// Active items whose code or description has every word typed. Items that fit
+// the machine come first, then codes starting with the search.
+export function searchCatalogItems(items: CatalogItem[], term: string, { kind, equipment, limit = 8 }: CatalogSearchOptions = {}): CatalogItem[] {
+  const words = normalizeSearchText(term).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+  const scored = items
+    .filter(item => item.active && (!kind || item.kind === kind))
+    .map(item => ({ item, text: normalizeSearchText(`${item.code} ${item.description}`) }))
+    .filter(({ text }) => words.every(word => text.includes(word)))
+    .map(({ item }) => ({
+      item,
+      score: (isCatalogItemCompatible(item, equipment) ? 2 : 0) + (normalizeSearchText(item.code).startsWith(words[0]) ? 1 : 0),
+    }));
+  return scored
+    .sort((a, b) => b.score - a.score || a.item.code.localeCompare(b.item.code))
+    .slice(0, limit)
+    .map(({ item }) => item);
+}
+
+const catalogCategory = (item: CatalogItem): BudgetItemCategory => item.kind === "Peça" ? "Peça" : "Mão de Obra";
+
+// Fields a budget line takes from the catalog; quantity and discount stay as typed.
+export function catalogItemToBudgetItem(item: CatalogItem): Pick<BudgetItem, "description" | "unitPrice" | "category" | "catalogItemId" | "unitCost"> {
+  return {
+    description: `${item.code} - ${item.description}`,
+    unitPrice: item.salePrice,
+    category: catalogCategory(item),
+    catalogItemId: item.id,
+    unitCost: item.costPrice,
+  };
+}
+
+export interface BudgetMargin {
+  revenue: number; // Lines with a known cost, after discounts; shipping and added taxes are left out
+  cost: number;
+  margin: number;
+  marginPercent: number | null; // Over revenue
+  linesWithoutCost: number;
+}
+
+// The global discount is spread over the lines in proportion to their value.
+export function computeBudgetMargin(budget: Pick<Budget, "items" | "discount">): BudgetMargin {
+  const totals = computeBudgetTotals({ items: budget.items, discount: budget.discount });
+  const discountFactor = totals.subtotal > 0 ? (totals.subtotal - totals.globalDiscount) / totals.subtotal : 0;
+  let revenue = 0;
+  let cost = 0;
+  let linesWithoutCost = 0;
+  budget.items.forEach((item, index) => {
+    if (typeof item.unitCost !== "number") {
+      linesWithoutCost++;
+      return;
+    }
+    revenue += totals.lines[index].net * discountFactor;
+    cost += item.unitCost * Number(item.quantity);
+  });
+  revenue = roundTo(revenue, 2);
+  cost = roundTo(cost, 2);
+  return {
+    revenue,
+    cost,
+    margin: roundTo(revenue - cost, 2),
+    marginPercent: revenue > 0 ? roundTo((revenue - cost) / revenue * 100, 1) : null,
+    linesWithoutCost,
+  };
+}
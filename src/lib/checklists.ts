@@ -0,0 +1,49 @@
+import type { ChecklistTemplate, ServiceOrderChecklist, ServiceOrderChecklistItem } from "@/types";
+
+// Standard inspection of a forklift, offered when a new template is created.
+export const defaultChecklistItemLabels = [
+  "Garfos", "Correntes", "Sistema hidráulico", "Bateria", "Freios", "Buzina",
+] as const;
+
+export interface ChecklistSummary {
+  ok: number;
+  nok: number;
+  notApplicable: number;
+  pending: number;
+}
+
+// Active template for the order's service type; one made for the machine
+// type wins over a generic one.
+export function findChecklistTemplate(
+  templates: ChecklistTemplate[],
+  serviceType: string,
+  equipmentType: string | null | undefined
+): ChecklistTemplate | null {
+  const candidates = templates.filter(template => template.active
+    && template.serviceType === serviceType
+    && (!template.equipmentType || template.equipmentType === equipmentType));
+  return candidates.find(template => !!template.equipmentType) || candidates[0] || null;
+}
+
+export function createChecklistFromTemplate(template: ChecklistTemplate, serviceOrderId: string): ServiceOrderChecklist {
+  return {
+    id: serviceOrderId,
+    serviceOrderId,
+    templateId: template.id,
+    templateName: template.name,
+    items: template.items.map(item => ({ id: item.id, label: item.label, result: null, notes: null, photoUrl: null })),
+  };
+}
+
+export function summarizeChecklist(items: ServiceOrderChecklistItem[]): ChecklistSummary {
+  return {
+    ok: items.filter(item => item.result === "OK").length,
+    nok: items.filter(item => item.result === "NOK").length,
+    notApplicable: items.filter(item => item.result === "N/A").length,
+    pending: items.filter(item => !item.result).length,
+  };
+}
+
+// NOK items that still have no budget; they are what a follow-up budget quotes.
+export const getUnquotedNokItems = (items: ServiceOrderChecklistItem[]): ServiceOrderChecklistItem[] =>
+  items.filter(item => item.result === "NOK" && !item.budgetId);
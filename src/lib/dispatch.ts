@@ -0,0 +1,83 @@
+import { addDays, differenceInCalendarDays, format, isValid, parseISO } from "date-fns";
+import type { ServiceOrder, Vehicle } from "@/types";
+
+// Scheduling rules of the dispatch board. Orders are planned by day
+// (yyyy-MM-dd, like the rest of the app): an order occupies its technician and
+// vehicle from `startDate` through `endDate`, inclusive.
+
+export type DispatchResourceType = "technician" | "vehicle";
+
+export interface DispatchDateRange {
+  start: string;
+  end: string;
+}
+
+export const isOpenServiceOrder = (order: ServiceOrder): boolean =>
+  order.phase !== "Concluída" && order.phase !== "Cancelada";
+
+// Null while the order is not scheduled. A missing or earlier end date counts
+// as a single-day order.
+export function getOrderDateRange(order: ServiceOrder): DispatchDateRange | null {
+  if (!order.startDate || !isValid(parseISO(order.startDate))) return null;
+  const end = order.endDate && order.endDate >= order.startDate ? order.endDate : order.startDate;
+  return { start: order.startDate, end };
+}
+
+export const rangesOverlap = (a: DispatchDateRange, b: DispatchDateRange): boolean =>
+  a.start <= b.end && b.start <= a.end;
+
+export const isOrderOnDay = (order: ServiceOrder, day: string): boolean => {
+  const range = getOrderDateRange(order);
+  return !!range && range.start <= day && day <= range.end;
+};
+
+export const getOrderResourceId = (order: ServiceOrder, resourceType: DispatchResourceType): string | null =>
+  (resourceType === "technician" ? order.technicianId : order.vehicleId) || null;
+
+// Moves the order to start on `day`, keeping how many days it lasts.
+export function rescheduleOrder(order: ServiceOrder, day: string): Pick<ServiceOrder, "startDate" | "endDate"> {
+  const range = getOrderDateRange(order);
+  if (!range) return { startDate: day, endDate: order.endDate && order.endDate >= day ? order.endDate : day };
+  const duration = differenceInCalendarDays(parseISO(range.end), parseISO(range.start));
+  return { startDate: day, endDate: format(addDays(parseISO(day), duration), "yyyy-MM-dd") };
+}
+
+// Messages per order id for open orders that double-book a technician or a
+// vehicle, or use a vehicle that is in maintenance.
+export function findDispatchConflicts(
+  orders: ServiceOrder[],
+  vehicles: Vehicle[],
+  orderLabel: (order: ServiceOrder) => string = order => `OS ${order.orderNumber}`
+): Map<string, string[]> {
+  const conflicts = new Map<string, string[]>();
+  const add = (orderId: string, message: string) => conflicts.set(orderId, [...(conflicts.get(orderId) || []), message]);
+
+  const scheduled = orders
+    .filter(isOpenServiceOrder)
+    .map(order => ({ order, range: getOrderDateRange(order) }))
+    .filter((entry): entry is { order: ServiceOrder; range: DispatchDateRange } => entry.range !== null);
+
+  scheduled.forEach(({ order, range }, index) => {
+    scheduled.slice(index + 1).forEach(other => {
+      if (!rangesOverlap(range, other.range)) return;
+      // Orders planned together on a day's route share the technician by design.
+      const sameDailyRoute = !!order.dailyRouteId && order.dailyRouteId === other.order.dailyRouteId;
+      if (order.technicianId && order.technicianId === other.order.technicianId && !sameDailyRoute) {
+        add(order.id, `Técnico também na ${orderLabel(other.order)}.`);
+        add(other.order.id, `Técnico também na ${orderLabel(order)}.`);
+      }
+      if (order.vehicleId && order.vehicleId === other.order.vehicleId && !sameDailyRoute) {
+        add(order.id, `Veículo também na ${orderLabel(other.order)}.`);
+        add(other.order.id, `Veículo também na ${orderLabel(order)}.`);
+      }
+    });
+  });
+
+  const vehiclesInMaintenance = new Map(vehicles.filter(vehicle => vehicle.status === "Manutenção").map(vehicle => [vehicle.id, vehicle]));
+  orders.filter(isOpenServiceOrder).forEach(order => {
+    const vehicle = order.vehicleId ? vehiclesInMaintenance.get(order.vehicleId) : undefined;
+    if (vehicle) add(order.id, `Veículo ${vehicle.model} (${vehicle.licensePlate}) está em manutenção.`);
+  });
+
+  return conflicts;
+}
@@ -2,8 +2,11 @@
 console.log("Firebase.ts: Module loading. NODE_ENV:", process.env.NODE_ENV, "Window defined:", typeof window !== 'undefined');
 
 import { initializeApp, getApp, getApps, type FirebaseApp } from "firebase/app";
-import { getFirestore, type Firestore } from "firebase/firestore";
-import { getStorage, type FirebaseStorage } from "firebase/storage";
+import {
+  getFirestore, initializeFirestore, persistentLocalCache, persistentMultipleTabManager, connectFirestoreEmulator, type Firestore,
+} from "firebase/firestore";
+import { getStorage, connectStorageEmulator, type FirebaseStorage } from "firebase/storage";
+import { getAuth, connectAuthEmulator, type Auth } from "firebase/auth";
 
 interface FirebaseConfig {
   apiKey: string;
@@ -43,6 +46,7 @@ const missingEnvVarKeys: string[] = requiredKeys.filter(key => !firebaseConfigVa
 let app: FirebaseApp | null = null;
 let db: Firestore | null = null;
 let storage: FirebaseStorage | null = null;
+let auth: Auth | null = null;
 
 if (missingEnvVarKeys.length > 0) {
   const errorMessage = `Firebase Fatal Error: Essential Firebase configuration is missing for the following keys: ${missingEnvVarKeys.join(", ")}.
@@ -81,13 +85,35 @@ Application may not function correctly without these Firebase credentials.`;
     }
 
     console.log("Firebase.ts: Getting Firestore instance...");
-    db = getFirestore(app);
+    // In the browser the cache lives in IndexedDB, so the field mode (/field)
+    // can read orders and queue writes without a connection. It can only be
+    // set up once per app, hence getFirestore on hot reloads.
+    try {
+      db = typeof window !== 'undefined'
+        ? initializeFirestore(app, { localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }) })
+        : getFirestore(app);
+    } catch (persistenceError) {
+      console.warn("Firebase.ts: Firestore already initialized, reusing instance.", persistenceError);
+      db = getFirestore(app);
+    }
     console.log("Firebase.ts: Firestore instance retrieved.");
 
     console.log("Firebase.ts: Getting Storage instance...");
     storage = getStorage(app);
     console.log("Firebase.ts: Storage instance retrieved.");
 
+    console.log("Firebase.ts: Getting Auth instance...");
+    auth = getAuth(app);
+    console.log("Firebase.ts: Auth instance retrieved.");
+
+    // Ports match the "emulators" block of firebase.json (`firebase emulators:start`).
+    if (process.env.NEXT_PUBLIC_USE_FIREBASE_EMULATORS === "true") {
+      console.log("Firebase.ts: Connecting to the local Firebase emulators...");
+      connectFirestoreEmulator(db, "127.0.0.1", 8080);
+      connectStorageEmulator(storage, "127.0.0.1", 9199);
+      connectAuthEmulator(auth, "http://127.0.0.1:9099", { disableWarnings: true });
+    }
+
     if (app) {
       console.log("Firebase.ts: Firebase initialized successfully. Project ID:", app.options.projectId);
     } else {
@@ -99,4 +125,4 @@ Application may not function correctly without these Firebase credentials.`;
   }
 }
 
-export { db, storage, app };
+export { db, storage, auth, app };
@@ -0,0 +1,62 @@
+import { differenceInMinutes, parseISO } from "date-fns";
+import type { LaborTimeEntry } from "@/types";
+
+// Totals of the time technicians logged on service orders. Entries still open
+// (no check-out) are listed but never counted, so a total only grows when the
+// technician checks out.
+
+export interface LaborTimeSummary {
+  travelHours: number;
+  onSiteHours: number;
+  totalHours: number;
+  laborCost: number;
+  openEntries: number;
+}
+
+export interface TechnicianProductivity extends LaborTimeSummary {
+  technicianId: string;
+  technicianName: string;
+  serviceOrderCount: number;
+}
+
+export function getLaborEntryHours(entry: LaborTimeEntry): number | null {
+  if (!entry.checkOut) return null;
+  return Math.max(differenceInMinutes(parseISO(entry.checkOut), parseISO(entry.checkIn)), 0) / 60;
+}
+
+export const getLaborEntryCost = (entry: LaborTimeEntry): number =>
+  (getLaborEntryHours(entry) ?? 0) * (entry.hourlyRate ?? 0);
+
+export function summarizeLaborTime(entries: LaborTimeEntry[]): LaborTimeSummary {
+  return entries.reduce<LaborTimeSummary>((summary, entry) => {
+    const hours = getLaborEntryHours(entry);
+    if (hours === null) return { ...summary, openEntries: summary.openEntries + 1 };
+    return {
+      travelHours: summary.travelHours + (entry.kind === "Deslocamento" ? hours : 0),
+      onSiteHours: summary.onSiteHours + (entry.kind === "Atendimento" ? hours : 0),
+      totalHours: summary.totalHours + hours,
+      laborCost: summary.laborCost + getLaborEntryCost(entry),
+      openEntries: summary.openEntries,
+    };
+  }, { travelHours: 0, onSiteHours: 0, totalHours: 0, laborCost: 0, openEntries: 0 });
+}
+
+// One line per technician, most hours first.
+export function getTechnicianProductivity(entries: LaborTimeEntry[]): TechnicianProductivity[] {
+  const byTechnician = new Map<string, LaborTimeEntry[]>();
+  entries.forEach(entry => byTechnician.set(entry.technicianId, [...(byTechnician.get(entry.technicianId) || []), entry]));
+  return Array.from(byTechnician.entries())
+    .map(([technicianId, technicianEntries]) => ({
+      technicianId,
+      technicianName: technicianEntries[0].technicianName,
+      serviceOrderCount: new Set(technicianEntries.map(entry => entry.serviceOrderId)).size,
+      ...summarizeLaborTime(technicianEntries),
+    }))
+    .sort((a, b) => b.totalHours - a.totalHours);
+}
+
+// 1.5 -> "1h30"
+export function formatLaborHours(hours: number): string {
+  const totalMinutes = Math.round(hours * 60);
+  return `${Math.floor(totalMinutes / 60)}h${String(totalMinutes % 60).padStart(2, "0")}`;
+}
@@ -0,0 +1,103 @@
+import type { ServiceOrderPhaseType } from "@/types";
+
+// Work done in the field mode while offline. Each entry is kept in IndexedDB
+// (photos as the File itself) until src/lib/offline-sync.ts replays it; an
+// entry that the server rejects stays with its error until it is discarded.
+
+export interface OfflineSignature {
+  dataUrl: string;
+  signerName: string;
+  signerDocument: string;
+  signedAt: string;
+}
+
+export interface OfflinePartRequest {
+  partName: string;
+  quantity: number;
+  notes: string | null;
+}
+
+export type OfflineOperation =
+  | { kind: "phase"; orderId: string; orderNumber: string; phase: ServiceOrderPhaseType }
+  | { kind: "photo"; orderId: string; orderNumber: string; file: File }
+  | {
+      kind: "conclusion"; orderId: string; orderNumber: string;
+      technicalConclusion: string; endDate: string; signature: OfflineSignature | null;
+    }
+  | {
+      kind: "partsRequisition"; orderId: string; orderNumber: string;
+      requisitionId: string; technicianId: string; technicianName: string;
+      items: OfflinePartRequest[]; generalNotes: string | null;
+    };
+
+export interface QueuedOperation {
+  id: string;
+  createdAt: string;
+  operation: OfflineOperation;
+  error: string | null;
+}
+
+const DATABASE_NAME = "goldmaq-field";
+const STORE_NAME = "outbox";
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+const listeners = new Set<() => void>();
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("Este navegador não permite salvar dados offline."));
+  }
+  databasePromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error);
+    };
+  });
+  return databasePromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+const notifyListeners = () => listeners.forEach(listener => listener());
+
+export function subscribeToOfflineQueue(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+// Oldest first: operations on the same order must run in the order they were made.
+export async function listQueuedOperations(): Promise<QueuedOperation[]> {
+  const operations = await withStore<QueuedOperation[]>("readonly", store => store.getAll());
+  return operations.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function enqueueOfflineOperation(operation: OfflineOperation): Promise<QueuedOperation> {
+  const queued: QueuedOperation = { id: crypto.randomUUID(), createdAt: new Date().toISOString(), operation, error: null };
+  await withStore("readwrite", store => store.put(queued));
+  notifyListeners();
+  return queued;
+}
+
+export async function markQueuedOperationFailed(queued: QueuedOperation, error: string): Promise<void> {
+  await withStore("readwrite", store => store.put({ ...queued, error }));
+  notifyListeners();
+}
+
+export async function removeQueuedOperation(id: string): Promise<void> {
+  await withStore("readwrite", store => store.delete(id));
+  notifyListeners();
+}
@@ -0,0 +1,118 @@
+import type { ServiceOrderSignature } from "@/types";
+import {
+  createPartsRequisition, fetchPartsRequisitionById, fetchServiceOrderById, updateServiceOrderFields, PENDING_DOCUMENT_NUMBER,
+} from "@/lib/repositories";
+import { MAX_SERVICE_ORDER_FILES, deleteServiceOrderFileFromStorage, uploadServiceOrderFile, uploadServiceOrderSignature } from "@/lib/service-order-files";
+import {
+  listQueuedOperations, markQueuedOperationFailed, removeQueuedOperation, type OfflineOperation,
+} from "@/lib/offline-queue";
+
+export interface OfflineSyncResult {
+  synced: number;
+  failed: number;
+  // Still waiting for a connection (or for an earlier failure on the same order).
+  remaining: number;
+}
+
+// Firestore transactions and Storage uploads fail with these while offline;
+// the operation stays queued instead of being marked as failed.
+const CONNECTIVITY_ERROR_CODES = ["unavailable", "deadline-exceeded", "storage/retry-limit-exceeded", "storage/canceled"];
+
+const isConnectivityError = (error: any): boolean =>
+  (typeof navigator !== "undefined" && !navigator.onLine)
+  || CONNECTIVITY_ERROR_CODES.includes(error?.code)
+  || /offline/i.test(error?.message || "");
+
+async function runOperation(operation: OfflineOperation): Promise<void> {
+  switch (operation.kind) {
+    case "phase":
+      await updateServiceOrderFields(operation.orderId, { phase: operation.phase });
+      return;
+
+    case "photo": {
+      const order = await fetchServiceOrderById(operation.orderId);
+      if (!order) throw new Error("Ordem de serviço não encontrada.");
+      const mediaUrls = order.mediaUrls || [];
+      if (mediaUrls.length >= MAX_SERVICE_ORDER_FILES) {
+        throw new Error(`A OS já tem ${MAX_SERVICE_ORDER_FILES} arquivos anexados.`);
+      }
+      const url = await uploadServiceOrderFile(operation.file, operation.orderId);
+      try {
+        await updateServiceOrderFields(operation.orderId, { mediaUrls: [...mediaUrls, url] });
+      } catch (error) {
+        await deleteServiceOrderFileFromStorage(url);
+        throw error;
+      }
+      return;
+    }
+
+    case "conclusion": {
+      let customerSignature: ServiceOrderSignature | undefined;
+      try {
+        if (operation.signature) {
+          const { dataUrl, ...signer } = operation.signature;
+          customerSignature = { ...signer, imageUrl: await uploadServiceOrderSignature(dataUrl, operation.orderId) };
+        }
+        await updateServiceOrderFields(operation.orderId, {
+          phase: "Concluída",
+          technicalConclusion: operation.technicalConclusion,
+          endDate: operation.endDate,
+          customerSignature,
+        });
+      } catch (error) {
+        await deleteServiceOrderFileFromStorage(customerSignature?.imageUrl);
+        throw error;
+      }
+      return;
+    }
+
+    case "partsRequisition":
+      // The connection may drop after the server saved it; the id is fixed
+      // when queued, so a replay does not create a second requisition.
+      if (await fetchPartsRequisitionById(operation.requisitionId)) return;
+      await createPartsRequisition(operation.requisitionId, {
+        requisitionNumber: PENDING_DOCUMENT_NUMBER,
+        serviceOrderId: operation.orderId,
+        technicianId: operation.technicianId,
+        technicianName: operation.technicianName,
+        status: "Pendente",
+        items: operation.items.map(item => ({ id: crypto.randomUUID(), ...item, status: "Pendente Aprovação" })),
+        generalNotes: operation.generalNotes,
+      });
+      return;
+  }
+}
+
+let currentSync: Promise<OfflineSyncResult> | null = null;
+
+async function replayQueue(): Promise<OfflineSyncResult> {
+  const result: OfflineSyncResult = { synced: 0, failed: 0, remaining: 0 };
+  const blockedOrderIds = new Set<string>();
+
+  for (const queued of await listQueuedOperations()) {
+    const { orderId } = queued.operation;
+    if (queued.error || blockedOrderIds.has(orderId)) {
+      blockedOrderIds.add(orderId);
+      continue;
+    }
+    try {
+      await runOperation(queued.operation);
+      await removeQueuedOperation(queued.id);
+      result.synced++;
+    } catch (error: any) {
+      if (isConnectivityError(error)) break;
+      console.error(`offline-sync: ${queued.operation.kind} da OS ${queued.operation.orderNumber} recusado:`, error);
+      await markQueuedOperationFailed(queued, error?.message || "Erro desconhecido.");
+      blockedOrderIds.add(orderId);
+      result.failed++;
+    }
+  }
+  result.remaining = (await listQueuedOperations()).filter(queued => !queued.error).length;
+  return result;
+}
+
+// Replays the queue in order. Calls made while a replay is running share it.
+export function flushOfflineQueue(): Promise<OfflineSyncResult> {
+  currentSync ??= replayQueue().finally(() => { currentSync = null; });
+  return currentSync;
+}
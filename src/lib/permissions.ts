@@ -0,0 +1,151 @@
+import type { Technician } from "@/types";
+import { roleOptionsList } from "@/types";
+
+export type RoleType = typeof roleOptionsList[number];
+
+export const permissionList = [
+  "dashboard:view",
+  "customers:view", "customers:manage",
+  "maquinas:view", "maquinas:manage",
+  "rentals:view", "rentals:manage",
+  "billing:view", "billing:manage",
+  "serviceOrders:view", "serviceOrders:viewAll", "serviceOrders:manage",
+  "budgets:view", "budgets:manage", "budgets:approve",
+  "partsRequisitions:view",
+  "partsTriage:work",
+  "partsWarehouse:work",
+  "technicians:view", "technicians:manage",
+  "vehicles:view", "vehicles:manage",
+  "catalog:view", "catalog:manage",
+  "companyConfig:view", "companyConfig:manage",
+] as const;
+
+export type Permission = typeof permissionList[number];
+
+// Técnicos only see the service orders assigned to them ("serviceOrders:viewAll"
+// is what lifts that filter). Gerência can do everything.
+export const rolePermissions: Record<RoleType, readonly Permission[]> = {
+  "Gerência": permissionList,
+  "Administrativo": [
+    "dashboard:view",
+    "customers:view", "customers:manage",
+    "maquinas:view", "maquinas:manage",
+    "rentals:view", "rentals:manage",
+    "billing:view",
+    "serviceOrders:view", "serviceOrders:viewAll", "serviceOrders:manage",
+    "budgets:view", "budgets:manage",
+    "partsRequisitions:view",
+    "partsTriage:work",
+    "technicians:view", "technicians:manage",
+    "vehicles:view", "vehicles:manage",
+    "catalog:view", "catalog:manage",
+    "companyConfig:view",
+  ],
+  "Técnico": [
+    "dashboard:view",
+    "customers:view",
+    "maquinas:view",
+    "serviceOrders:view",
+    "partsRequisitions:view",
+    "vehicles:view",
+  ],
+  "Financeiro": [
+    "dashboard:view",
+    "customers:view", "customers:manage",
+    "maquinas:view",
+    "rentals:view", "rentals:manage",
+    "billing:view", "billing:manage",
+    "serviceOrders:view", "serviceOrders:viewAll",
+    "budgets:view", "budgets:manage", "budgets:approve",
+    "technicians:view",
+    "catalog:view",
+    "companyConfig:view", "companyConfig:manage",
+  ],
+  "Compras": [
+    "dashboard:view",
+    "maquinas:view",
+    "serviceOrders:view", "serviceOrders:viewAll",
+    "partsRequisitions:view",
+    "partsTriage:work",
+    "partsWarehouse:work",
+    "technicians:view",
+    "vehicles:view",
+    "catalog:view", "catalog:manage",
+  ],
+  "Fiscal": [
+    "dashboard:view",
+    "customers:view",
+    "rentals:view",
+    "billing:view",
+    "serviceOrders:view", "serviceOrders:viewAll",
+    "budgets:view",
+    "companyConfig:view",
+  ],
+  "Vendas": [
+    "dashboard:view",
+    "customers:view", "customers:manage",
+    "maquinas:view",
+    "rentals:view", "rentals:manage",
+    "serviceOrders:view", "serviceOrders:viewAll",
+    "budgets:view", "budgets:manage",
+    "catalog:view",
+  ],
+  "Comercial": [
+    "dashboard:view",
+    "customers:view", "customers:manage",
+    "maquinas:view",
+    "rentals:view", "rentals:manage",
+    "serviceOrders:view", "serviceOrders:viewAll",
+    "budgets:view", "budgets:manage",
+    "catalog:view",
+  ],
+};
+
+export function isKnownRole(role: string | null | undefined): role is RoleType {
+  return !!role && (roleOptionsList as readonly string[]).includes(role);
+}
+
+// Roles outside roleOptionsList (older records) get no permissions until mapped here.
+export function hasPermission(role: Technician["role"] | null | undefined, permission: Permission): boolean {
+  if (!isKnownRole(role)) return false;
+  return rolePermissions[role].includes(permission);
+}
+
+// Permission required to open each route; matched by prefix, like the sidebar.
+export const routePermissions: Record<string, Permission> = {
+  "/customers": "customers:view",
+  "/maquinas": "maquinas:view",
+  "/equipment": "maquinas:view",
+  "/auxiliary-equipment": "maquinas:view",
+  "/maintenance-plans": "maquinas:view",
+  "/rental-contracts": "rentals:view",
+  "/billing": "billing:view",
+  "/boletos": "billing:view",
+  "/service-orders": "serviceOrders:view",
+  "/field": "serviceOrders:view",
+  "/dispatch": "serviceOrders:view",
+  "/route-planner": "serviceOrders:view",
+  "/checklists": "serviceOrders:view",
+  "/budgets": "budgets:view",
+  "/parts-requisitions": "partsRequisitions:view",
+  "/parts-triage": "partsTriage:work",
+  "/parts-warehouse": "partsWarehouse:work",
+  "/technicians": "technicians:view",
+  "/productivity": "technicians:view",
+  "/vehicles": "vehicles:view",
+  "/toll-plazas": "vehicles:view",
+  "/catalog": "catalog:view",
+  "/company-config": "companyConfig:view",
+  "/": "dashboard:view",
+};
+
+export function getRoutePermission(pathname: string): Permission | undefined {
+  if (pathname === "/") return routePermissions["/"];
+  const route = Object.keys(routePermissions).find(href => href !== "/" && pathname.startsWith(href));
+  return route ? routePermissions[route] : undefined;
+}
+
+export function canAccessRoute(role: Technician["role"] | null | undefined, pathname: string): boolean {
+  const permission = getRoutePermission(pathname);
+  return !permission || hasPermission(role, permission);
+}
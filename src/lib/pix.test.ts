@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { buildPixPayload, crc16, normalizePixKey } from "./pix";
+
+// Parses the top-level EMV fields of a payload into id → value.
+const emvFields = (payload: string): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  for (let i = 0; i < payload.length;) {
+    const id = payload.slice(i, i + 2);
+    const size = Number(payload.slice(i + 2, i + 4));
+    fields[id] = payload.slice(i + 4, i + 4 + size);
+    i += 4 + size;
+  }
+  return fields;
+};
+
+describe("crc16", () => {
+  it.each([
+    ["123456789", "29B1"], // CRC-16/CCITT-FALSE check value
+    // Static BR Code from the Banco Central manual, up to and including "6304".
+    ["00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-4266554400005204000053039865802BR5913Fulano de Tal6008BRASILIA62070503***6304", "1D3D"],
+    ["", "FFFF"],
+  ])("%s → %s", (payload, expected) => {
+    expect(crc16(payload)).toBe(expected);
+  });
+});
+
+describe("normalizePixKey", () => {
+  it.each([
+    ["12.345.678/0001-90", "12345678000190"],
+    ["123.456.789-09", "12345678909"],
+    ["(11) 98765-4321", "+5511987654321"],
+    ["55 11 98765-4321", "+5511987654321"],
+    ["+55 11 98765-4321", "+5511987654321"],
+    ["12345678909", "12345678909"],
+    [" Financeiro@GoldMaq.com.br ", "financeiro@goldmaq.com.br"],
+    ["123e4567-e12b-12d1-a456-426655440000", "123e4567-e12b-12d1-a456-426655440000"],
+  ])("%s → %s", (key, expected) => {
+    expect(normalizePixKey(key)).toBe(expected);
+  });
+});
+
+describe("buildPixPayload", () => {
+  it("builds the Banco Central sample charge, with the name in the uppercase ASCII the banks expect", () => {
+    const payload = buildPixPayload({
+      pixKey: "123e4567-e12b-12d1-a456-426655440000",
+      merchantName: "Fulano de Tal",
+      merchantCity: "Brasília",
+    });
+    const body = "00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-4266554400005204000053039865802BR5913FULANO DE TAL6008BRASILIA62070503***6304";
+    expect(payload).toBe(body + crc16(body));
+  });
+
+  it("carries the amount with two decimals and a cleaned-up txid", () => {
+    const fields = emvFields(buildPixPayload({
+      pixKey: "12.345.678/0001-90",
+      merchantName: "Gold Maq Empilhadeiras Comércio e Serviços Ltda",
+      merchantCity: "São Bernardo do Campo",
+      amount: 1234.5,
+      txid: "FAT-2026/0042",
+    }));
+    expect(fields["54"]).toBe("1234.50");
+    expect(emvFields(fields["26"])).toEqual({ "00": "br.gov.bcb.pix", "01": "12345678000190" });
+    expect(fields["59"]).toBe("GOLD MAQ EMPILHADEIRAS CO");
+    expect(fields["60"]).toBe("SAO BERNARDO DO");
+    expect(fields["62"]).toBe("0511FAT20260042");
+  });
+
+  it("leaves the amount out when there is none", () => {
+    expect(emvFields(buildPixPayload({ pixKey: "a@b.com", merchantName: "A", merchantCity: "B", amount: 0 }))).not.toHaveProperty("54");
+  });
+
+  it("ends with the CRC of everything before it", () => {
+    const payload = buildPixPayload({ pixKey: "a@b.com", merchantName: "A", merchantCity: "B", amount: 10, txid: "X1" });
+    expect(payload.slice(-8, -4)).toBe("6304");
+    expect(payload.slice(-4)).toBe(crc16(payload.slice(0, -4)));
+  });
+});
@@ -0,0 +1,132 @@
+import type { jsPDF } from "jspdf";
+import { create as createQrCode } from "qrcode";
+import type { Company } from "@/types";
+
+// Static PIX charges in the BR Code format (EMV QR Code, as specified by the
+// Banco Central "Manual de Padrões para Iniciação do Pix"). The same payload
+// is printed as a QR code and sent as the "copia e cola" string.
+
+interface PixChargeInput {
+  pixKey: string;
+  merchantName: string;
+  merchantCity: string;
+  amount?: number | null;
+  txid?: string | null;
+}
+
+const emvField = (id: string, value: string): string => `${id}${value.length.toString().padStart(2, "0")}${value}`;
+
+// The payload only accepts plain ASCII: accents are dropped and names are cut
+// to the sizes the banks' apps expect.
+const toEmvText = (value: string, maxLength: number): string =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Za-z0-9 ]/g, "")
+    .trim()
+    .toUpperCase()
+    .slice(0, maxLength);
+
+// Phone numbers typed the Brazilian way, with or without the country code:
+// "(11) 98765-4321", "11 98765-4321", "55 11 98765-4321". Eleven bare digits
+// could be a CPF as well, so a phone key needs some punctuation or the "+".
+const PHONE_KEY_PATTERN = /^(?:55[\s-]*)?\(?\d{2}\)?[\s-]*9?\d{4}[\s-]?\d{4}$/;
+
+// CNPJ/CPF keys are digits only and phone keys carry the country code; the
+// key is often typed formatted ("12.345.678/0001-90") in the company settings.
+export const normalizePixKey = (key: string): string => {
+  const trimmed = key.trim();
+  const digits = trimmed.replace(/\D/g, "");
+  if (trimmed.startsWith("+")) return `+${digits}`;
+  if (PHONE_KEY_PATTERN.test(trimmed) && /[()\s-]/.test(trimmed)) {
+    return digits.length > 11 ? `+${digits}` : `+55${digits}`;
+  }
+  if (/^[\d.\-/\s]+$/.test(trimmed)) return digits;
+  return trimmed.toLowerCase();
+};
+
+// txid: up to 25 letters and digits, "***" when the charge has no identifier.
+const toPixTxid = (txid?: string | null): string => {
+  const cleaned = (txid || "").replace(/[^A-Za-z0-9]/g, "").slice(0, 25);
+  return cleaned || "***";
+};
+
+// CRC16-CCITT (polynomial 0x1021, initial value 0xFFFF) over the whole
+// payload, including the id and size of the CRC field itself.
+export const crc16 = (payload: string): string => {
+  let crc = 0xffff;
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, "0");
+};
+
+export const buildPixPayload = ({ pixKey, merchantName, merchantCity, amount, txid }: PixChargeInput): string => {
+  const merchantAccount = emvField("00", "br.gov.bcb.pix") + emvField("01", normalizePixKey(pixKey));
+  const payload = [
+    emvField("00", "01"),
+    emvField("26", merchantAccount),
+    emvField("52", "0000"),
+    emvField("53", "986"),
+    amount && amount > 0 ? emvField("54", amount.toFixed(2)) : "",
+    emvField("58", "BR"),
+    emvField("59", toEmvText(merchantName, 25)),
+    emvField("60", toEmvText(merchantCity, 15)),
+    emvField("62", emvField("05", toPixTxid(txid))),
+    "6304",
+  ].join("");
+  return payload + crc16(payload);
+};
+
+// PIX charge of a document issued by the company, or null when the company
+// has no PIX key configured.
+export const buildCompanyPixPayload = (company: Company | null | undefined, amount: number | null | undefined, txid: string): string | null => {
+  if (!company?.bankPixKey) return null;
+  return buildPixPayload({
+    pixKey: company.bankPixKey,
+    merchantName: company.name,
+    merchantCity: company.city,
+    amount,
+    txid,
+  });
+};
+
+// Draws the QR code as vector squares, so it stays sharp when the PDF is printed.
+export const drawPixQrCode = (doc: jsPDF, payload: string, x: number, y: number, size: number): void => {
+  const { modules } = createQrCode(payload, { errorCorrectionLevel: "M" });
+  const moduleSize = size / modules.size;
+  doc.setFillColor(0, 0, 0);
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (modules.get(row, col)) {
+        doc.rect(x + col * moduleSize, y + row * moduleSize, moduleSize, moduleSize, "F");
+      }
+    }
+  }
+};
+
+// QR code with the "copia e cola" string beside it, for the payment section
+// of the PDFs. Returns the y position below the block.
+export const drawPixPaymentBlock = (doc: jsPDF, payload: string, y: number): number => {
+  const qrSize = 35;
+  const textX = 14 + qrSize + 6;
+  if (y + qrSize > doc.internal.pageSize.getHeight() - 10) {
+    doc.addPage();
+    y = 15;
+  }
+  drawPixQrCode(doc, payload, 14, y, qrSize);
+  doc.setFontSize(9);
+  doc.setFont("helvetica", "bold");
+  doc.text("Pague com PIX", textX, y + 4);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(8);
+  doc.text("Leia o QR code no app do seu banco ou use o código PIX copia e cola:", textX, y + 9);
+  doc.setFont("courier", "normal");
+  doc.text(doc.splitTextToSize(payload, 196 - textX), textX, y + 14);
+  doc.setFont("helvetica", "normal");
+  return y + qrSize + 4;
+};
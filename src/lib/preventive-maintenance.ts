@@ -0,0 +1,47 @@
+import type { MaintenancePlan, Maquina, PreventiveMaintenanceDueStatus } from "@/types";
+
+// Hour-based preventive maintenance: a plan is due every `intervalHours` of
+// the machine's hour meter. Thresholds already turned into a service order are
+// kept on the machine (`preventiveMaintenanceHours`), so each one fires once.
+
+export interface PreventiveMaintenanceDue {
+  maquina: Maquina;
+  plan: MaintenancePlan;
+  dueHours: number; // Threshold of the hour meter
+  hoursRemaining: number; // Zero or negative once reached
+  status: PreventiveMaintenanceDueStatus;
+}
+
+const sameText = (a: string | null | undefined, b: string | null | undefined) =>
+  (a || "").trim().toLowerCase() === (b || "").trim().toLowerCase();
+
+export const planAppliesTo = (plan: MaintenancePlan, maquina: Maquina): boolean =>
+  plan.active
+  && (!plan.equipmentType || sameText(plan.equipmentType, maquina.equipmentType))
+  && (!plan.brand || sameText(plan.brand, maquina.brand));
+
+// "Vencida": a threshold was reached without a preventive OS. "Próxima": the
+// next threshold is within the plan's warning hours.
+export function getPreventiveMaintenanceDue(maquina: Maquina, plan: MaintenancePlan): PreventiveMaintenanceDue | null {
+  if (maquina.hourMeter === null || maquina.hourMeter === undefined || !planAppliesTo(plan, maquina)) return null;
+  if (maquina.operationalStatus === "Sucata") return null;
+  const hourMeter = maquina.hourMeter;
+  const lastDone = maquina.preventiveMaintenanceHours?.[plan.id] ?? 0;
+  const reached = Math.floor(hourMeter / plan.intervalHours) * plan.intervalHours;
+  if (reached > 0 && reached > lastDone) {
+    return { maquina, plan, dueHours: reached, hoursRemaining: reached - hourMeter, status: "Vencida" };
+  }
+  const next = Math.max(reached, lastDone) + plan.intervalHours;
+  if (next - hourMeter <= plan.warningHours) {
+    return { maquina, plan, dueHours: next, hoursRemaining: next - hourMeter, status: "Próxima" };
+  }
+  return null;
+}
+
+// Overdue first, then by the hours left.
+export function getPreventiveMaintenanceDues(maquinas: Maquina[], plans: MaintenancePlan[]): PreventiveMaintenanceDue[] {
+  return maquinas
+    .flatMap(maquina => plans.map(plan => getPreventiveMaintenanceDue(maquina, plan)))
+    .filter((due): due is PreventiveMaintenanceDue => due !== null)
+    .sort((a, b) => (a.status === b.status ? a.hoursRemaining - b.hoursRemaining : a.status === "Vencida" ? -1 : 1));
+}
@@ -0,0 +1,175 @@
+import { collection, doc, FieldValue, getDocs, query, serverTimestamp, Timestamp, where, type DocumentData, type Transaction, type WriteBatch } from "firebase/firestore";
+import type { AuditAction, AuditEntityType, AuditFieldChange, AuditLogEntry } from "@/types";
+import { auth } from "@/lib/firebase";
+import { FIRESTORE_AUDIT_LOG_COLLECTION_NAME } from "./collections";
+import { requireDb, timestampToIsoString } from "./shared";
+
+export interface AuditActor {
+  uid: string;
+  technicianId: string | null;
+  name: string | null;
+}
+
+let currentActor: AuditActor | null = null;
+
+// Set by AuthProvider once the signed-in collaborator is resolved, so every
+// repository write can be stamped without threading the user through each call.
+export function setAuditActor(actor: AuditActor | null): void {
+  currentActor = actor;
+}
+
+export interface AuditInput {
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  // Stored document before the write (null on create).
+  before?: DocumentData | null;
+  // Fields being written; on update only these keys are compared (null on delete).
+  after?: DocumentData | null;
+}
+
+function normalizeAuditValue(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(normalizeAuditValue);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, nested]) => nested !== undefined)
+        .map(([key, nested]) => [key, normalizeAuditValue(nested)])
+    );
+  }
+  return value;
+}
+
+// Firestore does not preserve map key order, so compare with sorted keys.
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, nested]) => `${JSON.stringify(key)}:${stableStringify(nested)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+type AuditItem = Record<string, unknown> & { id: string };
+
+function isItemList(value: unknown): value is AuditItem[] {
+  return Array.isArray(value) && value.length > 0 && value.every(item => item && typeof item === "object" && typeof (item as Record<string, unknown>).id === "string");
+}
+
+function itemLabel(item: AuditItem): string | null {
+  const label = item.partName ?? item.description ?? item.date;
+  return typeof label === "string" ? label : null;
+}
+
+// Arrays of items with an `id` (budget items, requisition parts, fueling
+// records) are compared item by item so the history shows what changed in
+// each item instead of the whole array.
+function diffItemLists(field: string, beforeItems: AuditItem[], afterItems: AuditItem[]): AuditFieldChange[] {
+  const changes: AuditFieldChange[] = [];
+  const beforeById = new Map(beforeItems.map(item => [item.id, item]));
+  const afterById = new Map(afterItems.map(item => [item.id, item]));
+
+  for (const [id, afterItem] of afterById) {
+    const beforeItem = beforeById.get(id);
+    if (!beforeItem) {
+      changes.push({ field, itemId: id, itemLabel: itemLabel(afterItem), before: null, after: normalizeAuditValue(afterItem) });
+      continue;
+    }
+    const keys = new Set([...Object.keys(beforeItem), ...Object.keys(afterItem)]);
+    for (const key of keys) {
+      const before = normalizeAuditValue(beforeItem[key]);
+      const after = normalizeAuditValue(afterItem[key]);
+      if (stableStringify(before) !== stableStringify(after)) {
+        changes.push({ field: `${field}.${key}`, itemId: id, itemLabel: itemLabel(afterItem), before, after });
+      }
+    }
+  }
+  for (const [id, beforeItem] of beforeById) {
+    if (!afterById.has(id)) {
+      changes.push({ field, itemId: id, itemLabel: itemLabel(beforeItem), before: normalizeAuditValue(beforeItem), after: null });
+    }
+  }
+  return changes;
+}
+
+export function diffForAudit(before: DocumentData | null | undefined, after: DocumentData | null | undefined, fields: string[]): AuditFieldChange[] {
+  const changes: AuditFieldChange[] = [];
+  for (const field of fields) {
+    const beforeValue = before?.[field];
+    const afterValue = after?.[field];
+    // Sentinels (serverTimestamp, arrayUnion) have no comparable value.
+    if (beforeValue instanceof FieldValue || afterValue instanceof FieldValue) continue;
+
+    if ((isItemList(beforeValue) || isItemList(afterValue)) && (beforeValue == null || Array.isArray(beforeValue)) && (afterValue == null || Array.isArray(afterValue))) {
+      changes.push(...diffItemLists(field, (beforeValue as AuditItem[]) || [], (afterValue as AuditItem[]) || []));
+      continue;
+    }
+    const normalizedBefore = normalizeAuditValue(beforeValue);
+    const normalizedAfter = normalizeAuditValue(afterValue);
+    if (stableStringify(normalizedBefore) !== stableStringify(normalizedAfter)) {
+      changes.push({ field, itemId: null, itemLabel: null, before: normalizedBefore, after: normalizedAfter });
+    }
+  }
+  return changes;
+}
+
+// Returns null for updates that did not change anything, so no empty entries are logged.
+function buildAuditEntry(input: AuditInput) {
+  const { entityType, entityId, action, before = null, after = null } = input;
+  const fields = Object.keys((action === "delete" ? before : after) || {});
+  const changes = diffForAudit(before, after, fields);
+  if (action === "update" && changes.length === 0) return null;
+
+  const ref = doc(collection(requireDb("buildAuditEntry"), FIRESTORE_AUDIT_LOG_COLLECTION_NAME));
+  const data = {
+    entityType,
+    entityId,
+    action,
+    changes,
+    actorUid: currentActor?.uid ?? auth?.currentUser?.uid ?? null,
+    actorTechnicianId: currentActor?.technicianId ?? null,
+    actorName: currentActor?.name ?? auth?.currentUser?.email ?? null,
+    timestamp: serverTimestamp(),
+  };
+  return { ref, data };
+}
+
+// The entry is written in the same batch/transaction as the change it
+// describes, so the history can never disagree with the data.
+export function auditInBatch(batch: WriteBatch, input: AuditInput): void {
+  const entry = buildAuditEntry(input);
+  if (entry) batch.set(entry.ref, entry.data);
+}
+
+export function auditInTransaction(transaction: Transaction, input: AuditInput): void {
+  const entry = buildAuditEntry(input);
+  if (entry) transaction.set(entry.ref, entry.data);
+}
+
+export function toAuditLogEntry(id: string, data: DocumentData): AuditLogEntry {
+  return {
+    id,
+    entityType: data.entityType,
+    entityId: data.entityId,
+    action: data.action,
+    changes: Array.isArray(data.changes) ? data.changes : [],
+    actorUid: data.actorUid || null,
+    actorTechnicianId: data.actorTechnicianId || null,
+    actorName: data.actorName || null,
+    timestamp: timestampToIsoString(data.timestamp) ?? "",
+  };
+}
+
+// Filtered by entityId only and sorted here, so no composite index is needed.
+export async function fetchAuditLog(entityType: AuditEntityType, entityId: string): Promise<AuditLogEntry[]> {
+  const db = requireDb("fetchAuditLog");
+  const q = query(collection(db, FIRESTORE_AUDIT_LOG_COLLECTION_NAME), where("entityId", "==", entityId));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs
+    .map(docSnap => toAuditLogEntry(docSnap.id, docSnap.data()))
+    .filter(entry => entry.entityType === entityType)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
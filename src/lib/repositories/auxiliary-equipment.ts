@@ -0,0 +1,78 @@
+import { collection, doc, getDoc, getDocs, orderBy, query, where, writeBatch, type DocumentData } from "firebase/firestore";
+import type { AuxiliaryEquipment } from "@/types";
+import { AuxiliaryEquipmentSchema } from "@/types";
+import { FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME, FIRESTORE_EQUIPMENT_COLLECTION_NAME } from "./collections";
+import { omitUndefined, requireDb, toStringArrayOrNull, validateWithSchema } from "./shared";
+import { auditInBatch } from "./audit";
+
+// The custom type chosen in the form is resolved into `type` by the page before saving.
+export type AuxiliaryEquipmentWriteData = Omit<AuxiliaryEquipment, "id" | "customType">;
+
+export function toAuxiliaryEquipment(id: string, data: DocumentData): AuxiliaryEquipment {
+  return {
+    id,
+    ...data,
+    linkedEquipmentId: data.linkedEquipmentId || null,
+    imageUrls: toStringArrayOrNull(data.imageUrls),
+  } as AuxiliaryEquipment;
+}
+
+export function auxiliaryEquipmentDocRef(auxEquipmentId: string) {
+  return doc(requireDb("auxiliaryEquipmentDocRef"), FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME, auxEquipmentId);
+}
+
+export function newAuxiliaryEquipmentId(): string {
+  return doc(collection(requireDb("newAuxiliaryEquipmentId"), FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME)).id;
+}
+
+export async function fetchAuxiliaryEquipment(): Promise<AuxiliaryEquipment[]> {
+  const db = requireDb("fetchAuxiliaryEquipment");
+  const q = query(collection(db, FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME), orderBy("name", "asc"));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => toAuxiliaryEquipment(docSnap.id, docSnap.data()));
+}
+
+function prepareAuxiliaryEquipmentForFirestore(data: AuxiliaryEquipmentWriteData) {
+  validateWithSchema(AuxiliaryEquipmentSchema, data, "Equipamento auxiliar");
+  return omitUndefined(data);
+}
+
+export async function createAuxiliaryEquipment(auxEquipmentId: string, data: AuxiliaryEquipmentWriteData): Promise<void> {
+  const payload = prepareAuxiliaryEquipmentForFirestore(data);
+  const batch = writeBatch(requireDb("createAuxiliaryEquipment"));
+  batch.set(auxiliaryEquipmentDocRef(auxEquipmentId), payload);
+  auditInBatch(batch, { entityType: "auxiliaryEquipment", entityId: auxEquipmentId, action: "create", after: payload });
+  await batch.commit();
+}
+
+export async function updateAuxiliaryEquipment(auxEquipmentId: string, data: AuxiliaryEquipmentWriteData): Promise<void> {
+  const payload = prepareAuxiliaryEquipmentForFirestore(data);
+  const before = await getDoc(auxiliaryEquipmentDocRef(auxEquipmentId));
+  const batch = writeBatch(requireDb("updateAuxiliaryEquipment"));
+  batch.update(auxiliaryEquipmentDocRef(auxEquipmentId), payload);
+  auditInBatch(batch, { entityType: "auxiliaryEquipment", entityId: auxEquipmentId, action: "update", before: before.data(), after: payload });
+  await batch.commit();
+}
+
+// Also removes the item from `linkedAuxiliaryEquipmentIds` of every machine that references it.
+export async function deleteAuxiliaryEquipment(auxEquipmentId: string): Promise<void> {
+  const db = requireDb("deleteAuxiliaryEquipment");
+  const before = await getDoc(auxiliaryEquipmentDocRef(auxEquipmentId));
+  const batch = writeBatch(db);
+  batch.delete(auxiliaryEquipmentDocRef(auxEquipmentId));
+  auditInBatch(batch, { entityType: "auxiliaryEquipment", entityId: auxEquipmentId, action: "delete", before: before.data() });
+
+  const maquinasQuery = query(
+    collection(db, FIRESTORE_EQUIPMENT_COLLECTION_NAME),
+    where("linkedAuxiliaryEquipmentIds", "array-contains", auxEquipmentId)
+  );
+  const maquinasSnapshot = await getDocs(maquinasQuery);
+  maquinasSnapshot.forEach(maquinaDoc => {
+    const linkedIds: string[] = maquinaDoc.data().linkedAuxiliaryEquipmentIds || [];
+    const fields = { linkedAuxiliaryEquipmentIds: linkedIds.filter(id => id !== auxEquipmentId) };
+    batch.update(maquinaDoc.ref, fields);
+    auditInBatch(batch, { entityType: "maquina", entityId: maquinaDoc.id, action: "update", before: maquinaDoc.data(), after: fields });
+  });
+
+  await batch.commit();
+}
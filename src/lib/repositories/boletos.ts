@@ -0,0 +1,326 @@
+import { collection, doc, getDoc, getDocs, orderBy, query, where, writeBatch, type DocumentData } from "firebase/firestore";
+import { format } from "date-fns";
+import type * as z from "zod";
+import type { Boleto, BoletoRemittance, CnabLayout, CompanyId } from "@/types";
+import { BoletoSchema, GOLDMAQ_COMPANY_ID, IssueBoletoSchema, boletoBankCodes, boletoSourceTypeOptions, boletoStatusOptions, cnabLayoutOptions } from "@/types";
+import { formatDateForInput } from "@/lib/utils";
+import {
+  barcodeToDigitableLine, buildBarcode, buildCnab240Remittance, buildCnab400Remittance, buildFreeField, buildRemittanceFileName,
+  formatBankOurNumber, formatBeneficiaryCode, getBoletoAccount, getCnabOurNumber, normalizeCnabOurNumber, parseCnabReturn, supportsCnab400,
+  type BoletoAccount,
+} from "@/lib/boleto";
+import { FIRESTORE_BOLETO_COLLECTION_NAME, FIRESTORE_BOLETO_REMITTANCE_COLLECTION_NAME } from "./collections";
+import { dateStringToTimestamp, omitUndefined, requireDb, timestampToIsoString, toNullableNumber, toStringArrayOrNull, validateWithSchema } from "./shared";
+import { auditInBatch, auditInTransaction } from "./audit";
+import { createWithDocumentNumber } from "./counters";
+import { fetchCompanyById } from "./companies";
+import { fetchCustomers } from "./customers";
+import { invoiceDocRef, toInvoice } from "./invoices";
+import { budgetDocRef, fetchBudgetById } from "./budgets";
+
+export type IssueBoletoInput = z.input<typeof IssueBoletoSchema>;
+
+export interface BoletoRemittanceFile {
+  fileName: string;
+  content: string;
+  count: number;
+}
+
+export interface BoletoReturnResult {
+  settled: string[]; // Source numbers marked as paid
+  alreadySettled: number;
+  ignored: number; // Occurrences other than payment (entrada confirmada, baixa...)
+  unmatched: string[]; // Nosso números of the file not found among the company's boletos
+}
+
+// Each boleto in a remittance takes two writes (update + audit) of one
+// transaction, which Firestore caps at 500.
+const MAX_BOLETOS_PER_REMITTANCE = 200;
+
+// Boletos still waiting to be paid; a written-off one frees its document for a new boleto.
+const openBoletoStatuses: Boleto["status"][] = ["Emitido", "Remessa Enviada"];
+
+export function toBoleto(id: string, data: DocumentData): Boleto {
+  return {
+    id,
+    companyId: data.companyId,
+    bankCode: boletoBankCodes.includes(data.bankCode) ? data.bankCode : "001",
+    wallet: data.wallet || "",
+    beneficiaryCode: data.beneficiaryCode || "",
+    ourNumber: data.ourNumber || "N/A",
+    bankOurNumber: data.bankOurNumber || data.ourNumber || "N/A",
+    sourceType: boletoSourceTypeOptions.includes(data.sourceType) ? data.sourceType : "invoice",
+    sourceId: data.sourceId || "N/A",
+    sourceNumber: data.sourceNumber || "N/A",
+    customerId: data.customerId || "N/A",
+    amount: toNullableNumber(data.amount) ?? 0,
+    issueDate: formatDateForInput(data.issueDate),
+    dueDate: formatDateForInput(data.dueDate),
+    barcode: data.barcode || "",
+    digitableLine: data.digitableLine || "",
+    status: boletoStatusOptions.includes(data.status) ? data.status : "Emitido",
+    remittanceId: data.remittanceId || null,
+    paidDate: data.paidDate ? formatDateForInput(data.paidDate) : null,
+    paidAmount: toNullableNumber(data.paidAmount),
+  };
+}
+
+export function toBoletoRemittance(id: string, data: DocumentData): BoletoRemittance {
+  return {
+    id,
+    remittanceNumber: data.remittanceNumber || "N/A",
+    companyId: data.companyId,
+    bankCode: boletoBankCodes.includes(data.bankCode) ? data.bankCode : "001",
+    layout: cnabLayoutOptions.includes(data.layout) ? data.layout : "240",
+    boletoIds: toStringArrayOrNull(data.boletoIds) || [],
+    fileName: data.fileName || "",
+    createdDate: timestampToIsoString(data.createdDate) ?? "",
+  };
+}
+
+export function boletoDocRef(boletoId: string) {
+  return doc(requireDb("boletoDocRef"), FIRESTORE_BOLETO_COLLECTION_NAME, boletoId);
+}
+
+export async function fetchBoletos(): Promise<Boleto[]> {
+  const db = requireDb("fetchBoletos");
+  const q = query(collection(db, FIRESTORE_BOLETO_COLLECTION_NAME), orderBy("issueDate", "desc"));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => toBoleto(docSnap.id, docSnap.data()));
+}
+
+export async function fetchBoletoRemittances(): Promise<BoletoRemittance[]> {
+  const db = requireDb("fetchBoletoRemittances");
+  const q = query(collection(db, FIRESTORE_BOLETO_REMITTANCE_COLLECTION_NAME), orderBy("createdDate", "desc"));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => toBoletoRemittance(docSnap.id, docSnap.data()));
+}
+
+function prepareBoletoForFirestore(data: Omit<Boleto, "id">) {
+  const validated = validateWithSchema(BoletoSchema, data, "Boleto");
+  return omitUndefined({
+    ...validated,
+    issueDate: dateStringToTimestamp(validated.issueDate),
+    dueDate: dateStringToTimestamp(validated.dueDate),
+    paidDate: dateStringToTimestamp(validated.paidDate),
+    paidAmount: validated.paidAmount ?? null,
+    remittanceId: validated.remittanceId || null,
+  });
+}
+
+interface BoletoSource {
+  companyId: CompanyId;
+  customerId: string;
+  sourceNumber: string;
+  amount: number;
+}
+
+// Open invoices and approved, unpaid budgets can be charged by boleto. Budgets
+// are always issued by Gold Maq, like their numbering.
+async function loadBoletoSource(sourceType: Boleto["sourceType"], sourceId: string): Promise<BoletoSource> {
+  if (sourceType === "invoice") {
+    const invoiceDoc = await getDoc(invoiceDocRef(sourceId));
+    if (!invoiceDoc.exists()) throw new Error("Fatura não encontrada.");
+    const invoice = toInvoice(invoiceDoc.id, invoiceDoc.data());
+    if (invoice.status !== "Em Aberto") throw new Error(`A fatura ${invoice.invoiceNumber} está "${invoice.status}".`);
+    return { companyId: invoice.companyId, customerId: invoice.customerId, sourceNumber: invoice.invoiceNumber, amount: invoice.totalAmount };
+  }
+  const budget = await fetchBudgetById(sourceId);
+  if (!budget) throw new Error("Orçamento não encontrado.");
+  if (budget.status !== "Aprovado") throw new Error(`O orçamento ${budget.budgetNumber} precisa estar aprovado.`);
+  if (budget.paidDate) throw new Error(`O orçamento ${budget.budgetNumber} já foi pago.`);
+  return { companyId: GOLDMAQ_COMPANY_ID, customerId: budget.customerId, sourceNumber: budget.budgetNumber, amount: budget.totalAmount ?? 0 };
+}
+
+// Nosso número comes from the beneficiary company's "boleto" counter; the
+// barcode and linha digitável are stored as issued, so later changes to the
+// bank settings never alter a boleto already sent to the customer.
+export async function issueBoleto(input: IssueBoletoInput): Promise<{ id: string; ourNumber: string }> {
+  const { sourceType, sourceId, dueDate } = validateWithSchema(IssueBoletoSchema, input, "Boleto");
+  const db = requireDb("issueBoleto");
+  const source = await loadBoletoSource(sourceType, sourceId);
+
+  const existing = await getDocs(query(collection(db, FIRESTORE_BOLETO_COLLECTION_NAME), where("sourceId", "==", sourceId)));
+  const active = existing.docs.map(docSnap => toBoleto(docSnap.id, docSnap.data())).find(boleto => boleto.status !== "Baixado");
+  if (active) throw new Error(`Já existe o boleto ${active.bankOurNumber} para ${source.sourceNumber}; dê baixa nele antes de emitir outro.`);
+
+  const company = await fetchCompanyById(source.companyId);
+  if (!company) throw new Error("Empresa beneficiária não encontrada.");
+  const account = getBoletoAccount(company);
+  const docRef = doc(collection(db, FIRESTORE_BOLETO_COLLECTION_NAME));
+
+  const ourNumber = await createWithDocumentNumber("boleto", source.companyId, (transaction, ourNumber) => {
+    const barcode = buildBarcode(account.bankCode, dueDate, source.amount, buildFreeField(account, ourNumber));
+    const payload = prepareBoletoForFirestore({
+      companyId: source.companyId,
+      bankCode: account.bankCode,
+      wallet: account.wallet,
+      beneficiaryCode: formatBeneficiaryCode(account),
+      ourNumber,
+      bankOurNumber: formatBankOurNumber(account, ourNumber),
+      sourceType,
+      sourceId,
+      sourceNumber: source.sourceNumber,
+      customerId: source.customerId,
+      amount: source.amount,
+      issueDate: format(new Date(), "yyyy-MM-dd"),
+      dueDate,
+      barcode,
+      digitableLine: barcodeToDigitableLine(barcode),
+      status: "Emitido",
+      remittanceId: null,
+      paidDate: null,
+      paidAmount: null,
+    });
+    transaction.set(docRef, payload);
+    auditInTransaction(transaction, { entityType: "boleto", entityId: docRef.id, action: "create", after: payload });
+  });
+  return { id: docRef.id, ourNumber };
+}
+
+// Boletos are never deleted: a wrong or renegotiated one is written off
+// ("baixado"), which also has to be sent to the bank when already registered.
+export async function writeOffBoleto(boletoId: string): Promise<void> {
+  const before = await getDoc(boletoDocRef(boletoId));
+  if (!before.exists()) throw new Error("Boleto não encontrado.");
+  if (before.data().status === "Pago") throw new Error("Boleto já pago não pode ser baixado.");
+  const payload = { status: "Baixado" };
+  const batch = writeBatch(requireDb("writeOffBoleto"));
+  batch.update(boletoDocRef(boletoId), payload);
+  auditInBatch(batch, { entityType: "boleto", entityId: boletoId, action: "update", before: before.data(), after: payload });
+  await batch.commit();
+}
+
+// Builds the remittance file of the company's boletos not yet sent to the
+// bank. The file number (NSA) comes from the "boletoRemittance" counter and the
+// boletos are marked as sent in the same transaction, so a file is never
+// generated twice with the same boletos.
+export async function createBoletoRemittance(companyId: CompanyId, layout: CnabLayout): Promise<BoletoRemittanceFile> {
+  const db = requireDb("createBoletoRemittance");
+  const company = await fetchCompanyById(companyId);
+  if (!company) throw new Error("Empresa não encontrada.");
+  const account = getBoletoAccount(company);
+  if (layout === "400" && !supportsCnab400(account.bankCode)) throw new Error("CNAB 400 disponível apenas para o Bradesco; use o CNAB 240.");
+
+  const pendingSnapshot = await getDocs(query(
+    collection(db, FIRESTORE_BOLETO_COLLECTION_NAME),
+    where("companyId", "==", companyId),
+    where("status", "==", "Emitido"),
+  ));
+  const boletos = pendingSnapshot.docs
+    .map(docSnap => toBoleto(docSnap.id, docSnap.data()))
+    .filter(boleto => boleto.bankCode === account.bankCode)
+    .slice(0, MAX_BOLETOS_PER_REMITTANCE);
+  if (boletos.length === 0) throw new Error("Nenhum boleto pendente de remessa para esta empresa.");
+
+  const customers = await fetchCustomers();
+  const remittanceRef = doc(collection(db, FIRESTORE_BOLETO_REMITTANCE_COLLECTION_NAME));
+  const createdAt = new Date();
+  let file = null as BoletoRemittanceFile | null;
+
+  await createWithDocumentNumber("boletoRemittance", companyId, (transaction, remittanceNumber) => {
+    if (!/^\d+$/.test(remittanceNumber)) throw new Error("A numeração de remessas deve gerar apenas números.");
+    const sequence = parseInt(remittanceNumber, 10);
+    const input = {
+      company,
+      account,
+      remittanceNumber: sequence,
+      createdAt,
+      entries: boletos.map(boleto => ({ boleto, customer: customers.find(customer => customer.id === boleto.customerId) })),
+    };
+    const content = layout === "240" ? buildCnab240Remittance(input) : buildCnab400Remittance(input);
+    const fileName = buildRemittanceFileName(layout, sequence, createdAt);
+    file = { fileName, content, count: boletos.length };
+
+    const remittancePayload = {
+      remittanceNumber,
+      companyId,
+      bankCode: account.bankCode,
+      layout,
+      boletoIds: boletos.map(boleto => boleto.id),
+      fileName,
+      createdDate: dateStringToTimestamp(createdAt.toISOString()),
+    };
+    transaction.set(remittanceRef, remittancePayload);
+    auditInTransaction(transaction, { entityType: "boletoRemittance", entityId: remittanceRef.id, action: "create", after: remittancePayload });
+    boletos.forEach(boleto => {
+      const fields = { status: "Remessa Enviada", remittanceId: remittanceRef.id };
+      transaction.update(boletoDocRef(boleto.id), fields);
+      auditInTransaction(transaction, { entityType: "boleto", entityId: boleto.id, action: "update", before: { status: boleto.status, remittanceId: boleto.remittanceId }, after: fields });
+    });
+  });
+
+  if (!file) throw new Error("Não foi possível gerar o arquivo de remessa.");
+  return file;
+}
+
+function cnabOurNumberKey(account: BoletoAccount, boleto: Boleto, layout: CnabLayout): string | null {
+  try {
+    return normalizeCnabOurNumber(getCnabOurNumber(account, boleto.ourNumber, layout));
+  } catch {
+    return null;
+  }
+}
+
+// Reads the bank's return file and settles the boletos it reports as paid,
+// together with the invoice or budget they charge. Each boleto is committed on
+// its own, so a file imported twice only skips what was already settled.
+export async function importBoletoReturn(companyId: CompanyId, content: string): Promise<BoletoReturnResult> {
+  const db = requireDb("importBoletoReturn");
+  const { layout, entries } = parseCnabReturn(content);
+  const company = await fetchCompanyById(companyId);
+  if (!company) throw new Error("Empresa não encontrada.");
+  const account = getBoletoAccount(company);
+
+  const companySnapshot = await getDocs(query(collection(db, FIRESTORE_BOLETO_COLLECTION_NAME), where("companyId", "==", companyId)));
+  const boletosByOurNumber = new Map<string, Boleto>();
+  companySnapshot.docs.forEach(docSnap => {
+    const boleto = toBoleto(docSnap.id, docSnap.data());
+    const key = boleto.bankCode === account.bankCode ? cnabOurNumberKey(account, boleto, layout) : null;
+    if (key) boletosByOurNumber.set(key, boleto);
+  });
+
+  const result: BoletoReturnResult = { settled: [], alreadySettled: 0, ignored: 0, unmatched: [] };
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  for (const entry of entries) {
+    if (!entry.paid) {
+      result.ignored++;
+      continue;
+    }
+    const boleto = boletosByOurNumber.get(normalizeCnabOurNumber(entry.cnabOurNumber));
+    if (!boleto) {
+      result.unmatched.push(entry.cnabOurNumber);
+      continue;
+    }
+    if (!openBoletoStatuses.includes(boleto.status)) {
+      result.alreadySettled++;
+      continue;
+    }
+
+    const paidDate = entry.paidDate || today;
+    const boletoFields = { status: "Pago", paidDate: dateStringToTimestamp(paidDate), paidAmount: entry.paidAmount ?? boleto.amount };
+    const batch = writeBatch(db);
+    batch.update(boletoDocRef(boleto.id), boletoFields);
+    auditInBatch(batch, { entityType: "boleto", entityId: boleto.id, action: "update", before: { status: boleto.status }, after: boletoFields });
+
+    if (boleto.sourceType === "invoice") {
+      const invoiceDoc = await getDoc(invoiceDocRef(boleto.sourceId));
+      if (invoiceDoc.exists() && invoiceDoc.data().status === "Em Aberto") {
+        const invoiceFields = { status: "Paga", paidDate: dateStringToTimestamp(paidDate) };
+        batch.update(invoiceDocRef(boleto.sourceId), invoiceFields);
+        auditInBatch(batch, { entityType: "invoice", entityId: boleto.sourceId, action: "update", before: invoiceDoc.data(), after: invoiceFields });
+      }
+    } else {
+      const budgetDoc = await getDoc(budgetDocRef(boleto.sourceId));
+      if (budgetDoc.exists() && !budgetDoc.data().paidDate) {
+        const budgetFields = { paidDate: dateStringToTimestamp(paidDate) };
+        batch.update(budgetDocRef(boleto.sourceId), budgetFields);
+        auditInBatch(batch, { entityType: "budget", entityId: boleto.sourceId, action: "update", before: budgetDoc.data(), after: budgetFields });
+      }
+    }
+    await batch.commit();
+    result.settled.push(boleto.sourceNumber);
+  }
+  return result;
+}
@@ -0,0 +1,110 @@
+import { collection, getDoc, getDocs, query, serverTimestamp, where, writeBatch, type DocumentData } from "firebase/firestore";
+import type * as z from "zod";
+import type { Budget, BudgetApprovalLink, BudgetCustomerDecision, ServiceOrderPhaseType } from "@/types";
+import { BudgetCustomerResponseSchema } from "@/types";
+import { isBudgetApprovalLinkExpired } from "@/lib/budget-approval";
+import { canTransitionServiceOrderPhase } from "@/lib/service-order-phases";
+import { requireDb, timestampToIsoString, toNullableNumber, validateWithSchema } from "./shared";
+import { FIRESTORE_BUDGET_COLLECTION_NAME } from "./collections";
+import { budgetApprovalLinkDocRef, budgetDocRef, toBudget, toBudgetCustomerResponse, updateBudgetFields } from "./budgets";
+import { fetchServiceOrderById, updateServiceOrderFields } from "./service-orders";
+
+export type BudgetCustomerResponseInput = z.input<typeof BudgetCustomerResponseSchema>;
+
+export function toBudgetApprovalLink(id: string, data: DocumentData): BudgetApprovalLink {
+  return {
+    id,
+    budgetId: data.budgetId || "",
+    budgetNumber: data.budgetNumber || "N/A",
+    revision: Number(data.revision) || 0,
+    createdDate: timestampToIsoString(data.createdDate) ?? "",
+    items: Array.isArray(data.items) ? data.items : [],
+    shippingCost: toNullableNumber(data.shippingCost),
+    discount: data.discount || null,
+    taxRates: data.taxRates || null,
+    subtotal: Number(data.subtotal) || 0,
+    totalAmount: Number(data.totalAmount) || 0,
+    validUntilDate: timestampToIsoString(data.validUntilDate) ?? "",
+    notes: data.notes || null,
+    serviceOrderNumber: data.serviceOrderNumber || null,
+    customer: data.customer,
+    equipment: data.equipment || null,
+    company: data.company || null,
+    expiresAt: timestampToIsoString(data.expiresAt) ?? "",
+    createdAt: timestampToIsoString(data.createdAt) ?? "",
+    response: toBudgetCustomerResponse(data.response),
+  };
+}
+
+// Read without signing in; only a request for the exact token succeeds.
+export async function fetchBudgetApprovalLink(token: string): Promise<BudgetApprovalLink | null> {
+  if (!token) return null;
+  const docSnap = await getDoc(budgetApprovalLinkDocRef(token));
+  return docSnap.exists() ? toBudgetApprovalLink(docSnap.id, docSnap.data()) : null;
+}
+
+// The customer's answer. The link and the budget are written together, and
+// firestore.rules only accept the budget change when it mirrors the answer
+// recorded on a valid link. The CNPJ/CPF can only be checked there, so a
+// mistyped one is rejected the same way as a link no longer valid. Without a
+// signed-in user there is no audit entry; the answer itself is kept on the
+// budget, and the staff confirmation that moves the linked OS is audited.
+export async function submitBudgetCustomerResponse(link: BudgetApprovalLink, input: BudgetCustomerResponseInput): Promise<void> {
+  const validated = validateWithSchema(BudgetCustomerResponseSchema, input, "Resposta do cliente");
+  if (link.response) throw new Error("Este orçamento já foi respondido.");
+  if (isBudgetApprovalLinkExpired(link)) throw new Error("Este link de aprovação expirou. Solicite um novo orçamento.");
+
+  const response = {
+    decision: validated.decision,
+    name: validated.name.trim(),
+    cnpj: validated.cnpj,
+    comment: validated.comment?.trim() || null,
+    respondedAt: serverTimestamp(),
+  };
+  const batch = writeBatch(requireDb("submitBudgetCustomerResponse"));
+  batch.update(budgetApprovalLinkDocRef(link.id), { response });
+  batch.update(budgetDocRef(link.budgetId), {
+    status: validated.decision,
+    customerResponse: response,
+    customerResponseHandled: false,
+    ...(validated.decision === "Aprovado" && { approvedRevision: link.revision }),
+  });
+  try {
+    await batch.commit();
+  } catch (error: any) {
+    // Rejected by the rules: the CNPJ/CPF does not match, or the link was replaced,
+    // the budget changed or it was answered meanwhile.
+    if (error?.code === "permission-denied") {
+      throw new Error("Não foi possível registrar a resposta. Confira o CNPJ/CPF informado; se estiver correto, este link não é mais válido e um novo deve ser solicitado à nossa equipe.");
+    }
+    throw error;
+  }
+}
+
+// The public page cannot touch service orders, so an answer waits for staff
+// to confirm it: the dashboard and the Budgets page list these until then.
+export async function fetchBudgetsWithUnhandledResponse(): Promise<Budget[]> {
+  const db = requireDb("fetchBudgetsWithUnhandledResponse");
+  const q = query(collection(db, FIRESTORE_BUDGET_COLLECTION_NAME), where("customerResponseHandled", "==", false));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => toBudget(docSnap.id, docSnap.data()));
+}
+
+const serviceOrderPhaseForDecision: Record<BudgetCustomerDecision, ServiceOrderPhaseType> = {
+  Aprovado: "Autorizado, Aguardando Peça",
+  Recusado: "Cancelada",
+};
+
+// Confirms a customer's answer: the linked OS moves as it would for a decision
+// taken on the Budgets page, then the answer is marked handled. An OS already
+// moved by hand, or closed, stays as it is. Returns the phase the OS moved to.
+export async function handleBudgetCustomerResponse(budget: Budget): Promise<ServiceOrderPhaseType | null> {
+  const response = budget.customerResponse;
+  if (!response || budget.customerResponseHandled) return null;
+  const order = budget.serviceOrderId ? await fetchServiceOrderById(budget.serviceOrderId) : null;
+  const phase = serviceOrderPhaseForDecision[response.decision];
+  const movesOrder = !!order && order.phase !== phase && canTransitionServiceOrderPhase(order.phase, phase);
+  if (order && movesOrder) await updateServiceOrderFields(order.id, { phase });
+  await updateBudgetFields(budget.id, { customerResponseHandled: true });
+  return movesOrder ? phase : null;
+}
@@ -0,0 +1,405 @@
+import { and, collection, doc, getDoc, getDocs, or, orderBy, query, runTransaction, serverTimestamp, Timestamp, where, writeBatch, type DocumentData, type FieldValue, type Transaction, type WriteBatch } from "firebase/firestore";
+import { startOfDay } from "date-fns";
+import type * as z from "zod";
+import type { Budget, BudgetCustomerResponse, BudgetItem, BudgetRefusalReason, BudgetRevision, BudgetStatusType, Company, CompanyId, Customer, Maquina } from "@/types";
+import { BudgetSchema, GOLDMAQ_COMPANY_ID } from "@/types";
+import {
+  getBudgetDisplayNumber, getBudgetRevisionContent, getBudgetRevisionId, hasBudgetTermsChanged, isBudgetRevisionFrozen,
+} from "@/lib/budget-revisions";
+import { computeBudgetTotals, type BudgetTotalsInput } from "@/lib/budget-totals";
+import { generateBudgetApprovalToken, getBudgetApprovalExpiry, normalizeDocumentDigits } from "@/lib/budget-approval";
+import { FIRESTORE_BUDGET_APPROVAL_CHECK_COLLECTION_NAME, FIRESTORE_BUDGET_APPROVAL_COLLECTION_NAME, FIRESTORE_BUDGET_COLLECTION_NAME, FIRESTORE_BUDGET_REVISION_COLLECTION_NAME } from "./collections";
+import { dateStringToTimestamp, omitUndefined, requireDb, timestampToIsoString, toNullableNumber, validateWithSchema } from "./shared";
+import { auditInBatch, auditInTransaction } from "./audit";
+import { createWithDocumentNumber } from "./counters";
+
+export type BudgetInput = z.input<typeof BudgetSchema>;
+
+// Items saved without an id get one derived from their position, so the same
+// stored item keeps its id between reads and revisions can be compared.
+const toBudgetItems = (ownerId: string, items: unknown): BudgetItem[] =>
+  Array.isArray(items) ? items.map((item: any, index) => ({ ...item, id: item.id || `${ownerId}-${index + 1}` })) : [];
+
+// Budgets saved before revisions existed count as revision 0, already sent or
+// approved when their status says so.
+export function toBudget(id: string, data: DocumentData): Budget {
+  const revision = Number(data.revision) || 0;
+  return {
+    id,
+    ...data,
+    createdDate: timestampToIsoString(data.createdDate) ?? "",
+    validUntilDate: timestampToIsoString(data.validUntilDate) ?? null,
+    paidDate: timestampToIsoString(data.paidDate) ?? null,
+    items: toBudgetItems(id, data.items),
+    serviceOrderCreated: data.serviceOrderCreated || false,
+    revision,
+    sentRevision: data.sentRevision !== undefined ? toNullableNumber(data.sentRevision) : (data.status === "Enviado" || data.status === "Aprovado" ? revision : null),
+    approvedRevision: data.approvedRevision !== undefined ? toNullableNumber(data.approvedRevision) : (data.status === "Aprovado" ? revision : null),
+    approvalLinkId: data.approvalLinkId || null,
+    customerResponse: toBudgetCustomerResponse(data.customerResponse),
+    customerResponseHandled: data.customerResponseHandled ?? true,
+    sentDate: timestampToIsoString(data.sentDate) ?? null,
+    decisionDate: timestampToIsoString(data.decisionDate) ?? null,
+    refusalReason: data.refusalReason || null,
+    lastFollowUpDate: timestampToIsoString(data.lastFollowUpDate) ?? null,
+    followUpCount: Number(data.followUpCount) || 0,
+  } as Budget;
+}
+
+export function toBudgetCustomerResponse(data: DocumentData | null | undefined): BudgetCustomerResponse | null {
+  if (!data?.decision) return null;
+  return {
+    decision: data.decision,
+    name: data.name || "",
+    cnpj: data.cnpj || "",
+    comment: data.comment || null,
+    respondedAt: timestampToIsoString(data.respondedAt) ?? "",
+  };
+}
+
+export function toBudgetRevision(id: string, data: DocumentData): BudgetRevision {
+  return {
+    id,
+    budgetId: data.budgetId || "",
+    budgetNumber: data.budgetNumber || "N/A",
+    revision: Number(data.revision) || 0,
+    items: toBudgetItems(data.budgetId || id, data.items),
+    shippingCost: toNullableNumber(data.shippingCost),
+    discount: data.discount || null,
+    taxRates: data.taxRates || null,
+    subtotal: Number(data.subtotal) || 0,
+    totalAmount: Number(data.totalAmount) || 0,
+    validUntilDate: timestampToIsoString(data.validUntilDate) ?? null,
+    notes: data.notes || null,
+    frozenAt: timestampToIsoString(data.frozenAt) ?? "",
+  };
+}
+
+export function budgetDocRef(budgetId: string) {
+  return doc(requireDb("budgetDocRef"), FIRESTORE_BUDGET_COLLECTION_NAME, budgetId);
+}
+
+export function budgetApprovalLinkDocRef(token: string) {
+  return doc(requireDb("budgetApprovalLinkDocRef"), FIRESTORE_BUDGET_APPROVAL_COLLECTION_NAME, token);
+}
+
+function budgetApprovalCheckDocRef(token: string) {
+  return doc(requireDb("budgetApprovalCheckDocRef"), FIRESTORE_BUDGET_APPROVAL_CHECK_COLLECTION_NAME, token);
+}
+
+// The link and its CNPJ/CPF check are written and removed together.
+function deleteBudgetApprovalLink(writer: Transaction | WriteBatch, token: string) {
+  writer.delete(budgetApprovalLinkDocRef(token));
+  writer.delete(budgetApprovalCheckDocRef(token));
+}
+
+function budgetRevisionDocRef(budgetId: string, revision: number) {
+  return doc(requireDb("budgetRevisionDocRef"), FIRESTORE_BUDGET_REVISION_COLLECTION_NAME, getBudgetRevisionId(budgetId, revision));
+}
+
+// Frozen revisions, oldest first. Sorted here so the query needs no composite index.
+export async function fetchBudgetRevisions(budgetId: string): Promise<BudgetRevision[]> {
+  if (!budgetId) return [];
+  const db = requireDb("fetchBudgetRevisions");
+  const q = query(collection(db, FIRESTORE_BUDGET_REVISION_COLLECTION_NAME), where("budgetId", "==", budgetId));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => toBudgetRevision(docSnap.id, docSnap.data())).sort((a, b) => a.revision - b.revision);
+}
+
+function budgetRevisionPayload(budgetId: string, budget: Budget) {
+  const content = getBudgetRevisionContent(budget);
+  return {
+    budgetId,
+    budgetNumber: budget.budgetNumber,
+    revision: budget.revision ?? 0,
+    ...content,
+    validUntilDate: dateStringToTimestamp(content.validUntilDate),
+    frozenAt: serverTimestamp(),
+  };
+}
+
+// Sending or approving points at the revision on the document.
+function revisionMarksForStatus(status: BudgetStatusType, revision: number): Partial<Pick<Budget, "sentRevision" | "approvedRevision">> {
+  if (status === "Enviado") return { sentRevision: revision };
+  if (status === "Aprovado") return { approvedRevision: revision };
+  return {};
+}
+
+const isDecision = (status: BudgetStatusType) => status === "Aprovado" || status === "Recusado";
+
+// Dates the funnel is measured with (src/lib/budget-funnel.ts): the first time
+// the budget reached the customer, and the decision, cleared when reopened.
+// The refusal reason only stays while the budget is refused.
+function statusDatesForTransition(
+  current: Pick<Budget, "status" | "sentDate"> | null,
+  status: BudgetStatusType,
+): { sentDate?: FieldValue; decisionDate?: FieldValue | null; refusalReason?: null } {
+  const sentDate = status === "Enviado" && !current?.sentDate ? { sentDate: serverTimestamp() } : {};
+  if (current?.status === status) return sentDate;
+  if (isDecision(status)) return { ...sentDate, decisionDate: serverTimestamp(), ...(status === "Aprovado" && { refusalReason: null }) };
+  return { ...sentDate, decisionDate: null, refusalReason: null };
+}
+
+const freezesRevision = (status: BudgetStatusType) => status === "Enviado" || status === "Aprovado";
+
+// Writes the revision's snapshot unless it already exists; `existing` is the
+// snapshot read earlier in the same transaction.
+function freezeRevisionInTransaction(transaction: Transaction, budgetId: string, budget: Budget, existing: { exists(): boolean }) {
+  if (!existing.exists()) transaction.set(budgetRevisionDocRef(budgetId, budget.revision ?? 0), budgetRevisionPayload(budgetId, budget));
+}
+
+export async function fetchBudgets(): Promise<Budget[]> {
+  const db = requireDb("fetchBudgets");
+  const q = query(collection(db, FIRESTORE_BUDGET_COLLECTION_NAME), orderBy("createdDate", "desc"));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => toBudget(docSnap.id, docSnap.data()));
+}
+
+// Sent budgets not expired yet, the follow-up queue's candidates. A budget is
+// valid through its last day (getBudgetApprovalExpiry), so that day must not
+// be before today; budgets without a validity never expire. Uses the
+// (status, validUntilDate) index in firestore.indexes.json.
+export async function fetchBudgetsAwaitingAnswer(): Promise<Budget[]> {
+  const db = requireDb("fetchBudgetsAwaitingAnswer");
+  const q = query(collection(db, FIRESTORE_BUDGET_COLLECTION_NAME), and(
+    where("status", "==", "Enviado"),
+    or(where("validUntilDate", ">=", Timestamp.fromDate(startOfDay(new Date()))), where("validUntilDate", "==", null)),
+  ));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => toBudget(docSnap.id, docSnap.data()));
+}
+
+export async function fetchBudgetById(budgetId: string): Promise<Budget | null> {
+  if (!budgetId) return null;
+  const docSnap = await getDoc(budgetDocRef(budgetId));
+  return docSnap.exists() ? toBudget(docSnap.id, docSnap.data()) : null;
+}
+
+export function calculateBudgetTotals(budget: BudgetTotalsInput) {
+  const totals = computeBudgetTotals(budget);
+  const items = budget.items.map((item, index) => ({
+    ...item,
+    quantity: Number(item.quantity),
+    unitPrice: Number(item.unitPrice),
+    totalPrice: totals.lines[index].net,
+    discount: item.discount ?? null,
+  }));
+  return { items, subtotal: totals.subtotal, totalAmount: totals.totalAmount };
+}
+
+function prepareBudgetForFirestore(data: BudgetInput) {
+  const validated = validateWithSchema(BudgetSchema, data, "Orçamento");
+  const { createdDate, revision, sentRevision, approvedRevision, ...rest } = validated;
+  return omitUndefined({
+    ...rest,
+    ...calculateBudgetTotals({
+      ...validated,
+      items: validated.items.map(item => ({ ...item, catalogItemId: item.catalogItemId ?? null, unitCost: item.unitCost ?? null })),
+    }),
+    validUntilDate: dateStringToTimestamp(validated.validUntilDate),
+    // Only set by the boleto return import; edits keep the stored value.
+    paidDate: dateStringToTimestamp(validated.paidDate) ?? undefined,
+  });
+}
+
+// The budget number is reserved from the issuing company's counter (Gold Maq
+// when `companyId` is not set) when saving; any number in `data` is ignored.
+export async function createBudget(data: BudgetInput): Promise<{ id: string; budgetNumber: string }> {
+  const docRef = doc(collection(requireDb("createBudget"), FIRESTORE_BUDGET_COLLECTION_NAME));
+  const budgetNumber = await createWithDocumentNumber("budget", data.companyId ?? GOLDMAQ_COMPANY_ID, (transaction, budgetNumber) => {
+    const prepared = prepareBudgetForFirestore({ ...data, budgetNumber });
+    const status = prepared.status ?? "Pendente";
+    const payload = {
+      ...prepared,
+      createdDate: serverTimestamp(),
+      serviceOrderCreated: false,
+      revision: 0,
+      sentRevision: null,
+      approvedRevision: null,
+      ...revisionMarksForStatus(status, 0),
+      ...statusDatesForTransition(null, status),
+    };
+    transaction.set(docRef, payload);
+    auditInTransaction(transaction, { entityType: "budget", entityId: docRef.id, action: "create", after: payload });
+    if (freezesRevision(status)) {
+      transaction.set(budgetRevisionDocRef(docRef.id, 0), budgetRevisionPayload(docRef.id, toBudget(docRef.id, prepared)));
+    }
+  });
+  return { id: docRef.id, budgetNumber };
+}
+
+// createdDate, serviceOrderCreated and the revision fields are owned by the
+// stored document, not the edit form. New terms on a revision that was sent
+// open the next revision (see src/lib/budget-revisions.ts); an approved
+// budget has to be reopened first. Returns the revision saved.
+export async function updateBudget(budgetId: string, data: BudgetInput): Promise<number> {
+  const budgetRef = budgetDocRef(budgetId);
+  const prepared = prepareBudgetForFirestore(data);
+
+  return runTransaction(requireDb("updateBudget"), async (transaction) => {
+    const originalBudgetDoc = await transaction.get(budgetRef);
+    if (!originalBudgetDoc.exists()) throw new Error("Orçamento não encontrado.");
+    const original = originalBudgetDoc.data();
+    const current = toBudget(budgetId, original);
+    const termsChanged = hasBudgetTermsChanged(getBudgetRevisionContent(current), getBudgetRevisionContent(toBudget(budgetId, { ...original, ...prepared })));
+    if (termsChanged && current.status === "Aprovado") {
+      throw new Error(`O orçamento ${getBudgetDisplayNumber(current)} já foi aprovado. Reabra-o para alterar itens ou valores em uma nova revisão.`);
+    }
+    const opensRevision = termsChanged && isBudgetRevisionFrozen(current);
+    const revision = (current.revision ?? 0) + (opensRevision ? 1 : 0);
+    // Kept "Enviado" from the sent revision, but the new one has not reached the customer yet.
+    const status = opensRevision && current.status === "Enviado" && prepared.status === "Enviado" ? "Pendente" : prepared.status ?? current.status;
+
+    const payload = {
+      ...prepared,
+      status,
+      // The number came from the issuer's counter, so the issuer cannot change.
+      companyId: original.companyId ?? GOLDMAQ_COMPANY_ID,
+      createdDate: original.createdDate ?? dateStringToTimestamp(data.createdDate) ?? Timestamp.now(),
+      serviceOrderCreated: data.serviceOrderCreated ?? original.serviceOrderCreated ?? false,
+      revision,
+      sentRevision: current.sentRevision ?? null,
+      approvedRevision: current.approvedRevision ?? null,
+      ...revisionMarksForStatus(status, revision),
+      ...statusDatesForTransition(current, status),
+      ...(status !== "Recusado" && { refusalReason: null }),
+      // The customer's link shows the previous revision; a new one is sent for this.
+      ...(opensRevision && { approvalLinkId: null }),
+    };
+    const saved = toBudget(budgetId, payload);
+    const previousSnapshot = opensRevision ? await transaction.get(budgetRevisionDocRef(budgetId, current.revision ?? 0)) : null;
+    const savedSnapshot = freezesRevision(status) ? await transaction.get(budgetRevisionDocRef(budgetId, revision)) : null;
+
+    transaction.update(budgetRef, payload);
+    auditInTransaction(transaction, { entityType: "budget", entityId: budgetId, action: "update", before: original, after: payload });
+    if (previousSnapshot) freezeRevisionInTransaction(transaction, budgetId, current, previousSnapshot);
+    if (savedSnapshot) freezeRevisionInTransaction(transaction, budgetId, saved, savedSnapshot);
+    if (opensRevision && current.approvalLinkId) deleteBudgetApprovalLink(transaction, current.approvalLinkId);
+    return revision;
+  });
+}
+
+export async function updateBudgetFields(budgetId: string, fields: Partial<Pick<Budget, "status" | "serviceOrderCreated" | "notes" | "customerResponseHandled">>): Promise<void> {
+  const payload = omitUndefined(fields);
+  const before = await getDoc(budgetDocRef(budgetId));
+  const batch = writeBatch(requireDb("updateBudgetFields"));
+  batch.update(budgetDocRef(budgetId), payload);
+  auditInBatch(batch, { entityType: "budget", entityId: budgetId, action: "update", before: before.data(), after: payload });
+  await batch.commit();
+}
+
+// Sending or approving freezes the current revision, so the approval refers
+// to exactly what is stored in its snapshot. Returns the budget as it was
+// before the change so callers can react to the transition.
+export async function updateBudgetStatus(budgetId: string, newStatus: BudgetStatusType, refusalReason?: BudgetRefusalReason | null): Promise<Budget> {
+  const budgetRef = budgetDocRef(budgetId);
+  return runTransaction(requireDb("updateBudgetStatus"), async (transaction) => {
+    const budgetDoc = await transaction.get(budgetRef);
+    if (!budgetDoc.exists()) throw new Error("Orçamento não encontrado.");
+    const budget = toBudget(budgetId, budgetDoc.data());
+    const revision = budget.revision ?? 0;
+    const snapshot = freezesRevision(newStatus) ? await transaction.get(budgetRevisionDocRef(budgetId, revision)) : null;
+    const payload = {
+      status: newStatus,
+      ...revisionMarksForStatus(newStatus, revision),
+      ...statusDatesForTransition(budget, newStatus),
+      ...(newStatus === "Recusado" && { refusalReason: refusalReason ?? budget.refusalReason ?? null }),
+    };
+    transaction.update(budgetRef, payload);
+    auditInTransaction(transaction, { entityType: "budget", entityId: budgetId, action: "update", before: budgetDoc.data(), after: payload });
+    if (snapshot) freezeRevisionInTransaction(transaction, budgetId, budget, snapshot);
+    return budget;
+  });
+}
+
+export interface BudgetApprovalLinkDetails {
+  customer: Customer;
+  equipment?: Maquina | null;
+  company?: Company | null;
+  serviceOrderNumber?: string | null;
+}
+
+// Creates the public approval link for the current revision and marks it as
+// sent, which freezes it. A previous link stops working. Returns the token.
+export async function createBudgetApprovalLink(budgetId: string, details: BudgetApprovalLinkDetails): Promise<string> {
+  const { customer, equipment, company } = details;
+  const cnpj = normalizeDocumentDigits(customer.cnpj);
+  if (cnpj.length !== 11 && cnpj.length !== 14) throw new Error("O cliente não tem CNPJ/CPF completo cadastrado para confirmar a aprovação.");
+  const token = generateBudgetApprovalToken();
+  const budgetRef = budgetDocRef(budgetId);
+
+  await runTransaction(requireDb("createBudgetApprovalLink"), async (transaction) => {
+    const budgetDoc = await transaction.get(budgetRef);
+    if (!budgetDoc.exists()) throw new Error("Orçamento não encontrado.");
+    const budget = toBudget(budgetId, budgetDoc.data());
+    if (budget.status !== "Pendente" && budget.status !== "Enviado") {
+      throw new Error(`O orçamento ${getBudgetDisplayNumber(budget)} está "${budget.status}" e não pode ser enviado para aprovação.`);
+    }
+    if (!budget.validUntilDate) throw new Error("Defina a validade do orçamento antes de gerar o link de aprovação.");
+    const expiresAt = getBudgetApprovalExpiry(budget.validUntilDate);
+    if (expiresAt <= new Date()) throw new Error("A validade do orçamento já passou. Atualize-a antes de gerar o link de aprovação.");
+    const revision = budget.revision ?? 0;
+    const snapshot = await transaction.get(budgetRevisionDocRef(budgetId, revision));
+
+    const content = getBudgetRevisionContent(budget);
+    transaction.set(budgetApprovalLinkDocRef(token), {
+      budgetId,
+      budgetNumber: budget.budgetNumber,
+      revision,
+      createdDate: dateStringToTimestamp(budget.createdDate),
+      ...content,
+      validUntilDate: dateStringToTimestamp(content.validUntilDate),
+      serviceOrderNumber: details.serviceOrderNumber || null,
+      customer: omitUndefined({
+        name: customer.name, street: customer.street, number: customer.number, complement: customer.complement,
+        neighborhood: customer.neighborhood, city: customer.city, state: customer.state, cep: customer.cep,
+      }),
+      equipment: equipment
+        ? { brand: equipment.brand, model: equipment.model, chassisNumber: equipment.chassisNumber, manufactureYear: equipment.manufactureYear ?? null }
+        : null,
+      company: company
+        ? omitUndefined({
+          id: company.id, name: company.name, cnpj: company.cnpj, street: company.street, number: company.number, complement: company.complement,
+          neighborhood: company.neighborhood, city: company.city, state: company.state, cep: company.cep, phone: company.phone, email: company.email,
+          bankName: company.bankName, bankAgency: company.bankAgency, bankAccount: company.bankAccount, bankPixKey: company.bankPixKey,
+        })
+        : null,
+      expiresAt: Timestamp.fromDate(expiresAt),
+      createdAt: serverTimestamp(),
+      response: null,
+    });
+    transaction.set(budgetApprovalCheckDocRef(token), { budgetId, cnpj });
+    if (budget.approvalLinkId) deleteBudgetApprovalLink(transaction, budget.approvalLinkId);
+    const payload = { approvalLinkId: token, status: "Enviado" as const, sentRevision: revision, ...statusDatesForTransition(budget, "Enviado") };
+    transaction.update(budgetRef, payload);
+    auditInTransaction(transaction, { entityType: "budget", entityId: budgetId, action: "update", before: budgetDoc.data(), after: payload });
+    freezeRevisionInTransaction(transaction, budgetId, budget, snapshot);
+  });
+  return token;
+}
+
+// A contact with the customer about a sent budget still waiting for an answer;
+// it leaves the follow-up queue until the company's interval passes again.
+export async function registerBudgetFollowUp(budgetId: string): Promise<void> {
+  const budgetRef = budgetDocRef(budgetId);
+  await runTransaction(requireDb("registerBudgetFollowUp"), async (transaction) => {
+    const before = await transaction.get(budgetRef);
+    if (!before.exists()) throw new Error("Orçamento não encontrado.");
+    const payload = { lastFollowUpDate: serverTimestamp(), followUpCount: (Number(before.data().followUpCount) || 0) + 1 };
+    transaction.update(budgetRef, payload);
+    auditInTransaction(transaction, { entityType: "budget", entityId: budgetId, action: "update", before: before.data(), after: payload });
+  });
+}
+
+// Its revision snapshots and approval link go with it.
+export async function deleteBudget(budgetId: string): Promise<void> {
+  const before = await getDoc(budgetDocRef(budgetId));
+  const revisions = await fetchBudgetRevisions(budgetId);
+  const batch = writeBatch(requireDb("deleteBudget"));
+  batch.delete(budgetDocRef(budgetId));
+  revisions.forEach(revision => batch.delete(budgetRevisionDocRef(budgetId, revision.revision)));
+  const approvalLinkId = before.data()?.approvalLinkId;
+  if (approvalLinkId) deleteBudgetApprovalLink(batch, approvalLinkId);
+  auditInBatch(batch, { entityType: "budget", entityId: budgetId, action: "delete", before: before.data() });
+  await batch.commit();
+}
@@ -0,0 +1,93 @@
+import { collection, doc, getDoc, getDocs, orderBy, query, where, writeBatch, type DocumentData } from "firebase/firestore";
+import type * as z from "zod";
+import type { CatalogItem } from "@/types";
+import { CatalogItemSchema } from "@/types";
+import { FIRESTORE_CATALOG_ITEM_COLLECTION_NAME } from "./collections";
+import { requireDb, toNullableNumber, validateWithSchema } from "./shared";
+import { auditInBatch } from "./audit";
+
+export type CatalogItemInput = z.input<typeof CatalogItemSchema>;
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === "string" && !!entry.trim()) : [];
+
+export function toCatalogItem(id: string, data: DocumentData): CatalogItem {
+  return {
+    id,
+    kind: data.kind === "Serviço" ? "Serviço" : "Peça",
+    code: data.code || "",
+    description: data.description || "",
+    compatibleBrands: toStringList(data.compatibleBrands),
+    compatibleModels: toStringList(data.compatibleModels),
+    costPrice: toNullableNumber(data.costPrice),
+    salePrice: Number(data.salePrice) || 0,
+    pricing: data.pricing || null,
+    active: data.active !== false,
+  };
+}
+
+function catalogItemDocRef(itemId: string) {
+  return doc(requireDb("catalogItemDocRef"), FIRESTORE_CATALOG_ITEM_COLLECTION_NAME, itemId);
+}
+
+export async function fetchCatalogItems(): Promise<CatalogItem[]> {
+  const db = requireDb("fetchCatalogItems");
+  const q = query(collection(db, FIRESTORE_CATALOG_ITEM_COLLECTION_NAME), orderBy("code", "asc"));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => toCatalogItem(docSnap.id, docSnap.data()));
+}
+
+const cleanList = (values: string[]) => Array.from(new Set(values.map(value => value.trim()).filter(Boolean)));
+
+// Codes are compared in upper case; compatibility only applies to parts.
+function prepareCatalogItemForFirestore(data: CatalogItemInput) {
+  const validated = validateWithSchema(CatalogItemSchema, data, "Item do catálogo");
+  const isPart = validated.kind === "Peça";
+  return {
+    ...validated,
+    code: validated.code.trim().toUpperCase(),
+    description: validated.description.trim(),
+    compatibleBrands: isPart ? cleanList(validated.compatibleBrands) : [],
+    compatibleModels: isPart ? cleanList(validated.compatibleModels) : [],
+    costPrice: validated.costPrice ?? null,
+    pricing: isPart ? null : validated.pricing ?? null,
+  };
+}
+
+async function assertCodeIsFree(code: string, itemId?: string) {
+  const q = query(collection(requireDb("assertCodeIsFree"), FIRESTORE_CATALOG_ITEM_COLLECTION_NAME), where("code", "==", code));
+  const querySnapshot = await getDocs(q);
+  if (querySnapshot.docs.some(docSnap => docSnap.id !== itemId)) {
+    throw new Error(`Já existe um item com o código ${code} no catálogo.`);
+  }
+}
+
+export async function createCatalogItem(data: CatalogItemInput): Promise<string> {
+  const itemRef = doc(collection(requireDb("createCatalogItem"), FIRESTORE_CATALOG_ITEM_COLLECTION_NAME));
+  const payload = prepareCatalogItemForFirestore(data);
+  await assertCodeIsFree(payload.code);
+  const batch = writeBatch(requireDb("createCatalogItem"));
+  batch.set(itemRef, payload);
+  auditInBatch(batch, { entityType: "catalogItem", entityId: itemRef.id, action: "create", after: payload });
+  await batch.commit();
+  return itemRef.id;
+}
+
+export async function updateCatalogItem(itemId: string, data: CatalogItemInput): Promise<void> {
+  const payload = prepareCatalogItemForFirestore(data);
+  await assertCodeIsFree(payload.code, itemId);
+  const before = await getDoc(catalogItemDocRef(itemId));
+  const batch = writeBatch(requireDb("updateCatalogItem"));
+  batch.set(catalogItemDocRef(itemId), payload);
+  auditInBatch(batch, { entityType: "catalogItem", entityId: itemId, action: "update", before: before.data(), after: payload });
+  await batch.commit();
+}
+
+// Budgets and requisitions keep their own copy of description and prices.
+export async function deleteCatalogItem(itemId: string): Promise<void> {
+  const before = await getDoc(catalogItemDocRef(itemId));
+  const batch = writeBatch(requireDb("deleteCatalogItem"));
+  batch.delete(catalogItemDocRef(itemId));
+  auditInBatch(batch, { entityType: "catalogItem", entityId: itemId, action: "delete", before: before.data() });
+  await batch.commit();
+}
@@ -0,0 +1,196 @@
+import { collection, doc, getDoc, getDocs, orderBy, query, serverTimestamp, writeBatch, type DocumentData } from "firebase/firestore";
+import type * as z from "zod";
+import type { ChecklistTemplate, ServiceOrder, ServiceOrderChecklist, ServiceOrderChecklistItem } from "@/types";
+import { ChecklistTemplateSchema, ServiceOrderChecklistSchema, checklistResultOptions, serviceTypeOptionsList } from "@/types";
+import { FIRESTORE_CHECKLIST_TEMPLATE_COLLECTION_NAME, FIRESTORE_SERVICE_ORDER_CHECKLIST_COLLECTION_NAME } from "./collections";
+import { omitUndefined, requireDb, timestampToIsoString, validateWithSchema } from "./shared";
+import { auditInBatch } from "./audit";
+import { PENDING_DOCUMENT_NUMBER } from "./counters";
+import { createPartsRequisition } from "./parts-requisitions";
+import { createBudget } from "./budgets";
+
+export type ChecklistTemplateInput = z.input<typeof ChecklistTemplateSchema>;
+
+export function toChecklistTemplate(id: string, data: DocumentData): ChecklistTemplate {
+  return {
+    id,
+    name: data.name || "Checklist sem nome",
+    serviceType: serviceTypeOptionsList.includes(data.serviceType) ? data.serviceType : "Manutenção Preventiva",
+    equipmentType: data.equipmentType || null,
+    items: Array.isArray(data.items) ? data.items.filter((item: any) => item?.id && item?.label) : [],
+    active: data.active !== false,
+  };
+}
+
+function toChecklistItem(item: any): ServiceOrderChecklistItem {
+  return {
+    id: item.id,
+    label: item.label || "",
+    result: checklistResultOptions.includes(item.result) ? item.result : null,
+    notes: item.notes || null,
+    photoUrl: item.photoUrl || null,
+    partsRequisitionId: item.partsRequisitionId || null,
+    budgetId: item.budgetId || null,
+  };
+}
+
+export function toServiceOrderChecklist(id: string, data: DocumentData): ServiceOrderChecklist {
+  return {
+    id,
+    serviceOrderId: data.serviceOrderId || id,
+    templateId: data.templateId || "",
+    templateName: data.templateName || "Checklist",
+    items: Array.isArray(data.items) ? data.items.filter((item: any) => item?.id).map(toChecklistItem) : [],
+    updatedAt: timestampToIsoString(data.updatedAt) ?? null,
+    updatedByName: data.updatedByName || null,
+  };
+}
+
+export function checklistTemplateDocRef(templateId: string) {
+  return doc(requireDb("checklistTemplateDocRef"), FIRESTORE_CHECKLIST_TEMPLATE_COLLECTION_NAME, templateId);
+}
+
+function serviceOrderChecklistDocRef(serviceOrderId: string) {
+  return doc(requireDb("serviceOrderChecklistDocRef"), FIRESTORE_SERVICE_ORDER_CHECKLIST_COLLECTION_NAME, serviceOrderId);
+}
+
+export async function fetchChecklistTemplates(): Promise<ChecklistTemplate[]> {
+  const db = requireDb("fetchChecklistTemplates");
+  const q = query(collection(db, FIRESTORE_CHECKLIST_TEMPLATE_COLLECTION_NAME), orderBy("name", "asc"));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => toChecklistTemplate(docSnap.id, docSnap.data()));
+}
+
+function prepareChecklistTemplateForFirestore(data: ChecklistTemplateInput) {
+  const validated = validateWithSchema(ChecklistTemplateSchema, data, "Modelo de checklist");
+  return {
+    ...validated,
+    equipmentType: validated.equipmentType || null,
+    items: validated.items.map(item => ({ id: item.id, label: item.label.trim() })),
+  };
+}
+
+export async function createChecklistTemplate(data: ChecklistTemplateInput): Promise<string> {
+  const templateRef = doc(collection(requireDb("createChecklistTemplate"), FIRESTORE_CHECKLIST_TEMPLATE_COLLECTION_NAME));
+  const payload = prepareChecklistTemplateForFirestore(data);
+  const batch = writeBatch(requireDb("createChecklistTemplate"));
+  batch.set(templateRef, payload);
+  auditInBatch(batch, { entityType: "checklistTemplate", entityId: templateRef.id, action: "create", after: payload });
+  await batch.commit();
+  return templateRef.id;
+}
+
+export async function updateChecklistTemplate(templateId: string, data: ChecklistTemplateInput): Promise<void> {
+  const payload = prepareChecklistTemplateForFirestore(data);
+  const before = await getDoc(checklistTemplateDocRef(templateId));
+  const batch = writeBatch(requireDb("updateChecklistTemplate"));
+  batch.update(checklistTemplateDocRef(templateId), payload);
+  auditInBatch(batch, { entityType: "checklistTemplate", entityId: templateId, action: "update", before: before.data(), after: payload });
+  await batch.commit();
+}
+
+export async function deleteChecklistTemplate(templateId: string): Promise<void> {
+  const before = await getDoc(checklistTemplateDocRef(templateId));
+  const batch = writeBatch(requireDb("deleteChecklistTemplate"));
+  batch.delete(checklistTemplateDocRef(templateId));
+  auditInBatch(batch, { entityType: "checklistTemplate", entityId: templateId, action: "delete", before: before.data() });
+  await batch.commit();
+}
+
+export async function fetchServiceOrderChecklist(serviceOrderId: string): Promise<ServiceOrderChecklist | null> {
+  if (!serviceOrderId) return null;
+  const docSnap = await getDoc(serviceOrderChecklistDocRef(serviceOrderId));
+  return docSnap.exists() ? toServiceOrderChecklist(docSnap.id, docSnap.data()) : null;
+}
+
+export async function saveServiceOrderChecklist(checklist: ServiceOrderChecklist): Promise<void> {
+  const validated = validateWithSchema(ServiceOrderChecklistSchema, checklist, "Checklist");
+  const payload = {
+    ...validated,
+    items: validated.items.map(item => omitUndefined({
+      ...item,
+      result: item.result || null,
+      notes: item.notes?.trim() || null,
+      photoUrl: item.photoUrl || null,
+    })),
+    updatedByName: validated.updatedByName || null,
+  };
+  const checklistRef = serviceOrderChecklistDocRef(validated.serviceOrderId);
+  const before = await getDoc(checklistRef);
+  const batch = writeBatch(requireDb("saveServiceOrderChecklist"));
+  batch.set(checklistRef, { ...payload, updatedAt: serverTimestamp() });
+  auditInBatch(batch, {
+    entityType: "serviceOrderChecklist",
+    entityId: validated.serviceOrderId,
+    action: before.exists() ? "update" : "create",
+    before: before.data(),
+    after: payload,
+  });
+  await batch.commit();
+}
+
+const linkItems = (checklist: ServiceOrderChecklist, itemIds: string[], link: Partial<ServiceOrderChecklistItem>): ServiceOrderChecklist => ({
+  ...checklist,
+  items: checklist.items.map(item => itemIds.includes(item.id) ? { ...item, ...link } : item),
+});
+
+// A NOK item becomes a requisition for the part to replace; the checklist
+// keeps the requisition id so the item is not requested twice.
+export async function openPartsRequisitionFromChecklist(
+  checklist: ServiceOrderChecklist,
+  itemId: string,
+  requester: { technicianId: string; technicianName: string }
+): Promise<string> {
+  const item = checklist.items.find(checklistItem => checklistItem.id === itemId);
+  if (!item) throw new Error("Item do checklist não encontrado.");
+  if (item.partsRequisitionId) throw new Error(`Já existe uma requisição para "${item.label}".`);
+  const requisitionId = crypto.randomUUID();
+  const requisitionNumber = await createPartsRequisition(requisitionId, {
+    requisitionNumber: PENDING_DOCUMENT_NUMBER,
+    serviceOrderId: checklist.serviceOrderId,
+    technicianId: requester.technicianId,
+    technicianName: requester.technicianName,
+    status: "Pendente",
+    items: [{
+      id: crypto.randomUUID(),
+      partName: item.label,
+      quantity: 1,
+      notes: item.notes || null,
+      imageUrl: item.photoUrl || null,
+      status: "Pendente Aprovação",
+    }],
+    generalNotes: `Item reprovado no checklist "${checklist.templateName}".`,
+  });
+  await saveServiceOrderChecklist(linkItems(checklist, [itemId], { partsRequisitionId: requisitionId }));
+  return requisitionNumber;
+}
+
+// One follow-up budget for the given NOK items, priced later by whoever
+// manages budgets (items start at zero).
+export async function openBudgetFromChecklist(
+  checklist: ServiceOrderChecklist,
+  order: Pick<ServiceOrder, "id" | "customerId" | "equipmentId">,
+  itemIds: string[]
+): Promise<string> {
+  const items = checklist.items.filter(item => itemIds.includes(item.id) && !item.budgetId);
+  if (items.length === 0) throw new Error("Nenhum item reprovado sem orçamento.");
+  const { id: budgetId, budgetNumber } = await createBudget({
+    budgetNumber: PENDING_DOCUMENT_NUMBER,
+    serviceOrderId: order.id,
+    customerId: order.customerId,
+    equipmentId: order.equipmentId,
+    status: "Pendente",
+    items: items.map(item => ({
+      id: crypto.randomUUID(),
+      description: item.notes ? `${item.label} - ${item.notes}` : item.label,
+      quantity: 1,
+      unitPrice: 0,
+    })),
+    shippingCost: null,
+    createdDate: new Date().toISOString(),
+    validUntilDate: null,
+    notes: `Orçamento complementar dos itens reprovados no checklist "${checklist.templateName}".`,
+  });
+  await saveServiceOrderChecklist(linkItems(checklist, items.map(item => item.id), { budgetId }));
+  return budgetNumber;
+}
@@ -0,0 +1,142 @@
+// Firestore collection names and React Query keys shared by every page.
+// Pages must import from here instead of redefining their own constants,
+// so cache invalidation and reads always target the same keys.
+
+export const FIRESTORE_CUSTOMER_COLLECTION_NAME = "clientes";
+export const FIRESTORE_EQUIPMENT_COLLECTION_NAME = "equipamentos";
+export const FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME = "equipamentosAuxiliares";
+export const FIRESTORE_SERVICE_ORDER_COLLECTION_NAME = "ordensDeServico";
+export const FIRESTORE_BUDGET_COLLECTION_NAME = "budgets";
+// Immutable copies of budget revisions as sent or approved, keyed `${budgetId}_R${revision}`.
+export const FIRESTORE_BUDGET_REVISION_COLLECTION_NAME = "revisoesOrcamento";
+// Public approval links; the document id is the token sent to the customer.
+export const FIRESTORE_BUDGET_APPROVAL_COLLECTION_NAME = "aprovacoesOrcamento";
+// The CNPJ/CPF an approval link must be answered with, keyed by the same token.
+// Staff-only: firestore.rules read it to check the answer.
+export const FIRESTORE_BUDGET_APPROVAL_CHECK_COLLECTION_NAME = "aprovacoesOrcamentoConferencia";
+export const FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME = "partsRequisitions";
+export const FIRESTORE_TECHNICIAN_COLLECTION_NAME = "tecnicos";
+export const FIRESTORE_VEHICLE_COLLECTION_NAME = "veiculos";
+export const FIRESTORE_COMPANY_COLLECTION_NAME = "empresas";
+export const FIRESTORE_RENTAL_CONTRACT_COLLECTION_NAME = "contratosLocacao";
+export const FIRESTORE_INVOICE_COLLECTION_NAME = "faturas";
+export const FIRESTORE_BOLETO_COLLECTION_NAME = "boletos";
+export const FIRESTORE_BOLETO_REMITTANCE_COLLECTION_NAME = "remessasBoleto";
+export const FIRESTORE_HOUR_METER_READING_COLLECTION_NAME = "leiturasHorimetro";
+export const FIRESTORE_MAINTENANCE_PLAN_COLLECTION_NAME = "planosManutencao";
+export const FIRESTORE_LABOR_TIME_ENTRY_COLLECTION_NAME = "apontamentosHoras";
+export const FIRESTORE_LABOR_RATE_COLLECTION_NAME = "valoresHora";
+export const FIRESTORE_CHECKLIST_TEMPLATE_COLLECTION_NAME = "modelosChecklist";
+// One filled-in checklist per service order, keyed by the order id.
+export const FIRESTORE_SERVICE_ORDER_CHECKLIST_COLLECTION_NAME = "checklistsOS";
+export const FIRESTORE_TOLL_PLAZA_COLLECTION_NAME = "pracasPedagio";
+// Calculated routes keyed by origin and destination address keys (CEP + number).
+export const FIRESTORE_ROUTE_CACHE_COLLECTION_NAME = "rotasCalculadas";
+// A technician's planned visits on one day, keyed by technician id and date.
+export const FIRESTORE_DAILY_ROUTE_COLLECTION_NAME = "rotasDiarias";
+export const FIRESTORE_CATALOG_ITEM_COLLECTION_NAME = "catalogoItens";
+// One document per Firebase Auth uid pointing at the linked collaborator. The
+// security rules read it to resolve the caller's role (rules cannot run queries).
+export const FIRESTORE_USER_COLLECTION_NAME = "usuarios";
+export const FIRESTORE_AUDIT_LOG_COLLECTION_NAME = "auditLog";
+// Sequential number counters, one document per company and document type.
+export const FIRESTORE_COUNTER_COLLECTION_NAME = "contadores";
+
+// Every key starts with the collection name, so invalidating `all` also
+// refreshes the filtered lists and single-document queries of that entity.
+export const queryKeys = {
+  customers: {
+    all: [FIRESTORE_CUSTOMER_COLLECTION_NAME] as const,
+    detail: (id: string | null | undefined) => [FIRESTORE_CUSTOMER_COLLECTION_NAME, id] as const,
+  },
+  maquinas: {
+    all: [FIRESTORE_EQUIPMENT_COLLECTION_NAME] as const,
+    detail: (id: string | null | undefined) => [FIRESTORE_EQUIPMENT_COLLECTION_NAME, id] as const,
+  },
+  auxiliaryEquipment: {
+    all: [FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME] as const,
+  },
+  hourMeterReadings: {
+    all: [FIRESTORE_HOUR_METER_READING_COLLECTION_NAME] as const,
+    byMaquina: (equipmentId: string | null | undefined) => [FIRESTORE_HOUR_METER_READING_COLLECTION_NAME, equipmentId] as const,
+  },
+  maintenancePlans: {
+    all: [FIRESTORE_MAINTENANCE_PLAN_COLLECTION_NAME] as const,
+  },
+  serviceOrders: {
+    all: [FIRESTORE_SERVICE_ORDER_COLLECTION_NAME] as const,
+    recent: [FIRESTORE_SERVICE_ORDER_COLLECTION_NAME, "recent"] as const,
+    open: [FIRESTORE_SERVICE_ORDER_COLLECTION_NAME, "open"] as const,
+    byTechnician: (technicianId: string | null | undefined) => [FIRESTORE_SERVICE_ORDER_COLLECTION_NAME, "technician", technicianId] as const,
+    detail: (id: string | null | undefined) => [FIRESTORE_SERVICE_ORDER_COLLECTION_NAME, id] as const,
+  },
+  laborTimeEntries: {
+    all: [FIRESTORE_LABOR_TIME_ENTRY_COLLECTION_NAME] as const,
+    byServiceOrder: (serviceOrderId: string | null | undefined) => [FIRESTORE_LABOR_TIME_ENTRY_COLLECTION_NAME, "serviceOrder", serviceOrderId] as const,
+    byPeriod: (start: string, end: string) => [FIRESTORE_LABOR_TIME_ENTRY_COLLECTION_NAME, "period", start, end] as const,
+  },
+  laborRates: {
+    all: [FIRESTORE_LABOR_RATE_COLLECTION_NAME] as const,
+  },
+  checklistTemplates: {
+    all: [FIRESTORE_CHECKLIST_TEMPLATE_COLLECTION_NAME] as const,
+  },
+  serviceOrderChecklists: {
+    all: [FIRESTORE_SERVICE_ORDER_CHECKLIST_COLLECTION_NAME] as const,
+    detail: (serviceOrderId: string | null | undefined) => [FIRESTORE_SERVICE_ORDER_CHECKLIST_COLLECTION_NAME, serviceOrderId] as const,
+  },
+  tollPlazas: {
+    all: [FIRESTORE_TOLL_PLAZA_COLLECTION_NAME] as const,
+  },
+  dailyRoutes: {
+    all: [FIRESTORE_DAILY_ROUTE_COLLECTION_NAME] as const,
+    detail: (id: string | null | undefined) => [FIRESTORE_DAILY_ROUTE_COLLECTION_NAME, id] as const,
+  },
+  catalogItems: {
+    all: [FIRESTORE_CATALOG_ITEM_COLLECTION_NAME] as const,
+  },
+  rentalContracts: {
+    all: [FIRESTORE_RENTAL_CONTRACT_COLLECTION_NAME] as const,
+  },
+  invoices: {
+    all: [FIRESTORE_INVOICE_COLLECTION_NAME] as const,
+  },
+  boletos: {
+    all: [FIRESTORE_BOLETO_COLLECTION_NAME] as const,
+  },
+  boletoRemittances: {
+    all: [FIRESTORE_BOLETO_REMITTANCE_COLLECTION_NAME] as const,
+  },
+  budgets: {
+    all: [FIRESTORE_BUDGET_COLLECTION_NAME] as const,
+    detail: (id: string | null | undefined) => [FIRESTORE_BUDGET_COLLECTION_NAME, id] as const,
+    awaitingAnswer: [FIRESTORE_BUDGET_COLLECTION_NAME, "awaitingAnswer"] as const,
+    unhandledResponses: [FIRESTORE_BUDGET_COLLECTION_NAME, "unhandledResponses"] as const,
+    revisions: (id: string | null | undefined) => [FIRESTORE_BUDGET_REVISION_COLLECTION_NAME, id] as const,
+  },
+  budgetApprovals: {
+    detail: (token: string | null | undefined) => [FIRESTORE_BUDGET_APPROVAL_COLLECTION_NAME, token] as const,
+  },
+  partsRequisitions: {
+    all: [FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME] as const,
+  },
+  technicians: {
+    all: [FIRESTORE_TECHNICIAN_COLLECTION_NAME] as const,
+  },
+  vehicles: {
+    all: [FIRESTORE_VEHICLE_COLLECTION_NAME] as const,
+  },
+  auditLog: {
+    all: [FIRESTORE_AUDIT_LOG_COLLECTION_NAME] as const,
+    entity: (entityType: string, entityId: string | null | undefined) => [FIRESTORE_AUDIT_LOG_COLLECTION_NAME, entityType, entityId] as const,
+  },
+  companies: {
+    all: [FIRESTORE_COMPANY_COLLECTION_NAME] as const,
+    detail: (id: string | null | undefined) => [FIRESTORE_COMPANY_COLLECTION_NAME, id] as const,
+  },
+  counters: {
+    all: [FIRESTORE_COUNTER_COLLECTION_NAME] as const,
+    byCompany: (companyId: string) => [FIRESTORE_COUNTER_COLLECTION_NAME, "company", companyId] as const,
+    duplicates: (documentType: string, companyId: string) => [FIRESTORE_COUNTER_COLLECTION_NAME, "duplicates", documentType, companyId] as const,
+  },
+};
@@ -0,0 +1,127 @@
+import { doc, getDoc, updateDoc, writeBatch, type DocumentData } from "firebase/firestore";
+import type * as z from "zod";
+import type { Company, CompanyId, GeoCoordinates } from "@/types";
+import { CompanySchema, companyIds } from "@/types";
+import { FIRESTORE_COMPANY_COLLECTION_NAME } from "./collections";
+import { omitUndefined, requireDb, validateWithSchema } from "./shared";
+import { auditInBatch } from "./audit";
+
+export type CompanyInput = z.input<typeof CompanySchema>;
+
+// Defaults used when a company document was never saved in Firestore.
+export const initialCompanyDataFromCode: Record<CompanyId, Omit<Company, 'id'>> = {
+  goldmaq: {
+    name: "Gold Maq",
+    cnpj: "04.325.000/0001-12",
+    street: "RUA ARISTIDES MARIOTTI",
+    number: "290",
+    neighborhood: "RECANTO QUARTO CENTENARIO",
+    city: "Jundiai",
+    state: "SP",
+    cep: "13211-740",
+    phone: "11999998888",
+    email: "contato@goldmaq.com.br",
+    bankName: "Banco Alpha",
+    bankAgency: "0001",
+    bankAccount: "12345-6",
+    bankPixKey: "04325000000112"
+  },
+  goldcomercio: {
+    name: "Gold Comércio",
+    cnpj: "33.521.128/0001-50",
+    street: "RUA ARISTIDES MARIOTTI",
+    number: "290",
+    neighborhood: "RECANTO QUARTO CENTENARIO",
+    city: "Jundiai",
+    state: "SP",
+    cep: "13211-740",
+    phone: "11777776666",
+    email: "comercial@goldcomercio.com.br",
+    bankName: "Banco Beta",
+    bankAgency: "0002",
+    bankAccount: "65432-1",
+    bankPixKey: undefined,
+  },
+  goldjob: {
+    name: "Gold Empilhadeiras",
+    cnpj: "13.311.149/0001-33",
+    street: "RUA ARISTIDES MARIOTTI",
+    number: "290",
+    neighborhood: "RECANTO QUARTO CENTENARIO",
+    city: "Jundiai",
+    state: "SP",
+    cep: "13211-740",
+    phone: "11555554444",
+    email: "orcamento@goldempilhadeiras.com.br",
+    bankName: undefined,
+    bankAgency: undefined,
+    bankAccount: undefined,
+    bankPixKey: undefined,
+  },
+};
+
+const companyFields = [
+  "name", "cnpj", "street", "number", "complement", "neighborhood", "city", "state", "cep",
+  "phone", "email", "bankName", "bankAgency", "bankAccount", "bankPixKey",
+  "bankCode", "boletoWallet", "boletoAgreement",
+] as const;
+
+const companyNumberFields = ["issRate", "icmsRate", "ipiRate", "budgetFollowUpDays"] as const;
+
+export function toCompany(id: CompanyId, data: DocumentData | undefined): Company {
+  const defaults = initialCompanyDataFromCode[id];
+  const company: Company = { id, ...defaults };
+  if (data) {
+    for (const field of companyFields) {
+      if (data[field]) company[field] = data[field];
+    }
+    for (const field of companyNumberFields) {
+      if (data[field]) company[field] = Number(data[field]);
+    }
+    if (data.coordinates) company.coordinates = data.coordinates;
+  }
+  return company;
+}
+
+export function companyDocRef(companyId: CompanyId) {
+  return doc(requireDb("companyDocRef"), FIRESTORE_COMPANY_COLLECTION_NAME, companyId);
+}
+
+export async function fetchCompanyById(companyId: CompanyId): Promise<Company | null> {
+  const docSnap = await getDoc(companyDocRef(companyId));
+  if (!docSnap.exists()) {
+    if (!initialCompanyDataFromCode[companyId]) {
+      console.warn(`fetchCompanyById: Company with ID ${companyId} not found.`);
+      return null;
+    }
+    console.warn(`fetchCompanyById: Document for ${companyId} not found in Firestore. Using initial data from code.`);
+  }
+  return toCompany(companyId, docSnap.exists() ? docSnap.data() : undefined);
+}
+
+export async function fetchCompanies(): Promise<Company[]> {
+  requireDb("fetchCompanies");
+  const companies = await Promise.all(companyIds.map(id => fetchCompanyById(id)));
+  return companies.filter((company): company is Company => company !== null);
+}
+
+// Geocoded by route calculations and not audited. A company still running on
+// code defaults has no document to hold them, so they are only kept once it
+// has been saved.
+export async function updateCompanyCoordinates(companyId: CompanyId, coordinates: GeoCoordinates): Promise<boolean> {
+  const companyRef = companyDocRef(companyId);
+  if (!(await getDoc(companyRef)).exists()) return false;
+  await updateDoc(companyRef, { coordinates });
+  return true;
+}
+
+// Creates the document on first save, since companies may still be running on code defaults.
+export async function saveCompany(data: CompanyInput): Promise<void> {
+  const { id, ...validated } = validateWithSchema(CompanySchema, data, "Empresa");
+  const payload = omitUndefined(validated);
+  const before = await getDoc(companyDocRef(id));
+  const batch = writeBatch(requireDb("saveCompany"));
+  batch.set(companyDocRef(id), payload, { merge: true });
+  auditInBatch(batch, { entityType: "company", entityId: id, action: before.exists() ? "update" : "create", before: before.data(), after: payload });
+  await batch.commit();
+}
@@ -0,0 +1,252 @@
+import { collection, doc, getDoc, getDocs, runTransaction, type DocumentData, type Transaction } from "firebase/firestore";
+import type { CompanyId, DocumentCounter, DocumentNumberDuplicate, DocumentNumberingSettings, NumberedDocumentType } from "@/types";
+import { DocumentNumberingSettingsSchema, GOLDMAQ_COMPANY_ID, numberedDocumentTypeOptions } from "@/types";
+import {
+  FIRESTORE_BOLETO_COLLECTION_NAME, FIRESTORE_BOLETO_REMITTANCE_COLLECTION_NAME,
+  FIRESTORE_BUDGET_COLLECTION_NAME, FIRESTORE_COUNTER_COLLECTION_NAME, FIRESTORE_INVOICE_COLLECTION_NAME,
+  FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME, FIRESTORE_RENTAL_CONTRACT_COLLECTION_NAME, FIRESTORE_SERVICE_ORDER_COLLECTION_NAME,
+} from "./collections";
+import { requireDb, timestampToIsoString, validateWithSchema } from "./shared";
+import { auditInTransaction } from "./audit";
+
+// Shown in the number field of new documents: the real number is only
+// reserved when the document is saved.
+export const PENDING_DOCUMENT_NUMBER = "Automático";
+
+const numberedDocumentConfig: Record<NumberedDocumentType, { collectionName: string; numberField: string }> = {
+  serviceOrder: { collectionName: FIRESTORE_SERVICE_ORDER_COLLECTION_NAME, numberField: "orderNumber" },
+  budget: { collectionName: FIRESTORE_BUDGET_COLLECTION_NAME, numberField: "budgetNumber" },
+  partsRequisition: { collectionName: FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME, numberField: "requisitionNumber" },
+  rentalContract: { collectionName: FIRESTORE_RENTAL_CONTRACT_COLLECTION_NAME, numberField: "contractNumber" },
+  invoice: { collectionName: FIRESTORE_INVOICE_COLLECTION_NAME, numberField: "invoiceNumber" },
+  boleto: { collectionName: FIRESTORE_BOLETO_COLLECTION_NAME, numberField: "ourNumber" },
+  boletoRemittance: { collectionName: FIRESTORE_BOLETO_REMITTANCE_COLLECTION_NAME, numberField: "remittanceNumber" },
+};
+
+// Same format the numbers had before the counters existed, so the sequence continues unchanged.
+const legacyNumberingSettings: Record<NumberedDocumentType, DocumentNumberingSettings> = {
+  serviceOrder: { prefix: "", padding: 0, yearlyReset: false },
+  budget: { prefix: "", padding: 4, yearlyReset: false },
+  partsRequisition: { prefix: "", padding: 4, yearlyReset: false },
+  rentalContract: { prefix: "CT-", padding: 4, yearlyReset: true },
+  invoice: { prefix: "FAT-", padding: 4, yearlyReset: true },
+  // Plain numbers: nosso número and the remittance sequence go into bank files.
+  boleto: { prefix: "", padding: 0, yearlyReset: false },
+  boletoRemittance: { prefix: "", padding: 0, yearlyReset: false },
+};
+
+// Every company has its own sequences, so the other companies' numbers carry
+// a prefix to never repeat Gold Maq's. Bank numbers stay plain: each company
+// has its own bank agreement.
+const companyNumberPrefix: Record<CompanyId, string> = { goldmaq: "", goldcomercio: "GC-", goldjob: "GJ-" };
+
+export function defaultNumberingSettings(documentType: NumberedDocumentType, companyId: CompanyId): DocumentNumberingSettings {
+  const settings = legacyNumberingSettings[documentType];
+  if (documentType === "boleto" || documentType === "boletoRemittance") return settings;
+  return { ...settings, prefix: `${companyNumberPrefix[companyId]}${settings.prefix}` };
+}
+
+// Documents without an issuer (service orders, requisitions, older budgets)
+// belong to Gold Maq.
+const documentCompanyId = (data: DocumentData): CompanyId => data.companyId ?? GOLDMAQ_COMPANY_ID;
+
+// OS numbers have always started at 4000.
+const initialLastNumber: Record<NumberedDocumentType, number> = {
+  serviceOrder: 3999,
+  budget: 0,
+  partsRequisition: 0,
+  rentalContract: 0,
+  invoice: 0,
+  boleto: 0,
+  boletoRemittance: 0,
+};
+
+export function formatDocumentNumber(settings: DocumentNumberingSettings, year: number, sequence: number): string {
+  const yearPart = settings.yearlyReset ? `${year}-` : "";
+  return `${settings.prefix}${yearPart}${sequence.toString().padStart(settings.padding, "0")}`;
+}
+
+function counterId(documentType: NumberedDocumentType, companyId: CompanyId): string {
+  return `${companyId}_${documentType}`;
+}
+
+export function documentCounterDocRef(documentType: NumberedDocumentType, companyId: CompanyId) {
+  return doc(requireDb("documentCounterDocRef"), FIRESTORE_COUNTER_COLLECTION_NAME, counterId(documentType, companyId));
+}
+
+export function toDocumentCounter(documentType: NumberedDocumentType, companyId: CompanyId, data: DocumentData | undefined): DocumentCounter {
+  const defaults = defaultNumberingSettings(documentType, companyId);
+  return {
+    id: counterId(documentType, companyId),
+    documentType,
+    companyId,
+    prefix: typeof data?.prefix === "string" ? data.prefix : defaults.prefix,
+    padding: typeof data?.padding === "number" ? data.padding : defaults.padding,
+    yearlyReset: typeof data?.yearlyReset === "boolean" ? data.yearlyReset : defaults.yearlyReset,
+    year: typeof data?.year === "number" ? data.year : new Date().getFullYear(),
+    lastNumber: typeof data?.lastNumber === "number" ? data.lastNumber : initialLastNumber[documentType],
+    initialized: !!data,
+  };
+}
+
+// The number the next saved document will get (the counter may move before that).
+export function previewNextDocumentNumber(counter: DocumentCounter): string {
+  const currentYear = new Date().getFullYear();
+  const sequence = counter.yearlyReset && counter.year !== currentYear ? 1 : counter.lastNumber + 1;
+  return formatDocumentNumber(counter, currentYear, sequence);
+}
+
+export async function fetchDocumentCounters(companyId: CompanyId): Promise<DocumentCounter[]> {
+  requireDb("fetchDocumentCounters");
+  return Promise.all(numberedDocumentTypeOptions.map(async documentType => {
+    const docSnap = await getDoc(documentCounterDocRef(documentType, companyId));
+    return toDocumentCounter(documentType, companyId, docSnap.exists() ? docSnap.data() : undefined);
+  }));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/-]/g, "\\$&");
+}
+
+// Highest sequence the company already used in the given format, so a new
+// counter, or a counter switched to another format, continues from the
+// existing numbers instead of reissuing them.
+async function findHighestIssuedSequence(documentType: NumberedDocumentType, companyId: CompanyId, settings: DocumentNumberingSettings): Promise<number> {
+  const { collectionName, numberField } = numberedDocumentConfig[documentType];
+  const yearPart = settings.yearlyReset ? `${new Date().getFullYear()}-` : "";
+  const pattern = new RegExp(`^${escapeRegExp(settings.prefix)}${yearPart}(\\d+)$`);
+  const querySnapshot = await getDocs(collection(requireDb("findHighestIssuedSequence"), collectionName));
+  return querySnapshot.docs
+    .filter(docSnap => documentCompanyId(docSnap.data()) === companyId)
+    .reduce((highest, docSnap) => {
+      const match = String(docSnap.data()[numberField] ?? "").match(pattern);
+      return match ? Math.max(highest, parseInt(match[1], 10)) : highest;
+    }, settings.yearlyReset ? 0 : initialLastNumber[documentType]);
+}
+
+// Transactions cannot run queries, so the first counter of a type is seeded
+// here, before the transaction that issues the number.
+async function ensureDocumentCounter(documentType: NumberedDocumentType, companyId: CompanyId): Promise<void> {
+  const counterRef = documentCounterDocRef(documentType, companyId);
+  if ((await getDoc(counterRef)).exists()) return;
+
+  const settings = defaultNumberingSettings(documentType, companyId);
+  const lastNumber = await findHighestIssuedSequence(documentType, companyId, settings);
+  await runTransaction(requireDb("ensureDocumentCounter"), async (transaction) => {
+    const counterDoc = await transaction.get(counterRef);
+    if (counterDoc.exists()) return;
+    transaction.set(counterRef, { documentType, companyId, ...settings, year: new Date().getFullYear(), lastNumber });
+  });
+}
+
+// Reserves the next number inside the caller's transaction, so the number and
+// the document that uses it are committed together (or not at all). Two users
+// saving at the same time get different numbers: Firestore retries the
+// transaction that loses the race.
+async function issueDocumentNumber(transaction: Transaction, documentType: NumberedDocumentType, companyId: CompanyId): Promise<string> {
+  const counterRef = documentCounterDocRef(documentType, companyId);
+  const counterDoc = await transaction.get(counterRef);
+  if (!counterDoc.exists()) throw new Error("Contador de numeração não inicializado.");
+
+  const counter = toDocumentCounter(documentType, companyId, counterDoc.data());
+  const currentYear = new Date().getFullYear();
+  const sequence = counter.yearlyReset && counter.year !== currentYear ? 1 : counter.lastNumber + 1;
+  transaction.update(counterRef, { lastNumber: sequence, year: currentYear });
+  return formatDocumentNumber(counter, currentYear, sequence);
+}
+
+// Creates a numbered document: `write` receives the reserved number and must
+// do its own writes (document + audit entry) on the same transaction.
+// Firestore requires every read of a transaction to happen before its first
+// write, so other documents the write depends on are loaded by `read`, which
+// runs before the counter is moved.
+export async function createWithDocumentNumber<R = undefined>(
+  documentType: NumberedDocumentType,
+  companyId: CompanyId,
+  write: (transaction: Transaction, documentNumber: string, reads: R) => void,
+  read?: (transaction: Transaction) => Promise<R>
+): Promise<string> {
+  await ensureDocumentCounter(documentType, companyId);
+  return runTransaction(requireDb("createWithDocumentNumber"), async (transaction) => {
+    const reads = read ? await read(transaction) : (undefined as R);
+    const documentNumber = await issueDocumentNumber(transaction, documentType, companyId);
+    write(transaction, documentNumber, reads);
+    return documentNumber;
+  });
+}
+
+// `lastNumber` is left empty to keep the current sequence. A new format
+// continues from the highest number the company already issued in it, so
+// switching back to an earlier format does not reissue its numbers.
+export async function saveDocumentNumberingSettings(
+  documentType: NumberedDocumentType,
+  companyId: CompanyId,
+  values: DocumentNumberingSettings & { lastNumber?: number }
+): Promise<void> {
+  const { prefix, padding, yearlyReset, lastNumber } = validateWithSchema(DocumentNumberingSettingsSchema, values, "Numeração");
+  await ensureDocumentCounter(documentType, companyId);
+  const counterRef = documentCounterDocRef(documentType, companyId);
+  const isSameFormat = (counter: DocumentCounter) => counter.prefix === prefix && counter.yearlyReset === yearlyReset;
+  const before = toDocumentCounter(documentType, companyId, (await getDoc(counterRef)).data());
+  const issuedInFormat = isSameFormat(before) ? null : await findHighestIssuedSequence(documentType, companyId, { prefix, padding, yearlyReset });
+  await runTransaction(requireDb("saveDocumentNumberingSettings"), async (transaction) => {
+    const current = toDocumentCounter(documentType, companyId, (await transaction.get(counterRef)).data());
+    if (!isSameFormat(current) && issuedInFormat === null) throw new Error("A numeração foi alterada por outro usuário. Tente novamente.");
+    transaction.update(counterRef, {
+      prefix,
+      padding,
+      yearlyReset,
+      lastNumber: lastNumber ?? (isSameFormat(current) ? current.lastNumber : issuedInFormat),
+      year: new Date().getFullYear(),
+    });
+  });
+}
+
+// --- Repair tool ---
+
+// Only the company's own documents: its sequences are independent from the others'.
+export async function findDuplicateDocumentNumbers(documentType: NumberedDocumentType, companyId: CompanyId): Promise<DocumentNumberDuplicate[]> {
+  const { collectionName, numberField } = numberedDocumentConfig[documentType];
+  const querySnapshot = await getDocs(collection(requireDb("findDuplicateDocumentNumbers"), collectionName));
+
+  const documentsByNumber = new Map<string, DocumentNumberDuplicate["documents"]>();
+  querySnapshot.docs.forEach(docSnap => {
+    const data = docSnap.data();
+    if (documentCompanyId(data) !== companyId) return;
+    const number = typeof data[numberField] === "string" ? data[numberField].trim() : "";
+    if (!number) return;
+    const createdDate = timestampToIsoString(data.createdDate ?? data.startDate ?? data.issueDate) ?? null;
+    documentsByNumber.set(number, [...(documentsByNumber.get(number) || []), { id: docSnap.id, createdDate }]);
+  });
+
+  return Array.from(documentsByNumber.entries())
+    .filter(([, documents]) => documents.length > 1)
+    .map(([number, documents]) => ({
+      number,
+      // Oldest first: that one keeps the number, the others get renumbered.
+      documents: documents.sort((a, b) => (a.createdDate || "").localeCompare(b.createdDate || "")),
+    }))
+    .sort((a, b) => a.number.localeCompare(b.number, undefined, { numeric: true }));
+}
+
+// Gives a duplicated document a fresh number from the counter of the company
+// that issued it. The change is logged in the document's history like any
+// other edit.
+export async function reissueDocumentNumber(documentType: NumberedDocumentType, documentId: string): Promise<string> {
+  const { collectionName, numberField } = numberedDocumentConfig[documentType];
+  const db = requireDb("reissueDocumentNumber");
+  const documentRef = doc(db, collectionName, documentId);
+  const existing = await getDoc(documentRef);
+  if (!existing.exists()) throw new Error("Documento não encontrado.");
+  const companyId = documentCompanyId(existing.data());
+  await ensureDocumentCounter(documentType, companyId);
+  return runTransaction(db, async (transaction) => {
+    const documentSnap = await transaction.get(documentRef);
+    if (!documentSnap.exists()) throw new Error("Documento não encontrado.");
+    const documentNumber = await issueDocumentNumber(transaction, documentType, companyId);
+    const payload = { [numberField]: documentNumber };
+    transaction.update(documentRef, payload);
+    auditInTransaction(transaction, { entityType: documentType, entityId: documentId, action: "update", before: documentSnap.data(), after: payload });
+    return documentNumber;
+  });
+}
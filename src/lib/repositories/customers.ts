@@ -0,0 +1,83 @@
+import { collection, doc, getDoc, getDocs, orderBy, query, updateDoc, where, writeBatch, type DocumentData } from "firebase/firestore";
+import type * as z from "zod";
+import type { Customer, GeoCoordinates } from "@/types";
+import { CustomerSchema } from "@/types";
+import { FIRESTORE_CUSTOMER_COLLECTION_NAME } from "./collections";
+import { auditInBatch } from "./audit";
+import { omitUndefined, requireDb, validateWithSchema } from "./shared";
+
+export type CustomerInput = z.input<typeof CustomerSchema>;
+
+export function toCustomer(id: string, data: DocumentData): Customer {
+  return { id, ...data } as Customer;
+}
+
+export function customerDocRef(customerId: string) {
+  return doc(requireDb("customerDocRef"), FIRESTORE_CUSTOMER_COLLECTION_NAME, customerId);
+}
+
+export async function fetchCustomers(): Promise<Customer[]> {
+  const db = requireDb("fetchCustomers");
+  const q = query(collection(db, FIRESTORE_CUSTOMER_COLLECTION_NAME), orderBy("name", "asc"));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => toCustomer(docSnap.id, docSnap.data()));
+}
+
+export async function fetchCustomerById(customerId: string): Promise<Customer | null> {
+  if (!customerId) return null;
+  const docSnap = await getDoc(customerDocRef(customerId));
+  return docSnap.exists() ? toCustomer(docSnap.id, docSnap.data()) : null;
+}
+
+export async function customerCnpjExists(cnpj: string, currentCustomerId?: string): Promise<boolean> {
+  const db = requireDb("customerCnpjExists");
+  const cleanedCnpj = cnpj.replace(/\D/g, "");
+  const q = query(collection(db, FIRESTORE_CUSTOMER_COLLECTION_NAME), where("cnpj", "==", cleanedCnpj));
+  const querySnapshot = await getDocs(q);
+  if (querySnapshot.empty) return false;
+  // If updating, only another customer holding the CNPJ counts as a duplicate
+  if (currentCustomerId) {
+    return querySnapshot.docs.some(docSnap => docSnap.id !== currentCustomerId);
+  }
+  return true;
+}
+
+function prepareCustomerForFirestore(data: CustomerInput) {
+  const validated = validateWithSchema(CustomerSchema, data, "Cliente");
+  return omitUndefined({ ...validated, cnpj: validated.cnpj.replace(/\D/g, "") });
+}
+
+export async function createCustomer(data: CustomerInput): Promise<string> {
+  const db = requireDb("createCustomer");
+  const docRef = doc(collection(db, FIRESTORE_CUSTOMER_COLLECTION_NAME));
+  const payload = prepareCustomerForFirestore(data);
+  const batch = writeBatch(db);
+  batch.set(docRef, payload);
+  auditInBatch(batch, { entityType: "customer", entityId: docRef.id, action: "create", after: payload });
+  await batch.commit();
+  return docRef.id;
+}
+
+export async function updateCustomer(customerId: string, data: CustomerInput): Promise<void> {
+  const customerRef = customerDocRef(customerId);
+  const payload = prepareCustomerForFirestore(data);
+  const before = await getDoc(customerRef);
+  const batch = writeBatch(requireDb("updateCustomer"));
+  batch.update(customerRef, payload);
+  auditInBatch(batch, { entityType: "customer", entityId: customerId, action: "update", before: before.data(), after: payload });
+  await batch.commit();
+}
+
+// Geocoded by route calculations; derived from the address, so not audited.
+export async function updateCustomerCoordinates(customerId: string, coordinates: GeoCoordinates): Promise<void> {
+  await updateDoc(customerDocRef(customerId), { coordinates });
+}
+
+export async function deleteCustomer(customerId: string): Promise<void> {
+  const customerRef = customerDocRef(customerId);
+  const before = await getDoc(customerRef);
+  const batch = writeBatch(requireDb("deleteCustomer"));
+  batch.delete(customerRef);
+  auditInBatch(batch, { entityType: "customer", entityId: customerId, action: "delete", before: before.data() });
+  await batch.commit();
+}
@@ -0,0 +1,111 @@
+import { doc, getDoc, runTransaction, serverTimestamp, type DocumentData } from "firebase/firestore";
+import type { DailyRoute, DailyRouteStop, TripCostBreakdown } from "@/types";
+import { TripCostBreakdownSchema } from "@/types";
+import { FIRESTORE_DAILY_ROUTE_COLLECTION_NAME } from "./collections";
+import { omitUndefined, requireDb, timestampToIsoString, toNullableNumber, validateWithSchema } from "./shared";
+import { auditInTransaction } from "./audit";
+import { serviceOrderDocRef } from "./service-orders";
+
+export type DailyRouteInput = Omit<DailyRoute, "id" | "updatedAt">;
+
+export const getDailyRouteId = (technicianId: string, date: string) => `${technicianId}_${date}`;
+
+function toDailyRouteStop(data: DocumentData): DailyRouteStop {
+  return {
+    serviceOrderId: data.serviceOrderId || "",
+    orderNumber: data.orderNumber || "N/A",
+    customerId: data.customerId || "",
+    windowStart: data.windowStart || null,
+    windowEnd: data.windowEnd || null,
+    legDistanceKm: Number(data.legDistanceKm) || 0,
+    legTollCost: Number(data.legTollCost) || 0,
+    arrivalTime: data.arrivalTime || "",
+    departureTime: data.departureTime || "",
+    lateMinutes: Number(data.lateMinutes) || 0,
+    costShare: Number(data.costShare) || 0,
+  };
+}
+
+export function toDailyRoute(id: string, data: DocumentData): DailyRoute {
+  return {
+    id,
+    technicianId: data.technicianId || "",
+    vehicleId: data.vehicleId || null,
+    date: data.date || "",
+    startTime: data.startTime || "",
+    serviceMinutes: Number(data.serviceMinutes) || 0,
+    stops: Array.isArray(data.stops) ? data.stops.filter((stop: any) => stop?.serviceOrderId).map(toDailyRouteStop) : [],
+    returnDistanceKm: Number(data.returnDistanceKm) || 0,
+    returnTime: data.returnTime || "",
+    totalDistanceKm: Number(data.totalDistanceKm) || 0,
+    totalTollCost: toNullableNumber(data.totalTollCost) ?? 0,
+    costBreakdown: data.costBreakdown as TripCostBreakdown,
+    updatedAt: timestampToIsoString(data.updatedAt) ?? null,
+    updatedByName: data.updatedByName || null,
+  };
+}
+
+function dailyRouteDocRef(routeId: string) {
+  return doc(requireDb("dailyRouteDocRef"), FIRESTORE_DAILY_ROUTE_COLLECTION_NAME, routeId);
+}
+
+export async function fetchDailyRoute(technicianId: string, date: string): Promise<DailyRoute | null> {
+  if (!technicianId || !date) return null;
+  const docSnap = await getDoc(dailyRouteDocRef(getDailyRouteId(technicianId, date)));
+  return docSnap.exists() ? toDailyRoute(docSnap.id, docSnap.data()) : null;
+}
+
+// Saves the route and gives each order its share of the travel cost
+// (`shares[i]` belongs to `route.stops[i]`). Orders that were on the saved
+// route but are no longer lose their share; the OS form prices them on their
+// own again.
+export async function saveDailyRoute(route: DailyRouteInput, shares: TripCostBreakdown[]): Promise<string> {
+  if (shares.length !== route.stops.length) throw new Error("Cada parada do roteiro precisa do seu rateio.");
+  const validatedShares = shares.map(share => validateWithSchema(TripCostBreakdownSchema, share, "Rateio do deslocamento"));
+  const routeId = getDailyRouteId(route.technicianId, route.date);
+  const routeRef = dailyRouteDocRef(routeId);
+  const payload = omitUndefined({ ...route, updatedByName: route.updatedByName || null });
+
+  await runTransaction(requireDb("saveDailyRoute"), async (transaction) => {
+    const routeDoc = await transaction.get(routeRef);
+    const previousStops = routeDoc.exists() ? toDailyRoute(routeDoc.id, routeDoc.data()).stops : [];
+    const stopIds = route.stops.map(stop => stop.serviceOrderId);
+    const droppedIds = previousStops.map(stop => stop.serviceOrderId).filter(id => !stopIds.includes(id));
+    const orderDocs = await Promise.all([...stopIds, ...droppedIds].map(id => transaction.get(serviceOrderDocRef(id))));
+    const missing = orderDocs.slice(0, stopIds.length).find(orderDoc => !orderDoc.exists());
+    if (missing) throw new Error(`Ordem de serviço ${missing.id} não encontrada.`);
+
+    transaction.set(routeRef, { ...payload, updatedAt: serverTimestamp() });
+    auditInTransaction(transaction, {
+      entityType: "dailyRoute",
+      entityId: routeId,
+      action: routeDoc.exists() ? "update" : "create",
+      before: routeDoc.data(),
+      after: payload,
+    });
+
+    route.stops.forEach((stop, index) => {
+      const share = validatedShares[index];
+      const orderUpdate = omitUndefined({
+        estimatedTravelDistanceKm: share.roundTripDistanceKm,
+        estimatedTollCosts: share.tollCost,
+        estimatedTravelCost: share.totalCost,
+        travelCostBreakdown: share,
+        visitWindowStart: stop.windowStart,
+        visitWindowEnd: stop.windowEnd,
+        dailyRouteId: routeId,
+        ...(route.vehicleId && { vehicleId: route.vehicleId }),
+      });
+      transaction.update(orderDocs[index].ref, orderUpdate);
+      auditInTransaction(transaction, { entityType: "serviceOrder", entityId: stop.serviceOrderId, action: "update", before: orderDocs[index].data(), after: orderUpdate });
+    });
+
+    orderDocs.slice(stopIds.length).forEach(orderDoc => {
+      if (!orderDoc.exists() || orderDoc.data().dailyRouteId !== routeId) return;
+      const orderUpdate = { dailyRouteId: null, travelCostBreakdown: null, estimatedTravelCost: null, estimatedTravelDistanceKm: null, estimatedTollCosts: null };
+      transaction.update(orderDoc.ref, orderUpdate);
+      auditInTransaction(transaction, { entityType: "serviceOrder", entityId: orderDoc.id, action: "update", before: orderDoc.data(), after: orderUpdate });
+    });
+  });
+  return routeId;
+}
@@ -0,0 +1,88 @@
+import { collection, doc, getDocs, query, runTransaction, where, type DocumentData, type WriteBatch } from "firebase/firestore";
+import { format } from "date-fns";
+import type * as z from "zod";
+import type { HourMeterReading } from "@/types";
+import { HourMeterReadingSchema, hourMeterReadingSourceOptions } from "@/types";
+import { formatDateForInput } from "@/lib/utils";
+import { FIRESTORE_EQUIPMENT_COLLECTION_NAME, FIRESTORE_HOUR_METER_READING_COLLECTION_NAME } from "./collections";
+import { dateStringToTimestamp, omitUndefined, requireDb, toNullableNumber, validateWithSchema } from "./shared";
+import { auditInBatch, auditInTransaction } from "./audit";
+
+export type HourMeterReadingInput = Omit<z.input<typeof HourMeterReadingSchema>, "source">;
+
+export function toHourMeterReading(id: string, data: DocumentData): HourMeterReading {
+  return {
+    id,
+    equipmentId: data.equipmentId || "N/A",
+    hours: toNullableNumber(data.hours) ?? 0,
+    readingDate: formatDateForInput(data.readingDate),
+    source: hourMeterReadingSourceOptions.includes(data.source) ? data.source : "Leitura",
+    recordedByName: data.recordedByName || null,
+    notes: data.notes || null,
+  };
+}
+
+// Local ref instead of importing maquinas.ts, which imports this module.
+function maquinaRefFor(equipmentId: string) {
+  return doc(requireDb("maquinaRefFor"), FIRESTORE_EQUIPMENT_COLLECTION_NAME, equipmentId);
+}
+
+function newHourMeterReadingRef() {
+  return doc(collection(requireDb("newHourMeterReadingRef"), FIRESTORE_HOUR_METER_READING_COLLECTION_NAME));
+}
+
+function prepareHourMeterReadingForFirestore(data: z.input<typeof HourMeterReadingSchema>) {
+  const validated = validateWithSchema(HourMeterReadingSchema, data, "Leitura de horímetro");
+  return omitUndefined({
+    ...validated,
+    readingDate: dateStringToTimestamp(validated.readingDate),
+    recordedByName: validated.recordedByName || null,
+    notes: validated.notes || null,
+  });
+}
+
+// Newest first; sorted here so the query needs no composite index.
+export async function fetchHourMeterReadings(equipmentId: string): Promise<HourMeterReading[]> {
+  const db = requireDb("fetchHourMeterReadings");
+  const q = query(collection(db, FIRESTORE_HOUR_METER_READING_COLLECTION_NAME), where("equipmentId", "==", equipmentId));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs
+    .map(docSnap => toHourMeterReading(docSnap.id, docSnap.data()))
+    .sort((a, b) => b.readingDate.localeCompare(a.readingDate) || b.hours - a.hours);
+}
+
+// Readings only move forward; lowering the hour meter (a replaced instrument,
+// a typo) is a correction made in the machine form, which logs it as "Cadastro".
+export async function recordHourMeterReading(input: HourMeterReadingInput): Promise<void> {
+  const db = requireDb("recordHourMeterReading");
+  const readingRef = newHourMeterReadingRef();
+  const payload = prepareHourMeterReadingForFirestore({ ...input, source: "Leitura" });
+  if (input.readingDate > format(new Date(), "yyyy-MM-dd")) throw new Error("A data da leitura não pode ser futura.");
+
+  await runTransaction(db, async (transaction) => {
+    const maquinaRef = maquinaRefFor(input.equipmentId);
+    const maquinaDoc = await transaction.get(maquinaRef);
+    if (!maquinaDoc.exists()) throw new Error("Máquina não encontrada.");
+    const current = toNullableNumber(maquinaDoc.data().hourMeter);
+    if (current !== null && payload.hours! < current) {
+      throw new Error(`A leitura (${payload.hours}h) é menor que o horímetro atual da máquina (${current}h).`);
+    }
+    transaction.set(readingRef, payload);
+    auditInTransaction(transaction, { entityType: "hourMeterReading", entityId: readingRef.id, action: "create", after: payload });
+    transaction.update(maquinaRef, { hourMeter: payload.hours });
+    auditInTransaction(transaction, { entityType: "maquina", entityId: input.equipmentId, action: "update", before: maquinaDoc.data(), after: { hourMeter: payload.hours } });
+  });
+}
+
+// Used by the machine create/update batches when the form changes the hour meter.
+export function addHourMeterReadingToBatch(batch: WriteBatch, equipmentId: string, hours: number): void {
+  const readingRef = newHourMeterReadingRef();
+  const payload = prepareHourMeterReadingForFirestore({
+    equipmentId,
+    hours,
+    readingDate: format(new Date(), "yyyy-MM-dd"),
+    source: "Cadastro",
+  });
+  batch.set(readingRef, payload);
+  auditInBatch(batch, { entityType: "hourMeterReading", entityId: readingRef.id, action: "create", after: payload });
+}
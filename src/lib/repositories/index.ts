@@ -0,0 +1,24 @@
+export * from "./collections";
+export * from "./customers";
+export * from "./maquinas";
+export * from "./hour-meter-readings";
+export * from "./maintenance-plans";
+export * from "./auxiliary-equipment";
+export * from "./service-orders";
+export * from "./labor-time-entries";
+export * from "./checklists";
+export * from "./budgets";
+export * from "./budget-approvals";
+export * from "./parts-requisitions";
+export * from "./catalog-items";
+export * from "./technicians";
+export * from "./vehicles";
+export * from "./toll-plazas";
+export * from "./route-cache";
+export * from "./daily-routes";
+export * from "./companies";
+export * from "./audit";
+export * from "./counters";
+export * from "./rental-contracts";
+export * from "./invoices";
+export * from "./boletos";
@@ -0,0 +1,208 @@
+import { collection, doc, getDoc, getDocs, orderBy, query, where, writeBatch, type DocumentData, type DocumentSnapshot } from "firebase/firestore";
+import { differenceInCalendarDays, endOfMonth, format, getDaysInMonth, max as maxDate, min as minDate, parseISO, startOfMonth } from "date-fns";
+import type * as z from "zod";
+import type { Invoice, InvoiceDisplayStatus, InvoiceItem, InvoiceStatusType, RentalContract } from "@/types";
+import { BillingRunSchema, InvoiceSchema, invoiceItemKindOptions, invoiceStatusOptions } from "@/types";
+import { formatDateForInput } from "@/lib/utils";
+import { FIRESTORE_INVOICE_COLLECTION_NAME } from "./collections";
+import { dateStringToTimestamp, omitUndefined, requireDb, toNullableNumber, validateWithSchema } from "./shared";
+import { auditInBatch, auditInTransaction } from "./audit";
+import { createWithDocumentNumber } from "./counters";
+import { fetchRentalContracts } from "./rental-contracts";
+
+// Dates travel as yyyy-MM-dd strings in the app and are stored as Timestamps.
+export type InvoiceWriteData = Omit<Invoice, "id">;
+export type BillingRunInput = z.input<typeof BillingRunSchema>;
+
+export interface BillingRunResult {
+  createdNumbers: string[];
+  alreadyBilled: number;
+  failures: { contractNumber: string; message: string }[];
+}
+
+export function toInvoice(id: string, data: DocumentData): Invoice {
+  return {
+    id,
+    invoiceNumber: data.invoiceNumber || "N/A",
+    companyId: data.companyId,
+    contractId: data.contractId || "N/A",
+    customerId: data.customerId || "N/A",
+    referenceMonth: data.referenceMonth || "",
+    periodStart: formatDateForInput(data.periodStart),
+    periodEnd: formatDateForInput(data.periodEnd),
+    issueDate: formatDateForInput(data.issueDate),
+    dueDate: formatDateForInput(data.dueDate),
+    items: Array.isArray(data.items) ? data.items.map((item: any) => ({
+      ...item,
+      id: item.id || crypto.randomUUID(),
+      kind: invoiceItemKindOptions.includes(item.kind) ? item.kind : "Outros",
+    })) : [],
+    totalAmount: toNullableNumber(data.totalAmount) ?? 0,
+    status: invoiceStatusOptions.includes(data.status) ? data.status : "Em Aberto",
+    paidDate: data.paidDate ? formatDateForInput(data.paidDate) : null,
+    notes: data.notes || null,
+  };
+}
+
+export function invoiceDocRef(invoiceId: string) {
+  return doc(requireDb("invoiceDocRef"), FIRESTORE_INVOICE_COLLECTION_NAME, invoiceId);
+}
+
+export async function fetchInvoices(): Promise<Invoice[]> {
+  const db = requireDb("fetchInvoices");
+  const q = query(collection(db, FIRESTORE_INVOICE_COLLECTION_NAME), orderBy("issueDate", "desc"));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => toInvoice(docSnap.id, docSnap.data()));
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// The total is rounded too: summing cents in floating point leaves noise that
+// would reach the PIX payload and the boleto value.
+export function calculateInvoiceTotals(items: InvoiceItem[]) {
+  const normalizedItems = items.map(item => ({
+    ...item,
+    quantity: Number(item.quantity),
+    unitPrice: Number(item.unitPrice),
+    totalPrice: roundCurrency(Number(item.quantity) * Number(item.unitPrice)),
+  }));
+  return { items: normalizedItems, totalAmount: roundCurrency(normalizedItems.reduce((acc, item) => acc + item.totalPrice, 0)) };
+}
+
+// Open invoices past their due date are shown (and filtered) as overdue.
+export function getInvoiceDisplayStatus(invoice: Pick<Invoice, "status" | "dueDate">, today = format(new Date(), "yyyy-MM-dd")): InvoiceDisplayStatus {
+  return invoice.status === "Em Aberto" && invoice.dueDate < today ? "Vencida" : invoice.status;
+}
+
+// Days of the reference month covered by the contract and the rent for them:
+// a full month charges the monthly value, a partial one is prorated by day.
+export function prorateContractRent(contract: RentalContract, referenceMonth: string) {
+  const monthStart = startOfMonth(parseISO(`${referenceMonth}-01`));
+  const monthEnd = endOfMonth(monthStart);
+  const periodStart = maxDate([monthStart, parseISO(contract.startDate)]);
+  const periodEnd = contract.endDate ? minDate([monthEnd, parseISO(contract.endDate)]) : monthEnd;
+  if (periodEnd < periodStart) return null;
+
+  const days = differenceInCalendarDays(periodEnd, periodStart) + 1;
+  const daysInMonth = getDaysInMonth(monthStart);
+  return {
+    periodStart: format(periodStart, "yyyy-MM-dd"),
+    periodEnd: format(periodEnd, "yyyy-MM-dd"),
+    days,
+    daysInMonth,
+    amount: days === daysInMonth ? contract.monthlyValue : Math.round((contract.monthlyValue * days / daysInMonth) * 100) / 100,
+  };
+}
+
+function prepareInvoiceForFirestore(data: InvoiceWriteData) {
+  const validated = validateWithSchema(InvoiceSchema, data, "Fatura");
+  return omitUndefined({
+    ...validated,
+    ...calculateInvoiceTotals(validated.items),
+    periodStart: dateStringToTimestamp(validated.periodStart),
+    periodEnd: dateStringToTimestamp(validated.periodEnd),
+    issueDate: dateStringToTimestamp(validated.issueDate),
+    dueDate: dateStringToTimestamp(validated.dueDate),
+    paidDate: validated.status === "Paga" ? dateStringToTimestamp(validated.paidDate) : null,
+    notes: validated.notes || null,
+  });
+}
+
+// Ended contracts are still billed for the days of their last month; an ended
+// contract without an end date cannot be prorated and is left out.
+function isBillable(contract: RentalContract): boolean {
+  return contract.status === "Ativo" || (contract.status === "Encerrado" && !!contract.endDate);
+}
+
+// One invoice per contract and month: the id is derived from both, so running
+// the same month twice (or from two sessions at once) never bills twice.
+function billingInvoiceId(contractId: string, referenceMonth: string): string {
+  return `${contractId}_${referenceMonth}`;
+}
+
+// Generates the rent invoice of every billable contract for the month, each
+// numbered from its issuing company's counter. Extra charges (hour-meter
+// overage, damage) are added afterwards by editing the open invoice.
+export async function runMonthlyBilling(input: BillingRunInput): Promise<BillingRunResult> {
+  const { referenceMonth, dueDate, companyId } = validateWithSchema(BillingRunSchema, input, "Faturamento");
+  const db = requireDb("runMonthlyBilling");
+  const billedSnapshot = await getDocs(query(collection(db, FIRESTORE_INVOICE_COLLECTION_NAME), where("referenceMonth", "==", referenceMonth)));
+  const billedContractIds = new Set(billedSnapshot.docs.map(docSnap => docSnap.data().contractId));
+  const contracts = (await fetchRentalContracts())
+    .filter(contract => isBillable(contract) && (!companyId || contract.companyId === companyId));
+
+  const result: BillingRunResult = { createdNumbers: [], alreadyBilled: 0, failures: [] };
+  const issueDate = format(new Date(), "yyyy-MM-dd");
+  const monthLabel = format(parseISO(`${referenceMonth}-01`), "MM/yyyy");
+
+  for (const contract of contracts) {
+    if (billedContractIds.has(contract.id)) {
+      result.alreadyBilled++;
+      continue;
+    }
+    const rent = prorateContractRent(contract, referenceMonth);
+    if (!rent || rent.amount <= 0) continue;
+
+    const invoiceRef = invoiceDocRef(billingInvoiceId(contract.id, referenceMonth));
+    const partialLabel = rent.days < rent.daysInMonth ? ` (${rent.days}/${rent.daysInMonth} dias)` : "";
+    try {
+      const invoiceNumber = await createWithDocumentNumber<DocumentSnapshot>(
+        "invoice",
+        contract.companyId,
+        (transaction, invoiceNumber, existingInvoice) => {
+          if (existingInvoice.exists()) throw new Error("Fatura já emitida para este contrato no mês.");
+          const payload = prepareInvoiceForFirestore({
+            invoiceNumber,
+            companyId: contract.companyId,
+            contractId: contract.id,
+            customerId: contract.customerId,
+            referenceMonth,
+            periodStart: rent.periodStart,
+            periodEnd: rent.periodEnd,
+            issueDate,
+            dueDate,
+            items: [{
+              id: crypto.randomUUID(),
+              kind: "Locação",
+              description: `Locação ${monthLabel} - contrato ${contract.contractNumber}${partialLabel}`,
+              quantity: 1,
+              unitPrice: rent.amount,
+            }],
+            totalAmount: rent.amount,
+            status: "Em Aberto",
+            paidDate: null,
+            notes: null,
+          });
+          transaction.set(invoiceRef, payload);
+          auditInTransaction(transaction, { entityType: "invoice", entityId: invoiceRef.id, action: "create", after: payload });
+        },
+        transaction => transaction.get(invoiceRef)
+      );
+      result.createdNumbers.push(invoiceNumber);
+    } catch (error: any) {
+      result.failures.push({ contractNumber: contract.contractNumber, message: error?.message ?? String(error) });
+    }
+  }
+  return result;
+}
+
+async function commitInvoiceUpdate(invoiceId: string, payload: DocumentData, caller: string): Promise<void> {
+  const before = await getDoc(invoiceDocRef(invoiceId));
+  const batch = writeBatch(requireDb(caller));
+  batch.update(invoiceDocRef(invoiceId), payload);
+  auditInBatch(batch, { entityType: "invoice", entityId: invoiceId, action: "update", before: before.data(), after: payload });
+  await batch.commit();
+}
+
+export async function updateInvoice(invoiceId: string, data: InvoiceWriteData): Promise<void> {
+  await commitInvoiceUpdate(invoiceId, prepareInvoiceForFirestore(data), "updateInvoice");
+}
+
+// Invoices are never deleted, so the numbering has no gaps: a wrong one is cancelled.
+export async function updateInvoiceStatus(invoiceId: string, status: InvoiceStatusType, paidDate?: string | null): Promise<void> {
+  if (status === "Paga" && !paidDate) throw new Error("Informe a data do pagamento.");
+  await commitInvoiceUpdate(invoiceId, {
+    status,
+    paidDate: status === "Paga" ? dateStringToTimestamp(paidDate) : null,
+  }, "updateInvoiceStatus");
+}
@@ -0,0 +1,165 @@
+import { collection, doc, getDoc, getDocs, orderBy, query, Timestamp, where, writeBatch, type DocumentData, type WriteBatch } from "firebase/firestore";
+import { addDays, parseISO } from "date-fns";
+import type * as z from "zod";
+import type { LaborRate, LaborTimeEntry, LaborTimeKind } from "@/types";
+import { LaborRateSchema, LaborTimeEntrySchema, laborTimeKindOptions, roleOptionsList } from "@/types";
+import { FIRESTORE_LABOR_RATE_COLLECTION_NAME, FIRESTORE_LABOR_TIME_ENTRY_COLLECTION_NAME } from "./collections";
+import { dateStringToTimestamp, omitUndefined, requireDb, timestampToIsoString, toNullableNumber, validateWithSchema } from "./shared";
+import { auditInBatch } from "./audit";
+import { technicianDocRef } from "./technicians";
+
+export type LaborTimeEntryInput = z.input<typeof LaborTimeEntrySchema>;
+
+export interface LaborTimeCheckIn {
+  serviceOrderId: string;
+  technicianId: string;
+  technicianName: string;
+  kind: LaborTimeKind;
+}
+
+export function toLaborTimeEntry(id: string, data: DocumentData): LaborTimeEntry {
+  return {
+    id,
+    serviceOrderId: data.serviceOrderId || "N/A",
+    technicianId: data.technicianId || "N/A",
+    technicianName: data.technicianName || "Técnico",
+    kind: laborTimeKindOptions.includes(data.kind) ? data.kind : "Atendimento",
+    checkIn: timestampToIsoString(data.checkIn) ?? "",
+    checkOut: timestampToIsoString(data.checkOut) ?? null,
+    hourlyRate: toNullableNumber(data.hourlyRate),
+    notes: data.notes || null,
+  };
+}
+
+export function laborTimeEntryDocRef(entryId: string) {
+  return doc(requireDb("laborTimeEntryDocRef"), FIRESTORE_LABOR_TIME_ENTRY_COLLECTION_NAME, entryId);
+}
+
+function laborRateDocRef(role: string) {
+  return doc(requireDb("laborRateDocRef"), FIRESTORE_LABOR_RATE_COLLECTION_NAME, role);
+}
+
+const byCheckIn = (a: LaborTimeEntry, b: LaborTimeEntry) => a.checkIn.localeCompare(b.checkIn);
+
+// Sorted here so the query needs no composite index.
+export async function fetchLaborTimeEntries(serviceOrderId: string): Promise<LaborTimeEntry[]> {
+  const db = requireDb("fetchLaborTimeEntries");
+  const q = query(collection(db, FIRESTORE_LABOR_TIME_ENTRY_COLLECTION_NAME), where("serviceOrderId", "==", serviceOrderId));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => toLaborTimeEntry(docSnap.id, docSnap.data())).sort(byCheckIn);
+}
+
+// Entries checked in between two days (yyyy-MM-dd), both included.
+export async function fetchLaborTimeEntriesBetween(startDate: string, endDate: string): Promise<LaborTimeEntry[]> {
+  const db = requireDb("fetchLaborTimeEntriesBetween");
+  const q = query(
+    collection(db, FIRESTORE_LABOR_TIME_ENTRY_COLLECTION_NAME),
+    where("checkIn", ">=", Timestamp.fromDate(parseISO(startDate))),
+    where("checkIn", "<", Timestamp.fromDate(addDays(parseISO(endDate), 1))),
+    orderBy("checkIn", "asc")
+  );
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => toLaborTimeEntry(docSnap.id, docSnap.data()));
+}
+
+// Roles without a saved document have no rate (zero cost).
+export async function fetchLaborRates(): Promise<LaborRate[]> {
+  const db = requireDb("fetchLaborRates");
+  const querySnapshot = await getDocs(collection(db, FIRESTORE_LABOR_RATE_COLLECTION_NAME));
+  return querySnapshot.docs
+    .map(docSnap => ({ role: docSnap.id, hourlyRate: toNullableNumber(docSnap.data().hourlyRate) ?? 0 }))
+    .filter((rate): rate is LaborRate => roleOptionsList.includes(rate.role as LaborRate["role"]));
+}
+
+export async function saveLaborRate(data: z.input<typeof LaborRateSchema>): Promise<void> {
+  const { role, hourlyRate } = validateWithSchema(LaborRateSchema, data, "Valor hora");
+  const before = await getDoc(laborRateDocRef(role));
+  const batch = writeBatch(requireDb("saveLaborRate"));
+  batch.set(laborRateDocRef(role), { hourlyRate });
+  auditInBatch(batch, { entityType: "laborRate", entityId: role, action: before.exists() ? "update" : "create", before: before.data(), after: { hourlyRate } });
+  await batch.commit();
+}
+
+async function fetchHourlyRateForTechnician(technicianId: string): Promise<number | null> {
+  const technicianDoc = await getDoc(technicianDocRef(technicianId));
+  const role = technicianDoc.exists() ? technicianDoc.data().role : null;
+  if (!role) return null;
+  const rateDoc = await getDoc(laborRateDocRef(role));
+  return rateDoc.exists() ? toNullableNumber(rateDoc.data().hourlyRate) : null;
+}
+
+function prepareLaborTimeEntryForFirestore(data: LaborTimeEntryInput) {
+  const validated = validateWithSchema(LaborTimeEntrySchema, data, "Apontamento de horas");
+  return omitUndefined({
+    ...validated,
+    checkIn: dateStringToTimestamp(validated.checkIn),
+    checkOut: dateStringToTimestamp(validated.checkOut),
+    hourlyRate: validated.hourlyRate ?? null,
+    notes: validated.notes || null,
+  });
+}
+
+function addCheckOutToBatch(batch: WriteBatch, entry: LaborTimeEntry, checkOut: string, hourlyRate: number | null): void {
+  const fields = { checkOut: dateStringToTimestamp(checkOut), hourlyRate };
+  batch.update(laborTimeEntryDocRef(entry.id), fields);
+  auditInBatch(batch, { entityType: "laborTimeEntry", entityId: entry.id, action: "update", before: { checkOut: null }, after: fields });
+}
+
+async function fetchOpenLaborTimeEntries(technicianId: string): Promise<LaborTimeEntry[]> {
+  const db = requireDb("fetchOpenLaborTimeEntries");
+  const q = query(
+    collection(db, FIRESTORE_LABOR_TIME_ENTRY_COLLECTION_NAME),
+    where("technicianId", "==", technicianId),
+    where("checkOut", "==", null)
+  );
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => toLaborTimeEntry(docSnap.id, docSnap.data()));
+}
+
+// A technician works on one thing at a time: checking in (e.g. arriving at
+// the customer after the trip) checks out whatever entry was still open.
+export async function checkInLaborTime(input: LaborTimeCheckIn): Promise<string> {
+  const now = new Date().toISOString();
+  const entryRef = doc(collection(requireDb("checkInLaborTime"), FIRESTORE_LABOR_TIME_ENTRY_COLLECTION_NAME));
+  const payload = prepareLaborTimeEntryForFirestore({ ...input, checkIn: now, checkOut: null, hourlyRate: null });
+  const [openEntries, hourlyRate] = await Promise.all([
+    fetchOpenLaborTimeEntries(input.technicianId),
+    fetchHourlyRateForTechnician(input.technicianId),
+  ]);
+
+  const batch = writeBatch(requireDb("checkInLaborTime"));
+  openEntries.forEach(entry => addCheckOutToBatch(batch, entry, now, hourlyRate));
+  batch.set(entryRef, payload);
+  auditInBatch(batch, { entityType: "laborTimeEntry", entityId: entryRef.id, action: "create", after: payload });
+  await batch.commit();
+  return entryRef.id;
+}
+
+export async function checkOutLaborTime(entry: LaborTimeEntry): Promise<void> {
+  if (entry.checkOut) throw new Error("Este apontamento já foi encerrado.");
+  const hourlyRate = await fetchHourlyRateForTechnician(entry.technicianId);
+  const batch = writeBatch(requireDb("checkOutLaborTime"));
+  addCheckOutToBatch(batch, entry, new Date().toISOString(), hourlyRate);
+  await batch.commit();
+}
+
+// Time typed in afterwards (forgotten check-in, work done offline).
+export async function addLaborTimeEntry(data: Omit<LaborTimeEntryInput, "hourlyRate">): Promise<string> {
+  if (!data.checkOut) throw new Error("Informe o fim do apontamento.");
+  const hourlyRate = await fetchHourlyRateForTechnician(data.technicianId);
+  const entryRef = doc(collection(requireDb("addLaborTimeEntry"), FIRESTORE_LABOR_TIME_ENTRY_COLLECTION_NAME));
+  const payload = prepareLaborTimeEntryForFirestore({ ...data, hourlyRate });
+  const batch = writeBatch(requireDb("addLaborTimeEntry"));
+  batch.set(entryRef, payload);
+  auditInBatch(batch, { entityType: "laborTimeEntry", entityId: entryRef.id, action: "create", after: payload });
+  await batch.commit();
+  return entryRef.id;
+}
+
+export async function deleteLaborTimeEntry(entryId: string): Promise<void> {
+  const before = await getDoc(laborTimeEntryDocRef(entryId));
+  const batch = writeBatch(requireDb("deleteLaborTimeEntry"));
+  batch.delete(laborTimeEntryDocRef(entryId));
+  auditInBatch(batch, { entityType: "laborTimeEntry", entityId: entryId, action: "delete", before: before.data() });
+  await batch.commit();
+}
@@ -0,0 +1,162 @@
+import { collection, doc, getDoc, getDocs, orderBy, query, writeBatch, type DocumentData } from "firebase/firestore";
+import type * as z from "zod";
+import type { MaintenancePlan, Maquina } from "@/types";
+import { GOLDMAQ_COMPANY_ID, MaintenancePlanSchema } from "@/types";
+import { getPreventiveMaintenanceDue, type PreventiveMaintenanceDue } from "@/lib/preventive-maintenance";
+import { FIRESTORE_MAINTENANCE_PLAN_COLLECTION_NAME } from "./collections";
+import { omitUndefined, requireDb, toNullableNumber, validateWithSchema } from "./shared";
+import { auditInBatch, auditInTransaction } from "./audit";
+import { createWithDocumentNumber } from "./counters";
+import { fetchMaquinaById, fetchMaquinas, maquinaDocRef, toMaquina } from "./maquinas";
+import { newServiceOrderId, prepareServiceOrderForFirestore, serviceOrderDocRef } from "./service-orders";
+
+export type MaintenancePlanInput = z.input<typeof MaintenancePlanSchema>;
+
+export interface PreventiveServiceOrderRun {
+  created: { orderNumber: string; maquinaId: string }[];
+  // Machines with a threshold reached that could not get an order, with the reason.
+  skipped: { maquinaId: string; reason: string }[];
+}
+
+export function toMaintenancePlan(id: string, data: DocumentData): MaintenancePlan {
+  return {
+    id,
+    name: data.name || "Plano sem nome",
+    equipmentType: data.equipmentType || null,
+    brand: data.brand || null,
+    intervalHours: toNullableNumber(data.intervalHours) ?? 250,
+    warningHours: toNullableNumber(data.warningHours) ?? 0,
+    tasks: data.tasks || "",
+    active: data.active !== false,
+  };
+}
+
+export function maintenancePlanDocRef(planId: string) {
+  return doc(requireDb("maintenancePlanDocRef"), FIRESTORE_MAINTENANCE_PLAN_COLLECTION_NAME, planId);
+}
+
+export async function fetchMaintenancePlans(): Promise<MaintenancePlan[]> {
+  const db = requireDb("fetchMaintenancePlans");
+  const q = query(collection(db, FIRESTORE_MAINTENANCE_PLAN_COLLECTION_NAME), orderBy("intervalHours", "asc"));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => toMaintenancePlan(docSnap.id, docSnap.data()));
+}
+
+function prepareMaintenancePlanForFirestore(data: MaintenancePlanInput) {
+  const validated = validateWithSchema(MaintenancePlanSchema, data, "Plano de manutenção");
+  return omitUndefined({
+    ...validated,
+    equipmentType: validated.equipmentType || null,
+    brand: validated.brand?.trim() || null,
+  });
+}
+
+export async function createMaintenancePlan(data: MaintenancePlanInput): Promise<string> {
+  const planRef = doc(collection(requireDb("createMaintenancePlan"), FIRESTORE_MAINTENANCE_PLAN_COLLECTION_NAME));
+  const payload = prepareMaintenancePlanForFirestore(data);
+  const batch = writeBatch(requireDb("createMaintenancePlan"));
+  batch.set(planRef, payload);
+  auditInBatch(batch, { entityType: "maintenancePlan", entityId: planRef.id, action: "create", after: payload });
+  await batch.commit();
+  return planRef.id;
+}
+
+export async function updateMaintenancePlan(planId: string, data: MaintenancePlanInput): Promise<void> {
+  const payload = prepareMaintenancePlanForFirestore(data);
+  const before = await getDoc(maintenancePlanDocRef(planId));
+  const batch = writeBatch(requireDb("updateMaintenancePlan"));
+  batch.update(maintenancePlanDocRef(planId), payload);
+  auditInBatch(batch, { entityType: "maintenancePlan", entityId: planId, action: "update", before: before.data(), after: payload });
+  await batch.commit();
+}
+
+export async function deleteMaintenancePlan(planId: string): Promise<void> {
+  const before = await getDoc(maintenancePlanDocRef(planId));
+  const batch = writeBatch(requireDb("deleteMaintenancePlan"));
+  batch.delete(maintenancePlanDocRef(planId));
+  auditInBatch(batch, { entityType: "maintenancePlan", entityId: planId, action: "delete", before: before.data() });
+  await batch.commit();
+}
+
+const overdueFor = (maquina: Maquina, plans: MaintenancePlan[]): PreventiveMaintenanceDue[] =>
+  plans
+    .map(plan => getPreventiveMaintenanceDue(maquina, plan))
+    .filter((due): due is PreventiveMaintenanceDue => due?.status === "Vencida");
+
+const describeDues = (dues: PreventiveMaintenanceDue[]): string =>
+  dues.map(due => `${due.plan.name} (${due.dueHours}h):\n${due.plan.tasks}`).join("\n\n");
+
+// Thrown inside the transaction when another run already generated the order,
+// so the OS number is not consumed.
+const ALREADY_GENERATED = "Manutenção preventiva já gerada.";
+
+// One "Manutenção Preventiva" OS per machine covering every plan whose
+// threshold was reached, so the 250/500/1000 h revisions that coincide are
+// done in a single visit. The machine keeps its status (a rented machine is
+// serviced at the customer) and the thresholds are marked in the same
+// transaction as the order, so concurrent runs never duplicate it.
+export async function generatePreventiveServiceOrders(maquinaIds?: string[]): Promise<PreventiveServiceOrderRun> {
+  const plans = (await fetchMaintenancePlans()).filter(plan => plan.active);
+  const result: PreventiveServiceOrderRun = { created: [], skipped: [] };
+  if (plans.length === 0) return result;
+
+  const maquinas = maquinaIds
+    ? (await Promise.all(maquinaIds.map(id => fetchMaquinaById(id)))).filter((maquina): maquina is Maquina => maquina !== null)
+    : await fetchMaquinas();
+
+  for (const maquina of maquinas) {
+    if (overdueFor(maquina, plans).length === 0) continue;
+    if (!maquina.customerId) {
+      result.skipped.push({ maquinaId: maquina.id, reason: "Máquina sem cliente vinculado para abrir a OS." });
+      continue;
+    }
+    const orderId = newServiceOrderId();
+    try {
+      const orderNumber = await createWithDocumentNumber<{ current: Maquina; dues: PreventiveMaintenanceDue[] }>(
+        "serviceOrder",
+        GOLDMAQ_COMPANY_ID,
+        (transaction, orderNumber, { current, dues }) => {
+          const dueHours = Math.max(...dues.map(due => due.dueHours));
+          const payload = prepareServiceOrderForFirestore({
+            orderNumber,
+            customerId: current.customerId!,
+            equipmentId: current.id,
+            phase: "Aguardando Avaliação Técnica",
+            serviceType: "Manutenção Preventiva",
+            description: `Manutenção preventiva por horímetro (${current.hourMeter}h).\n\n${describeDues(dues)}`,
+            machineStatusBeforeOs: current.operationalStatus,
+            maintenancePlanIds: dues.map(due => due.plan.id),
+            maintenanceDueHours: dueHours,
+          });
+          transaction.set(serviceOrderDocRef(orderId), payload);
+          auditInTransaction(transaction, { entityType: "serviceOrder", entityId: orderId, action: "create", after: payload });
+
+          const marks = { ...(current.preventiveMaintenanceHours || {}) };
+          dues.forEach(due => { marks[due.plan.id] = due.dueHours; });
+          transaction.update(maquinaDocRef(current.id), { preventiveMaintenanceHours: marks });
+          auditInTransaction(transaction, {
+            entityType: "maquina",
+            entityId: current.id,
+            action: "update",
+            before: { preventiveMaintenanceHours: current.preventiveMaintenanceHours || null },
+            after: { preventiveMaintenanceHours: marks },
+          });
+        },
+        async (transaction) => {
+          const maquinaDoc = await transaction.get(maquinaDocRef(maquina.id));
+          if (!maquinaDoc.exists()) throw new Error(ALREADY_GENERATED);
+          const current = toMaquina(maquinaDoc.id, maquinaDoc.data());
+          const dues = overdueFor(current, plans);
+          if (dues.length === 0 || !current.customerId) throw new Error(ALREADY_GENERATED);
+          return { current, dues };
+        }
+      );
+      result.created.push({ orderNumber, maquinaId: maquina.id });
+    } catch (e: any) {
+      if (e?.message !== ALREADY_GENERATED) {
+        result.skipped.push({ maquinaId: maquina.id, reason: e?.message || "Erro ao criar a OS." });
+      }
+    }
+  }
+  return result;
+}
@@ -0,0 +1,136 @@
+import { collection, doc, getDoc, getDocs, orderBy, query, where, writeBatch, type DocumentData } from "firebase/firestore";
+import type { Maquina } from "@/types";
+import { MaquinaSchema, maquinaOperationalStatusOptions, maquinaTypeOptions } from "@/types";
+import { FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME, FIRESTORE_EQUIPMENT_COLLECTION_NAME } from "./collections";
+import { omitUndefined, requireDb, toNullableNumber, toStringArrayOrNull, validateWithSchema } from "./shared";
+import { auditInBatch } from "./audit";
+import { addHourMeterReadingToBatch } from "./hour-meter-readings";
+
+// Form-only helpers (customBrand/customEquipmentType) are resolved by the page before saving.
+export type MaquinaWriteData = Omit<Maquina, "id" | "customBrand" | "customEquipmentType">;
+
+export function toMaquina(id: string, data: DocumentData): Maquina {
+  return {
+    id,
+    brand: data.brand || "Marca Desconhecida",
+    model: data.model || "Modelo Desconhecido",
+    chassisNumber: data.chassisNumber || "N/A",
+    fleetNumber: data.fleetNumber || null,
+    equipmentType: (maquinaTypeOptions.includes(data.equipmentType) || typeof data.equipmentType === "string") ? data.equipmentType : "Empilhadeira Contrabalançada GLP",
+    manufactureYear: toNullableNumber(data.manufactureYear),
+    operationalStatus: maquinaOperationalStatusOptions.includes(data.operationalStatus) ? data.operationalStatus : "Disponível",
+    customerId: data.customerId || null,
+    ownerReference: data.ownerReference || null,
+    towerOpenHeightMm: toNullableNumber(data.towerOpenHeightMm),
+    towerClosedHeightMm: toNullableNumber(data.towerClosedHeightMm),
+    nominalCapacityKg: toNullableNumber(data.nominalCapacityKg),
+    batteryBoxWidthMm: toNullableNumber(data.batteryBoxWidthMm),
+    batteryBoxHeightMm: toNullableNumber(data.batteryBoxHeightMm),
+    batteryBoxDepthMm: toNullableNumber(data.batteryBoxDepthMm),
+    monthlyRentalValue: toNullableNumber(data.monthlyRentalValue),
+    hourMeter: toNullableNumber(data.hourMeter),
+    notes: data.notes || null,
+    partsCatalogUrl: data.partsCatalogUrl || null,
+    errorCodesUrl: data.errorCodesUrl || null,
+    linkedAuxiliaryEquipmentIds: toStringArrayOrNull(data.linkedAuxiliaryEquipmentIds),
+    imageUrls: toStringArrayOrNull(data.imageUrls),
+    preventiveMaintenanceHours: data.preventiveMaintenanceHours || null,
+  };
+}
+
+export function maquinaDocRef(maquinaId: string) {
+  return doc(requireDb("maquinaDocRef"), FIRESTORE_EQUIPMENT_COLLECTION_NAME, maquinaId);
+}
+
+export function newMaquinaId(): string {
+  return doc(collection(requireDb("newMaquinaId"), FIRESTORE_EQUIPMENT_COLLECTION_NAME)).id;
+}
+
+export async function fetchMaquinas(): Promise<Maquina[]> {
+  const db = requireDb("fetchMaquinas");
+  const q = query(collection(db, FIRESTORE_EQUIPMENT_COLLECTION_NAME), orderBy("brand", "asc"), orderBy("model", "asc"));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => toMaquina(docSnap.id, docSnap.data()));
+}
+
+export async function fetchMaquinaById(maquinaId: string): Promise<Maquina | null> {
+  if (!maquinaId) return null;
+  const docSnap = await getDoc(maquinaDocRef(maquinaId));
+  return docSnap.exists() ? toMaquina(docSnap.id, docSnap.data()) : null;
+}
+
+export async function maquinaChassisNumberExists(chassisNumber: string, currentMaquinaId?: string): Promise<boolean> {
+  if (!chassisNumber) return false;
+  const db = requireDb("maquinaChassisNumberExists");
+  const q = query(collection(db, FIRESTORE_EQUIPMENT_COLLECTION_NAME), where("chassisNumber", "==", chassisNumber));
+  const querySnapshot = await getDocs(q);
+  if (querySnapshot.empty) return false;
+  if (currentMaquinaId) {
+    return querySnapshot.docs.some(docSnap => docSnap.id !== currentMaquinaId);
+  }
+  return true;
+}
+
+function prepareMaquinaForFirestore(data: MaquinaWriteData) {
+  validateWithSchema(MaquinaSchema, data, "Máquina");
+  return omitUndefined(data);
+}
+
+function auxEquipmentDocRef(auxId: string) {
+  return doc(requireDb("auxEquipmentDocRef"), FIRESTORE_AUX_EQUIPMENT_COLLECTION_NAME, auxId);
+}
+
+// The machine and the `linkedEquipmentId` back-references on its auxiliary
+// equipment are written in one batch so they never disagree.
+export async function createMaquina(maquinaId: string, data: MaquinaWriteData): Promise<void> {
+  const payload = prepareMaquinaForFirestore(data);
+  const batch = writeBatch(requireDb("createMaquina"));
+  batch.set(maquinaDocRef(maquinaId), payload);
+  auditInBatch(batch, { entityType: "maquina", entityId: maquinaId, action: "create", after: payload });
+  if (typeof data.hourMeter === "number") addHourMeterReadingToBatch(batch, maquinaId, data.hourMeter);
+  for (const auxId of data.linkedAuxiliaryEquipmentIds || []) {
+    batch.update(auxEquipmentDocRef(auxId), { linkedEquipmentId: maquinaId });
+  }
+  await batch.commit();
+}
+
+export async function updateMaquina(maquinaId: string, data: MaquinaWriteData, previousLinkedAuxIds: string[] = []): Promise<void> {
+  const payload = prepareMaquinaForFirestore(data);
+  const before = await getDoc(maquinaDocRef(maquinaId));
+  const batch = writeBatch(requireDb("updateMaquina"));
+  batch.update(maquinaDocRef(maquinaId), payload);
+  auditInBatch(batch, { entityType: "maquina", entityId: maquinaId, action: "update", before: before.data(), after: payload });
+  if (typeof data.hourMeter === "number" && data.hourMeter !== toNullableNumber(before.data()?.hourMeter)) {
+    addHourMeterReadingToBatch(batch, maquinaId, data.hourMeter);
+  }
+
+  const newLinkedIds = data.linkedAuxiliaryEquipmentIds || [];
+  for (const auxId of previousLinkedAuxIds.filter(id => !newLinkedIds.includes(id))) {
+    batch.update(auxEquipmentDocRef(auxId), { linkedEquipmentId: null });
+  }
+  for (const auxId of newLinkedIds.filter(id => !previousLinkedAuxIds.includes(id))) {
+    batch.update(auxEquipmentDocRef(auxId), { linkedEquipmentId: maquinaId });
+  }
+  await batch.commit();
+}
+
+// Partial updates that don't go through the form (status changes, file removal, etc).
+export async function updateMaquinaFields(maquinaId: string, fields: Partial<MaquinaWriteData>): Promise<void> {
+  const payload = omitUndefined(fields);
+  const before = await getDoc(maquinaDocRef(maquinaId));
+  const batch = writeBatch(requireDb("updateMaquinaFields"));
+  batch.update(maquinaDocRef(maquinaId), payload);
+  auditInBatch(batch, { entityType: "maquina", entityId: maquinaId, action: "update", before: before.data(), after: payload });
+  await batch.commit();
+}
+
+export async function deleteMaquina(maquinaId: string, linkedAuxIds: string[] = []): Promise<void> {
+  const before = await getDoc(maquinaDocRef(maquinaId));
+  const batch = writeBatch(requireDb("deleteMaquina"));
+  batch.delete(maquinaDocRef(maquinaId));
+  auditInBatch(batch, { entityType: "maquina", entityId: maquinaId, action: "delete", before: before.data() });
+  for (const auxId of linkedAuxIds) {
+    batch.update(auxEquipmentDocRef(auxId), { linkedEquipmentId: null });
+  }
+  await batch.commit();
+}
@@ -0,0 +1,109 @@
+import { collection, doc, getDoc, getDocs, orderBy, query, runTransaction, serverTimestamp, writeBatch, type DocumentData } from "firebase/firestore";
+import type * as z from "zod";
+import type { CompanyId, PartsRequisition, PartsRequisitionItem, PartsRequisitionStatusType } from "@/types";
+import { GOLDMAQ_COMPANY_ID, PartsRequisitionSchema } from "@/types";
+import { FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME } from "./collections";
+import { omitUndefined, requireDb, timestampToIsoString, validateWithSchema } from "./shared";
+import { auditInBatch, auditInTransaction } from "./audit";
+import { createWithDocumentNumber } from "./counters";
+
+export type PartsRequisitionInput = z.input<typeof PartsRequisitionSchema>;
+
+export function toPartsRequisition(id: string, data: DocumentData): PartsRequisition {
+  return {
+    id,
+    ...data,
+    createdDate: timestampToIsoString(data.createdDate) ?? "",
+    items: Array.isArray(data.items) ? data.items.map((item: any) => ({ ...item, id: item.id || crypto.randomUUID() })) : [],
+  } as PartsRequisition;
+}
+
+export function partsRequisitionDocRef(requisitionId: string) {
+  return doc(requireDb("partsRequisitionDocRef"), FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME, requisitionId);
+}
+
+export async function fetchPartsRequisitions(): Promise<PartsRequisition[]> {
+  const db = requireDb("fetchPartsRequisitions");
+  const q = query(collection(db, FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME), orderBy("createdDate", "desc"));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => toPartsRequisition(docSnap.id, docSnap.data()));
+}
+
+export async function fetchPartsRequisitionById(requisitionId: string): Promise<PartsRequisition | null> {
+  if (!requisitionId) return null;
+  const docSnap = await getDoc(partsRequisitionDocRef(requisitionId));
+  return docSnap.exists() ? toPartsRequisition(docSnap.id, docSnap.data()) : null;
+}
+
+function preparePartsRequisitionForFirestore(data: PartsRequisitionInput) {
+  const { id, createdDate, ...validated } = validateWithSchema(PartsRequisitionSchema, data, "Requisição");
+  return omitUndefined({
+    ...validated,
+    items: validated.items.map(item => omitUndefined({ ...item, imageUrl: item.imageUrl || null })),
+  });
+}
+
+// The requisition number is reserved from the company's counter when saving;
+// any number in `data` is ignored. Returns the number the requisition got.
+export async function createPartsRequisition(requisitionId: string, data: PartsRequisitionInput, companyId: CompanyId = GOLDMAQ_COMPANY_ID): Promise<string> {
+  return createWithDocumentNumber("partsRequisition", companyId, (transaction, requisitionNumber) => {
+    const payload = {
+      ...preparePartsRequisitionForFirestore({ ...data, requisitionNumber }),
+      createdDate: serverTimestamp(),
+    };
+    transaction.set(partsRequisitionDocRef(requisitionId), payload);
+    auditInTransaction(transaction, { entityType: "partsRequisition", entityId: requisitionId, action: "create", after: payload });
+  });
+}
+
+export async function updatePartsRequisition(requisitionId: string, data: PartsRequisitionInput): Promise<void> {
+  const payload = preparePartsRequisitionForFirestore(data);
+  const before = await getDoc(partsRequisitionDocRef(requisitionId));
+  const batch = writeBatch(requireDb("updatePartsRequisition"));
+  batch.update(partsRequisitionDocRef(requisitionId), payload);
+  auditInBatch(batch, { entityType: "partsRequisition", entityId: requisitionId, action: "update", before: before.data(), after: payload });
+  await batch.commit();
+}
+
+export async function deletePartsRequisition(requisitionId: string): Promise<void> {
+  const before = await getDoc(partsRequisitionDocRef(requisitionId));
+  const batch = writeBatch(requireDb("deletePartsRequisition"));
+  batch.delete(partsRequisitionDocRef(requisitionId));
+  auditInBatch(batch, { entityType: "partsRequisition", entityId: requisitionId, action: "delete", before: before.data() });
+  await batch.commit();
+}
+
+// Items live in an array on the requisition, so a single item change has to
+// rewrite the whole array inside a transaction to avoid lost updates between
+// the triage and warehouse screens. The caller decides the resulting
+// requisition status from the updated items.
+export async function updatePartsRequisitionItem(
+  requisitionId: string,
+  itemId: string,
+  applyChange: (item: PartsRequisitionItem) => PartsRequisitionItem,
+  deriveRequisitionStatus: (items: PartsRequisitionItem[], current: PartsRequisition) => PartsRequisitionStatusType,
+): Promise<void> {
+  const db = requireDb("updatePartsRequisitionItem");
+  const reqRef = partsRequisitionDocRef(requisitionId);
+
+  await runTransaction(db, async (transaction) => {
+    const reqDoc = await transaction.get(reqRef);
+    if (!reqDoc.exists()) {
+      throw new Error("Requisição não encontrada.");
+    }
+
+    const currentRequisition = toPartsRequisition(reqDoc.id, reqDoc.data());
+    const itemIndex = currentRequisition.items.findIndex(item => item.id === itemId);
+    if (itemIndex === -1) {
+      throw new Error("Item da requisição não encontrado.");
+    }
+
+    const updatedItems = [...currentRequisition.items];
+    updatedItems[itemIndex] = applyChange(updatedItems[itemIndex]);
+    const newStatus = deriveRequisitionStatus(updatedItems, currentRequisition);
+
+    const fields = { items: updatedItems.map(item => omitUndefined(item)), status: newStatus };
+    transaction.update(reqRef, fields);
+    auditInTransaction(transaction, { entityType: "partsRequisition", entityId: requisitionId, action: "update", before: reqDoc.data(), after: fields });
+  });
+}
@@ -0,0 +1,219 @@
+import { collection, doc, getDoc, getDocs, orderBy, query, runTransaction, where, type DocumentData, type DocumentSnapshot, type Transaction } from "firebase/firestore";
+import { format } from "date-fns";
+import type { RentalContract, RentalContractStatusType } from "@/types";
+import { readjustmentIndexOptions, RentalContractSchema, rentalContractStatusOptions } from "@/types";
+import { formatDateForInput } from "@/lib/utils";
+import { FIRESTORE_RENTAL_CONTRACT_COLLECTION_NAME } from "./collections";
+import { dateStringToTimestamp, omitUndefined, requireDb, toNullableNumber, toStringArrayOrNull, validateWithSchema } from "./shared";
+import { auditInTransaction } from "./audit";
+import { createWithDocumentNumber } from "./counters";
+import { maquinaDocRef } from "./maquinas";
+import { auxiliaryEquipmentDocRef } from "./auxiliary-equipment";
+
+// Dates travel as yyyy-MM-dd strings in the app and are stored as Timestamps.
+export type RentalContractWriteData = Omit<RentalContract, "id">;
+
+export function toRentalContract(id: string, data: DocumentData): RentalContract {
+  return {
+    id,
+    contractNumber: data.contractNumber || "N/A",
+    companyId: data.companyId,
+    customerId: data.customerId || "N/A",
+    equipmentIds: toStringArrayOrNull(data.equipmentIds) || [],
+    auxiliaryEquipmentIds: toStringArrayOrNull(data.auxiliaryEquipmentIds) || [],
+    startDate: formatDateForInput(data.startDate),
+    endDate: data.endDate ? formatDateForInput(data.endDate) : null,
+    monthlyValue: toNullableNumber(data.monthlyValue) ?? 0,
+    depositValue: toNullableNumber(data.depositValue),
+    readjustmentIndex: readjustmentIndexOptions.includes(data.readjustmentIndex) ? data.readjustmentIndex : "Sem reajuste",
+    status: rentalContractStatusOptions.includes(data.status) ? data.status : "Aguardando Início",
+    notes: data.notes || null,
+  };
+}
+
+export function rentalContractDocRef(contractId: string) {
+  return doc(requireDb("rentalContractDocRef"), FIRESTORE_RENTAL_CONTRACT_COLLECTION_NAME, contractId);
+}
+
+export async function fetchRentalContracts(): Promise<RentalContract[]> {
+  const db = requireDb("fetchRentalContracts");
+  const q = query(collection(db, FIRESTORE_RENTAL_CONTRACT_COLLECTION_NAME), orderBy("startDate", "desc"));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => toRentalContract(docSnap.id, docSnap.data()));
+}
+
+function prepareRentalContractForFirestore(data: RentalContractWriteData) {
+  const validated = validateWithSchema(RentalContractSchema, data, "Contrato de locação");
+  return omitUndefined({
+    ...validated,
+    startDate: dateStringToTimestamp(validated.startDate),
+    endDate: dateStringToTimestamp(validated.endDate),
+    depositValue: validated.depositValue ?? null,
+    notes: validated.notes || null,
+  });
+}
+
+// --- Status of the rented machines ---
+
+interface HeldItems {
+  equipmentIds: string[];
+  auxiliaryEquipmentIds: string[];
+}
+
+interface HeldItemSnapshots {
+  maquinas: DocumentSnapshot[];
+  auxiliaryEquipment: DocumentSnapshot[];
+}
+
+// Only an active contract holds its machines; pending, ended and cancelled ones leave them free.
+function heldItems(data: DocumentData | null | undefined): HeldItems {
+  if (data?.status !== "Ativo") return { equipmentIds: [], auxiliaryEquipmentIds: [] };
+  return {
+    equipmentIds: toStringArrayOrNull(data.equipmentIds) || [],
+    auxiliaryEquipmentIds: toStringArrayOrNull(data.auxiliaryEquipmentIds) || [],
+  };
+}
+
+const rentedItemConfig = {
+  maquina: { statusField: "operationalStatus", rentedStatus: "Locada", label: (data: DocumentData) => `Máquina ${data.brand} ${data.model} (Chassi: ${data.chassisNumber})` },
+  auxiliaryEquipment: { statusField: "status", rentedStatus: "Locado", label: (data: DocumentData) => `Equipamento auxiliar ${data.name}` },
+} as const;
+
+const unrentableStatuses = ["Em Manutenção", "Sucata"];
+
+// Transactions cannot run queries, so an item being taken by another active
+// contract is checked right before saving.
+async function assertItemsNotInOtherActiveContract(contractId: string | null, items: HeldItems): Promise<void> {
+  if (items.equipmentIds.length === 0 && items.auxiliaryEquipmentIds.length === 0) return;
+  const db = requireDb("assertItemsNotInOtherActiveContract");
+  const q = query(collection(db, FIRESTORE_RENTAL_CONTRACT_COLLECTION_NAME), where("status", "==", "Ativo"));
+  const querySnapshot = await getDocs(q);
+  querySnapshot.docs.forEach(docSnap => {
+    if (docSnap.id === contractId) return;
+    const other = heldItems(docSnap.data());
+    const conflict = items.equipmentIds.some(id => other.equipmentIds.includes(id))
+      || items.auxiliaryEquipmentIds.some(id => other.auxiliaryEquipmentIds.includes(id));
+    if (conflict) throw new Error(`Um dos itens selecionados já está locado no contrato ativo ${docSnap.data().contractNumber}.`);
+  });
+}
+
+// Firestore requires every read of a transaction to happen before its first
+// write, so the items of both versions of the contract are loaded up front.
+async function readHeldItems(transaction: Transaction, before: HeldItems, after: HeldItems): Promise<HeldItemSnapshots> {
+  const maquinaIds = Array.from(new Set([...before.equipmentIds, ...after.equipmentIds]));
+  const auxIds = Array.from(new Set([...before.auxiliaryEquipmentIds, ...after.auxiliaryEquipmentIds]));
+  return {
+    maquinas: await Promise.all(maquinaIds.map(id => transaction.get(maquinaDocRef(id)))),
+    auxiliaryEquipment: await Promise.all(auxIds.map(id => transaction.get(auxiliaryEquipmentDocRef(id)))),
+  };
+}
+
+function applyItemStatus(
+  transaction: Transaction,
+  entityType: keyof typeof rentedItemConfig,
+  snapshots: DocumentSnapshot[],
+  heldBefore: string[],
+  heldAfter: string[]
+): void {
+  const { statusField, rentedStatus, label } = rentedItemConfig[entityType];
+  snapshots.forEach(snap => {
+    const taken = heldAfter.includes(snap.id) && !heldBefore.includes(snap.id);
+    const released = heldBefore.includes(snap.id) && !heldAfter.includes(snap.id);
+    if (!snap.exists()) {
+      if (taken) throw new Error("Um dos itens selecionados não existe mais.");
+      return;
+    }
+    const data = snap.data();
+    const currentStatus = data[statusField];
+    let nextStatus: string | null = null;
+    if (taken) {
+      if (unrentableStatuses.includes(currentStatus)) throw new Error(`${label(data)} está com status "${currentStatus}" e não pode ser locado(a).`);
+      nextStatus = rentedStatus;
+    } else if (released && currentStatus === rentedStatus) {
+      // Items moved to maintenance or scrap during the contract keep that status.
+      nextStatus = "Disponível";
+    }
+    if (!nextStatus || nextStatus === currentStatus) return;
+    const fields = { [statusField]: nextStatus };
+    transaction.update(snap.ref, fields);
+    auditInTransaction(transaction, { entityType, entityId: snap.id, action: "update", before: data, after: fields });
+  });
+}
+
+// Machines and auxiliary equipment become rented when the contract starts and
+// available again when it ends, is cancelled or drops them.
+function syncHeldItemStatus(transaction: Transaction, before: HeldItems, after: HeldItems, snapshots: HeldItemSnapshots): void {
+  applyItemStatus(transaction, "maquina", snapshots.maquinas, before.equipmentIds, after.equipmentIds);
+  applyItemStatus(transaction, "auxiliaryEquipment", snapshots.auxiliaryEquipment, before.auxiliaryEquipmentIds, after.auxiliaryEquipmentIds);
+}
+
+// --- Writes ---
+
+// The contract number is reserved from the lessor company's counter when
+// saving; any number in `data` is ignored.
+export async function createRentalContract(data: Omit<RentalContractWriteData, "contractNumber">): Promise<{ id: string; contractNumber: string }> {
+  const docRef = doc(collection(requireDb("createRentalContract"), FIRESTORE_RENTAL_CONTRACT_COLLECTION_NAME));
+  const noItems = heldItems(null);
+  const after = heldItems(data);
+  await assertItemsNotInOtherActiveContract(null, after);
+  const contractNumber = await createWithDocumentNumber<HeldItemSnapshots>(
+    "rentalContract",
+    data.companyId,
+    (transaction, contractNumber, snapshots) => {
+      const payload = prepareRentalContractForFirestore({ ...data, contractNumber });
+      transaction.set(docRef, payload);
+      auditInTransaction(transaction, { entityType: "rentalContract", entityId: docRef.id, action: "create", after: payload });
+      syncHeldItemStatus(transaction, noItems, after, snapshots);
+    },
+    transaction => readHeldItems(transaction, noItems, after)
+  );
+  return { id: docRef.id, contractNumber };
+}
+
+async function commitRentalContractChange(
+  contractId: string,
+  caller: string,
+  buildPayload: (current: DocumentData) => DocumentData | null
+): Promise<void> {
+  const contractRef = rentalContractDocRef(contractId);
+  await runTransaction(requireDb(caller), async (transaction) => {
+    const contractDoc = await transaction.get(contractRef);
+    if (!contractDoc.exists()) throw new Error("Contrato de locação não encontrado.");
+    const current = contractDoc.data();
+    const payload = buildPayload(current);
+    const before = heldItems(current);
+    const after = heldItems(payload ? { ...current, ...payload } : null);
+    const snapshots = await readHeldItems(transaction, before, after);
+
+    if (payload) {
+      transaction.update(contractRef, payload);
+      auditInTransaction(transaction, { entityType: "rentalContract", entityId: contractId, action: "update", before: current, after: payload });
+    } else {
+      transaction.delete(contractRef);
+      auditInTransaction(transaction, { entityType: "rentalContract", entityId: contractId, action: "delete", before: current });
+    }
+    syncHeldItemStatus(transaction, before, after, snapshots);
+  });
+}
+
+export async function updateRentalContract(contractId: string, data: RentalContractWriteData): Promise<void> {
+  const payload = prepareRentalContractForFirestore(data);
+  await assertItemsNotInOtherActiveContract(contractId, heldItems(data));
+  await commitRentalContractChange(contractId, "updateRentalContract", () => payload);
+}
+
+// Starting, ending or cancelling a contract from the list. Ending an
+// open-ended contract closes it today, so billing knows its last day.
+export async function updateRentalContractStatus(contractId: string, status: RentalContractStatusType): Promise<void> {
+  if (status === "Ativo") {
+    const contractDoc = await getDoc(rentalContractDocRef(contractId));
+    await assertItemsNotInOtherActiveContract(contractId, heldItems({ ...contractDoc.data(), status }));
+  }
+  await commitRentalContractChange(contractId, "updateRentalContractStatus", current =>
+    status === "Encerrado" && !current.endDate ? { status, endDate: dateStringToTimestamp(format(new Date(), "yyyy-MM-dd")) } : { status });
+}
+
+// Deleting an active contract releases its machines like ending it would.
+export async function deleteRentalContract(contractId: string): Promise<void> {
+  await commitRentalContractChange(contractId, "deleteRentalContract", () => null);
+}
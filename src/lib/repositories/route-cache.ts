@@ -0,0 +1,44 @@
+import { doc, getDoc, serverTimestamp, setDoc, type DocumentData } from "firebase/firestore";
+import { differenceInDays, parseISO } from "date-fns";
+import type { CachedRoute, RoutingProviderName } from "@/types";
+import { getRouteCacheId } from "@/lib/routing";
+import { FIRESTORE_ROUTE_CACHE_COLLECTION_NAME } from "./collections";
+import { omitUndefined, requireDb, timestampToIsoString, toNullableNumber } from "./shared";
+
+// Roads and tolls change slowly; older routes are calculated again.
+export const ROUTE_CACHE_MAX_AGE_DAYS = 180;
+
+export type CachedRouteInput = Omit<CachedRoute, "id" | "calculatedAt">;
+
+export function toCachedRoute(id: string, data: DocumentData): CachedRoute {
+  return {
+    id,
+    originKey: data.originKey || "",
+    destinationKey: data.destinationKey || "",
+    provider: (data.provider || "google") as RoutingProviderName,
+    distanceKm: Number(data.distanceKm) || 0,
+    durationMinutes: toNullableNumber(data.durationMinutes),
+    routePolyline: typeof data.routePolyline === "string" ? data.routePolyline : null,
+    tollsIndicated: data.tollsIndicated === true,
+    estimatedTollCostByAI: toNullableNumber(data.estimatedTollCostByAI),
+    calculatedAt: timestampToIsoString(data.calculatedAt) ?? "",
+  };
+}
+
+function routeCacheDocRef(originKey: string, destinationKey: string) {
+  return doc(requireDb("routeCacheDocRef"), FIRESTORE_ROUTE_CACHE_COLLECTION_NAME, getRouteCacheId(originKey, destinationKey));
+}
+
+// Null when the route was never calculated or is past ROUTE_CACHE_MAX_AGE_DAYS.
+export async function fetchCachedRoute(originKey: string, destinationKey: string): Promise<CachedRoute | null> {
+  const docSnap = await getDoc(routeCacheDocRef(originKey, destinationKey));
+  if (!docSnap.exists()) return null;
+  const route = toCachedRoute(docSnap.id, docSnap.data());
+  if (!route.calculatedAt || differenceInDays(new Date(), parseISO(route.calculatedAt)) > ROUTE_CACHE_MAX_AGE_DAYS) return null;
+  return route;
+}
+
+// Derived data, so it is overwritten in place and not audited.
+export async function saveCachedRoute(route: CachedRouteInput): Promise<void> {
+  await setDoc(routeCacheDocRef(route.originKey, route.destinationKey), omitUndefined({ ...route, calculatedAt: serverTimestamp() }));
+}
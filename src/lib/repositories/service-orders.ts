@@ -0,0 +1,227 @@
+import { collection, doc, getDoc, getDocs, limit, orderBy, query, runTransaction, where, writeBatch, type DocumentData } from "firebase/firestore";
+import type { CompanyId, ServiceOrder, ServiceOrderPhaseType, ServiceOrderSignature, TripCostBreakdown } from "@/types";
+import { GOLDMAQ_COMPANY_ID, ServiceOrderSchema, ServiceOrderSignatureSchema, serviceOrderPhaseOptions } from "@/types";
+import { formatDateForInput } from "@/lib/utils";
+import {
+  getOpenBudgets, getServiceOrderTransitionErrors, initialServiceOrderPhases, isFinalServiceOrderPhase,
+  phaseNeedsBudgets, phaseNeedsPartsRequisitions,
+} from "@/lib/service-order-phases";
+import { FIRESTORE_BUDGET_COLLECTION_NAME, FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME, FIRESTORE_SERVICE_ORDER_COLLECTION_NAME } from "./collections";
+import { dateStringToTimestamp, omitUndefined, requireDb, timestampToIsoString, toNullableNumber, toStringArrayOrNull, validateWithSchema } from "./shared";
+import { auditInBatch, auditInTransaction } from "./audit";
+import { createWithDocumentNumber } from "./counters";
+import { budgetDocRef, toBudget } from "./budgets";
+import { partsRequisitionDocRef, toPartsRequisition } from "./parts-requisitions";
+import { maquinaDocRef } from "./maquinas";
+
+// Dates travel as yyyy-MM-dd strings in the app and are stored as Timestamps.
+export type ServiceOrderWriteData = Omit<ServiceOrder, "id" | "customServiceType">;
+
+function toServiceOrderSignature(data: DocumentData | null | undefined): ServiceOrderSignature | null {
+  const imageUrl = data?.imageUrl;
+  if (!imageUrl) return null;
+  return {
+    signerName: data.signerName || "",
+    signerDocument: data.signerDocument || "",
+    imageUrl,
+    signedAt: timestampToIsoString(data.signedAt) ?? "",
+  };
+}
+
+// The signing time is stored as a Timestamp like the order dates.
+const signatureForFirestore = (signature: ServiceOrderSignature | null | undefined) =>
+  signature ? { ...signature, signedAt: dateStringToTimestamp(signature.signedAt) } : signature;
+
+export function toServiceOrder(id: string, data: DocumentData): ServiceOrder {
+  return {
+    id,
+    orderNumber: data.orderNumber || "N/A",
+    customerId: data.customerId || "N/A",
+    equipmentId: data.equipmentId || "N/A",
+    requesterName: data.requesterName || null,
+    phase: (serviceOrderPhaseOptions.includes(data.phase) ? data.phase : "Aguardando Avaliação Técnica") as ServiceOrderPhaseType,
+    technicianId: data.technicianId || null,
+    serviceType: data.serviceType || "Não especificado",
+    customServiceType: data.customServiceType,
+    vehicleId: data.vehicleId || null,
+    startDate: data.startDate ? formatDateForInput(data.startDate) : undefined,
+    endDate: data.endDate ? formatDateForInput(data.endDate) : undefined,
+    description: data.description || "N/A",
+    notes: data.notes || null,
+    mediaUrls: toStringArrayOrNull(data.mediaUrls) || [],
+    technicalConclusion: data.technicalConclusion || null,
+    estimatedTravelDistanceKm: toNullableNumber(data.estimatedTravelDistanceKm),
+    estimatedTollCosts: toNullableNumber(data.estimatedTollCosts),
+    estimatedTravelCost: toNullableNumber(data.estimatedTravelCost),
+    machineStatusBeforeOs: data.machineStatusBeforeOs || null,
+    maintenancePlanIds: toStringArrayOrNull(data.maintenancePlanIds),
+    maintenanceDueHours: toNullableNumber(data.maintenanceDueHours),
+    customerSignature: toServiceOrderSignature(data.customerSignature),
+    travelCostBreakdown: data.travelCostBreakdown?.totalCost !== undefined ? data.travelCostBreakdown as TripCostBreakdown : null,
+    visitWindowStart: data.visitWindowStart || null,
+    visitWindowEnd: data.visitWindowEnd || null,
+    dailyRouteId: data.dailyRouteId || null,
+  };
+}
+
+export function serviceOrderDocRef(orderId: string) {
+  return doc(requireDb("serviceOrderDocRef"), FIRESTORE_SERVICE_ORDER_COLLECTION_NAME, orderId);
+}
+
+export function newServiceOrderId(): string {
+  return doc(collection(requireDb("newServiceOrderId"), FIRESTORE_SERVICE_ORDER_COLLECTION_NAME)).id;
+}
+
+export async function fetchServiceOrders(): Promise<ServiceOrder[]> {
+  const db = requireDb("fetchServiceOrders");
+  const q = query(collection(db, FIRESTORE_SERVICE_ORDER_COLLECTION_NAME), orderBy("orderNumber", "desc"));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => toServiceOrder(docSnap.id, docSnap.data()));
+}
+
+// Latest orders by start date, used by the service orders board.
+export async function fetchRecentServiceOrders(maxOrders = 50): Promise<ServiceOrder[]> {
+  const db = requireDb("fetchRecentServiceOrders");
+  const q = query(collection(db, FIRESTORE_SERVICE_ORDER_COLLECTION_NAME), orderBy("startDate", "desc"), orderBy("orderNumber", "desc"), limit(maxOrders));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => toServiceOrder(docSnap.id, docSnap.data()));
+}
+
+// Orders assigned to one technician (what users without "serviceOrders:viewAll" see).
+// Sorted here instead of in the query so no composite index is needed.
+export async function fetchServiceOrdersForTechnician(technicianId: string): Promise<ServiceOrder[]> {
+  const db = requireDb("fetchServiceOrdersForTechnician");
+  const q = query(collection(db, FIRESTORE_SERVICE_ORDER_COLLECTION_NAME), where("technicianId", "==", technicianId));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs
+    .map(docSnap => toServiceOrder(docSnap.id, docSnap.data()))
+    .sort((a, b) => (b.startDate || "").localeCompare(a.startDate || "") || b.orderNumber.localeCompare(a.orderNumber, undefined, { numeric: true }));
+}
+
+export async function fetchOpenServiceOrders(): Promise<ServiceOrder[]> {
+  const serviceOrders = await fetchServiceOrders();
+  return serviceOrders.filter(os => os.phase !== "Concluída" && os.phase !== "Cancelada");
+}
+
+export async function fetchServiceOrderById(orderId: string): Promise<ServiceOrder | null> {
+  if (!orderId) return null;
+  const docSnap = await getDoc(serviceOrderDocRef(orderId));
+  return docSnap.exists() ? toServiceOrder(docSnap.id, docSnap.data()) : null;
+}
+
+export function prepareServiceOrderForFirestore(data: ServiceOrderWriteData) {
+  validateWithSchema(ServiceOrderSchema, data, "Ordem de Serviço");
+  return omitUndefined({
+    ...data,
+    startDate: dateStringToTimestamp(data.startDate),
+    endDate: dateStringToTimestamp(data.endDate),
+    customerSignature: signatureForFirestore(data.customerSignature),
+  });
+}
+
+// The order number is reserved from the company's counter when saving; any
+// number in `data` is ignored. Returns the number the order got.
+export async function createServiceOrder(orderId: string, data: Omit<ServiceOrderWriteData, "orderNumber">, companyId: CompanyId = GOLDMAQ_COMPANY_ID): Promise<string> {
+  if (!initialServiceOrderPhases.includes(data.phase)) {
+    throw new Error(`Uma nova OS não pode ser aberta na fase "${data.phase}".`);
+  }
+  if (data.phase === "Em Execução" && !data.technicianId) {
+    throw new Error("Atribua um técnico para abrir a OS já em execução.");
+  }
+  return createWithDocumentNumber("serviceOrder", companyId, (transaction, orderNumber) => {
+    const payload = prepareServiceOrderForFirestore({ ...data, orderNumber });
+    transaction.set(serviceOrderDocRef(orderId), payload);
+    auditInTransaction(transaction, { entityType: "serviceOrder", entityId: orderId, action: "create", after: payload });
+  });
+}
+
+// Ids of the documents a phase change has to look at. Transactions cannot run
+// queries, so they are listed first and read again inside the transaction.
+async function fetchLinkedDocumentIds(orderId: string, phase: ServiceOrderPhaseType) {
+  const db = requireDb("fetchLinkedDocumentIds");
+  const idsIn = async (collectionName: string, needed: boolean) => needed
+    ? (await getDocs(query(collection(db, collectionName), where("serviceOrderId", "==", orderId)))).docs.map(docSnap => docSnap.id)
+    : [];
+  const [budgetIds, requisitionIds] = await Promise.all([
+    idsIn(FIRESTORE_BUDGET_COLLECTION_NAME, phaseNeedsBudgets(phase)),
+    idsIn(FIRESTORE_PARTS_REQUISITION_COLLECTION_NAME, phaseNeedsPartsRequisitions(phase)),
+  ]);
+  return { budgetIds, requisitionIds };
+}
+
+// Every update goes through here. A phase change is checked against the
+// life cycle in src/lib/service-order-phases.ts and written together with its
+// consequences: concluding or cancelling gives the machine back the status it
+// had before the OS, and cancelling also cancels the budgets still waiting for
+// the customer. firestore.rules lets the assigned technician read the budgets
+// of the order and cancel them only in that same write.
+async function commitServiceOrderUpdate(orderId: string, payload: DocumentData, caller: string): Promise<void> {
+  const db = requireDb(caller);
+  const orderRef = serviceOrderDocRef(orderId);
+  const links = typeof payload.phase === "string" ? await fetchLinkedDocumentIds(orderId, payload.phase as ServiceOrderPhaseType) : null;
+
+  await runTransaction(db, async (transaction) => {
+    const orderDoc = await transaction.get(orderRef);
+    if (!orderDoc.exists()) throw new Error("Ordem de serviço não encontrada.");
+    const current = toServiceOrder(orderDoc.id, orderDoc.data());
+    const next = toServiceOrder(orderDoc.id, { ...orderDoc.data(), ...payload });
+    const phaseChanged = !!links && next.phase !== current.phase;
+
+    const budgetDocs = phaseChanged ? await Promise.all(links.budgetIds.map(id => transaction.get(budgetDocRef(id)))) : [];
+    const requisitionDocs = phaseChanged ? await Promise.all(links.requisitionIds.map(id => transaction.get(partsRequisitionDocRef(id)))) : [];
+    const maquinaDoc = phaseChanged && isFinalServiceOrderPhase(next.phase) && current.equipmentId !== "N/A"
+      ? await transaction.get(maquinaDocRef(current.equipmentId))
+      : null;
+
+    const budgets = budgetDocs.filter(docSnap => docSnap.exists()).map(docSnap => toBudget(docSnap.id, docSnap.data()!));
+    if (phaseChanged) {
+      const errors = getServiceOrderTransitionErrors(current, next, {
+        budgets,
+        partsRequisitions: requisitionDocs.filter(docSnap => docSnap.exists()).map(docSnap => toPartsRequisition(docSnap.id, docSnap.data()!)),
+      });
+      if (errors.length > 0) throw new Error(errors.join(" "));
+    }
+
+    transaction.update(orderRef, payload);
+    auditInTransaction(transaction, { entityType: "serviceOrder", entityId: orderId, action: "update", before: orderDoc.data(), after: payload });
+
+    // A scrapped machine stays scrapped whatever happens to the order.
+    const machineStatus = maquinaDoc?.exists() ? maquinaDoc.data().operationalStatus : null;
+    const restoredStatus = current.machineStatusBeforeOs || "Disponível";
+    if (maquinaDoc && machineStatus && machineStatus !== "Sucata" && machineStatus !== restoredStatus) {
+      transaction.update(maquinaDoc.ref, { operationalStatus: restoredStatus });
+      auditInTransaction(transaction, { entityType: "maquina", entityId: maquinaDoc.id, action: "update", before: maquinaDoc.data(), after: { operationalStatus: restoredStatus } });
+    }
+
+    if (phaseChanged && next.phase === "Cancelada") {
+      getOpenBudgets(budgets).forEach(budget => {
+        transaction.update(budgetDocRef(budget.id), { status: "Cancelado" });
+        auditInTransaction(transaction, { entityType: "budget", entityId: budget.id, action: "update", before: { status: budget.status }, after: { status: "Cancelado" } });
+      });
+    }
+  });
+}
+
+export async function updateServiceOrder(orderId: string, data: ServiceOrderWriteData): Promise<void> {
+  await commitServiceOrderUpdate(orderId, prepareServiceOrderForFirestore(data), "updateServiceOrder");
+}
+
+// Partial updates outside the form (phase changes, conclusion, etc).
+export async function updateServiceOrderFields(orderId: string, fields: Partial<ServiceOrderWriteData>): Promise<void> {
+  const { startDate, endDate, customerSignature, ...rest } = fields;
+  if (customerSignature) validateWithSchema(ServiceOrderSignatureSchema, customerSignature, "Assinatura do cliente");
+  await commitServiceOrderUpdate(orderId, omitUndefined({
+    ...rest,
+    ...(startDate !== undefined && { startDate: dateStringToTimestamp(startDate) }),
+    ...(endDate !== undefined && { endDate: dateStringToTimestamp(endDate) }),
+    ...(customerSignature !== undefined && { customerSignature: signatureForFirestore(customerSignature) }),
+  }), "updateServiceOrderFields");
+}
+
+export async function deleteServiceOrder(orderId: string): Promise<void> {
+  const before = await getDoc(serviceOrderDocRef(orderId));
+  const batch = writeBatch(requireDb("deleteServiceOrder"));
+  batch.delete(serviceOrderDocRef(orderId));
+  auditInBatch(batch, { entityType: "serviceOrder", entityId: orderId, action: "delete", before: before.data() });
+  await batch.commit();
+}
@@ -0,0 +1,55 @@
+import { Timestamp, type Firestore } from "firebase/firestore";
+import { isValid, parseISO } from "date-fns";
+import type { ZodTypeAny, z } from "zod";
+import { db } from "@/lib/firebase";
+
+export function requireDb(caller: string): Firestore {
+  if (!db) {
+    console.error(`${caller}: Firebase DB is not available.`);
+    throw new Error("Firebase DB is not available");
+  }
+  return db;
+}
+
+// Firestore Timestamp -> ISO string. Strings (already ISO) pass through untouched.
+export function timestampToIsoString(value: unknown): string | undefined {
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "string" && value) return value;
+  return undefined;
+}
+
+// ISO / yyyy-MM-dd string -> Firestore Timestamp (null when empty or invalid).
+export function dateStringToTimestamp(dateString?: string | null): Timestamp | null {
+  if (!dateString) return null;
+  const date = parseISO(dateString);
+  if (!isValid(date)) return null;
+  return Timestamp.fromDate(date);
+}
+
+export function toNullableNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const num = Number(value);
+  return isNaN(num) ? null : num;
+}
+
+export function toStringArrayOrNull(value: unknown): string[] | null {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : null;
+}
+
+// Firestore rejects `undefined` field values, so strip them before any write.
+export function omitUndefined<T extends Record<string, any>>(data: T): Partial<T> {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+// Runs the same zod schema the forms use, so invalid data never reaches Firestore
+// even when a write bypasses the form (batch tools, imports, etc).
+export function validateWithSchema<S extends ZodTypeAny>(schema: S, data: unknown, entityLabel: string): z.output<S> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const firstIssue = result.error.issues[0];
+    const path = firstIssue?.path.join(".");
+    throw new Error(`${entityLabel} inválido(a)${path ? ` (${path})` : ""}: ${firstIssue?.message ?? "dados inválidos"}`);
+  }
+  return result.data;
+}
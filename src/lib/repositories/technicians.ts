@@ -0,0 +1,104 @@
+import { collection, doc, getDoc, getDocs, limit, orderBy, query, setDoc, where, writeBatch, type DocumentData } from "firebase/firestore";
+import type * as z from "zod";
+import type { Technician } from "@/types";
+import { TechnicianSchema } from "@/types";
+import { FIRESTORE_TECHNICIAN_COLLECTION_NAME, FIRESTORE_USER_COLLECTION_NAME } from "./collections";
+import { omitUndefined, requireDb, validateWithSchema } from "./shared";
+import { auditInBatch } from "./audit";
+
+export type TechnicianInput = z.input<typeof TechnicianSchema>;
+
+export function toTechnician(id: string, data: DocumentData): Technician {
+  return {
+    id,
+    ...data,
+    imageUrl: data.imageUrl || null,
+  } as Technician;
+}
+
+export function technicianDocRef(technicianId: string) {
+  return doc(requireDb("technicianDocRef"), FIRESTORE_TECHNICIAN_COLLECTION_NAME, technicianId);
+}
+
+// Lets callers upload files under the final document ID before the document exists.
+export function newTechnicianId(): string {
+  return doc(collection(requireDb("newTechnicianId"), FIRESTORE_TECHNICIAN_COLLECTION_NAME)).id;
+}
+
+export async function fetchTechnicians(): Promise<Technician[]> {
+  const db = requireDb("fetchTechnicians");
+  const q = query(collection(db, FIRESTORE_TECHNICIAN_COLLECTION_NAME), orderBy("name", "asc"));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => toTechnician(docSnap.id, docSnap.data()));
+}
+
+export async function fetchTechnicianById(technicianId: string): Promise<Technician | null> {
+  if (!technicianId) return null;
+  const docSnap = await getDoc(technicianDocRef(technicianId));
+  return docSnap.exists() ? toTechnician(docSnap.id, docSnap.data()) : null;
+}
+
+function userDocRef(authUid: string) {
+  return doc(requireDb("userDocRef"), FIRESTORE_USER_COLLECTION_NAME, authUid);
+}
+
+// Resolves the collaborator record of a signed-in user. Records are matched by
+// uid first; on the first sign-in the record registered with the same e-mail
+// is claimed by writing the uid to it, but only once the e-mail is verified:
+// anyone can sign up with someone else's address. The `usuarios/{uid}`
+// pointer is kept in sync because the security rules resolve the caller's
+// role through it.
+export async function fetchTechnicianForAuthUser(authUid: string, email: string | null, emailVerified: boolean): Promise<Technician | null> {
+  const db = requireDb("fetchTechnicianForAuthUser");
+  const techniciansRef = collection(db, FIRESTORE_TECHNICIAN_COLLECTION_NAME);
+
+  const byUid = await getDocs(query(techniciansRef, where("authUid", "==", authUid), limit(1)));
+  if (!byUid.empty) {
+    const linkedDoc = byUid.docs[0];
+    const userDoc = await getDoc(userDocRef(authUid));
+    if (!userDoc.exists() || userDoc.data().technicianId !== linkedDoc.id) {
+      await setDoc(userDocRef(authUid), { technicianId: linkedDoc.id });
+    }
+    return toTechnician(linkedDoc.id, linkedDoc.data());
+  }
+  if (!email || !emailVerified) return null;
+
+  const byEmail = await getDocs(query(techniciansRef, where("email", "==", email.trim().toLowerCase()), limit(1)));
+  if (byEmail.empty) return null;
+  const docSnap = byEmail.docs[0];
+  if (docSnap.data().authUid && docSnap.data().authUid !== authUid) {
+    console.warn(`fetchTechnicianForAuthUser: Colaborador ${docSnap.id} já está vinculado a outro usuário.`);
+    return null;
+  }
+  const batch = writeBatch(db);
+  batch.update(docSnap.ref, { authUid });
+  batch.set(userDocRef(authUid), { technicianId: docSnap.id });
+  await batch.commit();
+  return toTechnician(docSnap.id, { ...docSnap.data(), authUid });
+}
+
+export async function createTechnician(data: TechnicianInput, technicianId: string = newTechnicianId()): Promise<string> {
+  const payload = omitUndefined(validateWithSchema(TechnicianSchema, data, "Colaborador"));
+  const batch = writeBatch(requireDb("createTechnician"));
+  batch.set(technicianDocRef(technicianId), payload);
+  auditInBatch(batch, { entityType: "technician", entityId: technicianId, action: "create", after: payload });
+  await batch.commit();
+  return technicianId;
+}
+
+export async function updateTechnician(technicianId: string, data: TechnicianInput): Promise<void> {
+  const payload = omitUndefined(validateWithSchema(TechnicianSchema, data, "Colaborador"));
+  const before = await getDoc(technicianDocRef(technicianId));
+  const batch = writeBatch(requireDb("updateTechnician"));
+  batch.update(technicianDocRef(technicianId), payload);
+  auditInBatch(batch, { entityType: "technician", entityId: technicianId, action: "update", before: before.data(), after: payload });
+  await batch.commit();
+}
+
+export async function deleteTechnician(technicianId: string): Promise<void> {
+  const before = await getDoc(technicianDocRef(technicianId));
+  const batch = writeBatch(requireDb("deleteTechnician"));
+  batch.delete(technicianDocRef(technicianId));
+  auditInBatch(batch, { entityType: "technician", entityId: technicianId, action: "delete", before: before.data() });
+  await batch.commit();
+}
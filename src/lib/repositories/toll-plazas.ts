@@ -0,0 +1,109 @@
+import { collection, doc, getDoc, getDocs, orderBy, query, writeBatch, type DocumentData } from "firebase/firestore";
+import type * as z from "zod";
+import type { TollCategory, TollPlaza } from "@/types";
+import { TollPlazaSchema, tollCategoryOptions } from "@/types";
+import { FIRESTORE_TOLL_PLAZA_COLLECTION_NAME } from "./collections";
+import { requireDb, toNullableNumber, validateWithSchema } from "./shared";
+import { auditInBatch } from "./audit";
+
+export type TollPlazaInput = z.input<typeof TollPlazaSchema>;
+
+// Each imported plaza takes two writes (set + audit); a batch holds 500.
+const MAX_PLAZAS_PER_BATCH = 200;
+
+export function toTollPlaza(id: string, data: DocumentData): TollPlaza {
+  const tariffs: TollPlaza["tariffs"] = {};
+  tollCategoryOptions.forEach(category => {
+    const tariff = toNullableNumber(data.tariffs?.[category]);
+    if (tariff !== null) tariffs[category] = tariff;
+  });
+  return {
+    id,
+    name: data.name || "Praça sem nome",
+    highway: data.highway || "",
+    latitude: Number(data.latitude) || 0,
+    longitude: Number(data.longitude) || 0,
+    oneWay: data.oneWay === true,
+    tariffs,
+  };
+}
+
+function tollPlazaDocRef(plazaId: string) {
+  return doc(requireDb("tollPlazaDocRef"), FIRESTORE_TOLL_PLAZA_COLLECTION_NAME, plazaId);
+}
+
+export async function fetchTollPlazas(): Promise<TollPlaza[]> {
+  const db = requireDb("fetchTollPlazas");
+  const q = query(collection(db, FIRESTORE_TOLL_PLAZA_COLLECTION_NAME), orderBy("highway", "asc"), orderBy("name", "asc"));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => toTollPlaza(docSnap.id, docSnap.data()));
+}
+
+// Categories without a tariff are left out of the map.
+function prepareTollPlazaForFirestore(data: TollPlazaInput) {
+  const validated = validateWithSchema(TollPlazaSchema, data, "Praça de pedágio");
+  const tariffs: Partial<Record<TollCategory, number>> = {};
+  tollCategoryOptions.forEach(category => {
+    const tariff = validated.tariffs[category];
+    if (typeof tariff === "number") tariffs[category] = tariff;
+  });
+  return { ...validated, name: validated.name.trim(), highway: validated.highway.trim().toUpperCase(), tariffs };
+}
+
+export async function createTollPlaza(data: TollPlazaInput): Promise<string> {
+  const plazaRef = doc(collection(requireDb("createTollPlaza"), FIRESTORE_TOLL_PLAZA_COLLECTION_NAME));
+  const payload = prepareTollPlazaForFirestore(data);
+  const batch = writeBatch(requireDb("createTollPlaza"));
+  batch.set(plazaRef, payload);
+  auditInBatch(batch, { entityType: "tollPlaza", entityId: plazaRef.id, action: "create", after: payload });
+  await batch.commit();
+  return plazaRef.id;
+}
+
+export async function updateTollPlaza(plazaId: string, data: TollPlazaInput): Promise<void> {
+  const payload = prepareTollPlazaForFirestore(data);
+  const before = await getDoc(tollPlazaDocRef(plazaId));
+  const batch = writeBatch(requireDb("updateTollPlaza"));
+  batch.set(tollPlazaDocRef(plazaId), payload);
+  auditInBatch(batch, { entityType: "tollPlaza", entityId: plazaId, action: "update", before: before.data(), after: payload });
+  await batch.commit();
+}
+
+export async function deleteTollPlaza(plazaId: string): Promise<void> {
+  const before = await getDoc(tollPlazaDocRef(plazaId));
+  const batch = writeBatch(requireDb("deleteTollPlaza"));
+  batch.delete(tollPlazaDocRef(plazaId));
+  auditInBatch(batch, { entityType: "tollPlaza", entityId: plazaId, action: "delete", before: before.data() });
+  await batch.commit();
+}
+
+// A plaza already in the table (same highway and name) gets the imported
+// coordinates and tariffs; the others are created. Returns how many of each.
+export async function importTollPlazas(plazas: TollPlazaInput[]): Promise<{ created: number; updated: number }> {
+  const db = requireDb("importTollPlazas");
+  const payloads = plazas.map(prepareTollPlazaForFirestore);
+  const existing = await fetchTollPlazas();
+  const keyOf = (plaza: { highway: string; name: string }) => `${plaza.highway.trim().toUpperCase()}|${plaza.name.trim().toLowerCase()}`;
+  const existingByKey = new Map(existing.map(plaza => [keyOf(plaza), plaza]));
+  let created = 0;
+  let updated = 0;
+
+  for (let start = 0; start < payloads.length; start += MAX_PLAZAS_PER_BATCH) {
+    const batch = writeBatch(db);
+    payloads.slice(start, start + MAX_PLAZAS_PER_BATCH).forEach(payload => {
+      const current = existingByKey.get(keyOf(payload));
+      const plazaRef = current ? tollPlazaDocRef(current.id) : doc(collection(db, FIRESTORE_TOLL_PLAZA_COLLECTION_NAME));
+      batch.set(plazaRef, payload);
+      auditInBatch(batch, {
+        entityType: "tollPlaza",
+        entityId: plazaRef.id,
+        action: current ? "update" : "create",
+        before: current ? { latitude: current.latitude, longitude: current.longitude, oneWay: current.oneWay, tariffs: current.tariffs } : undefined,
+        after: payload,
+      });
+      if (current) updated++; else created++;
+    });
+    await batch.commit();
+  }
+  return { created, updated };
+}
@@ -0,0 +1,126 @@
+import { arrayUnion, collection, doc, getDoc, getDocs, orderBy, query, writeBatch, type DocumentData } from "firebase/firestore";
+import type * as z from "zod";
+import type { FuelingRecord, Vehicle, VehicleMaintenanceRecord } from "@/types";
+import { FuelingRecordSchema, VehicleMaintenanceRecordSchema, VehicleSchema } from "@/types";
+import { FIRESTORE_VEHICLE_COLLECTION_NAME } from "./collections";
+import { omitUndefined, requireDb, toNullableNumber, toStringArrayOrNull, validateWithSchema } from "./shared";
+import { auditInBatch } from "./audit";
+
+export type VehicleInput = z.input<typeof VehicleSchema>;
+
+export function toVehicle(id: string, data: DocumentData): Vehicle {
+  return {
+    id,
+    model: data.model,
+    licensePlate: data.licensePlate,
+    kind: data.kind,
+    currentMileage: Number(data.currentMileage),
+    fuelConsumption: Number(data.fuelConsumption),
+    costPerKilometer: Number(data.costPerKilometer),
+    fipeValue: toNullableNumber(data.fipeValue),
+    year: toNullableNumber(data.year),
+    registrationInfo: data.registrationInfo,
+    status: data.status,
+    fuelingHistory: Array.isArray(data.fuelingHistory) ? data.fuelingHistory : [],
+    maintenanceHistory: Array.isArray(data.maintenanceHistory) ? data.maintenanceHistory : [],
+    nextMaintenanceType: data.nextMaintenanceType || null,
+    nextMaintenanceKm: toNullableNumber(data.nextMaintenanceKm),
+    nextMaintenanceDate: data.nextMaintenanceDate || null,
+    maintenanceNotes: data.maintenanceNotes || null,
+    imageUrls: toStringArrayOrNull(data.imageUrls),
+  };
+}
+
+export function vehicleDocRef(vehicleId: string) {
+  return doc(requireDb("vehicleDocRef"), FIRESTORE_VEHICLE_COLLECTION_NAME, vehicleId);
+}
+
+export function newVehicleId(): string {
+  return doc(collection(requireDb("newVehicleId"), FIRESTORE_VEHICLE_COLLECTION_NAME)).id;
+}
+
+export async function fetchVehicles(): Promise<Vehicle[]> {
+  const db = requireDb("fetchVehicles");
+  const q = query(collection(db, FIRESTORE_VEHICLE_COLLECTION_NAME), orderBy("model", "asc"), orderBy("licensePlate", "asc"));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => toVehicle(docSnap.id, docSnap.data()));
+}
+
+export async function fetchVehicleById(vehicleId: string): Promise<Vehicle | null> {
+  if (!vehicleId) return null;
+  const docSnap = await getDoc(vehicleDocRef(vehicleId));
+  return docSnap.exists() ? toVehicle(docSnap.id, docSnap.data()) : null;
+}
+
+function prepareVehicleForFirestore(data: VehicleInput) {
+  const validated = validateWithSchema(VehicleSchema, data, "Veículo");
+  return omitUndefined({
+    ...validated,
+    fuelingHistory: validated.fuelingHistory || [],
+    maintenanceHistory: validated.maintenanceHistory || [],
+    nextMaintenanceDate: validated.nextMaintenanceDate || null,
+    imageUrls: validated.imageUrls || [],
+  });
+}
+
+export async function createVehicle(data: VehicleInput, vehicleId: string = newVehicleId()): Promise<string> {
+  const payload = prepareVehicleForFirestore(data);
+  const batch = writeBatch(requireDb("createVehicle"));
+  batch.set(vehicleDocRef(vehicleId), payload);
+  auditInBatch(batch, { entityType: "vehicle", entityId: vehicleId, action: "create", after: payload });
+  await batch.commit();
+  return vehicleId;
+}
+
+export async function updateVehicle(vehicleId: string, data: VehicleInput): Promise<void> {
+  const payload = prepareVehicleForFirestore(data);
+  const before = await getDoc(vehicleDocRef(vehicleId));
+  const batch = writeBatch(requireDb("updateVehicle"));
+  batch.update(vehicleDocRef(vehicleId), payload);
+  auditInBatch(batch, { entityType: "vehicle", entityId: vehicleId, action: "update", before: before.data(), after: payload });
+  await batch.commit();
+}
+
+export async function deleteVehicle(vehicleId: string): Promise<void> {
+  const before = await getDoc(vehicleDocRef(vehicleId));
+  const batch = writeBatch(requireDb("deleteVehicle"));
+  batch.delete(vehicleDocRef(vehicleId));
+  auditInBatch(batch, { entityType: "vehicle", entityId: vehicleId, action: "delete", before: before.data() });
+  await batch.commit();
+}
+
+// Appends to the history array and bumps currentMileage when the record is the newest reading.
+// The history entry logs only the appended record, since arrayUnion never reads the array.
+export async function addVehicleFuelingRecord(vehicleId: string, record: FuelingRecord, currentMileage: number): Promise<void> {
+  const validated = validateWithSchema(FuelingRecordSchema, record, "Abastecimento");
+  const db = requireDb("addVehicleFuelingRecord");
+  const batch = writeBatch(db);
+  const vehicleRef = vehicleDocRef(vehicleId);
+  batch.update(vehicleRef, { fuelingHistory: arrayUnion(omitUndefined(validated)) });
+  if (validated.mileageAtFueling > currentMileage) {
+    batch.update(vehicleRef, { currentMileage: validated.mileageAtFueling });
+  }
+  auditInBatch(batch, {
+    entityType: "vehicle", entityId: vehicleId, action: "update",
+    before: { fuelingHistory: [], currentMileage },
+    after: { fuelingHistory: [omitUndefined(validated)], currentMileage: Math.max(currentMileage, validated.mileageAtFueling) },
+  });
+  await batch.commit();
+}
+
+export async function addVehicleMaintenanceRecord(vehicleId: string, record: VehicleMaintenanceRecord, currentMileage: number): Promise<void> {
+  const validated = validateWithSchema(VehicleMaintenanceRecordSchema, record, "Manutenção");
+  const db = requireDb("addVehicleMaintenanceRecord");
+  const batch = writeBatch(db);
+  const vehicleRef = vehicleDocRef(vehicleId);
+  batch.update(vehicleRef, { maintenanceHistory: arrayUnion(omitUndefined(validated)) });
+  if (validated.mileageAtMaintenance > currentMileage) {
+    batch.update(vehicleRef, { currentMileage: validated.mileageAtMaintenance });
+  }
+  auditInBatch(batch, {
+    entityType: "vehicle", entityId: vehicleId, action: "update",
+    before: { maintenanceHistory: [], currentMileage },
+    after: { maintenanceHistory: [omitUndefined(validated)], currentMileage: Math.max(currentMileage, validated.mileageAtMaintenance) },
+  });
+  await batch.commit();
+}
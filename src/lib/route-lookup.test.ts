@@ -0,0 +1,173 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { CachedRoute, Company, Customer } from "@/types";
+import type { CalculateDistanceOutput } from "@/ai/flows/calculate-distance-flow";
+import { fetchCachedRoute, saveCachedRoute, updateCompanyCoordinates, updateCustomerCoordinates } from "@/lib/repositories";
+import { calculateDistance } from "@/ai/flows/calculate-distance-flow";
+import { stubRoutingProvider } from "@/lib/routing/stub";
+import { lookupRoute, type RoutePlace } from "./route-lookup";
+
+vi.mock("@/ai/flows/calculate-distance-flow", () => ({ calculateDistance: vi.fn() }));
+vi.mock("@/lib/repositories", () => ({
+  fetchCachedRoute: vi.fn(),
+  saveCachedRoute: vi.fn(),
+  updateCompanyCoordinates: vi.fn(),
+  updateCustomerCoordinates: vi.fn(),
+}));
+
+const company = {
+  id: "goldmaq",
+  street: "Rua das Empilhadeiras",
+  number: "10",
+  city: "Jundiaí",
+  state: "SP",
+  cep: "13201-000",
+} as Company;
+
+const customer = {
+  id: "cliente-1",
+  name: "Cliente Teste Ltda",
+  street: "Av. Paulista",
+  number: "1000",
+  city: "São Paulo",
+  state: "SP",
+  cep: "01310-100",
+} as Customer;
+
+const origin: RoutePlace = { type: "company", company };
+const destination: RoutePlace = { type: "customer", customer };
+
+// The routing flow answered by the stub provider, reporting the provider it
+// is told to, so the lookup can be exercised without network access.
+const routeWith = (provider: CalculateDistanceOutput["provider"], status: CalculateDistanceOutput["status"] = "SUCCESS") =>
+  vi.mocked(calculateDistance).mockImplementation(async (input) => {
+    const route = await stubRoutingProvider.route(
+      { address: input.originAddress, coordinates: input.originCoordinates },
+      { address: input.destinationAddress, coordinates: input.destinationCoordinates },
+    );
+    if ("error" in route) throw new Error(route.error);
+    return {
+      distanceKm: route.distanceKm,
+      durationMinutes: route.durationMinutes,
+      routePolyline: route.polyline,
+      provider,
+      originCoordinates: route.originCoordinates,
+      destinationCoordinates: route.destinationCoordinates,
+      status,
+      googleMapsApiIndicstedTolls: route.indicatesTolls,
+    };
+  });
+
+// Cache writes are not awaited by the lookup.
+const flushWrites = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe("lookupRoute", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(fetchCachedRoute).mockResolvedValue(null);
+    vi.mocked(saveCachedRoute).mockResolvedValue(undefined);
+    vi.mocked(updateCompanyCoordinates).mockResolvedValue(true);
+    vi.mocked(updateCustomerCoordinates).mockResolvedValue(undefined);
+  });
+
+  it("answers a routed pair of addresses from the cache", async () => {
+    const cached: CachedRoute = {
+      id: "13201000-10_01310100-1000",
+      originKey: "13201000-10",
+      destinationKey: "01310100-1000",
+      provider: "osrm",
+      distanceKm: 58.4,
+      durationMinutes: 52,
+      routePolyline: null,
+      tollsIndicated: true,
+      estimatedTollCostByAI: 17.6,
+      calculatedAt: "2026-10-01T12:00:00.000Z",
+    };
+    vi.mocked(fetchCachedRoute).mockResolvedValue(cached);
+    const stored = { latitude: -23.56, longitude: -46.65, addressKey: "01310100-1000", provider: "osrm" as const };
+
+    const result = await lookupRoute(origin, { type: "customer", customer: { ...customer, coordinates: stored } });
+
+    expect(fetchCachedRoute).toHaveBeenCalledWith("13201000-10", "01310100-1000");
+    expect(calculateDistance).not.toHaveBeenCalled();
+    expect(result).toMatchObject({
+      distanceKm: 58.4,
+      durationMinutes: 52,
+      provider: "osrm",
+      status: "SUCCESS",
+      googleMapsApiIndicstedTolls: true,
+      estimatedTollCostByAI: 17.6,
+      originCoordinates: null,
+      destinationCoordinates: { latitude: -23.56, longitude: -46.65 },
+      fromCache: true,
+    });
+  });
+
+  it("calculates, caches and geocodes a pair not routed before", async () => {
+    routeWith("osrm");
+
+    const result = await lookupRoute(origin, destination);
+    await flushWrites();
+
+    expect(result).toMatchObject({ status: "SUCCESS", provider: "osrm", fromCache: false });
+    expect(calculateDistance).toHaveBeenCalledWith(expect.objectContaining({
+      originAddress: "Rua das Empilhadeiras, 10, Jundiaí, SP, 13201-000",
+      originCoordinates: null,
+    }));
+    expect(saveCachedRoute).toHaveBeenCalledWith(expect.objectContaining({
+      originKey: "13201000-10",
+      destinationKey: "01310100-1000",
+      provider: "osrm",
+      distanceKm: result.distanceKm,
+      tollsIndicated: false,
+    }));
+    expect(updateCompanyCoordinates).toHaveBeenCalledWith("goldmaq", { ...result.originCoordinates, addressKey: "13201000-10", provider: "osrm" });
+    expect(updateCustomerCoordinates).toHaveBeenCalledWith("cliente-1", { ...result.destinationCoordinates, addressKey: "01310100-1000", provider: "osrm" });
+  });
+
+  it("routes from coordinates already stored and does not store them again", async () => {
+    routeWith("osrm");
+    const stored = { latitude: -23.2, longitude: -46.9, addressKey: "13201000-10", provider: "osrm" as const };
+
+    await lookupRoute({ type: "company", company: { ...company, coordinates: stored } }, destination);
+    await flushWrites();
+
+    expect(calculateDistance).toHaveBeenCalledWith(expect.objectContaining({ originCoordinates: { latitude: -23.2, longitude: -46.9 } }));
+    expect(updateCompanyCoordinates).not.toHaveBeenCalled();
+    expect(updateCustomerCoordinates).toHaveBeenCalled();
+  });
+
+  it("keeps stub and simulated routes out of the cache", async () => {
+    routeWith("stub");
+    await lookupRoute(origin, destination);
+    routeWith("osrm", "SIMULATED");
+    await lookupRoute(origin, destination);
+    await flushWrites();
+
+    expect(saveCachedRoute).not.toHaveBeenCalled();
+    expect(updateCompanyCoordinates).not.toHaveBeenCalled();
+    expect(updateCustomerCoordinates).not.toHaveBeenCalled();
+  });
+
+  it("does not cache addresses without a full CEP", async () => {
+    routeWith("osrm");
+
+    await lookupRoute(origin, { type: "customer", customer: { ...customer, cep: "" } });
+    await flushWrites();
+
+    expect(fetchCachedRoute).not.toHaveBeenCalled();
+    expect(saveCachedRoute).not.toHaveBeenCalled();
+    expect(updateCustomerCoordinates).not.toHaveBeenCalled();
+    expect(updateCompanyCoordinates).toHaveBeenCalled();
+  });
+
+  it("calculates the route when the cache cannot be read", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.mocked(fetchCachedRoute).mockRejectedValue(new Error("unavailable"));
+    routeWith("osrm");
+
+    const result = await lookupRoute(origin, destination);
+
+    expect(result).toMatchObject({ status: "SUCCESS", fromCache: false });
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
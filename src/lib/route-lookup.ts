@@ -0,0 +1,130 @@
+import { calculateDistance, type CalculateDistanceOutput } from "@/ai/flows/calculate-distance-flow";
+import type { Company, Customer, GeoCoordinates, RoutingProviderName } from "@/types";
+import { fetchCachedRoute, saveCachedRoute, updateCompanyCoordinates, updateCustomerCoordinates } from "@/lib/repositories";
+import { getAddressKey, getStoredCoordinates, type GeoPoint } from "@/lib/routing";
+
+// Route between two registered addresses. A pair of addresses already routed
+// (same CEP + number on both ends) is answered from the route cache, so the
+// distance is instant and the same every time; otherwise the server flow asks
+// the configured routing provider and the result is cached. Coordinates the
+// provider geocoded are stored on the customer or company, so the next route
+// from or to that address skips geocoding.
+
+export type RoutePlace =
+  | { type: "company"; company: Company }
+  | { type: "customer"; customer: Customer };
+
+export type RouteLookupResult = CalculateDistanceOutput & { fromCache: boolean };
+
+export const formatRoutingAddress = (addressSource: Customer | Company | null | undefined): string => {
+  if (!addressSource) return "";
+  return [
+    addressSource.street,
+    addressSource.number,
+    addressSource.complement,
+    addressSource.neighborhood,
+    addressSource.city,
+    addressSource.state,
+    addressSource.cep,
+  ].filter(Boolean).join(", ");
+};
+
+const placeAddress = (place: RoutePlace) => place.type === "company" ? place.company : place.customer;
+
+async function storeCoordinates(place: RoutePlace, point: GeoPoint, provider: RoutingProviderName): Promise<void> {
+  const address = placeAddress(place);
+  const addressKey = getAddressKey(address);
+  if (!addressKey || getStoredCoordinates(address)) return;
+  const coordinates: GeoCoordinates = { latitude: point.latitude, longitude: point.longitude, addressKey, provider };
+  if (place.type === "company") {
+    await updateCompanyCoordinates(place.company.id, coordinates);
+  } else {
+    await updateCustomerCoordinates(place.customer.id, coordinates);
+  }
+}
+
+export async function lookupRoute(origin: RoutePlace, destination: RoutePlace): Promise<RouteLookupResult> {
+  const originAddress = placeAddress(origin);
+  const destinationAddress = placeAddress(destination);
+  const originKey = getAddressKey(originAddress);
+  const destinationKey = getAddressKey(destinationAddress);
+
+  if (originKey && destinationKey) {
+    try {
+      const cached = await fetchCachedRoute(originKey, destinationKey);
+      if (cached) {
+        return {
+          distanceKm: cached.distanceKm,
+          durationMinutes: cached.durationMinutes,
+          routePolyline: cached.routePolyline,
+          provider: cached.provider,
+          originCoordinates: getStoredCoordinates(originAddress),
+          destinationCoordinates: getStoredCoordinates(destinationAddress),
+          status: "SUCCESS",
+          estimatedTollCostByAI: cached.estimatedTollCostByAI,
+          googleMapsApiIndicstedTolls: cached.tollsIndicated,
+          fromCache: true,
+        };
+      }
+    } catch (e) {
+      console.warn("[RouteLookup] Route cache unavailable, calculating the route.", e);
+    }
+  }
+
+  const result = await calculateDistance({
+    originAddress: formatRoutingAddress(originAddress),
+    destinationAddress: formatRoutingAddress(destinationAddress),
+    originCoordinates: getStoredCoordinates(originAddress),
+    destinationCoordinates: getStoredCoordinates(destinationAddress),
+  });
+
+  // Simulated routes stay out of the cache and off the customer records.
+  if (result.status === "SUCCESS" && result.provider && result.provider !== "stub") {
+    const provider = result.provider;
+    const writes: Promise<void>[] = [];
+    if (originKey && destinationKey) {
+      writes.push(saveCachedRoute({
+        originKey,
+        destinationKey,
+        provider,
+        distanceKm: result.distanceKm,
+        durationMinutes: result.durationMinutes ?? null,
+        routePolyline: result.routePolyline ?? null,
+        tollsIndicated: result.googleMapsApiIndicstedTolls === true,
+        estimatedTollCostByAI: result.estimatedTollCostByAI ?? null,
+      }));
+    }
+    if (result.originCoordinates) writes.push(storeCoordinates(origin, result.originCoordinates, provider));
+    if (result.destinationCoordinates) writes.push(storeCoordinates(destination, result.destinationCoordinates, provider));
+    // Not awaited: the route is already known, and failing to remember it
+    // only costs a recalculation.
+    Promise.allSettled(writes).then(outcomes => outcomes.forEach(outcome => {
+      if (outcome.status === "rejected") console.warn("[RouteLookup] Could not store route data.", outcome.reason);
+    }));
+  }
+
+  return { ...result, fromCache: false };
+}
+
+// Routes the provider is asked for at once when building a matrix.
+const ROUTE_MATRIX_CONCURRENCY = 3;
+
+// Routes between every pair of places, for ordering a day's visits. Only one
+// direction of each pair is looked up and used both ways: the difference is
+// a few hundred meters in town and halves the calls to the provider.
+// `matrix[i][i]` is null.
+export async function lookupRouteMatrix(places: RoutePlace[]): Promise<(RouteLookupResult | null)[][]> {
+  const matrix: (RouteLookupResult | null)[][] = places.map(() => places.map(() => null));
+  const pairs = places.flatMap((_, i) => places.slice(i + 1).map((__, offset) => [i, i + 1 + offset] as const));
+  let next = 0;
+  const worker = async () => {
+    while (next < pairs.length) {
+      const [i, j] = pairs[next++];
+      const result = await lookupRoute(places[i], places[j]);
+      matrix[i][j] = result;
+      matrix[j][i] = result;
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(ROUTE_MATRIX_CONCURRENCY, pairs.length) }, worker));
+  return matrix;
+}
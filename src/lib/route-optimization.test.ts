@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import type { RouteMatrix, RouteStopWindow } from "./route-optimization";
+import { formatTimeOfDay, optimizeRoute, parseTimeOfDay, scheduleRoute } from "./route-optimization";
+
+// Points on a plane, driven at 1 km per minute; the first one is the company.
+const matrixFor = (points: [number, number][]): RouteMatrix => {
+  const distanceKm = points.map(([x1, y1]) => points.map(([x2, y2]) => Math.hypot(x2 - x1, y2 - y1)));
+  return { distanceKm, durationMinutes: distanceKm };
+};
+
+const noWindows = (stopCount: number): RouteStopWindow[] => Array.from({ length: stopCount }, () => ({ windowStart: null, windowEnd: null }));
+
+const permutations = (items: number[]): number[][] =>
+  items.length <= 1 ? [items] : items.flatMap((item, i) => permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest]));
+
+const options = { startMinutes: 8 * 60, serviceMinutes: 30 };
+
+describe("parseTimeOfDay", () => {
+  it.each([
+    ["08:30", 510],
+    ["8:05", 485],
+    ["00:00", 0],
+    ["23:59", 1439],
+  ])("reads %s as %i minutes", (value, minutes) => {
+    expect(parseTimeOfDay(value)).toBe(minutes);
+  });
+
+  it.each(["", null, undefined, "8h30", "08:3", "0830"])("has no time for %s", value => {
+    expect(parseTimeOfDay(value)).toBeNull();
+  });
+});
+
+describe("formatTimeOfDay", () => {
+  it.each([
+    [510, "08:30"],
+    [485.4, "08:05"],
+    [59.6, "01:00"],
+    [0, "00:00"],
+  ])("writes %d minutes as %s", (minutes, value) => {
+    expect(formatTimeOfDay(minutes)).toBe(value);
+  });
+});
+
+describe("scheduleRoute", () => {
+  const matrix = matrixFor([[0, 0], [10, 0], [20, 0]]);
+
+  it("waits for a window to open and counts arrivals after it closes", () => {
+    const windows = [
+      { windowStart: parseTimeOfDay("09:00"), windowEnd: parseTimeOfDay("10:00") },
+      { windowStart: null, windowEnd: parseTimeOfDay("09:30") },
+    ];
+    expect(scheduleRoute([1, 2], matrix, windows, options)).toEqual({
+      stops: [
+        { stopIndex: 1, legDistanceKm: 10, arrival: 490, departure: 570, waitMinutes: 50, lateMinutes: 0 },
+        { stopIndex: 2, legDistanceKm: 10, arrival: 580, departure: 610, waitMinutes: 0, lateMinutes: 10 },
+      ],
+      returnDistanceKm: 20,
+      returnArrival: 630,
+      totalDistanceKm: 40,
+      totalDrivingMinutes: 40,
+      totalLateMinutes: 10,
+    });
+  });
+
+  it("stays at the company without stops", () => {
+    expect(scheduleRoute([], matrix, [], options)).toMatchObject({ stops: [], returnArrival: 480, totalDistanceKm: 0 });
+  });
+});
+
+describe("optimizeRoute", () => {
+  const order = (plan: { stops: { stopIndex: number }[] }) => plan.stops.map(stop => stop.stopIndex);
+
+  it.each<[string, [number, number][]]>([
+    ["a cluster and a straggler", [[0, 0], [2, 9], [8, 1], [3, 3], [9, 8], [1, 5], [6, 6]]],
+    ["stops along a road", [[0, 0], [14, 1], [3, 0], [9, 1], [6, 0], [12, 0], [1, 1]]],
+    ["stops on both sides of the company", [[0, 0], [-5, 2], [4, 4], [-3, -6], [7, -1], [-8, -2], [2, -7]]],
+  ])("finds the shortest tour for %s", (_, points) => {
+    const matrix = matrixFor(points);
+    const windows = noWindows(points.length - 1);
+    const shortest = Math.min(
+      ...permutations(windows.map((_, i) => i + 1)).map(candidate => scheduleRoute(candidate, matrix, windows, options).totalDistanceKm),
+    );
+    expect(optimizeRoute(matrix, windows, options).totalDistanceKm).toBeCloseTo(shortest, 9);
+  });
+
+  it("untangles a tour that crosses itself", () => {
+    // Nearest-neighbour alone goes 1..5 in a zigzag and drives back from stop 5
+    // across the leg between stops 2 and 3; the uncrossed tour is a loop.
+    const matrix = matrixFor([[0, 0], [0, 1], [4, 1], [4, 0], [8, 0], [8, 1]]);
+    const plan = optimizeRoute(matrix, noWindows(5), options);
+    expect([[1, 2, 5, 4, 3], [3, 4, 5, 2, 1]]).toContainEqual(order(plan));
+    expect(plan.totalDistanceKm).toBeCloseTo(18, 9);
+  });
+
+  it("goes first to the farthest stop when its window closes first", () => {
+    const matrix = matrixFor([[0, 0], [10, 0], [20, 0], [30, 0]]);
+    const windows = [
+      { windowStart: null, windowEnd: null },
+      { windowStart: null, windowEnd: null },
+      { windowStart: null, windowEnd: parseTimeOfDay("08:30") },
+    ];
+    const plan = optimizeRoute(matrix, windows, options);
+    expect(order(plan)[0]).toBe(3);
+    expect(plan.totalLateMinutes).toBe(0);
+  });
+
+  it("follows the windows when they all open at different times", () => {
+    const matrix = matrixFor([[0, 0], [5, 0], [0, 5], [-5, 0]]);
+    const windows = [
+      { windowStart: parseTimeOfDay("11:00"), windowEnd: parseTimeOfDay("11:30") },
+      { windowStart: parseTimeOfDay("08:00"), windowEnd: parseTimeOfDay("08:30") },
+      { windowStart: parseTimeOfDay("09:30"), windowEnd: parseTimeOfDay("10:00") },
+    ];
+    const plan = optimizeRoute(matrix, windows, options);
+    expect(order(plan)).toEqual([2, 3, 1]);
+    expect(plan.totalLateMinutes).toBe(0);
+  });
+});
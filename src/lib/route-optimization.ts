@@ -0,0 +1,160 @@
+// Visit order for a technician's day: a tour that leaves the company, visits
+// every customer once and comes back (a travelling-salesman tour), respecting
+// each visit window where possible. Days have a handful of stops, so plain
+// heuristics do: nearest-neighbour and earliest-window tours as starting
+// points, then 2-opt and single-stop moves until nothing improves. Lateness
+// weighs far more than distance, so a longer tour that keeps the windows
+// always beats a shorter one that misses them.
+
+// Distances and driving times between every pair of points; index 0 is the
+// company and 1..n the stops. Need not be symmetric.
+export interface RouteMatrix {
+  distanceKm: number[][];
+  durationMinutes: number[][];
+}
+
+export interface RouteStopWindow {
+  windowStart: number | null; // Minutes since midnight
+  windowEnd: number | null;
+}
+
+export interface RoutePlanOptions {
+  startMinutes: number; // Leaving the company
+  serviceMinutes: number; // Time spent at each stop
+}
+
+export interface ScheduledStop {
+  stopIndex: number; // Matrix index, 1..n
+  legDistanceKm: number;
+  arrival: number; // Minutes since midnight
+  departure: number;
+  waitMinutes: number; // Arrived before the window opened
+  lateMinutes: number; // Arrived after the window closed
+}
+
+export interface RoutePlan {
+  stops: ScheduledStop[];
+  returnDistanceKm: number;
+  returnArrival: number;
+  totalDistanceKm: number;
+  totalDrivingMinutes: number;
+  totalLateMinutes: number;
+}
+
+// One minute late costs as much as this many extra kilometres.
+const LATE_PENALTY_KM_PER_MINUTE = 1000;
+const MAX_IMPROVEMENT_ROUNDS = 200;
+
+export function parseTimeOfDay(value: string | null | undefined): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value || "");
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+export function formatTimeOfDay(minutes: number): string {
+  const rounded = Math.round(minutes);
+  return `${String(Math.floor(rounded / 60)).padStart(2, "0")}:${String(rounded % 60).padStart(2, "0")}`;
+}
+
+// Times along the tour, given the visit order as matrix indexes (1..n).
+export function scheduleRoute(order: number[], matrix: RouteMatrix, windows: RouteStopWindow[], options: RoutePlanOptions): RoutePlan {
+  let time = options.startMinutes;
+  let previous = 0;
+  let totalDistanceKm = 0;
+  let totalDrivingMinutes = 0;
+  let totalLateMinutes = 0;
+  const stops = order.map(stopIndex => {
+    const legDistanceKm = matrix.distanceKm[previous][stopIndex];
+    const drivingMinutes = matrix.durationMinutes[previous][stopIndex];
+    totalDistanceKm += legDistanceKm;
+    totalDrivingMinutes += drivingMinutes;
+    const { windowStart, windowEnd } = windows[stopIndex - 1];
+    const arrival = time + drivingMinutes;
+    const waitMinutes = windowStart !== null && arrival < windowStart ? windowStart - arrival : 0;
+    const lateMinutes = windowEnd !== null && arrival > windowEnd ? arrival - windowEnd : 0;
+    totalLateMinutes += lateMinutes;
+    time = arrival + waitMinutes + options.serviceMinutes;
+    previous = stopIndex;
+    return { stopIndex, legDistanceKm, arrival, departure: time, waitMinutes, lateMinutes };
+  });
+  const returnDistanceKm = order.length > 0 ? matrix.distanceKm[previous][0] : 0;
+  const returnDrivingMinutes = order.length > 0 ? matrix.durationMinutes[previous][0] : 0;
+  return {
+    stops,
+    returnDistanceKm,
+    returnArrival: time + returnDrivingMinutes,
+    totalDistanceKm: totalDistanceKm + returnDistanceKm,
+    totalDrivingMinutes: totalDrivingMinutes + returnDrivingMinutes,
+    totalLateMinutes,
+  };
+}
+
+const planCost = (plan: RoutePlan) => plan.totalDistanceKm + plan.totalLateMinutes * LATE_PENALTY_KM_PER_MINUTE;
+
+function nearestNeighbourOrder(matrix: RouteMatrix, stopCount: number): number[] {
+  const remaining = new Set(Array.from({ length: stopCount }, (_, i) => i + 1));
+  const order: number[] = [];
+  let current = 0;
+  while (remaining.size > 0) {
+    let next = -1;
+    remaining.forEach(candidate => {
+      if (next === -1 || matrix.distanceKm[current][candidate] < matrix.distanceKm[current][next]) next = candidate;
+    });
+    order.push(next);
+    remaining.delete(next);
+    current = next;
+  }
+  return order;
+}
+
+// Stops without a window go after the ones that have one closing.
+function earliestWindowOrder(windows: RouteStopWindow[]): number[] {
+  return windows
+    .map((window, i) => ({ stopIndex: i + 1, closes: window.windowEnd ?? Number.POSITIVE_INFINITY, opens: window.windowStart ?? 0 }))
+    .sort((a, b) => a.closes - b.closes || a.opens - b.opens)
+    .map(entry => entry.stopIndex);
+}
+
+// 2-opt (reverse a stretch) and relocation (move one stop elsewhere), first
+// improvement, until a full round finds nothing better.
+function improveOrder(initial: number[], evaluate: (order: number[]) => number): number[] {
+  let best = initial;
+  let bestCost = evaluate(best);
+  for (let round = 0; round < MAX_IMPROVEMENT_ROUNDS; round++) {
+    let improved = false;
+    for (let i = 0; i < best.length - 1 && !improved; i++) {
+      for (let j = i + 1; j < best.length && !improved; j++) {
+        const reversed = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        const cost = evaluate(reversed);
+        if (cost < bestCost - 1e-9) {
+          best = reversed;
+          bestCost = cost;
+          improved = true;
+        }
+      }
+    }
+    for (let from = 0; from < best.length && !improved; from++) {
+      for (let to = 0; to < best.length && !improved; to++) {
+        if (from === to) continue;
+        const moved = [...best];
+        const [stop] = moved.splice(from, 1);
+        moved.splice(to, 0, stop);
+        const cost = evaluate(moved);
+        if (cost < bestCost - 1e-9) {
+          best = moved;
+          bestCost = cost;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return best;
+}
+
+export function optimizeRoute(matrix: RouteMatrix, windows: RouteStopWindow[], options: RoutePlanOptions): RoutePlan {
+  const evaluate = (order: number[]) => planCost(scheduleRoute(order, matrix, windows, options));
+  const candidates = [nearestNeighbourOrder(matrix, windows.length), earliestWindowOrder(windows)]
+    .map(order => improveOrder(order, evaluate));
+  const best = candidates.reduce((a, b) => (evaluate(b) < evaluate(a) ? b : a));
+  return scheduleRoute(best, matrix, windows, options);
+}
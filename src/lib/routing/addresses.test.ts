@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { getAddressKey, getRouteCacheId, getStoredCoordinates } from "./addresses";
+
+describe("getAddressKey", () => {
+  it("keys an address by its CEP digits and normalized number", () => {
+    expect(getAddressKey({ cep: "13201-000", number: "1.234 A" })).toBe("13201000-1234a");
+    expect(getAddressKey({ cep: "13201000", number: "1234a" })).toBe("13201000-1234a");
+  });
+
+  it("ignores accents and punctuation in the number", () => {
+    expect(getAddressKey({ cep: "01310-100", number: "Galpão 2" })).toBe("01310100-galpao2");
+  });
+
+  it("marks addresses without a number", () => {
+    expect(getAddressKey({ cep: "01310-100", number: "" })).toBe("01310100-sn");
+    expect(getAddressKey({ cep: "01310-100" })).toBe("01310100-sn");
+  });
+
+  it("has no key without a full CEP", () => {
+    expect(getAddressKey({ cep: "01310", number: "10" })).toBeNull();
+    expect(getAddressKey({ cep: null, number: "10" })).toBeNull();
+  });
+});
+
+describe("getRouteCacheId", () => {
+  it("keeps the direction of the route", () => {
+    expect(getRouteCacheId("13201000-10", "01310100-sn")).toBe("13201000-10_01310100-sn");
+    expect(getRouteCacheId("01310100-sn", "13201000-10")).not.toBe(getRouteCacheId("13201000-10", "01310100-sn"));
+  });
+});
+
+describe("getStoredCoordinates", () => {
+  const coordinates = { latitude: -23.19, longitude: -46.88, addressKey: "13201000-10", provider: "osrm" as const };
+
+  it("returns the coordinates geocoded for the current address", () => {
+    expect(getStoredCoordinates({ cep: "13201-000", number: "10", coordinates })).toEqual({ latitude: -23.19, longitude: -46.88 });
+  });
+
+  it("drops coordinates geocoded for an address that has since changed", () => {
+    expect(getStoredCoordinates({ cep: "13201-000", number: "12", coordinates })).toBeNull();
+    expect(getStoredCoordinates({ cep: "", number: "10", coordinates })).toBeNull();
+  });
+
+  it("returns null when nothing was geocoded", () => {
+    expect(getStoredCoordinates({ cep: "13201-000", number: "10", coordinates: null })).toBeNull();
+  });
+});
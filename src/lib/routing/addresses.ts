@@ -0,0 +1,27 @@
+import type { GeoCoordinates } from "@/types";
+import type { GeoPoint } from "./types";
+
+interface KeyedAddress {
+  cep?: string | null;
+  number?: string | null;
+  coordinates?: GeoCoordinates | null;
+}
+
+// Routes and coordinates are keyed by CEP + street number, so the same
+// building gets the same key however the street name was typed. Addresses
+// without a full CEP have no key and are never cached.
+export function getAddressKey(address: KeyedAddress): string | null {
+  const cep = (address.cep || "").replace(/\D/g, "");
+  if (cep.length !== 8) return null;
+  const number = (address.number || "").normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/[^a-z0-9]/g, "");
+  return `${cep}-${number || "sn"}`;
+}
+
+export const getRouteCacheId = (originKey: string, destinationKey: string) => `${originKey}_${destinationKey}`;
+
+// Stored coordinates, unless the address changed since they were geocoded.
+export function getStoredCoordinates(address: KeyedAddress): GeoPoint | null {
+  const key = getAddressKey(address);
+  if (!key || !address.coordinates || address.coordinates.addressKey !== key) return null;
+  return { latitude: address.coordinates.latitude, longitude: address.coordinates.longitude };
+}
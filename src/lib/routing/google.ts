@@ -0,0 +1,66 @@
+import type { GeoPoint, ProviderRoute, RouteEndpoint, RoutingFailure, RoutingProvider } from "./types";
+
+const toGoogleLocation = (endpoint: RouteEndpoint) =>
+  endpoint.coordinates ? `${endpoint.coordinates.latitude},${endpoint.coordinates.longitude}` : endpoint.address;
+
+const toGeoPoint = (location: { lat?: number; lng?: number } | undefined): GeoPoint | null =>
+  typeof location?.lat === "number" && typeof location?.lng === "number" ? { latitude: location.lat, longitude: location.lng } : null;
+
+async function fetchRouteFromGoogleMaps(origin: RouteEndpoint, destination: RouteEndpoint): Promise<ProviderRoute | RoutingFailure> {
+  console.log(`[Routing/GoogleMaps] Fetching route. Origin: "${toGoogleLocation(origin)}", Destination: "${toGoogleLocation(destination)}"`);
+  const apiKey = process.env.GOOGLE_MAPS_API_KEY;
+  if (!apiKey) {
+    console.error("[Routing/GoogleMaps] Google API Key for Maps is missing from environment variables (expected GOOGLE_MAPS_API_KEY).");
+    return { error: "Google Maps API Key (GOOGLE_MAPS_API_KEY) is not configured.", status: 'ERROR_GOOGLE_API_KEY_MISSING' };
+  }
+
+  const url = `https://maps.googleapis.com/maps/api/directions/json?origin=${encodeURIComponent(toGoogleLocation(origin))}&destination=${encodeURIComponent(toGoogleLocation(destination))}&key=${apiKey}&language=pt-BR&units=metric`;
+
+  try {
+    const response = await fetch(url);
+    const data = await response.json();
+
+    if (data.status !== 'OK' || !data.routes || data.routes.length === 0) {
+      console.warn(`[Routing/GoogleMaps] API error or no route found. Status: ${data.status}, Message: ${data.error_message || 'No routes found'}`);
+      return { error: data.error_message || `No route found between ${origin.address} and ${destination.address}. Google Status: ${data.status}`, status: 'ERROR_NO_ROUTE_FOUND' };
+    }
+
+    const route = data.routes[0];
+    const leg = route.legs[0];
+
+    if (!leg.distance || !leg.duration) {
+      console.warn("[Routing/GoogleMaps] API response missing distance or duration.", leg);
+      return { error: "Incomplete route information from Google Maps API.", status: 'ERROR_GOOGLE_API_FAILED' };
+    }
+
+    let indicatesTolls = false;
+    if (route.warnings && route.warnings.some((w: string) => w.toLowerCase().includes("pedágio") || w.toLowerCase().includes("toll"))) {
+      indicatesTolls = true;
+    }
+    if (leg.tolls_info || leg.tolls) { // leg.tolls é uma verificação adicional para algumas respostas de API
+      indicatesTolls = true;
+    }
+    if (route.summary && (route.summary.toLowerCase().includes("toll") || route.summary.toLowerCase().includes("pedágio"))) {
+      indicatesTolls = true;
+    }
+
+    const result: ProviderRoute = {
+      distanceKm: parseFloat((leg.distance.value / 1000).toFixed(1)),
+      durationMinutes: Math.round(leg.duration.value / 60),
+      polyline: route.overview_polyline?.points || null,
+      indicatesTolls,
+      originCoordinates: origin.coordinates ?? toGeoPoint(leg.start_location),
+      destinationCoordinates: destination.coordinates ?? toGeoPoint(leg.end_location),
+    };
+    console.log(`[Routing/GoogleMaps] Route found: Distance ${result.distanceKm} km, Duration ${leg.duration.text}, Google Indicates Tolls: ${indicatesTolls}`);
+    return result;
+  } catch (error: any) {
+    console.error("[Routing/GoogleMaps] Error fetching route:", error);
+    return { error: `Failed to fetch route from Google Maps: ${error.message}`, status: 'ERROR_GOOGLE_API_FAILED' };
+  }
+}
+
+export const googleRoutingProvider: RoutingProvider = {
+  name: "google",
+  route: fetchRouteFromGoogleMaps,
+};
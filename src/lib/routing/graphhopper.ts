@@ -0,0 +1,50 @@
+import type { ProviderRoute, RouteEndpoint, RoutingFailure, RoutingProvider } from "./types";
+import { resolveEndpoints } from "./nominatim";
+
+// GraphHopper, self-hosted or the hosted API. GRAPHHOPPER_URL defaults to the
+// hosted API, which needs GRAPHHOPPER_API_KEY; a self-hosted server usually
+// needs no key.
+const DEFAULT_GRAPHHOPPER_URL = "https://graphhopper.com/api/1";
+
+async function fetchRouteFromGraphHopper(origin: RouteEndpoint, destination: RouteEndpoint): Promise<ProviderRoute | RoutingFailure> {
+  const baseUrl = (process.env.GRAPHHOPPER_URL || DEFAULT_GRAPHHOPPER_URL).replace(/\/$/, "");
+  const apiKey = process.env.GRAPHHOPPER_API_KEY;
+  if (!process.env.GRAPHHOPPER_URL && !apiKey) {
+    return { error: "GRAPHHOPPER_API_KEY is not configured.", status: 'ERROR_ROUTING_NOT_CONFIGURED' };
+  }
+  const endpoints = await resolveEndpoints(origin, destination);
+  if ('error' in endpoints) return endpoints;
+  const [from, to] = endpoints;
+
+  const params = new URLSearchParams({ profile: "car", locale: "pt_BR", points_encoded: "true", details: "toll" });
+  params.append("point", `${from.latitude},${from.longitude}`);
+  params.append("point", `${to.latitude},${to.longitude}`);
+  if (apiKey) params.set("key", apiKey);
+  try {
+    const response = await fetch(`${baseUrl}/route?${params.toString()}`);
+    const data = await response.json();
+    if (!response.ok || !data.paths?.length) {
+      console.warn(`[Routing/GraphHopper] No route found. Status: ${response.status}, Message: ${data.message || 'No paths found'}`);
+      return { error: data.message || `No route found between ${origin.address} and ${destination.address}.`, status: 'ERROR_NO_ROUTE_FOUND' };
+    }
+    const path = data.paths[0];
+    // details.toll is a list of [fromIndex, toIndex, "no" | "all" | "hgv" | "missing"].
+    const indicatesTolls = (path.details?.toll || []).some((detail: [number, number, string]) => detail[2] === "all" || detail[2] === "hgv");
+    return {
+      distanceKm: parseFloat((path.distance / 1000).toFixed(1)),
+      durationMinutes: Math.round(path.time / 60000),
+      polyline: typeof path.points === "string" ? path.points : null,
+      indicatesTolls,
+      originCoordinates: from,
+      destinationCoordinates: to,
+    };
+  } catch (error: any) {
+    console.error("[Routing/GraphHopper] Error fetching route:", error);
+    return { error: `Failed to fetch route from GraphHopper: ${error.message}`, status: 'ERROR_ROUTING_FAILED' };
+  }
+}
+
+export const graphHopperRoutingProvider: RoutingProvider = {
+  name: "graphhopper",
+  route: fetchRouteFromGraphHopper,
+};
@@ -0,0 +1,37 @@
+import type { GeoPoint, RouteEndpoint, RoutingFailure } from "./types";
+
+// OSRM and a self-hosted GraphHopper only route between coordinates, so
+// addresses are geocoded with Nominatim (OpenStreetMap). NOMINATIM_URL points
+// to a self-hosted instance; the public one allows one request per second.
+const DEFAULT_NOMINATIM_URL = "https://nominatim.openstreetmap.org";
+
+export async function geocodeWithNominatim(address: string): Promise<GeoPoint | RoutingFailure> {
+  const baseUrl = (process.env.NOMINATIM_URL || DEFAULT_NOMINATIM_URL).replace(/\/$/, "");
+  const url = `${baseUrl}/search?format=jsonv2&limit=1&countrycodes=br&q=${encodeURIComponent(address)}`;
+  try {
+    const response = await fetch(url, { headers: { "User-Agent": "goldmaq-control/1.0", "Accept-Language": "pt-BR" } });
+    if (!response.ok) {
+      return { error: `Nominatim respondeu ${response.status}.`, status: 'ERROR_GEOCODING_FAILED' };
+    }
+    const results = await response.json();
+    const first = Array.isArray(results) ? results[0] : null;
+    const latitude = Number(first?.lat);
+    const longitude = Number(first?.lon);
+    if (!first || !Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+      return { error: `Endereço não encontrado: ${address}`, status: 'ERROR_GEOCODING_FAILED' };
+    }
+    return { latitude, longitude };
+  } catch (error: any) {
+    console.error("[Routing/Nominatim] Error geocoding address:", error);
+    return { error: `Failed to geocode address: ${error.message}`, status: 'ERROR_GEOCODING_FAILED' };
+  }
+}
+
+// Both endpoints as coordinates, geocoding the ones that came without them.
+export async function resolveEndpoints(origin: RouteEndpoint, destination: RouteEndpoint): Promise<[GeoPoint, GeoPoint] | RoutingFailure> {
+  const originPoint = origin.coordinates ?? await geocodeWithNominatim(origin.address);
+  if ('error' in originPoint) return originPoint;
+  const destinationPoint = destination.coordinates ?? await geocodeWithNominatim(destination.address);
+  if ('error' in destinationPoint) return destinationPoint;
+  return [originPoint, destinationPoint];
+}
@@ -0,0 +1,46 @@
+import type { ProviderRoute, RouteEndpoint, RoutingFailure, RoutingProvider } from "./types";
+import { resolveEndpoints } from "./nominatim";
+
+// Self-hosted OSRM (https://project-osrm.org), e.g. with the Brazil extract
+// from Geofabrik. OSRM_URL is the server root, such as http://osrm:5000.
+
+async function fetchRouteFromOsrm(origin: RouteEndpoint, destination: RouteEndpoint): Promise<ProviderRoute | RoutingFailure> {
+  const baseUrl = process.env.OSRM_URL?.replace(/\/$/, "");
+  if (!baseUrl) {
+    return { error: "OSRM_URL is not configured.", status: 'ERROR_ROUTING_NOT_CONFIGURED' };
+  }
+  const endpoints = await resolveEndpoints(origin, destination);
+  if ('error' in endpoints) return endpoints;
+  const [from, to] = endpoints;
+
+  const url = `${baseUrl}/route/v1/driving/${from.longitude},${from.latitude};${to.longitude},${to.latitude}?overview=full&geometries=polyline&steps=true`;
+  try {
+    const response = await fetch(url);
+    const data = await response.json();
+    if (data.code !== "Ok" || !data.routes?.length) {
+      console.warn(`[Routing/OSRM] No route found. Code: ${data.code}, Message: ${data.message || 'No routes found'}`);
+      return { error: data.message || `No route found between ${origin.address} and ${destination.address}.`, status: 'ERROR_NO_ROUTE_FOUND' };
+    }
+    const route = data.routes[0];
+    // Road classes come with each intersection when steps are requested.
+    const indicatesTolls = (route.legs || []).some((leg: any) => (leg.steps || []).some((step: any) =>
+      (step.intersections || []).some((intersection: any) => intersection.classes?.includes("toll"))
+    ));
+    return {
+      distanceKm: parseFloat((route.distance / 1000).toFixed(1)),
+      durationMinutes: Math.round(route.duration / 60),
+      polyline: typeof route.geometry === "string" ? route.geometry : null,
+      indicatesTolls,
+      originCoordinates: from,
+      destinationCoordinates: to,
+    };
+  } catch (error: any) {
+    console.error("[Routing/OSRM] Error fetching route:", error);
+    return { error: `Failed to fetch route from OSRM: ${error.message}`, status: 'ERROR_ROUTING_FAILED' };
+  }
+}
+
+export const osrmRoutingProvider: RoutingProvider = {
+  name: "osrm",
+  route: fetchRouteFromOsrm,
+};
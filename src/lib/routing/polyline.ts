@@ -0,0 +1,51 @@
+import type { LatLng } from "./types";
+
+// Google's encoded polyline format, precision 5 (Directions API
+// `overview_polyline.points`). OSRM and GraphHopper return the same encoding.
+
+export function decodePolyline(encoded: string): LatLng[] {
+  const points: LatLng[] = [];
+  let index = 0;
+  let latitude = 0;
+  let longitude = 0;
+  const nextValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20 && index < encoded.length);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+  while (index < encoded.length) {
+    latitude += nextValue();
+    longitude += nextValue();
+    points.push([latitude / 1e5, longitude / 1e5]);
+  }
+  return points;
+}
+
+export function encodePolyline(points: LatLng[]): string {
+  let encoded = "";
+  let previousLatitude = 0;
+  let previousLongitude = 0;
+  const encodeValue = (value: number) => {
+    let remaining = value < 0 ? ~(value << 1) : value << 1;
+    while (remaining >= 0x20) {
+      encoded += String.fromCharCode((0x20 | (remaining & 0x1f)) + 63);
+      remaining >>= 5;
+    }
+    encoded += String.fromCharCode(remaining + 63);
+  };
+  points.forEach(([lat, lng]) => {
+    const latitude = Math.round(lat * 1e5);
+    const longitude = Math.round(lng * 1e5);
+    encodeValue(latitude - previousLatitude);
+    encodeValue(longitude - previousLongitude);
+    previousLatitude = latitude;
+    previousLongitude = longitude;
+  });
+  return encoded;
+}
@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getRoutingProvider } from "./providers";
+import { stubGeocode, stubRoutingProvider } from "./stub";
+
+describe("getRoutingProvider", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("uses the provider named in ROUTING_PROVIDER", () => {
+    vi.stubEnv("ROUTING_PROVIDER", "osrm");
+    vi.stubEnv("GOOGLE_MAPS_API_KEY", "chave");
+    expect(getRoutingProvider().name).toBe("osrm");
+    vi.stubEnv("ROUTING_PROVIDER", " GraphHopper ");
+    expect(getRoutingProvider().name).toBe("graphhopper");
+  });
+
+  it("falls back to Google when its key is set", () => {
+    vi.stubEnv("ROUTING_PROVIDER", "");
+    vi.stubEnv("GOOGLE_MAPS_API_KEY", "chave");
+    expect(getRoutingProvider().name).toBe("google");
+  });
+
+  it("falls back to the stub without any configuration", () => {
+    vi.stubEnv("ROUTING_PROVIDER", "");
+    vi.stubEnv("GOOGLE_MAPS_API_KEY", "");
+    expect(getRoutingProvider()).toBe(stubRoutingProvider);
+  });
+
+  it("warns about an unknown provider and falls back", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubEnv("ROUTING_PROVIDER", "waze");
+    vi.stubEnv("GOOGLE_MAPS_API_KEY", "");
+    expect(getRoutingProvider().name).toBe("stub");
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('"waze"'));
+  });
+});
+
+describe("stubRoutingProvider", () => {
+  const origin = { address: "Rua das Empilhadeiras, 10, Jundiaí, SP, 13201-000" };
+  const destination = { address: "Av. Paulista, 1000, São Paulo, SP, 01310-100" };
+
+  it("gives the same route for the same addresses", async () => {
+    const first = await stubRoutingProvider.route(origin, destination);
+    const second = await stubRoutingProvider.route({ address: `  ${origin.address.toUpperCase()} ` }, destination);
+    expect(first).toEqual(second);
+    expect(first).toMatchObject({ indicatesTolls: false });
+  });
+
+  it("uses the coordinates it is given instead of geocoding", async () => {
+    const coordinates = { latitude: -23.5, longitude: -46.6 };
+    const route = await stubRoutingProvider.route({ ...origin, coordinates }, destination);
+    expect(route).toMatchObject({ originCoordinates: coordinates, destinationCoordinates: stubGeocode(destination.address) });
+  });
+
+  it("never reports less than a kilometer", async () => {
+    const route = await stubRoutingProvider.route(origin, origin);
+    expect(route).toMatchObject({ distanceKm: 1 });
+  });
+});
@@ -0,0 +1,29 @@
+import type { RoutingProviderName } from "@/types";
+import { routingProviderOptions } from "@/types";
+import type { RoutingProvider } from "./types";
+import { googleRoutingProvider } from "./google";
+import { osrmRoutingProvider } from "./osrm";
+import { graphHopperRoutingProvider } from "./graphhopper";
+import { stubRoutingProvider } from "./stub";
+
+// Server side only: providers read their URLs and keys from the environment.
+// ROUTING_PROVIDER picks one; without it, Google is used when its key is set
+// and the deterministic stub otherwise.
+
+const providers: Record<RoutingProviderName, RoutingProvider> = {
+  google: googleRoutingProvider,
+  osrm: osrmRoutingProvider,
+  graphhopper: graphHopperRoutingProvider,
+  stub: stubRoutingProvider,
+};
+
+export function getRoutingProvider(): RoutingProvider {
+  const configured = process.env.ROUTING_PROVIDER?.trim().toLowerCase();
+  if (configured) {
+    if ((routingProviderOptions as readonly string[]).includes(configured)) {
+      return providers[configured as RoutingProviderName];
+    }
+    console.warn(`[Routing] Unknown ROUTING_PROVIDER "${configured}". Expected one of: ${routingProviderOptions.join(", ")}.`);
+  }
+  return process.env.GOOGLE_MAPS_API_KEY ? googleRoutingProvider : stubRoutingProvider;
+}
@@ -0,0 +1,60 @@
+import { AVERAGE_TRAVEL_SPEED_KMH } from "@/lib/trip-cost";
+import type { GeoPoint, ProviderRoute, RouteEndpoint, RoutingProvider } from "./types";
+import { encodePolyline } from "./polyline";
+
+// Deterministic provider for development and tests: no network, and the same
+// addresses always give the same route. Addresses land around Jundiaí at a
+// position derived from their text; the road distance is the straight line
+// plus a fixed detour factor.
+
+const STUB_CENTER: GeoPoint = { latitude: -23.19, longitude: -46.88 };
+const STUB_SPREAD_DEGREES = 0.75;
+const ROAD_DETOUR_FACTOR = 1.3;
+
+// FNV-1a, 32 bits.
+function hashText(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+export function stubGeocode(address: string): GeoPoint {
+  const normalized = address.toLowerCase().replace(/\s+/g, " ").trim();
+  const hash = hashText(normalized);
+  const toOffset = (bits: number) => ((bits & 0xffff) / 0xffff - 0.5) * 2 * STUB_SPREAD_DEGREES;
+  return {
+    latitude: parseFloat((STUB_CENTER.latitude + toOffset(hash)).toFixed(5)),
+    longitude: parseFloat((STUB_CENTER.longitude + toOffset(hash >>> 16)).toFixed(5)),
+  };
+}
+
+function straightLineKm(from: GeoPoint, to: GeoPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const deltaLatitude = toRadians(to.latitude - from.latitude);
+  const deltaLongitude = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(deltaLatitude / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(deltaLongitude / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+async function stubRoute(origin: RouteEndpoint, destination: RouteEndpoint): Promise<ProviderRoute> {
+  const from = origin.coordinates ?? stubGeocode(origin.address);
+  const to = destination.coordinates ?? stubGeocode(destination.address);
+  const distanceKm = parseFloat(Math.max(straightLineKm(from, to) * ROAD_DETOUR_FACTOR, 1).toFixed(1));
+  return {
+    distanceKm,
+    durationMinutes: Math.round((distanceKm / AVERAGE_TRAVEL_SPEED_KMH) * 60),
+    polyline: encodePolyline([[from.latitude, from.longitude], [to.latitude, to.longitude]]),
+    indicatesTolls: false,
+    originCoordinates: from,
+    destinationCoordinates: to,
+  };
+}
+
+export const stubRoutingProvider: RoutingProvider = {
+  name: "stub",
+  route: stubRoute,
+};
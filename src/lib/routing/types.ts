@@ -0,0 +1,41 @@
+import type { RoutingProviderName } from "@/types";
+
+export type LatLng = [latitude: number, longitude: number];
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+// Providers geocode the address themselves when no coordinates are given.
+export interface RouteEndpoint {
+  address: string;
+  coordinates?: GeoPoint | null;
+}
+
+export interface ProviderRoute {
+  distanceKm: number; // One way
+  durationMinutes: number | null;
+  polyline: string | null; // Encoded, precision 5
+  indicatesTolls: boolean;
+  originCoordinates: GeoPoint | null;
+  destinationCoordinates: GeoPoint | null;
+}
+
+export type RoutingFailureStatus =
+  | 'ERROR_GOOGLE_API_FAILED'
+  | 'ERROR_GOOGLE_API_KEY_MISSING'
+  | 'ERROR_NO_ROUTE_FOUND'
+  | 'ERROR_ROUTING_NOT_CONFIGURED'
+  | 'ERROR_ROUTING_FAILED'
+  | 'ERROR_GEOCODING_FAILED';
+
+export interface RoutingFailure {
+  error: string;
+  status: RoutingFailureStatus;
+}
+
+export interface RoutingProvider {
+  name: RoutingProviderName;
+  route(origin: RouteEndpoint, destination: RouteEndpoint): Promise<ProviderRoute | RoutingFailure>;
+}
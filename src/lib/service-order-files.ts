@@ -0,0 +1,60 @@
+import { ref as storageRef, uploadBytes, uploadString, getDownloadURL, getBlob, deleteObject } from "firebase/storage";
+import { storage } from "@/lib/firebase";
+
+// Storage side of service orders: photos/documents attached to the order and
+// the customer's signature. Used by the office page and the field mode queue.
+
+export const MAX_SERVICE_ORDER_FILES = 5;
+
+export async function uploadServiceOrderFile(
+  file: File,
+  orderId: string
+): Promise<string> {
+  if (!storage) {
+    console.error("uploadServiceOrderFile: Firebase Storage is not available.");
+    throw new Error("Firebase Storage is not available");
+  }
+  const filePath = `service_order_media/${orderId}/${Date.now()}-${file.name.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
+  const fileStorageRef = storageRef(storage, filePath);
+  await uploadBytes(fileStorageRef, file);
+  return getDownloadURL(fileStorageRef);
+}
+
+// The customer's signature, drawn on the conclusion dialog (PNG data URL).
+export async function uploadServiceOrderSignature(dataUrl: string, orderId: string): Promise<string> {
+  if (!storage) {
+    throw new Error("Firebase Storage is not available");
+  }
+  const signatureRef = storageRef(storage, `service_order_signatures/${orderId}/${Date.now()}.png`);
+  await uploadString(signatureRef, dataUrl, "data_url");
+  return getDownloadURL(signatureRef);
+}
+
+// jsPDF needs the image bytes, not its URL.
+export async function loadSignatureImage(imageUrl: string): Promise<string> {
+  if (!storage) throw new Error("Firebase Storage is not available");
+  const blob = await getBlob(storageRef(storage, imageUrl));
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export async function deleteServiceOrderFileFromStorage(fileUrl?: string | null) {
+  if (fileUrl) {
+    if (!storage) {
+      console.warn("deleteServiceOrderFileFromStorage: Firebase Storage is not available. Skipping deletion.");
+      return;
+    }
+    try {
+      const gcsPath = new URL(fileUrl).pathname.split('/o/')[1].split('?')[0];
+      const decodedPath = decodeURIComponent(gcsPath);
+      const fileStorageRef = storageRef(storage, decodedPath);
+      await deleteObject(fileStorageRef);
+    } catch (e) {
+      console.warn(`[DELETE SO FILE] Failed to delete file from storage: ${fileUrl}`, e);
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import type { Budget, PartsRequisition, ServiceOrder, ServiceOrderPhaseType } from "@/types";
+
+// Service order life cycle. Each phase lists the phases it may move to; the
+// requirements of the target phase are checked against the order as it will
+// be saved, plus the budgets and parts requisitions linked to it. The writes
+// that go with a phase change live in `src/lib/repositories/service-orders.ts`.
+
+export const serviceOrderPhaseTransitions: Record<ServiceOrderPhaseType, readonly ServiceOrderPhaseType[]> = {
+  "Aguardando Avaliação Técnica": ["Avaliado, Aguardando Autorização", "Autorizado, Aguardando Peça", "Em Execução", "Concluída", "Cancelada"],
+  "Avaliado, Aguardando Autorização": ["Aguardando Avaliação Técnica", "Autorizado, Aguardando Peça", "Em Execução", "Cancelada"],
+  "Autorizado, Aguardando Peça": ["Em Execução", "Cancelada"],
+  "Em Execução": ["Autorizado, Aguardando Peça", "Concluída", "Cancelada"],
+  "Concluída": [],
+  "Cancelada": [],
+};
+
+// New orders start waiting for evaluation, or already in execution for work
+// done on the spot.
+export const initialServiceOrderPhases: readonly ServiceOrderPhaseType[] = ["Aguardando Avaliação Técnica", "Em Execução"];
+
+// Phases whose checks or side effects read the order's budgets.
+const budgetLinkedPhases: readonly ServiceOrderPhaseType[] = ["Avaliado, Aguardando Autorização", "Autorizado, Aguardando Peça", "Cancelada"];
+
+export const phaseNeedsBudgets = (phase: ServiceOrderPhaseType): boolean => budgetLinkedPhases.includes(phase);
+
+export const phaseNeedsPartsRequisitions = (phase: ServiceOrderPhaseType): boolean => phase === "Concluída";
+
+export interface ServiceOrderPhaseContext {
+  budgets: Budget[];
+  partsRequisitions: PartsRequisition[];
+}
+
+export const isFinalServiceOrderPhase = (phase: ServiceOrderPhaseType): boolean =>
+  serviceOrderPhaseTransitions[phase].length === 0;
+
+export const canTransitionServiceOrderPhase = (from: ServiceOrderPhaseType, to: ServiceOrderPhaseType): boolean =>
+  from === to || serviceOrderPhaseTransitions[from].includes(to);
+
+// Phases offered by the edit form: the current one and where it can go.
+export const getSelectableServiceOrderPhases = (current: ServiceOrderPhaseType): ServiceOrderPhaseType[] =>
+  [current, ...serviceOrderPhaseTransitions[current]];
+
+// A part still to be approved, bought or handed to the technician.
+export const isPendingRequisitionItem = (status: string): boolean => status !== "Entregue" && status !== "Recusado";
+
+export const getPendingPartsRequisitions = (requisitions: PartsRequisition[]): PartsRequisition[] =>
+  requisitions.filter(req => req.status !== "Cancelada" && req.items.some(item => isPendingRequisitionItem(item.status)));
+
+// Budgets that still await the customer's answer.
+export const getOpenBudgets = (budgets: Budget[]): Budget[] =>
+  budgets.filter(budget => budget.status === "Pendente" || budget.status === "Enviado");
+
+type PhaseRequirement = (next: ServiceOrder, current: ServiceOrder, context: ServiceOrderPhaseContext) => string | null;
+
+const phaseRequirements: Partial<Record<ServiceOrderPhaseType, PhaseRequirement[]>> = {
+  "Avaliado, Aguardando Autorização": [
+    (_, __, { budgets }) => budgets.some(budget => budget.status !== "Cancelado" && budget.status !== "Recusado")
+      ? null : "Crie o orçamento da OS antes de enviá-la para autorização.",
+  ],
+  "Autorizado, Aguardando Peça": [
+    // Going back from execution to wait for a part needs no new authorization.
+    (_, current, { budgets }) => current.phase === "Em Execução" || budgets.some(budget => budget.status === "Aprovado")
+      ? null : "A OS só é autorizada com um orçamento aprovado.",
+  ],
+  "Em Execução": [
+    (order) => order.technicianId ? null : "Atribua um técnico antes de iniciar a execução.",
+  ],
+  "Concluída": [
+    (order) => order.technicianId ? null : "Atribua o técnico responsável antes de concluir.",
+    (order) => order.technicalConclusion?.trim() ? null : "A conclusão técnica é obrigatória para concluir a OS.",
+    (_, __, { partsRequisitions }) => {
+      const pending = getPendingPartsRequisitions(partsRequisitions);
+      return pending.length === 0
+        ? null : `Requisição de peças pendente: ${pending.map(req => req.requisitionNumber).join(", ")}.`;
+    },
+  ],
+};
+
+// Empty when `next` may be saved over `current`. Orders that keep their phase
+// are not checked, so older orders can still be edited.
+export function getServiceOrderTransitionErrors(
+  current: ServiceOrder,
+  next: ServiceOrder,
+  context: ServiceOrderPhaseContext
+): string[] {
+  if (current.phase === next.phase) return [];
+  if (!canTransitionServiceOrderPhase(current.phase, next.phase)) {
+    return [isFinalServiceOrderPhase(current.phase)
+      ? `A OS está "${current.phase}" e não pode mudar de fase.`
+      : `A OS não pode passar de "${current.phase}" para "${next.phase}".`];
+  }
+  return (phaseRequirements[next.phase] || [])
+    .map(requirement => requirement(next, current, context))
+    .filter((error): error is string => error !== null);
+}
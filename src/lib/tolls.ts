@@ -0,0 +1,143 @@
+import type { RouteTollPlaza, TollCategory, TollPlaza } from "@/types";
+import { tollCategoryOptions } from "@/types";
+import type { LatLng } from "@/lib/routing";
+
+// Tolls of a trip from our own toll-plaza table: a plaza is on the route when
+// the route's polyline passes close to its coordinates. The outbound route is
+// assumed for the way back too, so a plaza charged in both directions is paid
+// twice per round trip and a one-way plaza once.
+
+export const tollCategoryLabels: Record<TollCategory, string> = {
+  "1": "Cat. 1 - Automóvel, caminhonete e furgão (2 eixos)",
+  "2": "Cat. 2 - Caminhão leve e furgão de rodagem dupla (2 eixos)",
+  "3": "Cat. 3 - Automóvel com semirreboque (3 eixos)",
+  "4": "Cat. 4 - Caminhão (3 eixos)",
+  "9": "Cat. 9 - Motocicleta",
+};
+
+// How far (in meters) the route may pass from a plaza's coordinates and still
+// go through it. Coordinates are usually taken at the middle of the booths.
+export const TOLL_PLAZA_MATCH_DISTANCE_METERS = 150;
+
+// Vehicle.kind is free text; anything not recognised is treated as a car.
+export function getTollCategoryForVehicleKind(kind: string | null | undefined): TollCategory {
+  const normalized = (kind || "").normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+  if (normalized.includes("moto")) return "9";
+  if (normalized.includes("caminhao") || normalized.includes("truck")) return normalized.includes("3 eixos") ? "4" : "2";
+  if (normalized.includes("reboque") || normalized.includes("carretinha")) return "3";
+  return "1";
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Distance from a point to a segment on a local flat projection; good to a
+// few meters at the scale of a toll plaza.
+function distanceToSegmentMeters(point: LatLng, start: LatLng, end: LatLng): number {
+  const cosLatitude = Math.cos(toRadians(point[0]));
+  const project = ([lat, lng]: LatLng) => [
+    toRadians(lng - point[1]) * cosLatitude * EARTH_RADIUS_METERS,
+    toRadians(lat - point[0]) * EARTH_RADIUS_METERS,
+  ];
+  const [ax, ay] = project(start);
+  const [bx, by] = project(end);
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+// Plazas the route goes through, in the order they are reached.
+export function findRouteTollPlazas(
+  route: LatLng[],
+  plazas: TollPlaza[],
+  category: TollCategory,
+  maxDistanceMeters = TOLL_PLAZA_MATCH_DISTANCE_METERS
+): RouteTollPlaza[] {
+  if (route.length < 2) return [];
+  return plazas
+    .map(plaza => {
+      const point: LatLng = [plaza.latitude, plaza.longitude];
+      let segmentIndex = -1;
+      for (let i = 0; i < route.length - 1; i++) {
+        if (distanceToSegmentMeters(point, route[i], route[i + 1]) <= maxDistanceMeters) {
+          segmentIndex = i;
+          break;
+        }
+      }
+      return { plaza, segmentIndex };
+    })
+    .filter(match => match.segmentIndex >= 0)
+    .sort((a, b) => a.segmentIndex - b.segmentIndex)
+    .map(({ plaza }) => ({
+      plazaId: plaza.id,
+      name: plaza.name,
+      highway: plaza.highway,
+      passages: plaza.oneWay ? 1 : 2,
+      tariff: plaza.tariffs[category] ?? 0,
+    }));
+}
+
+export const sumRouteTolls = (plazas: RouteTollPlaza[]): number =>
+  Math.round(plazas.reduce((total, plaza) => total + plaza.tariff * plaza.passages, 0) * 100) / 100;
+
+// One leg of a multi-stop route is driven in one direction only. Which way a
+// one-way plaza charges isn't recorded, so it counts for half.
+export const sumLegTolls = (plazas: RouteTollPlaza[]): number =>
+  Math.round(plazas.reduce((total, plaza) => total + (plaza.tariff * plaza.passages) / 2, 0) * 100) / 100;
+
+// --- Importação/exportação (CSV separado por ";") ---
+
+const CSV_HEADER = ["nome", "rodovia", "latitude", "longitude", "sentido_unico", ...tollCategoryOptions.map(category => `cat${category}`)];
+
+const parseDecimal = (value: string | undefined): number | null => {
+  const trimmed = (value || "").trim();
+  if (!trimmed) return null;
+  const parsed = Number(trimmed.includes(",") ? trimmed.replace(/\./g, "").replace(",", ".") : trimmed);
+  return Number.isFinite(parsed) ? parsed : NaN;
+};
+
+export function tollPlazasToCsv(plazas: TollPlaza[]): string {
+  const rows = plazas.map(plaza => [
+    plaza.name, plaza.highway, String(plaza.latitude), String(plaza.longitude), plaza.oneWay ? "sim" : "nao",
+    ...tollCategoryOptions.map(category => plaza.tariffs[category]?.toFixed(2).replace(".", ",") ?? ""),
+  ].join(";"));
+  return [CSV_HEADER.join(";"), ...rows].join("\n");
+}
+
+// One plaza per line, same columns as tollPlazasToCsv. Coordinates use a dot
+// as decimal separator; tariffs accept "12,40" or "12.40".
+export function parseTollPlazaCsv(text: string): { plazas: Omit<TollPlaza, "id">[]; errors: string[] } {
+  const plazas: Omit<TollPlaza, "id">[] = [];
+  const errors: string[] = [];
+  text.split(/\r?\n/).forEach((line, lineIndex) => {
+    const columns = line.split(";").map(column => column.trim());
+    if (!line.trim() || (lineIndex === 0 && columns[0].toLowerCase() === "nome")) return;
+    const lineNumber = lineIndex + 1;
+    const [name, highway, latitudeText, longitudeText, oneWayText, ...tariffTexts] = columns;
+    const latitude = latitudeText ? Number(latitudeText) : NaN;
+    const longitude = longitudeText ? Number(longitudeText) : NaN;
+    if (!name || !highway) {
+      errors.push(`Linha ${lineNumber}: nome e rodovia são obrigatórios.`);
+      return;
+    }
+    if (!Number.isFinite(latitude) || Math.abs(latitude) > 90 || !Number.isFinite(longitude) || Math.abs(longitude) > 180) {
+      errors.push(`Linha ${lineNumber}: coordenadas inválidas.`);
+      return;
+    }
+    const tariffs: TollPlaza["tariffs"] = {};
+    for (let position = 0; position < tollCategoryOptions.length; position++) {
+      const category = tollCategoryOptions[position];
+      const tariff = parseDecimal(tariffTexts[position]);
+      if (tariff === null) continue;
+      if (Number.isNaN(tariff) || tariff < 0) {
+        errors.push(`Linha ${lineNumber}: tarifa da categoria ${category} inválida.`);
+        return;
+      }
+      tariffs[category] = tariff;
+    }
+    plazas.push({ name, highway, latitude, longitude, oneWay: /^(s|sim|1|true)$/i.test(oneWayText || ""), tariffs });
+  });
+  return { plazas, errors };
+}
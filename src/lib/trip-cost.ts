@@ -0,0 +1,119 @@
+import { parseISO } from "date-fns";
+import type { BudgetItem, FuelingRecord, TripCostBreakdown, Vehicle } from "@/types";
+
+// Cost of a technician's round trip to the customer: fuel from the vehicle's
+// average consumption and the price paid at its last fueling, tolls, vehicle
+// wear (Vehicle.costPerKilometer) and the technician's hours on the road.
+
+// Used when the route has no duration (typed distance, simulated route).
+export const AVERAGE_TRAVEL_SPEED_KMH = 60;
+
+export interface TripCostInput {
+  roundTripDistanceKm: number;
+  roundTripTollCost: number | null | undefined;
+  // Where the toll value came from; kept on the breakdown as is.
+  tollDetails?: Pick<TripCostBreakdown, "tollSource" | "tollCategory" | "tollPlazas"> | null;
+  vehicle: Pick<Vehicle, "id" | "fuelConsumption" | "costPerKilometer" | "fuelingHistory"> | null | undefined;
+  // One-way driving time from the route, in minutes.
+  oneWayDurationMinutes?: number | null;
+  travelHourlyRate: number | null | undefined;
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export function getLatestFuelPrice(fuelingHistory: FuelingRecord[] | null | undefined): number | null {
+  const latest = (fuelingHistory || [])
+    .filter(record => record.pricePerLiter > 0)
+    .sort((a, b) => parseISO(b.date).getTime() - parseISO(a.date).getTime())[0];
+  return latest ? latest.pricePerLiter : null;
+}
+
+export function estimateTravelHours(roundTripDistanceKm: number, oneWayDurationMinutes?: number | null): number {
+  const hours = oneWayDurationMinutes && oneWayDurationMinutes > 0
+    ? (oneWayDurationMinutes * 2) / 60
+    : roundTripDistanceKm / AVERAGE_TRAVEL_SPEED_KMH;
+  return Math.round(hours * 100) / 100;
+}
+
+export function calculateTripCost(input: TripCostInput): TripCostBreakdown {
+  const distance = Math.max(input.roundTripDistanceKm, 0);
+  const consumption = input.vehicle?.fuelConsumption && input.vehicle.fuelConsumption > 0 ? input.vehicle.fuelConsumption : null;
+  const fuelPrice = getLatestFuelPrice(input.vehicle?.fuelingHistory);
+  const fuelCost = consumption && fuelPrice ? roundCurrency((distance / consumption) * fuelPrice) : 0;
+  const tollCost = roundCurrency(Math.max(input.roundTripTollCost ?? 0, 0));
+  const wearCostPerKm = Math.max(input.vehicle?.costPerKilometer ?? 0, 0);
+  const wearCost = roundCurrency(distance * wearCostPerKm);
+  const travelHours = estimateTravelHours(distance, input.oneWayDurationMinutes);
+  const travelHourlyRate = Math.max(input.travelHourlyRate ?? 0, 0);
+  const travelLaborCost = roundCurrency(travelHours * travelHourlyRate);
+
+  return {
+    vehicleId: input.vehicle?.id ?? null,
+    roundTripDistanceKm: distance,
+    fuelConsumptionKmPerLiter: consumption,
+    fuelPricePerLiter: fuelPrice,
+    fuelCost,
+    tollCost,
+    wearCostPerKm,
+    wearCost,
+    travelHours,
+    travelHourlyRate,
+    travelLaborCost,
+    totalCost: roundCurrency(fuelCost + tollCost + wearCost + travelLaborCost),
+    tollSource: input.tollDetails?.tollSource ?? null,
+    tollCategory: input.tollDetails?.tollCategory ?? null,
+    tollPlazas: input.tollDetails?.tollPlazas ?? null,
+  };
+}
+
+// A day's route cost divided among its orders. Each order pays in proportion
+// to its weight (the caller passes what a separate round trip to that
+// customer would cost in km), so a customer far out of the way still pays
+// more than one next door. Rounding leftovers go to the last order, keeping
+// the shares adding up to the route total.
+export function splitTripCost(breakdown: TripCostBreakdown, weights: number[], dailyRouteId: string): TripCostBreakdown[] {
+  const totalWeight = weights.reduce((total, weight) => total + Math.max(weight, 0), 0);
+  const shares = weights.map(weight => totalWeight > 0 ? Math.max(weight, 0) / totalWeight : 1 / weights.length);
+  const splitField = (total: number) => {
+    let assigned = 0;
+    return shares.map((share, index) => {
+      const value = index === shares.length - 1 ? roundCurrency(total - assigned) : roundCurrency(total * share);
+      assigned += value;
+      return value;
+    });
+  };
+  const distances = splitField(breakdown.roundTripDistanceKm);
+  const fuelCosts = splitField(breakdown.fuelCost);
+  const tollCosts = splitField(breakdown.tollCost);
+  const wearCosts = splitField(breakdown.wearCost);
+  const hours = splitField(breakdown.travelHours);
+  const laborCosts = splitField(breakdown.travelLaborCost);
+
+  return shares.map((share, index) => ({
+    ...breakdown,
+    roundTripDistanceKm: distances[index],
+    fuelCost: fuelCosts[index],
+    tollCost: tollCosts[index],
+    wearCost: wearCosts[index],
+    travelHours: hours[index],
+    travelLaborCost: laborCosts[index],
+    totalCost: roundCurrency(fuelCosts[index] + tollCosts[index] + wearCosts[index] + laborCosts[index]),
+    tollPlazas: null, // The route's plazas stay on the route
+    routeShare: { dailyRouteId, share: Math.round(share * 10000) / 10000, stopCount: shares.length, routeTotalCost: breakdown.totalCost },
+  }));
+}
+
+// Budget lines for the trip; parts with no cost are left out.
+export function tripCostToBudgetItems(breakdown: TripCostBreakdown): BudgetItem[] {
+  const distance = breakdown.roundTripDistanceKm.toLocaleString("pt-BR");
+  const trip = breakdown.routeShare ? "rateio do roteiro do dia" : "ida e volta";
+  const items: Omit<BudgetItem, "id" | "totalPrice">[] = [
+    { description: `Deslocamento - combustível (${distance} km ${trip})`, quantity: 1, unitPrice: breakdown.fuelCost },
+    { description: `Deslocamento - pedágios (${trip})`, quantity: 1, unitPrice: breakdown.tollCost },
+    { description: "Deslocamento - desgaste do veículo (por km)", quantity: breakdown.roundTripDistanceKm, unitPrice: breakdown.wearCostPerKm },
+    { description: "Deslocamento - horas do técnico", quantity: breakdown.travelHours, unitPrice: breakdown.travelHourlyRate },
+  ];
+  return items
+    .filter(item => item.quantity > 0 && item.unitPrice > 0)
+    .map(item => ({ ...item, id: crypto.randomUUID(), category: "Deslocamento", totalPrice: roundCurrency(item.quantity * item.unitPrice) }));
+}
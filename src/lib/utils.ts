@@ -126,7 +126,7 @@ export const formatDateForDisplay = (dateValue?: string | Timestamp | Date | nul
 };
 
 // Address Formatting Utility
-export const formatAddressForDisplay = (addressSource: Customer | Company | null | undefined): string => {
+export const formatAddressForDisplay = (addressSource: Pick<Customer, "street" | "number" | "complement" | "neighborhood" | "city" | "state" | "cep"> | null | undefined): string => {
   if (!addressSource) return "Não fornecido";
 
   const parts: string[] = [];
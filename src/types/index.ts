@@ -27,6 +27,7 @@ export interface Customer {
   state: string;
   preferredTechnician?: string | null;
   notes?: string;
+  coordinates?: GeoCoordinates | null;
 }
 
 export const maquinaTypeOptions = [
@@ -82,6 +83,8 @@ export interface Maquina {
   errorCodesUrl?: string | null;
   imageUrls?: string[] | null;
   linkedAuxiliaryEquipmentIds?: string[] | null;
+  // Last hour-meter threshold that got a preventive OS, by maintenance plan id.
+  preventiveMaintenanceHours?: Record<string, number> | null;
 }
 
 export const serviceTypeOptionsList = [
@@ -125,6 +128,49 @@ export interface ServiceOrder {
   estimatedTollCosts?: number | null;
   estimatedTravelCost?: number | null;
   machineStatusBeforeOs?: typeof maquinaOperationalStatusOptions[number] | null; // Added field
+  maintenancePlanIds?: string[] | null; // Set on preventive orders generated from maintenance plans
+  maintenanceDueHours?: number | null; // Hour meter that triggered them
+  customerSignature?: ServiceOrderSignature | null; // Collected on screen when the order is concluded
+  travelCostBreakdown?: TripCostBreakdown | null; // How estimatedTravelCost was reached (src/lib/trip-cost.ts)
+  visitWindowStart?: string | null; // "HH:mm", when the customer can receive the technician
+  visitWindowEnd?: string | null;
+  dailyRouteId?: string | null; // Set when the travel cost is a share of a multi-stop route
+}
+
+// Round-trip cost of sending a technician to the customer, in BRL.
+export interface TripCostBreakdown {
+  vehicleId: string | null;
+  roundTripDistanceKm: number;
+  fuelConsumptionKmPerLiter: number | null;
+  fuelPricePerLiter: number | null; // Latest fueling of the vehicle
+  fuelCost: number;
+  tollCost: number;
+  tollSource?: TollCostSource | null;
+  tollCategory?: TollCategory | null;
+  tollPlazas?: RouteTollPlaza[] | null; // When tollSource is "Praças de pedágio"
+  wearCostPerKm: number;
+  wearCost: number;
+  travelHours: number;
+  travelHourlyRate: number; // Rate of the technician's role
+  travelLaborCost: number;
+  totalCost: number;
+  routeShare?: TripCostRouteShare | null; // When the trip is part of a day's route
+}
+
+// This order's part of a multi-stop route: every cost above is already
+// multiplied by `share`.
+export interface TripCostRouteShare {
+  dailyRouteId: string;
+  share: number; // 0..1
+  stopCount: number;
+  routeTotalCost: number;
+}
+
+export interface ServiceOrderSignature {
+  signerName: string;
+  signerDocument: string; // CPF or RG of whoever signed for the customer
+  imageUrl: string;
+  signedAt: string; // ISO
 }
 
 export const roleOptionsList = [
@@ -139,6 +185,8 @@ export interface Technician {
   specialization?: string;
   phone?: string;
   imageUrl?: string | null; // Added field for technician profile image URL
+  email?: string | null; // Login e-mail (Firebase Auth) used to link the user to this record
+  authUid?: string | null; // Firebase Auth uid, filled in on the first sign-in
 }
 
 export interface Company {
@@ -158,6 +206,16 @@ export interface Company {
   bankAgency?: string;
   bankAccount?: string;
   bankPixKey?: string;
+  // Boleto issuing (cobrança registrada), agreed with the bank
+  bankCode?: BoletoBankCode;
+  boletoWallet?: string; // Carteira
+  boletoAgreement?: string; // Convênio / código do beneficiário
+  // Budget taxes, in percent (src/lib/budget-totals.ts)
+  issRate?: number;
+  icmsRate?: number;
+  ipiRate?: number;
+  budgetFollowUpDays?: number; // Days without an answer before a sent budget is followed up; 0 or missing uses the default
+  coordinates?: GeoCoordinates | null;
 }
 
 export interface FuelingRecord {
@@ -225,13 +283,44 @@ export const budgetStatusOptions = [
   "Pendente", "Enviado", "Aprovado", "Recusado", "Cancelado"
 ] as const;
 export type BudgetStatusType = typeof budgetStatusOptions[number];
+// "Expirado" is not stored: a budget still waiting for an answer after its
+// validity is shown as expired (src/lib/budget-funnel.ts).
+export type BudgetDisplayStatus = BudgetStatusType | "Expirado";
+export const budgetDisplayStatusOptions: readonly BudgetDisplayStatus[] = [...budgetStatusOptions, "Expirado"];
+
+export const budgetRefusalReasonOptions = [
+  "Preço", "Prazo de Entrega", "Concorrência", "Sem Necessidade", "Sem Retorno", "Outro"
+] as const;
+export type BudgetRefusalReason = typeof budgetRefusalReasonOptions[number];
+
+export const budgetItemCategoryOptions = ["Peça", "Mão de Obra", "Deslocamento", "Terceiros"] as const;
+export type BudgetItemCategory = typeof budgetItemCategoryOptions[number];
+
+export const discountTypeOptions = ["percent", "value"] as const;
+export type DiscountType = typeof discountTypeOptions[number];
+
+export interface BudgetDiscount {
+  type: DiscountType;
+  value: number; // Percent (0-100) or R$
+}
+
+// Rates of the issuing company when the budget was saved, in percent.
+export interface BudgetTaxRates {
+  iss: number;
+  icms: number;
+  ipi: number;
+}
 
 export interface BudgetItem {
   id: string;
   description: string;
   quantity: number;
   unitPrice: number;
-  totalPrice?: number;
+  totalPrice?: number; // After the item's own discount
+  category?: BudgetItemCategory; // Items saved before categories count as "Peça"
+  discount?: BudgetDiscount | null;
+  catalogItemId?: string | null; // When picked from the catalog
+  unitCost?: number | null; // Catalog cost when picked; internal, for the margin
 }
 
 export interface Budget {
@@ -249,6 +338,85 @@ export interface Budget {
   validUntilDate?: string | null;
   notes?: string | null;
   serviceOrderCreated?: boolean | null;
+  paidDate?: string | null; // Set when its boleto is settled (bank return file)
+  companyId?: CompanyId; // Issuer: numbering, header and tax rates; Gold Maq when missing
+  discount?: BudgetDiscount | null; // Over the items' subtotal
+  taxRates?: BudgetTaxRates | null;
+  revision?: number; // 0 for the original proposal, shown as -R1, -R2... after
+  sentRevision?: number | null; // Last revision sent to the customer
+  approvedRevision?: number | null; // Revision the approval refers to
+  approvalLinkId?: string | null; // Current public approval link (BudgetApprovalLink)
+  customerResponse?: BudgetCustomerResponse | null; // Last answer given through the link
+  customerResponseHandled?: boolean; // The linked OS already followed the answer
+  sentDate?: string | null; // First time it reached the customer
+  decisionDate?: string | null; // Approved or refused here; link answers keep theirs in customerResponse
+  refusalReason?: BudgetRefusalReason | null;
+  lastFollowUpDate?: string | null; // Last contact about a budget waiting for an answer
+  followUpCount?: number;
+}
+
+// --- Aprovação pelo Cliente ---
+export const budgetCustomerDecisionOptions = ["Aprovado", "Recusado"] as const;
+export type BudgetCustomerDecision = typeof budgetCustomerDecisionOptions[number];
+
+export interface BudgetCustomerResponse {
+  decision: BudgetCustomerDecision;
+  name: string; // Who answered, as typed on the approval page
+  cnpj: string; // Digits only; must match the customer's CNPJ/CPF
+  comment: string | null;
+  respondedAt: string; // ISO
+}
+
+// Without the CNPJ/CPF, which the customer types to answer the link.
+export type BudgetApprovalCustomer = Pick<Customer, "name" | "street" | "number" | "complement" | "neighborhood" | "city" | "state" | "cep">;
+export type BudgetApprovalEquipment = Pick<Maquina, "brand" | "model" | "chassisNumber" | "manufactureYear">;
+export type BudgetApprovalCompany = Pick<Company,
+  "id" | "name" | "cnpj" | "street" | "number" | "complement" | "neighborhood" | "city" | "state" | "cep" | "phone" | "email"
+  | "bankName" | "bankAgency" | "bankAccount" | "bankPixKey">;
+
+// Public, login-free approval page for one budget revision. The document id is
+// the unguessable token in the link, and the document carries everything the
+// page shows, since the customer cannot read budgets, customers or companies.
+export interface BudgetApprovalLink {
+  id: string;
+  budgetId: string;
+  budgetNumber: string;
+  revision: number;
+  createdDate: string;
+  items: BudgetItem[];
+  shippingCost: number | null;
+  discount: BudgetDiscount | null;
+  taxRates: BudgetTaxRates | null;
+  subtotal: number;
+  totalAmount: number;
+  validUntilDate: string;
+  notes: string | null;
+  serviceOrderNumber: string | null;
+  customer: BudgetApprovalCustomer;
+  equipment: BudgetApprovalEquipment | null;
+  company: BudgetApprovalCompany | null;
+  expiresAt: string; // End of the validity day
+  createdAt: string;
+  response: BudgetCustomerResponse | null;
+}
+
+// A budget revision as it was sent or approved (src/lib/budget-revisions.ts).
+// Never changed once written; the budget document holds the revision being
+// worked on.
+export interface BudgetRevision {
+  id: string; // `${budgetId}_R${revision}`
+  budgetId: string;
+  budgetNumber: string;
+  revision: number;
+  items: BudgetItem[];
+  shippingCost: number | null;
+  discount: BudgetDiscount | null;
+  taxRates: BudgetTaxRates | null;
+  subtotal: number;
+  totalAmount: number;
+  validUntilDate: string | null;
+  notes: string | null;
+  frozenAt: string; // ISO
 }
 
 // --- Requisição de Peças ---
@@ -271,7 +439,9 @@ export interface PartsRequisitionItem {
   status: PartsRequisitionItemStatusType;
   triageNotes?: string | null;
   warehouseNotes?: string | null;
-  estimatedCost?: number | null;
+  estimatedCost?: number | null; // Starts at the catalog cost when picked from it
+  catalogItemId?: string | null;
+  partCode?: string | null;
 }
 
 export interface PartsRequisition {
@@ -286,6 +456,400 @@ export interface PartsRequisition {
   generalNotes?: string | null;
 }
 
+// --- Horímetro e manutenção preventiva ---
+export const hourMeterReadingSourceOptions = ["Leitura", "Cadastro"] as const;
+export type HourMeterReadingSource = typeof hourMeterReadingSourceOptions[number];
+
+export interface HourMeterReading {
+  id: string;
+  equipmentId: string;
+  hours: number;
+  readingDate: string; // yyyy-MM-dd
+  source: HourMeterReadingSource; // "Cadastro" when the hour meter was edited in the machine form
+  recordedByName?: string | null;
+  notes?: string | null;
+}
+
+// A plan with no equipment type or brand applies to every machine.
+export interface MaintenancePlan {
+  id: string;
+  name: string;
+  equipmentType?: string | null;
+  brand?: string | null;
+  intervalHours: number; // A preventive OS every N hours (250, 500, 1000...)
+  warningHours: number; // Listed as upcoming on the dashboard this many hours before
+  tasks: string; // Copied to the description of the generated OS
+  active: boolean;
+}
+
+export type PreventiveMaintenanceDueStatus = "Vencida" | "Próxima";
+
+// --- Apontamento de horas ---
+export const laborTimeKindOptions = ["Deslocamento", "Atendimento"] as const;
+export type LaborTimeKind = typeof laborTimeKindOptions[number];
+
+// One check-in/check-out of a technician on an OS; an order may have entries
+// from several technicians. The hourly rate is copied at check-out, so a later
+// rate change does not alter the cost of work already done.
+export interface LaborTimeEntry {
+  id: string;
+  serviceOrderId: string;
+  technicianId: string;
+  technicianName: string;
+  kind: LaborTimeKind;
+  checkIn: string; // ISO date-time
+  checkOut?: string | null; // ISO date-time; null while the technician is still working
+  hourlyRate?: number | null;
+  notes?: string | null;
+}
+
+// Hourly labor rate of a collaborator role; the document id is the role.
+export interface LaborRate {
+  role: typeof roleOptionsList[number];
+  hourlyRate: number;
+}
+
+// --- Checklists de serviço ---
+export const checklistResultOptions = ["OK", "NOK", "N/A"] as const;
+export type ChecklistResult = typeof checklistResultOptions[number];
+
+export interface ChecklistTemplateItem {
+  id: string; // UUID
+  label: string;
+}
+
+// Inspection steps for one service type, optionally narrowed to a machine type;
+// without a machine type the template covers every machine.
+export interface ChecklistTemplate {
+  id: string;
+  name: string;
+  serviceType: typeof serviceTypeOptionsList[number];
+  equipmentType?: string | null;
+  items: ChecklistTemplateItem[];
+  active: boolean;
+}
+
+export interface ServiceOrderChecklistItem {
+  id: string; // Same id as the template item it came from
+  label: string;
+  result?: ChecklistResult | null;
+  notes?: string | null;
+  photoUrl?: string | null;
+  partsRequisitionId?: string | null; // Opened from a NOK item
+  budgetId?: string | null;
+}
+
+// The checklist filled in on an OS; the document id is the order id. Items are
+// copied from the template, so editing the template does not change it.
+export interface ServiceOrderChecklist {
+  id: string;
+  serviceOrderId: string;
+  templateId: string;
+  templateName: string;
+  items: ServiceOrderChecklistItem[];
+  updatedAt?: string | null; // ISO
+  updatedByName?: string | null;
+}
+
+// --- Praças de pedágio ---
+// ANTT vehicle categories: 1 car/van/pickup (2 axles, single tyres), 2 light
+// truck (2 axles, dual tyres), 3 car with trailer (3 axles), 4 truck (3 axles),
+// 9 motorcycle.
+export const tollCategoryOptions = ["1", "2", "3", "4", "9"] as const;
+export type TollCategory = typeof tollCategoryOptions[number];
+
+export interface TollPlaza {
+  id: string;
+  name: string;
+  highway: string;
+  latitude: number;
+  longitude: number;
+  oneWay: boolean; // Charged in one direction only: once per round trip
+  tariffs: Partial<Record<TollCategory, number>>; // BRL per passage
+}
+
+export const tollCostSourceOptions = ["Praças de pedágio", "Estimativa IA", "Manual"] as const;
+export type TollCostSource = typeof tollCostSourceOptions[number];
+
+export interface RouteTollPlaza {
+  plazaId: string;
+  name: string;
+  highway: string;
+  passages: number; // In the round trip
+  tariff: number;
+}
+
+// --- Rotas ---
+export const routingProviderOptions = ["google", "osrm", "graphhopper", "stub"] as const;
+export type RoutingProviderName = typeof routingProviderOptions[number];
+
+// Geocoded position of an address. Only valid while addressKey still matches
+// the address it is stored on (see getAddressKey in src/lib/routing).
+export interface GeoCoordinates {
+  latitude: number;
+  longitude: number;
+  addressKey: string;
+  provider: RoutingProviderName;
+}
+
+// One-way route between two addresses, cached by their address keys.
+export interface CachedRoute {
+  id: string;
+  originKey: string;
+  destinationKey: string;
+  provider: RoutingProviderName;
+  distanceKm: number;
+  durationMinutes: number | null;
+  routePolyline: string | null;
+  tollsIndicated: boolean;
+  estimatedTollCostByAI: number | null; // One way, BRL
+  calculatedAt: string; // ISO
+}
+
+// --- Roteiro do dia ---
+// A technician's visits on one day, in one vehicle, starting and ending at the
+// Goldmaq address. Keyed by technician and date.
+export interface DailyRouteStop {
+  serviceOrderId: string;
+  orderNumber: string;
+  customerId: string;
+  windowStart: string | null; // Visit window used for the plan, "HH:mm"
+  windowEnd: string | null;
+  legDistanceKm: number; // From the previous stop (or the company)
+  legTollCost: number;
+  arrivalTime: string; // "HH:mm"
+  departureTime: string;
+  lateMinutes: number; // Arrival after the visit window closed
+  costShare: number; // 0..1 of the route cost
+}
+
+export interface DailyRoute {
+  id: string;
+  technicianId: string;
+  vehicleId: string | null;
+  date: string; // yyyy-MM-dd
+  startTime: string; // "HH:mm", leaving the company
+  serviceMinutes: number; // Time planned at each customer
+  stops: DailyRouteStop[];
+  returnDistanceKm: number;
+  returnTime: string;
+  totalDistanceKm: number;
+  totalTollCost: number;
+  costBreakdown: TripCostBreakdown; // Whole route; each order gets its share
+  updatedAt?: string | null; // ISO
+  updatedByName?: string | null;
+}
+
+// --- Catálogo de peças e serviços ---
+export const catalogItemKindOptions = ["Peça", "Serviço"] as const;
+export type CatalogItemKind = typeof catalogItemKindOptions[number];
+
+export const servicePricingOptions = ["Por Hora", "Preço Fixo"] as const;
+export type ServicePricingType = typeof servicePricingOptions[number];
+
+export interface CatalogItem {
+  id: string;
+  kind: CatalogItemKind;
+  code: string; // Unique, upper case
+  description: string;
+  compatibleBrands: string[]; // Parts; empty fits any machine
+  compatibleModels: string[];
+  costPrice: number | null;
+  salePrice: number; // Per unit, per hour or per job (services' `pricing`)
+  pricing?: ServicePricingType | null; // Services only
+  active: boolean; // Inactive items stay on old budgets but are not suggested
+}
+
+// --- Contratos de locação ---
+export const rentalContractStatusOptions = ["Aguardando Início", "Ativo", "Encerrado", "Cancelado"] as const;
+export type RentalContractStatusType = typeof rentalContractStatusOptions[number];
+
+export const readjustmentIndexOptions = ["IGP-M", "IPCA", "INPC", "Sem reajuste"] as const;
+export type ReadjustmentIndexType = typeof readjustmentIndexOptions[number];
+
+export interface RentalContract {
+  id: string;
+  contractNumber: string;
+  companyId: CompanyId; // Lessor: header of the PDF and numbering sequence
+  customerId: string;
+  equipmentIds: string[];
+  auxiliaryEquipmentIds: string[];
+  startDate: string; // yyyy-MM-dd
+  endDate?: string | null; // yyyy-MM-dd, empty for open-ended contracts
+  monthlyValue: number;
+  depositValue?: number | null;
+  readjustmentIndex: ReadjustmentIndexType;
+  status: RentalContractStatusType;
+  notes?: string | null;
+}
+
+// --- Faturamento de locação ---
+// "Vencida" is not stored: an open invoice past its due date is shown as overdue.
+export const invoiceStatusOptions = ["Em Aberto", "Paga", "Cancelada"] as const;
+export type InvoiceStatusType = typeof invoiceStatusOptions[number];
+export type InvoiceDisplayStatus = InvoiceStatusType | "Vencida";
+
+export const invoiceItemKindOptions = ["Locação", "Horas Excedentes", "Avaria", "Outros"] as const;
+export type InvoiceItemKind = typeof invoiceItemKindOptions[number];
+
+export interface InvoiceItem {
+  id: string;
+  kind: InvoiceItemKind;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice?: number;
+}
+
+export interface Invoice {
+  id: string;
+  invoiceNumber: string;
+  companyId: CompanyId; // Issuer: numbering sequence and bank/PIX data of the PDF
+  contractId: string;
+  customerId: string;
+  referenceMonth: string; // yyyy-MM
+  periodStart: string; // yyyy-MM-dd, billed days of the month (prorated when partial)
+  periodEnd: string; // yyyy-MM-dd
+  issueDate: string; // yyyy-MM-dd
+  dueDate: string; // yyyy-MM-dd
+  items: InvoiceItem[];
+  totalAmount: number;
+  status: InvoiceStatusType;
+  paidDate?: string | null; // yyyy-MM-dd
+  notes?: string | null;
+}
+
+// --- Boletos (cobrança bancária) ---
+// Banks whose boleto layout ("campo livre") and CNAB files are supported.
+export const boletoBankCodes = ["001", "033", "104", "237", "341"] as const;
+export type BoletoBankCode = typeof boletoBankCodes[number];
+
+export const boletoBankNames: Record<BoletoBankCode, string> = {
+  "001": "Banco do Brasil",
+  "033": "Santander",
+  "104": "Caixa Econômica Federal",
+  "237": "Bradesco",
+  "341": "Itaú",
+};
+
+export const boletoStatusOptions = ["Emitido", "Remessa Enviada", "Pago", "Baixado"] as const;
+export type BoletoStatusType = typeof boletoStatusOptions[number];
+
+export const boletoSourceTypeOptions = ["invoice", "budget"] as const;
+export type BoletoSourceType = typeof boletoSourceTypeOptions[number];
+
+export const boletoSourceTypeLabels: Record<BoletoSourceType, string> = {
+  invoice: "Fatura",
+  budget: "Orçamento",
+};
+
+export const cnabLayoutOptions = ["240", "400"] as const;
+export type CnabLayout = typeof cnabLayoutOptions[number];
+
+export interface Boleto {
+  id: string;
+  companyId: CompanyId; // Beneficiary: bank account and nosso número sequence
+  bankCode: BoletoBankCode;
+  wallet: string;
+  beneficiaryCode: string; // "Agência / Código do Beneficiário" as printed
+  ourNumber: string; // Sequence taken from the company's counter
+  bankOurNumber: string; // Nosso número in the bank's format, as printed and sent in the CNAB files
+  sourceType: BoletoSourceType;
+  sourceId: string;
+  sourceNumber: string;
+  customerId: string;
+  amount: number;
+  issueDate: string; // yyyy-MM-dd
+  dueDate: string; // yyyy-MM-dd
+  barcode: string; // 44 digits
+  digitableLine: string; // Linha digitável, formatted
+  status: BoletoStatusType;
+  remittanceId?: string | null;
+  paidDate?: string | null; // yyyy-MM-dd
+  paidAmount?: number | null;
+}
+
+export interface BoletoRemittance {
+  id: string;
+  remittanceNumber: string;
+  companyId: CompanyId;
+  bankCode: BoletoBankCode;
+  layout: CnabLayout;
+  boletoIds: string[];
+  fileName: string;
+  createdDate: string;
+}
+
+// --- Histórico (auditoria) ---
+export const auditEntityTypeOptions = [
+  "customer", "maquina", "auxiliaryEquipment", "serviceOrder", "budget",
+  "partsRequisition", "technician", "vehicle", "company", "rentalContract", "invoice",
+  "boleto", "boletoRemittance", "hourMeterReading", "maintenancePlan", "laborTimeEntry", "laborRate",
+  "checklistTemplate", "serviceOrderChecklist", "tollPlaza", "dailyRoute", "catalogItem",
+] as const;
+export type AuditEntityType = typeof auditEntityTypeOptions[number];
+
+export const auditActionOptions = ["create", "update", "delete"] as const;
+export type AuditAction = typeof auditActionOptions[number];
+
+export interface AuditFieldChange {
+  field: string;
+  itemId?: string | null; // Set when the change is inside an array of items (budget items, requisition parts...)
+  itemLabel?: string | null;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  changes: AuditFieldChange[];
+  actorUid: string | null;
+  actorTechnicianId: string | null;
+  actorName: string | null;
+  timestamp: string;
+}
+
+// --- Numeração de documentos ---
+export const numberedDocumentTypeOptions = [
+  "serviceOrder", "budget", "partsRequisition", "rentalContract", "invoice", "boleto", "boletoRemittance",
+] as const;
+export type NumberedDocumentType = typeof numberedDocumentTypeOptions[number];
+
+export const numberedDocumentTypeLabels: Record<NumberedDocumentType, string> = {
+  serviceOrder: "Ordens de Serviço",
+  budget: "Orçamentos",
+  partsRequisition: "Requisições de Peças",
+  rentalContract: "Contratos de Locação",
+  invoice: "Faturas de Locação",
+  boleto: "Boletos (Nosso Número)",
+  boletoRemittance: "Remessas de Boleto (CNAB)",
+};
+
+// Format of the numbers issued for one document type of one company,
+// e.g. prefix "OS-" + yearly reset + padding 4 => "OS-2026-0412".
+export interface DocumentNumberingSettings {
+  prefix: string;
+  padding: number;
+  yearlyReset: boolean;
+}
+
+export interface DocumentCounter extends DocumentNumberingSettings {
+  id: string;
+  documentType: NumberedDocumentType;
+  companyId: CompanyId;
+  year: number; // Year of the last issued number (only meaningful with yearlyReset)
+  lastNumber: number;
+  initialized: boolean; // False until the first number is issued (or the settings are saved)
+}
+
+export interface DocumentNumberDuplicate {
+  number: string;
+  documents: { id: string; createdDate: string | null }[];
+}
+
 const requiredString = (field: string) => z.string().min(1, `${field} é obrigatório.`);
 
 // Helper para formatar data para yyyy-MM-dd ANTES da validação/transformação de Zod
@@ -363,6 +927,7 @@ export const MaquinaSchema = z.object({
     .max(5, "Máximo de 5 imagens por máquina")
     .nullable()
     .optional(),
+  preventiveMaintenanceHours: z.record(z.number().min(0)).optional().nullable(),
 }).refine(data => {
   if (data.ownerReference === OWNER_REF_CUSTOMER && !data.customerId) {
     return false;
@@ -380,6 +945,13 @@ export const TechnicianSchema = z.object({
   specialization: z.string().optional(),
   phone: z.string().optional().transform(val => val ? val.replace(/\D/g, '') : undefined),
   imageUrl: z.string().url("URL da imagem de perfil inválida.").optional().nullable(),
+  email: z.union([z.literal(""), z.string().email("E-mail de acesso inválido.")]).optional().nullable()
+    .transform(val => val ? val.trim().toLowerCase() : null),
+});
+
+export const LoginSchema = z.object({
+  email: z.string().email("Informe um e-mail válido."),
+  password: requiredString("Senha"),
 });
 
 export const FuelingRecordSchema = z.object({
@@ -454,6 +1026,8 @@ export const VehicleSchema = z.object({
 });
 
 
+const taxRateSchema = z.coerce.number().min(0, "Alíquota não pode ser negativa").max(100, "Alíquota deve ser no máximo 100%");
+
 export const CompanySchema = z.object({
   id: z.enum(companyIds),
   name: requiredString("Nome da empresa"),
@@ -471,6 +1045,24 @@ export const CompanySchema = z.object({
   bankAgency: z.string().optional().nullable().transform(val => val || undefined),
   bankAccount: z.string().optional().nullable().transform(val => val || undefined),
   bankPixKey: z.string().optional().nullable().transform(val => val || undefined),
+  bankCode: z.enum(boletoBankCodes).optional().nullable().transform(val => val || undefined),
+  boletoWallet: z.string().optional().nullable().transform(val => val || undefined),
+  boletoAgreement: z.string().regex(/^\d*$/, "Use apenas números").optional().nullable().transform(val => val || undefined),
+  issRate: taxRateSchema.optional(),
+  icmsRate: taxRateSchema.optional(),
+  ipiRate: taxRateSchema.optional(),
+  budgetFollowUpDays: z.coerce.number().int("Use um número inteiro de dias").min(0, "Prazo não pode ser negativo").max(90, "Prazo deve ser de no máximo 90 dias").optional(),
+});
+
+export const DocumentNumberingSettingsSchema = z.object({
+  prefix: z.string().max(10, "Prefixo deve ter no máximo 10 caracteres").regex(/^[A-Za-z0-9./-]*$/, "Use apenas letras, números, '.', '/' ou '-'"),
+  padding: z.coerce.number().int("Use um número inteiro").min(0, "Mínimo 0").max(8, "Máximo 8"),
+  yearlyReset: z.boolean(),
+  // Empty keeps the current value.
+  lastNumber: z.preprocess(
+    value => (value === "" || value === null ? undefined : value),
+    z.coerce.number().int("Use um número inteiro").min(0, "Deve ser zero ou positivo").optional()
+  ),
 });
 
 export const AuxiliaryEquipmentSchema = z.object({
@@ -495,12 +1087,207 @@ export const AuxiliaryEquipmentSchema = z.object({
 });
 
 
+export const HourMeterReadingSchema = z.object({
+  equipmentId: requiredString("Máquina"),
+  hours: z.coerce.number().min(0, "Horímetro deve ser positivo ou zero"),
+  readingDate: requiredString("Data da leitura").refine(val => isValidDate(parseISO(val)), "Data da leitura inválida"),
+  source: z.enum(hourMeterReadingSourceOptions),
+  recordedByName: z.string().optional().nullable(),
+  notes: z.string().optional().nullable(),
+});
+
+export const MaintenancePlanSchema = z.object({
+  name: requiredString("Nome do plano"),
+  equipmentType: z.string().optional().nullable(),
+  brand: z.string().optional().nullable(),
+  intervalHours: z.coerce.number().int("Use horas inteiras").positive("Intervalo deve ser maior que zero"),
+  warningHours: z.coerce.number().int("Use horas inteiras").min(0, "Antecedência não pode ser negativa"),
+  tasks: requiredString("Serviços do plano"),
+  active: z.boolean(),
+}).refine(data => data.warningHours < data.intervalHours, {
+  message: "A antecedência deve ser menor que o intervalo.",
+  path: ["warningHours"],
+});
+
+export const LaborTimeEntrySchema = z.object({
+  serviceOrderId: requiredString("Ordem de serviço"),
+  technicianId: requiredString("Técnico"),
+  technicianName: requiredString("Nome do técnico"),
+  kind: z.enum(laborTimeKindOptions),
+  checkIn: requiredString("Início").refine(val => isValidDate(parseISO(val)), "Início inválido"),
+  checkOut: z.string().optional().nullable().refine(val => !val || isValidDate(parseISO(val)), "Fim inválido"),
+  hourlyRate: z.number().min(0).optional().nullable(),
+  notes: z.string().optional().nullable(),
+}).refine(data => !data.checkOut || parseISO(data.checkOut) > parseISO(data.checkIn), {
+  message: "O fim deve ser depois do início.",
+  path: ["checkOut"],
+});
+
+export const ChecklistTemplateSchema = z.object({
+  name: requiredString("Nome do checklist"),
+  serviceType: z.enum(serviceTypeOptionsList, { required_error: "Tipo de serviço é obrigatório." }),
+  equipmentType: z.string().optional().nullable(),
+  items: z.array(z.object({
+    id: z.string().uuid(),
+    label: requiredString("Item do checklist"),
+  })).min(1, "O checklist deve ter pelo menos um item.").max(60, "Máximo de 60 itens."),
+  active: z.boolean(),
+});
+
+export const ServiceOrderChecklistSchema = z.object({
+  serviceOrderId: requiredString("Ordem de serviço"),
+  templateId: requiredString("Modelo de checklist"),
+  templateName: requiredString("Nome do checklist"),
+  items: z.array(z.object({
+    id: requiredString("Item"),
+    label: requiredString("Item do checklist"),
+    result: z.enum(checklistResultOptions).optional().nullable(),
+    notes: z.string().optional().nullable(),
+    photoUrl: z.string().url("URL da foto inválida").optional().nullable(),
+    partsRequisitionId: z.string().optional().nullable(),
+    budgetId: z.string().optional().nullable(),
+  })).min(1).max(60),
+  updatedByName: z.string().optional().nullable(),
+});
+
+export const TollPlazaSchema = z.object({
+  name: requiredString("Nome da praça"),
+  highway: requiredString("Rodovia"),
+  latitude: z.coerce.number().min(-90, "Latitude inválida").max(90, "Latitude inválida"),
+  longitude: z.coerce.number().min(-180, "Longitude inválida").max(180, "Longitude inválida"),
+  oneWay: z.boolean(),
+  tariffs: z.object(Object.fromEntries(
+    tollCategoryOptions.map(category => [category, z.coerce.number().min(0, "Tarifa não pode ser negativa").nullable().optional()])
+  ) as Record<TollCategory, z.ZodOptional<z.ZodNullable<z.ZodNumber>>>),
+});
+
+export const CatalogItemSchema = z.object({
+  kind: z.enum(catalogItemKindOptions),
+  code: requiredString("Código"),
+  description: requiredString("Descrição"),
+  compatibleBrands: z.array(z.string()).default([]),
+  compatibleModels: z.array(z.string()).default([]),
+  costPrice: z.coerce.number().min(0, "Custo não pode ser negativo").nullable().optional(),
+  salePrice: z.coerce.number().min(0, "Preço de venda não pode ser negativo"),
+  pricing: z.enum(servicePricingOptions).nullable().optional(),
+  active: z.boolean().default(true),
+}).refine(item => item.kind !== "Serviço" || !!item.pricing, {
+  message: "Informe se o serviço é cobrado por hora ou preço fixo",
+  path: ["pricing"],
+});
+
+export const LaborRateSchema = z.object({
+  role: z.enum(roleOptionsList),
+  hourlyRate: z.coerce.number().min(0, "Valor hora não pode ser negativo"),
+});
+
+export const RentalContractSchema = z.object({
+  contractNumber: requiredString("Número do contrato"),
+  companyId: z.enum(companyIds, { required_error: "Empresa locadora é obrigatória" }),
+  customerId: requiredString("Cliente"),
+  equipmentIds: z.array(z.string()).min(1, "Selecione ao menos uma máquina"),
+  auxiliaryEquipmentIds: z.array(z.string()),
+  startDate: requiredString("Data de início").refine(val => isValidDate(parseISO(val)), "Data de início inválida"),
+  endDate: z.string().optional().nullable().refine(val => !val || isValidDate(parseISO(val)), "Data de término inválida"),
+  monthlyValue: z.coerce.number().positive("Valor mensal deve ser maior que zero"),
+  depositValue: z.coerce.number().min(0, "Caução não pode ser negativa").optional().nullable(),
+  readjustmentIndex: z.enum(readjustmentIndexOptions, { required_error: "Índice de reajuste é obrigatório" }),
+  status: z.enum(rentalContractStatusOptions, { required_error: "Status é obrigatório" }),
+  notes: z.string().optional().nullable(),
+}).refine(data => !data.endDate || data.endDate >= data.startDate, {
+  message: "Data de término deve ser igual ou posterior à data de início.",
+  path: ["endDate"],
+});
+
+const isValidMonth = (val: string) => /^\d{4}-(0[1-9]|1[0-2])$/.test(val);
+
+export const InvoiceItemSchema = z.object({
+  id: z.string().min(1, "ID do item é obrigatório (normalmente UUID)"),
+  kind: z.enum(invoiceItemKindOptions, { required_error: "Tipo da cobrança é obrigatório" }),
+  description: requiredString("Descrição da cobrança"),
+  quantity: z.coerce.number().min(0.01, "Quantidade deve ser maior que zero"),
+  unitPrice: z.coerce.number().min(0, "Valor unitário não pode ser negativo"),
+  totalPrice: z.coerce.number().optional(),
+});
+
+export const InvoiceSchema = z.object({
+  invoiceNumber: requiredString("Número da fatura"),
+  companyId: z.enum(companyIds, { required_error: "Empresa emissora é obrigatória" }),
+  contractId: requiredString("Contrato"),
+  customerId: requiredString("Cliente"),
+  referenceMonth: requiredString("Mês de referência").refine(isValidMonth, "Mês de referência inválido"),
+  periodStart: requiredString("Início do período").refine(val => isValidDate(parseISO(val)), "Início do período inválido"),
+  periodEnd: requiredString("Fim do período").refine(val => isValidDate(parseISO(val)), "Fim do período inválido"),
+  issueDate: requiredString("Data de emissão").refine(val => isValidDate(parseISO(val)), "Data de emissão inválida"),
+  dueDate: requiredString("Vencimento").refine(val => isValidDate(parseISO(val)), "Vencimento inválido"),
+  items: z.array(InvoiceItemSchema).min(1, "Fatura deve ter pelo menos uma cobrança"),
+  totalAmount: z.coerce.number().optional(),
+  status: z.enum(invoiceStatusOptions, { required_error: "Status é obrigatório" }),
+  paidDate: z.string().optional().nullable().refine(val => !val || isValidDate(parseISO(val)), "Data de pagamento inválida"),
+  notes: z.string().optional().nullable(),
+}).refine(data => data.status !== "Paga" || !!data.paidDate, {
+  message: "Informe a data do pagamento.",
+  path: ["paidDate"],
+});
+
+export const BillingRunSchema = z.object({
+  referenceMonth: requiredString("Mês de referência").refine(isValidMonth, "Mês de referência inválido"),
+  dueDate: requiredString("Vencimento").refine(val => isValidDate(parseISO(val)), "Vencimento inválido"),
+  companyId: z.enum(companyIds).optional().nullable(),
+});
+
+export const BoletoSchema = z.object({
+  companyId: z.enum(companyIds, { required_error: "Empresa beneficiária é obrigatória" }),
+  bankCode: z.enum(boletoBankCodes, { required_error: "Banco é obrigatório" }),
+  wallet: requiredString("Carteira"),
+  beneficiaryCode: requiredString("Código do beneficiário"),
+  ourNumber: requiredString("Nosso número").regex(/^\d+$/, "Nosso número deve conter apenas números"),
+  bankOurNumber: requiredString("Nosso número"),
+  sourceType: z.enum(boletoSourceTypeOptions, { required_error: "Origem é obrigatória" }),
+  sourceId: requiredString("Documento de origem"),
+  sourceNumber: requiredString("Número do documento de origem"),
+  customerId: requiredString("Cliente"),
+  amount: z.coerce.number().positive("Valor deve ser maior que zero"),
+  issueDate: requiredString("Data de emissão").refine(val => isValidDate(parseISO(val)), "Data de emissão inválida"),
+  dueDate: requiredString("Vencimento").refine(val => isValidDate(parseISO(val)), "Vencimento inválido"),
+  barcode: z.string().regex(/^\d{44}$/, "Código de barras inválido"),
+  digitableLine: requiredString("Linha digitável"),
+  status: z.enum(boletoStatusOptions, { required_error: "Status é obrigatório" }),
+  remittanceId: z.string().optional().nullable(),
+  paidDate: z.string().optional().nullable().refine(val => !val || isValidDate(parseISO(val)), "Data de pagamento inválida"),
+  paidAmount: z.coerce.number().min(0).optional().nullable(),
+});
+
+export const IssueBoletoSchema = z.object({
+  sourceType: z.enum(boletoSourceTypeOptions, { required_error: "Origem é obrigatória" }),
+  sourceId: requiredString("Documento"),
+  dueDate: requiredString("Vencimento").refine(val => isValidDate(parseISO(val)), "Vencimento inválido"),
+});
+
+export const DiscountSchema = z.object({
+  type: z.enum(discountTypeOptions),
+  value: z.coerce.number().min(0, "Desconto não pode ser negativo"),
+}).refine(discount => discount.type !== "percent" || discount.value <= 100, {
+  message: "Desconto percentual não pode passar de 100%",
+  path: ["value"],
+});
+
+export const BudgetTaxRatesSchema = z.object({
+  iss: taxRateSchema,
+  icms: taxRateSchema,
+  ipi: taxRateSchema,
+});
+
 export const BudgetItemSchema = z.object({
   id: z.string().min(1, "ID do item é obrigatório (normalmente UUID)"),
   description: requiredString("Descrição do item"),
   quantity: z.coerce.number().min(0.01, "Quantidade deve ser maior que zero"),
   unitPrice: z.coerce.number().min(0, "Preço unitário não pode ser negativo"),
   totalPrice: z.coerce.number().optional(),
+  category: z.enum(budgetItemCategoryOptions).default("Peça"),
+  discount: DiscountSchema.optional().nullable(),
+  catalogItemId: z.string().optional().nullable(),
+  unitCost: z.coerce.number().min(0).optional().nullable(),
 });
 
 export const BudgetSchema = z.object({
@@ -517,6 +1304,21 @@ export const BudgetSchema = z.object({
   validUntilDate: z.string().optional().nullable().refine(val => !val || isValidDate(parseISO(val)), "Data de validade inválida"),
   notes: z.string().optional().nullable(),
   serviceOrderCreated: z.boolean().optional().nullable(),
+  paidDate: z.string().optional().nullable().refine(val => !val || isValidDate(parseISO(val)), "Data de pagamento inválida"),
+  companyId: z.enum(companyIds).optional(),
+  discount: DiscountSchema.optional().nullable(),
+  taxRates: BudgetTaxRatesSchema.optional().nullable(),
+  revision: z.number().int().min(0).optional(),
+  sentRevision: z.number().int().min(0).nullable().optional(),
+  approvedRevision: z.number().int().min(0).nullable().optional(),
+  refusalReason: z.enum(budgetRefusalReasonOptions).nullable().optional(),
+});
+
+export const BudgetCustomerResponseSchema = z.object({
+  decision: z.enum(budgetCustomerDecisionOptions),
+  name: requiredString("Nome do responsável"),
+  cnpj: z.string().transform(val => val.replace(/\D/g, "")).refine(val => val.length === 11 || val.length === 14, "Informe o CNPJ ou CPF completo"),
+  comment: z.string().max(1000, "Comentário muito longo").optional().nullable(),
 });
 
 // --- Requisição de Peças Schemas ---
@@ -530,6 +1332,8 @@ export const PartsRequisitionItemSchema = z.object({
   triageNotes: z.string().optional().nullable(),
   warehouseNotes: z.string().optional().nullable(),
   estimatedCost: z.coerce.number().min(0, "Custo estimado não pode ser negativo.").optional().nullable(),
+  catalogItemId: z.string().optional().nullable(),
+  partCode: z.string().optional().nullable(),
 });
 
 export const PartsRequisitionSchema = z.object({
@@ -550,6 +1354,46 @@ export const PartsRequisitionSchema = z.object({
   generalNotes: z.string().optional().nullable(),
 });
 
+export const ServiceOrderSignatureSchema = z.object({
+  signerName: requiredString("Nome de quem assina"),
+  signerDocument: requiredString("Documento de quem assina"),
+  imageUrl: z.string().url("URL da assinatura inválida"),
+  signedAt: z.string().refine(val => isValidDate(parseISO(val)), "Data da assinatura inválida"),
+});
+
+export const TripCostBreakdownSchema = z.object({
+  vehicleId: z.string().nullable(),
+  roundTripDistanceKm: z.number().min(0),
+  fuelConsumptionKmPerLiter: z.number().positive().nullable(),
+  fuelPricePerLiter: z.number().min(0).nullable(),
+  fuelCost: z.number().min(0),
+  tollCost: z.number().min(0),
+  tollSource: z.enum(tollCostSourceOptions).nullable().optional(),
+  tollCategory: z.enum(tollCategoryOptions).nullable().optional(),
+  tollPlazas: z.array(z.object({
+    plazaId: z.string(),
+    name: z.string(),
+    highway: z.string(),
+    passages: z.number().int().min(1),
+    tariff: z.number().min(0),
+  })).nullable().optional(),
+  wearCostPerKm: z.number().min(0),
+  wearCost: z.number().min(0),
+  travelHours: z.number().min(0),
+  travelHourlyRate: z.number().min(0),
+  travelLaborCost: z.number().min(0),
+  totalCost: z.number().min(0),
+  routeShare: z.object({
+    dailyRouteId: z.string(),
+    share: z.number().min(0).max(1),
+    stopCount: z.number().int().min(1),
+    routeTotalCost: z.number().min(0),
+  }).nullable().optional(),
+});
+
+const visitTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use o formato HH:mm").nullable().optional()
+  .or(z.literal("").transform(() => null));
+
 export const ServiceOrderSchema = z.object({
   orderNumber: requiredString("Número da ordem"),
   customerId: requiredString("Cliente"),
@@ -570,6 +1414,16 @@ export const ServiceOrderSchema = z.object({
   estimatedTollCosts: z.coerce.number().min(0, "Custo de pedágio deve ser positivo ou zero").optional().nullable(),
   estimatedTravelCost: z.coerce.number().min(0, "Custo de viagem deve ser positivo ou zero").optional().nullable(),
   machineStatusBeforeOs: z.enum(maquinaOperationalStatusOptions).nullable().optional(),
+  maintenancePlanIds: z.array(z.string()).nullable().optional(),
+  maintenanceDueHours: z.coerce.number().min(0).nullable().optional(),
+  customerSignature: ServiceOrderSignatureSchema.nullable().optional(),
+  travelCostBreakdown: TripCostBreakdownSchema.nullable().optional(),
+  visitWindowStart: visitTimeSchema,
+  visitWindowEnd: visitTimeSchema,
+  dailyRouteId: z.string().nullable().optional(),
+}).refine(data => !data.visitWindowStart || !data.visitWindowEnd || data.visitWindowStart < data.visitWindowEnd, {
+  message: "O fim da janela deve ser depois do início.",
+  path: ["visitWindowEnd"],
 }).refine(data => {
   if (data.serviceType === '_CUSTOM_' && (!data.customServiceType || data.customServiceType.trim() === "")) {
     return false;
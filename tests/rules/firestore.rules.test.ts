@@ -0,0 +1,308 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+import { assertFails, assertSucceeds, type RulesTestEnvironment } from "@firebase/rules-unit-testing";
+import { Timestamp } from "firebase/firestore";
+import firebase from "firebase/compat/app";
+import "firebase/compat/firestore";
+import { hasPermission } from "@/lib/permissions";
+import { hasEmulators, initRulesTestEnvironment, roles, seedStaff, staffContext, technicianIdFor } from "./rules-test-env";
+
+const customer = {
+  name: "Cliente Teste Ltda",
+  cnpj: "12.345.678/0001-90",
+  street: "Rua das Empilhadeiras",
+  neighborhood: "Centro",
+  city: "São Paulo",
+  state: "SP",
+};
+
+const maquina = {
+  brand: "Toyota",
+  model: "8FBE15",
+  chassisNumber: "CH-0001",
+  equipmentType: "Empilhadeira Elétrica",
+  operationalStatus: "Disponível",
+};
+
+const serviceOrder = (technicianId: string | null) => ({
+  orderNumber: "OS-0001",
+  customerId: "cliente-1",
+  equipmentId: "maquina-1",
+  serviceType: "Manutenção Corretiva",
+  description: "Vazamento no cilindro de elevação",
+  phase: "Aguardando Avaliação Técnica",
+  technicianId,
+});
+
+const budget = () => ({
+  budgetNumber: "ORC-0001",
+  serviceOrderId: "os-outro",
+  customerId: "cliente-1",
+  equipmentId: "maquina-1",
+  status: "Pendente",
+  items: [{ description: "Troca de retentores", quantity: 1, unitPrice: 350 }],
+  totalAmount: 350,
+  createdDate: Timestamp.now(),
+});
+
+// Each role is checked against src/lib/permissions.ts, so the rules and the
+// matrix the UI uses cannot drift apart unnoticed.
+describe.skipIf(!hasEmulators)("firestore.rules", () => {
+  let testEnv: RulesTestEnvironment;
+
+  beforeAll(async () => {
+    testEnv = await initRulesTestEnvironment();
+  });
+
+  afterAll(async () => {
+    await testEnv?.cleanup();
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await seedStaff(testEnv);
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      await db.doc("clientes/cliente-1").set(customer);
+      await db.doc("equipamentos/maquina-1").set(maquina);
+      await db.doc("ordensDeServico/os-tecnico").set(serviceOrder(technicianIdFor("Técnico")));
+      await db.doc("ordensDeServico/os-outro").set(serviceOrder("tecnico-sem-login"));
+      await db.doc("budgets/orcamento-1").set(budget());
+      await db.doc("tecnicos/tecnico-novo").set({ name: "Novo Colaborador", role: "Gerência", email: "novo@goldmaq.com.br" });
+    });
+  });
+
+  describe("identity", () => {
+    it("denies visitors who are not signed in", async () => {
+      const db = testEnv.unauthenticatedContext().firestore();
+      await assertFails(db.doc("clientes/cliente-1").get());
+      await assertFails(db.doc("tecnicos/tecnico-novo").get());
+    });
+
+    it("denies signed-in users not linked to a collaborator", async () => {
+      const db = testEnv.authenticatedContext("uid-estranho", { email: "estranho@example.com", email_verified: true }).firestore();
+      await assertFails(db.doc("clientes/cliente-1").get());
+      await assertFails(db.doc("tecnicos/tecnico-novo").get());
+    });
+
+    it("does not let an unverified e-mail find or claim the record registered with it", async () => {
+      const db = testEnv.authenticatedContext("uid-novo", { email: "novo@goldmaq.com.br", email_verified: false }).firestore();
+      await assertFails(db.doc("tecnicos/tecnico-novo").get());
+      const batch = db.batch();
+      batch.update(db.doc("tecnicos/tecnico-novo"), { authUid: "uid-novo" });
+      batch.set(db.doc("usuarios/uid-novo"), { technicianId: "tecnico-novo" });
+      await assertFails(batch.commit());
+    });
+
+    it("lets a verified e-mail claim its record once", async () => {
+      const db = testEnv.authenticatedContext("uid-novo", { email: "novo@goldmaq.com.br", email_verified: true }).firestore();
+      await assertSucceeds(db.doc("tecnicos/tecnico-novo").get());
+      const batch = db.batch();
+      batch.update(db.doc("tecnicos/tecnico-novo"), { authUid: "uid-novo" });
+      batch.set(db.doc("usuarios/uid-novo"), { technicianId: "tecnico-novo" });
+      await assertSucceeds(batch.commit());
+      await assertSucceeds(db.doc("clientes/cliente-1").get());
+
+      const otherDb = testEnv.authenticatedContext("uid-outro", { email: "novo@goldmaq.com.br", email_verified: true }).firestore();
+      await assertFails(otherDb.doc("tecnicos/tecnico-novo").update({ authUid: "uid-outro" }));
+    });
+
+    it("does not accept a pointer to a record claimed by someone else", async () => {
+      const db = testEnv.authenticatedContext("uid-intruso", { email: "intruso@example.com", email_verified: true }).firestore();
+      await assertFails(db.doc("usuarios/uid-intruso").set({ technicianId: technicianIdFor("Gerência") }));
+    });
+
+    it("revokes access when a manager unlinks the record", async () => {
+      const managerDb = staffContext(testEnv, "Gerência").firestore();
+      await assertSucceeds(managerDb.doc(`tecnicos/${technicianIdFor("Vendas")}`).update({ authUid: null }));
+      await assertFails(staffContext(testEnv, "Vendas").firestore().doc("clientes/cliente-1").get());
+    });
+  });
+
+  describe.each(roles)("role %s", (role) => {
+    const expectAllowed = (allowed: boolean, operation: Promise<unknown>) =>
+      allowed ? assertSucceeds(operation) : assertFails(operation);
+
+    it("reads reference data", async () => {
+      const db = staffContext(testEnv, role).firestore();
+      await assertSucceeds(db.doc("clientes/cliente-1").get());
+      await assertSucceeds(db.doc("equipamentos/maquina-1").get());
+    });
+
+    it("creates customers only with customers:manage", async () => {
+      const db = staffContext(testEnv, role).firestore();
+      await expectAllowed(hasPermission(role, "customers:manage"), db.doc("clientes/cliente-novo").set(customer));
+    });
+
+    it("creates machines only with maquinas:manage", async () => {
+      const db = staffContext(testEnv, role).firestore();
+      await expectAllowed(hasPermission(role, "maquinas:manage"), db.doc("equipamentos/maquina-nova").set(maquina));
+    });
+
+    it("edits collaborators only with technicians:manage", async () => {
+      const db = staffContext(testEnv, role).firestore();
+      await expectAllowed(hasPermission(role, "technicians:manage"), db.doc("tecnicos/tecnico-novo").update({ phone: "(11) 4000-0000" }));
+    });
+
+    it("reads other technicians' service orders only with serviceOrders:viewAll", async () => {
+      const db = staffContext(testEnv, role).firestore();
+      await expectAllowed(hasPermission(role, "serviceOrders:viewAll"), db.doc("ordensDeServico/os-outro").get());
+    });
+
+    it("opens service orders only with serviceOrders:manage", async () => {
+      const db = staffContext(testEnv, role).firestore();
+      await expectAllowed(hasPermission(role, "serviceOrders:manage"), db.doc("ordensDeServico/os-nova").set(serviceOrder(null)));
+    });
+
+    it("reads budgets with budgets:view or for parts triage", async () => {
+      const db = staffContext(testEnv, role).firestore();
+      const allowed = hasPermission(role, "budgets:view") || hasPermission(role, "partsTriage:work");
+      await expectAllowed(allowed, db.doc("budgets/orcamento-1").get());
+    });
+
+    it("creates budgets only with budgets:manage", async () => {
+      const db = staffContext(testEnv, role).firestore();
+      await expectAllowed(hasPermission(role, "budgets:manage"), db.doc("budgets/orcamento-novo").set(budget()));
+    });
+
+    it("approves budgets only with budgets:approve", async () => {
+      const db = staffContext(testEnv, role).firestore();
+      await expectAllowed(hasPermission(role, "budgets:approve"), db.doc("budgets/orcamento-1").update({ status: "Aprovado" }));
+    });
+  });
+
+  describe("assigned technician", () => {
+    it("works their own service order but cannot hand it over", async () => {
+      const db = staffContext(testEnv, "Técnico").firestore();
+      await assertSucceeds(db.doc("ordensDeServico/os-tecnico").get());
+      await assertSucceeds(db.doc("ordensDeServico/os-tecnico").update({ notes: "Cilindro desmontado" }));
+      await assertFails(db.doc("ordensDeServico/os-tecnico").update({ technicianId: "tecnico-sem-login" }));
+      await assertFails(db.doc("ordensDeServico/os-outro").update({ notes: "Não é minha" }));
+    });
+
+    it("concludes only with a technical conclusion", async () => {
+      const db = staffContext(testEnv, "Técnico").firestore();
+      await assertFails(db.doc("ordensDeServico/os-tecnico").update({ phase: "Concluída" }));
+      await assertSucceeds(db.doc("ordensDeServico/os-tecnico").update({ phase: "Concluída", technicalConclusion: "Retentores trocados" }));
+    });
+
+    it("cancels the open budgets of their own order together with it, and nothing else", async () => {
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        await context.firestore().doc("budgets/orcamento-tecnico").set({ ...budget(), serviceOrderId: "os-tecnico" });
+      });
+      const db = staffContext(testEnv, "Técnico").firestore();
+      await assertSucceeds(db.collection("budgets").where("serviceOrderId", "==", "os-tecnico").get());
+      await assertFails(db.doc("budgets/orcamento-tecnico").update({ status: "Cancelado" }));
+      await assertFails(db.doc("budgets/orcamento-tecnico").update({ status: "Aprovado" }));
+
+      const batch = db.batch();
+      batch.update(db.doc("ordensDeServico/os-tecnico"), { phase: "Cancelada" });
+      batch.update(db.doc("budgets/orcamento-tecnico"), { status: "Cancelado" });
+      await assertSucceeds(batch.commit());
+    });
+  });
+
+  describe("public approval link", () => {
+    const answer = (cnpj: string) => ({
+      decision: "Aprovado",
+      name: "Comprador do Cliente",
+      cnpj,
+      comment: null,
+      respondedAt: firebase.firestore.FieldValue.serverTimestamp(),
+    });
+
+    const submit = (cnpj: string) => {
+      const db = testEnv.unauthenticatedContext().firestore();
+      const response = answer(cnpj);
+      const batch = db.batch();
+      batch.update(db.doc("aprovacoesOrcamento/link-1"), { response });
+      batch.update(db.doc("budgets/orcamento-1"), {
+        status: "Aprovado", customerResponse: response, customerResponseHandled: false, approvedRevision: 0,
+      });
+      return batch.commit();
+    };
+
+    beforeEach(async () => {
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        const db = context.firestore();
+        const { createdDate, ...content } = budget();
+        await db.doc("aprovacoesOrcamento/link-1").set({
+          ...content,
+          budgetId: "orcamento-1",
+          revision: 0,
+          createdDate,
+          validUntilDate: Timestamp.fromMillis(Date.now() + 86_400_000),
+          customer: { name: customer.name, city: customer.city, state: customer.state },
+          expiresAt: Timestamp.fromMillis(Date.now() + 86_400_000),
+          createdAt: Timestamp.now(),
+          response: null,
+        });
+        await db.doc("aprovacoesOrcamentoConferencia/link-1").set({ budgetId: "orcamento-1", cnpj: "12345678000190" });
+        await db.doc("budgets/orcamento-1").update({ status: "Enviado", approvalLinkId: "link-1", sentRevision: 0 });
+      });
+    });
+
+    it("is read by token, but the CNPJ/CPF it is checked against is not", async () => {
+      const db = testEnv.unauthenticatedContext().firestore();
+      await assertSucceeds(db.doc("aprovacoesOrcamento/link-1").get());
+      await assertFails(db.doc("aprovacoesOrcamentoConferencia/link-1").get());
+      await assertFails(db.collection("aprovacoesOrcamento").get());
+    });
+
+    it("takes the answer only with the customer's CNPJ/CPF, and only once", async () => {
+      await assertFails(submit("11222333000181"));
+      await assertSucceeds(submit("12345678000190"));
+      await assertFails(submit("12345678000190"));
+    });
+
+    it("is not created with the CNPJ/CPF readable on it", async () => {
+      const db = staffContext(testEnv, "Gerência").firestore();
+      const link = {
+        budgetId: "orcamento-1",
+        budgetNumber: "ORC-0001",
+        revision: 0,
+        items: budget().items,
+        totalAmount: 350,
+        validUntilDate: Timestamp.fromMillis(Date.now() + 86_400_000),
+        customer: { name: customer.name },
+        expiresAt: Timestamp.fromMillis(Date.now() + 86_400_000),
+        createdAt: firebase.firestore.FieldValue.serverTimestamp(),
+        response: null,
+      };
+      const create = (data: object, withCheck: boolean) => {
+        const batch = db.batch();
+        batch.set(db.doc("aprovacoesOrcamento/link-2"), data);
+        if (withCheck) batch.set(db.doc("aprovacoesOrcamentoConferencia/link-2"), { budgetId: "orcamento-1", cnpj: "12345678000190" });
+        return batch.commit();
+      };
+      await assertFails(create({ ...link, customer: { name: customer.name, cnpj: customer.cnpj } }, true));
+      await assertFails(create(link, false));
+      await assertSucceeds(create(link, true));
+    });
+  });
+
+  describe("approved budget", () => {
+    beforeEach(async () => {
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        await context.firestore().doc("budgets/orcamento-1").update({ status: "Aprovado", revision: 0, approvedRevision: 0 });
+      });
+    });
+
+    it("keeps the approved terms, discount and taxes included, until reopened", async () => {
+      const db = staffContext(testEnv, "Gerência").firestore();
+      await assertFails(db.doc("budgets/orcamento-1").update({ discount: { type: "percent", value: 10 }, totalAmount: 315 }));
+      await assertFails(db.doc("budgets/orcamento-1").update({ taxRates: { iss: 5, icms: 0, ipi: 0 } }));
+      await assertFails(db.doc("budgets/orcamento-1").update({ items: [{ description: "Troca de retentores", quantity: 2, unitPrice: 350 }] }));
+      await assertSucceeds(db.doc("budgets/orcamento-1").update({ serviceOrderCreated: true }));
+    });
+  });
+
+  describe("document shapes", () => {
+    it("rejects documents missing required fields", async () => {
+      const db = staffContext(testEnv, "Gerência").firestore();
+      const { name: _name, ...customerWithoutName } = customer;
+      await assertFails(db.doc("clientes/cliente-novo").set(customerWithoutName));
+      await assertFails(db.doc("equipamentos/maquina-nova").set({ ...maquina, operationalStatus: "Emprestada" }));
+      await assertFails(db.doc("budgets/orcamento-novo").set({ ...budget(), items: [] }));
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { initializeTestEnvironment, type RulesTestEnvironment } from "@firebase/rules-unit-testing";
+import { roleOptionsList } from "@/types";
+import type { RoleType } from "@/lib/permissions";
+
+// Set by `npm run test:rules`, which starts the emulators around the run; a
+// plain `npm test` skips the rules suites.
+export const hasEmulators = !!process.env.FIRESTORE_EMULATOR_HOST;
+
+export const roles: readonly RoleType[] = roleOptionsList;
+
+const slug = (role: RoleType) => role.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+
+export const uidFor = (role: RoleType) => `uid-${slug(role)}`;
+export const technicianIdFor = (role: RoleType) => `tecnico-${slug(role)}`;
+export const emailFor = (role: RoleType) => `${slug(role)}@goldmaq.com.br`;
+
+export async function initRulesTestEnvironment(): Promise<RulesTestEnvironment> {
+  const rootDir = path.resolve(__dirname, "../..");
+  return initializeTestEnvironment({
+    projectId: "demo-gold-maq",
+    firestore: { rules: readFileSync(path.join(rootDir, "firestore.rules"), "utf8") },
+    storage: { rules: readFileSync(path.join(rootDir, "storage.rules"), "utf8") },
+  });
+}
+
+// One linked collaborator per role, as fetchTechnicianForAuthUser leaves them.
+export async function seedStaff(testEnv: RulesTestEnvironment): Promise<void> {
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    for (const role of roles) {
+      await db.doc(`tecnicos/${technicianIdFor(role)}`).set({
+        name: `Colaborador ${role}`,
+        role,
+        email: emailFor(role),
+        authUid: uidFor(role),
+      });
+      await db.doc(`usuarios/${uidFor(role)}`).set({ technicianId: technicianIdFor(role) });
+    }
+  });
+}
+
+export const staffContext = (testEnv: RulesTestEnvironment, role: RoleType) =>
+  testEnv.authenticatedContext(uidFor(role), { email: emailFor(role), email_verified: true });
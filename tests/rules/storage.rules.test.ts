@@ -0,0 +1,55 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+import { assertFails, assertSucceeds, type RulesTestContext, type RulesTestEnvironment } from "@firebase/rules-unit-testing";
+import { hasPermission } from "@/lib/permissions";
+import { hasEmulators, initRulesTestEnvironment, roles, seedStaff, staffContext } from "./rules-test-env";
+
+const upload = (context: RulesTestContext, filePath: string, contentType: string) =>
+  context.storage().ref(filePath).putString("conteudo", "raw", { contentType }).then();
+
+// Storage resolves the role through Firestore, so both emulators must run.
+describe.skipIf(!hasEmulators)("storage.rules", () => {
+  let testEnv: RulesTestEnvironment;
+
+  beforeAll(async () => {
+    testEnv = await initRulesTestEnvironment();
+  });
+
+  afterAll(async () => {
+    await testEnv?.cleanup();
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await testEnv.clearStorage();
+    await seedStaff(testEnv);
+  });
+
+  it("denies visitors and users not linked to a collaborator", async () => {
+    await assertFails(upload(testEnv.unauthenticatedContext(), "service_order_media/os-1/foto.jpg", "image/jpeg"));
+    const stranger = testEnv.authenticatedContext("uid-estranho", { email: "estranho@example.com", email_verified: true });
+    await assertFails(upload(stranger, "service_order_media/os-1/foto.jpg", "image/jpeg"));
+  });
+
+  describe.each(roles)("role %s", (role) => {
+    it("attaches service order photos", async () => {
+      await assertSucceeds(upload(staffContext(testEnv, role), "service_order_media/os-1/foto.jpg", "image/jpeg"));
+    });
+
+    it("uploads collaborator photos only with technicians:manage", async () => {
+      const operation = upload(staffContext(testEnv, role), "technician_images/tecnico-1/foto.png", "image/png");
+      await (hasPermission(role, "technicians:manage") ? assertSucceeds(operation) : assertFails(operation));
+    });
+
+    it("uploads machine images only with maquinas:manage", async () => {
+      const operation = upload(staffContext(testEnv, role), "equipment_images/maquina-1/foto.jpg", "image/jpeg");
+      await (hasPermission(role, "maquinas:manage") ? assertSucceeds(operation) : assertFails(operation));
+    });
+  });
+
+  it("rejects files of the wrong type", async () => {
+    const manager = staffContext(testEnv, "Gerência");
+    await assertFails(upload(manager, "technician_images/tecnico-1/curriculo.pdf", "application/pdf"));
+    await assertFails(upload(manager, "service_order_signatures/os-1/assinatura.jpg", "image/jpeg"));
+    await assertSucceeds(upload(manager, "service_order_signatures/os-1/assinatura.png", "image/png"));
+  });
+});